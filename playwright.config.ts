@@ -82,6 +82,8 @@ export default defineConfig({
     url: "http://localhost:3000",
     reuseExistingServer: !process.env.CI,
     timeout: 120000,
+    // Sign-in tests use the demo accounts
+    env: { SEED_DEMO_USERS: "true" },
   },
 
   /* Test timeout */
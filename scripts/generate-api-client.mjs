@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+
+/**
+ * Writes src/lib/api/client.ts from the API operations.
+ *
+ * The operations are TypeScript with `@/` imports, so they are loaded through
+ * a Vite server using the Vitest config's aliases.
+ */
+
+import { writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+import { createViteServer } from "vitest/node";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const output = path.join(root, "src/lib/api/client.ts");
+
+const server = await createViteServer({
+  root,
+  configFile: path.join(root, "vitest.config.mts"),
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+try {
+  const { buildOpenApiDocument } = await server.ssrLoadModule("/src/lib/api/openapi.ts");
+  const { generateApiClient } = await server.ssrLoadModule("/src/lib/api/client-generator.ts");
+
+  await writeFile(output, generateApiClient(buildOpenApiDocument()));
+  console.log(`Wrote ${path.relative(root, output)}`);
+} finally {
+  await server.close();
+}
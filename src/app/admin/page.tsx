@@ -1,10 +1,19 @@
 import { redirect } from "next/navigation";
 
+import { AccessExplainPanel } from "@/components/admin/access-explain-panel";
+import { InvitationsPanel } from "@/components/admin/invitations-panel";
+import { ReactivationRequestsPanel } from "@/components/admin/reactivation-requests-panel";
+import { RoleGrantsPanel } from "@/components/admin/role-grants-panel";
+import { RoleManagementPanel } from "@/components/admin/role-management-panel";
 import { UserManagementTable } from "@/components/admin/user-management-table";
 import { auth } from "@/lib/auth";
-import { hasPermission } from "@/lib/auth/permissions";
-import { getUsers } from "@/lib/auth/user-service";
-import { Permission } from "@/types/auth";
+import { listInvitations } from "@/lib/auth/invitations";
+import { getAccountLockouts } from "@/lib/auth/login-throttle";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { listReactivationRequests } from "@/lib/auth/reactivation-requests";
+import { listRoleGrants } from "@/lib/auth/role-grants";
+import { getRoles } from "@/lib/auth/role-service";
+import { queryUsers, sanitizeUser } from "@/lib/auth/user-service";
 
 export default async function AdminPage() {
   const session = await auth();
@@ -14,15 +23,23 @@ export default async function AdminPage() {
     redirect("/login");
   }
 
-  // Check MANAGE_USER_ROLES permission
-  const canManageUsers = await hasPermission(session.user as any, Permission.MANAGE_USER_ROLES);
+  // Same check as /api/admin/*
+  const canManageUsers = await canAccessAdminConsole(session.user as any);
 
   if (!canManageUsers) {
     redirect("/dashboard");
   }
 
-  // Fetch users
-  const { users, total } = await getUsers({ limit: 100 });
+  // Fetch the first page of users, roles, invitations, reactivation requests and temporary roles
+  const [{ users, total, nextCursor }, roles, invitations, reactivationRequests, roleGrants] =
+    await Promise.all([
+      queryUsers(),
+      getRoles(),
+      listInvitations(),
+      listReactivationRequests(),
+      listRoleGrants(),
+    ]);
+  const lockouts = await getAccountLockouts(users);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -31,7 +48,52 @@ export default async function AdminPage() {
         <p className="text-muted-foreground">Manage user accounts, roles, and permissions</p>
       </div>
 
-      <UserManagementTable users={users} total={total} />
+      <UserManagementTable
+        users={users.map(sanitizeUser)}
+        total={total}
+        nextCursor={nextCursor}
+        roles={roles}
+        lockouts={lockouts}
+      />
+
+      <div className="mt-12 mb-4">
+        <h2 className="mb-2 text-2xl font-bold">Temporary Roles</h2>
+        <p className="text-muted-foreground">
+          Time-bound role requests and grants; roles revert when they expire
+        </p>
+      </div>
+
+      <RoleGrantsPanel grants={roleGrants} />
+
+      <div className="mt-12 mb-4">
+        <h2 className="mb-2 text-2xl font-bold">Reactivation Requests</h2>
+        <p className="text-muted-foreground">Deactivated users asking for their accounts back</p>
+      </div>
+
+      <ReactivationRequestsPanel requests={reactivationRequests} />
+
+      <div className="mt-12 mb-4">
+        <h2 className="mb-2 text-2xl font-bold">Invitations</h2>
+        <p className="text-muted-foreground">Invite people to join with a preassigned role</p>
+      </div>
+
+      <InvitationsPanel invitations={invitations} roles={roles} />
+
+      <div className="mt-12 mb-4">
+        <h2 className="mb-2 text-2xl font-bold">Roles</h2>
+        <p className="text-muted-foreground">Define custom roles and the permissions they grant</p>
+      </div>
+
+      <RoleManagementPanel roles={roles} />
+
+      <div className="mt-12 mb-4">
+        <h2 className="mb-2 text-2xl font-bold">Explain Access</h2>
+        <p className="text-muted-foreground">
+          See why a user can or cannot open a page or hold a permission
+        </p>
+      </div>
+
+      <AccessExplainPanel users={users.map(sanitizeUser)} />
     </div>
   );
 }
@@ -0,0 +1,159 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+import type { HttpMethod, JsonSchema, OpenApiOperation } from "@/types/openapi";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "API Reference",
+};
+
+const METHOD_VARIANTS: Record<HttpMethod, "default" | "secondary" | "destructive" | "outline"> = {
+  get: "secondary",
+  head: "outline",
+  post: "default",
+  put: "default",
+  patch: "default",
+  delete: "destructive",
+};
+
+// Name of a referenced component schema, or a short description of an inline one
+function schemaLabel(schema: JsonSchema | undefined): string | null {
+  if (!schema) {
+    return null;
+  }
+  if (schema.$ref) {
+    return schema.$ref.split("/").pop() ?? null;
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map(schemaLabel).filter(Boolean).join(" | ");
+  }
+  return (
+    schema.contentMediaType ?? (Array.isArray(schema.type) ? schema.type[0] : schema.type) ?? null
+  );
+}
+
+function authLabel(operation: OpenApiOperation): string {
+  const schemes = operation.security.flatMap(requirement => Object.keys(requirement));
+  if (schemes.length === 0) {
+    return "Public";
+  }
+  return schemes.includes("apiToken") ? "Session or API token" : "Session";
+}
+
+interface DocumentedOperation {
+  method: HttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+}
+
+/**
+ * API reference, rendered from the same document served at /api/openapi.json
+ */
+export default function ApiDocsPage() {
+  const document = buildOpenApiDocument();
+
+  const operations: DocumentedOperation[] = Object.entries(document.paths).flatMap(
+    ([path, methods]) =>
+      Object.entries(methods).map(([method, operation]) => ({
+        method: method as HttpMethod,
+        path,
+        operation: operation as OpenApiOperation,
+      }))
+  );
+
+  return (
+    <div className="container mx-auto space-y-8 py-10">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">{document.info.title}</h1>
+        <p className="text-muted-foreground">{document.info.description}</p>
+        <p className="text-sm">
+          OpenAPI {document.openapi} document:{" "}
+          <a href="/api/openapi.json" className="text-primary underline">
+            /api/openapi.json
+          </a>
+        </p>
+      </div>
+
+      {document.tags.map(tag => {
+        const tagged = operations.filter(({ operation }) => operation.tags.includes(tag.name));
+        if (tagged.length === 0) {
+          return null;
+        }
+
+        return (
+          <Card key={tag.name}>
+            <CardHeader>
+              <CardTitle>{tag.name}</CardTitle>
+              {tag.description && <CardDescription>{tag.description}</CardDescription>}
+            </CardHeader>
+            <CardContent className="divide-y">
+              {tagged.map(({ method, path, operation }) => {
+                const body = operation.requestBody?.content["application/json"]?.schema;
+
+                return (
+                  <section
+                    key={operation.operationId}
+                    id={operation.operationId}
+                    className="space-y-2 py-4 first:pt-0 last:pb-0"
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={METHOD_VARIANTS[method]} className="font-mono uppercase">
+                        {method}
+                      </Badge>
+                      <code className="text-sm">{path}</code>
+                      <span className="text-muted-foreground text-sm">{operation.summary}</span>
+                    </div>
+                    {operation.description && (
+                      <p className="text-muted-foreground text-sm">{operation.description}</p>
+                    )}
+                    <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                      <dt className="font-medium">Auth</dt>
+                      <dd>
+                        {authLabel(operation)}
+                        {operation["x-permissions"] &&
+                          ` (${operation["x-permissions"].join(", ")})`}
+                      </dd>
+                      {operation.parameters && (
+                        <>
+                          <dt className="font-medium">Parameters</dt>
+                          <dd className="font-mono">
+                            {operation.parameters
+                              .map(parameter => `${parameter.name} (${parameter.in})`)
+                              .join(", ")}
+                          </dd>
+                        </>
+                      )}
+                      {body && (
+                        <>
+                          <dt className="font-medium">Body</dt>
+                          <dd className="font-mono">{schemaLabel(body)}</dd>
+                        </>
+                      )}
+                      <dt className="font-medium">Responses</dt>
+                      <dd>
+                        <ul>
+                          {Object.entries(operation.responses).map(([status, response]) => {
+                            const content = Object.values(response.content ?? {})[0];
+                            const label = schemaLabel(content?.schema);
+                            return (
+                              <li key={status}>
+                                <span className="font-mono">{status}</span> {response.description}
+                                {label && <span className="font-mono"> → {label}</span>}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </dd>
+                    </dl>
+                  </section>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logInvitationEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { INVITATIONS } from "@/lib/auth/constants";
+import { resendInvitation, sendInvitationEmail } from "@/lib/auth/invitations";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/admin/invitations/[id]/resend - Send a fresh accept link. The
+ * previous link stops working and the expiry starts again.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const resent = await resendInvitation(id, INVITATIONS.DEFAULT_EXPIRY);
+    if (!resent) {
+      return NextResponse.json({ message: "Invitation cannot be resent" }, { status: 404 });
+    }
+
+    const delivery = await sendInvitationEmail({
+      ...resent,
+      invitedBy: session.user.name ?? session.user.email ?? null,
+    });
+
+    await logInvitationEvent({
+      userId: session.user.id!,
+      event: "resent",
+      invitationId: resent.invitation.id,
+      email: resent.invitation.email,
+      role: resent.invitation.role,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ invitation: resent.invitation, ...delivery });
+  } catch (error) {
+    console.error("Error resending invitation:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { logInvitationEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { revokeInvitation } from "@/lib/auth/invitations";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * DELETE /api/admin/invitations/[id] - Revoke a pending invitation
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const invitation = await revokeInvitation(id);
+    if (!invitation) {
+      return NextResponse.json({ message: "Pending invitation not found" }, { status: 404 });
+    }
+
+    await logInvitationEvent({
+      userId: session.user.id!,
+      event: "revoked",
+      invitationId: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logInvitationEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { INVITATIONS } from "@/lib/auth/constants";
+import { createInvitation, listInvitations, sendInvitationEmail } from "@/lib/auth/invitations";
+import { canAccessAdminConsole, canManageRole } from "@/lib/auth/permissions";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { getRole } from "@/lib/auth/role-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName } from "@/types/auth";
+
+/**
+ * GET /api/admin/invitations - List invitations
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    return NextResponse.json({ invitations: await listInvitations() });
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/invitations - Invite an email address with a preassigned role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { email, role } = body;
+    const expiresInDays = body.expiresInDays ?? INVITATIONS.DEFAULT_EXPIRY;
+
+    if (typeof email !== "string" || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json({ message: "Email format is invalid" }, { status: 400 });
+    }
+
+    if (!(INVITATIONS.EXPIRY_OPTIONS as readonly number[]).includes(expiresInDays)) {
+      return NextResponse.json({ message: "Unsupported expiry" }, { status: 400 });
+    }
+
+    if (typeof role !== "string" || !(await getRole(role))) {
+      return NextResponse.json({ message: "Invalid role" }, { status: 400 });
+    }
+
+    // Check if user can manage the target role
+    const currentUserRole = session.user.role as RoleName;
+    if (!canManageRole(currentUserRole, role)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot assign ${role} role` },
+        { status: 403 }
+      );
+    }
+
+    const assignmentError = await getRoleAssignmentError(role);
+    if (assignmentError) {
+      return NextResponse.json(
+        { message: assignmentError.message },
+        { status: assignmentError.status }
+      );
+    }
+
+    let created;
+    try {
+      created = await createInvitation({
+        email,
+        role,
+        invitedBy: session.user.id!,
+        expiresInDays,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : "Failed to create invitation" },
+        { status: 409 }
+      );
+    }
+
+    const delivery = await sendInvitationEmail({
+      ...created,
+      invitedBy: session.user.name ?? session.user.email ?? null,
+    });
+
+    await logInvitationEvent({
+      userId: session.user.id!,
+      event: "created",
+      invitationId: created.invitation.id,
+      email: created.invitation.email,
+      role: created.invitation.role,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ invitation: created.invitation, ...delivery }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
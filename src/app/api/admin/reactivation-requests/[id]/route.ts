@@ -0,0 +1,81 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logUserStatusChange } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { REACTIVATION } from "@/lib/auth/constants";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import {
+  decideReactivationRequest,
+  sendReactivationDecisionEmail,
+} from "@/lib/auth/reactivation-requests";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * PATCH /api/admin/reactivation-requests/[id] - Approve or deny a pending
+ * request with `{ decision: "approve" | "deny", note? }`. Approving activates
+ * the user. Either way the user is emailed the outcome.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { decision, note } = body;
+
+    if (decision !== "approve" && decision !== "deny") {
+      return NextResponse.json({ message: "Invalid decision" }, { status: 400 });
+    }
+
+    if (
+      note !== undefined &&
+      note !== null &&
+      (typeof note !== "string" || note.length > REACTIVATION.NOTE_MAX_LENGTH)
+    ) {
+      return NextResponse.json(
+        { message: `Note must be at most ${REACTIVATION.NOTE_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const decided = await decideReactivationRequest({
+      id,
+      approve: decision === "approve",
+      decidedBy: session.user.id!,
+      note,
+    });
+    if (!decided) {
+      return NextResponse.json({ message: "Pending request not found" }, { status: 404 });
+    }
+
+    // Log the decision for audit trail
+    await logUserStatusChange({
+      userId: session.user.id!,
+      targetUserId: decided.userId,
+      action: decision === "approve" ? "activate" : "deny",
+      reactivationRequestId: decided.id,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    const notified = await sendReactivationDecisionEmail(decided);
+
+    return NextResponse.json({ request: decided, notified });
+  } catch (error) {
+    console.error("Error deciding reactivation request:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { PATCH } from "../[id]/route";
+import { GET } from "../route";
+import { POST as requestReactivation } from "@/app/api/auth/reactivation/route";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { getUserById, registerCredentialsUser, toggleUserStatus } from "@/lib/auth/user-service";
+import { setMailTransport, type MailMessage } from "@/lib/mail/mailer";
+
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/auth/permissions", () => ({
+  canAccessAdminConsole: vi.fn(),
+}));
+
+vi.mock("@/lib/audit/audit-service", () => ({
+  logReactivationRequest: vi.fn(),
+  logUserStatusChange: vi.fn(),
+}));
+
+import { logReactivationRequest, logUserStatusChange } from "@/lib/audit/audit-service";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { UserRole } from "@/types/auth";
+import { signInAs } from "@/test/utils/route-auth";
+
+// Requests live in a module-level map, so each test deactivates its own user
+let counter = 0;
+
+async function registerDeactivatedUser(): Promise<string> {
+  const user = await registerCredentialsUser({
+    email: `inactive-${++counter}@example.com`,
+    password: "password123",
+    name: "Inactive",
+  });
+  await toggleUserStatus(user.id, false);
+  return user.id;
+}
+
+function signIn(id: string, role: UserRole) {
+  signInAs(role, { id });
+  vi.mocked(canAccessAdminConsole).mockResolvedValue(role === UserRole.ADMIN);
+}
+
+function jsonRequest(path: string, method: string, body: unknown) {
+  return new NextRequest(`http://localhost${path}`, { method, body: JSON.stringify(body) });
+}
+
+async function submitRequest(userId: string) {
+  signIn(userId, UserRole.USER);
+  return requestReactivation(
+    jsonRequest("/api/auth/reactivation", "POST", { reason: "I still work here" })
+  );
+}
+
+function decide(id: string, decision: string, note?: string) {
+  signIn("1", UserRole.ADMIN);
+  return PATCH(jsonRequest(`/api/admin/reactivation-requests/${id}`, "PATCH", { decision, note }), {
+    params: Promise.resolve({ id }),
+  });
+}
+
+describe("Reactivation requests", () => {
+  const sent: MailMessage[] = [];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    sent.length = 0;
+    setUserRepository(new InMemoryUserRepository());
+    setMailTransport({ name: "test", send: async message => void sent.push(message) });
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+    setMailTransport(null);
+  });
+
+  it("only accepts requests from deactivated users, one pending at a time", async () => {
+    signIn("1", UserRole.ADMIN);
+    const active = await requestReactivation(
+      jsonRequest("/api/auth/reactivation", "POST", { reason: "Please" })
+    );
+    expect(active.status).toBe(409);
+
+    const userId = await registerDeactivatedUser();
+    const first = await submitRequest(userId);
+    expect(first.status).toBe(201);
+    const { request } = await first.json();
+    expect(logReactivationRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ userId, reactivationRequestId: request.id })
+    );
+
+    const second = await submitRequest(userId);
+    expect(second.status).toBe(409);
+
+    signIn("1", UserRole.ADMIN);
+    const list = await GET(
+      new NextRequest("http://localhost/api/admin/reactivation-requests?status=pending")
+    );
+    const { requests } = await list.json();
+    expect(requests.map((r: { id: string }) => r.id)).toContain(request.id);
+  });
+
+  it("activates the user on approval and notifies them", async () => {
+    const userId = await registerDeactivatedUser();
+    const { request } = await (await submitRequest(userId)).json();
+
+    const response = await decide(request.id, "approve", "Welcome back");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.request).toMatchObject({ status: "approved", decisionNote: "Welcome back" });
+    expect((await getUserById(userId))?.isActive).toBe(true);
+    expect(logUserStatusChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "1",
+        targetUserId: userId,
+        action: "activate",
+        reactivationRequestId: request.id,
+      })
+    );
+    expect(sent).toHaveLength(1);
+    expect(sent[0]?.to).toBe(`inactive-${counter}@example.com`);
+    expect(sent[0]?.text).toContain("Welcome back");
+
+    // Already decided
+    expect((await decide(request.id, "deny")).status).toBe(404);
+  });
+
+  it("keeps the user inactive on denial and logs the decision", async () => {
+    const userId = await registerDeactivatedUser();
+    const { request } = await (await submitRequest(userId)).json();
+
+    const response = await decide(request.id, "deny");
+
+    expect(response.status).toBe(200);
+    expect((await getUserById(userId))?.isActive).toBe(false);
+    expect(logUserStatusChange).toHaveBeenCalledWith(
+      expect.objectContaining({ targetUserId: userId, action: "deny" })
+    );
+    expect(sent[0]?.subject).toContain("declined");
+
+    // A denied user may ask again
+    expect((await submitRequest(userId)).status).toBe(201);
+  });
+
+  it("rejects unknown decisions and non-admins", async () => {
+    const userId = await registerDeactivatedUser();
+    const { request } = await (await submitRequest(userId)).json();
+
+    expect((await decide(request.id, "maybe")).status).toBe(400);
+
+    signIn(userId, UserRole.USER);
+    const forbidden = await PATCH(
+      jsonRequest(`/api/admin/reactivation-requests/${request.id}`, "PATCH", {
+        decision: "approve",
+      }),
+      { params: Promise.resolve({ id: request.id }) }
+    );
+    expect(forbidden.status).toBe(403);
+  });
+});
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { listReactivationRequests } from "@/lib/auth/reactivation-requests";
+import type { ReactivationRequestStatus } from "@/types/auth";
+
+const STATUSES: ReactivationRequestStatus[] = ["pending", "approved", "denied"];
+
+/**
+ * GET /api/admin/reactivation-requests - List reactivation requests, newest
+ * first. Pass ?status=pending for the open queue.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !STATUSES.includes(status as ReactivationRequestStatus)) {
+      return NextResponse.json({ message: "Invalid status filter" }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      requests: await listReactivationRequests(
+        (status as ReactivationRequestStatus | null) ?? undefined
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching reactivation requests:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,151 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logRoleGrantEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { ROLE_GRANTS } from "@/lib/auth/constants";
+import { canAccessAdminConsole, canManageRole } from "@/lib/auth/permissions";
+import { decideRoleGrant, getRoleGrant, revokeRoleGrant } from "@/lib/auth/role-grants";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName } from "@/types/auth";
+
+/**
+ * PATCH /api/admin/role-grants/[id] - Approve or deny a pending request with
+ * `{ decision: "approve" | "deny", note? }`. Approving gives the user the role
+ * for the requested duration. Nobody decides their own request.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { decision, note } = body;
+
+    if (decision !== "approve" && decision !== "deny") {
+      return NextResponse.json({ message: "Invalid decision" }, { status: 400 });
+    }
+
+    if (
+      note !== undefined &&
+      note !== null &&
+      (typeof note !== "string" || note.length > ROLE_GRANTS.NOTE_MAX_LENGTH)
+    ) {
+      return NextResponse.json(
+        { message: `Note must be at most ${ROLE_GRANTS.NOTE_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const pending = await getRoleGrant(id);
+    if (pending?.status !== "pending") {
+      return NextResponse.json({ message: "Pending request not found" }, { status: 404 });
+    }
+
+    // Check if user can manage the requested role
+    const currentUserRole = session.user.role as RoleName;
+    if (decision === "approve" && !canManageRole(currentUserRole, pending.role)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot assign ${pending.role} role` },
+        { status: 403 }
+      );
+    }
+
+    let decided;
+    try {
+      decided = await decideRoleGrant({
+        id,
+        approve: decision === "approve",
+        decidedBy: session.user.id!,
+        note,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : `Failed to ${decision} request` },
+        { status: 403 }
+      );
+    }
+    if (!decided) {
+      return NextResponse.json({ message: "Pending request not found" }, { status: 404 });
+    }
+
+    // Log the decision for audit trail
+    await logRoleGrantEvent({
+      userId: session.user.id!,
+      targetUserId: decided.userId,
+      event: decision === "approve" ? "approved" : "denied",
+      grantId: decided.id,
+      role: decided.role,
+      previousRole: decided.previousRole,
+      expiresAt: decided.expiresAt,
+      justification: decided.justification,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ grant: decided });
+  } catch (error) {
+    console.error("Error deciding role grant:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/role-grants/[id] - End an active grant early and revert
+ * the user's role
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const revoked = await revokeRoleGrant(id, session.user.id!);
+    if (!revoked) {
+      return NextResponse.json({ message: "Active grant not found" }, { status: 404 });
+    }
+
+    await logRoleGrantEvent({
+      userId: session.user.id!,
+      targetUserId: revoked.userId,
+      event: "revoked",
+      grantId: revoked.id,
+      role: revoked.role,
+      previousRole: revoked.previousRole,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ grant: revoked });
+  } catch (error) {
+    console.error("Error revoking role grant:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logRoleGrantEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole, canManageRole } from "@/lib/auth/permissions";
+import { grantTemporaryRole, listRoleGrants, validateRoleGrantInput } from "@/lib/auth/role-grants";
+import { getRoleLevel } from "@/lib/auth/role-registry";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleGrantStatus, RoleName } from "@/types/auth";
+
+const STATUSES: RoleGrantStatus[] = ["pending", "active", "denied", "expired", "revoked"];
+
+/**
+ * GET /api/admin/role-grants - List temporary role requests and grants, newest
+ * first. Pass ?status=pending for the approval queue.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !STATUSES.includes(status as RoleGrantStatus)) {
+      return NextResponse.json({ message: "Invalid status filter" }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      grants: await listRoleGrants({ status: (status as RoleGrantStatus | null) ?? undefined }),
+    });
+  } catch (error) {
+    console.error("Error fetching role grants:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/role-grants - Give a user a role for a limited time with
+ * `{ userId, role, duration, justification }`. The role is reverted when the
+ * grant expires.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { userId, role, duration, justification } = body;
+
+    await ensureRolesLoaded();
+    const errors = validateRoleGrantInput({ role, duration, justification });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join(", ") }, { status: 400 });
+    }
+
+    // Check if user can manage the target role
+    const currentUserRole = session.user.role as RoleName;
+    if (!canManageRole(currentUserRole, role)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot assign ${role} role` },
+        { status: 403 }
+      );
+    }
+
+    if (userId === session.user.id) {
+      return NextResponse.json(
+        { message: "You cannot grant yourself a role; request it instead" },
+        { status: 403 }
+      );
+    }
+
+    const targetUser = typeof userId === "string" ? await getUserById(userId) : null;
+    if (!targetUser) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+    if (getRoleLevel(role) <= getRoleLevel(targetUser.role)) {
+      return NextResponse.json(
+        { message: `${targetUser.role} role is already at or above ${role}` },
+        { status: 400 }
+      );
+    }
+
+    let grant;
+    try {
+      grant = await grantTemporaryRole({
+        user: targetUser,
+        role,
+        duration,
+        justification,
+        grantedBy: session.user.id!,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : "Failed to grant role" },
+        { status: 409 }
+      );
+    }
+
+    await logRoleGrantEvent({
+      userId: session.user.id!,
+      targetUserId: targetUser.id,
+      event: "granted",
+      grantId: grant.id,
+      role: grant.role,
+      previousRole: grant.previousRole,
+      expiresAt: grant.expiresAt,
+      justification: grant.justification,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ grant }, { status: 201 });
+  } catch (error) {
+    console.error("Error granting role:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextResponse } from "next/server";
+
+import { logRoleDefinitionChange } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import {
+  canAccessAdminConsole,
+  canManageRole,
+  validatePermissionAssignment,
+} from "@/lib/auth/permissions";
+import { getRoleLevel } from "@/lib/auth/role-registry";
+import { deleteRole, getRole, updateRole, validateRoleInput } from "@/lib/auth/role-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName } from "@/types/auth";
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ role: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { role } = await params;
+
+    const existing = await getRole(role);
+    if (!existing) {
+      return NextResponse.json({ message: "Role not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const changes = {
+      label: body.label ?? existing.label,
+      description: body.description ?? existing.description,
+      level: body.level ?? existing.level,
+      permissions: body.permissions ?? existing.permissions,
+      requireTwoFactor: body.requireTwoFactor ?? existing.requireTwoFactor ?? false,
+    };
+
+    const errors = validateRoleInput({ role, ...changes });
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join(", ") }, { status: 400 });
+    }
+
+    if (existing.isSystem && changes.level !== existing.level) {
+      return NextResponse.json(
+        { message: "Cannot change the level of a built-in role" },
+        { status: 400 }
+      );
+    }
+
+    const currentUserRole = session.user.role as RoleName;
+    const { valid, errors: assignmentErrors } = validatePermissionAssignment(
+      currentUserRole,
+      role,
+      changes.permissions
+    );
+    if (!valid) {
+      return NextResponse.json({ message: assignmentErrors.join(", ") }, { status: 403 });
+    }
+
+    if (changes.level > getRoleLevel(currentUserRole)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot raise a role above its own level` },
+        { status: 403 }
+      );
+    }
+
+    const updatedRole = await updateRole(role, changes);
+
+    await logRoleDefinitionChange({
+      userId: session.user.id!,
+      action: "update",
+      role,
+      permissions: updatedRole?.permissions,
+      level: updatedRole?.level,
+      requireTwoFactor: updatedRole?.requireTwoFactor,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Role updated successfully", role: updatedRole });
+  } catch (error) {
+    console.error("Error updating role:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ role: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { role } = await params;
+
+    const existing = await getRole(role);
+    if (!existing) {
+      return NextResponse.json({ message: "Role not found" }, { status: 404 });
+    }
+
+    if (existing.isSystem) {
+      return NextResponse.json({ message: "Built-in roles cannot be deleted" }, { status: 400 });
+    }
+
+    const currentUserRole = session.user.role as RoleName;
+    if (!canManageRole(currentUserRole, role)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot manage ${role} role` },
+        { status: 403 }
+      );
+    }
+
+    try {
+      await deleteRole(role);
+    } catch (error) {
+      // Still assigned to users
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : "Role cannot be deleted" },
+        { status: 409 }
+      );
+    }
+
+    await logRoleDefinitionChange({
+      userId: session.user.id!,
+      action: "delete",
+      role,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Role deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "../route";
+import { DELETE, PATCH } from "../[role]/route";
+import { resetRoleDefinitions } from "@/lib/auth/role-registry";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { Permission, UserRole } from "@/types/auth";
+import { signInAs } from "@/test/utils/route-auth";
+
+// Mock dependencies
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("@/lib/audit/audit-service", () => ({
+  logRoleDefinitionChange: vi.fn(),
+}));
+
+import { logRoleDefinitionChange } from "@/lib/audit/audit-service";
+
+function createRequest(body: unknown) {
+  return new NextRequest("http://localhost/api/admin/roles", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+const supportRole = {
+  role: "SUPPORT",
+  label: "Support Agent",
+  description: "Helps users",
+  level: 2,
+  permissions: [Permission.READ_USER],
+};
+
+describe("/api/admin/roles", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    resetRoleDefinitions();
+    setUserRepository(null);
+  });
+
+  it("returns 403 for users without MANAGE_USER_ROLES", async () => {
+    signInAs(UserRole.EDITOR);
+
+    const response = await GET();
+
+    expect(response.status).toBe(403);
+  });
+
+  it("creates a custom role and logs it", async () => {
+    signInAs(UserRole.ADMIN);
+
+    const response = await POST(createRequest(supportRole));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.role).toMatchObject({ role: "SUPPORT", level: 2 });
+    expect(logRoleDefinitionChange).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "create", role: "SUPPORT" })
+    );
+
+    const list = await (await GET()).json();
+    expect(list.roles.map((r: any) => r.role)).toContain("SUPPORT");
+  });
+
+  it("rejects invalid and duplicate roles", async () => {
+    signInAs(UserRole.ADMIN);
+
+    expect((await POST(createRequest({ ...supportRole, role: "bad name" }))).status).toBe(400);
+    expect((await POST(createRequest(supportRole))).status).toBe(201);
+    expect((await POST(createRequest(supportRole))).status).toBe(409);
+  });
+
+  it("rejects roles above the creator's level", async () => {
+    signInAs(UserRole.ADMIN);
+
+    const response = await POST(createRequest({ ...supportRole, level: 99 }));
+
+    expect(response.status).toBe(403);
+  });
+
+  it("updates and deletes a custom role", async () => {
+    signInAs(UserRole.ADMIN);
+    await POST(createRequest(supportRole));
+    const params = { params: Promise.resolve({ role: "SUPPORT" }) };
+
+    const patch = await PATCH(
+      new NextRequest("http://localhost/api/admin/roles/SUPPORT", {
+        method: "PATCH",
+        body: JSON.stringify({ label: "Support" }),
+      }),
+      params
+    );
+    expect((await patch.json()).role.label).toBe("Support");
+
+    const del = await DELETE(new NextRequest("http://localhost/api/admin/roles/SUPPORT"), {
+      params: Promise.resolve({ role: "SUPPORT" }),
+    });
+    expect(del.status).toBe(200);
+  });
+
+  it("refuses to delete built-in roles", async () => {
+    signInAs(UserRole.ADMIN);
+
+    const response = await DELETE(new NextRequest("http://localhost/api/admin/roles/USER"), {
+      params: Promise.resolve({ role: UserRole.USER }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
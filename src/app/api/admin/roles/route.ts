@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+
+import { logRoleDefinitionChange } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole, getRolePermissions } from "@/lib/auth/permissions";
+import { getRoleLevel } from "@/lib/auth/role-registry";
+import { createRole, getRole, getRoles, validateRoleInput } from "@/lib/auth/role-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { Permission, RoleName } from "@/types/auth";
+
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    return NextResponse.json({ roles: await getRoles() });
+  } catch (error) {
+    console.error("Error fetching roles:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = {
+      role: body.role,
+      label: body.label,
+      description: body.description ?? "",
+      level: body.level,
+      permissions: body.permissions,
+      requireTwoFactor: body.requireTwoFactor ?? false,
+    };
+
+    const errors = validateRoleInput(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ message: errors.join(", ") }, { status: 400 });
+    }
+
+    if (await getRole(input.role)) {
+      return NextResponse.json({ message: `Role ${input.role} already exists` }, { status: 409 });
+    }
+
+    // A new role may not outrank its creator or carry permissions the creator lacks
+    const currentUserRole = session.user.role as RoleName;
+    if (input.level > getRoleLevel(currentUserRole)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot create a role above its own level` },
+        { status: 403 }
+      );
+    }
+
+    const ownPermissions = await getRolePermissions(currentUserRole);
+    const missing = input.permissions.filter((p: Permission) => !ownPermissions.includes(p));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { message: `Cannot assign permissions you don't have: ${missing.join(", ")}` },
+        { status: 403 }
+      );
+    }
+
+    const role = await createRole(input);
+
+    await logRoleDefinitionChange({
+      userId: session.user.id!,
+      action: "create",
+      role: role.role,
+      permissions: role.permissions,
+      level: role.level,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Role created successfully", role }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating role:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole, explainPermission } from "@/lib/auth/permissions";
+import { evaluateRouteAccess, loadRouteAccessSubject } from "@/lib/middleware/route-access";
+import { Permission } from "@/types/auth";
+
+/**
+ * GET /api/admin/users/[id]/access - Explain why a user can or cannot open a
+ * path (?path=/admin) or hold a permission (?permission=MANAGE_USER_ROLES).
+ * Pass ?workspaceId= to explain for a workspace other than their default.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get("path");
+    const permission = searchParams.get("permission");
+
+    if (!path === !permission) {
+      return NextResponse.json(
+        { message: "Provide either a path or a permission" },
+        { status: 400 }
+      );
+    }
+    if (path && !path.startsWith("/")) {
+      return NextResponse.json({ message: "Path must start with /" }, { status: 400 });
+    }
+    if (permission && !Object.values(Permission).includes(permission as Permission)) {
+      return NextResponse.json({ message: "Unknown permission" }, { status: 400 });
+    }
+
+    const subject = await loadRouteAccessSubject(id, searchParams.get("workspaceId"));
+    if (!subject) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const { user, gates } = subject;
+    return NextResponse.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        isActive: user.isActive,
+        workspaceId: user.workspaceId,
+        workspaceRole: user.workspaceRole,
+      },
+      ...(path && {
+        decision: await evaluateRouteAccess(new URL(path, request.url).pathname, user, gates),
+      }),
+      ...(permission && {
+        permission: await explainPermission(user, permission as Permission),
+      }),
+    });
+  } catch (error) {
+    console.error("Error explaining access:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+
+import { logImpersonationEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { getImpersonationError, startImpersonation } from "@/lib/auth/impersonation";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/admin/users/[id]/impersonate - View the app as another user
+ * Body: { reason?: string, allowDestructive?: boolean }
+ * The client calls update() on its session afterwards to pick up the target's claims.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user || !session.sessionId) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.impersonator) {
+      return NextResponse.json(
+        { message: "Stop the current impersonation first" },
+        { status: 409 }
+      );
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, 500) : undefined;
+    const allowDestructive = body.allowDestructive === true;
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const [admin, targetUser] = await Promise.all([getUserById(session.user.id!), getUserById(id)]);
+    if (!admin || !targetUser) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const error = await getImpersonationError(admin, targetUser);
+    if (error) {
+      return NextResponse.json({ message: error }, { status: 403 });
+    }
+
+    const impersonation = await startImpersonation({
+      sessionId: session.sessionId,
+      targetUserId: id,
+      allowDestructive,
+      reason,
+    });
+
+    await logImpersonationEvent({
+      adminId: admin.id,
+      targetUserId: id,
+      event: "started",
+      reason,
+      allowDestructive,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({
+      message: `Now viewing as ${targetUser.name ?? targetUser.email}`,
+      impersonation,
+    });
+  } catch (error) {
+    console.error("Error starting impersonation:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+
+import { logPermissionOverrideChange } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole, validatePermissionAssignment } from "@/lib/auth/permissions";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getUserById, sanitizeUser, updateUserPermissionOverrides } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { Permission, type RoleName } from "@/types/auth";
+
+function isPermissionList(value: unknown): value is Permission[] {
+  return (
+    Array.isArray(value) && value.every(p => Object.values(Permission).includes(p as Permission))
+  );
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { granted = [], revoked = [] } = body;
+
+    if (!isPermissionList(granted) || !isPermissionList(revoked)) {
+      return NextResponse.json({ message: "Invalid permissions" }, { status: 400 });
+    }
+
+    if (granted.some(p => revoked.includes(p))) {
+      return NextResponse.json(
+        { message: "A permission cannot be both granted and revoked" },
+        { status: 400 }
+      );
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const targetUser = await getUserById(id);
+    if (!targetUser) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    // Only grant what you hold yourself, and only to users whose role you manage
+    await ensureRolesLoaded();
+    const currentUserRole = session.user.role as RoleName;
+    const { valid, errors } = validatePermissionAssignment(
+      currentUserRole,
+      targetUser.role,
+      granted
+    );
+    if (!valid) {
+      return NextResponse.json({ message: errors.join(", ") }, { status: 403 });
+    }
+
+    const updatedUser = await updateUserPermissionOverrides(id, { granted, revoked });
+
+    await logPermissionOverrideChange({
+      userId: session.user.id!,
+      targetUserId: id,
+      granted,
+      revoked,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({
+      message: "User permissions updated successfully",
+      user: updatedUser && sanitizeUser(updatedUser),
+    });
+  } catch (error) {
+    console.error("Error updating user permissions:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,11 +1,21 @@
 import { NextResponse } from "next/server";
 
+import { userRoleUpdateSchema } from "@/lib/api/schemas";
 import { logRoleChange } from "@/lib/audit/audit-service";
 import { auth } from "@/lib/auth";
-import { hasPermission, canManageRole } from "@/lib/auth/permissions";
-import { updateUserRole, getUserById } from "@/lib/auth/user-service";
-import { Permission, UserRole } from "@/types/auth";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { canAccessAdminConsole, canManageRole } from "@/lib/auth/permissions";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { getRole } from "@/lib/auth/role-service";
+import { getUserETag } from "@/lib/auth/user-etag";
+import { updateUserRole, getUserById, sanitizeUser } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName } from "@/types/auth";
 
+/**
+ * PATCH /api/admin/users/[id]/role - Change a user's account role
+ * With If-Match, answers 412 and the current user when it has changed since that ETag.
+ */
 export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth();
@@ -14,22 +24,21 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // Check MANAGE_USER_ROLES permission
-    const canManageUsers = await hasPermission(session.user as any, Permission.MANAGE_USER_ROLES);
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
 
     if (!canManageUsers) {
       return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
     }
 
-    const body = await request.json();
-    const { role } = body;
-
-    if (!role || !Object.values(UserRole).includes(role)) {
+    const validation = userRoleUpdateSchema.safeParse(await request.json());
+    if (!validation.success || !(await getRole(validation.data.role))) {
       return NextResponse.json({ message: "Invalid role" }, { status: 400 });
     }
+    const { role } = validation.data;
 
     // Check if user can manage the target role
-    const currentUserRole = session.user.role as UserRole;
+    const currentUserRole = session.user.role as RoleName;
     if (!canManageRole(currentUserRole, role)) {
       return NextResponse.json(
         { message: `${currentUserRole} role cannot assign ${role} role` },
@@ -37,6 +46,15 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       );
     }
 
+    // No standing access for temporary-only roles: grant them through /api/admin/role-grants
+    const assignmentError = await getRoleAssignmentError(role);
+    if (assignmentError) {
+      return NextResponse.json(
+        { message: assignmentError.message },
+        { status: assignmentError.status }
+      );
+    }
+
     // Await params in Next.js 15
     const { id } = await params;
 
@@ -46,8 +64,27 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       return NextResponse.json({ message: "User not found" }, { status: 404 });
     }
 
+    // The grant would put its previous role back over this change when it ends
+    const grantError = await getRoleAssignmentError(role, id);
+    if (grantError) {
+      return NextResponse.json({ message: grantError.message }, { status: grantError.status });
+    }
+
     const oldRole = targetUser.role;
-    const updatedUser = await updateUserRole(id, role);
+    let updatedUser;
+    try {
+      // If-Match is checked as part of the write, so concurrent changes cannot both pass
+      updatedUser = await updateUserRole(id, role, { ifMatch: request.headers.get("if-match") });
+    } catch (error) {
+      const current = await getUserById(id);
+      if (!(error instanceof Error && error.message === AUTH_ERRORS.USER_CHANGED) || !current) {
+        throw error;
+      }
+      return NextResponse.json(
+        { message: AUTH_ERRORS.USER_CHANGED, user: sanitizeUser(current) },
+        { status: 412, headers: { ETag: getUserETag(current) } }
+      );
+    }
 
     // Log role change for audit trail
     await logRoleChange({
@@ -55,15 +92,17 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       targetUserId: id,
       oldRole,
       newRole: role,
-      ipAddress:
-        request.headers.get("x-forwarded-for") ?? request.headers.get("x-real-ip") ?? undefined,
+      ipAddress: getClientIp(request.headers),
       userAgent: request.headers.get("user-agent") ?? undefined,
     });
 
-    return NextResponse.json({
-      message: "User role updated successfully",
-      user: updatedUser,
-    });
+    return NextResponse.json(
+      {
+        message: "User role updated successfully",
+        user: updatedUser && sanitizeUser(updatedUser),
+      },
+      { headers: updatedUser ? { ETag: getUserETag(updatedUser) } : undefined }
+    );
   } catch (error) {
     console.error("Error updating user role:", error);
     return NextResponse.json({ message: "Internal server error" }, { status: 500 });
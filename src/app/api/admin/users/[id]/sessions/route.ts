@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { logSessionRevocation } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { revokeUserSessions } from "@/lib/auth/session-store";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * DELETE /api/admin/users/[id]/sessions - Sign a user out of every session
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const targetUser = await getUserById(id);
+    if (!targetUser) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const count = await revokeUserSessions(id);
+
+    await logSessionRevocation({
+      userId: session.user.id!,
+      targetUserId: id,
+      count,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({
+      message: `Revoked ${count} session${count === 1 ? "" : "s"}`,
+      count,
+    });
+  } catch (error) {
+    console.error("Error revoking user sessions:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
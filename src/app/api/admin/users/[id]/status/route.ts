@@ -1,11 +1,18 @@
 import { NextResponse } from "next/server";
 
+import { userStatusUpdateSchema } from "@/lib/api/schemas";
 import { logUserStatusChange } from "@/lib/audit/audit-service";
 import { auth } from "@/lib/auth";
-import { hasPermission } from "@/lib/auth/permissions";
-import { toggleUserStatus, getUserById } from "@/lib/auth/user-service";
-import { Permission } from "@/types/auth";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getUserETag } from "@/lib/auth/user-etag";
+import { toggleUserStatus, getUserById, sanitizeUser } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
 
+/**
+ * PATCH /api/admin/users/[id]/status - Activate or deactivate a user
+ * With If-Match, answers 412 and the current user when it has changed since that ETag.
+ */
 export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth();
@@ -14,19 +21,18 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
     }
 
-    // Check MANAGE_USER_ROLES permission
-    const canManageUsers = await hasPermission(session.user as any, Permission.MANAGE_USER_ROLES);
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
 
     if (!canManageUsers) {
       return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
     }
 
-    const body = await request.json();
-    const { isActive } = body;
-
-    if (typeof isActive !== "boolean") {
+    const validation = userStatusUpdateSchema.safeParse(await request.json());
+    if (!validation.success) {
       return NextResponse.json({ message: "Invalid status value" }, { status: 400 });
     }
+    const { isActive } = validation.data;
 
     // Await params in Next.js 15
     const { id } = await params;
@@ -41,7 +47,22 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       return NextResponse.json({ message: "User not found" }, { status: 404 });
     }
 
-    const updatedUser = await toggleUserStatus(id, isActive);
+    let updatedUser;
+    try {
+      // If-Match is checked as part of the write, so concurrent changes cannot both pass
+      updatedUser = await toggleUserStatus(id, isActive, {
+        ifMatch: request.headers.get("if-match"),
+      });
+    } catch (error) {
+      const current = await getUserById(id);
+      if (!(error instanceof Error && error.message === AUTH_ERRORS.USER_CHANGED) || !current) {
+        throw error;
+      }
+      return NextResponse.json(
+        { message: AUTH_ERRORS.USER_CHANGED, user: sanitizeUser(current) },
+        { status: 412, headers: { ETag: getUserETag(current) } }
+      );
+    }
 
     if (!updatedUser) {
       return NextResponse.json({ message: "Failed to update user status" }, { status: 500 });
@@ -52,15 +73,17 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ id
       userId: session.user.id!,
       targetUserId: id,
       action: isActive ? "activate" : "deactivate",
-      ipAddress:
-        request.headers.get("x-forwarded-for") ?? request.headers.get("x-real-ip") ?? undefined,
+      ipAddress: getClientIp(request.headers),
       userAgent: request.headers.get("user-agent") ?? undefined,
     });
 
-    return NextResponse.json({
-      message: `User ${isActive ? "activated" : "deactivated"} successfully`,
-      user: updatedUser,
-    });
+    return NextResponse.json(
+      {
+        message: `User ${isActive ? "activated" : "deactivated"} successfully`,
+        user: sanitizeUser(updatedUser),
+      },
+      { headers: { ETag: getUserETag(updatedUser) } }
+    );
   } catch (error) {
     console.error("Error updating user status:", error);
     return NextResponse.json({ message: "Internal server error" }, { status: 500 });
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { unlockAccount } from "@/lib/auth/login-throttle";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/admin/users/[id]/unlock - Clear a sign-in lockout after failed logins
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const targetUser = await getUserById(id);
+    if (!targetUser) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    await unlockAccount({
+      userId: session.user.id!,
+      targetUserId: id,
+      email: targetUser.email,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Account unlocked successfully" });
+  } catch (error) {
+    console.error("Error unlocking account:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "../[id]/access/route";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { Permission, UserRole } from "@/types/auth";
+import { signInAs } from "@/test/utils/route-auth";
+
+// Mock dependencies
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+function explain(id: string, query: string) {
+  return GET(new NextRequest(`http://localhost/api/admin/users/${id}/access?${query}`), {
+    params: Promise.resolve({ id }),
+  });
+}
+
+describe("GET /api/admin/users/[id]/access", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("returns 403 for users who cannot manage users", async () => {
+    signInAs(UserRole.USER);
+
+    const response = await explain("3", "path=/admin");
+
+    expect(response.status).toBe(403);
+  });
+
+  it("requires exactly one of path and permission", async () => {
+    signInAs(UserRole.ADMIN);
+
+    expect((await explain("3", "")).status).toBe(400);
+    expect((await explain("3", "path=/admin&permission=ACCESS_API")).status).toBe(400);
+    expect((await explain("3", "permission=NOT_A_PERMISSION")).status).toBe(400);
+    expect((await explain("missing", "path=/admin")).status).toBe(404);
+  });
+
+  it("explains a path with the middleware's decision", async () => {
+    signInAs(UserRole.ADMIN);
+
+    const response = await explain("3", "path=/admin?tab=roles");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.user).toMatchObject({ id: "3", role: UserRole.USER });
+    expect(data.decision).toMatchObject({
+      path: "/admin",
+      matchedPattern: "/admin",
+      access: "admin",
+      allowed: false,
+      denial: { check: "role", status: 403, error: "Admin access required" },
+    });
+  });
+
+  it("explains where a permission comes from", async () => {
+    signInAs(UserRole.ADMIN);
+
+    const response = await explain("3", `permission=${Permission.READ_CONTENT}`);
+    const data = await response.json();
+
+    expect(data.permission).toEqual({
+      permission: Permission.READ_CONTENT,
+      granted: true,
+      effectiveRole: UserRole.USER,
+      fromRole: true,
+      override: null,
+    });
+  });
+});
@@ -13,17 +13,20 @@ vi.mock("@/lib/audit/audit-service", () => ({
 }));
 
 vi.mock("@/lib/auth/permissions", () => ({
-  hasPermission: vi.fn(),
+  canAccessAdminConsole: vi.fn(),
   canManageRole: vi.fn(),
 }));
 
 vi.mock("@/lib/auth/user-service", () => ({
   updateUserRole: vi.fn(),
   getUserById: vi.fn(),
+  sanitizeUser: vi.fn((user: any) => user),
 }));
 
 import { auth } from "@/lib/auth";
-import { hasPermission, canManageRole } from "@/lib/auth/permissions";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { canAccessAdminConsole, canManageRole } from "@/lib/auth/permissions";
+import { getUserETag } from "@/lib/auth/user-etag";
 import { updateUserRole, getUserById } from "@/lib/auth/user-service";
 
 describe("PATCH /api/admin/users/[id]/role", () => {
@@ -50,7 +53,7 @@ describe("PATCH /api/admin/users/[id]/role", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.EDITOR },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(false);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(false);
 
     const request = new NextRequest("http://localhost/api/admin/users/1/role", {
       method: "PATCH",
@@ -68,7 +71,7 @@ describe("PATCH /api/admin/users/[id]/role", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
 
     const request = new NextRequest("http://localhost/api/admin/users/1/role", {
       method: "PATCH",
@@ -86,7 +89,7 @@ describe("PATCH /api/admin/users/[id]/role", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "editor", role: UserRole.EDITOR },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(canManageRole).mockReturnValue(false);
 
     const request = new NextRequest("http://localhost/api/admin/users/1/role", {
@@ -101,11 +104,31 @@ describe("PATCH /api/admin/users/[id]/role", () => {
     expect(data.message).toContain("cannot assign");
   });
 
+  it("returns 400 when assigning a temporary-only role permanently", async () => {
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: "admin", role: UserRole.ADMIN },
+    } as any);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
+    vi.mocked(canManageRole).mockReturnValue(true);
+
+    const request = new NextRequest("http://localhost/api/admin/users/1/role", {
+      method: "PATCH",
+      body: JSON.stringify({ role: UserRole.ADMIN }),
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: "1" }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toContain("only be granted temporarily");
+    expect(updateUserRole).not.toHaveBeenCalled();
+  });
+
   it("returns 404 when user is not found", async () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(canManageRole).mockReturnValue(true);
     vi.mocked(getUserById).mockResolvedValue(null);
     vi.mocked(updateUserRole).mockResolvedValue(null);
@@ -138,7 +161,7 @@ describe("PATCH /api/admin/users/[id]/role", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(canManageRole).mockReturnValue(true);
     vi.mocked(getUserById).mockResolvedValue(targetUser as any);
     vi.mocked(updateUserRole).mockResolvedValue(updatedUser as any);
@@ -160,7 +183,7 @@ describe("PATCH /api/admin/users/[id]/role", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(canManageRole).mockReturnValue(true);
     vi.mocked(getUserById).mockResolvedValue({ id: "1", role: UserRole.EDITOR } as any);
     vi.mocked(updateUserRole).mockResolvedValue({
@@ -175,6 +198,39 @@ describe("PATCH /api/admin/users/[id]/role", () => {
 
     await PATCH(request, { params: Promise.resolve({ id: "1" }) });
 
-    expect(updateUserRole).toHaveBeenCalledWith("1", UserRole.USER);
+    expect(updateUserRole).toHaveBeenCalledWith("1", UserRole.USER, { ifMatch: null });
+  });
+
+  it("returns 412 with the current user when If-Match is stale", async () => {
+    const targetUser = {
+      id: "1",
+      email: "user@example.com",
+      role: UserRole.EDITOR,
+      updatedAt: new Date("2024-03-01T10:00:00Z"),
+    };
+
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: "admin", role: UserRole.ADMIN },
+    } as any);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
+    vi.mocked(canManageRole).mockReturnValue(true);
+    vi.mocked(getUserById).mockResolvedValue(targetUser as any);
+    vi.mocked(updateUserRole).mockRejectedValue(new Error(AUTH_ERRORS.USER_CHANGED));
+
+    const stale = getUserETag({ updatedAt: new Date("2024-01-01T00:00:00Z") });
+    const request = new NextRequest("http://localhost/api/admin/users/1/role", {
+      method: "PATCH",
+      headers: { "If-Match": stale },
+      body: JSON.stringify({ role: UserRole.USER }),
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: "1" }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(412);
+    expect(data.user.role).toBe(UserRole.EDITOR);
+    expect(response.headers.get("ETag")).toBe(getUserETag(targetUser));
+    // The ETag is compared by the write itself
+    expect(updateUserRole).toHaveBeenCalledWith("1", UserRole.USER, { ifMatch: stale });
   });
 });
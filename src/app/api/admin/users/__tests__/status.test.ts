@@ -8,16 +8,19 @@ vi.mock("@/lib/auth", () => ({
 }));
 
 vi.mock("@/lib/auth/permissions", () => ({
-  hasPermission: vi.fn(),
+  canAccessAdminConsole: vi.fn(),
 }));
 
 vi.mock("@/lib/auth/user-service", () => ({
   toggleUserStatus: vi.fn(),
   getUserById: vi.fn(),
+  sanitizeUser: vi.fn((user: any) => user),
 }));
 
 import { auth } from "@/lib/auth";
-import { hasPermission } from "@/lib/auth/permissions";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getUserETag } from "@/lib/auth/user-etag";
 import { toggleUserStatus, getUserById } from "@/lib/auth/user-service";
 import { UserRole } from "@/types/auth";
 
@@ -45,7 +48,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "user", role: UserRole.USER },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(false);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(false);
 
     const request = new NextRequest("http://localhost/api/admin/users/1/status", {
       method: "PATCH",
@@ -63,7 +66,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
 
     const request = new NextRequest("http://localhost/api/admin/users/1/status", {
       method: "PATCH",
@@ -81,7 +84,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
 
     const request = new NextRequest("http://localhost/api/admin/users/admin/status", {
       method: "PATCH",
@@ -99,7 +102,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(getUserById).mockResolvedValue(null);
 
     const request = new NextRequest("http://localhost/api/admin/users/999/status", {
@@ -129,7 +132,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(getUserById).mockResolvedValue(targetUser as any);
     vi.mocked(toggleUserStatus).mockResolvedValue(updatedUser as any);
 
@@ -161,7 +164,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(getUserById).mockResolvedValue(targetUser as any);
     vi.mocked(toggleUserStatus).mockResolvedValue(updatedUser as any);
 
@@ -182,7 +185,7 @@ describe("PATCH /api/admin/users/[id]/status", () => {
     vi.mocked(auth).mockResolvedValue({
       user: { id: "admin", role: UserRole.ADMIN },
     } as any);
-    vi.mocked(hasPermission).mockResolvedValue(true);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
     vi.mocked(getUserById).mockResolvedValue({ id: "1" } as any);
     vi.mocked(toggleUserStatus).mockResolvedValue({
       id: "1",
@@ -196,6 +199,61 @@ describe("PATCH /api/admin/users/[id]/status", () => {
 
     await PATCH(request, { params: Promise.resolve({ id: "1" }) });
 
-    expect(toggleUserStatus).toHaveBeenCalledWith("1", false);
+    expect(toggleUserStatus).toHaveBeenCalledWith("1", false, { ifMatch: null });
+  });
+
+  it("returns 412 with the current user when If-Match is stale", async () => {
+    const targetUser = {
+      id: "1",
+      email: "user@example.com",
+      isActive: false,
+      updatedAt: new Date("2024-03-01T10:00:00Z"),
+    };
+
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: "admin", role: UserRole.ADMIN },
+    } as any);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
+    vi.mocked(getUserById).mockResolvedValue(targetUser as any);
+    vi.mocked(toggleUserStatus).mockRejectedValue(new Error(AUTH_ERRORS.USER_CHANGED));
+
+    const stale = getUserETag({ updatedAt: new Date("2024-01-01T00:00:00Z") });
+    const request = new NextRequest("http://localhost/api/admin/users/1/status", {
+      method: "PATCH",
+      headers: { "If-Match": stale },
+      body: JSON.stringify({ isActive: false }),
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: "1" }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(412);
+    expect(response.headers.get("ETag")).toBe(getUserETag(targetUser));
+    expect(data.user).toMatchObject({ id: "1", isActive: false });
+    // The ETag is compared by the write itself
+    expect(toggleUserStatus).toHaveBeenCalledWith("1", false, { ifMatch: stale });
+  });
+
+  it("updates when If-Match carries the current ETag", async () => {
+    const targetUser = { id: "1", isActive: true, updatedAt: new Date("2024-03-01T10:00:00Z") };
+    const updatedUser = { ...targetUser, isActive: false, updatedAt: new Date() };
+
+    vi.mocked(auth).mockResolvedValue({
+      user: { id: "admin", role: UserRole.ADMIN },
+    } as any);
+    vi.mocked(canAccessAdminConsole).mockResolvedValue(true);
+    vi.mocked(getUserById).mockResolvedValue(targetUser as any);
+    vi.mocked(toggleUserStatus).mockResolvedValue(updatedUser as any);
+
+    const request = new NextRequest("http://localhost/api/admin/users/1/status", {
+      method: "PATCH",
+      headers: { "If-Match": getUserETag(targetUser) },
+      body: JSON.stringify({ isActive: false }),
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: "1" }) });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe(getUserETag(updatedUser));
   });
 });
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "../route";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { UserRole } from "@/types/auth";
+import { signInAs } from "@/test/utils/route-auth";
+
+// Mock dependencies
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+function list(query: string) {
+  return GET(new NextRequest(`http://localhost/api/admin/users?${query}`));
+}
+
+describe("GET /api/admin/users", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("returns 403 for users who cannot manage users", async () => {
+    signInAs(UserRole.EDITOR);
+
+    expect((await list("")).status).toBe(403);
+  });
+
+  it("searches, sorts and pages without exposing secrets", async () => {
+    signInAs(UserRole.ADMIN);
+
+    const response = await list("search=example.com&sortBy=email&sortOrder=asc&limit=2");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.total).toBe(3);
+    expect(data.users.map((user: any) => user.email)).toEqual([
+      "admin@example.com",
+      "editor@example.com",
+    ]);
+    expect(data.users[0]).not.toHaveProperty("passwordHash");
+    expect(data.lockouts).toEqual({});
+
+    const next = await (
+      await list(`sortBy=email&sortOrder=asc&limit=2&cursor=${data.nextCursor}`)
+    ).json();
+    expect(next.users.map((user: any) => user.email)).toEqual(["test@example.com"]);
+    expect(next.nextCursor).toBeNull();
+  });
+
+  it("rejects unknown sort fields and bad cursors", async () => {
+    signInAs(UserRole.ADMIN);
+
+    expect((await list("sortBy=password")).status).toBe(400);
+    expect((await list("limit=1000")).status).toBe(400);
+    expect((await list("cursor=garbage")).status).toBe(400);
+  });
+});
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { userQuerySchema } from "@/lib/api/schemas";
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { exportUsers } from "@/lib/auth/user-import";
+import { queryUsers } from "@/lib/auth/user-service";
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+} as const;
+
+/**
+ * GET /api/admin/users/export?format=csv|json - Download users in the import file format
+ * Accepts the same search, filters and sort as GET /api/admin/users.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const format = searchParams.get("format") ?? "csv";
+
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json({ message: "Format must be csv or json" }, { status: 400 });
+    }
+
+    const validation = userQuerySchema
+      .omit({ limit: true, cursor: true })
+      .safeParse(Object.fromEntries(searchParams));
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: "Invalid query", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { users } = await queryUsers({ ...validation.data, limit: Number.MAX_SAFE_INTEGER });
+    const fileName = `users-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(exportUsers(users, format), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting users:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
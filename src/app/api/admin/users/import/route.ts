@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { USER_IMPORT } from "@/lib/auth/constants";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import {
+  applyUserImport,
+  parseUserImport,
+  planUserImport,
+  summarizeUserImport,
+} from "@/lib/auth/user-import";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName } from "@/types/auth";
+
+/**
+ * POST /api/admin/users/import - Bulk create and update users from a CSV or JSON file
+ * Body: { format: "csv" | "json", content: string, dryRun?: boolean }
+ * A dry run validates every row and reports what would change without writing.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { format, content } = body;
+    const dryRun = body.dryRun !== false;
+
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json({ message: "Format must be csv or json" }, { status: 400 });
+    }
+
+    if (typeof content !== "string" || content.length > USER_IMPORT.MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { message: `File must be at most ${USER_IMPORT.MAX_FILE_SIZE / 1024 / 1024} MB` },
+        { status: 400 }
+      );
+    }
+
+    let rows;
+    try {
+      rows = parseUserImport(content, format);
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : "Invalid file" },
+        { status: 400 }
+      );
+    }
+
+    const actor = { id: session.user.id!, role: session.user.role as RoleName };
+    const results = dryRun
+      ? await planUserImport(rows, actor)
+      : await applyUserImport(rows, actor, {
+          ipAddress: getClientIp(request.headers),
+          userAgent: request.headers.get("user-agent") ?? undefined,
+        });
+
+    return NextResponse.json({
+      dryRun,
+      rows: results,
+      summary: summarizeUserImport(results),
+    });
+  } catch (error) {
+    console.error("Error importing users:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
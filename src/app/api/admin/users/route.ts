@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { userQuerySchema } from "@/lib/api/schemas";
+import { auth } from "@/lib/auth";
+import { getAccountLockouts } from "@/lib/auth/login-throttle";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { queryUsers, sanitizeUser } from "@/lib/auth/user-service";
+
+/**
+ * GET /api/admin/users - Search every user in the deployment for the admin console
+ * Takes the same query as GET /api/users and adds current sign-in lockouts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const validation = userQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!validation.success) {
+      return NextResponse.json(
+        { message: "Invalid query", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const page = await queryUsers(validation.data);
+
+    return NextResponse.json({
+      ...page,
+      users: page.users.map(sanitizeUser),
+      lockouts: await getAccountLockouts(page.users),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === "Invalid cursor") {
+      return NextResponse.json({ message: "Invalid cursor" }, { status: 400 });
+    }
+
+    console.error("Error querying users:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
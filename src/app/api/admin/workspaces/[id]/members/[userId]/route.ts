@@ -0,0 +1,153 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logWorkspaceEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole, canManageRole } from "@/lib/auth/permissions";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { isKnownRole } from "@/lib/auth/role-registry";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getUserById, updateUser } from "@/lib/auth/user-service";
+import {
+  getWorkspace,
+  listWorkspaceMembers,
+  removeWorkspaceMember,
+  setWorkspaceMember,
+} from "@/lib/auth/workspaces";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName } from "@/types/auth";
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+/**
+ * PUT /api/admin/workspaces/[id]/members/[userId] - Add a user to a workspace,
+ * or change their role there, with `{ role }`
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { role } = await request.json();
+
+    await ensureRolesLoaded();
+    if (!isKnownRole(role)) {
+      return NextResponse.json({ message: "Invalid role" }, { status: 400 });
+    }
+
+    // Check if user can manage the target role
+    const currentUserRole = session.user.role as RoleName;
+    if (!canManageRole(currentUserRole, role)) {
+      return NextResponse.json(
+        { message: `${currentUserRole} role cannot assign ${role} role` },
+        { status: 403 }
+      );
+    }
+
+    // Grants are account-wide, so temporary-only roles are never given per workspace
+    const assignmentError = await getRoleAssignmentError(role);
+    if (assignmentError) {
+      return NextResponse.json(
+        { message: assignmentError.message },
+        { status: assignmentError.status }
+      );
+    }
+
+    // Await params in Next.js 15
+    const { id, userId } = await params;
+
+    if (!(await getWorkspace(id))) {
+      return NextResponse.json({ message: "Workspace not found" }, { status: 404 });
+    }
+    if (!(await getUserById(userId))) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    }
+
+    const previous = (await listWorkspaceMembers(id)).find(member => member.userId === userId);
+    const membership = await setWorkspaceMember(id, userId, role);
+
+    if (previous?.role !== role) {
+      // The workspace role is part of the user's version (see user-etag.ts)
+      await updateUser(userId, { updatedAt: new Date() });
+      await logWorkspaceEvent({
+        userId: session.user.id!,
+        workspaceId: id,
+        event: previous ? "member_role_changed" : "member_added",
+        targetUserId: userId,
+        oldRole: previous?.role,
+        newRole: role,
+        ipAddress: getClientIp(request.headers),
+        userAgent: request.headers.get("user-agent") ?? undefined,
+      });
+    }
+
+    return NextResponse.json({ membership }, { status: previous ? 200 : 201 });
+  } catch (error) {
+    console.error("Error updating workspace member:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/workspaces/[id]/members/[userId] - Remove a user from a
+ * workspace. A user's last workspace cannot be removed.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id, userId } = await params;
+
+    let removed: boolean;
+    try {
+      removed = await removeWorkspaceMember(id, userId);
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : "Failed to remove member" },
+        { status: 409 }
+      );
+    }
+
+    if (!removed) {
+      return NextResponse.json({ message: "Member not found" }, { status: 404 });
+    }
+
+    await updateUser(userId, { updatedAt: new Date() });
+    await logWorkspaceEvent({
+      userId: session.user.id!,
+      workspaceId: id,
+      event: "member_removed",
+      targetUserId: userId,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Member removed" });
+  } catch (error) {
+    console.error("Error removing workspace member:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { getUserById } from "@/lib/auth/user-service";
+import { getWorkspace, listWorkspaceMembers } from "@/lib/auth/workspaces";
+
+/**
+ * GET /api/admin/workspaces/[id]/members - List a workspace's explicit members
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    if (!(await getWorkspace(id))) {
+      return NextResponse.json({ message: "Workspace not found" }, { status: 404 });
+    }
+
+    const members = await listWorkspaceMembers(id);
+
+    return NextResponse.json({
+      members: await Promise.all(
+        members.map(async membership => {
+          const user = await getUserById(membership.userId);
+          return {
+            ...membership,
+            email: user?.email ?? null,
+            name: user?.name ?? null,
+          };
+        })
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching workspace members:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
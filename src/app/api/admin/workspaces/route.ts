@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logWorkspaceEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { WORKSPACES } from "@/lib/auth/constants";
+import { canAccessAdminConsole } from "@/lib/auth/permissions";
+import { createWorkspace, listWorkspaceMembers, listWorkspaces } from "@/lib/auth/workspaces";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * GET /api/admin/workspaces - List all workspaces with their explicit member counts
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const workspaces = await listWorkspaces();
+
+    return NextResponse.json({
+      workspaces: await Promise.all(
+        workspaces.map(async workspace => ({
+          ...workspace,
+          memberCount: (await listWorkspaceMembers(workspace.id)).length,
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching workspaces:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/workspaces - Create a workspace with `{ name }`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+    }
+
+    // Account admins with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES only
+    const canManageUsers = await canAccessAdminConsole(session.user as any);
+
+    if (!canManageUsers) {
+      return NextResponse.json({ message: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const { name } = await request.json();
+
+    if (
+      typeof name !== "string" ||
+      !name.trim() ||
+      name.trim().length > WORKSPACES.NAME_MAX_LENGTH
+    ) {
+      return NextResponse.json(
+        { message: `Name must be 1 to ${WORKSPACES.NAME_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    let workspace;
+    try {
+      workspace = await createWorkspace({ name, createdBy: session.user.id! });
+    } catch (error) {
+      return NextResponse.json(
+        { message: error instanceof Error ? error.message : "Failed to create workspace" },
+        { status: 409 }
+      );
+    }
+
+    await logWorkspaceEvent({
+      userId: session.user.id!,
+      workspaceId: workspace.id,
+      event: "created",
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ workspace }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating workspace:", error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { POST as signup } from "../signup/route";
+import { POST as forgotPassword } from "../forgot-password/route";
+import { POST as resetPassword } from "../reset-password/route";
+import { POST as verifyEmail } from "../verify-email/route";
+import { createInvitation } from "@/lib/auth/invitations";
+import { createSession, listUserSessions } from "@/lib/auth/session-store";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { getUserByEmail, verifyUserCredentials } from "@/lib/auth/user-service";
+import { setMailTransport, type MailMessage } from "@/lib/mail/mailer";
+
+vi.mock("@/lib/audit/audit-service", () => ({
+  createAuditLog: vi.fn(),
+  logEmailVerificationEvent: vi.fn(),
+  logInvitationEvent: vi.fn(),
+}));
+
+import {
+  createAuditLog,
+  logEmailVerificationEvent,
+  logInvitationEvent,
+} from "@/lib/audit/audit-service";
+import { AuditAction } from "@/types/audit";
+import { UserRole } from "@/types/auth";
+
+function jsonRequest(path: string, body: unknown) {
+  return new NextRequest(`http://localhost${path}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("Credential account routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+  });
+
+  describe("POST /api/auth/signup", () => {
+    it("creates an account with a hashed password", async () => {
+      const response = await signup(
+        jsonRequest("/api/auth/signup", {
+          name: "Jane Doe",
+          email: "Jane@Example.com",
+          password: "s3cretpass",
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.user.email).toBe("jane@example.com");
+      expect(data.user.passwordHash).toBeUndefined();
+
+      const stored = await getUserByEmail("jane@example.com");
+      expect(stored?.passwordHash).toMatch(/^scrypt\$/);
+      expect(stored?.emailVerified).toBe(false);
+      expect(await verifyUserCredentials("jane@example.com", "s3cretpass")).not.toBeNull();
+      expect(createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.USER_REGISTERED })
+      );
+    });
+
+    it("returns 400 when the password violates the policy", async () => {
+      const response = await signup(
+        jsonRequest("/api/auth/signup", { name: "Jane", email: "j@example.com", password: "short" })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details).toContain("Password must be at least 8 characters long");
+    });
+
+    it("applies the invited role when signing up from an invitation", async () => {
+      const { token } = await createInvitation({
+        email: "invited@example.com",
+        role: UserRole.EDITOR,
+        invitedBy: "admin_1",
+        expiresInDays: 7,
+      });
+
+      const mismatch = await signup(
+        jsonRequest("/api/auth/signup", {
+          name: "Someone Else",
+          email: "other@example.com",
+          password: "s3cretpass",
+          inviteToken: token,
+        })
+      );
+      expect(mismatch.status).toBe(400);
+
+      const response = await signup(
+        jsonRequest("/api/auth/signup", {
+          name: "Invited",
+          email: "invited@example.com",
+          password: "s3cretpass",
+          inviteToken: token,
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.user).toMatchObject({ role: UserRole.EDITOR, emailVerified: true });
+      expect(logInvitationEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: "accepted", userId: data.user.id })
+      );
+    });
+
+    it("returns 409 when the email is taken", async () => {
+      const response = await signup(
+        jsonRequest("/api/auth/signup", {
+          name: "Admin",
+          email: "admin@example.com",
+          password: "s3cretpass",
+        })
+      );
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe("email verification", () => {
+    it("emails a link at signup that verifies the address exactly once", async () => {
+      const sent: MailMessage[] = [];
+      setMailTransport({ name: "test", send: async message => void sent.push(message) });
+
+      const response = await signup(
+        jsonRequest("/api/auth/signup", {
+          name: "Jane Doe",
+          email: "jane@example.com",
+          password: "s3cretpass",
+        })
+      );
+      setMailTransport(null);
+
+      expect((await response.json()).verificationRequired).toBe(true);
+      expect(sent).toHaveLength(1);
+      expect(sent[0]?.to).toBe("jane@example.com");
+      const verifyUrl = sent[0]?.text.match(/http\S+/)?.[0] ?? "";
+      const token = new URL(verifyUrl).searchParams.get("token");
+
+      const first = await verifyEmail(jsonRequest("/api/auth/verify-email", { token }));
+      expect(first.status).toBe(200);
+      expect((await getUserByEmail("jane@example.com"))?.emailVerified).toBe(true);
+      expect(logEmailVerificationEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event: "verified", email: "jane@example.com" })
+      );
+
+      const second = await verifyEmail(jsonRequest("/api/auth/verify-email", { token }));
+      expect(second.status).toBe(400);
+    });
+  });
+
+  describe("password reset flow", () => {
+    it("returns the same response for unknown emails", async () => {
+      const response = await forgotPassword(
+        jsonRequest("/api/auth/forgot-password", { email: "nobody@example.com" })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toContain("If an account exists");
+      expect(createAuditLog).not.toHaveBeenCalled();
+    });
+
+    it("resets the password with the emailed token exactly once", async () => {
+      const { id: userId } = (await getUserByEmail("test@example.com"))!;
+      await createSession({ userId });
+      const sent: MailMessage[] = [];
+      setMailTransport({ name: "test", send: async message => void sent.push(message) });
+
+      await forgotPassword(jsonRequest("/api/auth/forgot-password", { email: "test@example.com" }));
+      setMailTransport(null);
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0]?.to).toBe("test@example.com");
+      const resetUrl = sent[0]?.text.match(/http\S+/)?.[0] ?? "";
+      // From NEXTAUTH_URL, not the host the request was sent to
+      expect(resetUrl).toMatch(/^http:\/\/localhost:3000\//);
+      const token = new URL(resetUrl).searchParams.get("token");
+
+      const first = await resetPassword(
+        jsonRequest("/api/auth/reset-password", { token, password: "brandnew123" })
+      );
+      expect(first.status).toBe(200);
+      expect(await verifyUserCredentials("test@example.com", "brandnew123")).not.toBeNull();
+      expect(await verifyUserCredentials("test@example.com", "testuser123")).toBeNull();
+      expect(await listUserSessions(userId)).toEqual([]);
+
+      const second = await resetPassword(
+        jsonRequest("/api/auth/reset-password", { token, password: "another123" })
+      );
+      expect(second.status).toBe(400);
+    });
+  });
+});
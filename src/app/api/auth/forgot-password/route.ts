@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { forgotPasswordSchema } from "@/lib/api/schemas";
+import { createAuditLog } from "@/lib/audit/audit-service";
+import { buildPasswordResetUrl, createPasswordResetToken } from "@/lib/auth/password-reset";
+import { getUserByEmail, normalizeEmail } from "@/lib/auth/user-service";
+import { sendMail } from "@/lib/mail/mailer";
+import { passwordResetEmail } from "@/lib/mail/templates";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { AuditAction } from "@/types/audit";
+
+// Same response whether or not the account exists, to prevent account enumeration
+const GENERIC_RESPONSE = {
+  message: "If an account exists for that email, a password reset link has been sent.",
+};
+
+/**
+ * POST /api/auth/forgot-password - Request a password reset link
+ * Public endpoint
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = forgotPasswordSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserByEmail(normalizeEmail(validationResult.data.email));
+
+    // Only active credential accounts can reset a password
+    if (!user?.isActive || !user.passwordHash) {
+      return NextResponse.json(GENERIC_RESPONSE);
+    }
+
+    const token = await createPasswordResetToken(user.id);
+    const resetUrl = buildPasswordResetUrl(token);
+
+    await sendMail(passwordResetEmail({ to: user.email, resetUrl }));
+
+    await createAuditLog({
+      action: AuditAction.PASSWORD_RESET_REQUESTED,
+      userId: user.id,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+      details: "Password reset requested",
+    });
+
+    return NextResponse.json(GENERIC_RESPONSE);
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { logImpersonationEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { stopImpersonation } from "@/lib/auth/impersonation";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * DELETE /api/auth/impersonation - Stop viewing as another user
+ * Lives under /api/auth so middleware never blocks the way out. The client
+ * calls update() on its session afterwards to get the admin's claims back.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user || !session.sessionId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const impersonation = await stopImpersonation(session.sessionId);
+    if (!impersonation) {
+      return NextResponse.json({ error: "Not impersonating" }, { status: 400 });
+    }
+
+    await logImpersonationEvent({
+      adminId: session.impersonator?.id ?? session.user.id!,
+      targetUserId: impersonation.targetUserId,
+      event: "stopped",
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Impersonation stopped" });
+  } catch (error) {
+    console.error("Error stopping impersonation:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { acceptInvitationSchema } from "@/lib/api/schemas";
+import { AUTH_ERRORS, INVITATIONS } from "@/lib/auth/constants";
+import { getInvitationByToken } from "@/lib/auth/invitations";
+
+/**
+ * POST /api/auth/invitation - Start accepting an invitation with a provider.
+ * Sets a short-lived cookie the sign-in callback uses to apply the invited
+ * role; the client then starts the provider sign-in.
+ * Public endpoint
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = acceptInvitationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token } = validationResult.data;
+    if (!(await getInvitationByToken(token))) {
+      return NextResponse.json({ error: AUTH_ERRORS.INVALID_INVITATION }, { status: 400 });
+    }
+
+    const response = NextResponse.json({ message: "Invitation ready" });
+    response.cookies.set(INVITATIONS.COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: INVITATIONS.COOKIE_TTL,
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
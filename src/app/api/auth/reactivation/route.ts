@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { reactivationSchema } from "@/lib/api/schemas";
+import { logReactivationRequest } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { createReactivationRequest } from "@/lib/auth/reactivation-requests";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/auth/reactivation - Ask an admin to reactivate the signed-in user's account
+ * Reachable while deactivated: middleware treats /api/auth/* as public
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = reactivationSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(session.user.id);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    let reactivationRequest;
+    try {
+      reactivationRequest = await createReactivationRequest(user, validationResult.data.reason);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to submit request" },
+        { status: 409 }
+      );
+    }
+
+    await logReactivationRequest({
+      userId: user.id,
+      reactivationRequestId: reactivationRequest.id,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ request: reactivationRequest }, { status: 201 });
+  } catch (error) {
+    console.error("Reactivation request error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
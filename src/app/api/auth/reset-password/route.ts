@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { resetPasswordSchema } from "@/lib/api/schemas";
+import { createAuditLog } from "@/lib/audit/audit-service";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { validatePassword } from "@/lib/auth/password";
+import { consumePasswordResetToken } from "@/lib/auth/password-reset";
+import { revokeUserSessions } from "@/lib/auth/session-store";
+import { setUserPassword } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { AuditAction } from "@/types/audit";
+
+/**
+ * POST /api/auth/reset-password - Set a new password using a reset token
+ * Public endpoint
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = resetPasswordSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, password } = validationResult.data;
+
+    // Check the policy before consuming the token so a weak password doesn't burn the link
+    const passwordErrors = validatePassword(password);
+    if (passwordErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Password does not meet requirements", details: passwordErrors },
+        { status: 400 }
+      );
+    }
+
+    const userId = await consumePasswordResetToken(token);
+    if (!userId) {
+      return NextResponse.json({ error: AUTH_ERRORS.INVALID_RESET_TOKEN }, { status: 400 });
+    }
+
+    const updatedUser = await setUserPassword(userId, password);
+    if (!updatedUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Whoever knew the old password may already be signed in
+    await revokeUserSessions(userId);
+
+    await createAuditLog({
+      action: AuditAction.PASSWORD_RESET_COMPLETED,
+      userId,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+      details: "Password reset with emailed token",
+    });
+
+    return NextResponse.json({ message: "Password has been reset. You can now sign in." });
+  } catch (error) {
+    console.error("Reset password error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
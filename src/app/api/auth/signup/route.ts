@@ -0,0 +1,118 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { signupSchema } from "@/lib/api/schemas";
+import {
+  createAuditLog,
+  logEmailVerificationEvent,
+  logInvitationEvent,
+} from "@/lib/audit/audit-service";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { sendEmailVerification } from "@/lib/auth/email-verification";
+import { getInvitationByToken, redeemInvitation } from "@/lib/auth/invitations";
+import { validatePassword } from "@/lib/auth/password";
+import {
+  getUserByEmail,
+  normalizeEmail,
+  registerCredentialsUser,
+  sanitizeUser,
+} from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { AuditAction } from "@/types/audit";
+
+/**
+ * POST /api/auth/signup - Create a credentials account
+ * Public endpoint
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Step 1: Parse and validate request body
+    const body = await request.json();
+    const validationResult = signupSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, password, inviteToken } = validationResult.data;
+
+    // Step 2: Enforce password policy
+    const passwordErrors = validatePassword(password);
+    if (passwordErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Password does not meet requirements", details: passwordErrors },
+        { status: 400 }
+      );
+    }
+
+    // Step 3: Reject duplicate accounts
+    if (await getUserByEmail(normalizeEmail(email))) {
+      return NextResponse.json({ error: AUTH_ERRORS.EMAIL_IN_USE }, { status: 409 });
+    }
+
+    // Step 4: An invitation link must belong to the email being registered
+    if (inviteToken) {
+      const invitation = await getInvitationByToken(inviteToken);
+      if (invitation?.email !== normalizeEmail(email)) {
+        return NextResponse.json({ error: AUTH_ERRORS.INVALID_INVITATION }, { status: 400 });
+      }
+    }
+
+    // Step 5: Create the account
+    let user = await registerCredentialsUser({ name, email, password });
+
+    await createAuditLog({
+      action: AuditAction.USER_REGISTERED,
+      userId: user.id,
+      metadata: { provider: "credentials" },
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+      details: "Account registered with email and password",
+    });
+
+    // Step 6: Apply the invited role
+    if (inviteToken) {
+      const redeemed = await redeemInvitation({ user, token: inviteToken, emailVerified: false });
+      if (redeemed) {
+        user = redeemed.user;
+        await logInvitationEvent({
+          userId: user.id,
+          event: "accepted",
+          invitationId: redeemed.invitation.id,
+          email: redeemed.invitation.email,
+          role: redeemed.invitation.role,
+          ipAddress: getClientIp(request.headers),
+          userAgent: request.headers.get("user-agent") ?? undefined,
+        });
+      }
+    }
+
+    // Step 7: Ask the user to confirm their email (an invitation link already has)
+    if (!user.emailVerified && (await sendEmailVerification(user))) {
+      await logEmailVerificationEvent({
+        userId: user.id,
+        event: "sent",
+        email: user.email,
+        ipAddress: getClientIp(request.headers),
+        userAgent: request.headers.get("user-agent") ?? undefined,
+      });
+    }
+
+    return NextResponse.json(
+      { user: sanitizeUser(user), verificationRequired: !user.emailVerified },
+      { status: 201 }
+    );
+  } catch (error) {
+    // Another sign-up took the email after the check above
+    if (error instanceof Error && error.message === AUTH_ERRORS.EMAIL_IN_USE) {
+      return NextResponse.json({ error: AUTH_ERRORS.EMAIL_IN_USE }, { status: 409 });
+    }
+    console.error("Signup error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
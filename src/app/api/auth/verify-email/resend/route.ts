@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logEmailVerificationEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { getVerificationResendWait, sendEmailVerification } from "@/lib/auth/email-verification";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/auth/verify-email/resend - Email the signed-in user a new verification link
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const user = await getUserById(session.user.id);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.emailVerified) {
+      return NextResponse.json({ error: "Your email is already verified" }, { status: 400 });
+    }
+
+    const retryAfter = await getVerificationResendWait(user.id);
+    if (retryAfter > 0) {
+      return NextResponse.json(
+        { error: `Please wait ${retryAfter} seconds before requesting another link` },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    if (!(await sendEmailVerification(user))) {
+      return NextResponse.json({ error: "The email could not be sent" }, { status: 500 });
+    }
+
+    await logEmailVerificationEvent({
+      userId: user.id,
+      event: "sent",
+      email: user.email,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: `A new link has been sent to ${user.email}` });
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
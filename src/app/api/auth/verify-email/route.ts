@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { verifyEmailSchema } from "@/lib/api/schemas";
+import { logEmailVerificationEvent } from "@/lib/audit/audit-service";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { consumeEmailVerificationToken } from "@/lib/auth/email-verification";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/auth/verify-email - Confirm an email address with an emailed token
+ * Public endpoint: the link may be opened in a browser that is not signed in
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validationResult = verifyEmailSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await consumeEmailVerificationToken(validationResult.data.token);
+    if (!user) {
+      return NextResponse.json({ error: AUTH_ERRORS.INVALID_VERIFICATION_TOKEN }, { status: 400 });
+    }
+
+    await logEmailVerificationEvent({
+      userId: user.id,
+      event: "verified",
+      email: user.email,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Your email has been verified.", email: user.email });
+  } catch (error) {
+    console.error("Verify email error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -3,26 +3,30 @@
  * Handles streaming chat responses from Dify AI
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { type NextRequest, NextResponse } from "next/server";
 
-const DIFY_API_URL = process.env.DIFY_API_URL || "http://dify.toho.vn/v1";
-const DIFY_API_KEY = process.env.DIFY_API_KEY || "app-FXjGpAPSg6UmeXwc9kGOjJKZ";
-
-export interface ChatRequest {
-  message: string;
-  conversationId?: string;
-  userId?: string;
-}
+import { avatarChatRequestSchema } from "@/lib/api/schemas";
+import { auth } from "@/lib/auth";
+import { ANONYMOUS_AVATAR_USER, DIFY_API_KEY, DIFY_API_URL } from "@/lib/avatar/dify";
 
 export async function POST(request: NextRequest) {
   try {
-    const body: ChatRequest = await request.json();
-    const { message, conversationId, userId = "default-user" } = body;
-
-    if (!message || message.trim().length === 0) {
-      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    const validation = avatarChatRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.errors[0]?.message ?? "Invalid request" },
+        { status: 400 }
+      );
     }
 
+    const { message, conversationId } = validation.data;
+
+    // Signed-in users' conversations are stored under their own id, so they
+    // can be included in data exports and removed on account deletion. Everyone
+    // else shares one id: callers never choose whose conversations they reach.
+    const session = await auth();
+    const userId = session?.user?.id ?? ANONYMOUS_AVATAR_USER;
+
     // Prepare Dify request
     const dififyRequest = {
       query: message,
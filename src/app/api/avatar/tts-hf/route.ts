@@ -7,6 +7,8 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
+import { mmsTtsRequestSchema } from "@/lib/api/schemas";
+
 const HF_API_KEY = process.env.HUGGINGFACE_API_KEY;
 const HF_MODEL = "facebook/mms-tts";
 const HF_API_URL = `https://api-inference.huggingface.co/models/${HF_MODEL}`;
@@ -23,20 +25,18 @@ const LANGUAGE_CODES: Record<string, string> = {
   ms: "msa", // Malay
 };
 
-export interface TTSRequest {
-  text: string;
-  language?: string; // ISO 639-1 code (e.g., 'vi', 'en')
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const body: TTSRequest = await request.json();
-    const { text, language = "vi" } = body; // Default to Vietnamese
-
-    if (!text || text.trim().length === 0) {
-      return NextResponse.json({ error: "Text is required" }, { status: 400 });
+    const validation = mmsTtsRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.errors[0]?.message ?? "Invalid request" },
+        { status: 400 }
+      );
     }
 
+    const { text, language = "vi" } = validation.data; // Default to Vietnamese
+
     if (!HF_API_KEY || HF_API_KEY === "hf_placeholder_get_from_huggingface_settings") {
       return NextResponse.json(
         {
@@ -8,6 +8,8 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
+import { ttsRequestSchema } from "@/lib/api/schemas";
+
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
 const ELEVENLABS_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || "21m00Tcm4TlvDq8ikWAM";
 const ELEVENLABS_MODEL_ID = "eleven_flash_v2_5"; // Fastest model
@@ -17,18 +19,6 @@ const HUGGINGFACE_API_KEY = process.env.HUGGINGFACE_API_KEY;
 const AZURE_SPEECH_KEY = process.env.AZURE_SPEECH_KEY;
 const AZURE_SPEECH_REGION = process.env.AZURE_SPEECH_REGION || "eastus";
 
-export interface TTSRequest {
-  text: string;
-  language?: string; // 'vi' for Vietnamese, 'en' for English
-  provider?: "auto" | "azure" | "huggingface" | "elevenlabs"; // Provider selection
-  voiceId?: string;
-  gender?: "male" | "female"; // For Azure voice selection
-  stability?: number;
-  similarityBoost?: number;
-  style?: number;
-  useSpeakerBoost?: boolean;
-}
-
 // Language-specific MMS-TTS models
 const HF_MODELS: Record<string, string> = {
   vi: "facebook/mms-tts-vie", // Vietnamese
@@ -241,7 +231,14 @@ async function tryElevenLabsTTS(
 
 export async function POST(request: NextRequest) {
   try {
-    const body: TTSRequest = await request.json();
+    const validation = ttsRequestSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.errors[0]?.message ?? "Invalid request" },
+        { status: 400 }
+      );
+    }
+
     const {
       text,
       language = "vi", // Default to Vietnamese
@@ -252,11 +249,7 @@ export async function POST(request: NextRequest) {
       similarityBoost = 0.75,
       style = 0,
       useSpeakerBoost = true,
-    } = body;
-
-    if (!text || text.trim().length === 0) {
-      return NextResponse.json({ error: "Text is required" }, { status: 400 });
-    }
+    } = validation.data;
 
     console.log(`[TTS] Request: ${text.length} chars, lang=${language}, provider=${provider}`);
 
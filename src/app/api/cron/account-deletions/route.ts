@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import { processDueAccountDeletions } from "@/lib/auth/account-deletion";
+import { getBearerToken } from "@/lib/auth/api-tokens";
+
+// Scheduled jobs send CRON_SECRET as a bearer token (Vercel Cron does this itself)
+function isCronRequestAuthorized(headers: Headers): boolean {
+  const expected = process.env.CRON_SECRET;
+  const token = getBearerToken(headers);
+  if (!expected || !token) {
+    return false;
+  }
+
+  // Compare digests so the comparison does not leak the secret length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+/**
+ * GET /api/cron/account-deletions - Carry out account deletions whose grace
+ * period has ended. Run daily by a scheduler.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequestAuthorized(request.headers)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deleted = await processDueAccountDeletions();
+    return NextResponse.json({ deleted: deleted.length });
+  } catch (error) {
+    console.error("Account deletion job error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
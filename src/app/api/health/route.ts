@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 
+import type { HealthStatus } from "@/lib/api/schemas";
+
 /**
  * Health Check Endpoint
  *
@@ -12,7 +14,7 @@ import { NextResponse } from "next/server";
  */
 
 export async function GET() {
-  const healthData = {
+  const healthData: HealthStatus = {
     status: "healthy",
     timestamp: new Date().toISOString(),
     service: "fe-engine-prime",
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+/**
+ * GET /api/openapi.json - OpenAPI 3.1 description of the API routes
+ */
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,143 @@
+import type { NextRequest } from "next/server";
+
+import { getRole } from "@/lib/auth/role-service";
+import {
+  getScimGroupMembers,
+  getScimGroupPatch,
+  getScimGroupReplacement,
+  toScimGroup,
+  updateScimGroupMembers,
+  type ScimMemberChanges,
+} from "@/lib/scim/groups";
+import {
+  getPatchOperations,
+  getScimBaseUrl,
+  getScimRequestContext,
+  isScimRequestAuthorized,
+  readScimBody,
+  scimError,
+  scimResponse,
+} from "@/lib/scim/protocol";
+import type { RoleDefinition } from "@/types/auth";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function saveScimGroup(
+  request: NextRequest,
+  definition: RoleDefinition,
+  changes: ScimMemberChanges
+) {
+  const refused = await updateScimGroupMembers(definition, changes, getScimRequestContext(request));
+  if (refused) {
+    return scimError(refused.status, refused.detail, refused.scimType);
+  }
+
+  return scimResponse(
+    toScimGroup(definition, await getScimGroupMembers(definition), getScimBaseUrl(request))
+  );
+}
+
+/**
+ * GET /api/scim/v2/Groups/[id] - Get one role as a group, with its members
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const definition = await getRole(id);
+    if (!definition) {
+      return scimError(404, "Group not found");
+    }
+
+    return scimResponse(
+      toScimGroup(definition, await getScimGroupMembers(definition), getScimBaseUrl(request))
+    );
+  } catch (error) {
+    console.error("Error getting SCIM group:", error);
+    return scimError(500, "Internal server error");
+  }
+}
+
+/**
+ * PUT /api/scim/v2/Groups/[id] - Replace the members of a group. Users no
+ * longer listed fall back to the default role.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const definition = await getRole(id);
+    if (!definition) {
+      return scimError(404, "Group not found");
+    }
+
+    const body = await readScimBody(request);
+    if (!body) {
+      return scimError(400, "Request body must be a JSON object", "invalidSyntax");
+    }
+
+    const members = await getScimGroupMembers(definition);
+    const { changes, errors } = getScimGroupReplacement(
+      definition,
+      body,
+      members.map(user => user.id)
+    );
+    if (errors.length > 0) {
+      return scimError(400, errors.join("; "), "invalidValue");
+    }
+
+    return await saveScimGroup(request, definition, changes);
+  } catch (error) {
+    console.error("Error replacing SCIM group:", error);
+    return scimError(500, "Internal server error");
+  }
+}
+
+/**
+ * PATCH /api/scim/v2/Groups/[id] - Add or remove members
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const definition = await getRole(id);
+    if (!definition) {
+      return scimError(404, "Group not found");
+    }
+
+    const body = await readScimBody(request);
+    const operations = body && getPatchOperations(body);
+    if (!operations) {
+      return scimError(400, "Request body must be a PatchOp message", "invalidSyntax");
+    }
+
+    const members = await getScimGroupMembers(definition);
+    const { changes, errors } = getScimGroupPatch(
+      definition,
+      operations,
+      members.map(user => user.id)
+    );
+    if (errors.length > 0) {
+      return scimError(400, errors.join("; "), "invalidValue");
+    }
+
+    return await saveScimGroup(request, definition, changes);
+  } catch (error) {
+    console.error("Error patching SCIM group:", error);
+    return scimError(500, "Internal server error");
+  }
+}
@@ -0,0 +1,58 @@
+import type { NextRequest } from "next/server";
+
+import {
+  getScimGroupMembers,
+  listScimGroups,
+  SCIM_GROUP_FILTER_ATTRIBUTES,
+  toScimGroup,
+} from "@/lib/scim/groups";
+import {
+  getScimBaseUrl,
+  getScimPage,
+  isScimRequestAuthorized,
+  parseScimFilter,
+  scimError,
+  scimResponse,
+  toScimListResponse,
+} from "@/lib/scim/protocol";
+
+/**
+ * GET /api/scim/v2/Groups - List roles as groups, optionally filtered by
+ * `displayName eq "..."` or `id eq "..."`. Send excludedAttributes=members to
+ * leave out the member lists.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    const { searchParams } = request.nextUrl;
+    const filterParam = searchParams.get("filter");
+    const filter = filterParam ? parseScimFilter(filterParam, SCIM_GROUP_FILTER_ATTRIBUTES) : null;
+
+    if (filterParam && !filter) {
+      return scimError(400, "Unsupported filter", "invalidFilter");
+    }
+
+    const excludeMembers = searchParams
+      .get("excludedAttributes")
+      ?.toLowerCase()
+      .includes("members");
+    const baseUrl = getScimBaseUrl(request);
+    const groups = await Promise.all(
+      (await listScimGroups(filter)).map(async definition =>
+        toScimGroup(
+          definition,
+          excludeMembers ? null : await getScimGroupMembers(definition),
+          baseUrl
+        )
+      )
+    );
+
+    return scimResponse(toScimListResponse(groups, getScimPage(searchParams)));
+  } catch (error) {
+    console.error("Error listing SCIM groups:", error);
+    return scimError(500, "Internal server error");
+  }
+}
@@ -0,0 +1,157 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { getUserById } from "@/lib/auth/user-service";
+import {
+  getPatchOperations,
+  getScimBaseUrl,
+  getScimRequestContext,
+  isScimRequestAuthorized,
+  readScimBody,
+  scimError,
+  scimResponse,
+} from "@/lib/scim/protocol";
+import {
+  applyScimUserPatch,
+  getScimUserConflict,
+  parseScimUser,
+  setScimUserStatus,
+  toScimUser,
+  toScimUserInput,
+  updateScimUser,
+} from "@/lib/scim/users";
+import type { User } from "@/types/auth";
+import type { ScimUserInput } from "@/types/scim";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function saveScimUser(request: NextRequest, user: User, input: ScimUserInput) {
+  const conflict = await getScimUserConflict(input, user.id);
+  if (conflict) {
+    return scimError(409, conflict, "uniqueness");
+  }
+
+  const updated = await updateScimUser(user, input, getScimRequestContext(request));
+  return scimResponse(toScimUser(updated, getScimBaseUrl(request)));
+}
+
+/**
+ * GET /api/scim/v2/Users/[id] - Get one user
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const user = await getUserById(id);
+    if (!user) {
+      return scimError(404, "User not found");
+    }
+
+    return scimResponse(toScimUser(user, getScimBaseUrl(request)));
+  } catch (error) {
+    console.error("Error getting SCIM user:", error);
+    return scimError(500, "Internal server error");
+  }
+}
+
+/**
+ * PUT /api/scim/v2/Users/[id] - Replace a user's fields. Omitting active keeps
+ * the current status.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const user = await getUserById(id);
+    if (!user) {
+      return scimError(404, "User not found");
+    }
+
+    const body = await readScimBody(request);
+    if (!body) {
+      return scimError(400, "Request body must be a JSON object", "invalidSyntax");
+    }
+
+    const { input, errors } = parseScimUser(body);
+    if (errors.length > 0) {
+      return scimError(400, errors.join("; "), "invalidValue");
+    }
+
+    return await saveScimUser(request, user, input);
+  } catch (error) {
+    console.error("Error replacing SCIM user:", error);
+    return scimError(500, "Internal server error");
+  }
+}
+
+/**
+ * PATCH /api/scim/v2/Users/[id] - Apply PatchOp operations, e.g.
+ * `{ op: "replace", path: "active", value: false }` to deprovision
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const user = await getUserById(id);
+    if (!user) {
+      return scimError(404, "User not found");
+    }
+
+    const body = await readScimBody(request);
+    const operations = body && getPatchOperations(body);
+    if (!operations) {
+      return scimError(400, "Request body must be a PatchOp message", "invalidSyntax");
+    }
+
+    const { input, errors } = applyScimUserPatch(toScimUserInput(user), operations);
+    if (errors.length > 0) {
+      return scimError(400, errors.join("; "), "invalidValue");
+    }
+
+    return await saveScimUser(request, user, input);
+  } catch (error) {
+    console.error("Error patching SCIM user:", error);
+    return scimError(500, "Internal server error");
+  }
+}
+
+/**
+ * DELETE /api/scim/v2/Users/[id] - Deprovision a user. The account is
+ * deactivated, not deleted, so its history stays intact.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+    const user = await getUserById(id);
+    if (!user) {
+      return scimError(404, "User not found");
+    }
+
+    if (user.isActive) {
+      await setScimUserStatus(user, false, getScimRequestContext(request));
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deprovisioning SCIM user:", error);
+    return scimError(500, "Internal server error");
+  }
+}
@@ -0,0 +1,95 @@
+import type { NextRequest } from "next/server";
+
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import {
+  getScimBaseUrl,
+  getScimPage,
+  getScimRequestContext,
+  isScimRequestAuthorized,
+  parseScimFilter,
+  readScimBody,
+  scimError,
+  scimResponse,
+  toScimListResponse,
+} from "@/lib/scim/protocol";
+import {
+  SCIM_USER_FILTER_ATTRIBUTES,
+  createScimUser,
+  getScimUserConflict,
+  listScimUsers,
+  parseScimUser,
+  toScimUser,
+} from "@/lib/scim/users";
+
+/**
+ * GET /api/scim/v2/Users - List users, optionally filtered by
+ * `userName eq "..."`, `externalId eq "..."` or `id eq "..."`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    const { searchParams } = request.nextUrl;
+    const filterParam = searchParams.get("filter");
+    const filter = filterParam ? parseScimFilter(filterParam, SCIM_USER_FILTER_ATTRIBUTES) : null;
+
+    if (filterParam && !filter) {
+      return scimError(400, "Unsupported filter", "invalidFilter");
+    }
+
+    const baseUrl = getScimBaseUrl(request);
+    const users = await listScimUsers(filter);
+
+    return scimResponse(
+      toScimListResponse(
+        users.map(user => toScimUser(user, baseUrl)),
+        getScimPage(searchParams)
+      )
+    );
+  } catch (error) {
+    console.error("Error listing SCIM users:", error);
+    return scimError(500, "Internal server error");
+  }
+}
+
+/**
+ * POST /api/scim/v2/Users - Provision a user with the default role
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isScimRequestAuthorized(request.headers)) {
+      return scimError(401, "Authentication required");
+    }
+
+    const body = await readScimBody(request);
+    if (!body) {
+      return scimError(400, "Request body must be a JSON object", "invalidSyntax");
+    }
+
+    const { input, errors } = parseScimUser(body);
+    if (errors.length > 0) {
+      return scimError(400, errors.join("; "), "invalidValue");
+    }
+
+    const conflict = await getScimUserConflict(input);
+    if (conflict) {
+      return scimError(409, conflict, "uniqueness");
+    }
+
+    const user = await createScimUser(input, getScimRequestContext(request));
+    const resource = toScimUser(user, getScimBaseUrl(request));
+
+    const response = scimResponse(resource, 201);
+    response.headers.set("Location", resource.meta.location);
+    return response;
+  } catch (error) {
+    // Another request took the email after the conflict check
+    if (error instanceof Error && error.message === AUTH_ERRORS.EMAIL_IN_USE) {
+      return scimError(409, error.message, "uniqueness");
+    }
+    console.error("Error provisioning SCIM user:", error);
+    return scimError(500, "Internal server error");
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+
+import { PATCH as patchGroup } from "../Groups/[id]/route";
+import { GET as listGroups } from "../Groups/route";
+import { DELETE, PATCH } from "../Users/[id]/route";
+import { GET as listUsers, POST } from "../Users/route";
+import { getAuditLogs } from "@/lib/audit/audit-service";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { getUserById } from "@/lib/auth/user-service";
+import { SCIM_SCHEMAS } from "@/lib/scim/protocol";
+import { AuditAction } from "@/types/audit";
+import { UserRole } from "@/types/auth";
+
+const TOKEN = "scim-test-token";
+
+function scimRequest(path: string, init: { method?: string; body?: unknown; token?: string } = {}) {
+  return new NextRequest(`http://localhost/api/scim/v2${path}`, {
+    method: init.method ?? "GET",
+    headers: { authorization: `Bearer ${init.token ?? TOKEN}` },
+    ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+  });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+async function provision(userName: string) {
+  const response = await POST(
+    scimRequest("/Users", {
+      method: "POST",
+      body: {
+        schemas: [SCIM_SCHEMAS.USER],
+        userName,
+        externalId: `ext-${userName}`,
+        name: { givenName: "Pat", familyName: "Lee" },
+        active: true,
+      },
+    })
+  );
+  return { response, data: await response.json() };
+}
+
+describe("SCIM endpoints", () => {
+  beforeEach(() => {
+    process.env.SCIM_BEARER_TOKEN = TOKEN;
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    delete process.env.SCIM_BEARER_TOKEN;
+    setUserRepository(null);
+  });
+
+  it("rejects requests without the SCIM token", async () => {
+    const response = await listUsers(scimRequest("/Users", { token: "wrong" }));
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({
+      schemas: [SCIM_SCHEMAS.ERROR],
+      status: "401",
+    });
+
+    delete process.env.SCIM_BEARER_TOKEN;
+    expect((await listUsers(scimRequest("/Users"))).status).toBe(401);
+  });
+
+  it("provisions users with the default role and rejects duplicates", async () => {
+    const { response, data } = await provision("pat.lee@example.com");
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get("Location")).toBe(`http://localhost/api/scim/v2/Users/${data.id}`);
+    expect(data).toMatchObject({
+      userName: "pat.lee@example.com",
+      externalId: "ext-pat.lee@example.com",
+      displayName: "Pat Lee",
+      active: true,
+      groups: [{ value: UserRole.USER }],
+    });
+    expect(await getUserById(data.id)).toMatchObject({
+      emailVerified: true,
+      provider: null,
+    });
+
+    const [entry] = await getAuditLogs({ action: AuditAction.USER_PROVISIONED, limit: 1 });
+    expect(entry).toMatchObject({ userId: "scim", targetUserId: data.id });
+
+    const duplicate = await provision("Pat.Lee@example.com");
+    expect(duplicate.response.status).toBe(409);
+    expect(duplicate.data.scimType).toBe("uniqueness");
+  });
+
+  it("filters users by userName", async () => {
+    await provision("filtered@example.com");
+
+    const response = await listUsers(
+      scimRequest(`/Users?filter=${encodeURIComponent('userName eq "Filtered@example.com"')}`)
+    );
+    const data = await response.json();
+
+    expect(data).toMatchObject({ schemas: [SCIM_SCHEMAS.LIST_RESPONSE], totalResults: 1 });
+    expect(data.Resources[0].userName).toBe("filtered@example.com");
+
+    const unsupported = await listUsers(
+      scimRequest(`/Users?filter=${encodeURIComponent('title co "x"')}`)
+    );
+    expect(unsupported.status).toBe(400);
+    expect((await unsupported.json()).scimType).toBe("invalidFilter");
+  });
+
+  it("deprovisions users like the admin status route", async () => {
+    const { data: created } = await provision("leaver@example.com");
+
+    const response = await PATCH(
+      scimRequest(`/Users/${created.id}`, {
+        method: "PATCH",
+        body: {
+          schemas: [SCIM_SCHEMAS.PATCH_OP],
+          Operations: [{ op: "Replace", path: "active", value: "False" }],
+        },
+      }),
+      params(created.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).active).toBe(false);
+    expect((await getUserById(created.id))?.isActive).toBe(false);
+
+    const [entry] = await getAuditLogs({ action: AuditAction.USER_DEACTIVATED, limit: 1 });
+    expect(entry).toMatchObject({
+      userId: "scim",
+      targetUserId: created.id,
+      details: "User deactivated",
+    });
+
+    const { data: other } = await provision("deleted@example.com");
+    const deleted = await DELETE(
+      scimRequest(`/Users/${other.id}`, { method: "DELETE" }),
+      params(other.id)
+    );
+    expect(deleted.status).toBe(204);
+    expect((await getUserById(other.id))?.isActive).toBe(false);
+  });
+
+  it("maps group membership to roles", async () => {
+    const { data: created } = await provision("member@example.com");
+    const patch = (operations: unknown[]) =>
+      patchGroup(
+        scimRequest(`/Groups/${UserRole.EDITOR}`, {
+          method: "PATCH",
+          body: { schemas: [SCIM_SCHEMAS.PATCH_OP], Operations: operations },
+        }),
+        params(UserRole.EDITOR)
+      );
+
+    const added = await patch([{ op: "add", path: "members", value: [{ value: created.id }] }]);
+    expect(added.status).toBe(200);
+    expect((await getUserById(created.id))?.role).toBe(UserRole.EDITOR);
+
+    const [entry] = await getAuditLogs({ action: AuditAction.ROLE_CHANGED, limit: 1 });
+    expect(entry).toMatchObject({
+      userId: "scim",
+      targetUserId: created.id,
+      metadata: { oldRole: UserRole.USER, newRole: UserRole.EDITOR },
+    });
+
+    await patch([{ op: "remove", path: `members[value eq "${created.id}"]` }]);
+    expect((await getUserById(created.id))?.role).toBe(UserRole.USER);
+
+    const unknown = await patch([{ op: "add", path: "members", value: [{ value: "missing" }] }]);
+    expect(unknown.status).toBe(400);
+
+    const groups = await (
+      await listGroups(
+        scimRequest(`/Groups?filter=${encodeURIComponent('displayName eq "Editor"')}`)
+      )
+    ).json();
+    expect(groups.Resources).toHaveLength(1);
+    expect(groups.Resources[0]).toMatchObject({ id: UserRole.EDITOR, displayName: "Editor" });
+  });
+
+  it("does not give temporary-only roles through group membership", async () => {
+    const { data: created } = await provision("admin-group@example.com");
+    const response = await patchGroup(
+      scimRequest(`/Groups/${UserRole.ADMIN}`, {
+        method: "PATCH",
+        body: {
+          schemas: [SCIM_SCHEMAS.PATCH_OP],
+          Operations: [{ op: "add", path: "members", value: [{ value: created.id }] }],
+        },
+      }),
+      params(UserRole.ADMIN)
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ scimType: "mutability" });
+    expect((await getUserById(created.id))?.role).toBe(UserRole.USER);
+  });
+});
@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logAccountLinkChange } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { getLinkedAccounts, getUserById, unlinkProviderAccount } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * DELETE /api/user/accounts/[provider] - Disconnect a provider from the current user
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Await params in Next.js 15
+    const { provider } = await params;
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!getLinkedAccounts(user).some(account => account.provider === provider)) {
+      return NextResponse.json({ error: "Provider is not linked" }, { status: 404 });
+    }
+
+    try {
+      await unlinkProviderAccount(user.id, provider);
+    } catch {
+      return NextResponse.json({ error: AUTH_ERRORS.LAST_SIGN_IN_METHOD }, { status: 409 });
+    }
+
+    await logAccountLinkChange({
+      userId: user.id,
+      action: "unlink",
+      provider,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Provider disconnected" });
+  } catch (error) {
+    console.error("Disconnect provider error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { connectProviderSchema } from "@/lib/api/schemas";
+import { auth } from "@/lib/auth";
+import { createLinkIntent } from "@/lib/auth/account-linking";
+import { ACCOUNT_LINKING } from "@/lib/auth/constants";
+import { getLinkedAccounts, getUserById } from "@/lib/auth/user-service";
+
+/**
+ * GET /api/user/accounts - List the sign-in methods linked to the current user
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      accounts: getLinkedAccounts(user).map(account => ({
+        provider: account.provider,
+        email: account.email,
+        linkedAt: account.linkedAt,
+      })),
+      hasPassword: !!user.passwordHash,
+      providers: ACCOUNT_LINKING.PROVIDERS,
+    });
+  } catch (error) {
+    console.error("Linked accounts error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/accounts - Start connecting another provider.
+ * Sets a short-lived cookie the sign-in callback uses to link the provider
+ * account to the current user; the client then starts the provider sign-in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = connectProviderSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { provider } = validationResult.data;
+    const token = createLinkIntent(session.user.id, provider);
+
+    const response = NextResponse.json({ provider });
+    response.cookies.set(ACCOUNT_LINKING.INTENT_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: ACCOUNT_LINKING.INTENT_TTL,
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Connect provider error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logPrivacyEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { buildPersonalDataExport, toPersonalDataZip } from "@/lib/auth/personal-data";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * GET /api/user/data-export - Download everything held about the current user.
+ * ?format=zip returns a ZIP with one JSON file per kind of data; the default
+ * is a single JSON document.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const format = request.nextUrl.searchParams.get("format") ?? "json";
+    if (format !== "json" && format !== "zip") {
+      return NextResponse.json({ error: "Format must be json or zip" }, { status: 400 });
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const data = await buildPersonalDataExport(user);
+
+    await logPrivacyEvent({
+      userId: user.id,
+      event: "exported",
+      format,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    const fileName = `personal-data-${data.exportedAt.slice(0, 10)}.${format}`;
+    const body = format === "zip" ? toPersonalDataZip(data) : JSON.stringify(data, null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "zip" ? "application/zip" : "application/json",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Data export error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
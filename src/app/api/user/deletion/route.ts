@@ -0,0 +1,121 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { requestDeletionSchema } from "@/lib/api/schemas";
+import { logPrivacyEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import {
+  cancelAccountDeletion,
+  getPendingAccountDeletion,
+  requestAccountDeletion,
+} from "@/lib/auth/account-deletion";
+import { getUserById, normalizeEmail } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * GET /api/user/deletion - The current user's scheduled deletion, if any
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json({ deletion: await getPendingAccountDeletion(session.user.id) });
+  } catch (error) {
+    console.error("Account deletion status error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/deletion - Schedule the current user's account for deletion.
+ * The user confirms by typing their email.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = requestDeletionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (normalizeEmail(validationResult.data.confirmEmail) !== user.email) {
+      return NextResponse.json({ error: "The email does not match your account" }, { status: 400 });
+    }
+
+    let deletion;
+    try {
+      deletion = await requestAccountDeletion(user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to schedule deletion" },
+        { status: 409 }
+      );
+    }
+
+    await logPrivacyEvent({
+      userId: user.id,
+      event: "deletion_requested",
+      scheduledFor: deletion.scheduledFor,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ deletion }, { status: 201 });
+  } catch (error) {
+    console.error("Account deletion request error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/deletion - Cancel the current user's scheduled deletion
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const deletion = await cancelAccountDeletion(session.user.id);
+
+    if (!deletion) {
+      return NextResponse.json({ error: "No deletion is scheduled" }, { status: 404 });
+    }
+
+    await logPrivacyEvent({
+      userId: session.user.id,
+      event: "deletion_cancelled",
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ deletion });
+  } catch (error) {
+    console.error("Account deletion cancel error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
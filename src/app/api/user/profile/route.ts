@@ -1,21 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server";
 
-import { z } from "zod";
-
 import { auth } from "@/lib/auth";
-import { updateUser } from "@/lib/auth/user-service";
-
-// Request validation schema
-const updateProfileSchema = z.object({
-  name: z.string().min(1).max(100),
-  username: z
-    .string()
-    .regex(/^[a-zA-Z0-9_]*$/)
-    .max(50)
-    .nullable()
-    .optional(),
-  image: z.string().url().nullable().optional(),
-});
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { profileUpdateSchema, updateUserProfile } from "@/lib/auth/profile-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -28,7 +16,7 @@ export async function PATCH(request: NextRequest) {
 
     // Step 2: Parse and validate request body
     const body = await request.json();
-    const validationResult = updateProfileSchema.safeParse(body);
+    const validationResult = profileUpdateSchema.safeParse(body);
 
     if (!validationResult.success) {
       return NextResponse.json(
@@ -40,50 +28,22 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const { name, username, image } = validationResult.data;
-
-    // Step 3: Check if username is taken (if username is being updated)
-    if (username) {
-      // In production, check if username exists for other users
-      // For now, we'll allow the update
-    }
-
-    // Step 4: Update user in database
-    const updateData: {
-      name: string;
-      username?: string | null;
-      image?: string | null;
-      updatedAt: Date;
-    } = {
-      name,
-      updatedAt: new Date(),
-    };
-
-    if (username !== undefined) {
-      updateData.username = username ?? null;
-    }
-
-    if (image !== undefined) {
-      updateData.image = image ?? null;
-    }
-
-    const updatedUser = await updateUser(session.user.id, updateData);
+    // Step 3: Update the profile; a changed email gets a verification link
+    const updatedUser = await updateUserProfile(session.user.id, validationResult.data, {
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
 
-    if (!updatedUser) {
+    // Step 4: Return updated user data
+    return NextResponse.json(updatedUser);
+  } catch (error) {
+    if (error instanceof Error && error.message === "User not found") {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
+    if (error instanceof Error && error.message === AUTH_ERRORS.EMAIL_IN_USE) {
+      return NextResponse.json({ error: AUTH_ERRORS.EMAIL_IN_USE }, { status: 409 });
+    }
 
-    // Step 5: Return updated user data
-    return NextResponse.json({
-      id: updatedUser.id,
-      name: updatedUser.name,
-      username: updatedUser.username,
-      email: updatedUser.email,
-      image: updatedUser.image,
-      role: updatedUser.role,
-      updatedAt: updatedUser.updatedAt.toISOString(),
-    });
-  } catch (error) {
     console.error("Profile update error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -0,0 +1,102 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { roleGrantRequestSchema } from "@/lib/api/schemas";
+import { logRoleGrantEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { listRoleGrants, requestRoleGrant } from "@/lib/auth/role-grants";
+import { getRoleLevel, isKnownRole } from "@/lib/auth/role-registry";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * GET /api/user/role-grants - The current user's temporary role requests and
+ * grants, newest first
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    return NextResponse.json({ grants: await listRoleGrants({ userId: session.user.id }) });
+  } catch (error) {
+    console.error("List role grants error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/role-grants - Ask for a higher role for a limited time with
+ * `{ role, duration, justification }`. An admin approves it from the admin
+ * console.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = roleGrantRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { role, duration, justification } = validationResult.data;
+
+    await ensureRolesLoaded();
+    if (!isKnownRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    if (getRoleLevel(role) <= getRoleLevel(user.role)) {
+      return NextResponse.json(
+        { error: "You can only request a role above your own" },
+        { status: 400 }
+      );
+    }
+
+    let grant;
+    try {
+      grant = await requestRoleGrant({ user, role, duration, justification });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to request role" },
+        { status: 409 }
+      );
+    }
+
+    await logRoleGrantEvent({
+      userId: user.id,
+      targetUserId: user.id,
+      event: "requested",
+      grantId: grant.id,
+      role,
+      justification: grant.justification,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ grant }, { status: 201 });
+  } catch (error) {
+    console.error("Request role grant error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logSessionRevocation } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { getSession, revokeSession } from "@/lib/auth/session-store";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * DELETE /api/user/sessions/[id] - Revoke one of the current user's sessions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    // Never reveal whether another user's session id exists
+    const record = await getSession(id);
+    if (!record || record.userId !== session.user.id || !(await revokeSession(id))) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    await logSessionRevocation({
+      userId: session.user.id,
+      targetUserId: session.user.id,
+      sessionId: id,
+      count: 1,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Session revoked" });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logSessionRevocation } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { listUserSessions, revokeUserSessions } from "@/lib/auth/session-store";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * GET /api/user/sessions - List the current user's active sessions
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const sessions = await listUserSessions(session.user.id);
+
+    return NextResponse.json({
+      sessions: sessions.map(record => ({
+        id: record.id,
+        userAgent: record.userAgent,
+        ipAddress: record.ipAddress,
+        createdAt: record.createdAt,
+        lastSeenAt: record.lastSeenAt,
+        expiresAt: record.expiresAt,
+        current: record.id === session.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("List sessions error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/sessions - Sign out every other session of the current user
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const count = await revokeUserSessions(session.user.id, {
+      exceptSessionId: session.sessionId,
+    });
+
+    if (count > 0) {
+      await logSessionRevocation({
+        userId: session.user.id,
+        targetUserId: session.user.id,
+        count,
+        ipAddress: getClientIp(request.headers),
+        userAgent: request.headers.get("user-agent") ?? undefined,
+      });
+    }
+
+    return NextResponse.json({ message: "Other sessions signed out", count });
+  } catch (error) {
+    console.error("Revoke sessions error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { logApiTokenEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { revokeApiToken } from "@/lib/auth/api-tokens";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * DELETE /api/user/tokens/[id] - Revoke one of the current user's tokens
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // Await params in Next.js 15
+    const { id } = await params;
+
+    const revoked = await revokeApiToken(session.user.id, id);
+    if (!revoked) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+
+    await logApiTokenEvent({
+      userId: session.user.id,
+      event: "revoked",
+      tokenId: revoked.id,
+      name: revoked.name,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Token revoked" });
+  } catch (error) {
+    console.error("Revoke API token error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
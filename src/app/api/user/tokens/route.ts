@@ -0,0 +1,84 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { createTokenSchema } from "@/lib/api/schemas";
+import { logApiTokenEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { createApiToken, listUserApiTokens } from "@/lib/auth/api-tokens";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { Permission } from "@/types/auth";
+
+/**
+ * GET /api/user/tokens - List the current user's personal access tokens and
+ * the scopes they can grant.
+ * Token management needs a browser session: a token cannot mint or revoke tokens.
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const permissions = session.user.permissions ?? [];
+
+    return NextResponse.json({
+      tokens: await listUserApiTokens(session.user.id),
+      availableScopes: permissions.includes(Permission.ACCESS_API) ? permissions : [],
+    });
+  } catch (error) {
+    console.error("List API tokens error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/tokens - Mint a token. The raw token is only returned here.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = createTokenSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    let created;
+    try {
+      created = await createApiToken({ userId: session.user.id, ...validationResult.data });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Failed to create token" },
+        { status: 400 }
+      );
+    }
+
+    await logApiTokenEvent({
+      userId: session.user.id,
+      event: "created",
+      tokenId: created.apiToken.id,
+      name: created.apiToken.name,
+      scopes: created.apiToken.scopes,
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Create API token error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import QRCode from "qrcode";
+
+import { disableTwoFactorSchema } from "@/lib/api/schemas";
+import { logTwoFactorEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { roleRequiresTwoFactor } from "@/lib/auth/role-registry";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import {
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  startTwoFactorEnrollment,
+  verifyTwoFactorChallenge,
+} from "@/lib/auth/two-factor";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * GET /api/user/two-factor - Two-factor status for the current user
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await ensureRolesLoaded();
+
+    return NextResponse.json({
+      enabled: isTwoFactorEnabled(user),
+      required: roleRequiresTwoFactor(user.role),
+      recoveryCodesRemaining: user.twoFactor?.recoveryCodeHashes.length ?? 0,
+    });
+  } catch (error) {
+    console.error("Two-factor status error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/two-factor - Start enrollment. Returns the secret and a QR code
+ * for the authenticator app; enrollment completes at /api/user/two-factor/verify.
+ */
+export async function POST() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (isTwoFactorEnabled(user)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 409 }
+      );
+    }
+
+    const { secret, otpauthUri } = await startTwoFactorEnrollment(user);
+
+    return NextResponse.json({
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri),
+    });
+  } catch (error) {
+    console.error("Two-factor enrollment error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/two-factor - Turn off 2FA (requires a current code)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = disableTwoFactorSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await ensureRolesLoaded();
+    if (roleRequiresTwoFactor(user.role)) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for your role" },
+        { status: 409 }
+      );
+    }
+
+    if (!(await verifyTwoFactorChallenge(user, validationResult.data.code))) {
+      return NextResponse.json({ error: "Invalid authentication code" }, { status: 400 });
+    }
+
+    await disableTwoFactor(user.id);
+
+    await logTwoFactorEvent({
+      userId: user.id,
+      event: "disabled",
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    console.error("Disable two-factor error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { verifyEnrollmentSchema } from "@/lib/api/schemas";
+import { logTwoFactorEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { confirmTwoFactorEnrollment } from "@/lib/auth/two-factor";
+import { getUserById } from "@/lib/auth/user-service";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * POST /api/user/two-factor/verify - Confirm enrollment with a code from the
+ * authenticator app. Returns the recovery codes, which are only shown once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validationResult = verifyEnrollmentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(user, validationResult.data.code);
+
+    if (!recoveryCodes) {
+      return NextResponse.json({ error: "Invalid authentication code" }, { status: 400 });
+    }
+
+    await logTwoFactorEvent({
+      userId: user.id,
+      event: "enabled",
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Two-factor verification error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
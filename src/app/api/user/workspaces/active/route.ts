@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { switchWorkspaceSchema } from "@/lib/api/schemas";
+import { logWorkspaceEvent } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { setSessionWorkspace } from "@/lib/auth/session-store";
+import { getUserById } from "@/lib/auth/user-service";
+import { getWorkspaceRole } from "@/lib/auth/workspaces";
+import { getClientIp } from "@/lib/middleware/client-ip";
+
+/**
+ * PUT /api/user/workspaces/active - Switch the current session to another
+ * workspace. The client calls update() afterwards so the session claims (role
+ * and permissions) are reloaded for it.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id || !session.sessionId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = switchWorkspaceSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const user = await getUserById(session.user.id);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Unknown workspaces and ones the user is not a member of look the same
+    const { workspaceId } = validation.data;
+    const role = await getWorkspaceRole(user, workspaceId);
+    if (!role) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    if (!(await setSessionWorkspace(session.sessionId, workspaceId))) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    await logWorkspaceEvent({
+      userId: session.impersonator?.id ?? user.id,
+      workspaceId,
+      event: "switched",
+      ipAddress: getClientIp(request.headers),
+      userAgent: request.headers.get("user-agent") ?? undefined,
+    });
+
+    return NextResponse.json({ workspaceId, role });
+  } catch (error) {
+    console.error("Switch workspace error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
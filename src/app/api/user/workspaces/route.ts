@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { auth } from "@/lib/auth";
+import { getUserById } from "@/lib/auth/user-service";
+import { listUserWorkspaces } from "@/lib/auth/workspaces";
+
+/**
+ * GET /api/user/workspaces - List the workspaces the current user can switch to
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const user = await getUserById(session.user.id);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const workspaces = await listUserWorkspaces(user);
+
+    return NextResponse.json({
+      workspaces: workspaces.map(({ workspace, role }) => ({
+        id: workspace.id,
+        name: workspace.name,
+        slug: workspace.slug,
+        role,
+      })),
+      activeWorkspaceId: session.user.workspaceId ?? null,
+    });
+  } catch (error) {
+    console.error("List workspaces error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
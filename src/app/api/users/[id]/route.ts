@@ -1,12 +1,66 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
-import { getUserById, updateUser, deleteUser, canDeleteUser } from "@/lib/auth/user-service";
-import { withAuth } from "@/lib/middleware/auth";
-import { Permission, UserRole } from "@/types/auth";
+import { userUpdateSchema } from "@/lib/api/schemas";
+import { logWorkspaceEvent } from "@/lib/audit/audit-service";
+import { AUTH_ERRORS, WORKSPACES } from "@/lib/auth/constants";
+import { canManageRole, getEffectiveRole } from "@/lib/auth/permissions";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { isKnownRole } from "@/lib/auth/role-registry";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getUserETag } from "@/lib/auth/user-etag";
+import {
+  getUserById,
+  updateUser,
+  deleteUser,
+  canDeleteUser,
+  sanitizeUser,
+} from "@/lib/auth/user-service";
+import {
+  filterWorkspaceMembers,
+  listUserMemberships,
+  setWorkspaceMember,
+} from "@/lib/auth/workspaces";
+import { withAuth, type PolicyResource } from "@/lib/middleware/auth";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { Permission, UserRole, type User } from "@/types/auth";
 
 /**
- * GET /api/users/[id] - Get user by ID
+ * Get a user of the caller's active workspace, with their role there. Users of
+ * other workspaces are reported as not found.
+ */
+async function getWorkspaceUser(id: string, caller: User): Promise<User | null> {
+  const targetUser = await getUserById(id);
+  if (!targetUser) {
+    return null;
+  }
+
+  const [member] = await filterWorkspaceMembers(
+    [targetUser],
+    caller.workspaceId ?? WORKSPACES.DEFAULT_ID
+  );
+  return member ?? null;
+}
+
+/**
+ * Describe the target user for resource policies (e.g. team membership)
+ */
+async function resolveTargetUser(request: NextRequest, user: User): Promise<PolicyResource | null> {
+  const id = request.nextUrl.pathname.split("/").pop();
+  const targetUser = id ? await getWorkspaceUser(id, user) : null;
+
+  if (!targetUser) {
+    return null;
+  }
+
+  return {
+    resource: `user:${targetUser.id}`,
+    metadata: { teamId: targetUser.metadata?.teamId },
+  };
+}
+
+/**
+ * GET /api/users/[id] - Get user by ID, with an ETag for conditional updates
  * Requires READ_USER permission
  */
 export const GET = withAuth<any>(
@@ -18,13 +72,15 @@ export const GET = withAuth<any>(
     }
 
     try {
-      const targetUser = await getUserById(id);
+      const targetUser = await getWorkspaceUser(id, user);
 
       if (!targetUser) {
         return NextResponse.json({ error: "User not found" }, { status: 404 });
       }
 
-      return NextResponse.json(targetUser);
+      return NextResponse.json(sanitizeUser(targetUser), {
+        headers: { ETag: getUserETag(targetUser) },
+      });
     } catch (error) {
       console.error("Error fetching user:", error);
       return NextResponse.json({ error: "Failed to fetch user" }, { status: 500 });
@@ -36,8 +92,10 @@ export const GET = withAuth<any>(
 );
 
 /**
- * PATCH /api/users/[id] - Update user
- * Requires UPDATE_USER permission
+ * PATCH /api/users/[id] - Update user. `role` sets the user's role in the active
+ * workspace, not their account role. With If-Match, answers 412 and the current
+ * user when it has changed since that ETag.
+ * Requires UPDATE_USER permission (editors in a team are limited to that team)
  */
 export const PATCH = withAuth<any>(
   async (request: NextRequest, { user }) => {
@@ -48,15 +106,36 @@ export const PATCH = withAuth<any>(
     }
 
     try {
-      const updateData = await request.json();
+      const targetUser = await getWorkspaceUser(id, user);
+
+      if (!targetUser) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+
+      const validation = userUpdateSchema.safeParse(await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: "Validation failed", details: validation.error.errors },
+          { status: 400 }
+        );
+      }
+
+      // Fields outside the schema (id, passwordHash, email, isActive, ...) are
+      // stripped: email changes go through the profile flow and activation
+      // through /api/admin/users/[id]/status
+      const { role: newRole, ...updateData } = validation.data;
+      const currentRole = getEffectiveRole(user);
 
-      // Remove sensitive fields that shouldn't be updated via this endpoint
-      delete updateData.id;
-      delete updateData.providerId;
-      delete updateData.createdAt;
+      const targetRole = targetUser.workspaceRole ?? targetUser.role;
+      if (!canManageRole(currentRole, targetRole)) {
+        return NextResponse.json(
+          { error: `${currentRole} role cannot manage ${targetRole} users` },
+          { status: 403 }
+        );
+      }
 
       // Role changes require additional permission
-      if (updateData.role && updateData.role !== user.role) {
+      if (newRole && newRole !== targetUser.workspaceRole) {
         const hasRolePermission = user.permissions?.includes(Permission.MANAGE_USER_ROLES);
         if (!hasRolePermission) {
           return NextResponse.json(
@@ -66,25 +145,78 @@ export const PATCH = withAuth<any>(
         }
 
         // Prevent non-admin from setting admin role
-        if (updateData.role === UserRole.ADMIN && user.role !== UserRole.ADMIN) {
+        if (newRole === UserRole.ADMIN && currentRole !== UserRole.ADMIN) {
           return NextResponse.json({ error: "Only admins can assign admin role" }, { status: 403 });
         }
       }
 
       // Prevent users from updating their own role unless they are admin
-      if (id === user.id && updateData.role && user.role !== UserRole.ADMIN) {
+      if (id === user.id && newRole && currentRole !== UserRole.ADMIN) {
         return NextResponse.json({ error: "Cannot change your own role" }, { status: 403 });
       }
 
-      updateData.updatedAt = new Date();
+      // The role is the one in the active workspace; other workspaces keep theirs
+      let workspaceRole = targetUser.workspaceRole;
+      const roleChange = newRole !== workspaceRole ? newRole : undefined;
+      if (roleChange) {
+        await ensureRolesLoaded();
+        if (!isKnownRole(roleChange)) {
+          return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+        }
 
-      const updatedUser = await updateUser(id, updateData);
+        const assignmentError = await getRoleAssignmentError(roleChange);
+        if (assignmentError) {
+          return NextResponse.json(
+            { error: assignmentError.message },
+            { status: assignmentError.status }
+          );
+        }
+      }
+
+      let updatedUser;
+      try {
+        // If-Match is checked as part of the write, so concurrent changes cannot
+        // both pass. The write also versions the workspace role change below.
+        updatedUser = await updateUser(
+          id,
+          { ...updateData, updatedAt: new Date() },
+          { ifMatch: request.headers.get("if-match") }
+        );
+      } catch (error) {
+        const current = await getWorkspaceUser(id, user);
+        if (!(error instanceof Error && error.message === AUTH_ERRORS.USER_CHANGED) || !current) {
+          throw error;
+        }
+        return NextResponse.json(
+          { error: AUTH_ERRORS.USER_CHANGED, user: sanitizeUser(current) },
+          { status: 412, headers: { ETag: getUserETag(current) } }
+        );
+      }
 
       if (!updatedUser) {
         return NextResponse.json({ error: "User not found" }, { status: 404 });
       }
 
-      return NextResponse.json(updatedUser);
+      if (roleChange) {
+        const workspaceId = user.workspaceId ?? WORKSPACES.DEFAULT_ID;
+        await setWorkspaceMember(workspaceId, id, roleChange);
+        await logWorkspaceEvent({
+          userId: user.id,
+          workspaceId,
+          event: "member_role_changed",
+          targetUserId: id,
+          oldRole: workspaceRole,
+          newRole: roleChange,
+          ipAddress: getClientIp(request.headers),
+          userAgent: request.headers.get("user-agent") ?? undefined,
+        });
+        workspaceRole = roleChange;
+      }
+
+      const result = { ...updatedUser, workspaceRole };
+      return NextResponse.json(sanitizeUser(result), {
+        headers: { ETag: getUserETag(result) },
+      });
     } catch (error) {
       console.error("Error updating user:", error);
       return NextResponse.json({ error: "Failed to update user" }, { status: 500 });
@@ -92,12 +224,13 @@ export const PATCH = withAuth<any>(
   },
   {
     requiredPermissions: [Permission.UPDATE_USER],
+    policy: { action: Permission.UPDATE_USER, resource: resolveTargetUser },
   }
 );
 
 /**
  * DELETE /api/users/[id] - Delete user
- * Requires DELETE_USER permission
+ * Requires DELETE_USER permission (editors in a team are limited to that team)
  */
 export const DELETE = withAuth<any>(
   async (request: NextRequest, { user }) => {
@@ -108,6 +241,12 @@ export const DELETE = withAuth<any>(
     }
 
     try {
+      const targetUser = await getWorkspaceUser(id, user);
+
+      if (!targetUser) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+
       // Check if user can be deleted
       const { canDelete, reason } = await canDeleteUser(id, user.id);
 
@@ -115,6 +254,15 @@ export const DELETE = withAuth<any>(
         return NextResponse.json({ error: reason || "Cannot delete user" }, { status: 403 });
       }
 
+      // Accounts shared with other workspaces are only deleted by account admins
+      const memberships = await listUserMemberships(targetUser);
+      if (memberships.length > 1 && user.role !== UserRole.ADMIN) {
+        return NextResponse.json(
+          { error: "User belongs to other workspaces as well" },
+          { status: 403 }
+        );
+      }
+
       const deleted = await deleteUser(id);
 
       if (!deleted) {
@@ -129,5 +277,6 @@ export const DELETE = withAuth<any>(
   },
   {
     requiredPermissions: [Permission.DELETE_USER],
+    policy: { action: Permission.DELETE_USER, resource: resolveTargetUser },
   }
 );
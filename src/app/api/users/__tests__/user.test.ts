@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { PATCH } from "../[id]/route";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { getUserById } from "@/lib/auth/user-service";
+import { UserRole } from "@/types/auth";
+import { signInAs } from "@/test/utils/route-auth";
+
+// Mock dependencies
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+function update(id: string, body: unknown) {
+  return PATCH(
+    new NextRequest(`http://localhost/api/users/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe("PATCH /api/users/[id]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("refuses to update users the caller cannot manage", async () => {
+    signInAs(UserRole.EDITOR);
+
+    const response = await update("1", { name: "Renamed" });
+
+    expect(response.status).toBe(403);
+    expect((await getUserById("1"))?.name).not.toBe("Renamed");
+  });
+
+  it("leaves email and activation to their own routes", async () => {
+    signInAs(UserRole.EDITOR);
+
+    const response = await update("3", {
+      name: "Renamed",
+      email: "attacker@example.com",
+      isActive: false,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await getUserById("3")).toMatchObject({
+      name: "Renamed",
+      email: "test@example.com",
+      isActive: true,
+    });
+  });
+});
@@ -1,37 +1,49 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
-import { getUsers } from "@/lib/auth/user-service";
+import { userQuerySchema } from "@/lib/api/schemas";
+import { WORKSPACES } from "@/lib/auth/constants";
+import { queryUsers, sanitizeUser } from "@/lib/auth/user-service";
 import { withAuth } from "@/lib/middleware/auth";
 import { Permission } from "@/types/auth";
 
 /**
- * GET /api/users - Get all users (with pagination and filtering)
- * Requires READ_USER permission
+ * GET /api/users - Search the active workspace's users, one page at a time
+ * Query: search, role, provider, emailVerified, isActive, sortBy
+ * (name|email|createdAt|lastLoginAt), sortOrder, limit and the previous
+ * page's nextCursor.
+ * Requires READ_USER permission; 120 requests a minute per caller
  */
 export const GET = withAuth<any>(
   async (request: NextRequest, { user }) => {
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
-    const role = searchParams.get("role") as any;
-    const isActive = searchParams.get("isActive");
+    const validation = userQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
 
     try {
-      const result = await getUsers({
-        page,
-        limit,
-        role,
-        ...(isActive !== null && { isActive: isActive === "true" }),
+      const page = await queryUsers({
+        ...validation.data,
+        workspaceId: user.workspaceId ?? WORKSPACES.DEFAULT_ID,
       });
 
-      return NextResponse.json(result);
+      return NextResponse.json({ ...page, users: page.users.map(sanitizeUser) });
     } catch (error) {
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+      }
+
       console.error("Error fetching users:", error);
       return NextResponse.json({ error: "Failed to fetch users" }, { status: 500 });
     }
   },
   {
     requiredPermissions: [Permission.READ_USER],
+    // Scripts paging through the whole directory
+    rateLimit: { name: "users-list", limit: 120, window: 60 },
   }
 );
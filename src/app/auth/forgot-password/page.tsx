@@ -0,0 +1,27 @@
+import { ForgotPasswordForm } from "@/components/auth/forgot-password-form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Forgot Password | FE-Engine Prime",
+  description: "Reset your FE-Engine Prime password",
+};
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-center text-2xl font-bold">Forgot your password?</CardTitle>
+          <CardDescription className="text-center">
+            Enter your email and we&apos;ll send you a link to reset it
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ForgotPasswordForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import Link from "next/link";
+
+import {
+  InactiveSignOutButton,
+  ReactivatedContinue,
+  ReactivationRequestForm,
+} from "@/components/auth/reactivation-request";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { getLatestReactivationRequest } from "@/lib/auth/reactivation-requests";
+import { getUserById } from "@/lib/auth/user-service";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Account Deactivated | FE-Engine Prime",
+  description: "Your account has been deactivated",
+};
+
+async function InactiveContent() {
+  const session = await auth();
+  const user = session?.user?.id ? await getUserById(session.user.id) : null;
+
+  if (!user) {
+    return (
+      <Button asChild className="w-full">
+        <Link href="/login">Go to sign in</Link>
+      </Button>
+    );
+  }
+
+  // An admin reactivated the account since the session claims were loaded
+  if (user.isActive) {
+    return <ReactivatedContinue />;
+  }
+
+  const latest = await getLatestReactivationRequest(user.id);
+
+  return (
+    <div className="space-y-4">
+      {latest?.status === "pending" && (
+        <Alert>
+          <AlertDescription>
+            Your request from {latest.createdAt.toLocaleDateString()} is waiting for an
+            administrator. You will get an email at {latest.email} once it has been reviewed.
+          </AlertDescription>
+        </Alert>
+      )}
+      {latest?.status === "denied" && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Your last request was declined.
+            {latest.decisionNote && ` Note from the administrator: ${latest.decisionNote}`}
+          </AlertDescription>
+        </Alert>
+      )}
+      {latest?.status !== "pending" && <ReactivationRequestForm />}
+      <InactiveSignOutButton />
+    </div>
+  );
+}
+
+export default function InactiveAccountPage() {
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-center text-2xl font-bold">Account deactivated</CardTitle>
+          <CardDescription className="text-center">
+            An administrator has deactivated your account, so you cannot use FE-Engine Prime right
+            now. You can ask for it to be reactivated.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <InactiveContent />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import Link from "next/link";
+
+import { AcceptInvitation } from "@/components/auth/accept-invitation";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { getInvitationByToken } from "@/lib/auth/invitations";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Accept Invitation | FE-Engine Prime",
+  description: "Join FE-Engine Prime",
+};
+
+export default async function AcceptInvitationPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  // Await searchParams in Next.js 15
+  const { token } = await searchParams;
+  const invitation = token ? await getInvitationByToken(token) : null;
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-center text-2xl font-bold">You&apos;re invited</CardTitle>
+          <CardDescription className="text-center">
+            {invitation
+              ? `Join FE-Engine Prime as ${invitation.role} with ${invitation.email}`
+              : "Join FE-Engine Prime"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invitation && token ? (
+            <AcceptInvitation token={token} email={invitation.email} />
+          ) : (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertDescription>{AUTH_ERRORS.INVALID_INVITATION}</AlertDescription>
+              </Alert>
+              <Button asChild className="w-full">
+                <Link href="/login">Go to sign in</Link>
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
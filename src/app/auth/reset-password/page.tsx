@@ -0,0 +1,50 @@
+import Link from "next/link";
+
+import { ResetPasswordForm } from "@/components/auth/reset-password-form";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { isPasswordResetTokenValid } from "@/lib/auth/password-reset";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Reset Password | FE-Engine Prime",
+  description: "Choose a new password for your FE-Engine Prime account",
+};
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  // Await searchParams in Next.js 15
+  const { token } = await searchParams;
+  const isValid = !!token && (await isPasswordResetTokenValid(token));
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-center text-2xl font-bold">Reset your password</CardTitle>
+          <CardDescription className="text-center">Choose a new password</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isValid ? (
+            <ResetPasswordForm token={token} />
+          ) : (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertDescription>{AUTH_ERRORS.INVALID_RESET_TOKEN}</AlertDescription>
+              </Alert>
+              <Button asChild className="w-full">
+                <Link href="/auth/forgot-password">Request a new link</Link>
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
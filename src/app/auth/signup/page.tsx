@@ -0,0 +1,40 @@
+import { SignupForm } from "@/components/auth/signup-form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getInvitationByToken } from "@/lib/auth/invitations";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Sign Up | FE-Engine Prime",
+  description: "Create your FE-Engine Prime account",
+};
+
+export default async function SignupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ invite?: string }>;
+}) {
+  // Await searchParams in Next.js 15
+  const { invite } = await searchParams;
+  const invitation = invite ? await getInvitationByToken(invite) : null;
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-center text-2xl font-bold">Create an account</CardTitle>
+          <CardDescription className="text-center">
+            Sign up with your email address to get started
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SignupForm
+            invitation={
+              invitation && invite ? { token: invite, email: invitation.email } : undefined
+            }
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
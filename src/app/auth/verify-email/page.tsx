@@ -0,0 +1,69 @@
+import Link from "next/link";
+
+import { VerifyEmailConfirm, VerifyEmailPending } from "@/components/auth/verify-email";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { auth } from "@/lib/auth";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { isEmailVerificationTokenValid } from "@/lib/auth/email-verification";
+
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Verify Email | FE-Engine Prime",
+  description: "Verify your email address",
+};
+
+async function VerifyEmailContent({ token }: { token?: string }) {
+  if (token) {
+    return (await isEmailVerificationTokenValid(token)) ? (
+      <VerifyEmailConfirm token={token} />
+    ) : (
+      <div className="space-y-4">
+        <Alert variant="destructive">
+          <AlertDescription>{AUTH_ERRORS.INVALID_VERIFICATION_TOKEN}</AlertDescription>
+        </Alert>
+        <Button asChild className="w-full">
+          <Link href="/dashboard">Continue</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const session = await auth();
+  if (session?.user?.emailVerificationRequired && session.user.email) {
+    return <VerifyEmailPending email={session.user.email} />;
+  }
+
+  return (
+    <Button asChild className="w-full">
+      <Link href={session ? "/dashboard" : "/login"}>Continue</Link>
+    </Button>
+  );
+}
+
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  // Await searchParams in Next.js 15
+  const { token } = await searchParams;
+
+  return (
+    <div className="bg-background flex min-h-screen items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-center text-2xl font-bold">Verify your email</CardTitle>
+          <CardDescription className="text-center">
+            Confirm your email address to use FE-Engine Prime
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <VerifyEmailContent token={token} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
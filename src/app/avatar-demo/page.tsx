@@ -221,7 +221,6 @@ export default function AvatarDemoPage() {
 
         {/* Main Avatar Component */}
         <ConversationalAvatar
-          userId="demo-user-123"
           avatarStyle="simple"
           autoStart={false}
           showChatHistory={true}
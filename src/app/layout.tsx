@@ -1,5 +1,6 @@
 import { Geist, Geist_Mono } from "next/font/google";
 
+import { ImpersonationBanner } from "@/components/auth/impersonation-banner";
 import { ThemeProvider } from "@/components/theme-provider";
 import AuthProvider from "@/lib/auth/session-provider";
 
@@ -36,6 +37,7 @@ export default function RootLayout({
             enableSystem
             disableTransitionOnChange
           >
+            <ImpersonationBanner />
             {children}
           </ThemeProvider>
         </AuthProvider>
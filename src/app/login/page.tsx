@@ -1,5 +1,14 @@
+import Link from "next/link";
+
 import { LoginForm } from "@/components/auth/login-form";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
 
 import type { Metadata } from "next";
 
@@ -21,6 +30,20 @@ export default function LoginPage() {
         <CardContent>
           <LoginForm />
         </CardContent>
+        <CardFooter className="text-muted-foreground flex-col gap-2 text-sm">
+          <Link
+            href="/auth/forgot-password"
+            className="text-primary underline-offset-4 hover:underline"
+          >
+            Forgot your password?
+          </Link>
+          <p>
+            Don&apos;t have an account?{" "}
+            <Link href="/auth/signup" className="text-primary underline-offset-4 hover:underline">
+              Sign up
+            </Link>
+          </p>
+        </CardFooter>
       </Card>
     </div>
   );
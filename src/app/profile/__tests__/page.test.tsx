@@ -7,6 +7,7 @@ const mockPush = vi.fn();
 const mockUseSession = vi.fn();
 const mockUpdate = vi.fn();
 const mockToast = vi.fn();
+const mockUpdateProfile = vi.fn();
 
 // Mock next-auth/react
 vi.mock("next-auth/react", () => ({
@@ -27,6 +28,11 @@ vi.mock("@/hooks/use-toast", () => ({
   }),
 }));
 
+// Mock the server action
+vi.mock("../actions", () => ({
+  updateProfile: (...args: unknown[]) => mockUpdateProfile(...args),
+}));
+
 describe("Profile Page", () => {
   const mockSession = {
     user: {
@@ -137,11 +143,11 @@ describe("Profile Page", () => {
       expect(usernameInput).toBeInTheDocument();
     });
 
-    it("should disable email field (read-only)", () => {
+    it("should allow the email to be edited", () => {
       render(<ProfilePage />);
 
       const emailInput = screen.getByDisplayValue("test@example.com");
-      expect(emailInput).toBeDisabled();
+      expect(emailInput).toBeEnabled();
     });
 
     it("should disable submit button when form is pristine", () => {
@@ -206,9 +212,9 @@ describe("Profile Page", () => {
     });
 
     it("should successfully update profile", async () => {
-      vi.mocked(global.fetch).mockResolvedValue({
+      mockUpdateProfile.mockResolvedValue({
         ok: true,
-        json: async () => ({
+        data: {
           id: "1",
           name: "Updated Name",
           username: "testuser",
@@ -216,8 +222,8 @@ describe("Profile Page", () => {
           image: null,
           role: "USER",
           updatedAt: new Date().toISOString(),
-        }),
-      } as Response);
+        },
+      });
 
       render(<ProfilePage />);
       const user = userEvent.setup();
@@ -230,20 +236,70 @@ describe("Profile Page", () => {
       await user.click(submitButton);
 
       await waitFor(() => {
-        expect(global.fetch).toHaveBeenCalledWith(
-          "/api/user/profile",
-          expect.objectContaining({
-            method: "PATCH",
-            headers: { "Content-Type": "application/json" },
-          })
+        expect(mockUpdateProfile).toHaveBeenCalledWith(
+          expect.objectContaining({ name: "Updated Name", email: "test@example.com" })
         );
       });
+      expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ title: "Profile updated" }));
     });
 
-    it("should disable form during submission", async () => {
-      vi.mocked(global.fetch).mockImplementation(
-        () => new Promise(resolve => setTimeout(resolve, 100))
+    it("should send the user to verify a changed email", async () => {
+      mockUpdateProfile.mockResolvedValue({
+        ok: true,
+        data: {
+          id: "1",
+          name: "Test User",
+          username: "testuser",
+          email: "new@example.com",
+          emailVerified: false,
+          image: null,
+          role: "USER",
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
+      render(<ProfilePage />);
+      const user = userEvent.setup();
+
+      const emailInput = screen.getByDisplayValue("test@example.com");
+      await user.clear(emailInput);
+      await user.type(emailInput, "new@example.com");
+      await user.click(screen.getByRole("button", { name: /save changes/i }));
+
+      await waitFor(() => {
+        expect(mockPush).toHaveBeenCalledWith("/auth/verify-email");
+      });
+      expect(mockUpdateProfile).toHaveBeenCalledWith(
+        expect.objectContaining({ email: "new@example.com" })
       );
+    });
+
+    it("should show field errors returned by the action", async () => {
+      mockUpdateProfile.mockResolvedValue({
+        ok: false,
+        error: {
+          code: "VALIDATION",
+          message: "Validation failed",
+          fieldErrors: { username: ["Username is not allowed"] },
+        },
+      });
+
+      render(<ProfilePage />);
+      const user = userEvent.setup();
+
+      const nameInput = screen.getByDisplayValue("Test User");
+      await user.clear(nameInput);
+      await user.type(nameInput, "Updated Name");
+      await user.click(screen.getByRole("button", { name: /save changes/i }));
+
+      expect(await screen.findByText("Username is not allowed")).toBeInTheDocument();
+      expect(mockToast).toHaveBeenCalledWith(
+        expect.objectContaining({ description: "Validation failed", variant: "destructive" })
+      );
+    });
+
+    it("should disable form during submission", async () => {
+      mockUpdateProfile.mockImplementation(() => new Promise(resolve => setTimeout(resolve, 100)));
 
       render(<ProfilePage />);
       const user = userEvent.setup();
@@ -0,0 +1,35 @@
+"use server";
+
+import {
+  actionFailure,
+  actionSuccess,
+  authorizedAction,
+  type ActionResult,
+} from "@/lib/auth/authorized-action";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import {
+  profileUpdateSchema,
+  updateUserProfile,
+  type UpdatedProfile,
+} from "@/lib/auth/profile-service";
+
+/**
+ * Update the signed-in user's profile
+ */
+export const updateProfile = authorizedAction(
+  profileUpdateSchema,
+  { name: "updateProfile" },
+  async (update, { user, ipAddress, userAgent }): Promise<ActionResult<UpdatedProfile>> => {
+    try {
+      return actionSuccess(await updateUserProfile(user.id, update, { ipAddress, userAgent }));
+    } catch (error) {
+      if (error instanceof Error && error.message === "User not found") {
+        return actionFailure("NOT_FOUND", error.message);
+      }
+      if (error instanceof Error && error.message === AUTH_ERRORS.EMAIL_IN_USE) {
+        return actionFailure("CONFLICT", error.message);
+      }
+      throw error;
+    }
+  }
+);
@@ -10,6 +10,12 @@ import { useSession } from "next-auth/react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
+import { ActiveSessionsCard } from "@/components/auth/active-sessions-card";
+import { ApiTokensCard } from "@/components/auth/api-tokens-card";
+import { LinkedAccountsCard } from "@/components/auth/linked-accounts-card";
+import { PrivacyCard } from "@/components/auth/privacy-card";
+import { RoleElevationCard } from "@/components/auth/role-elevation-card";
+import { TwoFactorCard } from "@/components/auth/two-factor-card";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -26,6 +32,8 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { UserRole } from "@/types/auth";
 
+import { updateProfile } from "./actions";
+
 // Phase 2: Form Schema & Validation (Step 5)
 const profileSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be less than 100 characters"),
@@ -36,6 +44,7 @@ const profileSchema = z.object({
     .optional()
     .or(z.literal("")),
   image: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  email: z.string().email("Must be a valid email address"),
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
@@ -148,6 +157,7 @@ export default function ProfilePage() {
       name: user?.name ?? "",
       username: user?.username ?? "",
       image: user?.image ?? "",
+      email: user?.email ?? "",
     },
   });
 
@@ -172,27 +182,27 @@ export default function ProfilePage() {
       // Step 8: Set loading state
       setIsSubmitting(true);
 
-      // Step 9: Send PATCH request to API
-      const response = await fetch("/api/user/profile", {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          name: values.name,
-          username: values.username ?? null,
-          image: values.image ?? null,
-        }),
+      // Step 9: Call the update action
+      const result = await updateProfile({
+        name: values.name,
+        username: values.username ?? null,
+        image: values.image ?? null,
+        email: values.email,
       });
 
-      // Step 10: Check response
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message ?? "Failed to update profile");
+      // Step 10: Check the result; validation errors go on their fields
+      if (!result.ok) {
+        const { error } = result;
+        Object.entries(error.fieldErrors ?? {}).forEach(([field, messages]) => {
+          if (field in values && messages?.[0]) {
+            form.setError(field as keyof ProfileFormData, { message: messages[0] });
+          }
+        });
+        throw new Error(error.message);
       }
 
-      // Step 11: Parse updated user data
-      const updatedUser = await response.json();
+      // Step 11: Updated user data
+      const updatedUser = result.data;
 
       // Step 12: Update session with new data
       if (session) {
@@ -205,6 +215,12 @@ export default function ProfilePage() {
         });
       }
 
+      // A changed email must be verified before the app can be used again
+      if (!updatedUser.emailVerified && updatedUser.email !== user?.email) {
+        router.push("/auth/verify-email");
+        return;
+      }
+
       // Step 13: Show success toast
       toast({
         title: "Profile updated",
@@ -352,16 +368,25 @@ export default function ProfilePage() {
                 )}
               />
 
-              {/* Step 25: Email field (read-only) */}
-              <FormItem>
-                <FormLabel>Email</FormLabel>
-                <FormControl>
-                  <Input value={user.email ?? ""} disabled readOnly />
-                </FormControl>
-                <p className="text-muted-foreground text-xs">
-                  Email is managed by your authentication provider
-                </p>
-              </FormItem>
+              {/* Step 25: Email field */}
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" disabled={isSubmitting} {...field} />
+                    </FormControl>
+                    <p className="text-muted-foreground text-xs">
+                      {session.user?.emailVerificationRequired
+                        ? "Not verified yet. Check your inbox for the verification link."
+                        : "Changing your email sends a verification link to the new address"}
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Step 26: Profile Image URL field */}
               <FormField
@@ -402,6 +427,18 @@ export default function ProfilePage() {
           </Form>
         </CardContent>
       </Card>
+
+      <LinkedAccountsCard />
+
+      <TwoFactorCard />
+
+      <RoleElevationCard />
+
+      <ActiveSessionsCard />
+
+      <ApiTokensCard />
+
+      <PrivacyCard />
     </div>
   );
 }
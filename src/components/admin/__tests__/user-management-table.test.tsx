@@ -16,6 +16,15 @@ vi.mock("../user-status-dialog", () => ({
     open ? <div data-testid="status-dialog">Change status for {user.email}</div> : null,
 }));
 
+vi.mock("../user-import-dialog", () => ({
+  UserImportDialog: ({ open }: any) => (open ? <div data-testid="import-dialog" /> : null),
+}));
+
+vi.mock("../revoke-sessions-dialog", () => ({
+  RevokeSessionsDialog: ({ user, open }: any) =>
+    open ? <div data-testid="sessions-dialog">Revoke sessions for {user.email}</div> : null,
+}));
+
 const mockUsers: User[] = [
   {
     id: "1",
@@ -153,6 +162,71 @@ describe("UserManagementTable", () => {
     expect(activateButton).toBeInTheDocument();
   });
 
+  it("opens revoke sessions dialog from the actions menu", async () => {
+    const user = userEvent.setup();
+    render(<UserManagementTable users={mockUsers} total={3} />);
+
+    const actionButtons = screen.getAllByRole("button", { name: /open menu/i });
+    await user.click(actionButtons[1]);
+
+    const revokeButton = await screen.findByRole("menuitem", { name: /revoke sessions/i });
+    await user.click(revokeButton);
+
+    expect(screen.getByTestId("sessions-dialog")).toBeInTheDocument();
+    expect(screen.getByText("Revoke sessions for editor@example.com")).toBeInTheDocument();
+  });
+
+  it("opens the import dialog and offers CSV and JSON exports", async () => {
+    const user = userEvent.setup();
+    render(<UserManagementTable users={mockUsers} total={3} />);
+
+    await user.click(screen.getByRole("button", { name: /import/i }));
+    expect(screen.getByTestId("import-dialog")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /export/i }));
+    expect(await screen.findByRole("menuitem", { name: /export as csv/i })).toHaveAttribute(
+      "href",
+      "/api/admin/users/export?sortBy=createdAt&sortOrder=desc&format=csv"
+    );
+    expect(screen.getByRole("menuitem", { name: /export as json/i })).toHaveAttribute(
+      "href",
+      "/api/admin/users/export?sortBy=createdAt&sortOrder=desc&format=json"
+    );
+  });
+
+  it("searches on the server once typing pauses", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ users: [mockUsers[1]], total: 1, nextCursor: null, lockouts: {} }),
+    } as Response);
+    const user = userEvent.setup();
+    render(<UserManagementTable users={mockUsers} total={3} />);
+
+    await user.type(screen.getByRole("textbox", { name: /search users/i }), "edit");
+
+    expect(await screen.findByText("Showing 1 of 1 users")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining("search=edit"));
+    expect(screen.queryByText("Admin User")).not.toBeInTheDocument();
+  });
+
+  it("loads the next page with the cursor", async () => {
+    const nextUser: User = { ...mockUsers[0], id: "4", name: "Fourth User" };
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ users: [nextUser], total: 4, nextCursor: null, lockouts: {} }),
+    } as Response);
+    const user = userEvent.setup();
+    render(<UserManagementTable users={mockUsers} total={4} nextCursor="cursor-1" />);
+
+    await user.click(screen.getByRole("button", { name: /load more/i }));
+
+    expect(await screen.findByText("Fourth User")).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenCalledWith(expect.stringContaining("cursor=cursor-1"));
+    expect(screen.getByText("Showing 4 of 4 users")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /load more/i })).not.toBeInTheDocument();
+  });
+
   it("displays all table headers correctly", () => {
     render(<UserManagementTable users={mockUsers} total={3} />);
 
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { UserStatusDialog } from "../user-status-dialog";
+import { getUserETag } from "@/lib/auth/user-etag";
+import { UserRole } from "@/types/auth";
+import type { User } from "@/types/auth";
+
+const openedUser: User = {
+  id: "3",
+  email: "user@example.com",
+  name: "Regular User",
+  image: null,
+  username: "user",
+  role: UserRole.USER,
+  provider: "credentials",
+  providerId: "3",
+  isActive: true,
+  emailVerified: true,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+};
+
+function respond(status: number, body: unknown) {
+  return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+describe("UserStatusDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("sends the ETag of the user it opened with", async () => {
+    global.fetch = vi.fn().mockResolvedValue(respond(200, { user: openedUser }));
+    const user = userEvent.setup();
+    render(<UserStatusDialog user={openedUser} open onClose={vi.fn()} />);
+
+    await user.click(screen.getByRole("button", { name: "Deactivate" }));
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      "/api/admin/users/3/status",
+      expect.objectContaining({
+        headers: expect.objectContaining({ "If-Match": getUserETag(openedUser) }),
+      })
+    );
+  });
+
+  it("shows the latest user on a conflict and retries with its ETag", async () => {
+    const latest = { ...openedUser, role: UserRole.EDITOR, updatedAt: new Date("2024-02-01") };
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(respond(412, { message: "User has changed", user: latest }))
+      .mockResolvedValueOnce(respond(200, { user: { ...latest, isActive: false } }));
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+    render(<UserStatusDialog user={openedUser} open onClose={onClose} />);
+
+    await user.click(screen.getByRole("button", { name: "Deactivate" }));
+
+    expect(await screen.findByText("This user changed since you opened it")).toBeInTheDocument();
+    expect(screen.getByText("Role: EDITOR")).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Deactivate" }));
+
+    expect(vi.mocked(global.fetch).mock.calls[1]?.[1]?.headers).toMatchObject({
+      "If-Match": getUserETag(latest),
+    });
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("only offers to close when someone already made the change", async () => {
+    const latest = { ...openedUser, isActive: false, updatedAt: new Date("2024-02-01") };
+    global.fetch = vi.fn().mockResolvedValue(respond(412, { user: latest }));
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+    render(<UserStatusDialog user={openedUser} open onClose={onClose} />);
+
+    await user.click(screen.getByRole("button", { name: "Deactivate" }));
+    expect(await screen.findByText("They are already inactive.")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Done" }));
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+
+import { Check, Loader2, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Permission, type PermissionExplanation, type RoleName, type User } from "@/types/auth";
+import type { RouteAccessDecision } from "@/types/navigation";
+
+interface AccessExplainPanelProps {
+  users: Array<Pick<User, "id" | "email">>;
+}
+
+interface AccessExplanation {
+  user: Pick<User, "id" | "email" | "role" | "isActive"> & {
+    workspaceId?: string;
+    workspaceRole?: RoleName;
+  };
+  decision?: RouteAccessDecision;
+  permission?: PermissionExplanation;
+}
+
+const CHECK_LABELS: Record<RouteAccessDecision["checks"][number]["name"], string> = {
+  authentication: "Signed in",
+  active: "Account active",
+  emailVerification: "Email verification",
+  twoFactorSetup: "Two-factor setup",
+  role: "Role",
+  permissions: "Permissions",
+};
+
+function CheckIcon({ passed }: { passed: boolean }) {
+  return passed ? (
+    <Check className="h-4 w-4 shrink-0 text-green-600" />
+  ) : (
+    <X className="text-destructive h-4 w-4 shrink-0" />
+  );
+}
+
+function RouteDecision({ decision }: { decision: RouteAccessDecision }) {
+  return (
+    <div className="space-y-3">
+      <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Matched pattern</dt>
+        <dd className="font-mono">{decision.matchedPattern ?? "none (signed-in default)"}</dd>
+        <dt className="text-muted-foreground">Access level</dt>
+        <dd>{decision.access}</dd>
+        <dt className="text-muted-foreground">Required permissions</dt>
+        <dd>{decision.requiredPermissions.join(", ") || "none"}</dd>
+      </dl>
+
+      {decision.access === "public" ? (
+        <p className="text-muted-foreground text-sm">Public route: no checks run.</p>
+      ) : (
+        <ol className="space-y-1 text-sm">
+          {decision.checks.map(check => (
+            <li key={check.name} className="flex items-start gap-2">
+              <CheckIcon passed={check.passed} />
+              <span>
+                <span className="font-medium">{CHECK_LABELS[check.name]}:</span> {check.detail}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {decision.denial && (
+        <p className="text-sm">
+          API requests get {decision.denial.status} &ldquo;{decision.denial.error}&rdquo;; pages
+          redirect to <span className="font-mono">{decision.denial.redirectTo}</span>.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function PermissionDecision({
+  explanation,
+  isActive,
+}: {
+  explanation: PermissionExplanation;
+  isActive: boolean;
+}) {
+  if (!isActive) {
+    return <p className="text-sm">The account is deactivated, so it holds no permissions.</p>;
+  }
+
+  let source = explanation.fromRole
+    ? `Granted by the ${explanation.effectiveRole} role`
+    : `Not part of the ${explanation.effectiveRole} role`;
+  if (explanation.override === "granted") {
+    source += "; granted to this user directly";
+  } else if (explanation.override === "revoked") {
+    source += "; revoked from this user directly";
+  }
+
+  return <p className="text-sm">{source}.</p>;
+}
+
+/**
+ * Show why a user can or cannot open a path or hold a permission, using the
+ * same decision the middleware makes
+ */
+export function AccessExplainPanel({ users }: AccessExplainPanelProps) {
+  const [userId, setUserId] = useState("");
+  const [mode, setMode] = useState<"path" | "permission">("path");
+  const [path, setPath] = useState("/admin");
+  const [permission, setPermission] = useState<string>(Permission.MANAGE_USER_ROLES);
+  const [result, setResult] = useState<AccessExplanation | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const { toast } = useToast();
+
+  const handleExplain = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsPending(true);
+
+    try {
+      const query = new URLSearchParams(mode === "path" ? { path } : { permission });
+      const response = await fetch(`/api/admin/users/${userId}/access?${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? "Failed to explain access");
+      }
+
+      setResult(data);
+    } catch (error) {
+      setResult(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to explain access",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const granted = result?.decision?.allowed ?? result?.permission?.granted;
+
+  return (
+    <div className="space-y-6 rounded-md border p-4">
+      <form onSubmit={handleExplain} className="grid gap-4 md:grid-cols-[1fr_auto_1fr_auto]">
+        <div className="grid gap-2">
+          <Label htmlFor="explain-user">User</Label>
+          <Select value={userId} onValueChange={setUserId} disabled={isPending}>
+            <SelectTrigger id="explain-user">
+              <SelectValue placeholder="Select a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="explain-mode">Check</Label>
+          <Select
+            value={mode}
+            onValueChange={value => setMode(value as "path" | "permission")}
+            disabled={isPending}
+          >
+            <SelectTrigger id="explain-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="path">Path</SelectItem>
+              <SelectItem value="permission">Permission</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {mode === "path" ? (
+          <div className="grid gap-2">
+            <Label htmlFor="explain-path">Path</Label>
+            <Input
+              id="explain-path"
+              value={path}
+              onChange={event => setPath(event.target.value)}
+              placeholder="/admin"
+              disabled={isPending}
+            />
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            <Label htmlFor="explain-permission">Permission</Label>
+            <Select value={permission} onValueChange={setPermission} disabled={isPending}>
+              <SelectTrigger id="explain-permission">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(Permission).map(value => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-end">
+          <Button type="submit" disabled={isPending || !userId || (mode === "path" && !path)}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Explain
+          </Button>
+        </div>
+      </form>
+
+      {result && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={granted ? "default" : "destructive"}>
+              {granted ? "Allowed" : "Denied"}
+            </Badge>
+            <span className="font-medium">{result.user.email}</span>
+            <span className="text-muted-foreground">
+              account role {result.user.role}
+              {result.user.workspaceRole &&
+                `, ${result.user.workspaceRole} in workspace ${result.user.workspaceId}`}
+            </span>
+          </div>
+
+          {result.decision && <RouteDecision decision={result.decision} />}
+          {result.permission && (
+            <PermissionDecision explanation={result.permission} isActive={result.user.isActive} />
+          )}
+
+          {result.decision && (
+            <details className="text-sm">
+              <summary className="text-muted-foreground cursor-pointer">
+                Effective permissions ({result.decision.userPermissions.length})
+              </summary>
+              <p className="mt-2 font-mono text-xs">
+                {result.decision.userPermissions.join(", ") || "none"}
+              </p>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
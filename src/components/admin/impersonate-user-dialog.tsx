@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { AlertCircle } from "lucide-react";
+import { useSession } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { IMPERSONATION } from "@/lib/auth/constants";
+import type { User } from "@/types/auth";
+
+interface ImpersonateUserDialogProps {
+  user: User;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ImpersonateUserDialog({ user, open, onClose }: ImpersonateUserDialogProps) {
+  const [reason, setReason] = useState("");
+  const [allowDestructive, setAllowDestructive] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { update } = useSession();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/impersonate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, allowDestructive }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? "Failed to start impersonation");
+      }
+
+      // Reload the session claims as the target user
+      await update();
+      router.push("/dashboard");
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start impersonation",
+        variant: "destructive",
+      });
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>View as User</DialogTitle>
+          <DialogDescription>
+            See the app with the role, permissions and navigation of {user.name ?? user.email}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Every request you make is recorded in the audit log under your account and theirs.
+              Impersonation ends after {IMPERSONATION.MAX_DURATION / 60} minutes.
+            </AlertDescription>
+          </Alert>
+
+          <div className="grid gap-2">
+            <Label htmlFor="impersonate-reason">Reason</Label>
+            <Input
+              id="impersonate-reason"
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="e.g. Support ticket #1234"
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="impersonate-allow-destructive"
+              checked={allowDestructive}
+              onCheckedChange={checked => setAllowDestructive(checked === true)}
+              disabled={isLoading}
+            />
+            <div className="grid gap-1">
+              <Label htmlFor="impersonate-allow-destructive">Allow changes</Label>
+              <p className="text-muted-foreground text-xs">
+                By default only viewing is allowed. Their password, 2FA, sessions, tokens and
+                connected accounts can never be changed.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading}>
+            {isLoading ? "Starting..." : "Start Viewing"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
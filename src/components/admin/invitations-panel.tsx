@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Mail, RotateCw, UserPlus, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { InvitationStatus, PublicInvitation, RoleDefinition } from "@/types/auth";
+
+import { InviteUserDialog } from "./invite-user-dialog";
+
+interface InvitationsPanelProps {
+  invitations: PublicInvitation[];
+  roles: RoleDefinition[];
+}
+
+const STATUS_VARIANTS: Record<InvitationStatus, "default" | "secondary" | "outline"> = {
+  pending: "default",
+  accepted: "secondary",
+  expired: "outline",
+  revoked: "outline",
+};
+
+export function InvitationsPanel({ invitations, roles }: InvitationsPanelProps) {
+  const [isInviting, setIsInviting] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleAction = async (invitation: PublicInvitation, action: "resend" | "revoke") => {
+    setPendingId(invitation.id);
+
+    try {
+      const response = await fetch(
+        action === "resend"
+          ? `/api/admin/invitations/${invitation.id}/resend`
+          : `/api/admin/invitations/${invitation.id}`,
+        { method: action === "resend" ? "POST" : "DELETE" }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? `Failed to ${action} invitation`);
+      }
+
+      if (action === "revoke") {
+        toast({
+          title: "Invitation revoked",
+          description: `${invitation.email} can no longer join`,
+        });
+      } else if (data.delivered) {
+        toast({
+          title: "Invitation resent",
+          description: `A new link was sent to ${invitation.email}`,
+        });
+      } else {
+        toast({
+          title: "Email could not be sent",
+          description: `Share this link instead: ${data.inviteUrl}`,
+          variant: "destructive",
+        });
+      }
+
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action} invitation`,
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex justify-end">
+        <Button onClick={() => setIsInviting(true)}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite User
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-muted-foreground text-center">
+                  No invitations yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              invitations.map(invitation => (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">
+                    <Mail className="text-muted-foreground mr-2 inline h-4 w-4" />
+                    {invitation.email}
+                  </TableCell>
+                  <TableCell>{invitation.role}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[invitation.status]}>{invitation.status}</Badge>
+                  </TableCell>
+                  <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    {(invitation.status === "pending" || invitation.status === "expired") && (
+                      <Button
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        disabled={pendingId !== null}
+                        onClick={() => handleAction(invitation, "resend")}
+                      >
+                        <span className="sr-only">Resend invitation to {invitation.email}</span>
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {invitation.status === "pending" && (
+                      <Button
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        disabled={pendingId !== null}
+                        onClick={() => handleAction(invitation, "revoke")}
+                      >
+                        <span className="sr-only">Revoke invitation to {invitation.email}</span>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {isInviting && <InviteUserDialog roles={roles} open onClose={() => setIsInviting(false)} />}
+    </>
+  );
+}
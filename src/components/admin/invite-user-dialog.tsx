@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { AlertCircle } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { INVITATIONS } from "@/lib/auth/constants";
+import { UserRole, type RoleDefinition } from "@/types/auth";
+
+interface InviteUserDialogProps {
+  roles: RoleDefinition[];
+  open: boolean;
+  onClose: () => void;
+}
+
+export function InviteUserDialog({ roles, open, onClose }: InviteUserDialogProps) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<string>(UserRole.USER);
+  const [expiresInDays, setExpiresInDays] = useState(String(INVITATIONS.DEFAULT_EXPIRY));
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/admin/invitations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role, expiresInDays: Number(expiresInDays) }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? "Failed to send invitation");
+      }
+
+      router.refresh();
+
+      if (data.delivered) {
+        toast({
+          title: "Invitation sent",
+          description: `${data.invitation.email} has been invited as ${data.invitation.role}`,
+        });
+        onClose();
+      } else {
+        // Let the admin share the link another way
+        setInviteUrl(data.inviteUrl);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send invitation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+          <DialogDescription>
+            Email a single-use link. The invitee gets the selected role when they sign in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {inviteUrl ? (
+          <div className="grid gap-4 py-4">
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                The invitation was created but the email could not be sent. Share this link with the
+                invitee instead:
+              </AlertDescription>
+            </Alert>
+            <code className="bg-muted rounded p-2 text-sm break-all">{inviteUrl}</code>
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={event => setEmail(event.target.value)}
+                placeholder="new.user@example.com"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select value={role} onValueChange={setRole}>
+                <SelectTrigger id="invite-role">
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(definition => (
+                    <SelectItem key={definition.role} value={definition.role}>
+                      {definition.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="invite-expiry">Link expires</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger id="invite-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITATIONS.EXPIRY_OPTIONS.map(days => (
+                    <SelectItem key={days} value={String(days)}>
+                      In {days} day{days === 1 ? "" : "s"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {inviteUrl ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isLoading || !email}>
+                {isLoading ? "Sending..." : "Send Invitation"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { REACTIVATION } from "@/lib/auth/constants";
+import type { ReactivationRequest } from "@/types/auth";
+
+interface ReactivationDecisionDialogProps {
+  request: ReactivationRequest;
+  decision: "approve" | "deny";
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ReactivationDecisionDialog({
+  request,
+  decision,
+  open,
+  onClose,
+}: ReactivationDecisionDialogProps) {
+  const [note, setNote] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const approve = decision === "approve";
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/reactivation-requests/${request.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ decision, note: note.trim() || null }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? `Failed to ${decision} request`);
+      }
+
+      toast({
+        title: approve ? "Account reactivated" : "Request denied",
+        description: data.notified
+          ? `${request.email} has been notified`
+          : `The email to ${request.email} could not be sent`,
+        ...(!data.notified && { variant: "destructive" as const }),
+      });
+
+      router.refresh();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${decision} request`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{approve ? "Approve Reactivation" : "Deny Reactivation"}</DialogTitle>
+          <DialogDescription>
+            {approve
+              ? `Reactivate ${request.email} and let them sign in again`
+              : `Keep ${request.email} deactivated`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="text-sm">
+            <p className="mb-1 font-medium">Reason given:</p>
+            <p className="text-muted-foreground whitespace-pre-wrap">{request.reason}</p>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="reactivation-note">Note to the user (optional)</Label>
+            <Textarea
+              id="reactivation-note"
+              value={note}
+              onChange={event => setNote(event.target.value)}
+              maxLength={REACTIVATION.NOTE_MAX_LENGTH}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isLoading}
+            variant={approve ? "default" : "destructive"}
+          >
+            {approve ? "Approve" : "Deny"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
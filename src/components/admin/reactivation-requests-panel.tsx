@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+
+import { Check, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ReactivationRequest, ReactivationRequestStatus } from "@/types/auth";
+
+import { ReactivationDecisionDialog } from "./reactivation-decision-dialog";
+
+interface ReactivationRequestsPanelProps {
+  requests: ReactivationRequest[];
+}
+
+const STATUS_VARIANTS: Record<ReactivationRequestStatus, "default" | "secondary" | "outline"> = {
+  pending: "default",
+  approved: "secondary",
+  denied: "outline",
+};
+
+export function ReactivationRequestsPanel({ requests }: ReactivationRequestsPanelProps) {
+  const [deciding, setDeciding] = useState<{
+    request: ReactivationRequest;
+    decision: "approve" | "deny";
+  } | null>(null);
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-muted-foreground text-center">
+                  No reactivation requests
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">{request.email}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={request.reason}>
+                    {request.reason}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+                  </TableCell>
+                  <TableCell>{new Date(request.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    {request.status === "pending" && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setDeciding({ request, decision: "approve" })}
+                        >
+                          <span className="sr-only">Approve request from {request.email}</span>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setDeciding({ request, decision: "deny" })}
+                        >
+                          <span className="sr-only">Deny request from {request.email}</span>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {deciding && (
+        <ReactivationDecisionDialog
+          request={deciding.request}
+          decision={deciding.decision}
+          open
+          onClose={() => setDeciding(null)}
+        />
+      )}
+    </>
+  );
+}
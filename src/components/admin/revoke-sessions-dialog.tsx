@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+
+import { AlertCircle } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { User } from "@/types/auth";
+
+interface RevokeSessionsDialogProps {
+  user: User;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function RevokeSessionsDialog({ user, open, onClose }: RevokeSessionsDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/sessions`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? "Failed to revoke sessions");
+      }
+
+      toast({
+        title: "Sessions revoked",
+        description: `${user.name ?? user.email}: ${data.message}`,
+      });
+
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke sessions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Revoke All Sessions</DialogTitle>
+          <DialogDescription>Sign {user.name ?? user.email} out of every device</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              The user stays active and can sign in again. Deactivate the account to block access
+              entirely.
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading} variant="destructive">
+            {isLoading ? "Revoking..." : "Revoke Sessions"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from "react";
 
 import { useRouter } from "next/navigation";
 
+import { RoleGrantFields, formatGrantDuration } from "@/components/auth/role-grant-fields";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -22,22 +23,48 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { UserRole, type User } from "@/types/auth";
+import { ROLE_GRANTS } from "@/lib/auth/constants";
+import { listRoleDefinitions } from "@/lib/auth/role-registry";
+import { getUserETag } from "@/lib/auth/user-etag";
+import type { RoleDefinition, RoleName, User } from "@/types/auth";
+
+import { UserConflictAlert } from "./user-conflict-alert";
 
 interface RoleChangeDialogProps {
   user: User;
   open: boolean;
   onClose: () => void;
+  roles?: RoleDefinition[];
 }
 
-export function RoleChangeDialog({ user, open, onClose }: RoleChangeDialogProps) {
-  const [selectedRole, setSelectedRole] = useState<UserRole>(user.role);
+export function RoleChangeDialog({
+  user,
+  open,
+  onClose,
+  roles = listRoleDefinitions(),
+}: RoleChangeDialogProps) {
+  const [selectedRole, setSelectedRole] = useState<RoleName>(user.role);
+  const [duration, setDuration] = useState<number>(ROLE_GRANTS.DURATIONS[0]);
+  const [justification, setJustification] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Set when someone else changed the user after the dialog opened
+  const [conflict, setConflict] = useState<User | null>(null);
   const router = useRouter();
   const { toast } = useToast();
 
+  const current = conflict ?? user;
+
+  // Roles without standing access are given as a temporary grant instead
+  const temporary =
+    selectedRole !== current.role && ROLE_GRANTS.TEMPORARY_ONLY_ROLES.includes(selectedRole);
+
+  let submitLabel = temporary ? "Grant Temporarily" : "Update Role";
+  if (conflict && selectedRole === conflict.role) {
+    submitLabel = "Done";
+  }
+
   const handleSubmit = async () => {
-    if (selectedRole === user.role) {
+    if (selectedRole === current.role) {
       onClose();
       return;
     }
@@ -45,13 +72,29 @@ export function RoleChangeDialog({ user, open, onClose }: RoleChangeDialogProps)
     setIsLoading(true);
 
     try {
-      const response = await fetch(`/api/admin/users/${user.id}/role`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ role: selectedRole }),
-      });
+      const response = temporary
+        ? await fetch("/api/admin/role-grants", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ userId: user.id, role: selectedRole, duration, justification }),
+          })
+        : await fetch(`/api/admin/users/${user.id}/role`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+              "If-Match": getUserETag(current),
+            },
+            body: JSON.stringify({ role: selectedRole }),
+          });
+
+      if (response.status === 412) {
+        const { user: latest } = await response.json();
+        setConflict(latest);
+        router.refresh();
+        return;
+      }
 
       if (!response.ok) {
         const error = await response.json();
@@ -59,8 +102,10 @@ export function RoleChangeDialog({ user, open, onClose }: RoleChangeDialogProps)
       }
 
       toast({
-        title: "Role updated",
-        description: `${user.name ?? user.email}'s role has been changed to ${selectedRole}`,
+        title: temporary ? "Role granted" : "Role updated",
+        description: temporary
+          ? `${user.name ?? user.email} is ${selectedRole} for ${formatGrantDuration(duration)}`
+          : `${user.name ?? user.email}'s role has been changed to ${selectedRole}`,
       });
 
       router.refresh();
@@ -85,26 +130,47 @@ export function RoleChangeDialog({ user, open, onClose }: RoleChangeDialogProps)
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
+          {conflict && (
+            <UserConflictAlert current={conflict}>
+              {conflict.role === selectedRole
+                ? "They already have the role you chose."
+                : `Review the role below and update again to change it from ${conflict.role}.`}
+            </UserConflictAlert>
+          )}
+
           <div className="grid gap-2">
             <Label htmlFor="role">Role</Label>
-            <Select
-              value={selectedRole}
-              onValueChange={value => setSelectedRole(value as UserRole)}
-            >
+            <Select value={selectedRole} onValueChange={value => setSelectedRole(value)}>
               <SelectTrigger id="role">
                 <SelectValue placeholder="Select a role" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value={UserRole.ADMIN}>Admin - Full system access</SelectItem>
-                <SelectItem value={UserRole.EDITOR}>Editor - Content management</SelectItem>
-                <SelectItem value={UserRole.USER}>User - Basic access</SelectItem>
+                {roles.map(definition => (
+                  <SelectItem key={definition.role} value={definition.role}>
+                    {definition.label} - {definition.description || definition.role}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
+          {temporary && (
+            <RoleGrantFields
+              idPrefix="role-grant"
+              duration={duration}
+              onDurationChange={setDuration}
+              justification={justification}
+              onJustificationChange={setJustification}
+              disabled={isLoading}
+            />
+          )}
+
           <div className="text-muted-foreground text-sm">
-            <p className="mb-1 font-medium">Current role: {user.role}</p>
-            <p>New role: {selectedRole}</p>
+            <p className="mb-1 font-medium">Current role: {current.role}</p>
+            <p>
+              New role: {selectedRole}
+              {temporary && ` (for ${formatGrantDuration(duration)}, then back to ${current.role})`}
+            </p>
           </div>
         </div>
 
@@ -112,8 +178,15 @@ export function RoleChangeDialog({ user, open, onClose }: RoleChangeDialogProps)
           <Button variant="outline" onClick={onClose} disabled={isLoading}>
             Cancel
           </Button>
-          <Button onClick={handleSubmit} disabled={isLoading}>
-            {isLoading ? "Updating..." : "Update Role"}
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              isLoading ||
+              (temporary && justification.trim().length < ROLE_GRANTS.JUSTIFICATION_MIN_LENGTH)
+            }
+          >
+            {isLoading && "Updating..."}
+            {!isLoading && submitLabel}
           </Button>
         </DialogFooter>
       </DialogContent>
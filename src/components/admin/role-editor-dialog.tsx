@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSION_CATEGORIES } from "@/lib/auth/constants";
+import { getPermissionDescription } from "@/lib/auth/permissions";
+import type { Permission, RoleDefinition } from "@/types/auth";
+
+interface RoleEditorDialogProps {
+  /** Role to edit; omit to create a new role */
+  role?: RoleDefinition;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function RoleEditorDialog({ role, open, onClose }: RoleEditorDialogProps) {
+  const isNew = !role;
+  const [name, setName] = useState(role?.role ?? "");
+  const [label, setLabel] = useState(role?.label ?? "");
+  const [description, setDescription] = useState(role?.description ?? "");
+  const [level, setLevel] = useState(String(role?.level ?? 1));
+  const [permissions, setPermissions] = useState<Set<Permission>>(
+    () => new Set(role?.permissions ?? [])
+  );
+  const [requireTwoFactor, setRequireTwoFactor] = useState(role?.requireTwoFactor ?? false);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(permission);
+      } else {
+        next.delete(permission);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(
+        isNew ? "/api/admin/roles" : `/api/admin/roles/${encodeURIComponent(role.role)}`,
+        {
+          method: isNew ? "POST" : "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...(isNew && { role: name.trim().toUpperCase() }),
+            label,
+            description,
+            level: Number(level),
+            permissions: Array.from(permissions),
+            requireTwoFactor,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message ?? "Failed to save role");
+      }
+
+      toast({
+        title: isNew ? "Role created" : "Role updated",
+        description: `${label} has been saved`,
+      });
+
+      router.refresh();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save role",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isNew ? "Create Role" : `Edit ${role.label}`}</DialogTitle>
+          <DialogDescription>
+            Roles grant a set of permissions. Higher levels can manage lower ones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="role-name">Name</Label>
+            <Input
+              id="role-name"
+              value={name}
+              onChange={event => setName(event.target.value)}
+              placeholder="SUPPORT_AGENT"
+              disabled={!isNew || isLoading}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="role-label">Label</Label>
+            <Input
+              id="role-label"
+              value={label}
+              onChange={event => setLabel(event.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="role-description">Description</Label>
+            <Textarea
+              id="role-description"
+              value={description}
+              onChange={event => setDescription(event.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="role-level">Level</Label>
+            <Input
+              id="role-level"
+              type="number"
+              min={1}
+              value={level}
+              onChange={event => setLevel(event.target.value)}
+              disabled={role?.isSystem || isLoading}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="role-require-two-factor"
+              checked={requireTwoFactor}
+              onCheckedChange={checked => setRequireTwoFactor(checked === true)}
+              disabled={isLoading}
+            />
+            <Label htmlFor="role-require-two-factor" className="font-normal">
+              Require two-factor authentication for password sign-in
+            </Label>
+          </div>
+
+          {Object.entries(PERMISSION_CATEGORIES).map(([category, categoryPermissions]) => (
+            <div key={category} className="grid gap-2">
+              <p className="text-sm font-medium">{category.replace(/_/g, " ")}</p>
+              {categoryPermissions.map(permission => {
+                const id = `role-permission-${permission}`;
+                return (
+                  <div key={permission} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={permissions.has(permission)}
+                      onCheckedChange={checked => togglePermission(permission, checked === true)}
+                      disabled={isLoading}
+                    />
+                    <Label htmlFor={id} className="font-normal">
+                      {getPermissionDescription(permission)}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading}>
+            {isLoading ? "Saving..." : isNew ? "Create Role" : "Save Role"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { formatGrantDuration } from "@/components/auth/role-grant-fields";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_GRANTS } from "@/lib/auth/constants";
+import type { RoleGrant } from "@/types/auth";
+
+interface RoleGrantDecisionDialogProps {
+  grant: RoleGrant;
+  decision: "approve" | "deny";
+  open: boolean;
+  onClose: () => void;
+}
+
+export function RoleGrantDecisionDialog({
+  grant,
+  decision,
+  open,
+  onClose,
+}: RoleGrantDecisionDialogProps) {
+  const [note, setNote] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const approve = decision === "approve";
+  const duration = formatGrantDuration(grant.duration);
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/admin/role-grants/${grant.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ decision, note: note.trim() || null }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? `Failed to ${decision} request`);
+      }
+
+      toast({
+        title: approve ? "Role granted" : "Request denied",
+        description: approve
+          ? `${grant.email} is ${grant.role} for ${duration}`
+          : `${grant.email} keeps their current role`,
+      });
+
+      router.refresh();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${decision} request`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{approve ? "Approve Role Request" : "Deny Role Request"}</DialogTitle>
+          <DialogDescription>
+            {approve
+              ? `Make ${grant.email} ${grant.role} for ${duration}. The previous role comes back when it ends.`
+              : `Keep ${grant.email} at their current role`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="text-sm">
+            <p className="mb-1 font-medium">Justification:</p>
+            <p className="text-muted-foreground whitespace-pre-wrap">{grant.justification}</p>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="role-grant-note">Note to the user (optional)</Label>
+            <Textarea
+              id="role-grant-note"
+              value={note}
+              onChange={event => setNote(event.target.value)}
+              maxLength={ROLE_GRANTS.NOTE_MAX_LENGTH}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isLoading}
+            variant={approve ? "default" : "destructive"}
+          >
+            {approve ? "Approve" : "Deny"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Ban, Check, X } from "lucide-react";
+
+import { formatGrantDuration } from "@/components/auth/role-grant-fields";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { RoleGrant, RoleGrantStatus } from "@/types/auth";
+
+import { RoleGrantDecisionDialog } from "./role-grant-decision-dialog";
+
+interface RoleGrantsPanelProps {
+  grants: RoleGrant[];
+}
+
+const STATUS_VARIANTS: Record<
+  RoleGrantStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "default",
+  active: "destructive",
+  denied: "outline",
+  expired: "secondary",
+  revoked: "outline",
+};
+
+export function RoleGrantsPanel({ grants }: RoleGrantsPanelProps) {
+  const [deciding, setDeciding] = useState<{
+    grant: RoleGrant;
+    decision: "approve" | "deny";
+  } | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleRevoke = async (grant: RoleGrant) => {
+    setRevokingId(grant.id);
+
+    try {
+      const response = await fetch(`/api/admin/role-grants/${grant.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message ?? "Failed to revoke role");
+      }
+
+      toast({
+        title: "Role revoked",
+        description: `${grant.email} is back to ${grant.previousRole}`,
+      });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke role",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Justification</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {grants.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-muted-foreground text-center">
+                  No temporary roles
+                </TableCell>
+              </TableRow>
+            ) : (
+              grants.map(grant => (
+                <TableRow key={grant.id}>
+                  <TableCell className="font-medium">{grant.email}</TableCell>
+                  <TableCell>{grant.role}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={grant.justification}>
+                    {grant.justification}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[grant.status]}>{grant.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {grant.status === "active" && grant.expiresAt
+                      ? `Until ${new Date(grant.expiresAt).toLocaleString()}`
+                      : formatGrantDuration(grant.duration)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {grant.status === "pending" && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setDeciding({ grant, decision: "approve" })}
+                        >
+                          <span className="sr-only">Approve request from {grant.email}</span>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setDeciding({ grant, decision: "deny" })}
+                        >
+                          <span className="sr-only">Deny request from {grant.email}</span>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                    {grant.status === "active" && (
+                      <Button
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleRevoke(grant)}
+                        disabled={revokingId === grant.id}
+                      >
+                        <span className="sr-only">
+                          Revoke {grant.role} role from {grant.email}
+                        </span>
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {deciding && (
+        <RoleGrantDecisionDialog
+          grant={deciding.grant}
+          decision={deciding.decision}
+          open
+          onClose={() => setDeciding(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type { RoleDefinition } from "@/types/auth";
+
+import { RoleEditorDialog } from "./role-editor-dialog";
+
+interface RoleManagementPanelProps {
+  roles: RoleDefinition[];
+}
+
+export function RoleManagementPanel({ roles }: RoleManagementPanelProps) {
+  const [editingRole, setEditingRole] = useState<RoleDefinition | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleDelete = async (role: RoleDefinition) => {
+    try {
+      const response = await fetch(`/api/admin/roles/${encodeURIComponent(role.role)}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message ?? "Failed to delete role");
+      }
+
+      toast({
+        title: "Role deleted",
+        description: `${role.label} has been removed`,
+      });
+
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex justify-end">
+        <Button onClick={() => setIsCreating(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Role
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Role</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roles.map(role => (
+              <TableRow key={role.role}>
+                <TableCell className="font-medium">
+                  {role.label}{" "}
+                  <Badge variant={role.isSystem ? "secondary" : "outline"}>{role.role}</Badge>
+                  {role.requireTwoFactor && <Badge variant="outline">2FA required</Badge>}
+                </TableCell>
+                <TableCell>{role.description}</TableCell>
+                <TableCell>{role.level}</TableCell>
+                <TableCell>{role.permissions.length}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setEditingRole(role)}
+                  >
+                    <span className="sr-only">Edit {role.label}</span>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  {!role.isSystem && (
+                    <Button
+                      variant="ghost"
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleDelete(role)}
+                    >
+                      <span className="sr-only">Delete {role.label}</span>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {isCreating && <RoleEditorDialog open onClose={() => setIsCreating(false)} />}
+      {editingRole && (
+        <RoleEditorDialog
+          key={editingRole.role}
+          role={editingRole}
+          open
+          onClose={() => setEditingRole(null)}
+        />
+      )}
+    </>
+  );
+}
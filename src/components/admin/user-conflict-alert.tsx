@@ -0,0 +1,31 @@
+import { AlertCircle } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { User } from "@/types/auth";
+
+interface UserConflictAlertProps {
+  /** The user as stored now, returned with the 412 response */
+  current: User;
+  children: React.ReactNode;
+}
+
+/**
+ * Shown when someone else changed a user while a dialog was open, with what
+ * it now says and how the dialog can resolve it
+ */
+export function UserConflictAlert({ current, children }: UserConflictAlertProps) {
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>This user changed since you opened it</AlertTitle>
+      <AlertDescription>
+        <p>
+          {current.name ?? current.email} is now {current.role},{" "}
+          {current.isActive ? "active" : "inactive"}. Updated{" "}
+          {new Date(current.updatedAt).toLocaleString()}.
+        </p>
+        <p>{children}</p>
+      </AlertDescription>
+    </Alert>
+  );
+}
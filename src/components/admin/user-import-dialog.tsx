@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { AlertCircle } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  UserImportAction,
+  UserImportRowResult,
+  UserImportSummary,
+  UserTransferFormat,
+} from "@/types/auth";
+
+interface UserImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface ImportFile {
+  name: string;
+  format: UserTransferFormat;
+  content: string;
+}
+
+interface ImportPreview {
+  rows: UserImportRowResult[];
+  summary: UserImportSummary;
+}
+
+const ACTION_BADGES: Record<
+  UserImportAction,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  create: { label: "Create", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+function describeRow(row: UserImportRowResult): string {
+  if (row.errors.length > 0) {
+    return row.errors.join("; ");
+  }
+
+  return Object.entries(row.changes ?? {})
+    .map(([field, change]) => `${field}: ${change?.from ?? "—"} → ${change?.to ?? "—"}`)
+    .join(", ");
+}
+
+export function UserImportDialog({ open, onClose }: UserImportDialogProps) {
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleClose = () => {
+    setFile(null);
+    setPreview(null);
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    setPreview(null);
+
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    setFile({
+      name: selected.name,
+      format: selected.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+      content: await selected.text(),
+    });
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/admin/users/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: file.format, content: file.content, dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message ?? "Failed to import users");
+      }
+
+      if (dryRun) {
+        setPreview({ rows: data.rows, summary: data.summary });
+        return;
+      }
+
+      const { create, update, error } = data.summary as UserImportSummary;
+      toast({
+        title: "Import complete",
+        description: `${create} created, ${update} updated, ${error} skipped`,
+      });
+      router.refresh();
+      handleClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import users",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changedRows = preview?.rows.filter(row => row.action !== "unchanged") ?? [];
+  const importCount = preview ? preview.summary.create + preview.summary.update : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Users</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file with the columns email, name, username, role and isActive.
+            Users are matched by email; empty cells keep the current value.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="user-import-file">File</Label>
+            <Input
+              id="user-import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </div>
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="default">{preview.summary.create} to create</Badge>
+                <Badge variant="secondary">{preview.summary.update} to update</Badge>
+                <Badge variant="outline">{preview.summary.unchanged} unchanged</Badge>
+                <Badge variant="destructive">{preview.summary.error} with errors</Badge>
+              </div>
+
+              {preview.summary.error > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    Rows with errors will be skipped. Fix them in the file and preview again to
+                    include them.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {changedRows.length > 0 && (
+                <div className="max-h-80 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changedRows.map(row => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell>{row.email || "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant={ACTION_BADGES[row.action].variant}>
+                              {ACTION_BADGES[row.action].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground text-xs whitespace-normal">
+                            {describeRow(row)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button onClick={() => runImport(false)} disabled={isLoading || importCount === 0}>
+              {isLoading ? "Importing..." : `Import ${importCount} users`}
+            </Button>
+          ) : (
+            <Button onClick={() => runImport(true)} disabled={isLoading || !file}>
+              {isLoading ? "Checking..." : "Preview"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
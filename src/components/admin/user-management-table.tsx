@@ -1,8 +1,23 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
-import { MoreHorizontal, UserCog, UserX, UserCheck } from "lucide-react";
+import { useRouter } from "next/navigation";
+
+import {
+  Download,
+  Eye,
+  KeyRound,
+  Loader2,
+  LockOpen,
+  LogOut,
+  MoreHorizontal,
+  Search,
+  UserCog,
+  UserX,
+  UserCheck,
+  Upload,
+} from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -14,6 +29,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -22,19 +45,152 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { UserRole, type User } from "@/types/auth";
+import { useToast } from "@/hooks/use-toast";
+import { ACCOUNT_LINKING, USER_QUERY } from "@/lib/auth/constants";
+import { useDebounce } from "@/lib/hooks/use-debounce";
+import {
+  UserRole,
+  type RoleDefinition,
+  type RoleName,
+  type User,
+  type UserQueryPage,
+} from "@/types/auth";
 
+import { ImpersonateUserDialog } from "./impersonate-user-dialog";
+import { RevokeSessionsDialog } from "./revoke-sessions-dialog";
 import { RoleChangeDialog } from "./role-change-dialog";
+import { UserImportDialog } from "./user-import-dialog";
+import { UserPermissionsDialog } from "./user-permissions-dialog";
 import { UserStatusDialog } from "./user-status-dialog";
 
+const ALL = "all";
+
+const SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "name:asc", label: "Name (A-Z)" },
+  { value: "name:desc", label: "Name (Z-A)" },
+  { value: "email:asc", label: "Email (A-Z)" },
+  { value: "lastLoginAt:desc", label: "Last sign-in" },
+];
+
+const PROVIDERS = ["credentials", ...ACCOUNT_LINKING.PROVIDERS];
+
+type AdminUserPage = UserQueryPage<User> & { lockouts: Record<string, Date> };
+
 interface UserManagementTableProps {
+  /** First page of the default query, rendered by the server */
   users: User[];
   total: number;
+  nextCursor?: string | null;
+  roles?: RoleDefinition[];
+  /** Users locked out after failed sign-ins, keyed by user id */
+  lockouts?: Record<string, Date>;
 }
 
-export function UserManagementTable({ users, total }: UserManagementTableProps) {
+export function UserManagementTable({
+  users: initialUsers,
+  total: initialTotal,
+  nextCursor: initialCursor = null,
+  roles,
+  lockouts: initialLockouts = {},
+}: UserManagementTableProps) {
+  const [users, setUsers] = useState(initialUsers);
+  const [total, setTotal] = useState(initialTotal);
+  const [nextCursor, setNextCursor] = useState(initialCursor);
+  const [lockouts, setLockouts] = useState(initialLockouts);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [dialogType, setDialogType] = useState<"role" | "status" | null>(null);
+  const [dialogType, setDialogType] = useState<
+    "role" | "status" | "permissions" | "sessions" | "impersonate" | null
+  >(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [providerFilter, setProviderFilter] = useState(ALL);
+  const [verifiedFilter, setVerifiedFilter] = useState(ALL);
+  const [sort, setSort] = useState("createdAt:desc");
+  const debouncedSearch = useDebounce(search, USER_QUERY.SEARCH_DEBOUNCE);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  // The search and filters as query parameters, shared by the list and the export
+  const filterParams = new URLSearchParams();
+  if (debouncedSearch.trim()) {
+    filterParams.set("search", debouncedSearch.trim());
+  }
+  if (roleFilter !== ALL) {
+    filterParams.set("role", roleFilter);
+  }
+  if (statusFilter !== ALL) {
+    filterParams.set("isActive", statusFilter);
+  }
+  if (providerFilter !== ALL) {
+    filterParams.set("provider", providerFilter);
+  }
+  if (verifiedFilter !== ALL) {
+    filterParams.set("emailVerified", verifiedFilter);
+  }
+  const [sortBy = "createdAt", sortOrder = "desc"] = sort.split(":");
+  filterParams.set("sortBy", sortBy);
+  filterParams.set("sortOrder", sortOrder);
+  const query = filterParams.toString();
+
+  // Only the latest request may update the list, so slow responses cannot
+  // overwrite the results of a newer search
+  const latestRequest = useRef(0);
+
+  const fetchPage = useCallback(
+    async (cursor?: string) => {
+      const requestId = ++latestRequest.current;
+      setIsLoading(true);
+      setLoadError(null);
+
+      try {
+        const params = new URLSearchParams(query);
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        const response = await fetch(`/api/admin/users?${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message ?? "Failed to load users");
+        }
+        if (requestId !== latestRequest.current) {
+          return;
+        }
+
+        const page = data as AdminUserPage;
+        setUsers(current => (cursor ? [...current, ...page.users] : page.users));
+        setLockouts(current => (cursor ? { ...current, ...page.lockouts } : page.lockouts));
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        if (requestId === latestRequest.current) {
+          setLoadError(error instanceof Error ? error.message : "Failed to load users");
+        }
+      } finally {
+        if (requestId === latestRequest.current) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [query]
+  );
+
+  // The server renders the first page of the default query. Reload from the
+  // start when the query changes, or when a refresh after an edit re-renders it.
+  const isFirstRender = useRef(true);
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    void fetchPage();
+  }, [fetchPage, initialUsers]);
 
   const handleRoleChange = (user: User) => {
     setSelectedUser(user);
@@ -46,7 +202,54 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
     setDialogType("status");
   };
 
-  const getRoleBadgeVariant = (role: UserRole) => {
+  const handlePermissionsChange = (user: User) => {
+    setSelectedUser(user);
+    setDialogType("permissions");
+  };
+
+  const handleRevokeSessions = (user: User) => {
+    setSelectedUser(user);
+    setDialogType("sessions");
+  };
+
+  const handleImpersonate = (user: User) => {
+    setSelectedUser(user);
+    setDialogType("impersonate");
+  };
+
+  const handleUnlock = async (user: User) => {
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/unlock`, { method: "POST" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message ?? "Failed to unlock account");
+      }
+
+      toast({
+        title: "Account unlocked",
+        description: `${user.name ?? user.email} can sign in again`,
+      });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to unlock account",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Export every user matching the search and filters, in the format the importer reads
+  const getExportUrl = (format: "csv" | "json") => {
+    const params = new URLSearchParams(query);
+    params.set("format", format);
+    return `/api/admin/users/export?${params}`;
+  };
+
+  const roleOptions = roles?.map(definition => definition.role) ?? Object.values(UserRole);
+
+  const getRoleBadgeVariant = (role: RoleName) => {
     switch (role) {
       case UserRole.ADMIN:
         return "destructive";
@@ -61,6 +264,105 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
 
   return (
     <>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <div className="relative w-64">
+            <Search className="text-muted-foreground absolute top-2.5 left-2 h-4 w-4" />
+            <Input
+              value={search}
+              onChange={event => setSearch(event.target.value)}
+              placeholder="Search name, email or username"
+              aria-label="Search users"
+              className="pl-8"
+            />
+          </div>
+          <Select value={roleFilter} onValueChange={setRoleFilter}>
+            <SelectTrigger className="w-40" aria-label="Filter by role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All roles</SelectItem>
+              {roleOptions.map(role => (
+                <SelectItem key={role} value={role}>
+                  {role}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40" aria-label="Filter by status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              <SelectItem value="true">Active</SelectItem>
+              <SelectItem value="false">Inactive</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={providerFilter} onValueChange={setProviderFilter}>
+            <SelectTrigger className="w-40" aria-label="Filter by provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All providers</SelectItem>
+              {PROVIDERS.map(provider => (
+                <SelectItem key={provider} value={provider}>
+                  {provider}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={verifiedFilter} onValueChange={setVerifiedFilter}>
+            <SelectTrigger className="w-40" aria-label="Filter by verification">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any verification</SelectItem>
+              <SelectItem value="true">Verified</SelectItem>
+              <SelectItem value="false">Unverified</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={setSort}>
+            <SelectTrigger className="w-40" aria-label="Sort users">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <a href={getExportUrl("csv")} download>
+                  Export as CSV
+                </a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={getExportUrl("json")} download>
+                  Export as JSON
+                </a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
       <div className="rounded-md border">
         <Table>
           <TableHeader>
@@ -85,7 +387,14 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
               users.map(user => (
                 <TableRow key={user.id}>
                   <TableCell className="font-medium">{user.name ?? "N/A"}</TableCell>
-                  <TableCell>{user.email}</TableCell>
+                  <TableCell>
+                    {user.email}
+                    {!user.emailVerified && (
+                      <Badge variant="outline" className="ml-1">
+                        Unverified
+                      </Badge>
+                    )}
+                  </TableCell>
                   <TableCell>{user.username ?? "N/A"}</TableCell>
                   <TableCell>
                     <Badge variant={getRoleBadgeVariant(user.role)}>{user.role}</Badge>
@@ -94,6 +403,15 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
                     <Badge variant={user.isActive ? "default" : "secondary"}>
                       {user.isActive ? "Active" : "Inactive"}
                     </Badge>
+                    {lockouts[user.id] && (
+                      <Badge
+                        variant="destructive"
+                        className="ml-1"
+                        title={`Locked until ${new Date(lockouts[user.id]!).toLocaleString()}`}
+                      >
+                        Locked
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
                   <TableCell className="text-right">
@@ -111,6 +429,10 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
                           <UserCog className="mr-2 h-4 w-4" />
                           Change Role
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handlePermissionsChange(user)}>
+                          <KeyRound className="mr-2 h-4 w-4" />
+                          Edit Permissions
+                        </DropdownMenuItem>
                         <DropdownMenuItem onClick={() => handleStatusChange(user)}>
                           {user.isActive ? (
                             <>
@@ -124,6 +446,21 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
                             </>
                           )}
                         </DropdownMenuItem>
+                        {lockouts[user.id] && (
+                          <DropdownMenuItem onClick={() => handleUnlock(user)}>
+                            <LockOpen className="mr-2 h-4 w-4" />
+                            Unlock Account
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem onClick={() => handleRevokeSessions(user)}>
+                          <LogOut className="mr-2 h-4 w-4" />
+                          Revoke Sessions
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => handleImpersonate(user)}>
+                          <Eye className="mr-2 h-4 w-4" />
+                          View as User
+                        </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
@@ -134,15 +471,36 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
         </Table>
       </div>
 
-      <div className="text-muted-foreground mt-4 text-sm">
-        Showing {users.length} of {total} users
+      <div className="mt-4 flex items-center justify-between gap-2">
+        <p className="text-muted-foreground text-sm">
+          Showing {users.length} of {total} users
+          {loadError && <span className="text-destructive ml-2">{loadError}</span>}
+        </p>
+        {nextCursor && (
+          <Button variant="outline" onClick={() => fetchPage(nextCursor)} disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+        )}
       </div>
 
+      <UserImportDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
       {selectedUser && (
         <>
           <RoleChangeDialog
             user={selectedUser}
             open={dialogType === "role"}
+            roles={roles}
+            onClose={() => {
+              setDialogType(null);
+              setSelectedUser(null);
+            }}
+          />
+          <UserPermissionsDialog
+            user={selectedUser}
+            open={dialogType === "permissions"}
+            roles={roles}
             onClose={() => {
               setDialogType(null);
               setSelectedUser(null);
@@ -156,6 +514,22 @@ export function UserManagementTable({ users, total }: UserManagementTableProps)
               setSelectedUser(null);
             }}
           />
+          <RevokeSessionsDialog
+            user={selectedUser}
+            open={dialogType === "sessions"}
+            onClose={() => {
+              setDialogType(null);
+              setSelectedUser(null);
+            }}
+          />
+          <ImpersonateUserDialog
+            user={selectedUser}
+            open={dialogType === "impersonate"}
+            onClose={() => {
+              setDialogType(null);
+              setSelectedUser(null);
+            }}
+          />
         </>
       )}
     </>
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { PERMISSION_CATEGORIES } from "@/lib/auth/constants";
+import { getPermissionDescription } from "@/lib/auth/permissions";
+import { getRoleDefinitionPermissions } from "@/lib/auth/role-registry";
+import type { Permission, RoleDefinition, User } from "@/types/auth";
+
+interface UserPermissionsDialogProps {
+  user: User;
+  open: boolean;
+  onClose: () => void;
+  roles?: RoleDefinition[];
+}
+
+export function UserPermissionsDialog({ user, open, onClose, roles }: UserPermissionsDialogProps) {
+  // Custom roles only exist in the server registry, so prefer the list passed down from the page
+  const rolePermissions =
+    roles?.find(definition => definition.role === user.role)?.permissions ??
+    getRoleDefinitionPermissions(user.role);
+  const [selected, setSelected] = useState<Set<Permission>>(() => {
+    const { granted = [], revoked = [] } = user.permissionOverrides ?? {};
+    return new Set([...rolePermissions, ...granted].filter(p => !revoked.includes(p)));
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(permission);
+      } else {
+        next.delete(permission);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setIsLoading(true);
+
+    // Store only the difference from the role's defaults
+    const granted = Array.from(selected).filter(p => !rolePermissions.includes(p));
+    const revoked = rolePermissions.filter(p => !selected.has(p));
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/permissions`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ granted, revoked }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message ?? "Failed to update permissions");
+      }
+
+      toast({
+        title: "Permissions updated",
+        description: `Updated permissions for ${user.name ?? user.email}`,
+      });
+
+      router.refresh();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update permissions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Permissions</DialogTitle>
+          <DialogDescription>
+            Grant or revoke individual permissions for {user.name ?? user.email} on top of the{" "}
+            {user.role} role
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          {Object.entries(PERMISSION_CATEGORIES).map(([category, permissions]) => (
+            <div key={category} className="grid gap-2">
+              <p className="text-sm font-medium">{category.replace(/_/g, " ")}</p>
+              {permissions.map(permission => {
+                const id = `permission-${permission}`;
+                const fromRole = rolePermissions.includes(permission);
+                const isOverride = selected.has(permission) !== fromRole;
+
+                return (
+                  <div key={permission} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={selected.has(permission)}
+                      onCheckedChange={checked => togglePermission(permission, checked === true)}
+                      disabled={isLoading}
+                    />
+                    <Label htmlFor={id} className="font-normal">
+                      {getPermissionDescription(permission)}
+                    </Label>
+                    {isOverride && (
+                      <span className="text-muted-foreground text-xs">
+                        ({fromRole ? "revoked" : "granted"})
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Permissions"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,8 +17,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { getUserETag } from "@/lib/auth/user-etag";
 import type { User } from "@/types/auth";
 
+import { UserConflictAlert } from "./user-conflict-alert";
+
 interface UserStatusDialogProps {
   user: User;
   open: boolean;
@@ -27,13 +30,23 @@ interface UserStatusDialogProps {
 
 export function UserStatusDialog({ user, open, onClose }: UserStatusDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
+  // Set when someone else changed the user after the dialog opened
+  const [conflict, setConflict] = useState<User | null>(null);
   const router = useRouter();
   const { toast } = useToast();
 
+  // The status chosen when the dialog opened; a conflict does not flip it
   const newStatus = !user.isActive;
   const action = newStatus ? "activate" : "deactivate";
+  const current = conflict ?? user;
+  const alreadyApplied = conflict?.isActive === newStatus;
 
   const handleSubmit = async () => {
+    if (alreadyApplied) {
+      onClose();
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -41,10 +54,18 @@ export function UserStatusDialog({ user, open, onClose }: UserStatusDialogProps)
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
+          "If-Match": getUserETag(current),
         },
         body: JSON.stringify({ isActive: newStatus }),
       });
 
+      if (response.status === 412) {
+        const { user: latest } = await response.json();
+        setConflict(latest);
+        router.refresh();
+        return;
+      }
+
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message ?? `Failed to ${action} user`);
@@ -81,6 +102,14 @@ export function UserStatusDialog({ user, open, onClose }: UserStatusDialogProps)
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
+          {conflict && (
+            <UserConflictAlert current={conflict}>
+              {alreadyApplied
+                ? `They are already ${newStatus ? "active" : "inactive"}.`
+                : `Review the changes, then ${action} them again if you still want to.`}
+            </UserConflictAlert>
+          )}
+
           {!newStatus && (
             <Alert>
               <AlertCircle className="h-4 w-4" />
@@ -94,9 +123,9 @@ export function UserStatusDialog({ user, open, onClose }: UserStatusDialogProps)
           <div className="text-sm">
             <p className="mb-1 font-medium">User Details:</p>
             <ul className="text-muted-foreground list-inside list-disc space-y-1">
-              <li>Email: {user.email}</li>
-              <li>Role: {user.role}</li>
-              <li>Current Status: {user.isActive ? "Active" : "Inactive"}</li>
+              <li>Email: {current.email}</li>
+              <li>Role: {current.role}</li>
+              <li>Current Status: {current.isActive ? "Active" : "Inactive"}</li>
             </ul>
           </div>
         </div>
@@ -110,9 +139,9 @@ export function UserStatusDialog({ user, open, onClose }: UserStatusDialogProps)
             disabled={isLoading}
             variant={newStatus ? "default" : "destructive"}
           >
-            {isLoading
-              ? `${action.charAt(0).toUpperCase() + action.slice(1)}ing...`
-              : `${action.charAt(0).toUpperCase() + action.slice(1)}`}
+            {isLoading && `${action.charAt(0).toUpperCase() + action.slice(1)}ing...`}
+            {!isLoading &&
+              (alreadyApplied ? "Done" : action.charAt(0).toUpperCase() + action.slice(1))}
           </Button>
         </DialogFooter>
       </DialogContent>
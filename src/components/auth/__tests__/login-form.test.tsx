@@ -1,6 +1,7 @@
 import { render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { signIn } from "next-auth/react";
 import { LoginForm } from "../login-form";
 
 // Mock next-auth/react
@@ -69,6 +70,27 @@ describe("LoginForm", () => {
     );
   });
 
+  it("shows when sign-in is locked after too many failures", async () => {
+    vi.mocked(signIn).mockResolvedValue({
+      error: "CredentialsSignin",
+      code: "account_locked:840",
+      status: 401,
+      ok: false,
+      url: null,
+    });
+    const user = userEvent.setup();
+    render(<LoginForm />);
+
+    await user.type(screen.getByLabelText(/email/i), "test@example.com");
+    await user.type(screen.getByLabelText(/password/i), "wrong-password");
+    await user.click(screen.getByRole("button", { name: /sign in/i }));
+
+    expect(
+      await screen.findByText(/too many failed sign-in attempts\. try again in 14 minutes/i)
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /sign in/i })).toBeDisabled();
+  });
+
   it("renders OAuth provider buttons", () => {
     render(<LoginForm />);
 
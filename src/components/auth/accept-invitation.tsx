@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+
+import Link from "next/link";
+
+import { Loader2 } from "lucide-react";
+import { signIn } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { OAUTH_PROVIDERS } from "@/lib/auth/constants";
+
+interface AcceptInvitationProps {
+  token: string;
+  email: string;
+}
+
+export function AcceptInvitation({ token, email }: AcceptInvitationProps) {
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleProviderSignIn = async (provider: string) => {
+    setPendingProvider(provider);
+    setError(null);
+
+    try {
+      // The sign-in callback reads the invitation from a cookie set here
+      const response = await fetch("/api/auth/invitation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error ?? "Could not accept the invitation");
+      }
+
+      await signIn(provider, { callbackUrl: "/dashboard" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not accept the invitation");
+      setPendingProvider(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button asChild className="w-full" disabled={pendingProvider !== null}>
+        <Link href={`/auth/signup?invite=${encodeURIComponent(token)}`}>
+          Create an account with a password
+        </Link>
+      </Button>
+
+      <p className="text-muted-foreground text-center text-xs uppercase">Or continue with</p>
+
+      <div className="grid gap-2">
+        {Object.values(OAUTH_PROVIDERS).map(provider => (
+          <Button
+            key={provider.id}
+            variant="outline"
+            disabled={pendingProvider !== null}
+            onClick={() => handleProviderSignIn(provider.id)}
+          >
+            {pendingProvider === provider.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {provider.name}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-muted-foreground text-center text-xs">
+        Use the provider account for {email}.
+      </p>
+    </div>
+  );
+}
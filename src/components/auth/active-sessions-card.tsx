@@ -0,0 +1,158 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Loader2, LogOut, Monitor } from "lucide-react";
+import { signOut } from "next-auth/react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+
+interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+export function ActiveSessionsCard() {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/sessions");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setSessions(data.sessions ?? []);
+    } catch (error) {
+      console.error("Failed to load sessions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionSummary) => {
+    setPendingId(session.id);
+
+    try {
+      const response = await fetch(`/api/user/sessions/${session.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to revoke session");
+      }
+
+      if (session.current) {
+        await signOut({ callbackUrl: "/login" });
+        return;
+      }
+
+      toast({ title: "Session revoked", description: "That device has been signed out." });
+      await loadSessions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke session",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    setPendingId("all");
+
+    try {
+      const response = await fetch("/api/user/sessions", { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to sign out other sessions");
+      }
+
+      // Other sessions are revoked server-side; end this one too
+      await signOut({ callbackUrl: "/login" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out other sessions",
+        variant: "destructive",
+      });
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active Sessions</CardTitle>
+        <CardDescription>Devices currently signed in to your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+        ) : (
+          <div className="divide-y rounded-md border">
+            {sessions.map(session => (
+              <div key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex min-w-0 items-start gap-3">
+                  <Monitor className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {session.userAgent ?? "Unknown device"}
+                    </p>
+                    <p className="text-muted-foreground text-xs">
+                      {session.ipAddress ?? "Unknown IP"} · Last active{" "}
+                      {new Date(session.lastSeenAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {session.current ? (
+                  <Badge variant="secondary">This device</Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingId !== null}
+                    onClick={() => handleRevoke(session)}
+                  >
+                    {pendingId === session.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="destructive"
+          disabled={isLoading || pendingId !== null}
+          onClick={handleSignOutEverywhere}
+        >
+          {pendingId === "all" ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="mr-2 h-4 w-4" />
+          )}
+          Sign out everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
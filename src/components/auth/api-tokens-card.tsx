@@ -0,0 +1,276 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { KeyRound, Loader2 } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { API_TOKEN } from "@/lib/auth/constants";
+import { getPermissionDescription } from "@/lib/auth/permissions";
+import { Permission } from "@/types/auth";
+
+interface TokenSummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt?: string;
+}
+
+const NO_EXPIRY = "never";
+
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const [tokens, setTokens] = useState<TokenSummary[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Set<Permission>>(new Set());
+  const [expiry, setExpiry] = useState("30");
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/tokens");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setTokens(data.tokens ?? []);
+      setAvailableScopes(data.availableScopes ?? []);
+    } catch (error) {
+      console.error("Failed to load API tokens:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: Permission, checked: boolean) => {
+    setScopes(previous => {
+      const next = new Set(previous);
+      if (checked) {
+        next.add(scope);
+      } else {
+        next.delete(scope);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setPendingId("create");
+
+    try {
+      const response = await fetch("/api/user/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes: Array.from(scopes),
+          expiresInDays: expiry === NO_EXPIRY ? null : Number(expiry),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to create token");
+      }
+
+      setNewToken(data.token);
+      setName("");
+      setScopes(new Set());
+      await loadTokens();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create token",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRevoke = async (token: TokenSummary) => {
+    setPendingId(token.id);
+
+    try {
+      const response = await fetch(`/api/user/tokens/${token.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to revoke token");
+      }
+
+      toast({ title: "Token revoked", description: `"${token.name}" can no longer be used.` });
+      await loadTokens();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke token",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // ACCESS_API is always granted, so it is not offered as a choice
+  const selectableScopes = availableScopes.filter(scope => scope !== Permission.ACCESS_API);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+        <CardDescription>
+          Personal access tokens for scripts and services. Send them as{" "}
+          <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newToken && (
+          <Alert>
+            <AlertDescription className="space-y-2">
+              <p>Copy your new token now. It will not be shown again.</p>
+              <code className="bg-muted block rounded p-2 text-sm break-all">{newToken}</code>
+              <Button variant="outline" size="sm" onClick={() => setNewToken(null)}>
+                Done
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+        ) : (
+          tokens.length > 0 && (
+            <div className="divide-y rounded-md border">
+              {tokens.map(token => (
+                <div key={token.id} className="flex items-center justify-between gap-4 p-3">
+                  <div className="flex min-w-0 items-start gap-3">
+                    <KeyRound className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+                    <div className="min-w-0 space-y-1">
+                      <p className="truncate text-sm font-medium">
+                        {token.name} <span className="text-muted-foreground">{token.prefix}…</span>
+                      </p>
+                      <p className="text-muted-foreground text-xs">
+                        {token.lastUsedAt
+                          ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                          : "Never used"}{" "}
+                        ·{" "}
+                        {token.expiresAt
+                          ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}`
+                          : "No expiry"}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {token.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary">
+                            {scope}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingId !== null}
+                    onClick={() => handleRevoke(token)}
+                  >
+                    {pendingId === token.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {!isLoading && availableScopes.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Your account does not have API access.</p>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-name">Token name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={event => setName(event.target.value)}
+                placeholder="Deploy script"
+                disabled={pendingId !== null}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-expiry">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN.EXPIRY_OPTIONS.map(days => (
+                    <SelectItem key={days} value={String(days)}>
+                      In {days} days
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NO_EXPIRY}>Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <p className="text-sm font-medium">Scopes</p>
+              <p className="text-muted-foreground text-xs">
+                Tokens can always call the API. Add the permissions the token should act with.
+              </p>
+              {selectableScopes.map(scope => {
+                const id = `api-token-scope-${scope}`;
+                return (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={id}
+                      checked={scopes.has(scope)}
+                      onCheckedChange={checked => toggleScope(scope, checked === true)}
+                      disabled={pendingId !== null}
+                    />
+                    <Label htmlFor={id} className="font-normal">
+                      {getPermissionDescription(scope)}
+                    </Label>
+                  </div>
+                );
+              })}
+            </div>
+
+            <Button type="submit" disabled={isLoading || pendingId !== null || !name.trim()}>
+              {pendingId === "create" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create token
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
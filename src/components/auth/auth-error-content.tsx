@@ -61,7 +61,10 @@ export function AuthErrorContent() {
 
         {error === "OAuthAccountNotLinked" && (
           <div className="text-muted-foreground text-center text-sm">
-            <p>To confirm your identity, sign in with the same account you used originally.</p>
+            <p>
+              To confirm your identity, sign in with the same account you used originally, then
+              connect this provider from your profile.
+            </p>
           </div>
         )}
       </CardContent>
@@ -0,0 +1,72 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Eye, Loader2 } from "lucide-react";
+import { useSession } from "next-auth/react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Shown on every page while an admin is viewing the app as another user
+ */
+export function ImpersonationBanner() {
+  const { data: session, update } = useSession();
+  const [isExiting, setIsExiting] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const impersonator = session?.impersonator;
+  const user = session?.user;
+  if (!impersonator || !user) {
+    return null;
+  }
+
+  const handleExit = async () => {
+    setIsExiting(true);
+
+    try {
+      const response = await fetch("/api/auth/impersonation", { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to stop impersonation");
+      }
+
+      // Reload the session claims as the admin
+      await update();
+      router.push("/admin");
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to stop impersonation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExiting(false);
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex flex-wrap items-center justify-center gap-x-4 gap-y-1 bg-amber-500 px-4 py-2 text-sm text-black"
+    >
+      <Eye className="h-4 w-4" />
+      <span>
+        Viewing as <strong>{user.name ?? user.email}</strong> ({user.role}
+        ). Signed in as {impersonator.name ?? impersonator.email}.{" "}
+        {impersonator.allowDestructive ? "Changes are allowed." : "Read-only."} Ends at{" "}
+        {new Date(impersonator.expiresAt).toLocaleTimeString()}.
+      </span>
+      <Button size="sm" variant="secondary" onClick={handleExit} disabled={isExiting}>
+        {isExiting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Exit
+      </Button>
+    </div>
+  );
+}
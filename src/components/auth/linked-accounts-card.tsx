@@ -0,0 +1,190 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Link2, Loader2, Unlink } from "lucide-react";
+import { signIn } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+
+interface LinkedAccountSummary {
+  provider: string;
+  email: string | null;
+  linkedAt: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  github: "GitHub",
+  google: "Google",
+  discord: "Discord",
+};
+
+const LINK_ERRORS: Record<string, string> = {
+  AccountAlreadyLinked: AUTH_ERRORS.ACCOUNT_ALREADY_LINKED,
+  AccessDenied: "The provider account could not be connected.",
+};
+
+export function LinkedAccountsCard() {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<LinkedAccountSummary[]>([]);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [hasPassword, setHasPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/accounts");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setAccounts(data.accounts ?? []);
+      setProviders(data.providers ?? []);
+      setHasPassword(!!data.hasPassword);
+    } catch (error) {
+      console.error("Failed to load linked accounts:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // The sign-in callback redirects back here with ?linkError=... when linking fails
+    const error = new URLSearchParams(window.location.search).get("linkError");
+    if (error) {
+      setLinkError(LINK_ERRORS[error] ?? LINK_ERRORS.AccessDenied!);
+    }
+
+    void loadAccounts();
+  }, [loadAccounts]);
+
+  const handleConnect = async (provider: string) => {
+    setPendingProvider(provider);
+
+    try {
+      const response = await fetch("/api/user/accounts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to connect provider");
+      }
+
+      await signIn(provider, { callbackUrl: "/profile" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to connect provider",
+        variant: "destructive",
+      });
+      setPendingProvider(null);
+    }
+  };
+
+  const handleDisconnect = async (provider: string) => {
+    setPendingProvider(provider);
+
+    try {
+      const response = await fetch(`/api/user/accounts/${provider}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to disconnect provider");
+      }
+
+      toast({
+        title: "Provider disconnected",
+        description: `${PROVIDER_LABELS[provider] ?? provider} can no longer be used to sign in.`,
+      });
+      await loadAccounts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to disconnect provider",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingProvider(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected Accounts</CardTitle>
+        <CardDescription>Sign in to the same account with any connected provider</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {linkError && (
+          <Alert variant="destructive">
+            <AlertDescription>{linkError}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+        ) : (
+          <div className="divide-y rounded-md border">
+            {hasPassword && (
+              <div className="flex items-center justify-between p-3">
+                <p className="text-sm font-medium">Email and password</p>
+                <Badge variant="secondary">Connected</Badge>
+              </div>
+            )}
+            {providers.map(provider => {
+              const account = accounts.find(a => a.provider === provider);
+              const label = PROVIDER_LABELS[provider] ?? provider;
+
+              return (
+                <div key={provider} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="text-sm font-medium">{label}</p>
+                    {account?.email && (
+                      <p className="text-muted-foreground text-xs">{account.email}</p>
+                    )}
+                  </div>
+                  {account ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pendingProvider !== null}
+                      onClick={() => handleDisconnect(provider)}
+                    >
+                      <Unlink className="mr-2 h-4 w-4" />
+                      Disconnect {label}
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pendingProvider !== null}
+                      onClick={() => handleConnect(provider)}
+                    >
+                      {pendingProvider === provider ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Link2 className="mr-2 h-4 w-4" />
+                      )}
+                      Connect {label}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 import { useRouter } from "next/navigation";
 
@@ -21,7 +21,9 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { LOGIN_THROTTLE, TWO_FACTOR } from "@/lib/auth/constants";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -30,11 +32,37 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+/**
+ * Seconds until sign-in is allowed again, from an "account_locked:<seconds>" error code
+ */
+function parseLockoutCode(code: string | null | undefined): number | null {
+  const [prefix, seconds] = code?.split(":") ?? [];
+  return prefix === LOGIN_THROTTLE.LOCKED_CODE && seconds ? Number(seconds) : null;
+}
+
 export function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
   const router = useRouter();
 
+  // Re-enable the form once the lockout has passed
+  useEffect(() => {
+    if (!lockedUntil) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setLockedUntil(null);
+      setError(null);
+    }, lockedUntil - Date.now());
+    return () => clearTimeout(timeout);
+  }, [lockedUntil]);
+
+  const isLocked = lockedUntil !== null;
+
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
@@ -51,10 +79,24 @@ export function LoginForm() {
       const result = await signIn("credentials", {
         email: data.email,
         password: data.password,
+        ...(needsTwoFactor && { code: twoFactorCode }),
         redirect: false,
       });
 
-      if (result?.error) {
+      const lockedFor = parseLockoutCode(result?.code);
+
+      if (lockedFor !== null) {
+        const minutes = Math.max(1, Math.ceil(lockedFor / 60));
+        setLockedUntil(Date.now() + lockedFor * 1000);
+        setError(
+          `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`
+        );
+      } else if (result?.code === TWO_FACTOR.CODE_REQUIRED) {
+        // Password accepted - ask for the authenticator code and resubmit
+        setNeedsTwoFactor(true);
+      } else if (result?.code === TWO_FACTOR.CODE_INVALID) {
+        setError("Invalid authentication code");
+      } else if (result?.error) {
         setError("Invalid email or password");
       } else {
         router.push("/dashboard");
@@ -142,9 +184,27 @@ export function LoginForm() {
             )}
           />
 
-          <Button type="submit" className="w-full" disabled={isLoading}>
+          {needsTwoFactor && (
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authentication code</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                autoFocus
+                placeholder="123456"
+                disabled={isLoading}
+                value={twoFactorCode}
+                onChange={event => setTwoFactorCode(event.target.value)}
+              />
+              <p className="text-muted-foreground text-xs">
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isLoading || isLocked}>
             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Sign In
+            {needsTwoFactor ? "Verify" : "Sign In"}
           </Button>
         </form>
       </Form>
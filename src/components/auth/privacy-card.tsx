@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Download, Loader2 } from "lucide-react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ACCOUNT_DELETION } from "@/lib/auth/constants";
+
+interface DeletionSummary {
+  requestedAt: string;
+  scheduledFor: string;
+}
+
+/**
+ * Download-my-data and delete-my-account actions (GDPR)
+ */
+export function PrivacyCard() {
+  const { toast } = useToast();
+  const [deletion, setDeletion] = useState<DeletionSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPending, setIsPending] = useState(false);
+  const [confirmEmail, setConfirmEmail] = useState("");
+
+  const loadDeletion = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/deletion");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setDeletion(data.deletion ?? null);
+    } catch (error) {
+      console.error("Failed to load account deletion status:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadDeletion();
+  }, [loadDeletion]);
+
+  const handleRequest = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsPending(true);
+
+    try {
+      const response = await fetch("/api/user/deletion", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirmEmail }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to schedule deletion");
+      }
+
+      setDeletion(data.deletion);
+      setConfirmEmail("");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule deletion",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsPending(true);
+
+    try {
+      const response = await fetch("/api/user/deletion", { method: "DELETE" });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to cancel deletion");
+      }
+
+      setDeletion(null);
+      toast({ title: "Deletion cancelled", description: "Your account will be kept." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel deletion",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Data</CardTitle>
+        <CardDescription>Download what we hold about you, or delete your account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm">
+            Your account, security log, chat messages, notifications and avatar conversations.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant="outline">
+              <a href="/api/user/data-export?format=zip" download>
+                <Download className="mr-2 h-4 w-4" />
+                Download my data (ZIP)
+              </a>
+            </Button>
+            <Button asChild variant="ghost">
+              <a href="/api/user/data-export?format=json" download>
+                JSON
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {isLoading && <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />}
+
+        {!isLoading && deletion && (
+          <div className="space-y-2">
+            <Alert variant="destructive">
+              <AlertDescription>
+                Your account will be deleted on{" "}
+                {new Date(deletion.scheduledFor).toLocaleDateString()}. Until then you can cancel.
+              </AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={handleCancel} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Keep my account
+            </Button>
+          </div>
+        )}
+
+        {!isLoading && !deletion && (
+          <form onSubmit={handleRequest} className="space-y-2">
+            <Label htmlFor="delete-confirm-email">Delete my account</Label>
+            <p className="text-muted-foreground text-sm">
+              Your account is deleted {ACCOUNT_DELETION.GRACE_PERIOD} days after you ask, and you
+              can cancel until then. Chat messages you wrote stay visible to others but no longer
+              show your name. Type your email to confirm.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                id="delete-confirm-email"
+                type="email"
+                value={confirmEmail}
+                onChange={event => setConfirmEmail(event.target.value)}
+                disabled={isPending}
+              />
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={isPending || !confirmEmail.trim()}
+              >
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete account
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
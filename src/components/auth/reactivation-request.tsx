@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { Loader2, LogOut } from "lucide-react";
+import { signOut, useSession } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { REACTIVATION } from "@/lib/auth/constants";
+
+/**
+ * Lets a deactivated user ask an admin to turn their account back on
+ */
+export function ReactivationRequestForm() {
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/reactivation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error ?? "Could not submit your request");
+      }
+
+      // The page shows the pending request
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not submit your request");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="reactivation-reason">Why should your account be reactivated?</Label>
+        <Textarea
+          id="reactivation-reason"
+          value={reason}
+          onChange={event => setReason(event.target.value)}
+          maxLength={REACTIVATION.REASON_MAX_LENGTH}
+          rows={4}
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || !reason.trim()}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Request reactivation
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Shown once an admin has reactivated the account. Reloads the session claims,
+ * which still say inactive until the next refresh.
+ */
+export function ReactivatedContinue() {
+  const { update } = useSession();
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+
+  const handleContinue = async () => {
+    setIsLoading(true);
+    await update();
+    router.push("/dashboard");
+    router.refresh();
+  };
+
+  return (
+    <Button onClick={handleContinue} disabled={isLoading} className="w-full">
+      {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+      Continue to dashboard
+    </Button>
+  );
+}
+
+/**
+ * Sign-out button for the deactivated-account page
+ */
+export function InactiveSignOutButton() {
+  return (
+    <Button variant="outline" className="w-full" onClick={() => signOut({ callbackUrl: "/login" })}>
+      <LogOut className="mr-2 h-4 w-4" />
+      Sign out
+    </Button>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Loader2 } from "lucide-react";
+import { useSession } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ROLE_GRANTS } from "@/lib/auth/constants";
+import { getRoleLevel, listRoleDefinitions } from "@/lib/auth/role-registry";
+import type { RoleGrant, RoleName } from "@/types/auth";
+
+import { RoleGrantFields, formatGrantDuration } from "./role-grant-fields";
+
+/**
+ * Request a higher role for a limited time (just-in-time elevation)
+ */
+export function RoleElevationCard() {
+  const { data: session, update } = useSession();
+  const { toast } = useToast();
+  const [grants, setGrants] = useState<RoleGrant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPending, setIsPending] = useState(false);
+  const [role, setRole] = useState<RoleName>("");
+  const [duration, setDuration] = useState<number>(ROLE_GRANTS.DURATIONS[0]);
+  const [justification, setJustification] = useState("");
+
+  const currentRole = session?.user?.role;
+  const higherRoles = currentRole
+    ? listRoleDefinitions().filter(definition => definition.level > getRoleLevel(currentRole))
+    : [];
+
+  const loadGrants = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/role-grants");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setGrants(data.grants ?? []);
+    } catch (error) {
+      console.error("Failed to load role requests:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadGrants();
+  }, [loadGrants]);
+
+  const open = grants.find(grant => grant.status === "pending" || grant.status === "active");
+  const [latest] = grants;
+
+  // Pick up an approved role without waiting for the next claims refresh. Ended
+  // roles need no help: the session reloads its claims when they expire.
+  const activeRole = open?.status === "active" ? open.role : null;
+  useEffect(() => {
+    if (activeRole && currentRole && currentRole !== activeRole) {
+      void update();
+    }
+  }, [activeRole, currentRole, update]);
+
+  const handleRequest = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsPending(true);
+
+    try {
+      const response = await fetch("/api/user/role-grants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role, duration, justification }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to request role");
+      }
+
+      setGrants(current => [data.grant, ...current]);
+      setJustification("");
+      toast({ title: "Request sent", description: "An admin will review it." });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to request role",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  if (!isLoading && !open && higherRoles.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Temporary Access</CardTitle>
+        <CardDescription>
+          Ask for a higher role for a limited time. Your role reverts when it ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />}
+
+        {open?.status === "active" && open.expiresAt && (
+          <Alert>
+            <AlertDescription>
+              You are {open.role} until {new Date(open.expiresAt).toLocaleString()}, then back to{" "}
+              {open.previousRole}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {open?.status === "pending" && (
+          <Alert>
+            <AlertDescription>
+              Your request for {open.role} ({formatGrantDuration(open.duration)}) is waiting for an
+              admin.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!open && latest?.status === "denied" && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Your request for {latest.role} was denied
+              {latest.decisionNote ? `: ${latest.decisionNote}` : "."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && !open && higherRoles.length > 0 && (
+          <form onSubmit={handleRequest} className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="elevation-role">Role</Label>
+              <Select value={role} onValueChange={setRole} disabled={isPending}>
+                <SelectTrigger id="elevation-role">
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {higherRoles.map(definition => (
+                    <SelectItem key={definition.role} value={definition.role}>
+                      {definition.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <RoleGrantFields
+              idPrefix="elevation"
+              duration={duration}
+              onDurationChange={setDuration}
+              justification={justification}
+              onJustificationChange={setJustification}
+              disabled={isPending}
+            />
+
+            <div>
+              <Button
+                type="submit"
+                disabled={
+                  isPending ||
+                  !role ||
+                  justification.trim().length < ROLE_GRANTS.JUSTIFICATION_MIN_LENGTH
+                }
+              >
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Request access
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ROLE_GRANTS } from "@/lib/auth/constants";
+
+/**
+ * "30 minutes", "2 hours"
+ */
+export function formatGrantDuration(seconds: number): string {
+  if (seconds < 60 * 60) {
+    const minutes = Math.round(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+
+  const hours = Math.round((seconds / (60 * 60)) * 10) / 10;
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+interface RoleGrantFieldsProps {
+  idPrefix: string;
+  duration: number;
+  onDurationChange: (duration: number) => void;
+  justification: string;
+  onJustificationChange: (justification: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Duration and justification inputs for a temporary role, shared by the
+ * elevation request form and the admin's role dialog
+ */
+export function RoleGrantFields({
+  idPrefix,
+  duration,
+  onDurationChange,
+  justification,
+  onJustificationChange,
+  disabled,
+}: RoleGrantFieldsProps) {
+  return (
+    <>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-duration`}>Duration</Label>
+        <Select
+          value={String(duration)}
+          onValueChange={value => onDurationChange(Number(value))}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-duration`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ROLE_GRANTS.DURATIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>
+                {formatGrantDuration(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}-justification`}>Justification</Label>
+        <Textarea
+          id={`${idPrefix}-justification`}
+          value={justification}
+          onChange={event => onJustificationChange(event.target.value)}
+          placeholder="What do you need the role for?"
+          maxLength={ROLE_GRANTS.JUSTIFICATION_MAX_LENGTH}
+          disabled={disabled}
+        />
+      </div>
+    </>
+  );
+}
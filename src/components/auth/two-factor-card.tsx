@@ -0,0 +1,266 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useSession } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+export function TwoFactorCard() {
+  const { update } = useSession();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/two-factor");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setStatus({
+        enabled: !!data.enabled,
+        required: !!data.required,
+        recoveryCodesRemaining: data.recoveryCodesRemaining ?? 0,
+      });
+    } catch (error) {
+      console.error("Failed to load two-factor status:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error ?? "Request failed");
+      }
+      return data;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Request failed");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const data = await request("/api/user/two-factor", { method: "POST" });
+    if (data) {
+      setEnrollment({ secret: data.secret, qrCode: data.qrCode });
+      setCode("");
+    }
+  };
+
+  const handleVerify = async () => {
+    const data = await request("/api/user/two-factor/verify", {
+      method: "POST",
+      body: JSON.stringify({ code }),
+    });
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      toast({ title: "Two-factor enabled", description: "Save your recovery codes." });
+      // Refresh the session so a role-required setup no longer blocks navigation
+      await update();
+      await loadStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    const data = await request("/api/user/two-factor", {
+      method: "DELETE",
+      body: JSON.stringify({ code }),
+    });
+    if (data) {
+      setIsDisabling(false);
+      setCode("");
+      toast({ title: "Two-factor disabled" });
+      await loadStatus();
+    }
+  };
+
+  const renderBody = () => {
+    if (!status) {
+      return <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />;
+    }
+
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm">
+            Store these recovery codes somewhere safe. Each one can be used once if you lose access
+            to your authenticator app. They will not be shown again.
+          </p>
+          <ul className="bg-muted grid grid-cols-2 gap-1 rounded-md p-3 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <Button variant="outline" onClick={() => setRecoveryCodes(null)}>
+            I have saved my codes
+          </Button>
+        </div>
+      );
+    }
+
+    if (enrollment) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          {/* eslint-disable-next-line @next/next/no-img-element -- QR code is a data URL */}
+          <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44" />
+          <p className="text-muted-foreground text-xs">
+            Can&apos;t scan? Enter this key manually:{" "}
+            <span className="font-mono">{enrollment.secret}</span>
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-enroll-code">Verification code</Label>
+            <Input
+              id="two-factor-enroll-code"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={event => setCode(event.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleVerify} disabled={isSubmitting || !code}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify and enable
+            </Button>
+            <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (status.enabled) {
+      return (
+        <div className="space-y-3">
+          <p className="text-muted-foreground text-sm">
+            {status.recoveryCodesRemaining} recovery code
+            {status.recoveryCodesRemaining === 1 ? "" : "s"} remaining.
+          </p>
+          {isDisabling ? (
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-disable-code">Authentication or recovery code</Label>
+              <Input
+                id="two-factor-disable-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={event => setCode(event.target.value)}
+                disabled={isSubmitting}
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="destructive"
+                  onClick={handleDisable}
+                  disabled={isSubmitting || !code}
+                >
+                  Turn off two-factor
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsDisabling(false)}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            !status.required && (
+              <Button variant="outline" onClick={() => setIsDisabling(true)}>
+                Turn off two-factor
+              </Button>
+            )
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <Button onClick={handleStart} disabled={isSubmitting}>
+        {isSubmitting ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <ShieldCheck className="mr-2 h-4 w-4" />
+        )}
+        Set up two-factor
+      </Button>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when signing in with your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.required && !status.enabled && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              Your role requires two-factor authentication. Set it up to continue using the app.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {renderBody()}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+import { Loader2, LogOut, MailCheck } from "lucide-react";
+import { signOut, useSession } from "next-auth/react";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface VerifyEmailConfirmProps {
+  token: string;
+}
+
+/**
+ * Confirms an emailed verification link. Verification happens on click rather
+ * than on page load, so mail scanners that follow links do not use the token.
+ */
+export function VerifyEmailConfirm({ token }: VerifyEmailConfirmProps) {
+  const { data: session, update } = useSession();
+  const [isLoading, setIsLoading] = useState(false);
+  const [verifiedEmail, setVerifiedEmail] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleConfirm = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/verify-email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(body.error ?? "Could not verify your email");
+      }
+
+      if (session) {
+        // Reload the session claims so the app is no longer gated
+        await update();
+        router.push("/dashboard");
+        router.refresh();
+        return;
+      }
+
+      setVerifiedEmail(body.email);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not verify your email");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (verifiedEmail) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <MailCheck className="h-4 w-4" />
+          <AlertDescription>{verifiedEmail} is verified. You can now sign in.</AlertDescription>
+        </Alert>
+        <Button asChild className="w-full">
+          <Link href="/login">Go to sign in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button onClick={handleConfirm} disabled={isLoading} className="w-full">
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify my email
+      </Button>
+    </div>
+  );
+}
+
+interface VerifyEmailPendingProps {
+  email: string;
+}
+
+/**
+ * Shown to signed-in users who still need to verify their email
+ */
+export function VerifyEmailPending({ email }: VerifyEmailPendingProps) {
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/verify-email/resend", { method: "POST" });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(body.error ?? "Could not send a new link");
+      }
+
+      setMessage(body.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send a new link");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-center text-sm">
+        We sent a link to <strong>{email}</strong>. Open it to finish setting up your account.
+      </p>
+
+      {message && (
+        <Alert>
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button onClick={handleResend} disabled={isSending} className="w-full">
+        {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Send a new link
+      </Button>
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => signOut({ callbackUrl: "/login" })}
+        disabled={isSending}
+      >
+        <LogOut className="mr-2 h-4 w-4" />
+        Sign out
+      </Button>
+    </div>
+  );
+}
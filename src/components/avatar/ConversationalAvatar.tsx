@@ -38,7 +38,6 @@ export function ConversationalAvatar({
   enableVoiceInput = true,
   enableTextInput: _enableTextInput = true,
   className,
-  userId = "demo-user",
   browserVoiceName,
   onConversationStart,
   onConversationEnd,
@@ -62,7 +61,6 @@ export function ConversationalAvatar({
     stopConversation,
     clearConversation,
   } = useVoiceConversation({
-    userId,
     voiceSettings: voiceId ? { voiceId } : undefined,
     onMessage,
     onError,
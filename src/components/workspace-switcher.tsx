@@ -0,0 +1,136 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { useRouter } from "next/navigation";
+
+import { ArrowUpCircleIcon, CheckIcon, ChevronsUpDownIcon } from "lucide-react";
+import { useSession } from "next-auth/react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+  slug: string;
+  role: string;
+}
+
+/**
+ * Sidebar header showing the active workspace, with a menu to switch to
+ * another one the user belongs to
+ */
+export function WorkspaceSwitcher() {
+  const { isMobile } = useSidebar();
+  const { data: session, update } = useSession();
+  const router = useRouter();
+  const { toast } = useToast();
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const activeWorkspaceId = session?.user?.workspaceId;
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/workspaces");
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setWorkspaces(data.workspaces ?? []);
+    } catch (error) {
+      console.error("Failed to load workspaces:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user) {
+      void loadWorkspaces();
+    }
+  }, [session?.user, loadWorkspaces]);
+
+  const handleSelect = async (workspaceId: string) => {
+    if (workspaceId === activeWorkspaceId) {
+      return;
+    }
+    setIsSwitching(true);
+
+    try {
+      const response = await fetch("/api/user/workspaces/active", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error ?? "Failed to switch workspace");
+      }
+
+      // Reload the session claims with the new workspace role
+      await update();
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to switch workspace",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const active = workspaces.find(workspace => workspace.id === activeWorkspaceId);
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild disabled={isSwitching || workspaces.length === 0}>
+            <SidebarMenuButton className="data-[slot=sidebar-menu-button]:!p-1.5">
+              <ArrowUpCircleIcon className="h-5 w-5" />
+              <span className="truncate text-base font-semibold">
+                {active?.name ?? "Workspace"}
+              </span>
+              {workspaces.length > 1 && <ChevronsUpDownIcon className="ml-auto size-4" />}
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-[--radix-dropdown-menu-trigger-width] min-w-56 rounded-lg"
+            side={isMobile ? "bottom" : "right"}
+            align="start"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="text-muted-foreground text-xs">
+              Workspaces
+            </DropdownMenuLabel>
+            {workspaces.map(workspace => (
+              <DropdownMenuItem key={workspace.id} onSelect={() => void handleSelect(workspace.id)}>
+                <div className="grid flex-1 leading-tight">
+                  <span className="truncate">{workspace.name}</span>
+                  <span className="text-muted-foreground truncate text-xs">{workspace.role}</span>
+                </div>
+                {workspace.id === activeWorkspaceId && <CheckIcon className="ml-auto size-4" />}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
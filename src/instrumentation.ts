@@ -0,0 +1,9 @@
+/**
+ * Runs once when a server instance starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { bootstrapUserStore } = await import("@/lib/auth/bootstrap");
+    await bootstrapUserStore();
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { createApiClient } from "../client";
+import { generateApiClient, toTypeScript } from "../client-generator";
+import { buildOpenApiDocument } from "../openapi";
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+}
+
+describe("generateApiClient", () => {
+  // `pnpm api:client` rewrites the client when this fails
+  it("matches the committed client", async () => {
+    await expect(generateApiClient(buildOpenApiDocument())).toMatchFileSnapshot("../client.ts");
+  });
+
+  it("maps JSON Schema to TypeScript types", () => {
+    expect(toTypeScript({ type: ["string", "null"] })).toBe("string | null");
+    expect(
+      toTypeScript({ type: "array", items: { $ref: "#/components/schemas/PublicUser" } })
+    ).toBe("PublicUser[]");
+    expect(toTypeScript({ type: "object", additionalProperties: { type: "string" } })).toBe(
+      "Record<string, string>"
+    );
+    expect(toTypeScript({ enum: ["a", "b"] })).toBe('"a" | "b"');
+    expect(
+      toTypeScript({
+        type: "object",
+        properties: { id: { type: "string" }, "If-Match": { type: "string" } },
+        required: ["id"],
+      })
+    ).toBe('{\n  id: string;\n  "If-Match"?: string;\n}');
+  });
+});
+
+describe("createApiClient", () => {
+  it("fills in path parameters, queries and headers", async () => {
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ message: "ok" }));
+    const client = createApiClient({ baseUrl: "https://app.example.com/", fetch, token: "fep_x" });
+
+    await client.listUsers({ query: { search: "ada lovelace", isActive: "true", limit: 10 } });
+    await client.updateUser({
+      params: { id: "a/b" },
+      headers: { "If-Match": '"abc"' },
+      body: { name: "Ada" },
+    });
+
+    expect(fetch).toHaveBeenNthCalledWith(
+      1,
+      "https://app.example.com/api/users?search=ada+lovelace&isActive=true&limit=10",
+      expect.objectContaining({ method: "GET", credentials: "same-origin", body: undefined })
+    );
+    expect(fetch).toHaveBeenNthCalledWith(
+      2,
+      "https://app.example.com/api/users/a%2Fb",
+      expect.objectContaining({
+        method: "PATCH",
+        body: JSON.stringify({ name: "Ada" }),
+        headers: {
+          Authorization: "Bearer fep_x",
+          "If-Match": '"abc"',
+          "Content-Type": "application/json",
+        },
+      })
+    );
+  });
+
+  it("parses JSON bodies and narrows them by status", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse(
+          { error: "User has changed since it was loaded", user: { id: "1" } },
+          { status: 412, headers: { ETag: '"new"' } }
+        )
+      );
+    const client = createApiClient({ fetch });
+
+    const result = await client.updateUser({ params: { id: "1" }, body: { isActive: false } });
+
+    expect(result.ok).toBe(false);
+    expect(result.headers.get("ETag")).toBe('"new"');
+    if (result.status !== 412) {
+      throw new Error(`Unexpected status ${result.status}`);
+    }
+    expect(result.data.user.id).toBe("1");
+  });
+
+  it("leaves binary bodies on the response", async () => {
+    const audio = new Response(new Uint8Array([1, 2, 3]), {
+      headers: { "Content-Type": "audio/mpeg" },
+    });
+    const client = createApiClient({ fetch: vi.fn().mockResolvedValue(audio) });
+
+    const result = await client.synthesizeSpeech({ body: { text: "Xin chào" } });
+
+    expect(result.status).toBe(200);
+    expect(result.data).toBe(audio);
+  });
+});
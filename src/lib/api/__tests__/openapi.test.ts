@@ -0,0 +1,148 @@
+import { readdirSync, readFileSync } from "fs";
+import { dirname, join, sep } from "path";
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+
+import { buildOpenApiDocument, toJsonSchema } from "../openapi";
+import { apiOperations } from "../operations";
+
+const document = buildOpenApiDocument();
+
+describe("toJsonSchema", () => {
+  it("marks optional fields and describes nullable, formatted and bounded ones", () => {
+    const schema = z.object({
+      id: z.string(),
+      name: z.string().min(1).max(100).nullable().optional(),
+      email: z.string().email(),
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+      tags: z.array(z.enum(["a", "b"])),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        name: { type: ["string", "null"], minLength: 1, maxLength: 100 },
+        email: { type: "string", format: "email" },
+        limit: { type: "integer", minimum: 1, maximum: 100 },
+        tags: { type: "array", items: { type: "string", enum: ["a", "b"] } },
+      },
+      required: ["id", "email", "tags"],
+    });
+  });
+
+  it("describes requests as sent, before transforms", () => {
+    const flag = z.enum(["true", "false"]).transform(value => value === "true");
+
+    expect(toJsonSchema(flag)).toEqual({ type: "string", enum: ["true", "false"] });
+  });
+
+  it("references named schemas instead of inlining them", () => {
+    const user = z.object({ id: z.string() });
+    const refs = new Map([[user, "User"]]);
+
+    expect(toJsonSchema(z.object({ user: user.nullable() }), refs).properties).toEqual({
+      user: { anyOf: [{ $ref: "#/components/schemas/User" }, { type: "null" }] },
+    });
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  it("describes every operation once, with a handler behind it", () => {
+    const ids = apiOperations.map(operation => operation.operationId);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const operation of apiOperations) {
+      expect(document.paths[operation.path]?.[operation.method]?.operationId).toBe(
+        operation.operationId
+      );
+
+      const file = join(
+        process.cwd(),
+        "src/app",
+        operation.path.replace(/\{(\w+)\}/g, "[$1]"),
+        "route.ts"
+      );
+      expect(readFileSync(file, "utf8")).toMatch(
+        new RegExp(`export (async function|const) ${operation.method.toUpperCase()}\\b`)
+      );
+    }
+  });
+
+  it("describes every route handler", () => {
+    const api = join(process.cwd(), "src/app/api");
+    const routes = readdirSync(api, { recursive: true, encoding: "utf8" }).filter(
+      // NextAuth's own sign-in routes are not part of this API
+      file => file.endsWith("route.ts") && !file.includes("[...nextauth]")
+    );
+    expect(routes.length).toBeGreaterThan(0);
+
+    const documented = new Set(
+      apiOperations.map(operation => `${operation.method.toUpperCase()} ${operation.path}`)
+    );
+    const missing = routes.flatMap(file => {
+      const path = `/api/${dirname(file).split(sep).join("/")}`.replace(/\[(\w+)\]/g, "{$1}");
+      const methods = readFileSync(join(api, file), "utf8").matchAll(
+        /export (?:async function|const) (GET|HEAD|POST|PUT|PATCH|DELETE)\b/g
+      );
+      return Array.from(methods, ([, method]) => `${method} ${path}`).filter(
+        handler => !documented.has(handler)
+      );
+    });
+
+    expect(missing).toEqual([]);
+  });
+
+  it("resolves every $ref to a component schema", () => {
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) ?? [];
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(document.components.schemas).toHaveProperty(ref.split("/").pop()!);
+    }
+  });
+
+  it("documents parameters, bodies, permissions and auth", () => {
+    const updateUser = document.paths["/api/users/{id}"]?.patch;
+
+    expect(updateUser?.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "string" } },
+      {
+        name: "If-Match",
+        in: "header",
+        required: false,
+        description: "ETag of the user the change was based on",
+        schema: { type: "string" },
+      },
+    ]);
+    expect(updateUser?.requestBody?.content["application/json"]?.schema).toEqual({
+      $ref: "#/components/schemas/UserUpdate",
+    });
+    expect(updateUser?.responses["412"]?.headers).toHaveProperty("ETag");
+    expect(updateUser?.["x-permissions"]).toEqual(["UPDATE_USER"]);
+    expect(updateUser?.security).toEqual([{ sessionCookie: [] }, { apiToken: [] }]);
+
+    expect(document.paths["/api/health"]?.get?.security).toEqual([]);
+    expect(
+      document.paths["/api/avatar/tts"]?.post?.responses["200"]?.content?.["audio/mpeg"]
+    ).toBeDefined();
+  });
+
+  it("documents list queries with their string forms", () => {
+    const query = document.paths["/api/users"]?.get?.parameters ?? [];
+
+    expect(query.find(parameter => parameter.name === "isActive")).toEqual({
+      name: "isActive",
+      in: "query",
+      required: false,
+      schema: { type: "string", enum: ["true", "false"] },
+    });
+    expect(query.find(parameter => parameter.name === "sortBy")?.schema.enum).toEqual([
+      "name",
+      "email",
+      "createdAt",
+      "lastLoginAt",
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+import type { HttpMethod, JsonSchema, OpenApiDocument, OpenApiOperation } from "@/types/openapi";
+
+/**
+ * Generates src/lib/api/client.ts, a dependency-free typed fetch client, from
+ * the OpenAPI document. Run `pnpm api:client` after changing an operation.
+ */
+
+const HEADER = `/**
+ * Typed fetch client for the API routes, generated from /api/openapi.json by
+ * src/lib/api/client-generator.ts. Do not edit: run \`pnpm api:client\`.
+ *
+ * The module has no imports, so other frontends can copy or import it as is.
+ */
+`;
+
+const RUNTIME = `export interface ApiClientOptions {
+  // Origin of the API; relative URLs are used when omitted
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  // Sent with every request
+  headers?: Record<string, string>;
+  // Personal access token, sent as a bearer token
+  token?: string;
+  // Defaults to "same-origin", which sends the session cookie
+  credentials?: RequestCredentials;
+}
+
+/**
+ * A response of one of the statuses the operation documents. JSON bodies are
+ * parsed; other bodies are left on the raw Response.
+ */
+export type ApiResponse<TResponses> = {
+  [TStatus in keyof TResponses]: {
+    status: TStatus;
+    ok: boolean;
+    data: TResponses[TStatus];
+    headers: Headers;
+    response: Response;
+  };
+}[keyof TResponses];
+
+// application/json and structured types such as application/scim+json
+function isJson(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+interface OperationRequest {
+  params?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const fetchImpl = options.fetch ?? fetch;
+  const baseUrl = (options.baseUrl ?? "").replace(/\\/$/, "");
+
+  async function send<TResponses>(
+    method: string,
+    path: string,
+    request: OperationRequest = {},
+    init: RequestInit = {}
+  ): Promise<ApiResponse<TResponses>> {
+    const url = path.replace(/\\{(\\w+)\\}/g, (_, name: string) =>
+      encodeURIComponent(request.params?.[name] ?? "")
+    );
+
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) {
+        search.set(name, String(value));
+      }
+    }
+    const query = search.toString();
+
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) {
+      headers.Authorization = \`Bearer \${options.token}\`;
+    }
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    if (request.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await fetchImpl(\`\${baseUrl}\${url}\${query ? \`?\${query}\` : ""}\`, {
+      credentials: options.credentials ?? "same-origin",
+      ...init,
+      method,
+      headers: { ...headers, ...(init.headers as Record<string, string> | undefined) },
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    });
+
+    const mediaType = response.headers.get("content-type")?.split(";")[0]?.trim() ?? "";
+    let data: unknown = response;
+    if (method === "HEAD" || response.status === 204) {
+      data = null;
+    } else if (isJson(mediaType)) {
+      data = await response.json();
+    }
+
+    return {
+      status: response.status,
+      ok: response.ok,
+      data,
+      headers: response.headers,
+      response,
+    } as ApiResponse<TResponses>;
+  }
+`;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Same check as the generated client's
+function isJson(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function indent(level: number): string {
+  return "  ".repeat(level);
+}
+
+function docComment(description: string | undefined, level: number): string {
+  return description ? `${indent(level)}/** ${description} */\n` : "";
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  return unique.includes("unknown") ? "unknown" : unique.join(" | ");
+}
+
+function objectBody(schema: JsonSchema, level: number): string {
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(
+    ([name, property]) =>
+      `${docComment(property.description, level + 1)}${indent(level + 1)}${propertyKey(name)}${
+        required.has(name) ? "" : "?"
+      }: ${toTypeScript(property, level + 1)};\n`
+  );
+  if (schema.additionalProperties === true) {
+    lines.push(`${indent(level + 1)}[key: string]: unknown;\n`);
+  }
+  return `{\n${lines.join("")}${indent(level)}}`;
+}
+
+/**
+ * TypeScript type for a JSON Schema, with $refs as the component type names
+ */
+export function toTypeScript(schema: JsonSchema, level = 0): string {
+  if (schema.$ref) {
+    return schema.$ref.split("/").pop() ?? "unknown";
+  }
+  if (schema.anyOf) {
+    return union(schema.anyOf.map(option => toTypeScript(option, level)));
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map(value => JSON.stringify(value)));
+  }
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map(type => toTypeScript({ ...schema, type }, level)));
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const items = toTypeScript(schema.items ?? {}, level);
+      return IDENTIFIER.test(items) ? `${items}[]` : `Array<${items}>`;
+    }
+    case "object":
+      if (schema.properties) {
+        return objectBody(schema, level);
+      }
+      if (typeof schema.additionalProperties === "object") {
+        return `Record<string, ${toTypeScript(schema.additionalProperties, level)}>`;
+      }
+      return "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+}
+
+function componentType(name: string, schema: JsonSchema): string {
+  const doc = docComment(schema.description, 0);
+  if (schema.type === "object" && schema.properties) {
+    return `${doc}export interface ${name} ${objectBody(schema, 0)}\n`;
+  }
+  return `${doc}export type ${name} = ${toTypeScript(schema)};\n`;
+}
+
+function responseType(operation: OpenApiOperation): string {
+  const lines = Object.entries(operation.responses).map(([status, response]) => {
+    const [contentType, media] = Object.entries(response.content ?? {})[0] ?? [];
+    let type = "null";
+    if (contentType && isJson(contentType) && media) {
+      type = toTypeScript(media.schema, 1);
+    } else if (contentType) {
+      type = "Response";
+    }
+    return `${docComment(response.description, 1)}${indent(1)}${status}: ${type};\n`;
+  });
+  return `export interface ${pascalCase(operation.operationId)}Responses {\n${lines.join("")}}\n`;
+}
+
+interface RequestPart {
+  key: "params" | "query" | "headers" | "body";
+  type: string;
+  required: boolean;
+}
+
+function requestParts(operation: OpenApiOperation): RequestPart[] {
+  const parts: RequestPart[] = [];
+
+  for (const [key, location] of [
+    ["params", "path"],
+    ["query", "query"],
+    ["headers", "header"],
+  ] as const) {
+    const parameters = (operation.parameters ?? []).filter(parameter => parameter.in === location);
+    if (parameters.length === 0) {
+      continue;
+    }
+
+    const lines = parameters.map(
+      parameter =>
+        `${docComment(parameter.description, 2)}${indent(2)}${propertyKey(parameter.name)}${
+          parameter.required ? "" : "?"
+        }: ${toTypeScript(parameter.schema, 2)};\n`
+    );
+    parts.push({
+      key,
+      type: `{\n${lines.join("")}${indent(1)}}`,
+      required: parameters.some(parameter => parameter.required),
+    });
+  }
+
+  const body = operation.requestBody?.content["application/json"];
+  if (body) {
+    parts.push({
+      key: "body",
+      type: toTypeScript(body.schema, 1),
+      required: operation.requestBody?.required ?? false,
+    });
+  }
+
+  return parts;
+}
+
+function operationCode(
+  method: HttpMethod,
+  path: string,
+  operation: OpenApiOperation
+): { types: string; method: string } {
+  const name = pascalCase(operation.operationId);
+  const parts = requestParts(operation);
+  const responses = `${name}Responses`;
+  const call = `send<${responses}>("${method.toUpperCase()}", "${path}"`;
+  const doc = docComment(`${method.toUpperCase()} ${path} - ${operation.summary}`, 2);
+
+  if (parts.length === 0) {
+    return {
+      types: responseType(operation),
+      method: `${doc}${indent(2)}${operation.operationId}: (init?: RequestInit) =>\n${indent(3)}${call}, {}, init),\n`,
+    };
+  }
+
+  const fields = parts.map(
+    part => `${indent(1)}${part.key}${part.required ? "" : "?"}: ${part.type};\n`
+  );
+  const optional = parts.every(part => !part.required);
+
+  return {
+    types: `export interface ${name}Request {\n${fields.join("")}}\n\n${responseType(operation)}`,
+    method: `${doc}${indent(2)}${operation.operationId}: (request: ${name}Request${
+      optional ? " = {}" : ""
+    }, init?: RequestInit) =>\n${indent(3)}${call}, request, init),\n`,
+  };
+}
+
+/**
+ * Source of the typed client for an OpenAPI document
+ */
+export function generateApiClient(document: OpenApiDocument): string {
+  const components = Object.entries(document.components.schemas).map(([name, schema]) =>
+    componentType(name, schema)
+  );
+
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) =>
+      operationCode(method as HttpMethod, path, operation as OpenApiOperation)
+    )
+  );
+
+  return [
+    HEADER,
+    `export const API_VERSION = ${JSON.stringify(document.info.version)};\n`,
+    ...components,
+    ...operations.map(operation => operation.types),
+    `${RUNTIME}\n  return {\n${operations.map(operation => operation.method).join("")}  };\n}\n`,
+    "export type ApiClient = ReturnType<typeof createApiClient>;\n",
+  ].join("\n");
+}
@@ -0,0 +1,2315 @@
+/**
+ * Typed fetch client for the API routes, generated from /api/openapi.json by
+ * src/lib/api/client-generator.ts. Do not edit: run `pnpm api:client`.
+ *
+ * The module has no imports, so other frontends can copy or import it as is.
+ */
+
+export const API_VERSION = "0.1.0";
+
+export interface PublicUser {
+  id: string;
+  email: string;
+  name: string | null;
+  image: string | null;
+  username: string | null;
+  /** Account role */
+  role: string;
+  permissions?: Permission[];
+  permissionOverrides?: {
+    granted: Permission[];
+    revoked: Permission[];
+  };
+  /** Provider the account was created with */
+  provider: string | null;
+  providerId: string;
+  accounts?: Array<{
+    provider: string;
+    providerAccountId: string;
+    email: string | null;
+    emailVerified: boolean;
+    linkedAt: string;
+  }>;
+  externalId?: string | null;
+  isActive: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  metadata?: Record<string, unknown>;
+  workspaceId?: string;
+  /** Role in the active workspace */
+  workspaceRole?: string;
+}
+
+export type Permission = "CREATE_USER" | "READ_USER" | "UPDATE_USER" | "DELETE_USER" | "MANAGE_USER_ROLES" | "CREATE_CONTENT" | "READ_CONTENT" | "UPDATE_CONTENT" | "DELETE_CONTENT" | "PUBLISH_CONTENT" | "MANAGE_SYSTEM_SETTINGS" | "VIEW_SYSTEM_LOGS" | "MANAGE_INTEGRATIONS" | "VIEW_DASHBOARD" | "VIEW_ANALYTICS" | "EXPORT_DATA" | "JOIN_REALTIME_CHANNELS" | "MODERATE_REALTIME_CHANNELS" | "ACCESS_API" | "ADMIN_API_ACCESS";
+
+export interface UserPage {
+  users: PublicUser[];
+  /** Users matching the search and filters, across all pages */
+  total: number;
+  /** null on the last page */
+  nextCursor: string | null;
+}
+
+export interface AdminUserPage {
+  users: PublicUser[];
+  /** Users matching the search and filters, across all pages */
+  total: number;
+  /** null on the last page */
+  nextCursor: string | null;
+  /** Sign-in lockout ends, keyed by user id */
+  lockouts: Record<string, string>;
+}
+
+export interface UserUpdate {
+  name?: string | null;
+  username?: string | null;
+  image?: string | null;
+  /** Role in the active workspace */
+  role?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface UserConflict {
+  error: string;
+  user: PublicUser;
+}
+
+export interface UserRoleUpdate {
+  role: string;
+}
+
+export interface UserStatusUpdate {
+  isActive: boolean;
+}
+
+export interface AdminUserResult {
+  message: string;
+  user: PublicUser | null;
+}
+
+export interface AdminUserConflict {
+  message: string;
+  user: PublicUser;
+}
+
+export interface ProfileUpdate {
+  name: string;
+  username?: string | null;
+  image?: string | null;
+  email?: string;
+}
+
+export interface UpdatedProfile {
+  id: string;
+  name?: string | null;
+  username?: string | null;
+  email: string;
+  emailVerified?: boolean;
+  image?: string | null;
+  role: string;
+  updatedAt: string;
+}
+
+export interface AvatarChatRequest {
+  message: string;
+  conversationId?: string;
+}
+
+export interface TtsRequest {
+  text: string;
+  /** ISO 639-1 code, vi by default */
+  language?: string;
+  provider?: "auto" | "azure" | "huggingface" | "elevenlabs";
+  voiceId?: string;
+  /** Azure voice selection */
+  gender?: "male" | "female";
+  stability?: number;
+  similarityBoost?: number;
+  style?: number;
+  useSpeakerBoost?: boolean;
+}
+
+export interface MmsTtsRequest {
+  text: string;
+  /** ISO 639-1 code, vi by default */
+  language?: string;
+}
+
+export interface AvatarError {
+  error: string;
+  details?: string;
+  message?: string;
+  instructions?: string;
+}
+
+export interface ServiceStatus {
+  message: string;
+  endpoint: string;
+  [key: string]: unknown;
+}
+
+export interface Health {
+  status: "healthy";
+  timestamp: string;
+  service: string;
+  version: string;
+  environment: string;
+  /** Seconds since the server started */
+  uptime: number;
+  checks: Record<string, string>;
+}
+
+export interface ApiError {
+  error: string;
+}
+
+export interface ApiValidationError {
+  error: "Validation failed";
+  details: Array<{
+    path: Array<string | number>;
+    message: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface ApiMessage {
+  message: string;
+  details?: Array<{
+    message: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface Confirmation {
+  message: string;
+}
+
+export interface RateLimited {
+  error: "Too many requests";
+  /** Seconds until a request is allowed again */
+  retryAfter: number;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  lastSentAt: string;
+  acceptedAt?: string;
+  acceptedBy?: string;
+  revokedAt?: string;
+  status: "pending" | "accepted" | "expired" | "revoked";
+}
+
+export interface ReactivationRequest {
+  id: string;
+  userId: string;
+  /** At the time of the request */
+  email: string;
+  reason: string;
+  status: "pending" | "approved" | "denied";
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  /** Shown to the user */
+  decisionNote?: string | null;
+}
+
+export interface RoleGrant {
+  id: string;
+  userId: string;
+  /** At the time of the request */
+  email: string;
+  role: string;
+  /** Seconds, counted from activation */
+  duration: number;
+  justification: string;
+  status: "pending" | "active" | "denied" | "expired" | "revoked";
+  requestedBy: string;
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNote?: string | null;
+  previousRole?: string;
+  expiresAt?: string;
+  endedAt?: string;
+  endedBy?: string;
+}
+
+export interface RoleDefinition {
+  role: string;
+  label: string;
+  permissions: Permission[];
+  description: string;
+  /** Higher levels outrank lower ones */
+  level: number;
+  isDefault?: boolean;
+  /** Built-in roles cannot be deleted */
+  isSystem?: boolean;
+  requireTwoFactor?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  slug: string;
+  createdAt: string;
+  /** null for the built-in default workspace */
+  createdBy: string | null;
+}
+
+export interface WorkspaceMembership {
+  workspaceId: string;
+  userId: string;
+  role: string;
+  joinedAt: string;
+}
+
+export interface AccountDeletion {
+  id: string;
+  userId: string;
+  requestedAt: string;
+  scheduledFor: string;
+  cancelledAt?: string;
+  completedAt?: string;
+}
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  /** First characters of the token */
+  prefix: string;
+  scopes: Permission[];
+  createdAt: string;
+  /** null when the token never expires */
+  expiresAt: string | null;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  /** The user's email */
+  userName: string;
+  name?: {
+    formatted?: string;
+    givenName?: string;
+    familyName?: string;
+  };
+  displayName?: string;
+  emails: Array<{
+    value: string;
+    type?: string;
+    primary?: boolean;
+  }>;
+  active: boolean;
+  groups: Array<{
+    value: string;
+    display?: string;
+    $ref?: string;
+  }>;
+  meta: {
+    resourceType: "User" | "Group";
+    created?: string;
+    lastModified?: string;
+    location: string;
+  };
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members?: Array<{
+    value: string;
+    display?: string;
+    $ref?: string;
+  }>;
+  meta: {
+    resourceType: "User" | "Group";
+    created?: string;
+    lastModified?: string;
+    location: string;
+  };
+}
+
+export interface ScimError {
+  schemas: string[];
+  status: string;
+  scimType?: string;
+  detail: string;
+}
+
+export interface ListUsersRequest {
+  query?: {
+    /** Matches name, email and username */
+    search?: string;
+    role?: string;
+    provider?: string;
+    emailVerified?: "true" | "false";
+    isActive?: "true" | "false";
+    sortBy?: "name" | "email" | "createdAt" | "lastLoginAt";
+    sortOrder?: "asc" | "desc";
+    limit?: number;
+    /** nextCursor of the previous page */
+    cursor?: string;
+  };
+}
+
+export interface ListUsersResponses {
+  /** A page of users */
+  200: UserPage;
+  /** Invalid query or cursor */
+  400: ApiValidationError | ApiError;
+  /** Not signed in, or the token is invalid */
+  401: ApiError;
+  /** Missing permission or inactive account */
+  403: ApiError;
+  /** Too many requests from this caller */
+  429: RateLimited;
+}
+
+export interface GetUserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetUserResponses {
+  /** The user */
+  200: PublicUser;
+  /** Not signed in, or the token is invalid */
+  401: ApiError;
+  /** Missing permission or inactive account */
+  403: ApiError;
+  /** No such user in the workspace */
+  404: ApiError;
+}
+
+export interface UpdateUserRequest {
+  params: {
+    id: string;
+  };
+  headers?: {
+    /** ETag of the user the change was based on */
+    "If-Match"?: string;
+  };
+  body: UserUpdate;
+}
+
+export interface UpdateUserResponses {
+  /** The updated user */
+  200: PublicUser;
+  /** Invalid fields or role */
+  400: ApiValidationError;
+  /** Not signed in, or the token is invalid */
+  401: ApiError;
+  /** Missing permission or inactive account */
+  403: ApiError;
+  /** No such user in the workspace */
+  404: ApiError;
+  /** The user changed since the If-Match ETag */
+  412: UserConflict;
+}
+
+export interface DeleteUserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface DeleteUserResponses {
+  /** Deleted */
+  200: {
+    message: string;
+  };
+  /** Not signed in, or the token is invalid */
+  401: ApiError;
+  /** Missing permission or inactive account */
+  403: ApiError;
+  /** No such user in the workspace */
+  404: ApiError;
+}
+
+export interface ListAdminUsersRequest {
+  query?: {
+    /** Matches name, email and username */
+    search?: string;
+    role?: string;
+    provider?: string;
+    emailVerified?: "true" | "false";
+    isActive?: "true" | "false";
+    sortBy?: "name" | "email" | "createdAt" | "lastLoginAt";
+    sortOrder?: "asc" | "desc";
+    limit?: number;
+    /** nextCursor of the previous page */
+    cursor?: string;
+  };
+}
+
+export interface ListAdminUsersResponses {
+  /** A page of users */
+  200: AdminUserPage;
+  /** Invalid query or cursor */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface UpdateUserRoleRequest {
+  params: {
+    id: string;
+  };
+  headers?: {
+    /** ETag of the user the change was based on */
+    "If-Match"?: string;
+  };
+  body: UserRoleUpdate;
+}
+
+export interface UpdateUserRoleResponses {
+  /** Role changed */
+  200: AdminUserResult;
+  /** Unknown or temporary-only role */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+  /** The user holds a temporary role */
+  409: ApiMessage;
+  /** The user changed since the If-Match ETag */
+  412: AdminUserConflict;
+}
+
+export interface UpdateUserStatusRequest {
+  params: {
+    id: string;
+  };
+  headers?: {
+    /** ETag of the user the change was based on */
+    "If-Match"?: string;
+  };
+  body: UserStatusUpdate;
+}
+
+export interface UpdateUserStatusResponses {
+  /** Status changed */
+  200: AdminUserResult;
+  /** Invalid value, or deactivating yourself */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+  /** The user changed since the If-Match ETag */
+  412: AdminUserConflict;
+}
+
+export interface UpdateUserPermissionsRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    granted?: Permission[];
+    revoked?: Permission[];
+  };
+}
+
+export interface UpdateUserPermissionsResponses {
+  /** Overrides saved */
+  200: AdminUserResult;
+  /** Unknown permission, or granted and revoked */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+}
+
+export interface ExplainUserAccessRequest {
+  params: {
+    id: string;
+  };
+  query?: {
+    /** Path to explain, e.g. /admin */
+    path?: string;
+    /** Permission to explain */
+    permission?: Permission;
+    /** The user's default workspace when omitted */
+    workspaceId?: string;
+  };
+}
+
+export interface ExplainUserAccessResponses {
+  /** The explanation */
+  200: {
+    user: {
+      id: string;
+      email: string;
+      role: string;
+      isActive: boolean;
+      workspaceId?: string;
+      workspaceRole?: string;
+    };
+    /** With ?path= */
+    decision?: {
+      path: string;
+      matchedPattern: string | null;
+      access: string;
+      requiredPermissions: Permission[];
+      missingPermissions: Permission[];
+      allowed: boolean;
+      [key: string]: unknown;
+    };
+    /** With ?permission= */
+    permission?: {
+      permission: Permission;
+      granted: boolean;
+      effectiveRole: string;
+      fromRole: boolean;
+      override: "granted" | "revoked" | null;
+    };
+  };
+  /** Neither or both of path and permission */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+}
+
+export interface StartImpersonationRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    reason?: string;
+    /** Let state-changing requests through */
+    allowDestructive?: boolean;
+  };
+}
+
+export interface StartImpersonationResponses {
+  /** Impersonation started */
+  200: {
+    message: string;
+    impersonation: {
+      targetUserId: string;
+      startedAt: string;
+      expiresAt: string;
+      allowDestructive: boolean;
+      reason?: string;
+    };
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+  /** Already impersonating */
+  409: ApiMessage;
+}
+
+export interface RevokeUserSessionsRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface RevokeUserSessionsResponses {
+  /** Sessions revoked */
+  200: {
+    message: string;
+    count: number;
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+}
+
+export interface UnlockUserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface UnlockUserResponses {
+  /** Unlocked */
+  200: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+}
+
+export interface ExportUsersRequest {
+  query?: {
+    /** Matches name, email and username */
+    search?: string;
+    role?: string;
+    provider?: string;
+    emailVerified?: "true" | "false";
+    isActive?: "true" | "false";
+    sortBy?: "name" | "email" | "createdAt" | "lastLoginAt";
+    sortOrder?: "asc" | "desc";
+    /** csv by default */
+    format?: "csv" | "json";
+  };
+}
+
+export interface ExportUsersResponses {
+  /** CSV, or JSON with format=json, as an attachment */
+  200: Response;
+  /** Invalid format or query */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface ImportUsersRequest {
+  body: {
+    format: "csv" | "json";
+    /** The file's text */
+    content: string;
+    /** true by default: report changes without writing */
+    dryRun?: boolean;
+  };
+}
+
+export interface ImportUsersResponses {
+  /** What changed, or would change */
+  200: {
+    dryRun: boolean;
+    rows: Array<{
+      row: number;
+      email: string;
+      action: "create" | "update" | "unchanged" | "error";
+      errors: string[];
+      userId?: string;
+      [key: string]: unknown;
+    }>;
+    summary: {
+      create: number;
+      update: number;
+      unchanged: number;
+      error: number;
+    };
+  };
+  /** Invalid format, or the file cannot be read */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface ListRolesResponses {
+  /** The roles */
+  200: {
+    roles: RoleDefinition[];
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface CreateRoleRequest {
+  body: {
+    /** 2-32 uppercase letters, digits or underscores */
+    role: string;
+    label: string;
+    description?: string;
+    level: number;
+    permissions: Permission[];
+    requireTwoFactor?: boolean;
+  };
+}
+
+export interface CreateRoleResponses {
+  /** Role created */
+  201: {
+    message: string;
+    role: RoleDefinition;
+  };
+  /** Invalid fields */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** The role already exists */
+  409: ApiMessage;
+}
+
+export interface UpdateRoleRequest {
+  params: {
+    role: string;
+  };
+  body: {
+    label?: string;
+    description?: string;
+    level?: number;
+    permissions?: Permission[];
+    requireTwoFactor?: boolean;
+  };
+}
+
+export interface UpdateRoleResponses {
+  /** Role updated */
+  200: {
+    message: string;
+    role: RoleDefinition;
+  };
+  /** Invalid fields */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such role */
+  404: ApiMessage;
+}
+
+export interface DeleteRoleRequest {
+  params: {
+    role: string;
+  };
+}
+
+export interface DeleteRoleResponses {
+  /** Role deleted */
+  200: ApiMessage;
+  /** Built-in roles cannot be deleted */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such role */
+  404: ApiMessage;
+  /** The role is still assigned */
+  409: ApiMessage;
+}
+
+export interface ListInvitationsResponses {
+  /** The invitations */
+  200: {
+    invitations: Invitation[];
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface CreateInvitationRequest {
+  body: {
+    email: string;
+    role: string;
+    /** One of 1, 7, 30; 7 by default */
+    expiresInDays?: number;
+  };
+}
+
+export interface CreateInvitationResponses {
+  /** Invitation created and emailed */
+  201: {
+    invitation: Invitation;
+    inviteUrl: string;
+    /** false when the email could not be sent */
+    delivered: boolean;
+  };
+  /** Invalid email, role or expiry */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** The email is already invited or registered */
+  409: ApiMessage;
+}
+
+export interface RevokeInvitationRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface RevokeInvitationResponses {
+  /** Invitation revoked */
+  200: {
+    invitation: Invitation;
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such pending invitation */
+  404: ApiMessage;
+}
+
+export interface ResendInvitationRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface ResendInvitationResponses {
+  /** Invitation resent */
+  200: {
+    invitation: Invitation;
+    inviteUrl: string;
+    /** false when the email could not be sent */
+    delivered: boolean;
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** The invitation cannot be resent */
+  404: ApiMessage;
+}
+
+export interface ListReactivationRequestsRequest {
+  query?: {
+    status?: "pending" | "approved" | "denied";
+  };
+}
+
+export interface ListReactivationRequestsResponses {
+  /** The requests */
+  200: {
+    requests: ReactivationRequest[];
+  };
+  /** Invalid status filter */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface DecideReactivationRequestRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    decision: "approve" | "deny";
+    /** Shown to the user */
+    note?: string | null;
+  };
+}
+
+export interface DecideReactivationRequestResponses {
+  /** Request decided */
+  200: {
+    request: ReactivationRequest;
+    notified: boolean;
+  };
+  /** Invalid decision or note */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such pending request */
+  404: ApiMessage;
+}
+
+export interface ListRoleGrantsRequest {
+  query?: {
+    status?: "pending" | "active" | "denied" | "expired" | "revoked";
+  };
+}
+
+export interface ListRoleGrantsResponses {
+  /** The grants */
+  200: {
+    grants: RoleGrant[];
+  };
+  /** Invalid status filter */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface GrantTemporaryRoleRequest {
+  body: {
+    userId: string;
+    role: string;
+    /** Seconds */
+    duration: number;
+    justification: string;
+  };
+}
+
+export interface GrantTemporaryRoleResponses {
+  /** Role granted */
+  201: {
+    grant: RoleGrant;
+  };
+  /** Invalid fields, or the user already has the role */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such user */
+  404: ApiMessage;
+  /** The user already holds a temporary role */
+  409: ApiMessage;
+}
+
+export interface DecideRoleGrantRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    decision: "approve" | "deny";
+    /** Shown to the user */
+    note?: string | null;
+  };
+}
+
+export interface DecideRoleGrantResponses {
+  /** Request decided */
+  200: {
+    grant: RoleGrant;
+  };
+  /** Invalid decision or note */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such pending request */
+  404: ApiMessage;
+}
+
+export interface RevokeRoleGrantRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface RevokeRoleGrantResponses {
+  /** Grant revoked */
+  200: {
+    grant: RoleGrant;
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such active grant */
+  404: ApiMessage;
+}
+
+export interface ListWorkspacesResponses {
+  /** The workspaces */
+  200: {
+    workspaces: Array<{
+      id: string;
+      name: string;
+      slug: string;
+      createdAt: string;
+      /** null for the built-in default workspace */
+      createdBy: string | null;
+      memberCount: number;
+    }>;
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+}
+
+export interface CreateWorkspaceRequest {
+  body: {
+    name: string;
+  };
+}
+
+export interface CreateWorkspaceResponses {
+  /** Workspace created */
+  201: {
+    workspace: Workspace;
+  };
+  /** Invalid name */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** The name is taken */
+  409: ApiMessage;
+}
+
+export interface ListWorkspaceMembersRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface ListWorkspaceMembersResponses {
+  /** The members */
+  200: {
+    members: Array<{
+      workspaceId: string;
+      userId: string;
+      role: string;
+      joinedAt: string;
+      email: string | null;
+      name: string | null;
+    }>;
+  };
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such workspace */
+  404: ApiMessage;
+}
+
+export interface SetWorkspaceMemberRequest {
+  params: {
+    id: string;
+    userId: string;
+  };
+  body: {
+    role: string;
+  };
+}
+
+export interface SetWorkspaceMemberResponses {
+  /** Role changed */
+  200: {
+    membership: WorkspaceMembership;
+  };
+  /** Member added */
+  201: {
+    membership: WorkspaceMembership;
+  };
+  /** Invalid role */
+  400: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such workspace or user */
+  404: ApiMessage;
+}
+
+export interface RemoveWorkspaceMemberRequest {
+  params: {
+    id: string;
+    userId: string;
+  };
+}
+
+export interface RemoveWorkspaceMemberResponses {
+  /** Member removed */
+  200: ApiMessage;
+  /** Not signed in */
+  401: ApiMessage;
+  /** Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES */
+  403: ApiMessage;
+  /** No such member */
+  404: ApiMessage;
+  /** The user's last workspace */
+  409: ApiMessage;
+}
+
+export interface UpdateProfileRequest {
+  body: ProfileUpdate;
+}
+
+export interface UpdateProfileResponses {
+  /** The updated profile */
+  200: UpdatedProfile;
+  /** Invalid fields */
+  400: ApiValidationError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** The email belongs to another account */
+  409: ApiError;
+}
+
+export interface ListLinkedAccountsResponses {
+  /** Linked providers */
+  200: {
+    accounts: Array<{
+      provider: string;
+      email: string | null;
+      linkedAt: string;
+    }>;
+    hasPassword: boolean;
+    /** Providers that can be connected */
+    providers: string[];
+  };
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+}
+
+export interface ConnectProviderRequest {
+  body: {
+    provider: "github" | "google" | "discord";
+  };
+}
+
+export interface ConnectProviderResponses {
+  /** Ready to sign in with the provider */
+  200: {
+    provider: "github" | "google" | "discord";
+  };
+  /** Invalid fields */
+  400: ApiValidationError;
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface DisconnectProviderRequest {
+  params: {
+    provider: string;
+  };
+}
+
+export interface DisconnectProviderResponses {
+  /** Provider unlinked */
+  200: Confirmation;
+  /** Not signed in */
+  401: ApiError;
+  /** No such account, or the provider is not linked */
+  404: ApiError;
+  /** Your last way to sign in */
+  409: ApiError;
+}
+
+export interface ExportMyDataRequest {
+  query?: {
+    /** json by default */
+    format?: "json" | "zip";
+  };
+}
+
+export interface ExportMyDataResponses {
+  /** JSON, or a ZIP archive with format=zip, as an attachment */
+  200: Response;
+  /** Invalid format */
+  400: ApiError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+}
+
+export interface GetAccountDeletionResponses {
+  /** The pending deletion, or null */
+  200: {
+    deletion: AccountDeletion | null;
+  };
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface RequestAccountDeletionRequest {
+  body: {
+    confirmEmail: string;
+  };
+}
+
+export interface RequestAccountDeletionResponses {
+  /** Deletion scheduled */
+  201: {
+    deletion: AccountDeletion;
+  };
+  /** Invalid fields, or the email does not match */
+  400: ApiValidationError | ApiError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** A deletion is already scheduled */
+  409: ApiError;
+}
+
+export interface CancelAccountDeletionResponses {
+  /** Deletion cancelled */
+  200: {
+    deletion: AccountDeletion;
+  };
+  /** Not signed in */
+  401: ApiError;
+  /** No deletion is scheduled */
+  404: ApiError;
+}
+
+export interface ListMyRoleGrantsResponses {
+  /** Your grants */
+  200: {
+    grants: RoleGrant[];
+  };
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface RequestRoleGrantRequest {
+  body: {
+    role: string;
+    /** Seconds */
+    duration: number;
+    justification: string;
+  };
+}
+
+export interface RequestRoleGrantResponses {
+  /** Request submitted */
+  201: {
+    grant: RoleGrant;
+  };
+  /** Invalid fields or role, or you already have the role */
+  400: ApiValidationError | ApiError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** A request or grant is already open */
+  409: ApiError;
+}
+
+export interface ListMySessionsResponses {
+  /** Your sessions */
+  200: {
+    sessions: Array<{
+      id: string;
+      userAgent: string | null;
+      ipAddress: string | null;
+      createdAt: string;
+      lastSeenAt: string;
+      expiresAt: string;
+      /** The session making the request */
+      current: boolean;
+    }>;
+  };
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface RevokeOtherSessionsResponses {
+  /** Sessions revoked */
+  200: {
+    message: string;
+    count: number;
+  };
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface RevokeMySessionRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface RevokeMySessionResponses {
+  /** Session revoked */
+  200: Confirmation;
+  /** Not signed in */
+  401: ApiError;
+  /** No such session of yours */
+  404: ApiError;
+}
+
+export interface ListApiTokensResponses {
+  /** Your tokens and the scopes you can give new ones */
+  200: {
+    tokens: ApiToken[];
+    /** Empty without ACCESS_API; otherwise your permissions */
+    availableScopes: Permission[];
+  };
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface CreateApiTokenRequest {
+  body: {
+    name: string;
+    scopes: Permission[];
+    /** One of 7, 30, 90, 365, or null for no expiry */
+    expiresInDays: number | null;
+  };
+}
+
+export interface CreateApiTokenResponses {
+  /** Token created */
+  201: {
+    token: string;
+    apiToken: ApiToken;
+  };
+  /** Invalid fields, or scopes you do not hold */
+  400: ApiValidationError | ApiError;
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface RevokeApiTokenRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface RevokeApiTokenResponses {
+  /** Token revoked */
+  200: Confirmation;
+  /** Not signed in */
+  401: ApiError;
+  /** No such token of yours */
+  404: ApiError;
+}
+
+export interface GetTwoFactorStatusResponses {
+  /** Two-factor status */
+  200: {
+    enabled: boolean;
+    /** The user's role requires two-factor authentication */
+    required: boolean;
+    recoveryCodesRemaining: number;
+  };
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+}
+
+export interface StartTwoFactorEnrollmentResponses {
+  /** The secret to add to the app */
+  200: {
+    secret: string;
+    otpauthUri: string;
+    /** PNG data URL of the otpauth URI */
+    qrCode: string;
+  };
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** Two-factor authentication is already on */
+  409: ApiError;
+}
+
+export interface DisableTwoFactorRequest {
+  body: {
+    code: string;
+  };
+}
+
+export interface DisableTwoFactorResponses {
+  /** Two-factor authentication off */
+  200: Confirmation;
+  /** Invalid fields or code */
+  400: ApiValidationError | ApiError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** Your role requires two-factor authentication */
+  409: ApiError;
+}
+
+export interface VerifyTwoFactorEnrollmentRequest {
+  body: {
+    code: string;
+  };
+}
+
+export interface VerifyTwoFactorEnrollmentResponses {
+  /** Two-factor authentication on */
+  200: {
+    recoveryCodes: string[];
+  };
+  /** Invalid fields or code */
+  400: ApiValidationError | ApiError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+}
+
+export interface ListMyWorkspacesResponses {
+  /** Your workspaces */
+  200: {
+    workspaces: Array<{
+      id: string;
+      name: string;
+      slug: string;
+      /** The user's role in the workspace */
+      role: string;
+    }>;
+    activeWorkspaceId: string | null;
+  };
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+}
+
+export interface SwitchWorkspaceRequest {
+  body: {
+    workspaceId: string;
+  };
+}
+
+export interface SwitchWorkspaceResponses {
+  /** Workspace switched */
+  200: {
+    workspaceId: string;
+    role: string;
+  };
+  /** Invalid fields */
+  400: ApiValidationError;
+  /** Not signed in */
+  401: ApiError;
+  /** No such account, or not a member */
+  404: ApiError;
+}
+
+export interface SignUpRequest {
+  body: {
+    name: string;
+    email: string;
+    password: string;
+    /** From an invitation accept link */
+    inviteToken?: string;
+  };
+}
+
+export interface SignUpResponses {
+  /** Account created */
+  201: {
+    user: PublicUser;
+    verificationRequired: boolean;
+  };
+  /** Invalid fields, weak password or invalid invitation */
+  400: ApiValidationError | {
+    error: "Password does not meet requirements";
+    details: string[];
+  } | ApiError;
+  /** The email is already registered */
+  409: ApiError;
+}
+
+export interface RequestPasswordResetRequest {
+  body: {
+    email: string;
+  };
+}
+
+export interface RequestPasswordResetResponses {
+  /** A link was sent if the account exists */
+  200: Confirmation;
+  /** Invalid fields */
+  400: ApiValidationError;
+}
+
+export interface ResetPasswordRequest {
+  body: {
+    token: string;
+    password: string;
+  };
+}
+
+export interface ResetPasswordResponses {
+  /** Password reset */
+  200: Confirmation;
+  /** Invalid fields, weak password, or an invalid or expired token */
+  400: ApiValidationError | {
+    error: "Password does not meet requirements";
+    details: string[];
+  } | ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+}
+
+export interface VerifyEmailRequest {
+  body: {
+    token: string;
+  };
+}
+
+export interface VerifyEmailResponses {
+  /** Email verified */
+  200: {
+    message: string;
+    email: string;
+  };
+  /** Invalid fields, or an invalid or expired token */
+  400: ApiValidationError | ApiError;
+}
+
+export interface ResendVerificationEmailResponses {
+  /** Link sent */
+  200: Confirmation;
+  /** Your email is already verified */
+  400: ApiError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** A link was sent recently */
+  429: ApiError;
+  /** The email could not be sent */
+  500: ApiError;
+}
+
+export interface AcceptInvitationRequest {
+  body: {
+    token: string;
+  };
+}
+
+export interface AcceptInvitationResponses {
+  /** Invitation ready */
+  200: Confirmation;
+  /** Invalid fields, or an invalid or expired invitation */
+  400: ApiValidationError | ApiError;
+}
+
+export interface RequestReactivationRequest {
+  body: {
+    reason: string;
+  };
+}
+
+export interface RequestReactivationResponses {
+  /** Request submitted */
+  201: {
+    request: ReactivationRequest;
+  };
+  /** Invalid fields */
+  400: ApiValidationError;
+  /** Not signed in */
+  401: ApiError;
+  /** The account no longer exists */
+  404: ApiError;
+  /** Already active, or a request is pending */
+  409: ApiError;
+}
+
+export interface StopImpersonationResponses {
+  /** Impersonation stopped */
+  200: Confirmation;
+  /** Not impersonating */
+  400: ApiError;
+  /** Not signed in */
+  401: ApiError;
+}
+
+export interface ListScimUsersRequest {
+  query?: {
+    /** e.g. userName eq "ada@example.com" */
+    filter?: string;
+    startIndex?: number;
+    count?: number;
+  };
+}
+
+export interface ListScimUsersResponses {
+  /** A page of users */
+  200: {
+    schemas: string[];
+    totalResults: number;
+    startIndex: number;
+    itemsPerPage: number;
+    Resources: ScimUser[];
+  };
+  /** Unsupported filter */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+}
+
+export interface CreateScimUserRequest {
+  body: {
+    /** The user's email */
+    userName: string;
+    displayName?: string;
+    name?: {
+      formatted?: string;
+      [key: string]: unknown;
+    };
+    externalId?: string;
+    /** Omit to keep the current status */
+    active?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+export interface CreateScimUserResponses {
+  /** User created */
+  201: ScimUser;
+  /** Invalid user */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** The userName is taken */
+  409: ScimError;
+}
+
+export interface GetScimUserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetScimUserResponses {
+  /** The user */
+  200: ScimUser;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such user */
+  404: ScimError;
+}
+
+export interface ReplaceScimUserRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    /** The user's email */
+    userName: string;
+    displayName?: string;
+    name?: {
+      formatted?: string;
+      [key: string]: unknown;
+    };
+    externalId?: string;
+    /** Omit to keep the current status */
+    active?: boolean;
+    [key: string]: unknown;
+  };
+}
+
+export interface ReplaceScimUserResponses {
+  /** The updated user */
+  200: ScimUser;
+  /** Invalid user */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such user */
+  404: ScimError;
+  /** The userName is taken */
+  409: ScimError;
+}
+
+export interface PatchScimUserRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    schemas: string[];
+    Operations: Array<{
+      /** add, replace or remove */
+      op: string;
+      path?: string;
+      value?: unknown;
+    }>;
+  };
+}
+
+export interface PatchScimUserResponses {
+  /** The updated user */
+  200: ScimUser;
+  /** Invalid operation */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such user */
+  404: ScimError;
+  /** The userName is taken */
+  409: ScimError;
+}
+
+export interface DeprovisionScimUserRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface DeprovisionScimUserResponses {
+  /** User deprovisioned */
+  204: null;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such user */
+  404: ScimError;
+}
+
+export interface ListScimGroupsRequest {
+  query?: {
+    /** e.g. userName eq "ada@example.com" */
+    filter?: string;
+    startIndex?: number;
+    count?: number;
+    /** members leaves out the member lists */
+    excludedAttributes?: string;
+  };
+}
+
+export interface ListScimGroupsResponses {
+  /** A page of groups */
+  200: {
+    schemas: string[];
+    totalResults: number;
+    startIndex: number;
+    itemsPerPage: number;
+    Resources: ScimGroup[];
+  };
+  /** Unsupported filter */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+}
+
+export interface GetScimGroupRequest {
+  params: {
+    id: string;
+  };
+}
+
+export interface GetScimGroupResponses {
+  /** The group */
+  200: ScimGroup;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such group */
+  404: ScimError;
+}
+
+export interface ReplaceScimGroupRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    members: Array<{
+      value: string;
+    }>;
+    [key: string]: unknown;
+  };
+}
+
+export interface ReplaceScimGroupResponses {
+  /** The updated group */
+  200: ScimGroup;
+  /** Invalid or unknown members, or a temporary-only role */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such group */
+  404: ScimError;
+  /** A member holds a temporary role */
+  409: ScimError;
+}
+
+export interface PatchScimGroupRequest {
+  params: {
+    id: string;
+  };
+  body: {
+    schemas: string[];
+    Operations: Array<{
+      /** add, replace or remove */
+      op: string;
+      path?: string;
+      value?: unknown;
+    }>;
+  };
+}
+
+export interface PatchScimGroupResponses {
+  /** The updated group */
+  200: ScimGroup;
+  /** Invalid operation, unknown members, or a temporary-only role */
+  400: ScimError;
+  /** Missing or wrong SCIM bearer token */
+  401: ScimError;
+  /** No such group */
+  404: ScimError;
+  /** A member holds a temporary role */
+  409: ScimError;
+}
+
+export interface SendAvatarMessageRequest {
+  body: AvatarChatRequest;
+}
+
+export interface SendAvatarMessageResponses {
+  /** Server-sent events from the chat model */
+  200: Response;
+  /** Empty message */
+  400: AvatarError;
+  /** Too many requests from this caller */
+  429: RateLimited;
+  /** The chat model is unavailable */
+  500: AvatarError;
+}
+
+export interface GetAvatarChatStatusResponses {
+  /** Endpoint status */
+  200: ServiceStatus;
+}
+
+export interface SynthesizeSpeechRequest {
+  body: TtsRequest;
+}
+
+export interface SynthesizeSpeechResponses {
+  /** Synthesized speech */
+  200: Response;
+  /** Empty text or invalid settings */
+  400: AvatarError;
+  /** Too many requests from this caller */
+  429: RateLimited;
+  /** Every provider failed */
+  503: AvatarError;
+}
+
+export interface GetSpeechStatusResponses {
+  /** Provider status */
+  200: ServiceStatus;
+}
+
+export interface SynthesizeMmsSpeechRequest {
+  body: MmsTtsRequest;
+}
+
+export interface SynthesizeMmsSpeechResponses {
+  /** Synthesized speech */
+  200: Response;
+  /** Empty text */
+  400: AvatarError;
+  /** Too many requests from this caller */
+  429: RateLimited;
+  /** MMS-TTS is not configured */
+  500: AvatarError;
+}
+
+export interface GetMmsSpeechStatusResponses {
+  /** Endpoint status */
+  200: ServiceStatus;
+}
+
+export interface GetHealthResponses {
+  /** The service is up */
+  200: Health;
+}
+
+export interface CheckHealthResponses {
+  /** The service is up */
+  200: null;
+}
+
+export interface GetOpenApiDocumentResponses {
+  /** OpenAPI 3.1 document */
+  200: Record<string, unknown>;
+}
+
+export interface RunAccountDeletionsResponses {
+  /** Deletions run */
+  200: {
+    /** Accounts deleted in this run */
+    deleted: number;
+  };
+  /** Missing or wrong CRON_SECRET */
+  401: ApiError;
+}
+
+export interface ApiClientOptions {
+  // Origin of the API; relative URLs are used when omitted
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  // Sent with every request
+  headers?: Record<string, string>;
+  // Personal access token, sent as a bearer token
+  token?: string;
+  // Defaults to "same-origin", which sends the session cookie
+  credentials?: RequestCredentials;
+}
+
+/**
+ * A response of one of the statuses the operation documents. JSON bodies are
+ * parsed; other bodies are left on the raw Response.
+ */
+export type ApiResponse<TResponses> = {
+  [TStatus in keyof TResponses]: {
+    status: TStatus;
+    ok: boolean;
+    data: TResponses[TStatus];
+    headers: Headers;
+    response: Response;
+  };
+}[keyof TResponses];
+
+// application/json and structured types such as application/scim+json
+function isJson(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+interface OperationRequest {
+  params?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string | undefined>;
+  body?: unknown;
+}
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  const fetchImpl = options.fetch ?? fetch;
+  const baseUrl = (options.baseUrl ?? "").replace(/\/$/, "");
+
+  async function send<TResponses>(
+    method: string,
+    path: string,
+    request: OperationRequest = {},
+    init: RequestInit = {}
+  ): Promise<ApiResponse<TResponses>> {
+    const url = path.replace(/\{(\w+)\}/g, (_, name: string) =>
+      encodeURIComponent(request.params?.[name] ?? "")
+    );
+
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) {
+        search.set(name, String(value));
+      }
+    }
+    const query = search.toString();
+
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (value !== undefined) {
+        headers[name] = value;
+      }
+    }
+    if (request.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await fetchImpl(`${baseUrl}${url}${query ? `?${query}` : ""}`, {
+      credentials: options.credentials ?? "same-origin",
+      ...init,
+      method,
+      headers: { ...headers, ...(init.headers as Record<string, string> | undefined) },
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    });
+
+    const mediaType = response.headers.get("content-type")?.split(";")[0]?.trim() ?? "";
+    let data: unknown = response;
+    if (method === "HEAD" || response.status === 204) {
+      data = null;
+    } else if (isJson(mediaType)) {
+      data = await response.json();
+    }
+
+    return {
+      status: response.status,
+      ok: response.ok,
+      data,
+      headers: response.headers,
+      response,
+    } as ApiResponse<TResponses>;
+  }
+
+  return {
+    /** GET /api/users - Search the active workspace's users, one page at a time */
+    listUsers: (request: ListUsersRequest = {}, init?: RequestInit) =>
+      send<ListUsersResponses>("GET", "/api/users", request, init),
+    /** GET /api/users/{id} - Get a user of the active workspace */
+    getUser: (request: GetUserRequest, init?: RequestInit) =>
+      send<GetUserResponses>("GET", "/api/users/{id}", request, init),
+    /** PATCH /api/users/{id} - Update a user */
+    updateUser: (request: UpdateUserRequest, init?: RequestInit) =>
+      send<UpdateUserResponses>("PATCH", "/api/users/{id}", request, init),
+    /** DELETE /api/users/{id} - Delete a user */
+    deleteUser: (request: DeleteUserRequest, init?: RequestInit) =>
+      send<DeleteUserResponses>("DELETE", "/api/users/{id}", request, init),
+    /** GET /api/admin/users - Search all users, with their sign-in lockouts */
+    listAdminUsers: (request: ListAdminUsersRequest = {}, init?: RequestInit) =>
+      send<ListAdminUsersResponses>("GET", "/api/admin/users", request, init),
+    /** PATCH /api/admin/users/{id}/role - Change a user's account role */
+    updateUserRole: (request: UpdateUserRoleRequest, init?: RequestInit) =>
+      send<UpdateUserRoleResponses>("PATCH", "/api/admin/users/{id}/role", request, init),
+    /** PATCH /api/admin/users/{id}/status - Activate or deactivate a user */
+    updateUserStatus: (request: UpdateUserStatusRequest, init?: RequestInit) =>
+      send<UpdateUserStatusResponses>("PATCH", "/api/admin/users/{id}/status", request, init),
+    /** PATCH /api/admin/users/{id}/permissions - Grant or revoke permissions on top of a user's role */
+    updateUserPermissions: (request: UpdateUserPermissionsRequest, init?: RequestInit) =>
+      send<UpdateUserPermissionsResponses>("PATCH", "/api/admin/users/{id}/permissions", request, init),
+    /** GET /api/admin/users/{id}/access - Explain why a user can or cannot open a path or hold a permission */
+    explainUserAccess: (request: ExplainUserAccessRequest, init?: RequestInit) =>
+      send<ExplainUserAccessResponses>("GET", "/api/admin/users/{id}/access", request, init),
+    /** POST /api/admin/users/{id}/impersonate - View the app as another user */
+    startImpersonation: (request: StartImpersonationRequest, init?: RequestInit) =>
+      send<StartImpersonationResponses>("POST", "/api/admin/users/{id}/impersonate", request, init),
+    /** DELETE /api/admin/users/{id}/sessions - Sign a user out of every session */
+    revokeUserSessions: (request: RevokeUserSessionsRequest, init?: RequestInit) =>
+      send<RevokeUserSessionsResponses>("DELETE", "/api/admin/users/{id}/sessions", request, init),
+    /** POST /api/admin/users/{id}/unlock - Clear a sign-in lockout after failed logins */
+    unlockUser: (request: UnlockUserRequest, init?: RequestInit) =>
+      send<UnlockUserResponses>("POST", "/api/admin/users/{id}/unlock", request, init),
+    /** GET /api/admin/users/export - Download users in the import file format */
+    exportUsers: (request: ExportUsersRequest = {}, init?: RequestInit) =>
+      send<ExportUsersResponses>("GET", "/api/admin/users/export", request, init),
+    /** POST /api/admin/users/import - Create and update users from a CSV or JSON file */
+    importUsers: (request: ImportUsersRequest, init?: RequestInit) =>
+      send<ImportUsersResponses>("POST", "/api/admin/users/import", request, init),
+    /** GET /api/admin/roles - List roles, highest level first */
+    listRoles: (init?: RequestInit) =>
+      send<ListRolesResponses>("GET", "/api/admin/roles", {}, init),
+    /** POST /api/admin/roles - Create a custom role */
+    createRole: (request: CreateRoleRequest, init?: RequestInit) =>
+      send<CreateRoleResponses>("POST", "/api/admin/roles", request, init),
+    /** PATCH /api/admin/roles/{role} - Change a role's label, level, permissions or two-factor requirement */
+    updateRole: (request: UpdateRoleRequest, init?: RequestInit) =>
+      send<UpdateRoleResponses>("PATCH", "/api/admin/roles/{role}", request, init),
+    /** DELETE /api/admin/roles/{role} - Delete a custom role */
+    deleteRole: (request: DeleteRoleRequest, init?: RequestInit) =>
+      send<DeleteRoleResponses>("DELETE", "/api/admin/roles/{role}", request, init),
+    /** GET /api/admin/invitations - List invitations */
+    listInvitations: (init?: RequestInit) =>
+      send<ListInvitationsResponses>("GET", "/api/admin/invitations", {}, init),
+    /** POST /api/admin/invitations - Invite an email address with a preassigned role */
+    createInvitation: (request: CreateInvitationRequest, init?: RequestInit) =>
+      send<CreateInvitationResponses>("POST", "/api/admin/invitations", request, init),
+    /** DELETE /api/admin/invitations/{id} - Revoke a pending invitation */
+    revokeInvitation: (request: RevokeInvitationRequest, init?: RequestInit) =>
+      send<RevokeInvitationResponses>("DELETE", "/api/admin/invitations/{id}", request, init),
+    /** POST /api/admin/invitations/{id}/resend - Send a fresh accept link */
+    resendInvitation: (request: ResendInvitationRequest, init?: RequestInit) =>
+      send<ResendInvitationResponses>("POST", "/api/admin/invitations/{id}/resend", request, init),
+    /** GET /api/admin/reactivation-requests - List reactivation requests, newest first */
+    listReactivationRequests: (request: ListReactivationRequestsRequest = {}, init?: RequestInit) =>
+      send<ListReactivationRequestsResponses>("GET", "/api/admin/reactivation-requests", request, init),
+    /** PATCH /api/admin/reactivation-requests/{id} - Approve or deny a reactivation request */
+    decideReactivationRequest: (request: DecideReactivationRequestRequest, init?: RequestInit) =>
+      send<DecideReactivationRequestResponses>("PATCH", "/api/admin/reactivation-requests/{id}", request, init),
+    /** GET /api/admin/role-grants - List temporary role requests and grants, newest first */
+    listRoleGrants: (request: ListRoleGrantsRequest = {}, init?: RequestInit) =>
+      send<ListRoleGrantsResponses>("GET", "/api/admin/role-grants", request, init),
+    /** POST /api/admin/role-grants - Give a user a role for a limited time */
+    grantTemporaryRole: (request: GrantTemporaryRoleRequest, init?: RequestInit) =>
+      send<GrantTemporaryRoleResponses>("POST", "/api/admin/role-grants", request, init),
+    /** PATCH /api/admin/role-grants/{id} - Approve or deny a temporary role request */
+    decideRoleGrant: (request: DecideRoleGrantRequest, init?: RequestInit) =>
+      send<DecideRoleGrantResponses>("PATCH", "/api/admin/role-grants/{id}", request, init),
+    /** DELETE /api/admin/role-grants/{id} - End an active grant early and revert the user's role */
+    revokeRoleGrant: (request: RevokeRoleGrantRequest, init?: RequestInit) =>
+      send<RevokeRoleGrantResponses>("DELETE", "/api/admin/role-grants/{id}", request, init),
+    /** GET /api/admin/workspaces - List workspaces with their explicit member counts */
+    listWorkspaces: (init?: RequestInit) =>
+      send<ListWorkspacesResponses>("GET", "/api/admin/workspaces", {}, init),
+    /** POST /api/admin/workspaces - Create a workspace */
+    createWorkspace: (request: CreateWorkspaceRequest, init?: RequestInit) =>
+      send<CreateWorkspaceResponses>("POST", "/api/admin/workspaces", request, init),
+    /** GET /api/admin/workspaces/{id}/members - List a workspace's explicit members */
+    listWorkspaceMembers: (request: ListWorkspaceMembersRequest, init?: RequestInit) =>
+      send<ListWorkspaceMembersResponses>("GET", "/api/admin/workspaces/{id}/members", request, init),
+    /** PUT /api/admin/workspaces/{id}/members/{userId} - Add a user to a workspace, or change their role there */
+    setWorkspaceMember: (request: SetWorkspaceMemberRequest, init?: RequestInit) =>
+      send<SetWorkspaceMemberResponses>("PUT", "/api/admin/workspaces/{id}/members/{userId}", request, init),
+    /** DELETE /api/admin/workspaces/{id}/members/{userId} - Remove a user from a workspace */
+    removeWorkspaceMember: (request: RemoveWorkspaceMemberRequest, init?: RequestInit) =>
+      send<RemoveWorkspaceMemberResponses>("DELETE", "/api/admin/workspaces/{id}/members/{userId}", request, init),
+    /** PATCH /api/user/profile - Update your own profile */
+    updateProfile: (request: UpdateProfileRequest, init?: RequestInit) =>
+      send<UpdateProfileResponses>("PATCH", "/api/user/profile", request, init),
+    /** GET /api/user/accounts - List the sign-in providers linked to your account */
+    listLinkedAccounts: (init?: RequestInit) =>
+      send<ListLinkedAccountsResponses>("GET", "/api/user/accounts", {}, init),
+    /** POST /api/user/accounts - Start linking a sign-in provider */
+    connectProvider: (request: ConnectProviderRequest, init?: RequestInit) =>
+      send<ConnectProviderResponses>("POST", "/api/user/accounts", request, init),
+    /** DELETE /api/user/accounts/{provider} - Unlink a sign-in provider */
+    disconnectProvider: (request: DisconnectProviderRequest, init?: RequestInit) =>
+      send<DisconnectProviderResponses>("DELETE", "/api/user/accounts/{provider}", request, init),
+    /** GET /api/user/data-export - Download everything stored about you */
+    exportMyData: (request: ExportMyDataRequest = {}, init?: RequestInit) =>
+      send<ExportMyDataResponses>("GET", "/api/user/data-export", request, init),
+    /** GET /api/user/deletion - Get your scheduled account deletion */
+    getAccountDeletion: (init?: RequestInit) =>
+      send<GetAccountDeletionResponses>("GET", "/api/user/deletion", {}, init),
+    /** POST /api/user/deletion - Schedule your account for deletion */
+    requestAccountDeletion: (request: RequestAccountDeletionRequest, init?: RequestInit) =>
+      send<RequestAccountDeletionResponses>("POST", "/api/user/deletion", request, init),
+    /** DELETE /api/user/deletion - Cancel your scheduled account deletion */
+    cancelAccountDeletion: (init?: RequestInit) =>
+      send<CancelAccountDeletionResponses>("DELETE", "/api/user/deletion", {}, init),
+    /** GET /api/user/role-grants - List your temporary role requests and grants */
+    listMyRoleGrants: (init?: RequestInit) =>
+      send<ListMyRoleGrantsResponses>("GET", "/api/user/role-grants", {}, init),
+    /** POST /api/user/role-grants - Ask an admin for a role for a limited time */
+    requestRoleGrant: (request: RequestRoleGrantRequest, init?: RequestInit) =>
+      send<RequestRoleGrantResponses>("POST", "/api/user/role-grants", request, init),
+    /** GET /api/user/sessions - List your signed-in sessions */
+    listMySessions: (init?: RequestInit) =>
+      send<ListMySessionsResponses>("GET", "/api/user/sessions", {}, init),
+    /** DELETE /api/user/sessions - Sign out every session except this one */
+    revokeOtherSessions: (init?: RequestInit) =>
+      send<RevokeOtherSessionsResponses>("DELETE", "/api/user/sessions", {}, init),
+    /** DELETE /api/user/sessions/{id} - Sign out one of your sessions */
+    revokeMySession: (request: RevokeMySessionRequest, init?: RequestInit) =>
+      send<RevokeMySessionResponses>("DELETE", "/api/user/sessions/{id}", request, init),
+    /** GET /api/user/tokens - List your personal access tokens */
+    listApiTokens: (init?: RequestInit) =>
+      send<ListApiTokensResponses>("GET", "/api/user/tokens", {}, init),
+    /** POST /api/user/tokens - Create a personal access token */
+    createApiToken: (request: CreateApiTokenRequest, init?: RequestInit) =>
+      send<CreateApiTokenResponses>("POST", "/api/user/tokens", request, init),
+    /** DELETE /api/user/tokens/{id} - Revoke one of your personal access tokens */
+    revokeApiToken: (request: RevokeApiTokenRequest, init?: RequestInit) =>
+      send<RevokeApiTokenResponses>("DELETE", "/api/user/tokens/{id}", request, init),
+    /** GET /api/user/two-factor - Get your two-factor authentication status */
+    getTwoFactorStatus: (init?: RequestInit) =>
+      send<GetTwoFactorStatusResponses>("GET", "/api/user/two-factor", {}, init),
+    /** POST /api/user/two-factor - Start setting up an authenticator app */
+    startTwoFactorEnrollment: (init?: RequestInit) =>
+      send<StartTwoFactorEnrollmentResponses>("POST", "/api/user/two-factor", {}, init),
+    /** DELETE /api/user/two-factor - Turn off two-factor authentication */
+    disableTwoFactor: (request: DisableTwoFactorRequest, init?: RequestInit) =>
+      send<DisableTwoFactorResponses>("DELETE", "/api/user/two-factor", request, init),
+    /** POST /api/user/two-factor/verify - Finish two-factor setup with a code from the app */
+    verifyTwoFactorEnrollment: (request: VerifyTwoFactorEnrollmentRequest, init?: RequestInit) =>
+      send<VerifyTwoFactorEnrollmentResponses>("POST", "/api/user/two-factor/verify", request, init),
+    /** GET /api/user/workspaces - List the workspaces you belong to */
+    listMyWorkspaces: (init?: RequestInit) =>
+      send<ListMyWorkspacesResponses>("GET", "/api/user/workspaces", {}, init),
+    /** PUT /api/user/workspaces/active - Switch your active workspace */
+    switchWorkspace: (request: SwitchWorkspaceRequest, init?: RequestInit) =>
+      send<SwitchWorkspaceResponses>("PUT", "/api/user/workspaces/active", request, init),
+    /** POST /api/auth/signup - Create an account with email and password */
+    signUp: (request: SignUpRequest, init?: RequestInit) =>
+      send<SignUpResponses>("POST", "/api/auth/signup", request, init),
+    /** POST /api/auth/forgot-password - Email a password reset link */
+    requestPasswordReset: (request: RequestPasswordResetRequest, init?: RequestInit) =>
+      send<RequestPasswordResetResponses>("POST", "/api/auth/forgot-password", request, init),
+    /** POST /api/auth/reset-password - Set a new password with a reset link's token */
+    resetPassword: (request: ResetPasswordRequest, init?: RequestInit) =>
+      send<ResetPasswordResponses>("POST", "/api/auth/reset-password", request, init),
+    /** POST /api/auth/verify-email - Verify an email address with a link's token */
+    verifyEmail: (request: VerifyEmailRequest, init?: RequestInit) =>
+      send<VerifyEmailResponses>("POST", "/api/auth/verify-email", request, init),
+    /** POST /api/auth/verify-email/resend - Send a fresh verification link to your email */
+    resendVerificationEmail: (init?: RequestInit) =>
+      send<ResendVerificationEmailResponses>("POST", "/api/auth/verify-email/resend", {}, init),
+    /** POST /api/auth/invitation - Accept an invitation before signing in with a provider */
+    acceptInvitation: (request: AcceptInvitationRequest, init?: RequestInit) =>
+      send<AcceptInvitationResponses>("POST", "/api/auth/invitation", request, init),
+    /** POST /api/auth/reactivation - Ask an admin to reactivate your deactivated account */
+    requestReactivation: (request: RequestReactivationRequest, init?: RequestInit) =>
+      send<RequestReactivationResponses>("POST", "/api/auth/reactivation", request, init),
+    /** DELETE /api/auth/impersonation - Return to your own account after impersonating a user */
+    stopImpersonation: (init?: RequestInit) =>
+      send<StopImpersonationResponses>("DELETE", "/api/auth/impersonation", {}, init),
+    /** GET /api/scim/v2/Users - List or filter users */
+    listScimUsers: (request: ListScimUsersRequest = {}, init?: RequestInit) =>
+      send<ListScimUsersResponses>("GET", "/api/scim/v2/Users", request, init),
+    /** POST /api/scim/v2/Users - Provision a user */
+    createScimUser: (request: CreateScimUserRequest, init?: RequestInit) =>
+      send<CreateScimUserResponses>("POST", "/api/scim/v2/Users", request, init),
+    /** GET /api/scim/v2/Users/{id} - Get a user */
+    getScimUser: (request: GetScimUserRequest, init?: RequestInit) =>
+      send<GetScimUserResponses>("GET", "/api/scim/v2/Users/{id}", request, init),
+    /** PUT /api/scim/v2/Users/{id} - Replace a user's attributes */
+    replaceScimUser: (request: ReplaceScimUserRequest, init?: RequestInit) =>
+      send<ReplaceScimUserResponses>("PUT", "/api/scim/v2/Users/{id}", request, init),
+    /** PATCH /api/scim/v2/Users/{id} - Change some of a user's attributes */
+    patchScimUser: (request: PatchScimUserRequest, init?: RequestInit) =>
+      send<PatchScimUserResponses>("PATCH", "/api/scim/v2/Users/{id}", request, init),
+    /** DELETE /api/scim/v2/Users/{id} - Deprovision a user */
+    deprovisionScimUser: (request: DeprovisionScimUserRequest, init?: RequestInit) =>
+      send<DeprovisionScimUserResponses>("DELETE", "/api/scim/v2/Users/{id}", request, init),
+    /** GET /api/scim/v2/Groups - List roles as groups */
+    listScimGroups: (request: ListScimGroupsRequest = {}, init?: RequestInit) =>
+      send<ListScimGroupsResponses>("GET", "/api/scim/v2/Groups", request, init),
+    /** GET /api/scim/v2/Groups/{id} - Get a role as a group */
+    getScimGroup: (request: GetScimGroupRequest, init?: RequestInit) =>
+      send<GetScimGroupResponses>("GET", "/api/scim/v2/Groups/{id}", request, init),
+    /** PUT /api/scim/v2/Groups/{id} - Set a group's members */
+    replaceScimGroup: (request: ReplaceScimGroupRequest, init?: RequestInit) =>
+      send<ReplaceScimGroupResponses>("PUT", "/api/scim/v2/Groups/{id}", request, init),
+    /** PATCH /api/scim/v2/Groups/{id} - Add or remove a group's members */
+    patchScimGroup: (request: PatchScimGroupRequest, init?: RequestInit) =>
+      send<PatchScimGroupResponses>("PATCH", "/api/scim/v2/Groups/{id}", request, init),
+    /** POST /api/avatar/chat - Send a chat message and stream the reply */
+    sendAvatarMessage: (request: SendAvatarMessageRequest, init?: RequestInit) =>
+      send<SendAvatarMessageResponses>("POST", "/api/avatar/chat", request, init),
+    /** GET /api/avatar/chat - Describe the chat endpoint */
+    getAvatarChatStatus: (init?: RequestInit) =>
+      send<GetAvatarChatStatusResponses>("GET", "/api/avatar/chat", {}, init),
+    /** POST /api/avatar/tts - Convert text to speech, falling back across providers */
+    synthesizeSpeech: (request: SynthesizeSpeechRequest, init?: RequestInit) =>
+      send<SynthesizeSpeechResponses>("POST", "/api/avatar/tts", request, init),
+    /** GET /api/avatar/tts - List the configured speech providers */
+    getSpeechStatus: (init?: RequestInit) =>
+      send<GetSpeechStatusResponses>("GET", "/api/avatar/tts", {}, init),
+    /** POST /api/avatar/tts-hf - Convert text to speech with MMS-TTS */
+    synthesizeMmsSpeech: (request: SynthesizeMmsSpeechRequest, init?: RequestInit) =>
+      send<SynthesizeMmsSpeechResponses>("POST", "/api/avatar/tts-hf", request, init),
+    /** GET /api/avatar/tts-hf - Describe the MMS-TTS endpoint */
+    getMmsSpeechStatus: (init?: RequestInit) =>
+      send<GetMmsSpeechStatusResponses>("GET", "/api/avatar/tts-hf", {}, init),
+    /** GET /api/health - Report service health */
+    getHealth: (init?: RequestInit) =>
+      send<GetHealthResponses>("GET", "/api/health", {}, init),
+    /** HEAD /api/health - Check service health without a body */
+    checkHealth: (init?: RequestInit) =>
+      send<CheckHealthResponses>("HEAD", "/api/health", {}, init),
+    /** GET /api/openapi.json - This API description */
+    getOpenApiDocument: (init?: RequestInit) =>
+      send<GetOpenApiDocumentResponses>("GET", "/api/openapi.json", {}, init),
+    /** GET /api/cron/account-deletions - Delete accounts whose grace period has ended */
+    runAccountDeletions: (init?: RequestInit) =>
+      send<RunAccountDeletionsResponses>("GET", "/api/cron/account-deletions", {}, init),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,327 @@
+import { z, type ZodTypeAny } from "zod";
+
+import { API_TAGS, apiOperations, apiSchemas, type ApiOperation } from "@/lib/api/operations";
+import { API_TOKEN } from "@/lib/auth/constants";
+import type {
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiResponse,
+} from "@/types/openapi";
+
+export const OPENAPI_INFO = {
+  title: "FE Engine Prime API",
+  version: "0.1.0",
+} as const;
+
+const SECURITY: Record<ApiOperation["auth"], OpenApiOperation["security"]> = {
+  public: [],
+  session: [{ sessionCookie: [] }],
+  sessionOrToken: [{ sessionCookie: [] }, { apiToken: [] }],
+  scim: [{ scimToken: [] }],
+  cron: [{ cronSecret: [] }],
+};
+
+// Schema -> component name, so named schemas are emitted once and referenced
+type SchemaRefs = Map<ZodTypeAny, string>;
+
+function withNull(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === "string" && !schema.enum && schema.const === undefined) {
+    return { ...schema, type: [schema.type, "null"] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: "string" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        result.minLength = check.value;
+        break;
+      case "max":
+        result.maxLength = check.value;
+        break;
+      case "length":
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case "email":
+        result.format = "email";
+        break;
+      case "url":
+        result.format = "uri";
+        break;
+      case "uuid":
+        result.format = "uuid";
+        break;
+      case "datetime":
+        result.format = "date-time";
+        break;
+      case "regex":
+        result.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return result;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: "number" };
+
+  for (const check of schema._def.checks) {
+    if (check.kind === "int") {
+      result.type = "integer";
+    } else if (check.kind === "min") {
+      result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    } else if (check.kind === "max") {
+      result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+
+  return result;
+}
+
+function convertObject(schema: z.AnyZodObject, refs: SchemaRefs): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries<ZodTypeAny>(schema.shape)) {
+    properties[key] = toJsonSchema(value, refs);
+    if (!value.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const result: JsonSchema = { type: "object", properties };
+  if (required.length > 0) {
+    result.required = required;
+  }
+  if (schema._def.unknownKeys === "passthrough") {
+    result.additionalProperties = true;
+  } else if (schema._def.unknownKeys === "strict") {
+    result.additionalProperties = false;
+  }
+  return result;
+}
+
+function convert(schema: ZodTypeAny, refs: SchemaRefs): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: "string", format: "date-time" };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema._def.value;
+    return typeof value === "string" ? { type: "string", const: value } : { const: value };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema._def.values] };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values: Record<string, string | number> = schema._def.values;
+    // Numeric enums map values back to names as well; keep only the values
+    const members = Object.keys(values)
+      .filter(key => typeof values[values[key] as string | number] !== "number")
+      .map(key => values[key] as string | number);
+    return members.every(member => typeof member === "string")
+      ? { type: "string", enum: members }
+      : { enum: members };
+  }
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: "array", items: toJsonSchema(schema._def.type, refs) };
+    if (schema._def.minLength) {
+      result.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      result.maxItems = schema._def.maxLength.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodObject) {
+    return convertObject(schema, refs);
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: toJsonSchema(schema._def.valueType, refs) };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema._def.innerType, refs);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return withNull(toJsonSchema(schema._def.innerType, refs));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema._def.innerType, refs), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    // Requests are described as sent, before transforms and refinements
+    return toJsonSchema(schema._def.schema, refs);
+  }
+  if (schema instanceof z.ZodUnion) {
+    return {
+      anyOf: (schema._def.options as ZodTypeAny[]).map(option => toJsonSchema(option, refs)),
+    };
+  }
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) {
+    return {};
+  }
+
+  throw new Error(`Unsupported schema type: ${schema._def.typeName}`);
+}
+
+/**
+ * Convert a zod schema to JSON Schema. Schemas listed in `refs` become $refs
+ * to components.schemas, except the one being converted.
+ */
+export function toJsonSchema(schema: ZodTypeAny, refs: SchemaRefs = new Map()): JsonSchema {
+  const name = refs.get(schema);
+  const result = name ? { $ref: `#/components/schemas/${name}` } : convert(schema, refs);
+
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+function toParameters(
+  schema: z.AnyZodObject | undefined,
+  location: OpenApiParameter["in"],
+  refs: SchemaRefs
+): OpenApiParameter[] {
+  if (!schema) {
+    return [];
+  }
+
+  return Object.entries<ZodTypeAny>(schema.shape).map(([name, value]) => {
+    const { description, ...parameterSchema } = toJsonSchema(value, refs);
+    const parameter: OpenApiParameter = {
+      name,
+      in: location,
+      required: location === "path" || !value.isOptional(),
+      schema: parameterSchema,
+    };
+    if (description) {
+      parameter.description = description;
+    }
+    return parameter;
+  });
+}
+
+function toResponse(spec: ApiOperation["responses"][number], refs: SchemaRefs): OpenApiResponse {
+  const response: OpenApiResponse = { description: spec.description };
+
+  if (spec.headers) {
+    response.headers = Object.fromEntries(
+      Object.entries(spec.headers).map(([name, description]) => [
+        name,
+        { description, schema: { type: "string" } },
+      ])
+    );
+  }
+
+  if (spec.schema) {
+    response.content = {
+      [spec.contentType ?? "application/json"]: { schema: toJsonSchema(spec.schema, refs) },
+    };
+  } else if (spec.contentType) {
+    const schema: JsonSchema =
+      spec.contentType === "application/json"
+        ? { type: "object" }
+        : { type: "string", contentMediaType: spec.contentType };
+    response.content = { [spec.contentType]: { schema } };
+  }
+
+  return response;
+}
+
+function toOperation(operation: ApiOperation, refs: SchemaRefs): OpenApiOperation {
+  const result: OpenApiOperation = {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    security: SECURITY[operation.auth],
+    responses: Object.fromEntries(
+      Object.entries(operation.responses).map(([status, spec]) => [status, toResponse(spec, refs)])
+    ),
+  };
+
+  if (operation.description) {
+    result.description = operation.description;
+  }
+
+  const parameters = [
+    ...toParameters(operation.params, "path", refs),
+    ...toParameters(operation.query, "query", refs),
+    ...toParameters(operation.headers, "header", refs),
+  ];
+  if (parameters.length > 0) {
+    result.parameters = parameters;
+  }
+
+  if (operation.body) {
+    result.requestBody = {
+      required: true,
+      content: { "application/json": { schema: toJsonSchema(operation.body, refs) } },
+    };
+  }
+
+  if (operation.permissions) {
+    result["x-permissions"] = operation.permissions;
+  }
+
+  return result;
+}
+
+/**
+ * Build the OpenAPI 3.1 document for the operations in apiOperations
+ */
+export function buildOpenApiDocument(operations: ApiOperation[] = apiOperations): OpenApiDocument {
+  const refs: SchemaRefs = new Map(
+    Object.entries(apiSchemas).map(([name, schema]) => [schema, name])
+  );
+
+  const schemas = Object.fromEntries(
+    Object.entries(apiSchemas).map(([name, schema]) => [
+      name,
+      // Convert the schema itself rather than a $ref to it
+      toJsonSchema(schema, new Map([...refs].filter(([candidate]) => candidate !== schema))),
+    ])
+  );
+
+  const paths: OpenApiDocument["paths"] = {};
+  for (const operation of operations) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: toOperation(operation, refs),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      ...OPENAPI_INFO,
+      description:
+        "Routes accept the session cookie of a signed-in browser. Routes that list apiToken " +
+        `also accept a personal access token (${API_TOKEN.PREFIX}...) as a bearer token. ` +
+        "SCIM routes take SCIM_BEARER_TOKEN and scheduled jobs CRON_SECRET as bearer tokens.",
+    },
+    tags: API_TAGS.map(tag => ({ ...tag })),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        sessionCookie: { type: "apiKey", in: "cookie", name: "authjs.session-token" },
+        apiToken: { type: "http", scheme: "bearer" },
+        scimToken: { type: "http", scheme: "bearer", description: "SCIM_BEARER_TOKEN" },
+        cronSecret: { type: "http", scheme: "bearer", description: "CRON_SECRET" },
+      },
+    },
+  };
+}
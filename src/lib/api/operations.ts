@@ -0,0 +1,1634 @@
+import { z, type AnyZodObject, type ZodTypeAny } from "zod";
+
+import {
+  acceptInvitationSchema,
+  accessExplanationSchema,
+  accessQuerySchema,
+  accountDeletionSchema,
+  adminUserConflictSchema,
+  adminUserPageSchema,
+  adminUserResultSchema,
+  apiTokenSchema,
+  avatarChatRequestSchema,
+  avatarErrorSchema,
+  confirmationSchema,
+  connectProviderSchema,
+  createTokenSchema,
+  cronDeletionsSchema,
+  dataExportQuerySchema,
+  disableTwoFactorSchema,
+  emailVerifiedSchema,
+  errorSchema,
+  forgotPasswordSchema,
+  healthSchema,
+  idParamsSchema,
+  ifMatchHeadersSchema,
+  impersonationSchema,
+  impersonationStartSchema,
+  invitationCreateSchema,
+  invitationDeliverySchema,
+  invitationSchema,
+  linkedAccountsSchema,
+  messageSchema,
+  mmsTtsRequestSchema,
+  passwordRejectedSchema,
+  permissionOverridesUpdateSchema,
+  permissionSchema,
+  profileUpdateSchema,
+  publicUserSchema,
+  rateLimitedSchema,
+  reactivationDecisionSchema,
+  reactivationRequestSchema,
+  reactivationSchema,
+  requestDeletionSchema,
+  resetPasswordSchema,
+  revokedSessionsSchema,
+  roleCreateSchema,
+  roleDefinitionSchema,
+  roleGrantCreateSchema,
+  roleGrantDecisionSchema,
+  roleGrantRequestSchema,
+  roleGrantSchema,
+  roleParamsSchema,
+  roleUpdateSchema,
+  scimErrorSchema,
+  scimGroupInputSchema,
+  scimGroupListQuerySchema,
+  scimGroupListSchema,
+  scimGroupSchema,
+  scimListQuerySchema,
+  scimPatchSchema,
+  scimUserInputSchema,
+  scimUserListSchema,
+  scimUserSchema,
+  serviceStatusSchema,
+  sessionListSchema,
+  signupResultSchema,
+  signupSchema,
+  statusQuerySchema,
+  switchWorkspaceSchema,
+  ttsRequestSchema,
+  twoFactorEnrollmentSchema,
+  twoFactorStatusSchema,
+  updatedProfileSchema,
+  userConflictSchema,
+  userExportQuerySchema,
+  userIdParamsSchema,
+  userImportResultSchema,
+  userImportSchema,
+  userPageSchema,
+  userQuerySchema,
+  userRoleUpdateSchema,
+  userStatusUpdateSchema,
+  userUpdateSchema,
+  userWorkspacesSchema,
+  validationErrorSchema,
+  verifyEmailSchema,
+  verifyEnrollmentSchema,
+  workspaceCreateSchema,
+  workspaceMemberParamsSchema,
+  workspaceMembershipSchema,
+  workspaceMemberUpdateSchema,
+  workspaceSchema,
+} from "@/lib/api/schemas";
+import { Permission } from "@/types/auth";
+import type { HttpMethod } from "@/types/openapi";
+
+/**
+ * Who may call an operation: anyone, signed-in users (session cookie),
+ * signed-in users and personal access tokens (withAuth routes), the identity
+ * provider with SCIM_BEARER_TOKEN, or the scheduler with CRON_SECRET
+ */
+export type ApiAuth = "public" | "session" | "sessionOrToken" | "scim" | "cron";
+
+export interface ApiResponseSpec {
+  description: string;
+  // JSON body; omit for binary or streamed bodies and set contentType
+  schema?: ZodTypeAny;
+  contentType?: string;
+  // Response header name -> description
+  headers?: Record<string, string>;
+}
+
+/**
+ * One route handler, as described in the OpenAPI document and the typed client
+ */
+export interface ApiOperation {
+  operationId: string;
+  method: HttpMethod;
+  // OpenAPI path template, e.g. /api/users/{id}
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  auth: ApiAuth;
+  permissions?: Permission[];
+  params?: AnyZodObject;
+  query?: AnyZodObject;
+  headers?: AnyZodObject;
+  body?: ZodTypeAny;
+  responses: Record<number, ApiResponseSpec>;
+}
+
+/**
+ * Schemas emitted once under components.schemas and referenced by name
+ */
+export const apiSchemas: Record<string, ZodTypeAny> = {
+  PublicUser: publicUserSchema,
+  Permission: permissionSchema,
+  UserPage: userPageSchema,
+  AdminUserPage: adminUserPageSchema,
+  UserUpdate: userUpdateSchema,
+  UserConflict: userConflictSchema,
+  UserRoleUpdate: userRoleUpdateSchema,
+  UserStatusUpdate: userStatusUpdateSchema,
+  AdminUserResult: adminUserResultSchema,
+  AdminUserConflict: adminUserConflictSchema,
+  ProfileUpdate: profileUpdateSchema,
+  UpdatedProfile: updatedProfileSchema,
+  AvatarChatRequest: avatarChatRequestSchema,
+  TtsRequest: ttsRequestSchema,
+  MmsTtsRequest: mmsTtsRequestSchema,
+  AvatarError: avatarErrorSchema,
+  ServiceStatus: serviceStatusSchema,
+  Health: healthSchema,
+  ApiError: errorSchema,
+  ApiValidationError: validationErrorSchema,
+  ApiMessage: messageSchema,
+  Confirmation: confirmationSchema,
+  RateLimited: rateLimitedSchema,
+  Invitation: invitationSchema,
+  ReactivationRequest: reactivationRequestSchema,
+  RoleGrant: roleGrantSchema,
+  RoleDefinition: roleDefinitionSchema,
+  Workspace: workspaceSchema,
+  WorkspaceMembership: workspaceMembershipSchema,
+  AccountDeletion: accountDeletionSchema,
+  ApiToken: apiTokenSchema,
+  ScimUser: scimUserSchema,
+  ScimGroup: scimGroupSchema,
+  ScimError: scimErrorSchema,
+};
+
+export const API_TAGS = [
+  { name: "Users", description: "Users of the caller's active workspace" },
+  { name: "Admin", description: "Account administration across workspaces" },
+  { name: "Profile", description: "The signed-in user's own account" },
+  { name: "Auth", description: "Sign-up, password reset, email verification and invitations" },
+  { name: "SCIM", description: "SCIM 2.0 provisioning from the identity provider" },
+  { name: "Avatar", description: "Chat and text-to-speech for the avatar demo" },
+  { name: "System", description: "Health, API description and scheduled jobs" },
+] as const;
+
+// Responses every withAuth route can give before its handler runs
+const withAuthErrors: Record<number, ApiResponseSpec> = {
+  401: { description: "Not signed in, or the token is invalid", schema: errorSchema },
+  403: { description: "Missing permission or inactive account", schema: errorSchema },
+};
+
+const adminErrors: Record<number, ApiResponseSpec> = {
+  401: { description: "Not signed in", schema: messageSchema },
+  403: {
+    description: "Not an account admin with MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES",
+    schema: messageSchema,
+  },
+};
+
+const notSignedIn: ApiResponseSpec = { description: "Not signed in", schema: errorSchema };
+
+// Responses /api/user routes that load the account give before their handler runs
+const sessionErrors: Record<number, ApiResponseSpec> = {
+  401: notSignedIn,
+  404: { description: "The account no longer exists", schema: errorSchema },
+};
+
+// Every /api/user and /api/auth route answers invalid bodies this way
+const invalidBody: ApiResponseSpec = {
+  description: "Invalid fields",
+  schema: validationErrorSchema,
+};
+
+// SCIM responses are application/scim+json
+const scimResource = (description: string, schema: ZodTypeAny): ApiResponseSpec => ({
+  description,
+  schema,
+  contentType: "application/scim+json",
+});
+
+const scimError = (description: string): ApiResponseSpec =>
+  scimResource(description, scimErrorSchema);
+
+const scimErrors: Record<number, ApiResponseSpec> = {
+  401: scimError("Missing or wrong SCIM bearer token"),
+};
+
+// Sets the cookie the provider sign-in callback reads
+const intentCookie = { "Set-Cookie": "Short-lived, HTTP-only cookie read after the sign-in" };
+
+const adminPermissions = [Permission.MANAGE_SYSTEM_SETTINGS, Permission.MANAGE_USER_ROLES];
+
+const rateLimited: ApiResponseSpec = {
+  description: "Too many requests from this caller",
+  schema: rateLimitedSchema,
+  headers: { "Retry-After": "Seconds until a request is allowed again" },
+};
+
+const etagHeader = { ETag: "Pass back in If-Match to update this version" };
+
+const audioResponse = (contentType: string): ApiResponseSpec => ({
+  description: "Synthesized speech",
+  contentType,
+});
+
+export const apiOperations: ApiOperation[] = [
+  {
+    operationId: "listUsers",
+    method: "get",
+    path: "/api/users",
+    summary: "Search the active workspace's users, one page at a time",
+    tag: "Users",
+    auth: "sessionOrToken",
+    permissions: [Permission.READ_USER],
+    query: userQuerySchema,
+    responses: {
+      200: { description: "A page of users", schema: userPageSchema },
+      400: {
+        description: "Invalid query or cursor",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+      ...withAuthErrors,
+      429: rateLimited,
+    },
+  },
+  {
+    operationId: "getUser",
+    method: "get",
+    path: "/api/users/{id}",
+    summary: "Get a user of the active workspace",
+    tag: "Users",
+    auth: "sessionOrToken",
+    permissions: [Permission.READ_USER],
+    params: userIdParamsSchema,
+    responses: {
+      200: { description: "The user", schema: publicUserSchema, headers: etagHeader },
+      ...withAuthErrors,
+      404: { description: "No such user in the workspace", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "updateUser",
+    method: "patch",
+    path: "/api/users/{id}",
+    summary: "Update a user",
+    description:
+      "`role` sets the user's role in the active workspace and needs MANAGE_USER_ROLES as well. " +
+      "Only users whose role the caller can manage may be updated. Email changes go through " +
+      "the profile, and activation through the admin status route.",
+    tag: "Users",
+    auth: "sessionOrToken",
+    permissions: [Permission.UPDATE_USER],
+    params: userIdParamsSchema,
+    headers: ifMatchHeadersSchema,
+    body: userUpdateSchema,
+    responses: {
+      200: { description: "The updated user", schema: publicUserSchema, headers: etagHeader },
+      400: { description: "Invalid fields or role", schema: validationErrorSchema },
+      ...withAuthErrors,
+      404: { description: "No such user in the workspace", schema: errorSchema },
+      412: {
+        description: "The user changed since the If-Match ETag",
+        schema: userConflictSchema,
+        headers: etagHeader,
+      },
+    },
+  },
+  {
+    operationId: "deleteUser",
+    method: "delete",
+    path: "/api/users/{id}",
+    summary: "Delete a user",
+    tag: "Users",
+    auth: "sessionOrToken",
+    permissions: [Permission.DELETE_USER],
+    params: userIdParamsSchema,
+    responses: {
+      200: { description: "Deleted", schema: z.object({ message: z.string() }) },
+      ...withAuthErrors,
+      404: { description: "No such user in the workspace", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "listAdminUsers",
+    method: "get",
+    path: "/api/admin/users",
+    summary: "Search all users, with their sign-in lockouts",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    query: userQuerySchema,
+    responses: {
+      200: { description: "A page of users", schema: adminUserPageSchema },
+      400: { description: "Invalid query or cursor", schema: messageSchema },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "updateUserRole",
+    method: "patch",
+    path: "/api/admin/users/{id}/role",
+    summary: "Change a user's account role",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    headers: ifMatchHeadersSchema,
+    body: userRoleUpdateSchema,
+    responses: {
+      200: { description: "Role changed", schema: adminUserResultSchema, headers: etagHeader },
+      400: { description: "Unknown or temporary-only role", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+      409: { description: "The user holds a temporary role", schema: messageSchema },
+      412: {
+        description: "The user changed since the If-Match ETag",
+        schema: adminUserConflictSchema,
+        headers: etagHeader,
+      },
+    },
+  },
+  {
+    operationId: "updateUserStatus",
+    method: "patch",
+    path: "/api/admin/users/{id}/status",
+    summary: "Activate or deactivate a user",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    headers: ifMatchHeadersSchema,
+    body: userStatusUpdateSchema,
+    responses: {
+      200: { description: "Status changed", schema: adminUserResultSchema, headers: etagHeader },
+      400: { description: "Invalid value, or deactivating yourself", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+      412: {
+        description: "The user changed since the If-Match ETag",
+        schema: adminUserConflictSchema,
+        headers: etagHeader,
+      },
+    },
+  },
+  {
+    operationId: "updateUserPermissions",
+    method: "patch",
+    path: "/api/admin/users/{id}/permissions",
+    summary: "Grant or revoke permissions on top of a user's role",
+    description: "Replaces the user's overrides. Revocations win over the role and grants.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    body: permissionOverridesUpdateSchema,
+    responses: {
+      200: { description: "Overrides saved", schema: adminUserResultSchema },
+      400: { description: "Unknown permission, or granted and revoked", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "explainUserAccess",
+    method: "get",
+    path: "/api/admin/users/{id}/access",
+    summary: "Explain why a user can or cannot open a path or hold a permission",
+    description: "Pass exactly one of path and permission.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    query: accessQuerySchema,
+    responses: {
+      200: { description: "The explanation", schema: accessExplanationSchema },
+      400: { description: "Neither or both of path and permission", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "startImpersonation",
+    method: "post",
+    path: "/api/admin/users/{id}/impersonate",
+    summary: "View the app as another user",
+    description:
+      "Call update() on the session afterwards to pick up the user's claims. " +
+      "Stop with DELETE /api/auth/impersonation.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    body: impersonationStartSchema,
+    responses: {
+      200: { description: "Impersonation started", schema: impersonationSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+      409: { description: "Already impersonating", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "revokeUserSessions",
+    method: "delete",
+    path: "/api/admin/users/{id}/sessions",
+    summary: "Sign a user out of every session",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    responses: {
+      200: { description: "Sessions revoked", schema: revokedSessionsSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "unlockUser",
+    method: "post",
+    path: "/api/admin/users/{id}/unlock",
+    summary: "Clear a sign-in lockout after failed logins",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: userIdParamsSchema,
+    responses: {
+      200: { description: "Unlocked", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "exportUsers",
+    method: "get",
+    path: "/api/admin/users/export",
+    summary: "Download users in the import file format",
+    description: "Takes the search, filters and sort of GET /api/admin/users.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    query: userExportQuerySchema,
+    responses: {
+      200: {
+        description: "CSV, or JSON with format=json, as an attachment",
+        contentType: "text/csv",
+      },
+      400: { description: "Invalid format or query", schema: messageSchema },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "importUsers",
+    method: "post",
+    path: "/api/admin/users/import",
+    summary: "Create and update users from a CSV or JSON file",
+    description: "Users are matched by email. A dry run reports every row without writing.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    body: userImportSchema,
+    responses: {
+      200: { description: "What changed, or would change", schema: userImportResultSchema },
+      400: { description: "Invalid format, or the file cannot be read", schema: messageSchema },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "listRoles",
+    method: "get",
+    path: "/api/admin/roles",
+    summary: "List roles, highest level first",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    responses: {
+      200: {
+        description: "The roles",
+        schema: z.object({ roles: z.array(roleDefinitionSchema) }),
+      },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "createRole",
+    method: "post",
+    path: "/api/admin/roles",
+    summary: "Create a custom role",
+    description: "The role's level and permissions cannot exceed the caller's own.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    body: roleCreateSchema,
+    responses: {
+      201: {
+        description: "Role created",
+        schema: confirmationSchema.extend({ role: roleDefinitionSchema }),
+      },
+      400: { description: "Invalid fields", schema: messageSchema },
+      ...adminErrors,
+      409: { description: "The role already exists", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "updateRole",
+    method: "patch",
+    path: "/api/admin/roles/{role}",
+    summary: "Change a role's label, level, permissions or two-factor requirement",
+    description: "Built-in roles keep their level.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: roleParamsSchema,
+    body: roleUpdateSchema,
+    responses: {
+      200: {
+        description: "Role updated",
+        schema: confirmationSchema.extend({ role: roleDefinitionSchema }),
+      },
+      400: { description: "Invalid fields", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such role", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "deleteRole",
+    method: "delete",
+    path: "/api/admin/roles/{role}",
+    summary: "Delete a custom role",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: roleParamsSchema,
+    responses: {
+      200: { description: "Role deleted", schema: messageSchema },
+      400: { description: "Built-in roles cannot be deleted", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such role", schema: messageSchema },
+      409: { description: "The role is still assigned", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "listInvitations",
+    method: "get",
+    path: "/api/admin/invitations",
+    summary: "List invitations",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    responses: {
+      200: {
+        description: "The invitations",
+        schema: z.object({ invitations: z.array(invitationSchema) }),
+      },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "createInvitation",
+    method: "post",
+    path: "/api/admin/invitations",
+    summary: "Invite an email address with a preassigned role",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    body: invitationCreateSchema,
+    responses: {
+      201: { description: "Invitation created and emailed", schema: invitationDeliverySchema },
+      400: { description: "Invalid email, role or expiry", schema: messageSchema },
+      ...adminErrors,
+      409: { description: "The email is already invited or registered", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "revokeInvitation",
+    method: "delete",
+    path: "/api/admin/invitations/{id}",
+    summary: "Revoke a pending invitation",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: idParamsSchema,
+    responses: {
+      200: {
+        description: "Invitation revoked",
+        schema: z.object({ invitation: invitationSchema }),
+      },
+      ...adminErrors,
+      404: { description: "No such pending invitation", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "resendInvitation",
+    method: "post",
+    path: "/api/admin/invitations/{id}/resend",
+    summary: "Send a fresh accept link",
+    description: "The previous link stops working and the expiry starts again.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: idParamsSchema,
+    responses: {
+      200: { description: "Invitation resent", schema: invitationDeliverySchema },
+      ...adminErrors,
+      404: { description: "The invitation cannot be resent", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "listReactivationRequests",
+    method: "get",
+    path: "/api/admin/reactivation-requests",
+    summary: "List reactivation requests, newest first",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    query: statusQuerySchema(["pending", "approved", "denied"]),
+    responses: {
+      200: {
+        description: "The requests",
+        schema: z.object({ requests: z.array(reactivationRequestSchema) }),
+      },
+      400: { description: "Invalid status filter", schema: messageSchema },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "decideReactivationRequest",
+    method: "patch",
+    path: "/api/admin/reactivation-requests/{id}",
+    summary: "Approve or deny a reactivation request",
+    description: "Approving activates the user. Either way the user is emailed the outcome.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: idParamsSchema,
+    body: reactivationDecisionSchema,
+    responses: {
+      200: {
+        description: "Request decided",
+        schema: z.object({ request: reactivationRequestSchema, notified: z.boolean() }),
+      },
+      400: { description: "Invalid decision or note", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such pending request", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "listRoleGrants",
+    method: "get",
+    path: "/api/admin/role-grants",
+    summary: "List temporary role requests and grants, newest first",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    query: statusQuerySchema(["pending", "active", "denied", "expired", "revoked"]),
+    responses: {
+      200: {
+        description: "The grants",
+        schema: z.object({ grants: z.array(roleGrantSchema) }),
+      },
+      400: { description: "Invalid status filter", schema: messageSchema },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "grantTemporaryRole",
+    method: "post",
+    path: "/api/admin/role-grants",
+    summary: "Give a user a role for a limited time",
+    description: "The user's role is reverted when the grant expires.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    body: roleGrantCreateSchema,
+    responses: {
+      201: { description: "Role granted", schema: z.object({ grant: roleGrantSchema }) },
+      400: {
+        description: "Invalid fields, or the user already has the role",
+        schema: messageSchema,
+      },
+      ...adminErrors,
+      404: { description: "No such user", schema: messageSchema },
+      409: { description: "The user already holds a temporary role", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "decideRoleGrant",
+    method: "patch",
+    path: "/api/admin/role-grants/{id}",
+    summary: "Approve or deny a temporary role request",
+    description: "Approving gives the user the role for the requested duration.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: idParamsSchema,
+    body: roleGrantDecisionSchema,
+    responses: {
+      200: { description: "Request decided", schema: z.object({ grant: roleGrantSchema }) },
+      400: { description: "Invalid decision or note", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such pending request", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "revokeRoleGrant",
+    method: "delete",
+    path: "/api/admin/role-grants/{id}",
+    summary: "End an active grant early and revert the user's role",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: idParamsSchema,
+    responses: {
+      200: { description: "Grant revoked", schema: z.object({ grant: roleGrantSchema }) },
+      ...adminErrors,
+      404: { description: "No such active grant", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "listWorkspaces",
+    method: "get",
+    path: "/api/admin/workspaces",
+    summary: "List workspaces with their explicit member counts",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    responses: {
+      200: {
+        description: "The workspaces",
+        schema: z.object({
+          workspaces: z.array(workspaceSchema.extend({ memberCount: z.number().int() })),
+        }),
+      },
+      ...adminErrors,
+    },
+  },
+  {
+    operationId: "createWorkspace",
+    method: "post",
+    path: "/api/admin/workspaces",
+    summary: "Create a workspace",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    body: workspaceCreateSchema,
+    responses: {
+      201: { description: "Workspace created", schema: z.object({ workspace: workspaceSchema }) },
+      400: { description: "Invalid name", schema: messageSchema },
+      ...adminErrors,
+      409: { description: "The name is taken", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "listWorkspaceMembers",
+    method: "get",
+    path: "/api/admin/workspaces/{id}/members",
+    summary: "List a workspace's explicit members",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: idParamsSchema,
+    responses: {
+      200: {
+        description: "The members",
+        schema: z.object({
+          members: z.array(
+            workspaceMembershipSchema.extend({
+              email: z.string().nullable(),
+              name: z.string().nullable(),
+            })
+          ),
+        }),
+      },
+      ...adminErrors,
+      404: { description: "No such workspace", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "setWorkspaceMember",
+    method: "put",
+    path: "/api/admin/workspaces/{id}/members/{userId}",
+    summary: "Add a user to a workspace, or change their role there",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: workspaceMemberParamsSchema,
+    body: workspaceMemberUpdateSchema,
+    responses: {
+      200: {
+        description: "Role changed",
+        schema: z.object({ membership: workspaceMembershipSchema }),
+      },
+      201: {
+        description: "Member added",
+        schema: z.object({ membership: workspaceMembershipSchema }),
+      },
+      400: { description: "Invalid role", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such workspace or user", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "removeWorkspaceMember",
+    method: "delete",
+    path: "/api/admin/workspaces/{id}/members/{userId}",
+    summary: "Remove a user from a workspace",
+    description: "A user's last workspace cannot be removed.",
+    tag: "Admin",
+    auth: "session",
+    permissions: adminPermissions,
+    params: workspaceMemberParamsSchema,
+    responses: {
+      200: { description: "Member removed", schema: messageSchema },
+      ...adminErrors,
+      404: { description: "No such member", schema: messageSchema },
+      409: { description: "The user's last workspace", schema: messageSchema },
+    },
+  },
+  {
+    operationId: "updateProfile",
+    method: "patch",
+    path: "/api/user/profile",
+    summary: "Update your own profile",
+    description: "A changed email is unverified until the link sent to it is followed.",
+    tag: "Profile",
+    auth: "session",
+    body: profileUpdateSchema,
+    responses: {
+      200: { description: "The updated profile", schema: updatedProfileSchema },
+      400: { description: "Invalid fields", schema: validationErrorSchema },
+      401: { description: "Not signed in", schema: errorSchema },
+      404: { description: "The account no longer exists", schema: errorSchema },
+      409: { description: "The email belongs to another account", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "listLinkedAccounts",
+    method: "get",
+    path: "/api/user/accounts",
+    summary: "List the sign-in providers linked to your account",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: { description: "Linked providers", schema: linkedAccountsSchema },
+      ...sessionErrors,
+    },
+  },
+  {
+    operationId: "connectProvider",
+    method: "post",
+    path: "/api/user/accounts",
+    summary: "Start linking a sign-in provider",
+    description: "Then sign in with the provider; the account is linked in the sign-in callback.",
+    tag: "Profile",
+    auth: "session",
+    body: connectProviderSchema,
+    responses: {
+      200: {
+        description: "Ready to sign in with the provider",
+        schema: connectProviderSchema,
+        headers: intentCookie,
+      },
+      400: invalidBody,
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "disconnectProvider",
+    method: "delete",
+    path: "/api/user/accounts/{provider}",
+    summary: "Unlink a sign-in provider",
+    tag: "Profile",
+    auth: "session",
+    params: z.object({ provider: z.string() }),
+    responses: {
+      200: { description: "Provider unlinked", schema: confirmationSchema },
+      ...sessionErrors,
+      404: { description: "No such account, or the provider is not linked", schema: errorSchema },
+      409: { description: "Your last way to sign in", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "exportMyData",
+    method: "get",
+    path: "/api/user/data-export",
+    summary: "Download everything stored about you",
+    tag: "Profile",
+    auth: "session",
+    query: dataExportQuerySchema,
+    responses: {
+      200: {
+        description: "JSON, or a ZIP archive with format=zip, as an attachment",
+        contentType: "application/octet-stream",
+      },
+      400: { description: "Invalid format", schema: errorSchema },
+      ...sessionErrors,
+    },
+  },
+  {
+    operationId: "getAccountDeletion",
+    method: "get",
+    path: "/api/user/deletion",
+    summary: "Get your scheduled account deletion",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: {
+        description: "The pending deletion, or null",
+        schema: z.object({ deletion: accountDeletionSchema.nullable() }),
+      },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "requestAccountDeletion",
+    method: "post",
+    path: "/api/user/deletion",
+    summary: "Schedule your account for deletion",
+    description: "The account is deleted after a grace period; sign in and cancel to keep it.",
+    tag: "Profile",
+    auth: "session",
+    body: requestDeletionSchema,
+    responses: {
+      201: {
+        description: "Deletion scheduled",
+        schema: z.object({ deletion: accountDeletionSchema }),
+      },
+      400: {
+        description: "Invalid fields, or the email does not match",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+      ...sessionErrors,
+      409: { description: "A deletion is already scheduled", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "cancelAccountDeletion",
+    method: "delete",
+    path: "/api/user/deletion",
+    summary: "Cancel your scheduled account deletion",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: {
+        description: "Deletion cancelled",
+        schema: z.object({ deletion: accountDeletionSchema }),
+      },
+      401: notSignedIn,
+      404: { description: "No deletion is scheduled", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "listMyRoleGrants",
+    method: "get",
+    path: "/api/user/role-grants",
+    summary: "List your temporary role requests and grants",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: {
+        description: "Your grants",
+        schema: z.object({ grants: z.array(roleGrantSchema) }),
+      },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "requestRoleGrant",
+    method: "post",
+    path: "/api/user/role-grants",
+    summary: "Ask an admin for a role for a limited time",
+    tag: "Profile",
+    auth: "session",
+    body: roleGrantRequestSchema,
+    responses: {
+      201: { description: "Request submitted", schema: z.object({ grant: roleGrantSchema }) },
+      400: {
+        description: "Invalid fields or role, or you already have the role",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+      ...sessionErrors,
+      409: { description: "A request or grant is already open", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "listMySessions",
+    method: "get",
+    path: "/api/user/sessions",
+    summary: "List your signed-in sessions",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: { description: "Your sessions", schema: sessionListSchema },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "revokeOtherSessions",
+    method: "delete",
+    path: "/api/user/sessions",
+    summary: "Sign out every session except this one",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: { description: "Sessions revoked", schema: revokedSessionsSchema },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "revokeMySession",
+    method: "delete",
+    path: "/api/user/sessions/{id}",
+    summary: "Sign out one of your sessions",
+    tag: "Profile",
+    auth: "session",
+    params: idParamsSchema,
+    responses: {
+      200: { description: "Session revoked", schema: confirmationSchema },
+      401: notSignedIn,
+      404: { description: "No such session of yours", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "listApiTokens",
+    method: "get",
+    path: "/api/user/tokens",
+    summary: "List your personal access tokens",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: {
+        description: "Your tokens and the scopes you can give new ones",
+        schema: z.object({
+          tokens: z.array(apiTokenSchema),
+          availableScopes: z
+            .array(permissionSchema)
+            .describe("Empty without ACCESS_API; otherwise your permissions"),
+        }),
+      },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "createApiToken",
+    method: "post",
+    path: "/api/user/tokens",
+    summary: "Create a personal access token",
+    description: "The token is shown only in this response.",
+    tag: "Profile",
+    auth: "session",
+    body: createTokenSchema,
+    responses: {
+      201: {
+        description: "Token created",
+        schema: z.object({ token: z.string(), apiToken: apiTokenSchema }),
+      },
+      400: {
+        description: "Invalid fields, or scopes you do not hold",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "revokeApiToken",
+    method: "delete",
+    path: "/api/user/tokens/{id}",
+    summary: "Revoke one of your personal access tokens",
+    tag: "Profile",
+    auth: "session",
+    params: idParamsSchema,
+    responses: {
+      200: { description: "Token revoked", schema: confirmationSchema },
+      401: notSignedIn,
+      404: { description: "No such token of yours", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "getTwoFactorStatus",
+    method: "get",
+    path: "/api/user/two-factor",
+    summary: "Get your two-factor authentication status",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: { description: "Two-factor status", schema: twoFactorStatusSchema },
+      ...sessionErrors,
+    },
+  },
+  {
+    operationId: "startTwoFactorEnrollment",
+    method: "post",
+    path: "/api/user/two-factor",
+    summary: "Start setting up an authenticator app",
+    description: "Confirm with POST /api/user/two-factor/verify.",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: { description: "The secret to add to the app", schema: twoFactorEnrollmentSchema },
+      ...sessionErrors,
+      409: { description: "Two-factor authentication is already on", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "disableTwoFactor",
+    method: "delete",
+    path: "/api/user/two-factor",
+    summary: "Turn off two-factor authentication",
+    tag: "Profile",
+    auth: "session",
+    body: disableTwoFactorSchema,
+    responses: {
+      200: { description: "Two-factor authentication off", schema: confirmationSchema },
+      400: {
+        description: "Invalid fields or code",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+      ...sessionErrors,
+      409: {
+        description: "Your role requires two-factor authentication",
+        schema: errorSchema,
+      },
+    },
+  },
+  {
+    operationId: "verifyTwoFactorEnrollment",
+    method: "post",
+    path: "/api/user/two-factor/verify",
+    summary: "Finish two-factor setup with a code from the app",
+    description: "The recovery codes are shown only in this response.",
+    tag: "Profile",
+    auth: "session",
+    body: verifyEnrollmentSchema,
+    responses: {
+      200: {
+        description: "Two-factor authentication on",
+        schema: z.object({ recoveryCodes: z.array(z.string()) }),
+      },
+      400: {
+        description: "Invalid fields or code",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+      ...sessionErrors,
+    },
+  },
+  {
+    operationId: "listMyWorkspaces",
+    method: "get",
+    path: "/api/user/workspaces",
+    summary: "List the workspaces you belong to",
+    tag: "Profile",
+    auth: "session",
+    responses: {
+      200: { description: "Your workspaces", schema: userWorkspacesSchema },
+      ...sessionErrors,
+    },
+  },
+  {
+    operationId: "switchWorkspace",
+    method: "put",
+    path: "/api/user/workspaces/active",
+    summary: "Switch your active workspace",
+    description: "Call update() on the session afterwards to pick up the workspace's role.",
+    tag: "Profile",
+    auth: "session",
+    body: switchWorkspaceSchema,
+    responses: {
+      200: {
+        description: "Workspace switched",
+        schema: z.object({ workspaceId: z.string(), role: z.string() }),
+      },
+      400: invalidBody,
+      ...sessionErrors,
+      404: { description: "No such account, or not a member", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "signUp",
+    method: "post",
+    path: "/api/auth/signup",
+    summary: "Create an account with email and password",
+    description: "With an invite token the invited role is assigned and the email is verified.",
+    tag: "Auth",
+    auth: "public",
+    body: signupSchema,
+    responses: {
+      201: { description: "Account created", schema: signupResultSchema },
+      400: {
+        description: "Invalid fields, weak password or invalid invitation",
+        schema: z.union([validationErrorSchema, passwordRejectedSchema, errorSchema]),
+      },
+      409: { description: "The email is already registered", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "requestPasswordReset",
+    method: "post",
+    path: "/api/auth/forgot-password",
+    summary: "Email a password reset link",
+    description: "Answers the same whether or not the email is registered.",
+    tag: "Auth",
+    auth: "public",
+    body: forgotPasswordSchema,
+    responses: {
+      200: { description: "A link was sent if the account exists", schema: confirmationSchema },
+      400: invalidBody,
+    },
+  },
+  {
+    operationId: "resetPassword",
+    method: "post",
+    path: "/api/auth/reset-password",
+    summary: "Set a new password with a reset link's token",
+    tag: "Auth",
+    auth: "public",
+    body: resetPasswordSchema,
+    responses: {
+      200: { description: "Password reset", schema: confirmationSchema },
+      400: {
+        description: "Invalid fields, weak password, or an invalid or expired token",
+        schema: z.union([validationErrorSchema, passwordRejectedSchema, errorSchema]),
+      },
+      404: { description: "The account no longer exists", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "verifyEmail",
+    method: "post",
+    path: "/api/auth/verify-email",
+    summary: "Verify an email address with a link's token",
+    tag: "Auth",
+    auth: "public",
+    body: verifyEmailSchema,
+    responses: {
+      200: { description: "Email verified", schema: emailVerifiedSchema },
+      400: {
+        description: "Invalid fields, or an invalid or expired token",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+    },
+  },
+  {
+    operationId: "resendVerificationEmail",
+    method: "post",
+    path: "/api/auth/verify-email/resend",
+    summary: "Send a fresh verification link to your email",
+    tag: "Auth",
+    auth: "session",
+    responses: {
+      200: { description: "Link sent", schema: confirmationSchema },
+      400: { description: "Your email is already verified", schema: errorSchema },
+      ...sessionErrors,
+      429: {
+        description: "A link was sent recently",
+        schema: errorSchema,
+        headers: { "Retry-After": "Seconds until a link can be sent again" },
+      },
+      500: { description: "The email could not be sent", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "acceptInvitation",
+    method: "post",
+    path: "/api/auth/invitation",
+    summary: "Accept an invitation before signing in with a provider",
+    description: "Sign up with a password by passing the token to POST /api/auth/signup instead.",
+    tag: "Auth",
+    auth: "public",
+    body: acceptInvitationSchema,
+    responses: {
+      200: { description: "Invitation ready", schema: confirmationSchema, headers: intentCookie },
+      400: {
+        description: "Invalid fields, or an invalid or expired invitation",
+        schema: z.union([validationErrorSchema, errorSchema]),
+      },
+    },
+  },
+  {
+    operationId: "requestReactivation",
+    method: "post",
+    path: "/api/auth/reactivation",
+    summary: "Ask an admin to reactivate your deactivated account",
+    tag: "Auth",
+    auth: "session",
+    body: reactivationSchema,
+    responses: {
+      201: {
+        description: "Request submitted",
+        schema: z.object({ request: reactivationRequestSchema }),
+      },
+      400: invalidBody,
+      ...sessionErrors,
+      409: { description: "Already active, or a request is pending", schema: errorSchema },
+    },
+  },
+  {
+    operationId: "stopImpersonation",
+    method: "delete",
+    path: "/api/auth/impersonation",
+    summary: "Return to your own account after impersonating a user",
+    description: "Call update() on the session afterwards to pick up your own claims.",
+    tag: "Auth",
+    auth: "session",
+    responses: {
+      200: { description: "Impersonation stopped", schema: confirmationSchema },
+      400: { description: "Not impersonating", schema: errorSchema },
+      401: notSignedIn,
+    },
+  },
+  {
+    operationId: "listScimUsers",
+    method: "get",
+    path: "/api/scim/v2/Users",
+    summary: "List or filter users",
+    tag: "SCIM",
+    auth: "scim",
+    query: scimListQuerySchema,
+    responses: {
+      200: scimResource("A page of users", scimUserListSchema),
+      400: scimError("Unsupported filter"),
+      ...scimErrors,
+    },
+  },
+  {
+    operationId: "createScimUser",
+    method: "post",
+    path: "/api/scim/v2/Users",
+    summary: "Provision a user",
+    tag: "SCIM",
+    auth: "scim",
+    body: scimUserInputSchema,
+    responses: {
+      201: {
+        ...scimResource("User created", scimUserSchema),
+        headers: { Location: "URL of the new user" },
+      },
+      400: scimError("Invalid user"),
+      ...scimErrors,
+      409: scimError("The userName is taken"),
+    },
+  },
+  {
+    operationId: "getScimUser",
+    method: "get",
+    path: "/api/scim/v2/Users/{id}",
+    summary: "Get a user",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    responses: {
+      200: scimResource("The user", scimUserSchema),
+      ...scimErrors,
+      404: scimError("No such user"),
+    },
+  },
+  {
+    operationId: "replaceScimUser",
+    method: "put",
+    path: "/api/scim/v2/Users/{id}",
+    summary: "Replace a user's attributes",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    body: scimUserInputSchema,
+    responses: {
+      200: scimResource("The updated user", scimUserSchema),
+      400: scimError("Invalid user"),
+      ...scimErrors,
+      404: scimError("No such user"),
+      409: scimError("The userName is taken"),
+    },
+  },
+  {
+    operationId: "patchScimUser",
+    method: "patch",
+    path: "/api/scim/v2/Users/{id}",
+    summary: "Change some of a user's attributes",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    body: scimPatchSchema,
+    responses: {
+      200: scimResource("The updated user", scimUserSchema),
+      400: scimError("Invalid operation"),
+      ...scimErrors,
+      404: scimError("No such user"),
+      409: scimError("The userName is taken"),
+    },
+  },
+  {
+    operationId: "deprovisionScimUser",
+    method: "delete",
+    path: "/api/scim/v2/Users/{id}",
+    summary: "Deprovision a user",
+    description: "The user is deactivated and signed out rather than deleted.",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    responses: {
+      204: { description: "User deprovisioned" },
+      ...scimErrors,
+      404: scimError("No such user"),
+    },
+  },
+  {
+    operationId: "listScimGroups",
+    method: "get",
+    path: "/api/scim/v2/Groups",
+    summary: "List roles as groups",
+    tag: "SCIM",
+    auth: "scim",
+    query: scimGroupListQuerySchema,
+    responses: {
+      200: scimResource("A page of groups", scimGroupListSchema),
+      400: scimError("Unsupported filter"),
+      ...scimErrors,
+    },
+  },
+  {
+    operationId: "getScimGroup",
+    method: "get",
+    path: "/api/scim/v2/Groups/{id}",
+    summary: "Get a role as a group",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    responses: {
+      200: scimResource("The group", scimGroupSchema),
+      ...scimErrors,
+      404: scimError("No such group"),
+    },
+  },
+  {
+    operationId: "replaceScimGroup",
+    method: "put",
+    path: "/api/scim/v2/Groups/{id}",
+    summary: "Set a group's members",
+    description: "Members added get the role; members removed get the default role.",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    body: scimGroupInputSchema,
+    responses: {
+      200: scimResource("The updated group", scimGroupSchema),
+      400: scimError("Invalid or unknown members, or a temporary-only role"),
+      ...scimErrors,
+      404: scimError("No such group"),
+      409: scimError("A member holds a temporary role"),
+    },
+  },
+  {
+    operationId: "patchScimGroup",
+    method: "patch",
+    path: "/api/scim/v2/Groups/{id}",
+    summary: "Add or remove a group's members",
+    tag: "SCIM",
+    auth: "scim",
+    params: idParamsSchema,
+    body: scimPatchSchema,
+    responses: {
+      200: scimResource("The updated group", scimGroupSchema),
+      400: scimError("Invalid operation, unknown members, or a temporary-only role"),
+      ...scimErrors,
+      404: scimError("No such group"),
+      409: scimError("A member holds a temporary role"),
+    },
+  },
+  {
+    operationId: "sendAvatarMessage",
+    method: "post",
+    path: "/api/avatar/chat",
+    summary: "Send a chat message and stream the reply",
+    description: "Signed-in users' conversations are stored under their own id.",
+    tag: "Avatar",
+    auth: "public",
+    body: avatarChatRequestSchema,
+    responses: {
+      200: {
+        description: "Server-sent events from the chat model",
+        contentType: "text/event-stream",
+      },
+      400: { description: "Empty message", schema: avatarErrorSchema },
+      429: rateLimited,
+      500: { description: "The chat model is unavailable", schema: avatarErrorSchema },
+    },
+  },
+  {
+    operationId: "getAvatarChatStatus",
+    method: "get",
+    path: "/api/avatar/chat",
+    summary: "Describe the chat endpoint",
+    tag: "Avatar",
+    auth: "public",
+    responses: {
+      200: { description: "Endpoint status", schema: serviceStatusSchema },
+    },
+  },
+  {
+    operationId: "synthesizeSpeech",
+    method: "post",
+    path: "/api/avatar/tts",
+    summary: "Convert text to speech, falling back across providers",
+    tag: "Avatar",
+    auth: "public",
+    body: ttsRequestSchema,
+    responses: {
+      200: {
+        ...audioResponse("audio/mpeg"),
+        headers: { "X-TTS-Provider": "Provider that produced the audio" },
+      },
+      400: { description: "Empty text or invalid settings", schema: avatarErrorSchema },
+      429: rateLimited,
+      503: { description: "Every provider failed", schema: avatarErrorSchema },
+    },
+  },
+  {
+    operationId: "getSpeechStatus",
+    method: "get",
+    path: "/api/avatar/tts",
+    summary: "List the configured speech providers",
+    tag: "Avatar",
+    auth: "public",
+    responses: {
+      200: { description: "Provider status", schema: serviceStatusSchema },
+    },
+  },
+  {
+    operationId: "synthesizeMmsSpeech",
+    method: "post",
+    path: "/api/avatar/tts-hf",
+    summary: "Convert text to speech with MMS-TTS",
+    tag: "Avatar",
+    auth: "public",
+    body: mmsTtsRequestSchema,
+    responses: {
+      200: audioResponse("audio/wav"),
+      400: { description: "Empty text", schema: avatarErrorSchema },
+      429: rateLimited,
+      500: { description: "MMS-TTS is not configured", schema: avatarErrorSchema },
+    },
+  },
+  {
+    operationId: "getMmsSpeechStatus",
+    method: "get",
+    path: "/api/avatar/tts-hf",
+    summary: "Describe the MMS-TTS endpoint",
+    tag: "Avatar",
+    auth: "public",
+    responses: {
+      200: { description: "Endpoint status", schema: serviceStatusSchema },
+    },
+  },
+  {
+    operationId: "getHealth",
+    method: "get",
+    path: "/api/health",
+    summary: "Report service health",
+    tag: "System",
+    auth: "public",
+    responses: {
+      200: { description: "The service is up", schema: healthSchema },
+    },
+  },
+  {
+    operationId: "checkHealth",
+    method: "head",
+    path: "/api/health",
+    summary: "Check service health without a body",
+    tag: "System",
+    auth: "public",
+    responses: {
+      200: { description: "The service is up" },
+    },
+  },
+  {
+    operationId: "getOpenApiDocument",
+    method: "get",
+    path: "/api/openapi.json",
+    summary: "This API description",
+    tag: "System",
+    auth: "public",
+    responses: {
+      200: { description: "OpenAPI 3.1 document", contentType: "application/json" },
+    },
+  },
+  {
+    operationId: "runAccountDeletions",
+    method: "get",
+    path: "/api/cron/account-deletions",
+    summary: "Delete accounts whose grace period has ended",
+    description: "Called by the scheduler with CRON_SECRET as a bearer token.",
+    tag: "System",
+    auth: "cron",
+    responses: {
+      200: { description: "Deletions run", schema: cronDeletionsSchema },
+      401: { description: "Missing or wrong CRON_SECRET", schema: errorSchema },
+    },
+  },
+];
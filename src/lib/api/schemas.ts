@@ -0,0 +1,749 @@
+import { z, type ZodTypeAny } from "zod";
+
+import {
+  ACCOUNT_LINKING,
+  API_TOKEN,
+  INVITATIONS,
+  REACTIVATION,
+  ROLE_GRANTS,
+  USER_IMPORT,
+  USER_QUERY,
+  WORKSPACES,
+} from "@/lib/auth/constants";
+import { profileUpdateSchema } from "@/lib/auth/profile-service";
+import { Permission } from "@/types/auth";
+
+/**
+ * Request and response bodies of the public API routes. Routes validate with
+ * these, and the OpenAPI document and the typed client are generated from them.
+ */
+
+const timestamp = z.string().datetime();
+
+// Query-string booleans
+const booleanParam = z.enum(["true", "false"]).transform(value => value === "true");
+
+// Errors from the user routes
+export const errorSchema = z.object({
+  error: z.string(),
+});
+
+export const validationErrorSchema = z.object({
+  error: z.literal("Validation failed"),
+  details: z.array(
+    z
+      .object({
+        path: z.array(z.union([z.string(), z.number()])),
+        message: z.string(),
+      })
+      .passthrough()
+  ),
+});
+
+// 429 from the rate limiter, with a Retry-After header
+export const rateLimitedSchema = z.object({
+  error: z.literal("Too many requests"),
+  retryAfter: z.number().int().describe("Seconds until a request is allowed again"),
+});
+
+// Errors and confirmations from the admin routes
+export const messageSchema = z.object({
+  message: z.string(),
+  details: z.array(z.object({ message: z.string() }).passthrough()).optional(),
+});
+
+export const permissionSchema = z.nativeEnum(Permission);
+
+// Success responses that only confirm what happened
+export const confirmationSchema = z.object({
+  message: z.string(),
+});
+
+// Password rejected by the password policy
+export const passwordRejectedSchema = z.object({
+  error: z.literal("Password does not meet requirements"),
+  details: z.array(z.string()),
+});
+
+const linkedAccountSchema = z.object({
+  provider: z.string(),
+  providerAccountId: z.string(),
+  email: z.string().nullable(),
+  emailVerified: z.boolean(),
+  linkedAt: timestamp,
+});
+
+/**
+ * A user as API routes return it, without credential secrets
+ */
+export const publicUserSchema = z.object({
+  id: z.string(),
+  email: z.string().email(),
+  name: z.string().nullable(),
+  image: z.string().nullable(),
+  username: z.string().nullable(),
+  role: z.string().describe("Account role"),
+  permissions: z.array(permissionSchema).optional(),
+  permissionOverrides: z
+    .object({
+      granted: z.array(permissionSchema),
+      revoked: z.array(permissionSchema),
+    })
+    .optional(),
+  provider: z.string().nullable().describe("Provider the account was created with"),
+  providerId: z.string(),
+  accounts: z.array(linkedAccountSchema).optional(),
+  externalId: z.string().nullable().optional(),
+  isActive: z.boolean(),
+  emailVerified: z.boolean(),
+  twoFactorEnabled: z.boolean(),
+  lastLoginAt: timestamp.optional(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  metadata: z.record(z.unknown()).optional(),
+  workspaceId: z.string().optional(),
+  workspaceRole: z.string().optional().describe("Role in the active workspace"),
+});
+
+// GET /api/users and GET /api/admin/users
+export const userQuerySchema = z.object({
+  search: z.string().trim().max(200).optional().describe("Matches name, email and username"),
+  role: z.string().min(1).optional(),
+  provider: z.string().min(1).optional(),
+  emailVerified: booleanParam.optional(),
+  isActive: booleanParam.optional(),
+  sortBy: z.enum(USER_QUERY.SORT_FIELDS).optional(),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  limit: z.coerce.number().int().min(1).max(USER_QUERY.MAX_LIMIT).optional(),
+  cursor: z.string().min(1).optional().describe("nextCursor of the previous page"),
+});
+
+export const userPageSchema = z.object({
+  users: z.array(publicUserSchema),
+  total: z.number().int().describe("Users matching the search and filters, across all pages"),
+  nextCursor: z.string().nullable().describe("null on the last page"),
+});
+
+export const adminUserPageSchema = userPageSchema.extend({
+  lockouts: z.record(timestamp).describe("Sign-in lockout ends, keyed by user id"),
+});
+
+// /api/users/[id] and the admin routes under /api/admin/users/[id]
+export const userIdParamsSchema = z.object({
+  id: z.string(),
+});
+
+export const ifMatchHeadersSchema = z.object({
+  "If-Match": z.string().optional().describe("ETag of the user the change was based on"),
+});
+
+export const userUpdateSchema = z.object({
+  name: z.string().min(1).max(100).nullable().optional(),
+  username: z
+    .string()
+    .regex(/^[a-zA-Z0-9_]*$/)
+    .max(50)
+    .nullable()
+    .optional(),
+  image: z.string().url().nullable().optional(),
+  role: z.string().min(1).optional().describe("Role in the active workspace"),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const userConflictSchema = errorSchema.extend({
+  user: publicUserSchema,
+});
+
+export const userRoleUpdateSchema = z.object({
+  role: z.string().min(1),
+});
+
+export const userStatusUpdateSchema = z.object({
+  isActive: z.boolean(),
+});
+
+export const adminUserResultSchema = z.object({
+  message: z.string(),
+  user: publicUserSchema.nullable(),
+});
+
+export const adminUserConflictSchema = z.object({
+  message: z.string(),
+  user: publicUserSchema,
+});
+
+// PATCH /api/user/profile
+export { profileUpdateSchema };
+
+export const updatedProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable().optional(),
+  username: z.string().nullable().optional(),
+  email: z.string().email(),
+  emailVerified: z.boolean().optional(),
+  image: z.string().nullable().optional(),
+  role: z.string(),
+  updatedAt: timestamp,
+});
+
+// /api/avatar/*
+export const avatarChatRequestSchema = z.object({
+  message: z.string().trim().min(1, "Message is required"),
+  conversationId: z.string().optional(),
+});
+
+const ttsText = z.string().trim().min(1, "Text is required");
+const voiceSetting = z.number().min(0).max(1).optional();
+
+export const ttsRequestSchema = z.object({
+  text: ttsText,
+  language: z.string().optional().describe("ISO 639-1 code, vi by default"),
+  provider: z.enum(["auto", "azure", "huggingface", "elevenlabs"]).optional(),
+  voiceId: z.string().optional(),
+  gender: z.enum(["male", "female"]).optional().describe("Azure voice selection"),
+  stability: voiceSetting,
+  similarityBoost: voiceSetting,
+  style: voiceSetting,
+  useSpeakerBoost: z.boolean().optional(),
+});
+
+export const mmsTtsRequestSchema = z.object({
+  text: ttsText,
+  language: z.string().optional().describe("ISO 639-1 code, vi by default"),
+});
+
+export const avatarErrorSchema = z.object({
+  error: z.string(),
+  details: z.string().optional(),
+  message: z.string().optional(),
+  instructions: z.string().optional(),
+});
+
+export const serviceStatusSchema = z
+  .object({
+    message: z.string(),
+    endpoint: z.string(),
+  })
+  .passthrough();
+
+// GET /api/health
+export const healthSchema = z.object({
+  status: z.literal("healthy"),
+  timestamp,
+  service: z.string(),
+  version: z.string(),
+  environment: z.string(),
+  uptime: z.number().describe("Seconds since the server started"),
+  checks: z.record(z.string()),
+});
+
+export type HealthStatus = z.infer<typeof healthSchema>;
+
+// Path parameter of routes addressing one record by id
+export const idParamsSchema = z.object({
+  id: z.string(),
+});
+
+// /api/auth/*
+export const signupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  email: z.string().email(),
+  password: z.string(),
+  inviteToken: z.string().optional().describe("From an invitation accept link"),
+});
+
+export const signupResultSchema = z.object({
+  user: publicUserSchema,
+  verificationRequired: z.boolean(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string(),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const emailVerifiedSchema = confirmationSchema.extend({
+  email: z.string().email(),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const reactivationSchema = z.object({
+  reason: z.string().trim().min(1).max(REACTIVATION.REASON_MAX_LENGTH),
+});
+
+export const reactivationRequestSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  email: z.string().describe("At the time of the request"),
+  reason: z.string(),
+  status: z.enum(["pending", "approved", "denied"]),
+  createdAt: timestamp,
+  decidedAt: timestamp.optional(),
+  decidedBy: z.string().optional(),
+  decisionNote: z.string().nullable().optional().describe("Shown to the user"),
+});
+
+// /api/user/*
+export const linkedAccountsSchema = z.object({
+  accounts: z.array(
+    z.object({
+      provider: z.string(),
+      email: z.string().nullable(),
+      linkedAt: timestamp,
+    })
+  ),
+  hasPassword: z.boolean(),
+  providers: z.array(z.string()).describe("Providers that can be connected"),
+});
+
+export const connectProviderSchema = z.object({
+  provider: z.enum(ACCOUNT_LINKING.PROVIDERS),
+});
+
+export const dataExportQuerySchema = z.object({
+  format: z.enum(["json", "zip"]).optional().describe("json by default"),
+});
+
+export const requestDeletionSchema = z.object({
+  confirmEmail: z.string().min(1, "Type your email to confirm"),
+});
+
+export const accountDeletionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  requestedAt: timestamp,
+  scheduledFor: timestamp,
+  cancelledAt: timestamp.optional(),
+  completedAt: timestamp.optional(),
+});
+
+export const roleGrantSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  email: z.string().describe("At the time of the request"),
+  role: z.string(),
+  duration: z.number().int().describe("Seconds, counted from activation"),
+  justification: z.string(),
+  status: z.enum(["pending", "active", "denied", "expired", "revoked"]),
+  requestedBy: z.string(),
+  requestedAt: timestamp,
+  decidedBy: z.string().optional(),
+  decidedAt: timestamp.optional(),
+  decisionNote: z.string().nullable().optional(),
+  previousRole: z.string().optional(),
+  expiresAt: timestamp.optional(),
+  endedAt: timestamp.optional(),
+  endedBy: z.string().optional(),
+});
+
+export const roleGrantRequestSchema = z.object({
+  role: z.string().min(1, "Role is required"),
+  duration: z.number().int().min(60).max(ROLE_GRANTS.MAX_DURATION).describe("Seconds"),
+  justification: z
+    .string()
+    .trim()
+    .min(ROLE_GRANTS.JUSTIFICATION_MIN_LENGTH, "Explain why you need the role")
+    .max(ROLE_GRANTS.JUSTIFICATION_MAX_LENGTH),
+});
+
+export const sessionListSchema = z.object({
+  sessions: z.array(
+    z.object({
+      id: z.string(),
+      userAgent: z.string().nullable(),
+      ipAddress: z.string().nullable(),
+      createdAt: timestamp,
+      lastSeenAt: timestamp,
+      expiresAt: timestamp,
+      current: z.boolean().describe("The session making the request"),
+    })
+  ),
+});
+
+export const revokedSessionsSchema = confirmationSchema.extend({
+  count: z.number().int(),
+});
+
+export const apiTokenSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  prefix: z.string().describe("First characters of the token"),
+  scopes: z.array(permissionSchema),
+  createdAt: timestamp,
+  expiresAt: timestamp.nullable().describe("null when the token never expires"),
+  lastUsedAt: timestamp.optional(),
+  revokedAt: timestamp.optional(),
+});
+
+export const createTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  scopes: z.array(permissionSchema),
+  expiresInDays: z
+    .number()
+    .refine(days => (API_TOKEN.EXPIRY_OPTIONS as readonly number[]).includes(days), {
+      message: "Unsupported expiry",
+    })
+    .nullable()
+    .describe(`One of ${API_TOKEN.EXPIRY_OPTIONS.join(", ")}, or null for no expiry`),
+});
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean().describe("The user's role requires two-factor authentication"),
+  recoveryCodesRemaining: z.number().int(),
+});
+
+export const twoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+  qrCode: z.string().describe("PNG data URL of the otpauth URI"),
+});
+
+export const disableTwoFactorSchema = z.object({
+  code: z.string().min(1, "Authentication code is required"),
+});
+
+export const verifyEnrollmentSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export const userWorkspacesSchema = z.object({
+  workspaces: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      slug: z.string(),
+      role: z.string().describe("The user's role in the workspace"),
+    })
+  ),
+  activeWorkspaceId: z.string().nullable(),
+});
+
+export const switchWorkspaceSchema = z.object({
+  workspaceId: z.string().min(1),
+});
+
+// /api/admin/* bodies the routes still check field by field, with their own messages
+const decisionSchema = (noteMaxLength: number) =>
+  z.object({
+    decision: z.enum(["approve", "deny"]),
+    note: z.string().max(noteMaxLength).nullable().optional().describe("Shown to the user"),
+  });
+
+export const statusQuerySchema = (statuses: [string, ...string[]]) =>
+  z.object({
+    status: z.enum(statuses).optional(),
+  });
+
+export const invitationSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: z.string(),
+  invitedBy: z.string(),
+  createdAt: timestamp,
+  expiresAt: timestamp,
+  lastSentAt: timestamp,
+  acceptedAt: timestamp.optional(),
+  acceptedBy: z.string().optional(),
+  revokedAt: timestamp.optional(),
+  status: z.enum(["pending", "accepted", "expired", "revoked"]),
+});
+
+export const invitationCreateSchema = z.object({
+  email: z.string().email(),
+  role: z.string().min(1),
+  expiresInDays: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      `One of ${INVITATIONS.EXPIRY_OPTIONS.join(", ")}; ${INVITATIONS.DEFAULT_EXPIRY} by default`
+    ),
+});
+
+export const invitationDeliverySchema = z.object({
+  invitation: invitationSchema,
+  inviteUrl: z.string(),
+  delivered: z.boolean().describe("false when the email could not be sent"),
+});
+
+export const reactivationDecisionSchema = decisionSchema(REACTIVATION.NOTE_MAX_LENGTH);
+
+export const roleGrantDecisionSchema = decisionSchema(ROLE_GRANTS.NOTE_MAX_LENGTH);
+
+export const roleGrantCreateSchema = z.object({
+  userId: z.string(),
+  role: z.string().min(1),
+  duration: z.number().int().min(60).max(ROLE_GRANTS.MAX_DURATION).describe("Seconds"),
+  justification: z
+    .string()
+    .min(ROLE_GRANTS.JUSTIFICATION_MIN_LENGTH)
+    .max(ROLE_GRANTS.JUSTIFICATION_MAX_LENGTH),
+});
+
+export const roleDefinitionSchema = z.object({
+  role: z.string(),
+  label: z.string(),
+  permissions: z.array(permissionSchema),
+  description: z.string(),
+  level: z.number().int().describe("Higher levels outrank lower ones"),
+  isDefault: z.boolean().optional(),
+  isSystem: z.boolean().optional().describe("Built-in roles cannot be deleted"),
+  requireTwoFactor: z.boolean().optional(),
+  createdAt: timestamp.optional(),
+  updatedAt: timestamp.optional(),
+});
+
+export const roleCreateSchema = z.object({
+  role: z
+    .string()
+    .regex(/^[A-Z][A-Z0-9_]{1,31}$/)
+    .describe("2-32 uppercase letters, digits or underscores"),
+  label: z.string().min(1),
+  description: z.string().optional(),
+  level: z.number().int().min(1),
+  permissions: z.array(permissionSchema),
+  requireTwoFactor: z.boolean().optional(),
+});
+
+export const roleUpdateSchema = roleCreateSchema.omit({ role: true }).partial();
+
+export const roleParamsSchema = z.object({
+  role: z.string(),
+});
+
+export const accessQuerySchema = z.object({
+  path: z.string().optional().describe("Path to explain, e.g. /admin"),
+  permission: permissionSchema.optional().describe("Permission to explain"),
+  workspaceId: z.string().optional().describe("The user's default workspace when omitted"),
+});
+
+export const accessExplanationSchema = z.object({
+  user: z.object({
+    id: z.string(),
+    email: z.string(),
+    role: z.string(),
+    isActive: z.boolean(),
+    workspaceId: z.string().optional(),
+    workspaceRole: z.string().optional(),
+  }),
+  decision: z
+    .object({
+      path: z.string(),
+      matchedPattern: z.string().nullable(),
+      access: z.string(),
+      requiredPermissions: z.array(permissionSchema),
+      missingPermissions: z.array(permissionSchema),
+      allowed: z.boolean(),
+    })
+    .passthrough()
+    .optional()
+    .describe("With ?path="),
+  permission: z
+    .object({
+      permission: permissionSchema,
+      granted: z.boolean(),
+      effectiveRole: z.string(),
+      fromRole: z.boolean(),
+      override: z.enum(["granted", "revoked"]).nullable(),
+    })
+    .optional()
+    .describe("With ?permission="),
+});
+
+export const impersonationStartSchema = z.object({
+  reason: z.string().max(500).optional(),
+  allowDestructive: z.boolean().optional().describe("Let state-changing requests through"),
+});
+
+export const impersonationSchema = confirmationSchema.extend({
+  impersonation: z.object({
+    targetUserId: z.string(),
+    startedAt: timestamp,
+    expiresAt: timestamp,
+    allowDestructive: z.boolean(),
+    reason: z.string().optional(),
+  }),
+});
+
+export const permissionOverridesUpdateSchema = z.object({
+  granted: z.array(permissionSchema).optional(),
+  revoked: z.array(permissionSchema).optional(),
+});
+
+export const userExportQuerySchema = userQuerySchema.omit({ limit: true, cursor: true }).extend({
+  format: z.enum(["csv", "json"]).optional().describe("csv by default"),
+});
+
+export const userImportSchema = z.object({
+  format: z.enum(["csv", "json"]),
+  content: z.string().max(USER_IMPORT.MAX_FILE_SIZE).describe("The file's text"),
+  dryRun: z.boolean().optional().describe("true by default: report changes without writing"),
+});
+
+export const userImportResultSchema = z.object({
+  dryRun: z.boolean(),
+  rows: z.array(
+    z
+      .object({
+        row: z.number().int(),
+        email: z.string(),
+        action: z.enum(["create", "update", "unchanged", "error"]),
+        errors: z.array(z.string()),
+        userId: z.string().optional(),
+      })
+      .passthrough()
+  ),
+  summary: z.object({
+    create: z.number().int(),
+    update: z.number().int(),
+    unchanged: z.number().int(),
+    error: z.number().int(),
+  }),
+});
+
+export const workspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  createdAt: timestamp,
+  createdBy: z.string().nullable().describe("null for the built-in default workspace"),
+});
+
+export const workspaceCreateSchema = z.object({
+  name: z.string().trim().min(1).max(WORKSPACES.NAME_MAX_LENGTH),
+});
+
+export const workspaceMembershipSchema = z.object({
+  workspaceId: z.string(),
+  userId: z.string(),
+  role: z.string(),
+  joinedAt: timestamp,
+});
+
+export const workspaceMemberParamsSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+});
+
+export const workspaceMemberUpdateSchema = z.object({
+  role: z.string().min(1),
+});
+
+// /api/scim/v2/* (RFC 7643/7644), served as application/scim+json
+export const scimErrorSchema = z.object({
+  schemas: z.array(z.string()),
+  status: z.string(),
+  scimType: z.string().optional(),
+  detail: z.string(),
+});
+
+const scimMetaSchema = z.object({
+  resourceType: z.enum(["User", "Group"]),
+  created: timestamp.optional(),
+  lastModified: timestamp.optional(),
+  location: z.string(),
+});
+
+const scimReferenceSchema = z.object({
+  value: z.string(),
+  display: z.string().optional(),
+  $ref: z.string().optional(),
+});
+
+export const scimUserSchema = z.object({
+  schemas: z.array(z.string()),
+  id: z.string(),
+  externalId: z.string().optional(),
+  userName: z.string().describe("The user's email"),
+  name: z
+    .object({
+      formatted: z.string().optional(),
+      givenName: z.string().optional(),
+      familyName: z.string().optional(),
+    })
+    .optional(),
+  displayName: z.string().optional(),
+  emails: z.array(
+    z.object({ value: z.string(), type: z.string().optional(), primary: z.boolean().optional() })
+  ),
+  active: z.boolean(),
+  groups: z.array(scimReferenceSchema),
+  meta: scimMetaSchema,
+});
+
+export const scimGroupSchema = z.object({
+  schemas: z.array(z.string()),
+  id: z.string(),
+  displayName: z.string(),
+  members: z.array(scimReferenceSchema).optional(),
+  meta: scimMetaSchema,
+});
+
+const scimListSchema = (resource: ZodTypeAny) =>
+  z.object({
+    schemas: z.array(z.string()),
+    totalResults: z.number().int(),
+    startIndex: z.number().int(),
+    itemsPerPage: z.number().int(),
+    Resources: z.array(resource),
+  });
+
+export const scimUserListSchema = scimListSchema(scimUserSchema);
+
+export const scimGroupListSchema = scimListSchema(scimGroupSchema);
+
+export const scimListQuerySchema = z.object({
+  filter: z.string().optional().describe('e.g. userName eq "ada@example.com"'),
+  startIndex: z.coerce.number().int().min(1).optional(),
+  count: z.coerce.number().int().min(0).optional(),
+});
+
+export const scimGroupListQuerySchema = scimListQuerySchema.extend({
+  excludedAttributes: z.string().optional().describe("members leaves out the member lists"),
+});
+
+// Only these User attributes are read; others are accepted and ignored
+export const scimUserInputSchema = z
+  .object({
+    userName: z.string().describe("The user's email"),
+    displayName: z.string().optional(),
+    name: z.object({ formatted: z.string().optional() }).passthrough().optional(),
+    externalId: z.string().optional(),
+    active: z.boolean().optional().describe("Omit to keep the current status"),
+  })
+  .passthrough();
+
+export const scimGroupInputSchema = z
+  .object({
+    members: z.array(scimReferenceSchema.pick({ value: true })),
+  })
+  .passthrough();
+
+export const scimPatchSchema = z.object({
+  schemas: z.array(z.string()),
+  Operations: z.array(
+    z.object({
+      op: z.string().describe("add, replace or remove"),
+      path: z.string().optional(),
+      value: z.unknown().optional(),
+    })
+  ),
+});
+
+// GET /api/cron/account-deletions
+export const cronDeletionsSchema = z.object({
+  deleted: z.number().int().describe("Accounts deleted in this run"),
+});
@@ -160,6 +160,19 @@ describe("Audit Service", () => {
       expect(entry.action).toBe(AuditAction.USER_DEACTIVATED);
       expect(entry.severity).toBe(AuditSeverity.CRITICAL);
     });
+
+    it("should log a denied reactivation request", async () => {
+      const entry = await logUserStatusChange({
+        userId: "admin-1",
+        targetUserId: "user-1",
+        action: "deny",
+        reactivationRequestId: "request-1",
+      });
+
+      expect(entry.action).toBe(AuditAction.REACTIVATION_DENIED);
+      expect(entry.severity).toBe(AuditSeverity.INFO);
+      expect(entry.metadata).toEqual({ reactivationRequestId: "request-1" });
+    });
   });
 
   describe("logAuthentication", () => {
@@ -19,6 +19,7 @@ export async function createAuditLog(params: CreateAuditLogParams): Promise<Audi
     severity: params.severity ?? getSeverityForAction(params.action),
     userId: params.userId,
     targetUserId: params.targetUserId,
+    workspaceId: params.workspaceId,
     metadata: params.metadata,
     ipAddress: params.ipAddress,
     userAgent: params.userAgent,
@@ -34,6 +35,7 @@ export async function createAuditLog(params: CreateAuditLogParams): Promise<Audi
     severity: entry.severity,
     userId: entry.userId,
     targetUserId: entry.targetUserId,
+    workspaceId: entry.workspaceId,
     timestamp: entry.timestamp.toISOString(),
     details: entry.details,
   });
@@ -47,6 +49,7 @@ export async function createAuditLog(params: CreateAuditLogParams): Promise<Audi
 export async function getAuditLogs(options?: {
   userId?: string;
   targetUserId?: string;
+  workspaceId?: string;
   action?: AuditAction;
   startDate?: Date;
   endDate?: Date;
@@ -62,6 +65,10 @@ export async function getAuditLogs(options?: {
     filtered = filtered.filter(log => log.targetUserId === options.targetUserId);
   }
 
+  if (options?.workspaceId) {
+    filtered = filtered.filter(log => log.workspaceId === options.workspaceId);
+  }
+
   if (options?.action) {
     filtered = filtered.filter(log => log.action === options.action);
   }
@@ -107,9 +114,27 @@ export async function getTargetUserAuditLogs(
 export async function getSecurityEvents(limit = 50): Promise<AuditLogEntry[]> {
   const securityActions = [
     AuditAction.LOGIN_FAILED,
+    AuditAction.ACCOUNT_LOCKED,
+    AuditAction.ACCOUNT_UNLOCKED,
     AuditAction.UNAUTHORIZED_ACCESS_ATTEMPT,
     AuditAction.PERMISSION_DENIED,
     AuditAction.ROLE_CHANGED,
+    AuditAction.ROLE_UPDATED,
+    AuditAction.ROLE_DELETED,
+    AuditAction.USER_PERMISSIONS_CHANGED,
+    AuditAction.ROLE_GRANT_APPROVED,
+    AuditAction.ROLE_GRANTED,
+    AuditAction.ROLE_GRANT_REVOKED,
+    AuditAction.ROLE_GRANT_EXPIRED,
+    AuditAction.EMAIL_CHANGED,
+    AuditAction.ACCOUNT_DELETION_REQUESTED,
+    AuditAction.ACCOUNT_DELETED,
+    AuditAction.USER_IMPORT_UPDATED,
+    AuditAction.USER_PROVISIONING_UPDATED,
+    AuditAction.WORKSPACE_MEMBER_ROLE_CHANGED,
+    AuditAction.WORKSPACE_MEMBER_REMOVED,
+    AuditAction.IMPERSONATION_STARTED,
+    AuditAction.IMPERSONATED_REQUEST_BLOCKED,
   ];
 
   const filtered = auditLogs.filter(log => securityActions.includes(log.action));
@@ -117,6 +142,67 @@ export async function getSecurityEvents(limit = 50): Promise<AuditLogEntry[]> {
   return filtered.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()).slice(0, limit);
 }
 
+/**
+ * Pseudonymize a deleted user in the audit log. Entries are kept as the security
+ * record under the user's id, but the user's current and past email addresses
+ * are replaced with the placeholder wherever they appear, and the IP address and
+ * user agent of the user's own requests are dropped. Returns the number of
+ * entries changed.
+ */
+export async function anonymizeUserAuditLogs(params: {
+  userId: string;
+  email: string;
+  placeholder: string;
+}): Promise<number> {
+  const emails = new Set([params.email.toLowerCase()]);
+  for (const entry of auditLogs) {
+    if (entry.userId === params.userId || entry.targetUserId === params.userId) {
+      for (const value of [entry.metadata?.email, entry.metadata?.previousEmail]) {
+        if (typeof value === "string") {
+          emails.add(value.toLowerCase());
+        }
+      }
+    }
+  }
+
+  const escaped = Array.from(emails, email => email.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(escaped.join("|"), "gi");
+  let anonymized = 0;
+
+  for (const entry of auditLogs) {
+    let changed = false;
+
+    if (entry.metadata) {
+      for (const [key, value] of Object.entries(entry.metadata)) {
+        const scrubbed =
+          typeof value === "string" ? value.replace(pattern, params.placeholder) : value;
+        if (scrubbed !== value) {
+          entry.metadata[key] = scrubbed;
+          changed = true;
+        }
+      }
+    }
+
+    const details = entry.details?.replace(pattern, params.placeholder);
+    if (details !== entry.details) {
+      entry.details = details;
+      changed = true;
+    }
+
+    if (entry.userId === params.userId && (entry.ipAddress || entry.userAgent)) {
+      delete entry.ipAddress;
+      delete entry.userAgent;
+      changed = true;
+    }
+
+    if (changed) {
+      anonymized++;
+    }
+  }
+
+  return anonymized;
+}
+
 /**
  * Determine severity based on action
  */
@@ -124,19 +210,71 @@ function getSeverityForAction(action: AuditAction): AuditSeverity {
   switch (action) {
     case AuditAction.LOGIN_FAILED:
     case AuditAction.PERMISSION_DENIED:
+    case AuditAction.PASSWORD_RESET_COMPLETED:
+    case AuditAction.EMAIL_CHANGED:
+    case AuditAction.ACCOUNT_DELETION_REQUESTED:
+    case AuditAction.ACCOUNT_DELETED:
+    case AuditAction.ROLE_CREATED:
+    case AuditAction.ACCOUNT_LINKED:
+    case AuditAction.ACCOUNT_UNLINKED:
+    case AuditAction.ALL_SESSIONS_REVOKED:
+    case AuditAction.ACCOUNT_UNLOCKED:
+    case AuditAction.TWO_FACTOR_DISABLED:
+    case AuditAction.TWO_FACTOR_CHALLENGE_FAILED:
+    case AuditAction.TWO_FACTOR_RECOVERY_CODE_USED:
+    case AuditAction.USER_IMPORT_UPDATED:
+    case AuditAction.USER_PROVISIONING_UPDATED:
+    case AuditAction.WORKSPACE_MEMBER_REMOVED:
+    case AuditAction.ROLE_GRANT_REVOKED:
+    case AuditAction.IMPERSONATION_STARTED:
+    case AuditAction.IMPERSONATED_REQUEST_BLOCKED:
       return AuditSeverity.WARNING;
 
     case AuditAction.UNAUTHORIZED_ACCESS_ATTEMPT:
+    case AuditAction.ACCOUNT_LOCKED:
       return AuditSeverity.ERROR;
 
     case AuditAction.ROLE_CHANGED:
     case AuditAction.USER_DEACTIVATED:
+    case AuditAction.ROLE_UPDATED:
+    case AuditAction.ROLE_DELETED:
+    case AuditAction.USER_PERMISSIONS_CHANGED:
+    case AuditAction.WORKSPACE_MEMBER_ROLE_CHANGED:
+    case AuditAction.ROLE_GRANT_APPROVED:
+    case AuditAction.ROLE_GRANTED:
       return AuditSeverity.CRITICAL;
 
     case AuditAction.LOGIN_SUCCESS:
     case AuditAction.LOGOUT:
     case AuditAction.PERMISSION_GRANTED:
     case AuditAction.USER_ACTIVATED:
+    case AuditAction.REACTIVATION_REQUESTED:
+    case AuditAction.REACTIVATION_DENIED:
+    case AuditAction.ROLE_GRANT_REQUESTED:
+    case AuditAction.ROLE_GRANT_DENIED:
+    case AuditAction.ROLE_GRANT_EXPIRED:
+    case AuditAction.USER_REGISTERED:
+    case AuditAction.PASSWORD_RESET_REQUESTED:
+    case AuditAction.EMAIL_VERIFICATION_SENT:
+    case AuditAction.EMAIL_VERIFIED:
+    case AuditAction.SESSION_REVOKED:
+    case AuditAction.API_TOKEN_CREATED:
+    case AuditAction.API_TOKEN_REVOKED:
+    case AuditAction.INVITATION_CREATED:
+    case AuditAction.INVITATION_RESENT:
+    case AuditAction.INVITATION_REVOKED:
+    case AuditAction.INVITATION_ACCEPTED:
+    case AuditAction.USER_IMPORTED:
+    case AuditAction.USER_PROVISIONED:
+    case AuditAction.DATA_EXPORTED:
+    case AuditAction.ACCOUNT_DELETION_CANCELLED:
+    case AuditAction.WORKSPACE_CREATED:
+    case AuditAction.WORKSPACE_MEMBER_ADDED:
+    case AuditAction.WORKSPACE_SWITCHED:
+    case AuditAction.IMPERSONATION_STOPPED:
+    case AuditAction.IMPERSONATED_REQUEST:
+    case AuditAction.TWO_FACTOR_ENABLED:
+    case AuditAction.TWO_FACTOR_CHALLENGE_SUCCEEDED:
       return AuditSeverity.INFO;
 
     default:
@@ -171,26 +309,550 @@ export async function logRoleChange(params: {
 }
 
 /**
- * Helper to log user status change events
+ * Helper to log temporary role grants: requests, decisions, direct grants,
+ * revocations and expiry. userId is whoever acted, the grantee for expiry.
+ */
+export async function logRoleGrantEvent(params: {
+  userId: string;
+  targetUserId: string;
+  event: "requested" | "approved" | "denied" | "granted" | "revoked" | "expired";
+  grantId: string;
+  role: string;
+  previousRole?: string;
+  expiresAt?: Date;
+  justification?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    requested: AuditAction.ROLE_GRANT_REQUESTED,
+    approved: AuditAction.ROLE_GRANT_APPROVED,
+    denied: AuditAction.ROLE_GRANT_DENIED,
+    granted: AuditAction.ROLE_GRANTED,
+    revoked: AuditAction.ROLE_GRANT_REVOKED,
+    expired: AuditAction.ROLE_GRANT_EXPIRED,
+  }[params.event];
+
+  const until = params.expiresAt ? ` until ${params.expiresAt.toISOString()}` : "";
+  const details = {
+    requested: `Temporary ${params.role} role requested`,
+    approved: `Temporary ${params.role} role approved${until}`,
+    denied: `Temporary ${params.role} role denied`,
+    granted: `Temporary ${params.role} role granted${until}`,
+    revoked: `Temporary ${params.role} role revoked, reverted to ${params.previousRole}`,
+    expired: `Temporary ${params.role} role expired, reverted to ${params.previousRole}`,
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    metadata: {
+      grantId: params.grantId,
+      role: params.role,
+      previousRole: params.previousRole,
+      expiresAt: params.expiresAt?.toISOString(),
+      justification: params.justification,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details,
+  });
+}
+
+/**
+ * Helper to log role definition create/update/delete events
+ */
+export async function logRoleDefinitionChange(params: {
+  userId: string;
+  action: "create" | "update" | "delete";
+  role: string;
+  permissions?: string[];
+  level?: number;
+  requireTwoFactor?: boolean;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    create: AuditAction.ROLE_CREATED,
+    update: AuditAction.ROLE_UPDATED,
+    delete: AuditAction.ROLE_DELETED,
+  }[params.action];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    metadata: {
+      role: params.role,
+      permissions: params.permissions,
+      level: params.level,
+      requireTwoFactor: params.requireTwoFactor,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `Role ${params.role} ${params.action}d`,
+  });
+}
+
+/**
+ * Helper to log per-user permission grant/revoke changes
+ */
+export async function logPermissionOverrideChange(params: {
+  userId: string;
+  targetUserId: string;
+  granted: string[];
+  revoked: string[];
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  return createAuditLog({
+    action: AuditAction.USER_PERMISSIONS_CHANGED,
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    metadata: {
+      granted: params.granted,
+      revoked: params.revoked,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `Permission overrides set (granted: ${params.granted.length}, revoked: ${params.revoked.length})`,
+  });
+}
+
+/**
+ * Helper to log a provider identity being linked to or unlinked from a user
+ */
+export async function logAccountLinkChange(params: {
+  userId: string;
+  action: "link" | "unlink";
+  provider: string;
+  automatic?: boolean; // Linked by matching verified email rather than an explicit connect
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  return createAuditLog({
+    action: params.action === "link" ? AuditAction.ACCOUNT_LINKED : AuditAction.ACCOUNT_UNLINKED,
+    userId: params.userId,
+    targetUserId: params.userId,
+    metadata: {
+      provider: params.provider,
+      automatic: params.automatic,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `${params.provider} account ${params.action}ed`,
+  });
+}
+
+/**
+ * Helper to log sessions being revoked, either one session or all of a user's sessions
+ */
+export async function logSessionRevocation(params: {
+  userId: string;
+  targetUserId: string;
+  sessionId?: string; // Omitted when every session was revoked
+  count: number;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  return createAuditLog({
+    action: params.sessionId ? AuditAction.SESSION_REVOKED : AuditAction.ALL_SESSIONS_REVOKED,
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    metadata: {
+      sessionId: params.sessionId,
+      count: params.count,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: params.sessionId ? "Session revoked" : `${params.count} session(s) revoked`,
+  });
+}
+
+/**
+ * Helper to log personal access token events
+ */
+export async function logApiTokenEvent(params: {
+  userId: string;
+  event: "created" | "revoked";
+  tokenId: string;
+  name: string;
+  scopes?: string[];
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  return createAuditLog({
+    action:
+      params.event === "created" ? AuditAction.API_TOKEN_CREATED : AuditAction.API_TOKEN_REVOKED,
+    userId: params.userId,
+    targetUserId: params.userId,
+    metadata: {
+      tokenId: params.tokenId,
+      name: params.name,
+      scopes: params.scopes,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `API token "${params.name}" ${params.event}`,
+  });
+}
+
+/**
+ * Helper to log invitation lifecycle events. userId is the admin for
+ * created/resent/revoked and the invitee for accepted.
+ */
+export async function logInvitationEvent(params: {
+  userId: string;
+  event: "created" | "resent" | "revoked" | "accepted";
+  invitationId: string;
+  email: string;
+  role: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    created: AuditAction.INVITATION_CREATED,
+    resent: AuditAction.INVITATION_RESENT,
+    revoked: AuditAction.INVITATION_REVOKED,
+    accepted: AuditAction.INVITATION_ACCEPTED,
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    ...(params.event === "accepted" && { targetUserId: params.userId }),
+    metadata: {
+      invitationId: params.invitationId,
+      email: params.email,
+      role: params.role,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `Invitation for ${params.email} as ${params.role} ${params.event}`,
+  });
+}
+
+/**
+ * Helper to log one row of a bulk user import. Updates that change a role or
+ * deactivate a user are logged as critical, like the single-user routes.
+ */
+export async function logUserImport(params: {
+  userId: string;
+  targetUserId: string;
+  event: "created" | "updated";
+  email: string;
+  row: number;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const isCritical =
+    params.event === "updated" &&
+    (params.changes.role !== undefined || params.changes.isActive?.to === false);
+
+  return createAuditLog({
+    action:
+      params.event === "created" ? AuditAction.USER_IMPORTED : AuditAction.USER_IMPORT_UPDATED,
+    ...(isCritical && { severity: AuditSeverity.CRITICAL }),
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    metadata: {
+      email: params.email,
+      row: params.row,
+      changes: params.changes,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `User ${params.email} ${params.event} by import (row ${params.row})`,
+  });
+}
+
+/**
+ * Helper to log users created or updated by SCIM provisioning. Role and status
+ * changes are logged separately with logRoleChange and logUserStatusChange,
+ * like the admin routes.
+ */
+export async function logProvisioningEvent(params: {
+  userId: string;
+  targetUserId: string;
+  event: "created" | "updated";
+  email: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  return createAuditLog({
+    action:
+      params.event === "created"
+        ? AuditAction.USER_PROVISIONED
+        : AuditAction.USER_PROVISIONING_UPDATED,
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    metadata: {
+      email: params.email,
+      changes: params.changes,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `User ${params.email} ${params.event} by SCIM provisioning`,
+  });
+}
+
+/**
+ * Helper to log admin impersonation. userId is always the admin and
+ * targetUserId the impersonated user, including for each request made while
+ * impersonating.
+ */
+export async function logImpersonationEvent(params: {
+  adminId: string;
+  targetUserId: string;
+  event: "started" | "stopped" | "expired" | "request" | "blocked";
+  method?: string;
+  path?: string;
+  reason?: string;
+  allowDestructive?: boolean;
+  workspaceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    started: AuditAction.IMPERSONATION_STARTED,
+    stopped: AuditAction.IMPERSONATION_STOPPED,
+    expired: AuditAction.IMPERSONATION_STOPPED,
+    request: AuditAction.IMPERSONATED_REQUEST,
+    blocked: AuditAction.IMPERSONATED_REQUEST_BLOCKED,
+  }[params.event];
+
+  const details = {
+    started: "Impersonation started",
+    stopped: "Impersonation stopped",
+    expired: "Impersonation expired",
+    request: `${params.method} ${params.path} while impersonating`,
+    blocked: `${params.method} ${params.path} blocked while impersonating`,
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.adminId,
+    targetUserId: params.targetUserId,
+    workspaceId: params.workspaceId,
+    metadata: {
+      impersonatorId: params.adminId,
+      method: params.method,
+      path: params.path,
+      reason: params.reason,
+      allowDestructive: params.allowDestructive,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details,
+  });
+}
+
+/**
+ * Helper to log workspace creation, membership changes and workspace switches.
+ * The entry is recorded in the workspace, so its admins see it in their audit log.
+ */
+export async function logWorkspaceEvent(params: {
+  userId: string;
+  workspaceId: string;
+  event: "created" | "member_added" | "member_role_changed" | "member_removed" | "switched";
+  targetUserId?: string;
+  oldRole?: string;
+  newRole?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    created: AuditAction.WORKSPACE_CREATED,
+    member_added: AuditAction.WORKSPACE_MEMBER_ADDED,
+    member_role_changed: AuditAction.WORKSPACE_MEMBER_ROLE_CHANGED,
+    member_removed: AuditAction.WORKSPACE_MEMBER_REMOVED,
+    switched: AuditAction.WORKSPACE_SWITCHED,
+  }[params.event];
+
+  const details = {
+    created: "Workspace created",
+    member_added: `Member added as ${params.newRole}`,
+    member_role_changed: `Workspace role changed from ${params.oldRole} to ${params.newRole}`,
+    member_removed: "Member removed",
+    switched: "Switched to workspace",
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    workspaceId: params.workspaceId,
+    metadata: {
+      oldRole: params.oldRole,
+      newRole: params.newRole,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details,
+  });
+}
+
+/**
+ * Helper to log email verification links, completed verifications and email
+ * changes
+ */
+export async function logEmailVerificationEvent(params: {
+  userId: string;
+  event: "sent" | "verified" | "changed";
+  email: string;
+  previousEmail?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    sent: AuditAction.EMAIL_VERIFICATION_SENT,
+    verified: AuditAction.EMAIL_VERIFIED,
+    changed: AuditAction.EMAIL_CHANGED,
+  }[params.event];
+
+  const details = {
+    sent: `Verification link sent to ${params.email}`,
+    verified: `Email ${params.email} verified`,
+    changed: `Email changed from ${params.previousEmail} to ${params.email}`,
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    targetUserId: params.userId,
+    metadata: {
+      email: params.email,
+      ...(params.previousEmail && { previousEmail: params.previousEmail }),
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details,
+  });
+}
+
+/**
+ * Helper to log personal data exports and account deletion (GDPR) events
+ */
+export async function logPrivacyEvent(params: {
+  userId: string;
+  event: "exported" | "deletion_requested" | "deletion_cancelled" | "deleted";
+  format?: string;
+  scheduledFor?: Date;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    exported: AuditAction.DATA_EXPORTED,
+    deletion_requested: AuditAction.ACCOUNT_DELETION_REQUESTED,
+    deletion_cancelled: AuditAction.ACCOUNT_DELETION_CANCELLED,
+    deleted: AuditAction.ACCOUNT_DELETED,
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    targetUserId: params.userId,
+    metadata: {
+      format: params.format,
+      scheduledFor: params.scheduledFor?.toISOString(),
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: {
+      exported: "Personal data exported",
+      deletion_requested: "Account deletion requested",
+      deletion_cancelled: "Account deletion cancelled",
+      deleted: "Account deleted",
+    }[params.event],
+  });
+}
+
+/**
+ * Helper to log two-factor enrollment and sign-in challenge events
+ */
+export async function logTwoFactorEvent(params: {
+  userId: string;
+  event: "enabled" | "disabled" | "challenge_succeeded" | "challenge_failed" | "recovery_code_used";
+  remainingRecoveryCodes?: number;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  const auditAction = {
+    enabled: AuditAction.TWO_FACTOR_ENABLED,
+    disabled: AuditAction.TWO_FACTOR_DISABLED,
+    challenge_succeeded: AuditAction.TWO_FACTOR_CHALLENGE_SUCCEEDED,
+    challenge_failed: AuditAction.TWO_FACTOR_CHALLENGE_FAILED,
+    recovery_code_used: AuditAction.TWO_FACTOR_RECOVERY_CODE_USED,
+  }[params.event];
+
+  return createAuditLog({
+    action: auditAction,
+    userId: params.userId,
+    targetUserId: params.userId,
+    metadata: {
+      remainingRecoveryCodes: params.remainingRecoveryCodes,
+    },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: `Two-factor ${params.event.replace(/_/g, " ")}`,
+  });
+}
+
+/**
+ * Helper to log user status change events. "deny" records a reactivation
+ * request that was turned down, leaving the user inactive.
  */
 export async function logUserStatusChange(params: {
   userId: string;
   targetUserId: string;
-  action: "activate" | "deactivate";
+  action: "activate" | "deactivate" | "deny";
+  reactivationRequestId?: string;
   ipAddress?: string;
   userAgent?: string;
 }): Promise<AuditLogEntry> {
-  const auditAction =
-    params.action === "activate" ? AuditAction.USER_ACTIVATED : AuditAction.USER_DEACTIVATED;
+  const auditAction = {
+    activate: AuditAction.USER_ACTIVATED,
+    deactivate: AuditAction.USER_DEACTIVATED,
+    deny: AuditAction.REACTIVATION_DENIED,
+  }[params.action];
 
   return createAuditLog({
     action: auditAction,
     severity: params.action === "deactivate" ? AuditSeverity.CRITICAL : AuditSeverity.INFO,
     userId: params.userId,
     targetUserId: params.targetUserId,
+    ...(params.reactivationRequestId && {
+      metadata: { reactivationRequestId: params.reactivationRequestId },
+    }),
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: {
+      activate: "User activated",
+      deactivate: "User deactivated",
+      deny: "Reactivation request denied",
+    }[params.action],
+  });
+}
+
+/**
+ * Helper to log a deactivated user asking for their account back
+ */
+export async function logReactivationRequest(params: {
+  userId: string;
+  reactivationRequestId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<AuditLogEntry> {
+  return createAuditLog({
+    action: AuditAction.REACTIVATION_REQUESTED,
+    userId: params.userId,
+    targetUserId: params.userId,
+    metadata: { reactivationRequestId: params.reactivationRequestId },
     ipAddress: params.ipAddress,
     userAgent: params.userAgent,
-    details: `User ${params.action === "activate" ? "activated" : "deactivated"}`,
+    details: "Reactivation requested",
   });
 }
 
@@ -225,6 +887,7 @@ export async function logUnauthorizedAccess(params: {
   userId?: string;
   requestedResource: string;
   requiredPermission?: string;
+  workspaceId?: string;
   ipAddress?: string;
   userAgent?: string;
 }): Promise<AuditLogEntry> {
@@ -232,6 +895,7 @@ export async function logUnauthorizedAccess(params: {
     action: AuditAction.UNAUTHORIZED_ACCESS_ATTEMPT,
     severity: AuditSeverity.ERROR,
     userId: params.userId,
+    workspaceId: params.workspaceId,
     metadata: {
       requestedResource: params.requestedResource,
       requiredPermission: params.requiredPermission,
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  cancelAccountDeletion,
+  getPendingAccountDeletion,
+  processDueAccountDeletions,
+  requestAccountDeletion,
+} from "../account-deletion";
+import { ACCOUNT_DELETION } from "../constants";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { createUser, getUserById } from "../user-service";
+import { getAuditLogs, logAuthentication } from "@/lib/audit/audit-service";
+import { AuditAction } from "@/types/audit";
+import { UserRole, type User } from "@/types/auth";
+
+// Deletion requests live in a module-level map, so each test uses its own user
+let counter = 0;
+
+async function createMember(): Promise<User> {
+  const id = `deletion_${++counter}`;
+  const now = new Date();
+  return createUser({
+    id,
+    email: `${id}@example.com`,
+    name: "Member",
+    image: null,
+    username: null,
+    role: UserRole.USER,
+    provider: "credentials",
+    providerId: id,
+    isActive: true,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+const GRACE_PERIOD_MS = ACCOUNT_DELETION.GRACE_PERIOD * 24 * 60 * 60 * 1000;
+
+describe("Account deletion", () => {
+  const fetchMock = vi.fn();
+
+  let repository: InMemoryUserRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryUserRepository();
+    setUserRepository(repository);
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z"), toFake: ["Date"] });
+    vi.stubGlobal("fetch", fetchMock);
+    // Dify has no avatar conversations for the user
+    fetchMock.mockImplementation(async () => Response.json({ data: [], has_more: false }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockReset();
+  });
+
+  it("should schedule a deletion after the grace period and refuse a second one", async () => {
+    const user = await createMember();
+
+    const record = await requestAccountDeletion(user.id);
+
+    expect(record.scheduledFor.getTime() - record.requestedAt.getTime()).toBe(GRACE_PERIOD_MS);
+    expect(await getPendingAccountDeletion(user.id)).toEqual(record);
+    await expect(requestAccountDeletion(user.id)).rejects.toThrow("already scheduled");
+  });
+
+  it("should keep the account when the deletion is cancelled", async () => {
+    const user = await createMember();
+    await requestAccountDeletion(user.id);
+
+    expect(await cancelAccountDeletion(user.id)).not.toBeNull();
+    expect(await cancelAccountDeletion(user.id)).toBeNull();
+
+    vi.setSystemTime(Date.now() + GRACE_PERIOD_MS);
+    expect(await processDueAccountDeletions()).not.toContain(user.id);
+    expect(await getUserById(user.id)).not.toBeNull();
+  });
+
+  it("should delete the account only once the grace period has ended", async () => {
+    const user = await createMember();
+    await requestAccountDeletion(user.id);
+
+    expect(await processDueAccountDeletions()).not.toContain(user.id);
+
+    vi.setSystemTime(Date.now() + GRACE_PERIOD_MS);
+    expect(await processDueAccountDeletions()).toContain(user.id);
+    expect(await getUserById(user.id)).toBeNull();
+    expect(await getPendingAccountDeletion(user.id)).toBeNull();
+  });
+
+  it("should leave the deletion pending when Dify cannot be reached", async () => {
+    const user = await createMember();
+    await requestAccountDeletion(user.id);
+    fetchMock.mockImplementation(async () => new Response(null, { status: 503 }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    vi.setSystemTime(Date.now() + GRACE_PERIOD_MS);
+    expect(await processDueAccountDeletions()).not.toContain(user.id);
+    expect(await getUserById(user.id)).not.toBeNull();
+    expect(await getPendingAccountDeletion(user.id)).not.toBeNull();
+  });
+
+  it("should leave the deletion pending when the user cannot be deleted", async () => {
+    const user = await createMember();
+    await requestAccountDeletion(user.id);
+    vi.spyOn(repository, "delete").mockResolvedValue(false);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    vi.setSystemTime(Date.now() + GRACE_PERIOD_MS);
+    expect(await processDueAccountDeletions()).not.toContain(user.id);
+    expect(await getPendingAccountDeletion(user.id)).not.toBeNull();
+  });
+
+  it("should scrub the email and request details from the retained audit log", async () => {
+    const user = await createMember();
+    await logAuthentication({
+      action: AuditAction.LOGIN_SUCCESS,
+      userId: user.id,
+      email: user.email,
+      ipAddress: "203.0.113.7",
+      userAgent: "Browser",
+    });
+    await logAuthentication({
+      action: AuditAction.LOGIN_FAILED,
+      email: user.email.toUpperCase(),
+      reason: `Wrong password for ${user.email}`,
+    });
+    await requestAccountDeletion(user.id);
+
+    vi.setSystemTime(Date.now() + GRACE_PERIOD_MS);
+    expect(await processDueAccountDeletions()).toContain(user.id);
+
+    const entries = JSON.stringify(await getAuditLogs());
+    expect(entries).not.toMatch(new RegExp(user.email, "i"));
+    expect(entries).not.toContain("203.0.113.7");
+    expect((await getAuditLogs({ userId: user.id })).length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import {
+  consumeLinkIntent,
+  createLinkIntent,
+  isProviderEmailVerified,
+  resolveOAuthSignIn,
+  type OAuthIdentity,
+} from "../account-linking";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import {
+  getLinkedAccounts,
+  getUserByEmail,
+  getUserById,
+  getUserByProviderAccount,
+  registerCredentialsUser,
+  unlinkProviderAccount,
+} from "../user-service";
+
+const googleIdentity: OAuthIdentity = {
+  provider: "google",
+  providerAccountId: "google-1",
+  email: "Jane@Example.com",
+  emailVerified: true,
+  name: "Jane",
+  image: null,
+  username: null,
+};
+
+const githubIdentity: OAuthIdentity = {
+  ...googleIdentity,
+  provider: "github",
+  providerAccountId: "github-1",
+  emailVerified: false,
+};
+
+describe("Account linking", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+  });
+
+  it("should create one user per new identity with a generated id", async () => {
+    const result = await resolveOAuthSignIn(googleIdentity);
+
+    expect(result.status).toBe("created");
+    if (result.status !== "created") {
+      return;
+    }
+    expect(result.user.id).not.toBe("google-1");
+    expect(result.user.email).toBe("jane@example.com");
+    expect((await getUserByProviderAccount("google", "google-1"))?.id).toBe(result.user.id);
+  });
+
+  it("should sign an already linked identity in to the same user", async () => {
+    const created = await resolveOAuthSignIn(googleIdentity);
+    const again = await resolveOAuthSignIn(googleIdentity);
+
+    expect(again.status).toBe("signed-in");
+    expect(again.status !== "error" && again.user.id).toBe(
+      created.status !== "error" && created.user.id
+    );
+  });
+
+  it("should auto-link a verified email to a verified account", async () => {
+    const result = await resolveOAuthSignIn({ ...googleIdentity, email: "admin@example.com" });
+
+    expect(result.status).toBe("linked");
+    const admin = await getUserById("1");
+    expect(getLinkedAccounts(admin!).map(a => a.provider)).toEqual(["google"]);
+  });
+
+  it("should refuse to auto-link when either side has not verified the email", async () => {
+    // GitHub emails are never trusted
+    const unverifiedProvider = await resolveOAuthSignIn({
+      ...githubIdentity,
+      email: "admin@example.com",
+    });
+
+    // Self-registered credentials accounts start unverified
+    await registerCredentialsUser({
+      email: "jane@example.com",
+      password: "password123",
+      name: "Jane",
+    });
+    const unverifiedAccount = await resolveOAuthSignIn(googleIdentity);
+
+    expect(unverifiedProvider).toEqual({ status: "error", error: "OAuthAccountNotLinked" });
+    expect(unverifiedAccount).toEqual({ status: "error", error: "OAuthAccountNotLinked" });
+  });
+
+  it("should link any identity through an explicit connect request", async () => {
+    const result = await resolveOAuthSignIn(
+      { ...githubIdentity, email: "someone-else@example.com" },
+      "3"
+    );
+
+    expect(result.status).toBe("linked");
+    expect((await getUserByProviderAccount("github", "github-1"))?.id).toBe("3");
+    expect(await getUserByEmail("someone-else@example.com")).toBeNull();
+  });
+
+  it("should verify an account's email when a connected provider has verified it", async () => {
+    const user = await registerCredentialsUser({
+      email: "jane@example.com",
+      password: "password123",
+      name: "Jane",
+    });
+
+    await resolveOAuthSignIn(githubIdentity, user.id);
+    expect((await getUserById(user.id))?.emailVerified).toBe(false);
+
+    const result = await resolveOAuthSignIn(googleIdentity, user.id);
+    expect(result.status).toBe("linked");
+    expect((await getUserById(user.id))?.emailVerified).toBe(true);
+  });
+
+  it("should not move an identity that already belongs to another user", async () => {
+    await resolveOAuthSignIn(googleIdentity);
+
+    const result = await resolveOAuthSignIn(googleIdentity, "3");
+
+    expect(result).toEqual({ status: "error", error: "AccountAlreadyLinked" });
+  });
+
+  it("should refuse to unlink the only sign-in method", async () => {
+    const created = await resolveOAuthSignIn(googleIdentity);
+    const userId = created.status !== "error" ? created.user.id : "";
+
+    await expect(unlinkProviderAccount(userId, "google")).rejects.toThrow("only sign-in method");
+
+    await resolveOAuthSignIn(githubIdentity, userId);
+    const user = await unlinkProviderAccount(userId, "google");
+
+    expect(getLinkedAccounts(user!).map(a => a.provider)).toEqual(["github"]);
+    expect(await getUserByProviderAccount("google", "google-1")).toBeNull();
+  });
+
+  it("should only accept a link intent once and for the requested provider", () => {
+    const token = createLinkIntent("3", "github");
+    expect(consumeLinkIntent(token, "google")).toBeNull();
+
+    const second = createLinkIntent("3", "github");
+    expect(consumeLinkIntent(second, "github")).toBe("3");
+    expect(consumeLinkIntent(second, "github")).toBeNull();
+  });
+
+  it("should only trust provider-verified emails", () => {
+    expect(isProviderEmailVerified("google", { email_verified: true })).toBe(true);
+    expect(isProviderEmailVerified("discord", { verified: false })).toBe(false);
+    expect(isProviderEmailVerified("github", { email: "a@b.c" })).toBe(false);
+  });
+});
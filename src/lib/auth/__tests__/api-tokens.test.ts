@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  authenticateApiToken,
+  createApiToken,
+  getBearerToken,
+  listUserApiTokens,
+  revokeApiToken,
+} from "../api-tokens";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { createUser, updateUserPermissionOverrides } from "../user-service";
+import { withAuth } from "@/lib/middleware/auth";
+import { Permission, UserRole } from "@/types/auth";
+
+// Session cookies are never present in these tests
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn().mockResolvedValue(null),
+}));
+
+// Tokens live in a module-level map, so each test uses its own user id
+let userCounter = 0;
+
+async function createTestUser(role: UserRole = UserRole.EDITOR) {
+  const id = `token_user_${++userCounter}`;
+  const now = new Date();
+  return createUser({
+    id,
+    email: `${id}@tokens.example.com`,
+    name: "Token User",
+    image: null,
+    username: null,
+    role,
+    provider: "credentials",
+    providerId: id,
+    isActive: true,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+describe("API tokens", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("should read bearer tokens from the Authorization header", () => {
+    expect(getBearerToken(new Headers({ authorization: "Bearer fep_abc" }))).toBe("fep_abc");
+    expect(getBearerToken(new Headers({ authorization: "Basic dXNlcjpwYXNz" }))).toBeNull();
+    expect(getBearerToken(new Headers())).toBeNull();
+  });
+
+  it("should resolve a token to its user with scopes intersected with permissions", async () => {
+    const user = await createTestUser();
+    const { token, apiToken } = await createApiToken({
+      userId: user.id,
+      name: "CI",
+      scopes: [Permission.READ_USER],
+      expiresInDays: 30,
+    });
+
+    expect(token.startsWith("fep_")).toBe(true);
+    expect(apiToken).not.toHaveProperty("tokenHash");
+    expect(apiToken.scopes).toEqual([Permission.ACCESS_API, Permission.READ_USER]);
+
+    const resolved = await authenticateApiToken(token);
+    expect(resolved?.id).toBe(user.id);
+    expect(resolved?.permissions).toEqual(
+      expect.arrayContaining([Permission.ACCESS_API, Permission.READ_USER])
+    );
+    expect(resolved?.permissions).not.toContain(Permission.UPDATE_USER);
+
+    // Permissions the user loses are dropped from the token too
+    await updateUserPermissionOverrides(user.id, {
+      granted: [],
+      revoked: [Permission.READ_USER],
+    });
+    expect((await authenticateApiToken(token))?.permissions).toEqual([Permission.ACCESS_API]);
+  });
+
+  it("should refuse scopes the user does not have", async () => {
+    const user = await createTestUser(UserRole.USER);
+
+    await expect(
+      createApiToken({
+        userId: user.id,
+        name: "Escalation",
+        scopes: [Permission.MANAGE_USER_ROLES],
+        expiresInDays: null,
+      })
+    ).rejects.toThrow("Cannot grant permissions you do not have: MANAGE_USER_ROLES");
+  });
+
+  it("should track last use and stop working once revoked or expired", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const user = await createTestUser();
+      const { token, apiToken } = await createApiToken({
+        userId: user.id,
+        name: "Script",
+        scopes: [],
+        expiresInDays: 7,
+      });
+
+      await authenticateApiToken(token);
+      const [listed] = await listUserApiTokens(user.id);
+      expect(listed?.lastUsedAt).toBeInstanceOf(Date);
+
+      vi.advanceTimersByTime(8 * 24 * 60 * 60 * 1000);
+      expect(await authenticateApiToken(token)).toBeNull();
+      expect(await listUserApiTokens(user.id)).toEqual([]);
+      expect(await revokeApiToken(user.id, apiToken.id)).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const user = await createTestUser();
+    const { token, apiToken } = await createApiToken({
+      userId: user.id,
+      name: "Script",
+      scopes: [],
+      expiresInDays: null,
+    });
+
+    expect(await revokeApiToken("someone_else", apiToken.id)).toBeNull();
+    expect((await revokeApiToken(user.id, apiToken.id))?.name).toBe("Script");
+    expect(await authenticateApiToken(token)).toBeNull();
+  });
+
+  it("should authenticate withAuth requests using the token's scopes", async () => {
+    const user = await createTestUser();
+    const { token } = await createApiToken({
+      userId: user.id,
+      name: "Reader",
+      scopes: [Permission.READ_USER],
+      expiresInDays: null,
+    });
+
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+    const request = (bearer: string) =>
+      new NextRequest("http://localhost/api/users", {
+        headers: { authorization: `Bearer ${bearer}` },
+      });
+
+    const readUsers = withAuth(handler, { requiredPermissions: [Permission.READ_USER] });
+    expect((await readUsers(request(token))).status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ user: expect.objectContaining({ id: user.id }) })
+    );
+
+    const updateUsers = withAuth(handler, { requiredPermissions: [Permission.UPDATE_USER] });
+    expect((await updateUsers(request(token))).status).toBe(403);
+
+    expect((await readUsers(request("fep_unknown"))).status).toBe(401);
+  });
+});
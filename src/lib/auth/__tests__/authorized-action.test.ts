@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+
+import { actionFailure, actionSuccess, authorizedAction } from "../authorized-action";
+import { Permission, UserRole } from "@/types/auth";
+import { signInAs } from "@/test/utils/route-auth";
+
+// Mock dependencies
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+vi.mock("next/headers", () => ({
+  headers: vi.fn(
+    async () => new Headers({ "user-agent": "vitest", "x-forwarded-for": "10.0.0.1" })
+  ),
+}));
+
+vi.mock("@/lib/audit/audit-service", () => ({
+  logUnauthorizedAccess: vi.fn(),
+}));
+
+import { logUnauthorizedAccess } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+
+const renameSchema = z.object({ name: z.string().min(1, "Name is required") });
+
+describe("authorizedAction", () => {
+  const handler = vi.fn(async (input: { name: string }) => actionSuccess({ renamed: input.name }));
+  const rename = authorizedAction(
+    renameSchema,
+    { name: "rename", minRole: UserRole.EDITOR, permissions: [Permission.UPDATE_CONTENT] },
+    handler
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rejects and audits signed-out callers", async () => {
+    vi.mocked(auth).mockResolvedValue(null as any);
+
+    const result = await rename({ name: "Draft" });
+
+    expect(result).toEqual({
+      ok: false,
+      error: { code: "UNAUTHENTICATED", message: "Not authenticated" },
+    });
+    expect(logUnauthorizedAccess).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestedResource: "action:rename",
+        ipAddress: "10.0.0.1",
+        userAgent: "vitest",
+      })
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("compares the minimum role through the hierarchy", async () => {
+    signInAs(UserRole.USER);
+    const denied = await rename({ name: "Draft" });
+
+    expect(denied).toEqual({
+      ok: false,
+      error: { code: "FORBIDDEN", message: "Insufficient role" },
+    });
+    expect(logUnauthorizedAccess).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "actor", requiredPermission: "role:EDITOR" })
+    );
+
+    signInAs(UserRole.ADMIN);
+    expect(await rename({ name: "Draft" })).toEqual({ ok: true, data: { renamed: "Draft" } });
+  });
+
+  it("requires every listed permission", async () => {
+    signInAs(UserRole.EDITOR, {
+      permissionOverrides: { granted: [], revoked: [Permission.UPDATE_CONTENT] },
+    });
+
+    const result = await rename({ name: "Draft" });
+
+    expect(result).toEqual({
+      ok: false,
+      error: { code: "FORBIDDEN", message: "Insufficient permissions" },
+    });
+    expect(logUnauthorizedAccess).toHaveBeenCalledWith(
+      expect.objectContaining({ requiredPermission: Permission.UPDATE_CONTENT })
+    );
+  });
+
+  it("returns field errors for invalid input without auditing", async () => {
+    signInAs(UserRole.EDITOR);
+
+    const result = await rename({ name: "" });
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        code: "VALIDATION",
+        message: "Validation failed",
+        fieldErrors: { name: ["Name is required"] },
+      },
+    });
+    expect(logUnauthorizedAccess).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("passes parsed input and the caller to the handler", async () => {
+    signInAs(UserRole.EDITOR);
+
+    await rename({ name: "Draft" });
+
+    expect(handler).toHaveBeenCalledWith(
+      { name: "Draft" },
+      expect.objectContaining({
+        user: expect.objectContaining({ id: "actor" }),
+        ipAddress: "10.0.0.1",
+        userAgent: "vitest",
+      })
+    );
+  });
+
+  it("passes handler failures through and hides thrown errors", async () => {
+    signInAs(UserRole.USER);
+    const lookup = authorizedAction(renameSchema, {}, async () =>
+      actionFailure("NOT_FOUND", "User not found")
+    );
+    const broken = authorizedAction(renameSchema, {}, async () => {
+      throw new Error("database offline");
+    });
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await lookup({ name: "Draft" })).toEqual({
+      ok: false,
+      error: { code: "NOT_FOUND", message: "User not found" },
+    });
+    expect(await broken({ name: "Draft" })).toEqual({
+      ok: false,
+      error: { code: "INTERNAL", message: "Internal server error" },
+    });
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { disableDemoPasswords, inviteFirstAdmin } from "../bootstrap";
+import { getInvitationByToken } from "../invitations";
+import { DEFAULT_USERS, InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { getUserById } from "../user-service";
+import { setMailTransport, type MailMessage } from "@/lib/mail/mailer";
+import { UserRole, type User } from "@/types/auth";
+
+const owner: User = {
+  id: "owner",
+  email: "owner@bootstrap.example.com",
+  name: "Owner",
+  image: null,
+  username: null,
+  role: UserRole.ADMIN,
+  provider: "credentials",
+  providerId: "owner",
+  isActive: true,
+  emailVerified: true,
+  createdAt: new Date("2024-06-01"),
+  updatedAt: new Date("2024-06-01"),
+};
+
+describe("bootstrap", () => {
+  let sent: MailMessage[];
+
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+    sent = [];
+    setMailTransport({ name: "test", send: async message => void sent.push(message) });
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+    setMailTransport(null);
+  });
+
+  it("clears the published passwords of seeded demo accounts", async () => {
+    const changed = { ...DEFAULT_USERS[2]!, passwordHash: "scrypt$changed" };
+    setUserRepository(new InMemoryUserRepository([DEFAULT_USERS[0]!, DEFAULT_USERS[1]!, changed]));
+
+    expect(await disableDemoPasswords([DEFAULT_USERS[0]!, DEFAULT_USERS[1]!, changed])).toEqual([
+      "1",
+      "2",
+    ]);
+    expect((await getUserById("1"))?.passwordHash).toBeNull();
+    expect((await getUserById("3"))?.passwordHash).toBe("scrypt$changed");
+  });
+
+  it("invites the first administrator until one exists", async () => {
+    const email = "first-admin@bootstrap.example.com";
+
+    const first = await inviteFirstAdmin(DEFAULT_USERS, email);
+    const second = await inviteFirstAdmin(DEFAULT_USERS, email);
+
+    expect(sent.map(message => message.to)).toEqual([email, email]);
+    const token = (url: string | null) => new URL(url!).searchParams.get("token")!;
+    // Each start replaces the link
+    expect(await getInvitationByToken(token(first))).toBeNull();
+    expect(await getInvitationByToken(token(second))).toMatchObject({
+      email,
+      role: UserRole.ADMIN,
+    });
+
+    expect(await inviteFirstAdmin([owner], email)).toBeNull();
+  });
+});
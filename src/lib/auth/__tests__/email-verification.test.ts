@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  consumeEmailVerificationToken,
+  createEmailVerificationToken,
+  getVerificationResendWait,
+  isEmailVerificationTokenValid,
+} from "../email-verification";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { getUserById, registerCredentialsUser, updateUser } from "../user-service";
+import type { User } from "@/types/auth";
+
+// Tokens live in a module-level map, so each test registers its own user
+let counter = 0;
+
+async function registerUser(): Promise<User> {
+  return registerCredentialsUser({
+    email: `verify-${++counter}@example.com`,
+    password: "password123",
+    name: "Verify",
+  });
+}
+
+describe("Email verification", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+    vi.useRealTimers();
+  });
+
+  it("should verify the email once per token", async () => {
+    const user = await registerUser();
+    const token = await createEmailVerificationToken(user);
+
+    expect(await isEmailVerificationTokenValid(token)).toBe(true);
+    expect((await consumeEmailVerificationToken(token))?.emailVerified).toBe(true);
+    expect(await consumeEmailVerificationToken(token)).toBeNull();
+  });
+
+  it("should only accept the newest link", async () => {
+    const user = await registerUser();
+    const first = await createEmailVerificationToken(user);
+    const second = await createEmailVerificationToken(user);
+
+    expect(await isEmailVerificationTokenValid(first)).toBe(false);
+    expect(await isEmailVerificationTokenValid(second)).toBe(true);
+  });
+
+  it("should not verify an address the user has since changed", async () => {
+    const user = await registerUser();
+    const token = await createEmailVerificationToken(user);
+
+    await updateUser(user.id, { email: `changed-${counter}@example.com` });
+
+    expect(await consumeEmailVerificationToken(token)).toBeNull();
+    expect((await getUserById(user.id))?.emailVerified).toBe(false);
+  });
+
+  it("should reject expired tokens", async () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    vi.useFakeTimers({ now, toFake: ["Date"] });
+
+    const user = await registerUser();
+    const token = await createEmailVerificationToken(user);
+
+    vi.setSystemTime(new Date(now.getTime() + 25 * 60 * 60 * 1000));
+    expect(await isEmailVerificationTokenValid(token)).toBe(false);
+  });
+
+  it("should make the user wait between links", async () => {
+    const now = new Date("2025-01-01T00:00:00Z");
+    vi.useFakeTimers({ now, toFake: ["Date"] });
+
+    const user = await registerUser();
+    expect(await getVerificationResendWait(user.id)).toBe(0);
+
+    await createEmailVerificationToken(user);
+    expect(await getVerificationResendWait(user.id)).toBe(60);
+
+    vi.setSystemTime(new Date(now.getTime() + 45 * 1000));
+    expect(await getVerificationResendWait(user.id)).toBe(15);
+  });
+});
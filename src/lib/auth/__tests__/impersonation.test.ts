@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  getActiveImpersonation,
+  getImpersonationError,
+  isImpersonationBlocked,
+  startImpersonation,
+  stopImpersonation,
+} from "../impersonation";
+import { createSession, getSession } from "../session-store";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { getUserById, toggleUserStatus } from "../user-service";
+import { UserRole, type User } from "@/types/auth";
+
+async function getUser(id: string): Promise<User> {
+  return (await getUserById(id))!;
+}
+
+describe("Impersonation", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+    vi.useRealTimers();
+  });
+
+  it("should let admins impersonate active users they can manage", async () => {
+    const admin = await getUser("1");
+
+    expect(await getImpersonationError(admin, await getUser("2"))).toBeNull();
+    expect(await getImpersonationError(admin, admin)).toBe("You cannot impersonate yourself");
+
+    await toggleUserStatus("3", false);
+    expect(await getImpersonationError(admin, await getUser("3"))).toBe(
+      "Cannot impersonate an inactive user"
+    );
+
+    const editor = await getUser("2");
+    expect(await getImpersonationError(editor, admin)).toBe("Insufficient permissions");
+    expect(await getImpersonationError({ ...admin, role: UserRole.EDITOR }, admin)).toBe(
+      "Insufficient permissions"
+    );
+  });
+
+  it("should store impersonation on the session until it is stopped or expires", async () => {
+    const session = await createSession({ userId: "1" });
+
+    const impersonation = await startImpersonation({
+      sessionId: session.id,
+      targetUserId: "2",
+      allowDestructive: false,
+      reason: "Ticket 42",
+    });
+
+    expect((await getSession(session.id))?.impersonation).toEqual(impersonation);
+    await expect(
+      startImpersonation({ sessionId: session.id, targetUserId: "3", allowDestructive: false })
+    ).rejects.toThrow("Stop the current impersonation first");
+
+    vi.useFakeTimers({ now: Date.now() + 60 * 60 * 1000 + 1, toFake: ["Date"] });
+    expect(getActiveImpersonation((await getSession(session.id))!)).toBeNull();
+
+    expect(await stopImpersonation(session.id)).toEqual(impersonation);
+    expect((await getSession(session.id))?.impersonation).toBeUndefined();
+    expect(await stopImpersonation(session.id)).toBeNull();
+  });
+
+  it("should only let safe requests through unless changes are allowed", () => {
+    const readOnly = { allowDestructive: false };
+    const allowChanges = { allowDestructive: true };
+
+    expect(isImpersonationBlocked(readOnly, "GET", "/api/users")).toBe(false);
+    expect(isImpersonationBlocked(readOnly, "HEAD", "/dashboard")).toBe(false);
+    expect(isImpersonationBlocked(readOnly, "PATCH", "/api/user/profile")).toBe(true);
+    expect(isImpersonationBlocked(readOnly, "POST", "/dashboard")).toBe(true);
+
+    expect(isImpersonationBlocked(allowChanges, "PATCH", "/api/user/profile")).toBe(false);
+    expect(isImpersonationBlocked(allowChanges, "POST", "/api/user/tokens")).toBe(true);
+    expect(isImpersonationBlocked(allowChanges, "DELETE", "/api/user/sessions/abc")).toBe(true);
+    expect(isImpersonationBlocked(allowChanges, "DELETE", "/api/user/two-factor")).toBe(true);
+  });
+});
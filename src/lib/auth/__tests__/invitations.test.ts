@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  buildInvitationUrl,
+  createInvitation,
+  getInvitationByToken,
+  listInvitations,
+  redeemInvitation,
+  resendInvitation,
+  revokeInvitation,
+  sendInvitationEmail,
+} from "../invitations";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { INVITATIONS } from "../constants";
+import { createUser, getUserById } from "../user-service";
+import { setMailTransport, type MailMessage } from "@/lib/mail/mailer";
+import { UserRole, type User } from "@/types/auth";
+
+// Invitations live in a module-level map, so each test uses its own email
+let counter = 0;
+const nextEmail = () => `invitee-${++counter}@invites.example.com`;
+
+async function signUp(email: string): Promise<User> {
+  const id = `invited_${counter}`;
+  const now = new Date();
+  return createUser({
+    id,
+    email,
+    name: "Invitee",
+    image: null,
+    username: null,
+    role: UserRole.USER,
+    provider: "credentials",
+    providerId: id,
+    isActive: true,
+    emailVerified: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+function invite(email: string, role: UserRole = UserRole.EDITOR) {
+  return createInvitation({ email, role, invitedBy: "admin_1", expiresInDays: 7 });
+}
+
+describe("Invitations", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setMailTransport(null);
+  });
+
+  it("should create a pending invitation that resolves from its token", async () => {
+    const email = nextEmail();
+    const { invitation, token } = await invite(email.toUpperCase());
+
+    expect(invitation).toMatchObject({ email, role: UserRole.EDITOR, status: "pending" });
+    expect(invitation).not.toHaveProperty("tokenHash");
+    expect((await getInvitationByToken(token))?.id).toBe(invitation.id);
+    expect(await getInvitationByToken("not-a-token")).toBeNull();
+    expect((await listInvitations()).map(i => i.id)).toContain(invitation.id);
+  });
+
+  it("should reject existing users, duplicate invitations and unknown roles", async () => {
+    await expect(invite("admin@example.com")).rejects.toThrow("already exists");
+
+    const email = nextEmail();
+    await invite(email);
+    await expect(invite(email)).rejects.toThrow("pending invitation");
+
+    await expect(
+      createInvitation({ email: nextEmail(), role: "NOPE", invitedBy: "admin_1", expiresInDays: 7 })
+    ).rejects.toThrow("Invalid role");
+  });
+
+  it("should give the invited role to the user that presents the token, once", async () => {
+    const email = nextEmail();
+    const { invitation, token } = await invite(email);
+    const user = await signUp(email);
+
+    const redeemed = await redeemInvitation({ user, token, emailVerified: false });
+
+    expect(redeemed?.invitation).toMatchObject({ status: "accepted", acceptedBy: user.id });
+    expect(await getUserById(user.id)).toMatchObject({
+      role: UserRole.EDITOR,
+      emailVerified: true,
+    });
+    expect(await getInvitationByToken(token)).toBeNull();
+    expect(await redeemInvitation({ user, token, emailVerified: false })).toBeNull();
+    expect(await revokeInvitation(invitation.id)).toBeNull();
+  });
+
+  it("should only redeem without the token for provider-verified emails", async () => {
+    const email = nextEmail();
+    await invite(email);
+    const user = await signUp(email);
+
+    expect(await redeemInvitation({ user, emailVerified: false })).toBeNull();
+    expect(await redeemInvitation({ user, token: "wrong", emailVerified: false })).toBeNull();
+    expect(await redeemInvitation({ user, emailVerified: true })).not.toBeNull();
+  });
+
+  it("should only give temporary-only roles to the first administrator", async () => {
+    const email = nextEmail();
+    const { token } = await invite(email, UserRole.ADMIN);
+    const user = await signUp(email);
+
+    expect(await redeemInvitation({ user, token, emailVerified: false })).toBeNull();
+    expect((await getUserById(user.id))?.role).toBe(UserRole.USER);
+
+    const firstAdminEmail = nextEmail();
+    const firstAdmin = await createInvitation({
+      email: firstAdminEmail,
+      role: UserRole.ADMIN,
+      invitedBy: INVITATIONS.SYSTEM_INVITER,
+      expiresInDays: 7,
+    });
+    const redeemed = await redeemInvitation({
+      user: await signUp(firstAdminEmail),
+      token: firstAdmin.token,
+      emailVerified: false,
+    });
+    expect(redeemed?.user.role).toBe(UserRole.ADMIN);
+  });
+
+  it("should invalidate the old link when an invitation is resent", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const email = nextEmail();
+    const { invitation, token } = await invite(email);
+
+    vi.advanceTimersByTime(8 * 24 * 60 * 60 * 1000);
+    expect((await listInvitations()).find(i => i.id === invitation.id)?.status).toBe("expired");
+
+    const resent = await resendInvitation(invitation.id, 7);
+
+    expect(resent?.invitation.status).toBe("pending");
+    expect(await getInvitationByToken(token)).toBeNull();
+    expect((await getInvitationByToken(resent!.token))?.id).toBe(invitation.id);
+  });
+
+  it("should stop a revoked invitation from being used", async () => {
+    const email = nextEmail();
+    const { invitation, token } = await invite(email);
+
+    expect((await revokeInvitation(invitation.id))?.status).toBe("revoked");
+    expect(await getInvitationByToken(token)).toBeNull();
+    expect(await resendInvitation(invitation.id, 7)).toBeNull();
+    expect(
+      await redeemInvitation({ user: await signUp(email), token, emailVerified: true })
+    ).toBeNull();
+  });
+
+  it("should email the accept link through the mailer", async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({ name: "test", send: async message => void sent.push(message) });
+
+    const { invitation, token } = await invite(nextEmail());
+    const delivery = await sendInvitationEmail({
+      invitation,
+      token,
+      invitedBy: "Ada",
+    });
+
+    expect(delivery).toEqual({
+      inviteUrl: buildInvitationUrl(token),
+      delivered: true,
+    });
+    expect(sent[0]?.to).toBe(invitation.email);
+    expect(sent[0]?.text).toContain(delivery.inviteUrl);
+    expect(sent[0]?.text).toContain("Ada invited you");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+import {
+  getAccountLockouts,
+  getLockoutDuration,
+  getLoginThrottle,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount,
+} from "../login-throttle";
+
+// Failure counts are shared across tests, so each test uses its own email and IP
+let counter = 0;
+function nextAttempt() {
+  counter++;
+  return { email: `throttle-${counter}@example.com`, ipAddress: `10.1.0.${counter}` };
+}
+
+async function fail(times: number, attempt: { email: string; ipAddress?: string }) {
+  let status;
+  for (let i = 0; i < times; i++) {
+    status = await recordLoginFailure({ ...attempt, reason: "Invalid email or password" });
+    vi.advanceTimersByTime(1000);
+  }
+  return status!;
+}
+
+describe("Login throttle", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should double lockouts at each further threshold, up to the maximum", () => {
+    expect(getLockoutDuration(4, 5)).toBe(0);
+    expect(getLockoutDuration(5, 5)).toBe(15 * 60);
+    expect(getLockoutDuration(9, 5)).toBe(15 * 60);
+    expect(getLockoutDuration(10, 5)).toBe(30 * 60);
+    expect(getLockoutDuration(100, 5)).toBe(24 * 60 * 60);
+  });
+
+  it("should lock an account after five failures and release it after the lockout", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { email } = nextAttempt();
+
+    expect((await fail(4, { email })).locked).toBe(false);
+
+    const status = await fail(1, { email });
+    expect(status).toMatchObject({ locked: true, scope: "account" });
+    expect(status.retryAfter).toBeGreaterThan(14 * 60);
+
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    expect((await getLoginThrottle({ email })).locked).toBe(false);
+
+    // The next failure locks again straight away
+    expect((await fail(1, { email })).locked).toBe(true);
+  });
+
+  it("should treat emails case-insensitively", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { email } = nextAttempt();
+
+    await fail(5, { email: email.toUpperCase() });
+
+    expect((await getLoginThrottle({ email })).locked).toBe(true);
+  });
+
+  it("should reset the account count after a successful sign-in or an unlock", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { email } = nextAttempt();
+
+    await fail(4, { email });
+    await recordLoginSuccess({ email, userId: "user_1" });
+    vi.advanceTimersByTime(1000);
+    expect((await fail(4, { email })).locked).toBe(false);
+
+    await fail(1, { email });
+    expect(await getAccountLockouts([{ id: "user_1", email }])).toHaveProperty("user_1");
+
+    await unlockAccount({ userId: "admin", targetUserId: "user_1", email });
+    vi.advanceTimersByTime(1000);
+    expect((await getLoginThrottle({ email })).locked).toBe(false);
+    expect(await getAccountLockouts([{ id: "user_1", email }])).toEqual({});
+  });
+
+  it("should start the count over once its window has passed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { email, ipAddress } = nextAttempt();
+
+    await fail(4, { email, ipAddress });
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+    expect((await fail(4, { email, ipAddress })).locked).toBe(false);
+    expect((await fail(1, { email, ipAddress })).locked).toBe(true);
+  });
+
+  it("should lock an IP address after failures across many accounts", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { ipAddress } = nextAttempt();
+
+    for (let i = 0; i < 19; i++) {
+      await fail(1, { email: `spray-${counter}-${i}@example.com`, ipAddress });
+    }
+    expect((await getLoginThrottle({ email: "other@example.com", ipAddress })).locked).toBe(false);
+
+    await fail(1, { email: `spray-${counter}-last@example.com`, ipAddress });
+    expect(await getLoginThrottle({ email: "other@example.com", ipAddress })).toMatchObject({
+      locked: true,
+      scope: "ip",
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { hashPassword, verifyPassword, validatePassword } from "../password";
+import {
+  buildPasswordResetUrl,
+  consumePasswordResetToken,
+  createPasswordResetToken,
+  isPasswordResetTokenValid,
+} from "../password-reset";
+import { DEFAULT_USERS } from "../user-repository";
+
+describe("Password hashing", () => {
+  it("should verify a password against its hash", async () => {
+    const hash = await hashPassword("correct horse 1");
+
+    expect(hash.startsWith("scrypt$")).toBe(true);
+    expect(await verifyPassword("correct horse 1", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse 1", hash)).toBe(false);
+  });
+
+  it("should salt every hash", async () => {
+    const first = await hashPassword("samepassword1");
+    const second = await hashPassword("samepassword1");
+
+    expect(first).not.toBe(second);
+  });
+
+  it("should reject malformed hashes", async () => {
+    expect(await verifyPassword("anything", "plaintext")).toBe(false);
+    expect(await verifyPassword("anything", "bcrypt$1$2$3$a$b")).toBe(false);
+  });
+
+  it("should match the seeded demo account passwords", async () => {
+    const admin = DEFAULT_USERS.find(u => u.email === "admin@example.com");
+
+    expect(await verifyPassword("adminuser123", admin!.passwordHash!)).toBe(true);
+  });
+});
+
+describe("validatePassword", () => {
+  it("should accept a password meeting the policy", () => {
+    expect(validatePassword("abcdefg1")).toEqual([]);
+  });
+
+  it("should report every failed rule", () => {
+    expect(validatePassword("short")).toEqual([
+      "Password must be at least 8 characters long",
+      "Password must contain at least one number",
+    ]);
+    expect(validatePassword("12345678")).toContain("Password must contain at least one letter");
+    expect(validatePassword(`a1${"x".repeat(200)}`)).toContain(
+      "Password must be at most 128 characters long"
+    );
+  });
+});
+
+describe("Password reset tokens", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should be single-use", async () => {
+    const token = await createPasswordResetToken("user-1");
+
+    expect(await isPasswordResetTokenValid(token)).toBe(true);
+    expect(await consumePasswordResetToken(token)).toBe("user-1");
+    expect(await consumePasswordResetToken(token)).toBeNull();
+    expect(await isPasswordResetTokenValid(token)).toBe(false);
+  });
+
+  it("should expire", async () => {
+    vi.useFakeTimers();
+    const token = await createPasswordResetToken("user-2");
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+
+    expect(await consumePasswordResetToken(token)).toBeNull();
+  });
+
+  it("should invalidate earlier tokens for the same user", async () => {
+    const first = await createPasswordResetToken("user-3");
+    const second = await createPasswordResetToken("user-3");
+
+    expect(await consumePasswordResetToken(first)).toBeNull();
+    expect(await consumePasswordResetToken(second)).toBe("user-3");
+  });
+
+  it("should reject unknown tokens", async () => {
+    expect(await consumePasswordResetToken("not-a-token")).toBeNull();
+  });
+
+  it("should keep tokens across restarts with the file store", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "password-resets-"));
+    vi.stubEnv("USER_STORE", "file");
+    vi.stubEnv("PASSWORD_RESET_STORE_PATH", path.join(dir, "password-resets.json"));
+
+    try {
+      vi.resetModules();
+      const before = await import("../password-reset");
+      const token = await before.createPasswordResetToken("user-4");
+
+      vi.resetModules();
+      const after = await import("../password-reset");
+      expect(await after.consumePasswordResetToken(token)).toBe("user-4");
+    } finally {
+      vi.unstubAllEnvs();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should build reset links from the configured URL only", () => {
+    vi.stubEnv("AUTH_URL", "https://app.example.com");
+    try {
+      expect(buildPasswordResetUrl("abc")).toBe(
+        "https://app.example.com/auth/reset-password?token=abc"
+      );
+
+      vi.stubEnv("AUTH_URL", "");
+      vi.stubEnv("NEXTAUTH_URL", "");
+      expect(() => buildPasswordResetUrl("abc")).toThrow("AUTH_URL");
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
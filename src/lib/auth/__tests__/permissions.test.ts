@@ -4,6 +4,7 @@ import {
   hasAnyPermission,
   hasAllPermissions,
   checkPermission,
+  canAccessAdminConsole,
   hasHigherOrEqualRole,
   getMinimumRoleForPermission,
   canManageRole,
@@ -162,6 +163,28 @@ describe("Permission System", () => {
     });
   });
 
+  describe("canAccessAdminConsole", () => {
+    it("should require an account admin even when the workspace role grants the permission", async () => {
+      const user = createUserWithPermissions([
+        Permission.MANAGE_SYSTEM_SETTINGS,
+        Permission.MANAGE_USER_ROLES,
+      ]);
+      user.workspaceRole = UserRole.ADMIN;
+
+      expect(await canAccessAdminConsole(user)).toBe(false);
+      expect(await canAccessAdminConsole({ ...user, role: UserRole.ADMIN })).toBe(true);
+    });
+
+    it("should require MANAGE_SYSTEM_SETTINGS and MANAGE_USER_ROLES from account admins", async () => {
+      const user = { ...createUserWithPermissions([]), role: UserRole.ADMIN };
+
+      expect(await canAccessAdminConsole(user)).toBe(false);
+      expect(
+        await canAccessAdminConsole({ ...user, permissions: [Permission.MANAGE_USER_ROLES] })
+      ).toBe(false);
+    });
+  });
+
   describe("Role Hierarchy", () => {
     it("should determine role hierarchy correctly", () => {
       expect(hasHigherOrEqualRole(UserRole.ADMIN, UserRole.USER)).toBe(true);
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from "vitest";
+
+import { checkPermission } from "../permissions";
+import { getPolicies, parseResource, registerPolicy, resetPolicies } from "../policies";
+import { Permission, UserRole, type User } from "@/types/auth";
+import { createUserWithPermissions } from "@/test/utils/user-fixtures";
+
+describe("Resource policies", () => {
+  afterEach(() => {
+    resetPolicies();
+  });
+
+  it("should parse typed resource strings", () => {
+    expect(parseResource("content:42")).toEqual({ resourceType: "content", resourceId: "42" });
+    expect(parseResource("content")).toEqual({ resourceType: "content" });
+  });
+
+  it("should let authors update their own content without UPDATE_CONTENT", async () => {
+    const user = createUserWithPermissions([Permission.READ_CONTENT]);
+
+    const own = await checkPermission({
+      user,
+      action: Permission.UPDATE_CONTENT,
+      resource: "content:1",
+      metadata: { authorId: user.id },
+    });
+    const other = await checkPermission({
+      user,
+      action: Permission.UPDATE_CONTENT,
+      resource: "content:2",
+      metadata: { authorId: "someone-else" },
+    });
+
+    expect(own).toEqual({ granted: true, rule: "content.author" });
+    expect(other.granted).toBe(false);
+    expect(other.reason).toBe("Insufficient permissions");
+  });
+
+  it("should report the failing rule when a require rule denies access", async () => {
+    const editor = createUserWithPermissions([Permission.UPDATE_USER], {
+      role: UserRole.EDITOR,
+      metadata: { teamId: "red" },
+    });
+
+    const sameTeam = await checkPermission({
+      user: editor,
+      action: Permission.UPDATE_USER,
+      resource: "user:5",
+      metadata: { teamId: "red" },
+    });
+    const otherTeam = await checkPermission({
+      user: editor,
+      action: Permission.UPDATE_USER,
+      resource: "user:6",
+      metadata: { teamId: "blue" },
+    });
+
+    expect(sameTeam.granted).toBe(true);
+    expect(otherTeam).toEqual({
+      granted: false,
+      reason: "Editors can only manage users in their own team",
+      rule: "user.same-team",
+    });
+  });
+
+  it("should ignore policies when no resource is given", async () => {
+    const editor = createUserWithPermissions([Permission.UPDATE_USER], {
+      role: UserRole.EDITOR,
+      metadata: { teamId: "red" },
+    });
+
+    const result = await checkPermission({ user: editor, action: Permission.UPDATE_USER });
+
+    expect(result).toEqual({ granted: true });
+  });
+
+  it("should support registering and replacing rules", async () => {
+    registerPolicy({
+      name: "report.owner",
+      resourceType: "report",
+      actions: [Permission.EXPORT_DATA],
+      effect: "require",
+      description: "Reports can only be exported by their owner",
+      condition: ({ user, metadata }) => metadata?.ownerId === user.id,
+    });
+    registerPolicy({ ...getPolicies("report")[0]!, description: "Owner only" });
+
+    const user = createUserWithPermissions([Permission.EXPORT_DATA]);
+    const result = await checkPermission({
+      user,
+      action: Permission.EXPORT_DATA,
+      resource: "report:1",
+      metadata: { ownerId: "other" },
+    });
+
+    expect(getPolicies("report")).toHaveLength(1);
+    expect(result.reason).toBe("Owner only");
+    expect(getPolicies("report", Permission.READ_CONTENT)).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  decideRoleGrant,
+  expireRoleGrants,
+  getActiveRoleGrant,
+  getRoleAssignmentError,
+  grantTemporaryRole,
+  requestRoleGrant,
+  revokeRoleGrant,
+  validateRoleGrantInput,
+} from "../role-grants";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { createUser, getUserById, updateUserRole } from "../user-service";
+import { getAuditLogs } from "@/lib/audit/audit-service";
+import { AuditAction } from "@/types/audit";
+import { UserRole, type User } from "@/types/auth";
+
+// Grants live in a module-level map, so each test uses its own user
+let counter = 0;
+
+async function createMember(): Promise<User> {
+  const id = `grant_${++counter}`;
+  const now = new Date();
+  return createUser({
+    id,
+    email: `${id}@example.com`,
+    name: "Member",
+    image: null,
+    username: null,
+    role: UserRole.USER,
+    provider: "credentials",
+    providerId: id,
+    isActive: true,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+const HOUR = 60 * 60;
+
+describe("Role grants", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z"), toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("gives the role on approval and reverts it on expiry", async () => {
+    const user = await createMember();
+    const request = await requestRoleGrant({
+      user,
+      role: UserRole.ADMIN,
+      duration: 2 * HOUR,
+      justification: "Rotating the mail credentials",
+    });
+    expect((await getUserById(user.id))?.role).toBe(UserRole.USER);
+
+    const approved = await decideRoleGrant({ id: request.id, approve: true, decidedBy: "1" });
+    expect(approved).toMatchObject({
+      status: "active",
+      previousRole: UserRole.USER,
+      expiresAt: new Date("2026-01-01T02:00:00Z"),
+    });
+    expect((await getUserById(user.id))?.role).toBe(UserRole.ADMIN);
+
+    vi.setSystemTime(new Date("2026-01-01T01:59:59Z"));
+    expect(await expireRoleGrants()).toEqual([]);
+
+    vi.setSystemTime(new Date("2026-01-01T02:00:00Z"));
+    const [expired] = await expireRoleGrants();
+    expect(expired).toMatchObject({ id: request.id, status: "expired" });
+    expect((await getUserById(user.id))?.role).toBe(UserRole.USER);
+    expect(await getActiveRoleGrant(user.id)).toBeNull();
+
+    const [entry] = await getAuditLogs({ action: AuditAction.ROLE_GRANT_EXPIRED, limit: 1 });
+    expect(entry).toMatchObject({
+      targetUserId: user.id,
+      details: "Temporary ADMIN role expired, reverted to USER",
+    });
+  });
+
+  it("does not let users decide their own request", async () => {
+    const user = await createMember();
+    const request = await requestRoleGrant({
+      user,
+      role: UserRole.ADMIN,
+      duration: HOUR,
+      justification: "Investigating an incident",
+    });
+
+    await expect(
+      decideRoleGrant({ id: request.id, approve: true, decidedBy: user.id })
+    ).rejects.toThrow("your own request");
+    expect((await getUserById(user.id))?.role).toBe(UserRole.USER);
+  });
+
+  it("allows one open request or grant at a time", async () => {
+    const user = await createMember();
+    const input = {
+      user,
+      role: UserRole.EDITOR,
+      duration: HOUR,
+      justification: "Publishing the release notes",
+    };
+    const request = await requestRoleGrant(input);
+
+    await expect(requestRoleGrant(input)).rejects.toThrow("pending request");
+
+    await decideRoleGrant({ id: request.id, approve: false, decidedBy: "1", note: "Ask Sam" });
+    expect(await requestRoleGrant(input)).toMatchObject({ status: "pending" });
+  });
+
+  it("reverts direct grants when they are revoked", async () => {
+    const user = await createMember();
+    const grant = await grantTemporaryRole({
+      user,
+      role: UserRole.EDITOR,
+      duration: HOUR,
+      justification: "Covering for the content team",
+      grantedBy: "1",
+    });
+    expect(grant.status).toBe("active");
+    expect((await getUserById(user.id))?.role).toBe(UserRole.EDITOR);
+
+    const revoked = await revokeRoleGrant(grant.id, "1");
+    expect(revoked).toMatchObject({ status: "revoked", endedBy: "1" });
+    expect((await getUserById(user.id))?.role).toBe(UserRole.USER);
+    expect(await revokeRoleGrant(grant.id, "1")).toBeNull();
+  });
+
+  it("keeps a role that was changed some other way while the grant was active", async () => {
+    const user = await createMember();
+    await grantTemporaryRole({
+      user,
+      role: UserRole.ADMIN,
+      duration: HOUR,
+      justification: "Running the quarterly access review",
+      grantedBy: "1",
+    });
+    await updateUserRole(user.id, UserRole.EDITOR);
+
+    vi.setSystemTime(new Date("2026-01-01T01:00:00Z"));
+    await expireRoleGrants();
+
+    expect((await getUserById(user.id))?.role).toBe(UserRole.EDITOR);
+  });
+
+  it("only allows standing roles outside the grant flow, and not over an active grant", async () => {
+    const user = await createMember();
+    expect(await getRoleAssignmentError(UserRole.ADMIN)).toMatchObject({ status: 400 });
+    expect(await getRoleAssignmentError(UserRole.EDITOR, user.id)).toBeNull();
+
+    const grant = await grantTemporaryRole({
+      user,
+      role: UserRole.EDITOR,
+      duration: HOUR,
+      justification: "Covering for the content team",
+      grantedBy: "1",
+    });
+    expect(await getRoleAssignmentError(UserRole.USER, user.id)).toMatchObject({
+      status: 409,
+    });
+    // Workspace roles are not affected by account-wide grants
+    expect(await getRoleAssignmentError(UserRole.USER)).toBeNull();
+
+    await revokeRoleGrant(grant.id, "1");
+    expect(await getRoleAssignmentError(UserRole.USER, user.id)).toBeNull();
+  });
+
+  it("validates role, duration and justification", () => {
+    expect(
+      validateRoleGrantInput({ role: UserRole.ADMIN, duration: HOUR, justification: "Incident 42" })
+    ).toEqual([]);
+    expect(
+      validateRoleGrantInput({ role: "NOPE", duration: 9 * HOUR, justification: "pls" })
+    ).toHaveLength(3);
+  });
+});
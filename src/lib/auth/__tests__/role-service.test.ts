@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { canManageRole, getRolePermissions, resolveUserPermissions } from "../permissions";
+import { getRoleLevel, isKnownRole, resetRoleDefinitions } from "../role-registry";
+import { createRole, deleteRole, getRoles, updateRole, validateRoleInput } from "../role-service";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { updateUserRole } from "../user-service";
+import { Permission, UserRole, type User } from "@/types/auth";
+
+const supportRole = {
+  role: "SUPPORT",
+  label: "Support Agent",
+  description: "Helps users with their accounts",
+  level: 2,
+  permissions: [Permission.READ_USER, Permission.VIEW_DASHBOARD],
+};
+
+describe("Role service", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    resetRoleDefinitions();
+    setUserRepository(null);
+  });
+
+  it("should list the built-in roles highest level first", async () => {
+    const roles = await getRoles();
+
+    expect(roles.map(r => r.role)).toEqual([UserRole.ADMIN, UserRole.EDITOR, UserRole.USER]);
+    expect(roles.every(r => r.isSystem)).toBe(true);
+  });
+
+  it("should create a custom role usable by permission checks", async () => {
+    await createRole(supportRole);
+
+    expect(isKnownRole("SUPPORT")).toBe(true);
+    expect(getRoleLevel("SUPPORT")).toBe(2);
+    expect(await getRolePermissions("SUPPORT")).toEqual(supportRole.permissions);
+    await expect(createRole(supportRole)).rejects.toThrow("already exists");
+  });
+
+  it("should update a custom role but keep built-in levels fixed", async () => {
+    await createRole(supportRole);
+
+    const updated = await updateRole("SUPPORT", { permissions: [Permission.READ_CONTENT] });
+    expect(updated?.permissions).toEqual([Permission.READ_CONTENT]);
+
+    await expect(updateRole(UserRole.USER, { level: 5 })).rejects.toThrow("built-in role");
+    expect(await updateRole("MISSING", { label: "x" })).toBeNull();
+  });
+
+  it("should refuse to delete built-in roles or roles still in use", async () => {
+    await createRole(supportRole);
+    await updateUserRole("3", "SUPPORT");
+
+    await expect(deleteRole(UserRole.USER)).rejects.toThrow("cannot be deleted");
+    await expect(deleteRole("SUPPORT")).rejects.toThrow("still assigned");
+
+    await updateUserRole("3", UserRole.USER);
+    expect(await deleteRole("SUPPORT")).toBe(true);
+    expect(isKnownRole("SUPPORT")).toBe(false);
+  });
+
+  it("should validate role input", () => {
+    expect(validateRoleInput(supportRole)).toEqual([]);
+    expect(
+      validateRoleInput({
+        role: "support",
+        label: "",
+        level: 0,
+        permissions: ["NOPE" as Permission],
+      })
+    ).toHaveLength(4);
+  });
+
+  it("should only let managers handle roles at or below their level", async () => {
+    await createRole(supportRole);
+
+    expect(canManageRole(UserRole.ADMIN, "SUPPORT")).toBe(true);
+    expect(canManageRole(UserRole.EDITOR, "SUPPORT")).toBe(false);
+    expect(canManageRole("SUPPORT", UserRole.USER)).toBe(false);
+    expect(canManageRole(UserRole.ADMIN, "UNKNOWN")).toBe(false);
+  });
+});
+
+describe("resolveUserPermissions", () => {
+  const user = {
+    id: "u1",
+    role: UserRole.USER,
+    permissionOverrides: {
+      granted: [Permission.EXPORT_DATA],
+      revoked: [Permission.ACCESS_API],
+    },
+  } as User;
+
+  it("should apply per-user grants and revocations to the role permissions", () => {
+    const permissions = resolveUserPermissions(user);
+
+    expect(permissions).toContain(Permission.EXPORT_DATA);
+    expect(permissions).toContain(Permission.READ_CONTENT);
+    expect(permissions).not.toContain(Permission.ACCESS_API);
+  });
+
+  it("should return only the role permissions without overrides", () => {
+    const permissions = resolveUserPermissions({ ...user, permissionOverrides: undefined });
+
+    expect(permissions).not.toContain(Permission.EXPORT_DATA);
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { config } from "../config";
+import { startImpersonation, stopImpersonation } from "../impersonation";
+import { grantTemporaryRole, revokeRoleGrant } from "../role-grants";
+import { getSession, revokeSession } from "../session-store";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { createUser, toggleUserStatus, updateUserRole, deleteUser } from "../user-service";
+import { getAuditLogs } from "@/lib/audit/audit-service";
+import { AuditAction } from "@/types/audit";
+import { Permission, UserRole } from "@/types/auth";
+
+import type { Session } from "next-auth";
+import type { JWT } from "next-auth/jwt";
+
+// The next-auth entry point imports next/server, which does not resolve under vitest
+vi.mock("next-auth", () => ({
+  CredentialsSignin: class CredentialsSignin extends Error {},
+}));
+
+vi.mock("next/headers", () => ({
+  headers: async () => new Headers({ "user-agent": "Vitest", "x-forwarded-for": "10.0.0.1" }),
+  cookies: async () => ({ get: () => undefined, delete: () => undefined }),
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const jwt = config.callbacks.jwt as (params: { token: JWT; user?: any }) => Promise<JWT | null>;
+const sessionCallback = config.callbacks.session as (params: {
+  session: Session;
+  token: JWT;
+}) => Promise<Session>;
+
+async function signIn(): Promise<JWT> {
+  const now = new Date();
+  await createUser({
+    id: "user_1",
+    email: "user@example.com",
+    name: "User",
+    image: null,
+    username: null,
+    role: UserRole.USER,
+    provider: "credentials",
+    providerId: "user_1",
+    isActive: true,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return (await jwt({ token: {} as JWT, user: { id: "user_1" } }))!;
+}
+
+describe("Session callbacks", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should register a session on sign-in", async () => {
+    const token = await signIn();
+
+    expect(token.sessionId).toBeDefined();
+    const session = await getSession(token.sessionId!);
+    expect(session).toMatchObject({
+      userId: "user_1",
+      userAgent: "Vitest",
+      ipAddress: "10.0.0.1",
+    });
+  });
+
+  it("should end the session once it is revoked", async () => {
+    const token = await signIn();
+
+    expect(await jwt({ token })).toBe(token);
+
+    await revokeSession(token.sessionId!);
+    expect(await jwt({ token })).toBeNull();
+  });
+
+  it("should reject tokens without a session id", async () => {
+    const token = { userId: "user_1", role: UserRole.USER } as JWT;
+
+    expect(await jwt({ token })).toBeNull();
+  });
+
+  it("should keep claims until updateAge, then reload them", async () => {
+    const token = await signIn();
+    await updateUserRole("user_1", UserRole.EDITOR);
+    await toggleUserStatus("user_1", false);
+
+    const cached = await jwt({ token: { ...token } });
+    expect(cached?.role).toBe(UserRole.USER);
+
+    vi.useFakeTimers({ now: Date.now() + DAY + 1, toFake: ["Date"] });
+    const refreshed = await jwt({ token: { ...token } });
+
+    expect(refreshed?.role).toBe(UserRole.EDITOR);
+    expect(refreshed?.permissions).toContain(Permission.UPDATE_CONTENT);
+    expect(refreshed?.isActive).toBe(false);
+  });
+
+  it("should reload claims when a temporary role expires", async () => {
+    const token = await signIn();
+    await grantTemporaryRole({
+      user: { id: "user_1", email: "user@example.com" },
+      role: UserRole.ADMIN,
+      duration: 60 * 60,
+      justification: "Incident response",
+      grantedBy: "1",
+    });
+
+    const elevated = (await jwt({ token: { ...token, claimsRefreshedAt: 0 } }))!;
+    expect(elevated.role).toBe(UserRole.ADMIN);
+    expect(elevated.roleGrantExpiresAt).toBeGreaterThan(Date.now());
+
+    vi.useFakeTimers({ now: elevated.roleGrantExpiresAt! + 1, toFake: ["Date"] });
+    const reverted = (await jwt({ token: { ...elevated } }))!;
+
+    expect(reverted.role).toBe(UserRole.USER);
+    expect(reverted.permissions).not.toContain(Permission.MANAGE_USER_ROLES);
+    expect(reverted.roleGrantExpiresAt).toBeUndefined();
+  });
+
+  it("should reload claims as soon as a temporary role is revoked", async () => {
+    const token = await signIn();
+    const grant = await grantTemporaryRole({
+      user: { id: "user_1", email: "user@example.com" },
+      role: UserRole.ADMIN,
+      duration: 60 * 60,
+      justification: "Incident response",
+      grantedBy: "1",
+    });
+    const elevated = (await jwt({ token: { ...token, claimsRefreshedAt: 0 } }))!;
+    expect(elevated.role).toBe(UserRole.ADMIN);
+
+    await revokeRoleGrant(grant.id, "1");
+    const reverted = (await jwt({ token: { ...elevated } }))!;
+
+    expect(reverted.role).toBe(UserRole.USER);
+    expect(reverted.permissions).not.toContain(Permission.MANAGE_USER_ROLES);
+  });
+
+  it("should end the session when the user no longer exists", async () => {
+    const token = await signIn();
+    await deleteUser("user_1");
+
+    vi.useFakeTimers({ now: Date.now() + DAY + 1, toFake: ["Date"] });
+    expect(await jwt({ token })).toBeNull();
+    expect((await getSession(token.sessionId!))?.revokedAt).toBeInstanceOf(Date);
+  });
+
+  it("should keep the session and its claims when the user store cannot be read", async () => {
+    const repository = new InMemoryUserRepository();
+    setUserRepository(repository);
+    const token = await signIn();
+    vi.spyOn(repository, "findById").mockRejectedValue(new Error("EIO: i/o error"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    vi.useFakeTimers({ now: Date.now() + DAY + 1, toFake: ["Date"] });
+    const kept = await jwt({ token: { ...token } });
+
+    expect(kept).toMatchObject({ role: UserRole.USER, claimsRefreshedAt: token.claimsRefreshedAt });
+    expect(await getSession(token.sessionId!)).not.toHaveProperty("revokedAt");
+  });
+
+  describe("impersonation", () => {
+    async function signInAsAdmin(): Promise<JWT> {
+      await signIn();
+      return (await jwt({
+        token: { name: "Admin", email: "admin@example.com" } as JWT,
+        user: { id: "1" },
+      }))!;
+    }
+
+    it("should switch the claims to the target while impersonating", async () => {
+      const token = await signInAsAdmin();
+      await startImpersonation({
+        sessionId: token.sessionId!,
+        targetUserId: "user_1",
+        allowDestructive: false,
+      });
+
+      const impersonating = (await jwt({ token: { ...token } }))!;
+      expect(impersonating).toMatchObject({
+        userId: "1",
+        role: UserRole.USER,
+        impersonation: { targetUserId: "user_1", email: "user@example.com" },
+      });
+
+      const session = await sessionCallback({
+        session: { user: {}, expires: "" } as Session,
+        token: impersonating,
+      });
+      expect(session.user).toMatchObject({ id: "user_1", role: UserRole.USER, name: "User" });
+      expect(session.impersonator).toMatchObject({
+        id: "1",
+        email: "admin@example.com",
+        allowDestructive: false,
+      });
+
+      await stopImpersonation(token.sessionId!);
+      const restored = (await jwt({ token: impersonating }))!;
+      expect(restored.role).toBe(UserRole.ADMIN);
+      expect(restored.impersonation).toBeUndefined();
+    });
+
+    it("should end impersonation when it expires", async () => {
+      const token = await signInAsAdmin();
+      await startImpersonation({
+        sessionId: token.sessionId!,
+        targetUserId: "user_1",
+        allowDestructive: true,
+      });
+      const impersonating = (await jwt({ token: { ...token } }))!;
+
+      vi.useFakeTimers({ now: Date.now() + 60 * 60 * 1000 + 1, toFake: ["Date"] });
+      const expired = (await jwt({ token: impersonating }))!;
+
+      expect(expired.role).toBe(UserRole.ADMIN);
+      expect(expired.impersonation).toBeUndefined();
+      expect((await getSession(token.sessionId!))?.impersonation).toBeUndefined();
+      const [entry] = await getAuditLogs({ action: AuditAction.IMPERSONATION_STOPPED, limit: 1 });
+      expect(entry).toMatchObject({
+        userId: "1",
+        targetUserId: "user_1",
+        details: "Impersonation expired",
+      });
+    });
+
+    it("should end impersonation when the target is deactivated", async () => {
+      const token = await signInAsAdmin();
+      await startImpersonation({
+        sessionId: token.sessionId!,
+        targetUserId: "user_1",
+        allowDestructive: false,
+      });
+      const impersonating = (await jwt({ token: { ...token } }))!;
+
+      await toggleUserStatus("user_1", false);
+      vi.useFakeTimers({ now: Date.now() + DAY + 1, toFake: ["Date"] });
+      const ended = (await jwt({ token: impersonating }))!;
+
+      expect(ended.role).toBe(UserRole.ADMIN);
+      expect(ended.isActive).toBe(true);
+      expect((await getSession(token.sessionId!))?.impersonation).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  createSession,
+  getSession,
+  isSessionActive,
+  listUserSessions,
+  revokeSession,
+  revokeUserSessions,
+  touchSession,
+} from "../session-store";
+
+// Sessions live in a module-level map, so each test uses its own user id
+let userCounter = 0;
+const nextUserId = () => `session_user_${++userCounter}`;
+
+describe("Session store", () => {
+  it("should create an active session expiring after the session max age", async () => {
+    const userId = nextUserId();
+    const session = await createSession({ userId, userAgent: "Vitest", ipAddress: "127.0.0.1" });
+
+    expect(session.userId).toBe(userId);
+    expect(session.userAgent).toBe("Vitest");
+    expect(isSessionActive(session)).toBe(true);
+    expect(session.expiresAt.getTime() - session.createdAt.getTime()).toBe(
+      30 * 24 * 60 * 60 * 1000
+    );
+    expect(await getSession(session.id)).toEqual(session);
+  });
+
+  it("should list only a user's active sessions, most recent first", async () => {
+    const userId = nextUserId();
+    const first = await createSession({ userId });
+    const second = await createSession({ userId });
+    const revoked = await createSession({ userId });
+    await createSession({ userId: nextUserId() });
+
+    await revokeSession(revoked.id);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await touchSession(first.id);
+
+    const sessions = await listUserSessions(userId);
+    expect(sessions.map(s => s.id)).toEqual([first.id, second.id]);
+  });
+
+  it("should revoke a session once", async () => {
+    const session = await createSession({ userId: nextUserId() });
+
+    expect(await revokeSession(session.id)).toBe(true);
+    expect(await revokeSession(session.id)).toBe(false);
+    expect(await revokeSession("unknown")).toBe(false);
+
+    const stored = await getSession(session.id);
+    expect(stored?.revokedAt).toBeInstanceOf(Date);
+    expect(isSessionActive(stored!)).toBe(false);
+  });
+
+  it("should revoke all of a user's sessions except the kept one", async () => {
+    const userId = nextUserId();
+    const current = await createSession({ userId });
+    await createSession({ userId });
+    await createSession({ userId });
+    const otherUser = await createSession({ userId: nextUserId() });
+
+    expect(await revokeUserSessions(userId, { exceptSessionId: current.id })).toBe(2);
+    expect((await listUserSessions(userId)).map(s => s.id)).toEqual([current.id]);
+    expect(isSessionActive((await getSession(otherUser.id))!)).toBe(true);
+
+    expect(await revokeUserSessions(userId)).toBe(1);
+    expect(await listUserSessions(userId)).toEqual([]);
+  });
+});
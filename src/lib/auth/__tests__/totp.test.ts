@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from "../totp";
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP", () => {
+  it("should round-trip base32", () => {
+    const bytes = Buffer.from("two-factor secret");
+
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(base32Decode("gezd gnbv")).toEqual(base32Decode("GEZDGNBV"));
+  });
+
+  it("should match the RFC 6238 SHA-1 test vectors", () => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe("287082");
+    expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe("081804");
+    expect(generateTotp(RFC_SECRET, getTotpStep(2000000000 * 1000))).toBe("279037");
+  });
+
+  it("should accept codes within one period of clock drift", () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    const step = getTotpStep(now);
+
+    expect(verifyTotp(secret, generateTotp(secret, step), now)).toBe(step);
+    expect(verifyTotp(secret, generateTotp(secret, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(secret, generateTotp(secret, step - 3), now)).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    const secret = generateTotpSecret();
+
+    expect(verifyTotp(secret, "")).toBeNull();
+    expect(verifyTotp(secret, "12345")).toBeNull();
+    expect(verifyTotp(secret, "abcdef")).toBeNull();
+  });
+
+  it("should build an otpauth URI for authenticator apps", () => {
+    const uri = new URL(buildOtpAuthUri("ABCDEF", "user@example.com"));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/FE-Engine Prime:user@example.com");
+    expect(uri.searchParams.get("secret")).toBe("ABCDEF");
+    expect(uri.searchParams.get("digits")).toBe("6");
+  });
+});
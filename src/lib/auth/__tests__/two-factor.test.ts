@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import { resetRoleDefinitions } from "../role-registry";
+import { updateRole } from "../role-service";
+import { generateTotp, getTotpStep } from "../totp";
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  needsTwoFactorSetup,
+  startTwoFactorEnrollment,
+  verifyTwoFactorChallenge,
+} from "../two-factor";
+import { getUserETag } from "../user-etag";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { createUser, getUserById } from "../user-service";
+import { UserRole, type User } from "@/types/auth";
+
+async function createAdmin(): Promise<User> {
+  const now = new Date();
+  return createUser({
+    id: "admin_1",
+    email: "secure-admin@example.com",
+    name: "Admin",
+    image: null,
+    username: null,
+    role: UserRole.ADMIN,
+    provider: "credentials",
+    providerId: "admin_1",
+    isActive: true,
+    emailVerified: true,
+    passwordHash: "scrypt$hash",
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+async function enroll(user: User): Promise<{ secret: string; recoveryCodes: string[] }> {
+  const { secret } = await startTwoFactorEnrollment(user);
+  const pending = (await getUserById(user.id))!;
+  // Confirm with the previous period's code so the current one is still unused
+  const recoveryCodes = await confirmTwoFactorEnrollment(
+    pending,
+    generateTotp(secret, getTotpStep() - 1)
+  );
+  return { secret, recoveryCodes: recoveryCodes! };
+}
+
+describe("Two-factor authentication", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    resetRoleDefinitions();
+    setUserRepository(null);
+  });
+
+  it("should only enable 2FA once the enrollment code is verified", async () => {
+    const user = await createAdmin();
+    await startTwoFactorEnrollment(user);
+    const pending = (await getUserById(user.id))!;
+
+    expect(isTwoFactorEnabled(pending)).toBe(false);
+    expect(await confirmTwoFactorEnrollment(pending, "000000")).toBeNull();
+
+    const { recoveryCodes } = await enroll(user);
+    const enrolled = (await getUserById(user.id))!;
+
+    expect(isTwoFactorEnabled(enrolled)).toBe(true);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(enrolled.twoFactor?.recoveryCodeHashes).not.toContain(recoveryCodes[0]);
+  });
+
+  it("should accept a TOTP code once", async () => {
+    const user = await createAdmin();
+    const { secret } = await enroll(user);
+    const code = generateTotp(secret);
+    const enrolled = (await getUserById(user.id))!;
+
+    expect(await verifyTwoFactorChallenge(enrolled, code)).toBe("totp");
+    // Signing in is not an edit: the user's ETag stays the same
+    expect(getUserETag((await getUserById(user.id))!)).toBe(getUserETag(enrolled));
+    expect(await verifyTwoFactorChallenge((await getUserById(user.id))!, code)).toBeNull();
+    expect(await verifyTwoFactorChallenge((await getUserById(user.id))!, "123456")).toBeNull();
+  });
+
+  it("should accept each recovery code once", async () => {
+    const user = await createAdmin();
+    const { recoveryCodes } = await enroll(user);
+    const [code] = recoveryCodes;
+
+    expect(await verifyTwoFactorChallenge((await getUserById(user.id))!, code!.toUpperCase())).toBe(
+      "recovery_code"
+    );
+    expect(await verifyTwoFactorChallenge((await getUserById(user.id))!, code!)).toBeNull();
+    expect((await getUserById(user.id))?.twoFactor?.recoveryCodeHashes).toHaveLength(9);
+  });
+
+  it("should require setup when the role requires 2FA", async () => {
+    const user = await createAdmin();
+    expect(needsTwoFactorSetup(user)).toBe(false);
+
+    await updateRole(UserRole.ADMIN, { requireTwoFactor: true });
+    expect(needsTwoFactorSetup(user)).toBe(true);
+    expect(needsTwoFactorSetup({ ...user, passwordHash: null })).toBe(false);
+
+    await enroll(user);
+    expect(needsTwoFactorSetup((await getUserById(user.id))!)).toBe(false);
+  });
+
+  it("should discard the secret when disabled", async () => {
+    const user = await createAdmin();
+    await enroll(user);
+    await disableTwoFactor(user.id);
+
+    const disabled = (await getUserById(user.id))!;
+    expect(isTwoFactorEnabled(disabled)).toBe(false);
+    expect(disabled.twoFactor).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+
+import { getUserETag, matchesIfMatch } from "../user-etag";
+
+const user = { updatedAt: new Date("2024-03-01T10:00:00Z") };
+
+describe("user ETags", () => {
+  it("changes with updatedAt only", () => {
+    const tag = getUserETag(user);
+
+    expect(tag).toMatch(/^"[0-9a-z]+"$/);
+    expect(getUserETag({ updatedAt: user.updatedAt.toISOString() as any })).toBe(tag);
+    expect(getUserETag({ updatedAt: new Date("2024-03-01T10:00:01Z") })).not.toBe(tag);
+    // The same in every workspace, so admin routes accept tags from GET /api/users/[id]
+    expect(getUserETag({ ...user, workspaceRole: "EDITOR" } as typeof user)).toBe(tag);
+  });
+
+  it("accepts a missing header, a wildcard, weak tags and lists", () => {
+    const tag = getUserETag(user);
+
+    expect(matchesIfMatch(null, user)).toBe(true);
+    expect(matchesIfMatch("*", user)).toBe(true);
+    expect(matchesIfMatch(`W/${tag}`, user)).toBe(true);
+    expect(matchesIfMatch(`"stale", ${tag}`, user)).toBe(true);
+    expect(matchesIfMatch('"stale"', user)).toBe(false);
+  });
+});
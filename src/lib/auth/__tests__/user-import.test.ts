@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("@/lib/audit/audit-service", () => ({
+  logUserImport: vi.fn(),
+}));
+
+import { logUserImport } from "@/lib/audit/audit-service";
+import {
+  applyUserImport,
+  exportUsers,
+  parseUserImport,
+  planUserImport,
+  summarizeUserImport,
+} from "../user-import";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { getUserByEmail } from "../user-service";
+import { UserRole } from "@/types/auth";
+
+const admin = { id: "1", role: UserRole.ADMIN };
+
+describe("User import", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("should parse CSV rows and keep empty cells out", () => {
+    const rows = parseUserImport(
+      "email,name,role,isActive\r\n New@Example.com ,New Person,EDITOR,no\r\nother@example.com,,,\r\n",
+      "csv"
+    );
+
+    expect(rows).toEqual([
+      {
+        row: 1,
+        email: "new@example.com",
+        fields: { name: "New Person", role: "EDITOR", isActive: false },
+        errors: [],
+      },
+      { row: 2, email: "other@example.com", fields: {}, errors: [] },
+    ]);
+  });
+
+  it("should reject unusable files", () => {
+    expect(() => parseUserImport("name,role\nA,USER", "csv")).toThrow('"email" column');
+    expect(() => parseUserImport("email,password\na@example.com,x", "csv")).toThrow(
+      "Unknown columns: password"
+    );
+    expect(() => parseUserImport("{}", "json")).toThrow("array");
+    expect(() => parseUserImport("not json", "json")).toThrow("not valid JSON");
+  });
+
+  it("should report per-row errors in a dry run without writing", async () => {
+    const rows = parseUserImport(
+      JSON.stringify([
+        { email: "fresh@import.example.com", name: "Fresh", role: "USER" },
+        { email: "not-an-email", role: "USER" },
+        { email: "norole@import.example.com" },
+        { email: "badrole@import.example.com", role: "OWNER" },
+        { email: "fresh@import.example.com", role: "USER" },
+        { email: "taken@import.example.com", role: "USER", username: "editor" },
+        { email: "flag@import.example.com", role: "USER", isActive: "maybe" },
+        "oops",
+      ]),
+      "json"
+    );
+
+    const results = await planUserImport(rows, admin);
+
+    expect(results.map(result => result.action)).toEqual([
+      "create",
+      "error",
+      "error",
+      "error",
+      "error",
+      "error",
+      "error",
+      "error",
+    ]);
+    expect(results[1]?.errors).toContain("Email format is invalid");
+    expect(results[2]?.errors).toContain("Role is required");
+    expect(results[3]?.errors).toContain("Invalid role");
+    expect(results[4]?.errors).toContain("Email also appears in row 1");
+    expect(results[5]?.errors).toContain("Username is already taken");
+    expect(results[6]?.errors).toContain("isActive must be true or false");
+    expect(results[7]?.errors).toContain("Row must be an object");
+    expect(summarizeUserImport(results)).toEqual({ create: 1, update: 0, unchanged: 0, error: 7 });
+    expect(await getUserByEmail("fresh@import.example.com")).toBeNull();
+  });
+
+  it("should apply the same role rules as the single-user routes", async () => {
+    const editor = { id: "2", role: UserRole.EDITOR };
+    const rows = parseUserImport(
+      "email,role,isActive\nadmin@example.com,USER,\nnew@import.example.com,ADMIN,\n",
+      "csv"
+    );
+
+    const asEditor = await planUserImport(rows, editor);
+    expect(asEditor[0]?.errors).toContain("EDITOR role cannot manage ADMIN users");
+    expect(asEditor[1]?.errors).toContain("EDITOR role cannot assign ADMIN role");
+
+    const asAdmin = await planUserImport(rows, admin);
+    expect(asAdmin[1]?.errors).toEqual(["ADMIN role can only be granted temporarily"]);
+
+    const self = await planUserImport(
+      parseUserImport("email,isActive\nadmin@example.com,false", "csv"),
+      admin
+    );
+    expect(self[0]?.errors).toContain("Cannot deactivate your own account");
+  });
+
+  it("should create and update users and audit every changed row", async () => {
+    const rows = parseUserImport(
+      [
+        "email,name,username,role,isActive",
+        "staff1@import.example.com,Staff One,staff_one,EDITOR,true",
+        "editor@example.com,,,USER,false",
+        "test@example.com,,,,",
+        "broken,,,,",
+      ].join("\n"),
+      "csv"
+    );
+
+    const results = await applyUserImport(rows, admin, { ipAddress: "10.0.0.1" });
+
+    expect(results.map(result => result.action)).toEqual([
+      "create",
+      "update",
+      "unchanged",
+      "error",
+    ]);
+    expect(await getUserByEmail("staff1@import.example.com")).toMatchObject({
+      name: "Staff One",
+      username: "staff_one",
+      role: UserRole.EDITOR,
+      isActive: true,
+      emailVerified: true,
+      provider: null,
+    });
+    expect(await getUserByEmail("editor@example.com")).toMatchObject({
+      name: "Content Editor",
+      role: UserRole.USER,
+      isActive: false,
+    });
+    expect(results[1]?.changes).toEqual({
+      role: { from: UserRole.EDITOR, to: UserRole.USER },
+      isActive: { from: true, to: false },
+    });
+
+    expect(logUserImport).toHaveBeenCalledTimes(2);
+    expect(logUserImport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "1",
+        targetUserId: results[0]?.userId,
+        event: "created",
+        row: 1,
+        ipAddress: "10.0.0.1",
+      })
+    );
+    expect(logUserImport).toHaveBeenCalledWith(
+      expect.objectContaining({ targetUserId: "2", event: "updated", changes: results[1]?.changes })
+    );
+  });
+
+  it("should export users in a format the importer reads back", async () => {
+    const user = (await getUserByEmail("editor@example.com"))!;
+
+    const csv = exportUsers([user], "csv");
+    expect(csv).toBe(
+      "email,name,username,role,isActive\r\neditor@example.com,Content Editor,editor,EDITOR,true"
+    );
+
+    for (const format of ["csv", "json"] as const) {
+      const results = await planUserImport(
+        parseUserImport(exportUsers([user], format), format),
+        admin
+      );
+      expect(results[0]?.action).toBe("unchanged");
+    }
+  });
+});
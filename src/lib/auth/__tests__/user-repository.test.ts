@@ -0,0 +1,247 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { AUTH_ERRORS } from "../constants";
+import {
+  DEFAULT_USERS,
+  FileUserRepository,
+  InMemoryUserRepository,
+  createUserRepository,
+  getUserRepository,
+  setUserRepository,
+  shouldSeedDemoUsers,
+} from "../user-repository";
+import { getUserById, updateUserRole, toggleUserStatus } from "../user-service";
+import { UserRole, type User } from "@/types/auth";
+
+const newUser: User = {
+  id: "new-user",
+  email: "new@example.com",
+  name: "New User",
+  image: null,
+  username: "newbie",
+  role: UserRole.USER,
+  provider: "github",
+  providerId: "gh-1",
+  isActive: true,
+  emailVerified: true,
+  createdAt: new Date("2024-06-01"),
+  updatedAt: new Date("2024-06-01"),
+};
+
+describe("InMemoryUserRepository", () => {
+  it("should seed with the default users", async () => {
+    const repo = new InMemoryUserRepository();
+    const users = await repo.findAll();
+
+    expect(users).toHaveLength(DEFAULT_USERS.length);
+    expect(await repo.findByEmail("admin@example.com")).toMatchObject({ role: UserRole.ADMIN });
+  });
+
+  it("should create, update and delete users", async () => {
+    const repo = new InMemoryUserRepository([]);
+
+    await repo.create(newUser);
+    expect(await repo.findByUsername("newbie")).toMatchObject({ id: "new-user" });
+
+    const updated = await repo.update("new-user", { role: UserRole.EDITOR });
+    expect(updated?.role).toBe(UserRole.EDITOR);
+
+    expect(await repo.delete("new-user")).toBe(true);
+    expect(await repo.findById("new-user")).toBeNull();
+  });
+
+  it("should reject duplicate ids", async () => {
+    const repo = new InMemoryUserRepository([newUser]);
+
+    await expect(repo.create(newUser)).rejects.toThrow("already exists");
+  });
+
+  it("should not leak internal state through returned objects", async () => {
+    const repo = new InMemoryUserRepository([newUser]);
+
+    const user = await repo.findById("new-user");
+    user!.role = UserRole.ADMIN;
+
+    expect((await repo.findById("new-user"))?.role).toBe(UserRole.USER);
+  });
+
+  it("should return null/false for unknown ids", async () => {
+    const repo = new InMemoryUserRepository([]);
+
+    expect(await repo.update("missing", { name: "x" })).toBeNull();
+    expect(await repo.delete("missing")).toBe(false);
+  });
+});
+
+describe("FileUserRepository", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "user-repo-"));
+    filePath = path.join(dir, "nested", "users.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should start an empty store unless given a seed", async () => {
+    expect(await new FileUserRepository(filePath).findAll()).toEqual([]);
+  });
+
+  it("should seed a missing store file on first access", async () => {
+    const repo = new FileUserRepository(filePath, DEFAULT_USERS);
+
+    expect(await repo.findAll()).toHaveLength(DEFAULT_USERS.length);
+
+    const onDisk = JSON.parse(await fs.readFile(filePath, "utf8"));
+    expect(onDisk).toHaveLength(DEFAULT_USERS.length);
+  });
+
+  it("should persist changes across instances", async () => {
+    const first = new FileUserRepository(filePath, DEFAULT_USERS);
+    await first.create(newUser);
+    await first.update("1", { isActive: false });
+
+    const second = new FileUserRepository(filePath, DEFAULT_USERS);
+    const reloaded = await second.findById("new-user");
+
+    expect(reloaded).toMatchObject({ email: "new@example.com" });
+    expect(reloaded?.createdAt).toBeInstanceOf(Date);
+    expect(reloaded?.createdAt.toISOString()).toBe(newUser.createdAt.toISOString());
+    expect((await second.findById("1"))?.isActive).toBe(false);
+  });
+
+  it("should persist deletions", async () => {
+    const first = new FileUserRepository(filePath, DEFAULT_USERS);
+    await first.delete("3");
+
+    const second = new FileUserRepository(filePath, DEFAULT_USERS);
+    expect(await second.findById("3")).toBeNull();
+  });
+
+  it("should keep every write when updates run concurrently", async () => {
+    const repo = new FileUserRepository(filePath, []);
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        repo.create({ ...newUser, id: `u${i}`, email: `${i}@x.io` })
+      )
+    );
+
+    const reloaded = new FileUserRepository(filePath, DEFAULT_USERS);
+    expect(await reloaded.findAll()).toHaveLength(5);
+  });
+
+  it("should give an email to only one of two concurrent creates", async () => {
+    const repo = new FileUserRepository(filePath, []);
+
+    const results = await Promise.allSettled([
+      repo.create({ ...newUser, id: "first" }),
+      repo.create({ ...newUser, id: "second" }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect(results[1]).toMatchObject({ reason: new Error(AUTH_ERRORS.EMAIL_IN_USE) });
+    expect(await new FileUserRepository(filePath).findAll()).toHaveLength(1);
+  });
+
+  it("should let only one of two updates from the same version through", async () => {
+    const repo = new FileUserRepository(filePath, DEFAULT_USERS);
+    const { updatedAt } = (await repo.findById("3"))!;
+    const unchanged = (current: User) => current.updatedAt.getTime() === updatedAt.getTime();
+
+    const results = await Promise.allSettled([
+      repo.update("3", { name: "First", updatedAt: new Date(Date.now() + 1) }, unchanged),
+      repo.update("3", { name: "Second", updatedAt: new Date(Date.now() + 2) }, unchanged),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected"]);
+    expect(results[1]).toMatchObject({ reason: new Error(AUTH_ERRORS.USER_CHANGED) });
+    expect((await repo.findById("3"))?.name).toBe("First");
+  });
+
+  it("should pick up changes written by another instance", async () => {
+    const first = new FileUserRepository(filePath, DEFAULT_USERS);
+    const second = new FileUserRepository(filePath, DEFAULT_USERS);
+    expect(await second.findById("3")).not.toBeNull();
+
+    await first.update("3", { name: "Renamed" });
+    await second.update("2", { isActive: false });
+
+    const reloaded = new FileUserRepository(filePath, DEFAULT_USERS);
+    expect(await reloaded.findById("3")).toMatchObject({ name: "Renamed" });
+    expect(await reloaded.findById("2")).toMatchObject({ isActive: false });
+    expect(await first.findById("2")).toMatchObject({ isActive: false });
+  });
+
+  it("should retry loading after a failed read", async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, "{ not json", "utf8");
+    const repo = new FileUserRepository(filePath, DEFAULT_USERS);
+
+    await expect(repo.findById("1")).rejects.toThrow();
+
+    await fs.writeFile(filePath, JSON.stringify([newUser]), "utf8");
+    expect(await repo.findById("new-user")).toMatchObject({ email: "new@example.com" });
+  });
+});
+
+describe("createUserRepository", () => {
+  const originalStore = process.env.USER_STORE;
+
+  afterEach(() => {
+    if (originalStore === undefined) {
+      delete process.env.USER_STORE;
+    } else {
+      process.env.USER_STORE = originalStore;
+    }
+  });
+
+  it("should only seed the file store with demo users when SEED_DEMO_USERS allows it", () => {
+    vi.stubEnv("SEED_DEMO_USERS", "true");
+    expect(shouldSeedDemoUsers()).toBe(true);
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(shouldSeedDemoUsers()).toBe(false);
+
+    vi.unstubAllEnvs();
+    expect(shouldSeedDemoUsers()).toBe(false);
+  });
+
+  it("should select the driver from USER_STORE", () => {
+    process.env.USER_STORE = "memory";
+    expect(createUserRepository()).toBeInstanceOf(InMemoryUserRepository);
+
+    process.env.USER_STORE = "file";
+    expect(createUserRepository()).toBeInstanceOf(FileUserRepository);
+  });
+
+  it("should reject unknown drivers", () => {
+    process.env.USER_STORE = "postgres";
+    expect(() => createUserRepository()).toThrow("Unknown USER_STORE driver");
+  });
+});
+
+describe("user-service with a swapped repository", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    setUserRepository(null);
+  });
+
+  it("should route role and status changes through the repository", async () => {
+    await updateUserRole("3", UserRole.EDITOR);
+    await toggleUserStatus("3", false);
+
+    const stored = await getUserRepository().findById("3");
+    expect(stored).toMatchObject({ role: UserRole.EDITOR, isActive: false });
+    expect(await getUserById("3")).toEqual(stored);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { queryUsers } from "../user-service";
+import { UserRole, type User } from "@/types/auth";
+import { createTestUser } from "@/test/utils/user-fixtures";
+
+const seed: User[] = [
+  createTestUser("ada", { name: "Ada Lovelace", createdAt: new Date("2024-01-03") }),
+  createTestUser("alan", {
+    name: "Alan Turing",
+    provider: "github",
+    lastLoginAt: new Date("2024-06-01"),
+  }),
+  createTestUser("grace", {
+    name: "Grace Hopper",
+    role: UserRole.EDITOR,
+    createdAt: new Date("2024-01-02"),
+    lastLoginAt: new Date("2024-05-01"),
+  }),
+  createTestUser("nameless", { name: null, isActive: false, emailVerified: false }),
+  createTestUser("barbara", {
+    name: "Barbara Liskov",
+    accounts: [
+      {
+        provider: "google",
+        providerAccountId: "g-1",
+        email: "barbara@example.com",
+        emailVerified: true,
+        linkedAt: new Date("2024-02-01"),
+      },
+    ],
+  }),
+];
+
+const ids = (users: User[]) => users.map(user => user.id);
+
+describe("queryUsers", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository(seed));
+  });
+
+  it("searches names, emails and usernames", async () => {
+    expect(ids((await queryUsers({ search: "  LOVELACE " })).users)).toEqual(["ada"]);
+    expect(ids((await queryUsers({ search: "grace@" })).users)).toEqual(["grace"]);
+    expect((await queryUsers({ search: "nobody" })).total).toBe(0);
+  });
+
+  it("filters by provider, verification, status and role", async () => {
+    expect(ids((await queryUsers({ provider: "github" })).users)).toEqual(["alan"]);
+    expect(ids((await queryUsers({ provider: "google" })).users)).toEqual(["barbara"]);
+    expect(ids((await queryUsers({ emailVerified: false })).users)).toEqual(["nameless"]);
+    expect(ids((await queryUsers({ isActive: false })).users)).toEqual(["nameless"]);
+    expect(ids((await queryUsers({ role: UserRole.EDITOR })).users)).toEqual(["grace"]);
+  });
+
+  it("sorts with missing values last and ties broken by id", async () => {
+    const byName = await queryUsers({ sortBy: "name", sortOrder: "asc" });
+    expect(ids(byName.users)).toEqual(["ada", "alan", "barbara", "grace", "nameless"]);
+
+    const byLastLogin = await queryUsers({ sortBy: "lastLoginAt", sortOrder: "desc" });
+    expect(ids(byLastLogin.users)).toEqual(["alan", "grace", "ada", "barbara", "nameless"]);
+
+    const newest = await queryUsers();
+    expect(ids(newest.users)).toEqual(["ada", "grace", "alan", "barbara", "nameless"]);
+  });
+
+  it("pages through every user exactly once with cursors", async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await queryUsers({ sortBy: "name", sortOrder: "desc", limit: 2, cursor });
+      expect(page.total).toBe(5);
+      seen.push(...ids(page.users));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(["grace", "barbara", "alan", "ada", "nameless"]);
+  });
+
+  it("keeps its place when users are added before the cursor", async () => {
+    const first = await queryUsers({ sortBy: "email", sortOrder: "asc", limit: 2 });
+    expect(ids(first.users)).toEqual(["ada", "alan"]);
+
+    setUserRepository(new InMemoryUserRepository([...seed, createTestUser("aaron")]));
+    const second = await queryUsers({
+      sortBy: "email",
+      sortOrder: "asc",
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+
+    expect(ids(second.users)).toEqual(["barbara", "grace"]);
+    expect(second.total).toBe(6);
+  });
+
+  it("rejects cursors it did not issue", async () => {
+    await expect(queryUsers({ cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { WORKSPACES } from "../constants";
+import { resolveUserPermissions } from "../permissions";
+import { InMemoryUserRepository, setUserRepository } from "../user-repository";
+import { createUser, getUsers } from "../user-service";
+import {
+  applyWorkspaceContext,
+  createWorkspace,
+  getWorkspaceRole,
+  listUserWorkspaces,
+  removeWorkspaceMember,
+  resolveWorkspaceContext,
+  setWorkspaceMember,
+} from "../workspaces";
+import { Permission, UserRole, type RoleName, type User } from "@/types/auth";
+
+// Workspaces and memberships live in module-level maps, so each test uses its
+// own users and workspaces
+let counter = 0;
+
+async function createMember(role: RoleName = UserRole.USER): Promise<User> {
+  const id = `workspace_${++counter}`;
+  const now = new Date();
+  return createUser({
+    id,
+    email: `${id}@example.com`,
+    name: "Member",
+    image: null,
+    username: null,
+    role,
+    provider: "credentials",
+    providerId: id,
+    isActive: true,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+function createClientWorkspace() {
+  return createWorkspace({ name: `Client ${++counter}`, createdBy: "1" });
+}
+
+describe("Workspaces", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("puts users without memberships in the default workspace with their account role", async () => {
+    const user = await createMember(UserRole.EDITOR);
+
+    expect(await getWorkspaceRole(user, WORKSPACES.DEFAULT_ID)).toBe(UserRole.EDITOR);
+    expect(await resolveWorkspaceContext(user)).toEqual({
+      workspaceId: WORKSPACES.DEFAULT_ID,
+      workspaceRole: UserRole.EDITOR,
+    });
+  });
+
+  it("moves a user out of the default workspace when they join another", async () => {
+    const user = await createMember();
+    const workspace = await createClientWorkspace();
+
+    await setWorkspaceMember(workspace.id, user.id, UserRole.EDITOR);
+
+    expect(await getWorkspaceRole(user, WORKSPACES.DEFAULT_ID)).toBeNull();
+    expect(await getWorkspaceRole(user, workspace.id)).toBe(UserRole.EDITOR);
+    expect((await listUserWorkspaces(user)).map(entry => entry.workspace.id)).toEqual([
+      workspace.id,
+    ]);
+  });
+
+  it("resolves permissions from the workspace role", async () => {
+    const user = await createMember(UserRole.USER);
+    const workspace = await createClientWorkspace();
+    await setWorkspaceMember(workspace.id, user.id, UserRole.EDITOR);
+
+    const scoped = await applyWorkspaceContext(user, workspace.id);
+
+    expect(scoped.workspaceRole).toBe(UserRole.EDITOR);
+    expect(resolveUserPermissions(scoped)).toContain(Permission.PUBLISH_CONTENT);
+    expect(resolveUserPermissions(user)).not.toContain(Permission.PUBLISH_CONTENT);
+  });
+
+  it("falls back to the first workspace when the requested one is not accessible", async () => {
+    const user = await createMember();
+    const own = await createClientWorkspace();
+    const other = await createClientWorkspace();
+    await setWorkspaceMember(own.id, user.id, UserRole.USER);
+
+    expect(await resolveWorkspaceContext(user, other.id)).toEqual({
+      workspaceId: own.id,
+      workspaceRole: UserRole.USER,
+    });
+    expect(await resolveWorkspaceContext(user, "ws_missing")).toEqual({
+      workspaceId: own.id,
+      workspaceRole: UserRole.USER,
+    });
+  });
+
+  it("makes account admins admins of every workspace", async () => {
+    const admin = await createMember(UserRole.ADMIN);
+    const workspace = await createClientWorkspace();
+
+    expect(await getWorkspaceRole(admin, workspace.id)).toBe(UserRole.ADMIN);
+  });
+
+  it("rejects duplicate workspace names", async () => {
+    const workspace = await createClientWorkspace();
+
+    await expect(
+      createWorkspace({ name: workspace.name.toUpperCase(), createdBy: "1" })
+    ).rejects.toThrow("already exists");
+  });
+
+  it("refuses to remove a user from their last workspace", async () => {
+    const user = await createMember();
+    const first = await createClientWorkspace();
+    const second = await createClientWorkspace();
+    await setWorkspaceMember(first.id, user.id, UserRole.USER);
+
+    await expect(removeWorkspaceMember(first.id, user.id)).rejects.toThrow("last one");
+
+    await setWorkspaceMember(second.id, user.id, UserRole.USER);
+    expect(await removeWorkspaceMember(first.id, user.id)).toBe(true);
+    expect(await getWorkspaceRole(user, first.id)).toBeNull();
+  });
+
+  it("lists only the members of the requested workspace", async () => {
+    const member = await createMember(UserRole.USER);
+    const outsider = await createMember(UserRole.USER);
+    const workspace = await createClientWorkspace();
+    const other = await createClientWorkspace();
+    await setWorkspaceMember(workspace.id, member.id, UserRole.EDITOR);
+    await setWorkspaceMember(other.id, outsider.id, UserRole.USER);
+
+    const result = await getUsers({ workspaceId: workspace.id, limit: 100 });
+    expect(result.users.map(user => user.id)).toEqual([member.id]);
+    expect(result.users[0]?.workspaceRole).toBe(UserRole.EDITOR);
+
+    const editors = await getUsers({ workspaceId: workspace.id, role: UserRole.EDITOR });
+    expect(editors.total).toBe(1);
+
+    const defaultUsers = await getUsers({ workspaceId: WORKSPACES.DEFAULT_ID, limit: 100 });
+    expect(defaultUsers.users.map(user => user.id)).not.toContain(outsider.id);
+  });
+});
@@ -0,0 +1,152 @@
+import { randomBytes } from "crypto";
+
+import { anonymizeUserAuditLogs, logPrivacyEvent } from "@/lib/audit/audit-service";
+import { listUserApiTokens, revokeApiToken } from "@/lib/auth/api-tokens";
+import { ACCOUNT_DELETION } from "@/lib/auth/constants";
+import { revokeUserSessions } from "@/lib/auth/session-store";
+import { deleteUser, getUserById } from "@/lib/auth/user-service";
+import { removeUserMemberships } from "@/lib/auth/workspaces";
+import { deleteAvatarConversations } from "@/lib/avatar/dify";
+import { anonymizeUserChatData } from "@/lib/realtime/server";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { AccountDeletionRequest } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["requestedAt", "scheduledFor", "cancelledAt", "completedAt"]);
+
+// Requests keyed by id. Completed requests are kept as a record that deletion happened.
+const requestStore = createJsonCollection<AccountDeletionRequest>({
+  file: { name: "account-deletions.json", pathEnv: "ACCOUNT_DELETION_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.id,
+});
+
+function isPending(record: AccountDeletionRequest): boolean {
+  return !record.cancelledAt && !record.completedAt;
+}
+
+/**
+ * The user's scheduled deletion, or null when none is pending
+ */
+export async function getPendingAccountDeletion(
+  userId: string
+): Promise<AccountDeletionRequest | null> {
+  return findPending(await requestStore.read(), userId);
+}
+
+function findPending(
+  requests: Map<string, AccountDeletionRequest>,
+  userId: string
+): AccountDeletionRequest | null {
+  const record = Array.from(requests.values()).find(
+    request => request.userId === userId && isPending(request)
+  );
+  return record ? { ...record } : null;
+}
+
+/**
+ * Schedule the user's account for deletion after the grace period. Throws when
+ * a deletion is already scheduled.
+ */
+export async function requestAccountDeletion(userId: string): Promise<AccountDeletionRequest> {
+  const now = new Date();
+  const record: AccountDeletionRequest = {
+    id: randomBytes(12).toString("base64url"),
+    userId,
+    requestedAt: now,
+    scheduledFor: new Date(now.getTime() + ACCOUNT_DELETION.GRACE_PERIOD * 24 * 60 * 60 * 1000),
+  };
+
+  await requestStore.change(requests => {
+    if (findPending(requests, userId)) {
+      throw new Error("Your account is already scheduled for deletion");
+    }
+    requests.set(record.id, record);
+  });
+  return { ...record };
+}
+
+/**
+ * Cancel the user's scheduled deletion. Returns null when none is pending.
+ */
+export async function cancelAccountDeletion(
+  userId: string
+): Promise<AccountDeletionRequest | null> {
+  return requestStore.change(
+    requests => {
+      const pending = findPending(requests, userId);
+      const record = pending && requests.get(pending.id);
+      if (!record) {
+        return null;
+      }
+
+      record.cancelledAt = new Date();
+      return { ...record };
+    },
+    cancelled => cancelled !== null
+  );
+}
+
+/**
+ * Delete the account and the data tied to it. Chat messages are kept for the
+ * other participants but attributed to a placeholder; avatar conversations,
+ * notifications, sessions, API tokens and workspace memberships are removed.
+ * Audit entries are kept as the security record, under the user's (now
+ * unresolvable) id, with the email and request details scrubbed. Throws when
+ * the user cannot be deleted, so the deletion can be retried.
+ */
+export async function deleteAccountData(userId: string): Promise<void> {
+  // Null when an earlier attempt already deleted the user but failed afterwards
+  const user = await getUserById(userId);
+
+  // First, so a Dify outage leaves the account in place to retry later
+  await deleteAvatarConversations(userId);
+
+  anonymizeUserChatData(userId, ACCOUNT_DELETION.PLACEHOLDER_USER_ID);
+  await revokeUserSessions(userId);
+  for (const token of await listUserApiTokens(userId)) {
+    await revokeApiToken(userId, token.id);
+  }
+  await removeUserMemberships(userId);
+  if (!user) {
+    return;
+  }
+
+  if (!(await deleteUser(userId))) {
+    throw new Error(`User ${userId} could not be deleted`);
+  }
+  await anonymizeUserAuditLogs({
+    userId,
+    email: user.email,
+    placeholder: ACCOUNT_DELETION.PLACEHOLDER_USER_ID,
+  });
+}
+
+/**
+ * Carry out every deletion whose grace period has ended. A deletion that fails
+ * stays pending and is retried on the next run. Returns the deleted user ids.
+ */
+export async function processDueAccountDeletions(): Promise<string[]> {
+  const now = new Date();
+  const deleted: string[] = [];
+  const due = Array.from((await requestStore.read()).values()).filter(
+    record => isPending(record) && record.scheduledFor <= now
+  );
+
+  for (const { id, ...record } of due) {
+    try {
+      await deleteAccountData(record.userId);
+      await requestStore.change(requests => {
+        const current = requests.get(id);
+        if (current) {
+          current.completedAt = new Date();
+        }
+      });
+      await logPrivacyEvent({ userId: record.userId, event: "deleted" });
+      deleted.push(record.userId);
+    } catch (error) {
+      console.error(`Error deleting account ${record.userId}:`, error);
+    }
+  }
+
+  return deleted;
+}
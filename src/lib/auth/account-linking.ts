@@ -0,0 +1,192 @@
+import { createHash, randomBytes } from "crypto";
+
+import { ACCOUNT_LINKING } from "@/lib/auth/constants";
+import {
+  createUser,
+  getUserByEmail,
+  getUserById,
+  getUserByProviderAccount,
+  linkProviderAccount,
+  normalizeEmail,
+  recordUserActivity,
+  updateUser,
+} from "@/lib/auth/user-service";
+import { UserRole, type User } from "@/types/auth";
+
+/**
+ * Identity returned by an OAuth provider at sign-in
+ */
+export interface OAuthIdentity {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  emailVerified: boolean;
+  name: string | null;
+  image: string | null;
+  username: string | null;
+}
+
+export type OAuthSignInResult =
+  | { status: "signed-in" | "linked" | "created"; user: User }
+  | { status: "error"; error: "OAuthAccountNotLinked" | "AccountAlreadyLinked" | "AccessDenied" };
+
+interface LinkIntent {
+  userId: string;
+  provider: string;
+  expiresAt: Date;
+}
+
+// In-memory storage for pending "connect provider" requests (in production, this should be a database)
+const linkIntents = new Map<string, LinkIntent>();
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Record that a signed-in user is about to connect a provider.
+ * The returned token is stored in a short-lived cookie and read back by the
+ * signIn callback when the provider redirects back.
+ */
+export function createLinkIntent(userId: string, provider: string): string {
+  const token = randomBytes(32).toString("base64url");
+
+  linkIntents.set(hashToken(token), {
+    userId,
+    provider,
+    expiresAt: new Date(Date.now() + ACCOUNT_LINKING.INTENT_TTL * 1000),
+  });
+
+  return token;
+}
+
+/**
+ * Consume a link intent for a provider. Returns the user id to link to, or null.
+ */
+export function consumeLinkIntent(token: string, provider: string): string | null {
+  const tokenHash = hashToken(token);
+  const intent = linkIntents.get(tokenHash);
+  linkIntents.delete(tokenHash);
+
+  if (!intent || intent.provider !== provider || intent.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return intent.userId;
+}
+
+/**
+ * Whether the provider vouches for the email on its profile.
+ * GitHub's profile email is whatever the user made public and is never trusted here.
+ */
+export function isProviderEmailVerified(
+  provider: string,
+  profile?: Record<string, any> | null
+): boolean {
+  switch (provider) {
+    case "google":
+      return profile?.email_verified === true;
+    case "discord":
+      return profile?.verified === true;
+    default:
+      return false;
+  }
+}
+
+// A provider that has verified the user's own address confirms it for this app too
+function confirmsEmail(identity: OAuthIdentity, user: User): boolean {
+  return identity.emailVerified && normalizeEmail(identity.email) === user.email;
+}
+
+async function markEmailVerified(user: User, identity: OAuthIdentity): Promise<User> {
+  if (user.emailVerified || !confirmsEmail(identity, user)) {
+    return user;
+  }
+
+  return (await updateUser(user.id, { emailVerified: true, updatedAt: new Date() })) ?? user;
+}
+
+/**
+ * Work out which user an OAuth sign-in belongs to:
+ * 1. an identity that is already linked signs in to its user
+ * 2. an explicit connect request (linkToUserId) links the identity to that user
+ * 3. an existing account with the same email is linked only when both the provider
+ *    and the existing account have verified the email
+ * 4. otherwise a new user is created
+ * A provider-verified email that matches the user's email also verifies it here.
+ */
+export async function resolveOAuthSignIn(
+  identity: OAuthIdentity,
+  linkToUserId?: string | null
+): Promise<OAuthSignInResult> {
+  const linkedUser = await getUserByProviderAccount(identity.provider, identity.providerAccountId);
+
+  if (linkedUser) {
+    if (linkToUserId && linkedUser.id !== linkToUserId) {
+      return { status: "error", error: "AccountAlreadyLinked" };
+    }
+
+    // Filling in a missing picture or confirming the email is a change to the
+    // user; signing in alone is not (see recordUserActivity)
+    const changes = {
+      ...(!linkedUser.image && identity.image && { image: identity.image }),
+      ...(!linkedUser.emailVerified &&
+        confirmsEmail(identity, linkedUser) && { emailVerified: true }),
+    };
+    if (Object.keys(changes).length > 0) {
+      await updateUser(linkedUser.id, { ...changes, updatedAt: new Date() });
+    }
+
+    const user = await recordUserActivity(linkedUser.id, { lastLoginAt: new Date() });
+    return { status: "signed-in", user: user ?? linkedUser };
+  }
+
+  const account = {
+    provider: identity.provider,
+    providerAccountId: identity.providerAccountId,
+    email: identity.email,
+    emailVerified: identity.emailVerified,
+  };
+
+  if (linkToUserId) {
+    if (!(await getUserById(linkToUserId))) {
+      return { status: "error", error: "AccessDenied" };
+    }
+
+    const user = await linkProviderAccount(linkToUserId, account);
+    return user
+      ? { status: "linked", user: await markEmailVerified(user, identity) }
+      : { status: "error", error: "AccessDenied" };
+  }
+
+  const email = normalizeEmail(identity.email);
+  const existingUser = await getUserByEmail(email);
+
+  if (existingUser) {
+    // Auto-linking an unverified email would let whoever controls either side take over the account
+    if (!identity.emailVerified || !existingUser.emailVerified) {
+      return { status: "error", error: "OAuthAccountNotLinked" };
+    }
+
+    const user = await linkProviderAccount(existingUser.id, account);
+    return user ? { status: "linked", user } : { status: "error", error: "AccessDenied" };
+  }
+
+  const user = await createUser({
+    id: "",
+    email,
+    name: identity.name,
+    image: identity.image,
+    username: identity.username,
+    role: UserRole.USER,
+    provider: identity.provider,
+    providerId: identity.providerAccountId,
+    accounts: [{ ...account, linkedAt: new Date() }],
+    isActive: true,
+    emailVerified: identity.emailVerified,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  return { status: "created", user };
+}
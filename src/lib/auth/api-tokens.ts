@@ -0,0 +1,191 @@
+import { createHash, randomBytes } from "crypto";
+
+import { API_TOKEN } from "@/lib/auth/constants";
+import { resolveUserPermissions } from "@/lib/auth/permissions";
+import { expireRoleGrants } from "@/lib/auth/role-grants";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { needsTwoFactorSetup } from "@/lib/auth/two-factor";
+import { getUserById } from "@/lib/auth/user-service";
+import { applyWorkspaceContext } from "@/lib/auth/workspaces";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import { Permission, type ApiToken, type PublicApiToken, type User } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["createdAt", "expiresAt", "lastUsedAt", "revokedAt"]);
+
+// Personal access tokens keyed by token id
+const tokenStore = createJsonCollection<ApiToken>({
+  file: { name: "api-tokens.json", pathEnv: "API_TOKEN_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.id,
+  // Revoked and expired tokens can never be used again
+  expired: record => !isApiTokenActive(record),
+});
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toPublicApiToken(record: ApiToken): PublicApiToken {
+  const { tokenHash: _tokenHash, ...publicToken } = record;
+  return { ...publicToken, scopes: [...record.scopes] };
+}
+
+/**
+ * Whether a token can still be used
+ */
+export function isApiTokenActive(record: ApiToken): boolean {
+  return !record.revokedAt && (!record.expiresAt || record.expiresAt > new Date());
+}
+
+/**
+ * Read the token from an "Authorization: Bearer <token>" header
+ */
+export function getBearerToken(headers: Headers): string | null {
+  const match = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Mint a token for a user. Scopes must be permissions the user holds;
+ * ACCESS_API is always included. Throws when the request is not allowed.
+ * Returns the raw token - it is never stored and cannot be recovered later.
+ */
+export async function createApiToken(data: {
+  userId: string;
+  name: string;
+  scopes: Permission[];
+  expiresInDays?: number | null;
+}): Promise<{ token: string; apiToken: PublicApiToken }> {
+  const user = await getUserById(data.userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  await ensureRolesLoaded();
+  const userPermissions = resolveUserPermissions(user);
+  if (!userPermissions.includes(Permission.ACCESS_API)) {
+    throw new Error("API access is not enabled for this account");
+  }
+
+  const scopes = Array.from(new Set([Permission.ACCESS_API, ...data.scopes]));
+  const missing = scopes.filter(scope => !userPermissions.includes(scope));
+  if (missing.length > 0) {
+    throw new Error(`Cannot grant permissions you do not have: ${missing.join(", ")}`);
+  }
+
+  const token = API_TOKEN.PREFIX + randomBytes(API_TOKEN.TOKEN_BYTES).toString("base64url");
+  const now = new Date();
+  const record: ApiToken = {
+    id: randomBytes(12).toString("base64url"),
+    userId: data.userId,
+    name: data.name,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, API_TOKEN.PREFIX.length + 6),
+    scopes,
+    createdAt: now,
+    expiresAt: data.expiresInDays
+      ? new Date(now.getTime() + data.expiresInDays * 24 * 60 * 60 * 1000)
+      : null,
+  };
+
+  await tokenStore.change(tokens => {
+    const activeCount = Array.from(tokens.values()).filter(
+      existing => existing.userId === data.userId && isApiTokenActive(existing)
+    ).length;
+    if (activeCount >= API_TOKEN.MAX_PER_USER) {
+      throw new Error(`You can have at most ${API_TOKEN.MAX_PER_USER} active tokens`);
+    }
+
+    tokens.set(record.id, record);
+  });
+  return { token, apiToken: toPublicApiToken(record) };
+}
+
+/**
+ * List a user's active tokens, newest first
+ */
+export async function listUserApiTokens(userId: string): Promise<PublicApiToken[]> {
+  const tokens = await tokenStore.read();
+
+  return Array.from(tokens.values())
+    .filter(record => record.userId === userId && isApiTokenActive(record))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map(toPublicApiToken);
+}
+
+/**
+ * Revoke one of a user's tokens. Returns the revoked token, or null when the
+ * user has no active token with that id.
+ */
+export async function revokeApiToken(userId: string, id: string): Promise<PublicApiToken | null> {
+  return tokenStore.change(
+    tokens => {
+      const record = tokens.get(id);
+      if (!record || record.userId !== userId || !isApiTokenActive(record)) {
+        return null;
+      }
+
+      record.revokedAt = new Date();
+      return toPublicApiToken(record);
+    },
+    revoked => revoked !== null
+  );
+}
+
+/**
+ * Resolve a bearer token to the user it acts for, in the requested workspace
+ * (or their first one). The user's permissions come from their role in that
+ * workspace, narrowed to the token's scopes; temporary roles that ran out are
+ * reverted first. Returns null for unknown, expired or revoked tokens, deleted
+ * users, and users who have lost API access.
+ */
+export async function authenticateApiToken(
+  token: string,
+  workspaceId?: string | null
+): Promise<User | null> {
+  try {
+    const tokenHash = hashToken(token);
+    const record = Array.from((await tokenStore.read()).values()).find(
+      r => r.tokenHash === tokenHash
+    );
+    if (!record || !isApiTokenActive(record)) {
+      return null;
+    }
+
+    await expireRoleGrants();
+    const user = await getUserById(record.userId);
+    // Tokens must not bypass a pending role-required 2FA enrollment or email verification
+    if (!user || needsTwoFactorSetup(user) || !user.emailVerified) {
+      return null;
+    }
+
+    await ensureRolesLoaded();
+    const scopedUser = await applyWorkspaceContext(user, workspaceId);
+    const permissions = resolveUserPermissions(scopedUser).filter(permission =>
+      record.scopes.includes(permission)
+    );
+    if (!permissions.includes(Permission.ACCESS_API)) {
+      return null;
+    }
+
+    const now = new Date();
+    const lastUsedAt = record.lastUsedAt?.getTime() ?? 0;
+    if (now.getTime() - lastUsedAt >= API_TOKEN.LAST_USED_RESOLUTION * 1000) {
+      await tokenStore.change(
+        tokens => {
+          const current = tokens.get(record.id);
+          if (current) {
+            current.lastUsedAt = now;
+          }
+          return Boolean(current);
+        },
+        touched => touched
+      );
+    }
+
+    return { ...scopedUser, permissions };
+  } catch (error) {
+    console.error("Error authenticating API token:", error);
+    return null;
+  }
+}
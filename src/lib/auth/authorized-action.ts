@@ -0,0 +1,134 @@
+import { headers } from "next/headers";
+
+import { logUnauthorizedAccess } from "@/lib/audit/audit-service";
+import { auth } from "@/lib/auth";
+import { getEffectiveRole, hasAllPermissions, hasHigherOrEqualRole } from "@/lib/auth/permissions";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { Permission, RoleName, User } from "@/types/auth";
+
+import type { z } from "zod";
+
+export type ActionErrorCode =
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "VALIDATION"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "INTERNAL";
+
+export interface ActionError {
+  code: ActionErrorCode;
+  message: string;
+  // Messages per input field, for VALIDATION errors
+  fieldErrors?: Record<string, string[] | undefined>;
+}
+
+export type ActionResult<T> = { ok: true; data: T } | { ok: false; error: ActionError };
+
+export interface ActionRequirements {
+  permissions?: Permission[];
+  // Lowest role allowed, compared by level against the active workspace's role
+  minRole?: RoleName;
+  // Recorded as the requested resource when access is denied
+  name?: string;
+}
+
+/**
+ * Who called the action and from where
+ */
+export interface ActionContext {
+  user: User;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * A successful action result
+ */
+export function actionSuccess<T>(data: T): ActionResult<T> {
+  return { ok: true, data };
+}
+
+/**
+ * A failed action result
+ */
+export function actionFailure<T = never>(
+  code: ActionErrorCode,
+  message: string,
+  fieldErrors?: ActionError["fieldErrors"]
+): ActionResult<T> {
+  return { ok: false, error: { code, message, ...(fieldErrors && { fieldErrors }) } };
+}
+
+/**
+ * Wrap a server action so it only runs for signed-in users holding the
+ * required role and permissions, with input validated by the schema. Denials
+ * are audited; every outcome comes back as an ActionResult instead of a throw.
+ */
+export function authorizedAction<Schema extends z.ZodTypeAny, T>(
+  schema: Schema,
+  requirements: ActionRequirements,
+  handler: (input: z.output<Schema>, context: ActionContext) => Promise<ActionResult<T>>
+): (input: z.input<Schema>) => Promise<ActionResult<T>> {
+  const name = requirements.name ?? (handler.name || "server action");
+
+  return async input => {
+    try {
+      const headerList = await headers();
+      const ipAddress = getClientIp(headerList);
+      const userAgent = headerList.get("user-agent") ?? undefined;
+
+      const session = await auth();
+      const user = session?.user as User | undefined;
+
+      const deny = async (code: ActionErrorCode, message: string, required?: string) => {
+        await logUnauthorizedAccess({
+          userId: user?.id,
+          requestedResource: `action:${name}`,
+          requiredPermission: required,
+          workspaceId: user?.workspaceId,
+          ipAddress,
+          userAgent,
+        });
+        return actionFailure<T>(code, message);
+      };
+
+      if (!user?.id) {
+        return deny("UNAUTHENTICATED", "Not authenticated");
+      }
+      if (!user.isActive) {
+        return deny("FORBIDDEN", "Account is inactive");
+      }
+
+      if (
+        requirements.minRole &&
+        !hasHigherOrEqualRole(getEffectiveRole(user), requirements.minRole)
+      ) {
+        return deny("FORBIDDEN", "Insufficient role", `role:${requirements.minRole}`);
+      }
+
+      const permissions = requirements.permissions ?? [];
+      if (!(await hasAllPermissions(user, permissions))) {
+        return deny("FORBIDDEN", "Insufficient permissions", permissions.join(","));
+      }
+
+      const validation = schema.safeParse(input);
+      if (!validation.success) {
+        return actionFailure<T>(
+          "VALIDATION",
+          "Validation failed",
+          validation.error.flatten().fieldErrors
+        );
+      }
+
+      return await handler(validation.data, {
+        user,
+        ipAddress,
+        userAgent,
+      });
+    } catch (error) {
+      console.error(`Error in ${name}:`, error);
+      return actionFailure<T>("INTERNAL", "Internal server error");
+    }
+  };
+}
@@ -0,0 +1,93 @@
+import { INVITATIONS } from "@/lib/auth/constants";
+import {
+  createInvitation,
+  listInvitations,
+  resendInvitation,
+  sendInvitationEmail,
+} from "@/lib/auth/invitations";
+import { DEFAULT_USERS, getUserRepository, shouldSeedDemoUsers } from "@/lib/auth/user-repository";
+import { normalizeEmail, updateUser } from "@/lib/auth/user-service";
+import { getStoreDriver } from "@/lib/storage/json-file";
+import { UserRole, type User } from "@/types/auth";
+
+/**
+ * Clear the published passwords of demo accounts in a store that was seeded
+ * with them, so they cannot sign in with credentials outside local development.
+ * Returns the ids of the accounts that were changed.
+ */
+export async function disableDemoPasswords(users: User[]): Promise<string[]> {
+  const disabled: string[] = [];
+
+  for (const demo of DEFAULT_USERS) {
+    const user = users.find(u => u.id === demo.id && u.email === demo.email);
+    if (user?.passwordHash && user.passwordHash === demo.passwordHash) {
+      await updateUser(user.id, { passwordHash: null, updatedAt: new Date() });
+      disabled.push(user.id);
+    }
+  }
+
+  return disabled;
+}
+
+function isDemoUser(user: User): boolean {
+  return DEFAULT_USERS.some(demo => demo.id === user.id && demo.email === user.email);
+}
+
+/**
+ * Invite `email` as the first administrator while the store has no active
+ * ADMIN besides the demo account. A pending invitation gets a fresh link, so
+ * the link printed at the latest start is the one that works. Returns the
+ * accept link, or null when an administrator already exists.
+ */
+export async function inviteFirstAdmin(users: User[], email: string): Promise<string | null> {
+  if (users.some(user => user.role === UserRole.ADMIN && user.isActive && !isDemoUser(user))) {
+    return null;
+  }
+
+  const pending = (await listInvitations()).find(
+    invitation =>
+      invitation.email === normalizeEmail(email) &&
+      invitation.role === UserRole.ADMIN &&
+      invitation.status === "pending"
+  );
+
+  const created = pending
+    ? await resendInvitation(pending.id, INVITATIONS.DEFAULT_EXPIRY)
+    : await createInvitation({
+        email,
+        role: UserRole.ADMIN,
+        invitedBy: INVITATIONS.SYSTEM_INVITER,
+        expiresInDays: INVITATIONS.DEFAULT_EXPIRY,
+      });
+  if (!created) {
+    return null;
+  }
+
+  const { inviteUrl } = await sendInvitationEmail({ ...created, invitedBy: null });
+  return inviteUrl;
+}
+
+/**
+ * Prepare the user store at server start (see src/instrumentation.ts)
+ */
+export async function bootstrapUserStore(): Promise<void> {
+  const users = await getUserRepository().findAll();
+
+  // The in-memory store is for tests and demos and always has the demo accounts
+  if (getStoreDriver() === "file" && !shouldSeedDemoUsers()) {
+    const disabled = await disableDemoPasswords(users);
+    if (disabled.length > 0) {
+      console.warn(`Cleared the demo passwords of users ${disabled.join(", ")}`);
+    }
+  }
+
+  const email = process.env.INITIAL_ADMIN_EMAIL;
+  if (!email) {
+    return;
+  }
+
+  const inviteUrl = await inviteFirstAdmin(users, email);
+  if (inviteUrl) {
+    console.info(`No administrator yet. ${email} can set up the first one at ${inviteUrl}`);
+  }
+}
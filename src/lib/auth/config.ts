@@ -1,15 +1,109 @@
+import { cookies, headers } from "next/headers";
+
+import { CredentialsSignin } from "next-auth";
 import Credentials from "next-auth/providers/credentials";
 import Discord from "next-auth/providers/discord";
 import GitHub from "next-auth/providers/github";
 import Google from "next-auth/providers/google";
 
-import { getRolePermissions } from "@/lib/auth/permissions";
-import { getUserById, createUser, updateUser, getUserByEmail } from "@/lib/auth/user-service";
-import type { UserRole, Permission } from "@/types/auth";
+import {
+  logAccountLinkChange,
+  logImpersonationEvent,
+  logInvitationEvent,
+  logTwoFactorEvent,
+} from "@/lib/audit/audit-service";
+import {
+  consumeLinkIntent,
+  isProviderEmailVerified,
+  resolveOAuthSignIn,
+} from "@/lib/auth/account-linking";
+import {
+  ACCOUNT_LINKING,
+  AUTH_CONFIG,
+  INVITATIONS,
+  LOGIN_THROTTLE,
+  TWO_FACTOR,
+} from "@/lib/auth/constants";
+import {
+  getActiveImpersonation,
+  getImpersonationError,
+  stopImpersonation,
+} from "@/lib/auth/impersonation";
+import { redeemInvitation } from "@/lib/auth/invitations";
+import {
+  getLoginThrottle,
+  recordLoginFailure,
+  recordLoginSuccess,
+} from "@/lib/auth/login-throttle";
+import { resolveUserPermissions } from "@/lib/auth/permissions";
+import { expireRoleGrants, getActiveRoleGrant } from "@/lib/auth/role-grants";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import {
+  createSession,
+  getSession,
+  isSessionActive,
+  revokeSession,
+  touchSession,
+} from "@/lib/auth/session-store";
+import {
+  isTwoFactorEnabled,
+  needsTwoFactorSetup,
+  verifyTwoFactorChallenge,
+} from "@/lib/auth/two-factor";
+import { getUserById, recordUserActivity, verifyUserCredentials } from "@/lib/auth/user-service";
+import { applyWorkspaceContext } from "@/lib/auth/workspaces";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type { RoleName, Permission, User } from "@/types/auth";
 
 import type { NextAuthConfig, Session, User as NextAuthUser } from "next-auth";
 import type { JWT } from "next-auth/jwt";
 
+// Sent to the login form as `code` so it can ask for an authenticator code
+class TwoFactorRequiredError extends CredentialsSignin {
+  override code = TWO_FACTOR.CODE_REQUIRED;
+}
+
+class TwoFactorInvalidError extends CredentialsSignin {
+  override code = TWO_FACTOR.CODE_INVALID;
+}
+
+// The login form shows "try again in X minutes" from the seconds in the code
+class AccountLockedError extends CredentialsSignin {
+  constructor(retryAfter: number) {
+    super();
+    this.code = `${LOGIN_THROTTLE.LOCKED_CODE}:${retryAfter}`;
+  }
+}
+
+/**
+ * Apply a pending invitation for the user's email at sign-in. The invitation
+ * cookie set by the accept page proves the user received the invitation;
+ * without it, only a provider-verified email qualifies.
+ */
+async function applyPendingInvitation(user: User, emailVerified: boolean): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(INVITATIONS.COOKIE)?.value;
+  if (token) {
+    cookieStore.delete(INVITATIONS.COOKIE);
+  }
+
+  const redeemed = await redeemInvitation({ user, token, emailVerified });
+  if (!redeemed) {
+    return;
+  }
+
+  const headerList = await headers();
+  await logInvitationEvent({
+    userId: user.id,
+    event: "accepted",
+    invitationId: redeemed.invitation.id,
+    email: redeemed.invitation.email,
+    role: redeemed.invitation.role,
+    ipAddress: getClientIp(headerList),
+    userAgent: headerList.get("user-agent") ?? undefined,
+  });
+}
+
 export const config = {
   pages: {
     signIn: "/login",
@@ -22,61 +116,80 @@ export const config = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         if (!credentials?.email || !credentials?.password) {
           return null;
         }
 
-        // Mock credentials for testing
-        const testCredentials = {
-          "admin@example.com": { password: "adminuser123", role: "ADMIN" as UserRole },
-          "editor@example.com": { password: "editoruser123", role: "EDITOR" as UserRole },
-          "test@example.com": { password: "testuser123", role: "USER" as UserRole },
+        const email = credentials.email as string;
+        const client = {
+          ipAddress: getClientIp(request.headers),
+          userAgent: request.headers.get("user-agent") ?? undefined,
         };
 
-        const email = credentials.email as string;
-        const password = credentials.password as string;
-
-        // Check against mock credentials
-        const testCred = testCredentials[email as keyof typeof testCredentials];
-        if (testCred && testCred.password === password) {
-          // Check if user exists in mock database
-          let user = await getUserByEmail(email);
-
-          if (!user) {
-            // Create user if doesn't exist
-            const newUserId = Date.now().toString();
-            const usernameBase = email.split("@")[0] || "user";
-            await createUser({
-              id: newUserId,
+        // Locked accounts and IPs are rejected before the password is checked
+        const throttle = await getLoginThrottle({ email, ipAddress: client.ipAddress });
+        if (throttle.locked) {
+          throw new AccountLockedError(throttle.retryAfter);
+        }
+
+        const user = await verifyUserCredentials(email, credentials.password as string);
+
+        if (!user) {
+          const status = await recordLoginFailure({
+            ...client,
+            email,
+            reason: "Invalid email or password",
+          });
+          if (status.locked) {
+            throw new AccountLockedError(status.retryAfter);
+          }
+          return null;
+        }
+
+        if (isTwoFactorEnabled(user)) {
+          const code = credentials.code as string | undefined;
+          if (!code) {
+            throw new TwoFactorRequiredError();
+          }
+
+          const method = await verifyTwoFactorChallenge(user, code);
+
+          if (!method) {
+            await logTwoFactorEvent({ ...client, userId: user.id, event: "challenge_failed" });
+            const status = await recordLoginFailure({
+              ...client,
               email,
-              name: usernameBase.charAt(0).toUpperCase() + usernameBase.slice(1),
-              image: null,
-              username: usernameBase,
-              role: testCred.role,
-              provider: "credentials",
-              providerId: newUserId,
-              isActive: true,
-              emailVerified: true,
-              createdAt: new Date(),
-              updatedAt: new Date(),
+              userId: user.id,
+              reason: "Invalid two-factor code",
             });
-            user = await getUserByEmail(email);
+            if (status.locked) {
+              throw new AccountLockedError(status.retryAfter);
+            }
+            throw new TwoFactorInvalidError();
           }
 
-          if (user) {
-            return {
-              id: user.id,
-              email: user.email,
-              name: user.name,
-              image: user.image,
-              username: user.username,
-            };
-          }
+          await logTwoFactorEvent({
+            ...client,
+            userId: user.id,
+            event: method === "recovery_code" ? "recovery_code_used" : "challenge_succeeded",
+            ...(method === "recovery_code" && {
+              remainingRecoveryCodes: (user.twoFactor?.recoveryCodeHashes.length ?? 1) - 1,
+            }),
+          });
         }
 
-        return null;
+        await recordLoginSuccess({ ...client, email, userId: user.id });
+
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          image: user.image,
+          username: user.username,
+        };
       },
     }),
     GitHub({
@@ -126,36 +239,63 @@ export const config = {
           return false;
         }
 
-        // Check if user exists in database
-        const existingUser = await getUserById(user.id!);
+        // Credentials were already checked in authorize()
+        if (!account || account.provider === "credentials") {
+          const dbUser = await recordUserActivity(user.id!, { lastLoginAt: new Date() });
+          if (dbUser) {
+            await applyPendingInvitation(dbUser, dbUser.emailVerified);
+          }
+          return true;
+        }
 
-        if (!existingUser) {
-          // Create new user with default role
-          await createUser({
-            id: user.id!,
+        // A signed-in user connecting another provider from their profile
+        const cookieStore = await cookies();
+        const intentToken = cookieStore.get(ACCOUNT_LINKING.INTENT_COOKIE)?.value;
+        const linkToUserId = intentToken ? consumeLinkIntent(intentToken, account.provider) : null;
+        if (intentToken) {
+          cookieStore.delete(ACCOUNT_LINKING.INTENT_COOKIE);
+        }
+
+        const result = await resolveOAuthSignIn(
+          {
+            provider: account.provider,
+            providerAccountId: account.providerAccountId,
             email: user.email,
+            emailVerified: isProviderEmailVerified(account.provider, profile),
             name: user.name ?? null,
             image: user.image ?? null,
-            username: (user as any).username,
-            role: "USER" as UserRole,
-            provider: account?.provider ?? null,
-            providerId: user.id!,
-            isActive: true,
-            emailVerified: !!user.email,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          });
-        } else {
-          // Update existing user info
-          await updateUser(existingUser.id, {
-            name: user.name ?? null,
-            image: user.image ?? null,
-            username: (user as any).username,
-            lastLoginAt: new Date(),
-            updatedAt: new Date(),
+            username: (user as any).username ?? null,
+          },
+          linkToUserId
+        );
+
+        if (result.status === "error") {
+          return linkToUserId
+            ? `/profile?linkError=${result.error}`
+            : `/auth/error?error=${result.error}`;
+        }
+
+        if (result.status === "linked") {
+          const headerList = await headers();
+          await logAccountLinkChange({
+            userId: result.user.id,
+            action: "link",
+            provider: account.provider,
+            automatic: !linkToUserId,
+            ipAddress: getClientIp(headerList),
+            userAgent: headerList.get("user-agent") ?? undefined,
           });
         }
 
+        if (!linkToUserId) {
+          await applyPendingInvitation(
+            result.user,
+            isProviderEmailVerified(account.provider, profile)
+          );
+        }
+
+        // Sessions are keyed by our user id, not the provider's account id
+        user.id = result.user.id;
         return true;
       } catch (error) {
         console.error("SignIn callback error:", error);
@@ -163,30 +303,175 @@ export const config = {
       }
     },
 
-    async jwt({ token, user, account }: { token: JWT; user?: NextAuthUser; account?: any }) {
+    async jwt({
+      token,
+      user,
+      trigger,
+    }: {
+      token: JWT;
+      user?: NextAuthUser;
+      account?: any;
+      trigger?: "signIn" | "signUp" | "update";
+    }) {
       // Initial sign in
       if (user) {
+        // Temporary roles that ran out while signed out are reverted first
+        await expireRoleGrants();
         const dbUser = await getUserById(user.id!);
         if (dbUser) {
+          await ensureRolesLoaded();
+          const scopedUser = await applyWorkspaceContext(dbUser);
           token.role = dbUser.role;
-          token.permissions = await getRolePermissions(dbUser.role);
+          token.roleGrantExpiresAt = (await getActiveRoleGrant(dbUser.id))?.expiresAt?.getTime();
+          token.workspaceId = scopedUser.workspaceId;
+          token.workspaceRole = scopedUser.workspaceRole;
+          token.permissions = resolveUserPermissions(scopedUser);
           token.userId = dbUser.id;
           token.username = dbUser.username;
           token.isActive = dbUser.isActive;
+          token.twoFactorSetupRequired = needsTwoFactorSetup(dbUser);
+          token.emailVerificationRequired = !dbUser.emailVerified;
+          token.claimsRefreshedAt = Date.now();
+
+          const headerList = await headers();
+          const session = await createSession({
+            userId: dbUser.id,
+            userAgent: headerList.get("user-agent"),
+            ipAddress: getClientIp(headerList),
+          });
+          token.sessionId = session.id;
         }
+        return token;
+      }
+
+      // Tokens issued before the session registry existed have no session id
+      if (!token.sessionId) {
+        return null;
+      }
+
+      // Revoked or expired sessions clear the cookie
+      const session = await getSession(token.sessionId);
+      if (!session || !isSessionActive(session)) {
+        return null;
+      }
+
+      // Impersonation started, stopped or expired since the claims were loaded
+      let impersonation = getActiveImpersonation(session);
+      const impersonationChanged =
+        (impersonation?.startedAt.getTime() ?? null) !== (token.impersonation?.startedAt ?? null);
+
+      // Reload role, permissions and status once per updateAge, when a temporary
+      // role runs out or is revoked, or when the client calls update()
+      const refreshAfter = Math.min(
+        (token.claimsRefreshedAt ?? 0) + AUTH_CONFIG.SESSION.UPDATE_AGE * 1000,
+        token.roleGrantExpiresAt ?? Infinity
+      );
+      const claimsStale =
+        !!session.claimsStaleAt &&
+        session.claimsStaleAt.getTime() >= (token.claimsRefreshedAt ?? 0);
+      if (
+        trigger === "update" ||
+        impersonationChanged ||
+        claimsStale ||
+        Date.now() >= refreshAfter
+      ) {
+        let dbUser: User | null;
+        try {
+          await expireRoleGrants();
+          dbUser = await getUserById(token.userId);
+        } catch (error) {
+          // An unreadable store is not a deleted account: keep the current
+          // claims and try again on the next request
+          console.error("Error refreshing session claims:", error);
+          return token;
+        }
+        if (!dbUser) {
+          await revokeSession(token.sessionId);
+          return null;
+        }
+
+        // While impersonating, the claims are the target's. Impersonation ends
+        // once it expires or the admin may no longer impersonate the target.
+        const target = impersonation ? await getUserById(impersonation.targetUserId) : null;
+        if (
+          session.impersonation &&
+          (!impersonation || !target || (await getImpersonationError(dbUser, target)))
+        ) {
+          await stopImpersonation(token.sessionId);
+          const headerList = await headers();
+          await logImpersonationEvent({
+            adminId: dbUser.id,
+            targetUserId: session.impersonation.targetUserId,
+            event: impersonation ? "stopped" : "expired",
+            ipAddress: getClientIp(headerList),
+            userAgent: headerList.get("user-agent") ?? undefined,
+          });
+          impersonation = null;
+        }
+
+        const actingUser = impersonation && target ? target : dbUser;
+
+        // Permissions come from the role in the workspace chosen in the switcher
+        await ensureRolesLoaded();
+        const scopedUser = await applyWorkspaceContext(actingUser, session.activeWorkspaceId);
+        token.role = actingUser.role;
+        token.roleGrantExpiresAt = (await getActiveRoleGrant(actingUser.id))?.expiresAt?.getTime();
+        token.workspaceId = scopedUser.workspaceId;
+        token.workspaceRole = scopedUser.workspaceRole;
+        token.permissions = resolveUserPermissions(scopedUser);
+        token.username = actingUser.username;
+        token.isActive = actingUser.isActive;
+        // The admin cannot enroll or verify on the target's behalf
+        token.twoFactorSetupRequired = impersonation ? false : needsTwoFactorSetup(dbUser);
+        token.emailVerificationRequired = impersonation ? false : !dbUser.emailVerified;
+        // The email can change on the profile page
+        token.email = dbUser.email;
+        token.impersonation =
+          impersonation && target
+            ? {
+                targetUserId: target.id,
+                name: target.name,
+                email: target.email,
+                image: target.image,
+                startedAt: impersonation.startedAt.getTime(),
+                expiresAt: impersonation.expiresAt.getTime(),
+                allowDestructive: impersonation.allowDestructive,
+              }
+            : undefined;
+        token.claimsRefreshedAt = Date.now();
+        await touchSession(token.sessionId);
       }
 
-      // Return previous token if the access token has not expired yet
       return token;
     },
 
     async session({ session, token }: { session: Session; token: JWT }) {
       if (token && session.user) {
         session.user.id = token.userId as string;
-        session.user.role = token.role as UserRole;
+        session.user.role = token.role as RoleName;
         session.user.permissions = token.permissions as Permission[];
         session.user.username = token.username as string;
         session.user.isActive = token.isActive as boolean;
+        session.user.twoFactorSetupRequired = token.twoFactorSetupRequired;
+        session.user.emailVerificationRequired = token.emailVerificationRequired;
+        session.user.workspaceId = token.workspaceId;
+        session.user.workspaceRole = token.workspaceRole;
+        session.sessionId = token.sessionId;
+
+        // Viewing as another user: session.user is the target, the admin moves to impersonator
+        if (token.impersonation) {
+          session.impersonator = {
+            id: token.userId,
+            name: token.name ?? null,
+            email: token.email ?? null,
+            allowDestructive: token.impersonation.allowDestructive,
+            expiresAt: new Date(token.impersonation.expiresAt).toISOString(),
+          };
+          session.user.id = token.impersonation.targetUserId;
+          session.user.name = token.impersonation.name;
+          session.user.email = token.impersonation.email;
+          session.user.image = token.impersonation.image;
+        }
       }
       return session;
     },
@@ -203,6 +488,15 @@ export const config = {
       return baseUrl;
     },
   },
+  events: {
+    async signOut(message) {
+      // Sign-out ends the server-side session too
+      const sessionId = "token" in message ? message.token?.sessionId : undefined;
+      if (sessionId) {
+        await revokeSession(sessionId);
+      }
+    },
+  },
   session: {
     strategy: "jwt" as const,
     maxAge: 30 * 24 * 60 * 60, // 30 days
@@ -22,6 +22,11 @@ export const AUTH_CONFIG = {
     SIGN_OUT: "/auth/signout",
     ERROR: "/auth/error",
     INACTIVE: "/auth/inactive",
+    SIGN_UP: "/auth/signup",
+    FORGOT_PASSWORD: "/auth/forgot-password",
+    RESET_PASSWORD: "/auth/reset-password",
+    VERIFY_EMAIL: "/auth/verify-email",
+    ACCEPT_INVITATION: "/auth/invite",
   },
 
   // Default redirect paths
@@ -34,32 +39,173 @@ export const AUTH_CONFIG = {
 } as const;
 
 /**
- * Route patterns for middleware
+ * Password policy for credential accounts
  */
-export const ROUTE_PATTERNS = {
-  // Public routes (no authentication required)
-  PUBLIC: [
-    "/",
-    "/login",
-    "/auth/signin",
-    "/auth/signup",
-    "/auth/error",
-    "/auth/inactive",
-    "/api/health",
-    "/api/auth/.*",
+export const PASSWORD_POLICY = {
+  MIN_LENGTH: 8,
+  MAX_LENGTH: 128,
+  REQUIRE_LETTER: true,
+  REQUIRE_NUMBER: true,
+} as const;
+
+/**
+ * Password reset token configuration
+ */
+export const PASSWORD_RESET = {
+  TOKEN_TTL: 60 * 60, // 1 hour in seconds
+} as const;
+
+/**
+ * Email verification links
+ */
+export const EMAIL_VERIFICATION = {
+  TOKEN_TTL: 24 * 60 * 60, // 24 hours in seconds
+  RESEND_INTERVAL: 60, // Minimum seconds between links for one user
+} as const;
+
+/**
+ * Account linking ("connect another provider") configuration
+ */
+export const ACCOUNT_LINKING = {
+  PROVIDERS: ["github", "google", "discord"],
+  INTENT_COOKIE: "account-link-intent",
+  INTENT_TTL: 10 * 60, // 10 minutes in seconds
+} as const;
+
+/**
+ * TOTP two-factor authentication configuration
+ */
+export const TWO_FACTOR = {
+  ISSUER: "FE-Engine Prime",
+  DIGITS: 6,
+  PERIOD: 30, // seconds per code
+  WINDOW: 1, // accepted clock drift, in periods
+  SECRET_BYTES: 20,
+  RECOVERY_CODE_COUNT: 10,
+  // CredentialsSignin codes returned to the login form
+  CODE_REQUIRED: "two_factor_required",
+  CODE_INVALID: "two_factor_invalid",
+} as const;
+
+/**
+ * Email invitations for new users
+ */
+export const INVITATIONS = {
+  EXPIRY_OPTIONS: [1, 7, 30], // Days offered when inviting
+  DEFAULT_EXPIRY: 7, // days
+  // Carries the accept token through an OAuth sign-in round trip
+  COOKIE: "invitation-token",
+  COOKIE_TTL: 30 * 60, // 30 minutes in seconds
+  // Recorded as the inviter of the first administrator
+  SYSTEM_INVITER: "system",
+} as const;
+
+/**
+ * Reactivation requests from deactivated users
+ */
+export const REACTIVATION = {
+  REASON_MAX_LENGTH: 1000,
+  NOTE_MAX_LENGTH: 500, // Admin's note to the user
+} as const;
+
+/**
+ * Self-service data export and account deletion (GDPR)
+ */
+export const ACCOUNT_DELETION = {
+  GRACE_PERIOD: 30, // Days before a requested deletion is carried out
+  // Takes the place of deleted users in content that is kept, such as chat messages
+  PLACEHOLDER_USER_ID: "deleted-user",
+} as const;
+
+/**
+ * User directory queries (GET /api/users)
+ */
+export const USER_QUERY = {
+  SORT_FIELDS: ["name", "email", "createdAt", "lastLoginAt"],
+  DEFAULT_LIMIT: 25,
+  MAX_LIMIT: 100,
+  SEARCH_DEBOUNCE: 300, // ms the admin table waits after typing before searching
+} as const;
+
+/**
+ * Multi-tenant workspaces
+ */
+export const WORKSPACES = {
+  // Users who belong to no workspace are members of this one with their account role
+  DEFAULT_ID: "default",
+  DEFAULT_NAME: "Default",
+  NAME_MAX_LENGTH: 80,
+  HEADER: "x-workspace-id", // Lets API token callers pick a workspace
+} as const;
+
+/**
+ * Time-bound role grants (just-in-time elevation)
+ */
+export const ROLE_GRANTS = {
+  // Never assigned permanently: there is no standing admin access
+  TEMPORARY_ONLY_ROLES: [UserRole.ADMIN] as readonly string[],
+  DURATIONS: [30 * 60, 60 * 60, 2 * 60 * 60, 4 * 60 * 60, 8 * 60 * 60], // Offered, in seconds
+  MAX_DURATION: 8 * 60 * 60, // seconds
+  JUSTIFICATION_MIN_LENGTH: 10,
+  JUSTIFICATION_MAX_LENGTH: 500,
+  NOTE_MAX_LENGTH: 500, // Approver's note to the requester
+} as const;
+
+/**
+ * Admin impersonation ("view as user")
+ */
+export const IMPERSONATION = {
+  MAX_DURATION: 60 * 60, // Ends on its own after 1 hour (seconds)
+  SAFE_METHODS: ["GET", "HEAD", "OPTIONS"], // Allowed without allowDestructive
+  // Blocked even with allowDestructive: the target's credentials, sessions and role requests
+  ALWAYS_BLOCKED: [
+    "/api/user/tokens.*",
+    "/api/user/two-factor.*",
+    "/api/user/sessions.*",
+    "/api/user/accounts.*",
+    "/api/user/role-grants.*",
   ],
+} as const;
 
-  // Protected routes (authentication required)
-  PROTECTED: ["/dashboard", "/profile", "/settings"],
+/**
+ * SCIM 2.0 provisioning from the identity provider
+ */
+export const SCIM = {
+  ACTOR_ID: "scim", // userId recorded on audit entries for SCIM changes
+  DEFAULT_COUNT: 100, // page size when the client sends no count
+  MAX_COUNT: 500,
+} as const;
 
-  // Admin only routes
-  ADMIN: ["/admin", "/dashboard/users", "/dashboard/settings", "/api/admin/.*"],
+/**
+ * Bulk user import from the admin console
+ */
+export const USER_IMPORT = {
+  MAX_ROWS: 5000,
+  MAX_FILE_SIZE: 2 * 1024 * 1024, // bytes
+} as const;
 
-  // Editor or higher routes
-  EDITOR: ["/editor", "/dashboard/content", "/api/content/.*"],
+/**
+ * Brute-force protection for credential sign-in
+ */
+export const LOGIN_THROTTLE = {
+  ACCOUNT_MAX_FAILURES: 5, // per account, since the last successful sign-in
+  ACCOUNT_WINDOW: 24 * 60 * 60, // the count starts over this long after its first failure (seconds)
+  IP_MAX_FAILURES: 20, // per IP address, across all accounts
+  IP_WINDOW: 15 * 60, // as ACCOUNT_WINDOW (seconds)
+  LOCKOUT_DURATION: 15 * 60, // first lockout, doubles on each further threshold (seconds)
+  MAX_LOCKOUT: 24 * 60 * 60, // seconds
+  LOCKED_CODE: "account_locked", // CredentialsSignin code prefix: "account_locked:<seconds>"
+} as const;
 
-  // Static files and API auth (skip middleware)
-  SKIP: ["/_next", "/favicon.ico", "/api/auth", "/api/health"],
+/**
+ * Personal access tokens ("Authorization: Bearer <token>")
+ */
+export const API_TOKEN = {
+  PREFIX: "fep_", // Marks our tokens in logs and secret scanners
+  TOKEN_BYTES: 32,
+  MAX_PER_USER: 20, // Active (unrevoked, unexpired) tokens
+  EXPIRY_OPTIONS: [7, 30, 90, 365], // Days offered when minting; omit for no expiry
+  LAST_USED_RESOLUTION: 60, // Persist lastUsedAt at most once per minute (seconds)
 } as const;
 
 /**
@@ -195,6 +341,13 @@ export const OAUTH_PROVIDERS = {
  */
 export const AUTH_ERRORS = {
   INVALID_CREDENTIALS: "Invalid email or password",
+  EMAIL_IN_USE: "An account with this email already exists",
+  INVALID_RESET_TOKEN: "This reset link is invalid or has expired",
+  INVALID_VERIFICATION_TOKEN: "This verification link is invalid or has expired",
+  INVALID_INVITATION: "This invitation is invalid, has expired or was already used",
+  ACCOUNT_ALREADY_LINKED: "This provider account is already linked to another user",
+  LAST_SIGN_IN_METHOD: "You can't disconnect your only sign-in method",
+  USER_CHANGED: "User has changed since it was loaded",
   USER_NOT_FOUND: "User account not found",
   USER_INACTIVE: "User account is inactive",
   INSUFFICIENT_PERMISSIONS: "You don't have permission to access this resource",
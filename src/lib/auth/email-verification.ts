@@ -0,0 +1,134 @@
+import { createHash, randomBytes } from "crypto";
+
+import { EMAIL_VERIFICATION } from "@/lib/auth/constants";
+import { getUserById, updateUser } from "@/lib/auth/user-service";
+import { buildAppUrl } from "@/lib/mail/app-url";
+import { sendMail } from "@/lib/mail/mailer";
+import { emailVerificationEmail } from "@/lib/mail/templates";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { EmailVerificationToken, User } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["createdAt", "expiresAt", "usedAt"]);
+
+// Verification tokens keyed by token hash, so emailed links survive restarts
+// and deploys
+const tokenStore = createJsonCollection<EmailVerificationToken>({
+  file: { name: "email-verifications.json", pathEnv: "EMAIL_VERIFICATION_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.tokenHash,
+  // Expired tokens can never be used again
+  expired: (record, now) => record.expiresAt <= now,
+});
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function getValidRecord(
+  tokens: Map<string, EmailVerificationToken>,
+  token: string
+): Promise<EmailVerificationToken | null> {
+  const record = tokens.get(hashToken(token));
+  if (!record || record.usedAt || record.expiresAt <= new Date()) {
+    return null;
+  }
+
+  // A link sent before an email change does not verify the new address
+  const user = await getUserById(record.userId);
+  return user?.email === record.email ? record : null;
+}
+
+/**
+ * Seconds until the user may be sent another link, or 0 when they may now
+ */
+export async function getVerificationResendWait(userId: string): Promise<number> {
+  let lastSentAt = 0;
+  for (const record of (await tokenStore.read()).values()) {
+    if (record.userId === userId) {
+      lastSentAt = Math.max(lastSentAt, record.createdAt.getTime());
+    }
+  }
+
+  const waitMs = lastSentAt + EMAIL_VERIFICATION.RESEND_INTERVAL * 1000 - Date.now();
+  return Math.max(0, Math.ceil(waitMs / 1000));
+}
+
+/**
+ * Issue a verification token for the user's current email. Earlier links for
+ * the same user stop working. Returns the raw token - it is never stored and
+ * cannot be recovered later.
+ */
+export async function createEmailVerificationToken(
+  user: Pick<User, "id" | "email">
+): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await tokenStore.change(tokens => {
+    for (const [tokenHash, record] of tokens) {
+      if (record.userId === user.id) {
+        tokens.delete(tokenHash);
+      }
+    }
+
+    tokens.set(hashToken(token), {
+      tokenHash: hashToken(token),
+      userId: user.id,
+      email: user.email,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + EMAIL_VERIFICATION.TOKEN_TTL * 1000),
+    });
+  });
+  return token;
+}
+
+/**
+ * Check a verification token without consuming it (used to render the verify page)
+ */
+export async function isEmailVerificationTokenValid(token: string): Promise<boolean> {
+  return !!(await getValidRecord(await tokenStore.read(), token));
+}
+
+/**
+ * Consume a verification token and mark the user's email verified. Returns the
+ * updated user, or null when the token is unknown, expired, already used, or
+ * was sent to an email the user no longer has.
+ */
+export async function consumeEmailVerificationToken(token: string): Promise<User | null> {
+  const record = await tokenStore.change(
+    async tokens => {
+      const valid = await getValidRecord(tokens, token);
+      if (valid) {
+        valid.usedAt = new Date();
+      }
+      return valid;
+    },
+    used => used !== null
+  );
+  if (!record) {
+    return null;
+  }
+
+  return updateUser(record.userId, { emailVerified: true, updatedAt: new Date() });
+}
+
+/**
+ * Build the absolute verification link sent to the user
+ */
+export function buildEmailVerificationUrl(token: string): string {
+  return buildAppUrl("/auth/verify-email", { token });
+}
+
+/**
+ * Email the user a new verification link. Returns whether the mail transport
+ * accepted the message.
+ */
+export async function sendEmailVerification(user: Pick<User, "id" | "email">): Promise<boolean> {
+  const token = await createEmailVerificationToken(user);
+  return sendMail(
+    emailVerificationEmail({
+      to: user.email,
+      verifyUrl: buildEmailVerificationUrl(token),
+    })
+  );
+}
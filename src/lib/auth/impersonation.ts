@@ -0,0 +1,104 @@
+import { IMPERSONATION } from "@/lib/auth/constants";
+import { canManageRole, resolveUserPermissions } from "@/lib/auth/permissions";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getSession, isSessionActive, setSessionImpersonation } from "@/lib/auth/session-store";
+import { Permission, type ImpersonationState, type Impersonator, type User } from "@/types/auth";
+
+/**
+ * Why an admin may not impersonate a user, or null when they may. Checked when
+ * impersonation starts and again whenever session claims are refreshed.
+ */
+export async function getImpersonationError(admin: User, target: User): Promise<string | null> {
+  await ensureRolesLoaded();
+
+  if (!admin.isActive || !resolveUserPermissions(admin).includes(Permission.MANAGE_USER_ROLES)) {
+    return "Insufficient permissions";
+  }
+  if (admin.id === target.id) {
+    return "You cannot impersonate yourself";
+  }
+  if (!target.isActive) {
+    return "Cannot impersonate an inactive user";
+  }
+  if (!canManageRole(admin.role, target.role)) {
+    return `${admin.role} role cannot impersonate ${target.role} users`;
+  }
+
+  return null;
+}
+
+/**
+ * The impersonation on a session, or null when there is none or it has expired
+ */
+export function getActiveImpersonation(record: {
+  impersonation?: ImpersonationState;
+}): ImpersonationState | null {
+  const impersonation = record.impersonation;
+  return impersonation && impersonation.expiresAt > new Date() ? impersonation : null;
+}
+
+/**
+ * Start impersonating on the admin's current session. Throws when the session
+ * is not active or is already impersonating; callers check
+ * getImpersonationError first.
+ */
+export async function startImpersonation(data: {
+  sessionId: string;
+  targetUserId: string;
+  allowDestructive: boolean;
+  reason?: string;
+}): Promise<ImpersonationState> {
+  const session = await getSession(data.sessionId);
+  if (!session || !isSessionActive(session)) {
+    throw new Error("Session not found");
+  }
+  if (getActiveImpersonation(session)) {
+    throw new Error("Stop the current impersonation first");
+  }
+
+  const now = new Date();
+  const impersonation: ImpersonationState = {
+    targetUserId: data.targetUserId,
+    startedAt: now,
+    expiresAt: new Date(now.getTime() + IMPERSONATION.MAX_DURATION * 1000),
+    allowDestructive: data.allowDestructive,
+    ...(data.reason && { reason: data.reason }),
+  };
+
+  await setSessionImpersonation(data.sessionId, impersonation);
+  return impersonation;
+}
+
+/**
+ * End impersonation on a session. Returns what was being impersonated, or null
+ * when the session was not impersonating.
+ */
+export async function stopImpersonation(sessionId: string): Promise<ImpersonationState | null> {
+  const session = await getSession(sessionId);
+  if (!session?.impersonation) {
+    return null;
+  }
+
+  await setSessionImpersonation(sessionId, null);
+  return session.impersonation;
+}
+
+/**
+ * Whether a request must be refused while impersonating. Only safe methods get
+ * through unless the admin allowed destructive actions, and the target's
+ * credentials and sessions can never be changed.
+ */
+export function isImpersonationBlocked(
+  impersonator: Pick<Impersonator, "allowDestructive">,
+  method: string,
+  pathname: string
+): boolean {
+  if ((IMPERSONATION.SAFE_METHODS as readonly string[]).includes(method.toUpperCase())) {
+    return false;
+  }
+
+  return (
+    !impersonator.allowDestructive ||
+    IMPERSONATION.ALWAYS_BLOCKED.some(pattern => new RegExp(`^${pattern}$`).test(pathname))
+  );
+}
@@ -0,0 +1,256 @@
+import { createHash, randomBytes } from "crypto";
+
+import { INVITATIONS } from "@/lib/auth/constants";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { isKnownRole } from "@/lib/auth/role-registry";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { getUserByEmail, normalizeEmail, updateUser } from "@/lib/auth/user-service";
+import { buildAppUrl } from "@/lib/mail/app-url";
+import { sendMail } from "@/lib/mail/mailer";
+import { invitationEmail } from "@/lib/mail/templates";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { Invitation, InvitationStatus, PublicInvitation, RoleName, User } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["createdAt", "expiresAt", "lastSentAt", "acceptedAt", "revokedAt"]);
+
+// Invitations keyed by id. Accepted and revoked invitations are kept for the admin list.
+const invitationStore = createJsonCollection<Invitation>({
+  file: { name: "invitations.json", pathEnv: "INVITATION_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.id,
+});
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function issueToken(record: Invitation, expiresInDays: number): string {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  record.tokenHash = hashToken(token);
+  record.lastSentAt = now;
+  record.expiresAt = new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000);
+  return token;
+}
+
+function toPublicInvitation(record: Invitation): PublicInvitation {
+  const { tokenHash: _tokenHash, ...publicInvitation } = record;
+  return { ...publicInvitation, status: getInvitationStatus(record) };
+}
+
+function findPendingInvitation(
+  invitations: Map<string, Invitation>,
+  email: string
+): Invitation | undefined {
+  return Array.from(invitations.values()).find(
+    record => record.email === email && getInvitationStatus(record) === "pending"
+  );
+}
+
+/**
+ * Where an invitation is in its lifecycle
+ */
+export function getInvitationStatus(record: Invitation): InvitationStatus {
+  if (record.acceptedAt) {
+    return "accepted";
+  }
+  if (record.revokedAt) {
+    return "revoked";
+  }
+  return record.expiresAt > new Date() ? "pending" : "expired";
+}
+
+/**
+ * Invite an email address with a preassigned role. Throws when the email
+ * already has an account or a pending invitation, or the role is unknown.
+ * Returns the raw accept token - it is never stored and cannot be recovered later.
+ */
+export async function createInvitation(data: {
+  email: string;
+  role: RoleName;
+  invitedBy: string;
+  expiresInDays: number;
+}): Promise<{ invitation: PublicInvitation; token: string }> {
+  await ensureRolesLoaded();
+
+  const email = normalizeEmail(data.email);
+
+  if (!isKnownRole(data.role)) {
+    throw new Error("Invalid role");
+  }
+  if (await getUserByEmail(email)) {
+    throw new Error("A user with this email already exists");
+  }
+  const record: Invitation = {
+    id: randomBytes(12).toString("base64url"),
+    email,
+    role: data.role,
+    tokenHash: "",
+    invitedBy: data.invitedBy,
+    createdAt: new Date(),
+    expiresAt: new Date(),
+    lastSentAt: new Date(),
+  };
+  const token = issueToken(record, data.expiresInDays);
+
+  await invitationStore.change(invitations => {
+    if (findPendingInvitation(invitations, email)) {
+      throw new Error("This email already has a pending invitation");
+    }
+    invitations.set(record.id, record);
+  });
+  return { invitation: toPublicInvitation(record), token };
+}
+
+/**
+ * List all invitations, newest first
+ */
+export async function listInvitations(): Promise<PublicInvitation[]> {
+  return Array.from((await invitationStore.read()).values())
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map(toPublicInvitation);
+}
+
+/**
+ * Issue a fresh accept link for a pending or expired invitation. The previous
+ * link stops working. Returns null when the invitation cannot be resent.
+ */
+export async function resendInvitation(
+  id: string,
+  expiresInDays: number
+): Promise<{ invitation: PublicInvitation; token: string } | null> {
+  return invitationStore.change(
+    invitations => {
+      const record = invitations.get(id);
+      if (!record || record.acceptedAt || record.revokedAt) {
+        return null;
+      }
+
+      // An expired invitation may have been superseded by a newer one for the same email
+      const pending = findPendingInvitation(invitations, record.email);
+      if (pending && pending.id !== id) {
+        return null;
+      }
+
+      const token = issueToken(record, expiresInDays);
+      return { invitation: toPublicInvitation(record), token };
+    },
+    resent => resent !== null
+  );
+}
+
+/**
+ * Revoke a pending invitation. Returns null when it is unknown or no longer pending.
+ */
+export async function revokeInvitation(id: string): Promise<PublicInvitation | null> {
+  return invitationStore.change(
+    invitations => {
+      const record = invitations.get(id);
+      if (!record || getInvitationStatus(record) !== "pending") {
+        return null;
+      }
+
+      record.revokedAt = new Date();
+      return toPublicInvitation(record);
+    },
+    revoked => revoked !== null
+  );
+}
+
+/**
+ * Look up a pending invitation from its accept link token
+ */
+export async function getInvitationByToken(token: string): Promise<PublicInvitation | null> {
+  const tokenHash = hashToken(token);
+  const record = Array.from((await invitationStore.read()).values()).find(
+    r => r.tokenHash === tokenHash
+  );
+  return record && getInvitationStatus(record) === "pending" ? toPublicInvitation(record) : null;
+}
+
+/**
+ * Give a signed-in user the role of their pending invitation and mark it used.
+ * The user must either present the accept token (which proves they received
+ * the email) or have an email address their provider has verified.
+ * Returns the redeemed invitation, or null when there is nothing to redeem.
+ */
+export async function redeemInvitation(params: {
+  user: User;
+  token?: string | null;
+  emailVerified: boolean;
+}): Promise<{ invitation: PublicInvitation; user: User } | null> {
+  return invitationStore.change(
+    async invitations => {
+      const record = findPendingInvitation(invitations, normalizeEmail(params.user.email));
+      if (!record) {
+        return null;
+      }
+
+      const tokenMatches = !!params.token && hashToken(params.token) === record.tokenHash;
+      if (!tokenMatches && !params.emailVerified) {
+        return null;
+      }
+
+      // The role may have been deleted since the invitation was sent
+      await ensureRolesLoaded();
+      if (!isKnownRole(record.role)) {
+        return null;
+      }
+
+      // Temporary-only roles are refused when inviting; the first administrator is
+      // the one standing ADMIN the server invites itself (see bootstrap.ts)
+      if (
+        record.invitedBy !== INVITATIONS.SYSTEM_INVITER &&
+        (await getRoleAssignmentError(record.role, params.user.id))
+      ) {
+        return null;
+      }
+
+      const user = await updateUser(params.user.id, {
+        role: record.role,
+        // Receiving the invitation email proves the address
+        emailVerified: true,
+        updatedAt: new Date(),
+      });
+      if (!user) {
+        return null;
+      }
+
+      record.acceptedAt = new Date();
+      record.acceptedBy = user.id;
+      return { invitation: toPublicInvitation(record), user };
+    },
+    redeemed => redeemed !== null
+  );
+}
+
+/**
+ * Build the absolute accept link sent to the invitee
+ */
+export function buildInvitationUrl(token: string): string {
+  return buildAppUrl("/auth/invite", { token });
+}
+
+/**
+ * Email the accept link to the invitee. Returns the link so admins can share it
+ * by other means when delivery fails.
+ */
+export async function sendInvitationEmail(params: {
+  invitation: PublicInvitation;
+  token: string;
+  invitedBy: string | null;
+}): Promise<{ inviteUrl: string; delivered: boolean }> {
+  const inviteUrl = buildInvitationUrl(params.token);
+  const delivered = await sendMail(
+    invitationEmail({
+      to: params.invitation.email,
+      inviteUrl,
+      role: params.invitation.role,
+      invitedBy: params.invitedBy,
+      expiresAt: params.invitation.expiresAt,
+    })
+  );
+
+  return { inviteUrl, delivered };
+}
@@ -0,0 +1,247 @@
+import { createAuditLog, logAuthentication } from "@/lib/audit/audit-service";
+import { LOGIN_THROTTLE } from "@/lib/auth/constants";
+import { normalizeEmail } from "@/lib/auth/user-service";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import { AuditAction } from "@/types/audit";
+import type { LoginFailureCount, User } from "@/types/auth";
+
+/**
+ * Lockout state for a sign-in attempt
+ */
+export interface LoginThrottleStatus {
+  locked: boolean;
+  scope?: "account" | "ip";
+  retryAfter: number; // Seconds until the next attempt is allowed (0 when not locked)
+  lockedUntil?: Date;
+}
+
+const UNLOCKED: LoginThrottleStatus = { locked: false, retryAfter: 0 };
+
+type ThrottleScope = NonNullable<LoginThrottleStatus["scope"]>;
+
+const LIMITS: Record<ThrottleScope, { maxFailures: number; window: number }> = {
+  account: {
+    maxFailures: LOGIN_THROTTLE.ACCOUNT_MAX_FAILURES,
+    window: LOGIN_THROTTLE.ACCOUNT_WINDOW,
+  },
+  ip: { maxFailures: LOGIN_THROTTLE.IP_MAX_FAILURES, window: LOGIN_THROTTLE.IP_WINDOW },
+};
+
+const DATE_FIELDS = new Set(["windowStart", "lockedUntil", "expiresAt"]);
+
+// One count per email and per IP address, dropped once it can no longer lock anything
+const failureStore = createJsonCollection<LoginFailureCount>({
+  file: { name: "login-failures.json", pathEnv: "LOGIN_FAILURE_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.key,
+  expired: (record, now) => record.expiresAt <= now,
+});
+
+function accountKey(email: string): string {
+  return `account:${normalizeEmail(email)}`;
+}
+
+function ipKey(ipAddress: string): string {
+  return `ip:${ipAddress}`;
+}
+
+/**
+ * Lockout length after `failures` failed attempts: none below the threshold,
+ * then the base duration, doubling at every further multiple of the threshold.
+ */
+export function getLockoutDuration(failures: number, threshold: number): number {
+  if (failures < threshold) {
+    return 0;
+  }
+
+  const level = Math.floor(failures / threshold) - 1;
+  return Math.min(LOGIN_THROTTLE.LOCKOUT_DURATION * 2 ** level, LOGIN_THROTTLE.MAX_LOCKOUT);
+}
+
+function toStatus(
+  record: LoginFailureCount | undefined,
+  scope: ThrottleScope,
+  now: number
+): LoginThrottleStatus {
+  if (!record?.lockedUntil) {
+    return UNLOCKED;
+  }
+
+  const retryAfter = Math.ceil((record.lockedUntil.getTime() - now) / 1000);
+  return retryAfter > 0
+    ? { locked: true, scope, retryAfter, lockedUntil: record.lockedUntil }
+    : UNLOCKED;
+}
+
+/**
+ * Count one failure, starting over when the previous window has passed. The
+ * lockout runs from the latest failure.
+ */
+function countFailure(
+  records: Map<string, LoginFailureCount>,
+  key: string,
+  scope: ThrottleScope,
+  now: number
+): LoginThrottleStatus {
+  const { maxFailures, window } = LIMITS[scope];
+  const previous = records.get(key);
+  const current =
+    previous && previous.windowStart.getTime() + window * 1000 > now ? previous : undefined;
+
+  const count = (current?.count ?? 0) + 1;
+  const windowStart = current?.windowStart ?? new Date(now);
+  const duration = getLockoutDuration(count, maxFailures);
+  const lockedUntil = duration > 0 ? new Date(now + duration * 1000) : undefined;
+  const windowEnd = windowStart.getTime() + window * 1000;
+
+  const record: LoginFailureCount = {
+    key,
+    count,
+    windowStart,
+    lockedUntil,
+    expiresAt: new Date(Math.max(windowEnd, lockedUntil?.getTime() ?? 0)),
+  };
+  records.set(key, record);
+
+  return toStatus(record, scope, now);
+}
+
+function latest(...statuses: LoginThrottleStatus[]): LoginThrottleStatus {
+  return statuses.reduce((a, b) => (a.retryAfter >= b.retryAfter ? a : b));
+}
+
+/**
+ * Check whether a sign-in attempt is currently locked out, per account and per
+ * IP. Pass the address from getClientIp so clients cannot spread their attempts
+ * over made-up X-Forwarded-For values.
+ */
+export async function getLoginThrottle(params: {
+  email: string;
+  ipAddress?: string;
+}): Promise<LoginThrottleStatus> {
+  const now = Date.now();
+  const records = await failureStore.read();
+
+  const account = toStatus(records.get(accountKey(params.email)), "account", now);
+  const ip = params.ipAddress
+    ? toStatus(records.get(ipKey(params.ipAddress)), "ip", now)
+    : UNLOCKED;
+
+  return latest(account, ip);
+}
+
+/**
+ * Record a failed sign-in. Logs ACCOUNT_LOCKED when this failure starts a lockout.
+ */
+export async function recordLoginFailure(params: {
+  email: string;
+  userId?: string;
+  reason: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<LoginThrottleStatus> {
+  const email = normalizeEmail(params.email);
+
+  await logAuthentication({
+    action: AuditAction.LOGIN_FAILED,
+    userId: params.userId,
+    email,
+    reason: params.reason,
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+  });
+
+  const status = await failureStore.change(records => {
+    const now = Date.now();
+    const account = countFailure(records, accountKey(email), "account", now);
+    const ip = params.ipAddress
+      ? countFailure(records, ipKey(params.ipAddress), "ip", now)
+      : UNLOCKED;
+    return latest(account, ip);
+  });
+
+  if (status.locked) {
+    await createAuditLog({
+      action: AuditAction.ACCOUNT_LOCKED,
+      userId: params.userId,
+      targetUserId: params.userId,
+      metadata: { email, scope: status.scope, lockedUntil: status.lockedUntil },
+      ipAddress: params.ipAddress,
+      userAgent: params.userAgent,
+      details: `Sign-in locked (${status.scope}) for ${Math.ceil(status.retryAfter / 60)} minutes`,
+    });
+  }
+
+  return status;
+}
+
+async function clearAccountFailures(email: string): Promise<void> {
+  const key = accountKey(email);
+  await failureStore.change(
+    records => records.delete(key),
+    deleted => deleted
+  );
+}
+
+/**
+ * Record a successful sign-in, which resets the account's failure count
+ */
+export async function recordLoginSuccess(params: {
+  email: string;
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<void> {
+  await clearAccountFailures(params.email);
+
+  await logAuthentication({
+    action: AuditAction.LOGIN_SUCCESS,
+    userId: params.userId,
+    email: normalizeEmail(params.email),
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+  });
+}
+
+/**
+ * Clear an account lockout (admin action)
+ */
+export async function unlockAccount(params: {
+  userId: string;
+  targetUserId: string;
+  email: string;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<void> {
+  await clearAccountFailures(params.email);
+
+  await createAuditLog({
+    action: AuditAction.ACCOUNT_UNLOCKED,
+    userId: params.userId,
+    targetUserId: params.targetUserId,
+    metadata: { email: normalizeEmail(params.email) },
+    ipAddress: params.ipAddress,
+    userAgent: params.userAgent,
+    details: "Account unlocked",
+  });
+}
+
+/**
+ * Current account lockouts for a list of users, keyed by user id
+ */
+export async function getAccountLockouts(
+  users: Array<Pick<User, "id" | "email">>
+): Promise<Record<string, Date>> {
+  const lockouts: Record<string, Date> = {};
+  const records = await failureStore.read();
+  const now = Date.now();
+
+  for (const user of users) {
+    const status = toStatus(records.get(accountKey(user.email)), "account", now);
+    if (status.lockedUntil) {
+      lockouts[user.id] = status.lockedUntil;
+    }
+  }
+
+  return lockouts;
+}
@@ -0,0 +1,81 @@
+import { createHash, randomBytes } from "crypto";
+
+import { PASSWORD_RESET } from "@/lib/auth/constants";
+import { buildAppUrl } from "@/lib/mail/app-url";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { PasswordResetToken } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["createdAt", "expiresAt", "usedAt"]);
+
+// Reset tokens keyed by token hash, so emailed links survive restarts and deploys
+const tokenStore = createJsonCollection<PasswordResetToken>({
+  file: { name: "password-resets.json", pathEnv: "PASSWORD_RESET_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.tokenHash,
+  // Expired tokens can never be used again
+  expired: (record, now) => record.expiresAt <= now,
+});
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a new reset token for a user. Any earlier unused tokens for the same
+ * user are invalidated so only the most recent link works.
+ * Returns the raw token - it is never stored and cannot be recovered later.
+ */
+export async function createPasswordResetToken(userId: string): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await tokenStore.change(tokens => {
+    for (const [tokenHash, record] of tokens) {
+      if (record.userId === userId) {
+        tokens.delete(tokenHash);
+      }
+    }
+
+    tokens.set(hashToken(token), {
+      tokenHash: hashToken(token),
+      userId,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + PASSWORD_RESET.TOKEN_TTL * 1000),
+    });
+  });
+  return token;
+}
+
+/**
+ * Check a reset token without consuming it (used to render the reset form)
+ */
+export async function isPasswordResetTokenValid(token: string): Promise<boolean> {
+  const record = (await tokenStore.read()).get(hashToken(token));
+  return !!record && !record.usedAt && record.expiresAt > new Date();
+}
+
+/**
+ * Consume a reset token. Returns the owning user id, or null when the token is
+ * unknown, expired or already used.
+ */
+export async function consumePasswordResetToken(token: string): Promise<string | null> {
+  return tokenStore.change(
+    tokens => {
+      const record = tokens.get(hashToken(token));
+      if (!record || record.usedAt || record.expiresAt <= new Date()) {
+        return null;
+      }
+
+      record.usedAt = new Date();
+      return record.userId;
+    },
+    userId => userId !== null
+  );
+}
+
+/**
+ * Build the absolute reset link sent to the user
+ */
+export function buildPasswordResetUrl(token: string): string {
+  return buildAppUrl("/auth/reset-password", { token });
+}
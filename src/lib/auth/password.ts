@@ -0,0 +1,100 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+import { PASSWORD_POLICY } from "@/lib/auth/constants";
+
+// scrypt cost parameters - stored alongside each hash so they can be raised later
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number; keyLength: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      params.keyLength,
+      { N: params.N, r: params.r, p: params.p },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Hash a password with a random salt.
+ * Format: scrypt$N$r$p$<salt base64>$<hash base64>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    keyLength: KEY_LENGTH,
+  });
+
+  return [
+    "scrypt",
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+}
+
+/**
+ * Verify a password against a stored hash (constant-time comparison)
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, n, r, p, saltB64, hashB64] = storedHash.split("$");
+
+  if (algorithm !== "scrypt" || !n || !r || !p || !saltB64 || !hashB64) {
+    return false;
+  }
+
+  try {
+    const expected = Buffer.from(hashB64, "base64");
+    const actual = await deriveKey(password, Buffer.from(saltB64, "base64"), {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p),
+      keyLength: expected.length,
+    });
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  } catch (error) {
+    console.error("Error verifying password:", error);
+    return false;
+  }
+}
+
+/**
+ * Validate a password against the password policy
+ */
+export function validatePassword(password: string): string[] {
+  const errors: string[] = [];
+
+  if (password.length < PASSWORD_POLICY.MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_POLICY.MIN_LENGTH} characters long`);
+  }
+
+  if (password.length > PASSWORD_POLICY.MAX_LENGTH) {
+    errors.push(`Password must be at most ${PASSWORD_POLICY.MAX_LENGTH} characters long`);
+  }
+
+  if (PASSWORD_POLICY.REQUIRE_LETTER && !/[a-zA-Z]/.test(password)) {
+    errors.push("Password must contain at least one letter");
+  }
+
+  if (PASSWORD_POLICY.REQUIRE_NUMBER && !/[0-9]/.test(password)) {
+    errors.push("Password must contain at least one number");
+  }
+
+  return errors;
+}
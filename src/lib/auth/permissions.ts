@@ -1,18 +1,49 @@
+import { evaluatePolicies } from "@/lib/auth/policies";
+import {
+  getRoleDefinition,
+  getRoleDefinitionPermissions,
+  getRoleLevel,
+  listRoleDefinitions,
+} from "@/lib/auth/role-registry";
 import {
   Permission,
-  UserRole,
-  DEFAULT_ROLE_PERMISSIONS,
-  ROLE_HIERARCHY,
+  type RoleName,
   type User,
   type PermissionResult,
   type PermissionContext,
+  type PermissionExplanation,
+  UserRole,
 } from "@/types/auth";
 
 /**
  * Get permissions for a specific role
  */
-export async function getRolePermissions(role: UserRole): Promise<Permission[]> {
-  return DEFAULT_ROLE_PERMISSIONS[role] ?? [];
+export async function getRolePermissions(role: RoleName): Promise<Permission[]> {
+  return getRoleDefinitionPermissions(role);
+}
+
+/**
+ * The role a user acts with: their role in the active workspace when one is
+ * set, otherwise their account role
+ */
+export function getEffectiveRole(user: Pick<User, "role" | "workspaceRole">): RoleName {
+  return user.workspaceRole ?? user.role;
+}
+
+/**
+ * Resolve a user's effective permissions: permissions of the effective role plus
+ * per-user grants, minus per-user revocations
+ */
+export function resolveUserPermissions(
+  user: Pick<User, "role" | "workspaceRole" | "permissionOverrides">
+): Permission[] {
+  const permissions = new Set(getRoleDefinitionPermissions(getEffectiveRole(user)));
+  const overrides = user.permissionOverrides;
+
+  overrides?.granted.forEach(permission => permissions.add(permission));
+  overrides?.revoked.forEach(permission => permissions.delete(permission));
+
+  return Array.from(permissions);
 }
 
 /**
@@ -23,10 +54,51 @@ export async function hasPermission(user: User | null, permission: Permission):
     return false;
   }
 
-  const userPermissions = user.permissions ?? (await getRolePermissions(user.role));
+  const userPermissions = user.permissions ?? resolveUserPermissions(user);
   return userPermissions.includes(permission);
 }
 
+/**
+ * Check access to the admin console and `/api/admin/*`. The console spans every
+ * workspace, so on top of the permissions (resolved from the active workspace's
+ * role) it requires an account ADMIN
+ */
+export async function canAccessAdminConsole(user: User | null): Promise<boolean> {
+  return (
+    user?.role === UserRole.ADMIN &&
+    (await hasAllPermissions(user, [
+      Permission.MANAGE_SYSTEM_SETTINGS,
+      Permission.MANAGE_USER_ROLES,
+    ]))
+  );
+}
+
+/**
+ * Explain whether a user holds a permission: what their effective role grants
+ * and any per-user override on top
+ */
+export async function explainPermission(
+  user: User,
+  permission: Permission
+): Promise<PermissionExplanation> {
+  const effectiveRole = getEffectiveRole(user);
+  const overrides = user.permissionOverrides;
+  let override: PermissionExplanation["override"] = null;
+  if (overrides?.revoked.includes(permission)) {
+    override = "revoked";
+  } else if (overrides?.granted.includes(permission)) {
+    override = "granted";
+  }
+
+  return {
+    permission,
+    granted: await hasPermission(user, permission),
+    effectiveRole,
+    fromRole: getRoleDefinitionPermissions(effectiveRole).includes(permission),
+    override,
+  };
+}
+
 /**
  * Check if a user has any of the specified permissions
  */
@@ -85,10 +157,21 @@ export async function checkPermission(context: PermissionContext): Promise<Permi
     };
   }
 
-  const userPermissions = user.permissions ?? (await getRolePermissions(user.role));
+  const userPermissions = user.permissions ?? resolveUserPermissions(user);
   const hasRequiredPermission = userPermissions.includes(action);
 
-  if (!hasRequiredPermission) {
+  // Resource policies (ownership, team membership, ...)
+  const policy = await evaluatePolicies(context, hasRequiredPermission);
+
+  if (policy && !policy.granted) {
+    return {
+      granted: false,
+      reason: policy.rule.description,
+      rule: policy.rule.name,
+    };
+  }
+
+  if (!hasRequiredPermission && !policy?.granted) {
     return {
       granted: false,
       reason: "Insufficient permissions",
@@ -96,32 +179,29 @@ export async function checkPermission(context: PermissionContext): Promise<Permi
     };
   }
 
-  // Additional context-based checks can be added here
-  // For example, resource ownership, team membership, etc.
-
   return {
     granted: true,
+    ...(policy && { rule: policy.rule.name }),
   };
 }
 
 /**
  * Check if a user has a higher or equal role than another user
  */
-export function hasHigherOrEqualRole(userRole: UserRole, targetRole: UserRole): boolean {
-  return ROLE_HIERARCHY[userRole] >= ROLE_HIERARCHY[targetRole];
+export function hasHigherOrEqualRole(userRole: RoleName, targetRole: RoleName): boolean {
+  return getRoleLevel(userRole) >= getRoleLevel(targetRole);
 }
 
 /**
  * Get the minimum role required for a permission
  */
-export function getMinimumRoleForPermission(permission: Permission): UserRole | null {
+export function getMinimumRoleForPermission(permission: Permission): RoleName | null {
   // Check roles in order from lowest to highest to find minimum role
-  const roleOrder: UserRole[] = [UserRole.USER, UserRole.EDITOR, UserRole.ADMIN];
+  const roleOrder = listRoleDefinitions().reverse();
 
-  for (const role of roleOrder) {
-    const permissions = DEFAULT_ROLE_PERMISSIONS[role];
-    if (permissions.includes(permission)) {
-      return role; // Return first (minimum) role that has permission
+  for (const definition of roleOrder) {
+    if (definition.permissions.includes(permission)) {
+      return definition.role; // Return first (minimum) role that has permission
     }
   }
   return null;
@@ -130,25 +210,32 @@ export function getMinimumRoleForPermission(permission: Permission): UserRole |
 /**
  * Check if a role can manage another role
  */
-export function canManageRole(managerRole: UserRole, targetRole: UserRole): boolean {
-  // Admins can manage all roles
-  if (managerRole === UserRole.ADMIN) {
-    return true;
+export function canManageRole(managerRole: RoleName, targetRole: RoleName): boolean {
+  const manager = getRoleDefinition(managerRole);
+  const target = getRoleDefinition(targetRole);
+
+  if (!manager || !target) {
+    return false;
   }
 
-  // Editors can only manage Users
-  if (managerRole === UserRole.EDITOR && targetRole === UserRole.USER) {
-    return true;
+  // Role managers (e.g. admins) can manage roles up to their own level
+  if (manager.permissions.includes(Permission.MANAGE_USER_ROLES)) {
+    return target.level <= manager.level;
   }
 
-  // Users cannot manage any roles
+  // User editors (e.g. editors) can only manage strictly lower roles
+  if (manager.permissions.includes(Permission.UPDATE_USER)) {
+    return target.level < manager.level;
+  }
+
+  // Everyone else cannot manage any roles
   return false;
 }
 
 /**
  * Get all permissions for multiple roles (useful for role hierarchies)
  */
-export async function getPermissionsForRoles(roles: UserRole[]): Promise<Permission[]> {
+export async function getPermissionsForRoles(roles: RoleName[]): Promise<Permission[]> {
   const allPermissions = new Set<Permission>();
 
   for (const role of roles) {
@@ -197,20 +284,16 @@ export function filterPermissionsByCategory(
 /**
  * Create a permission matrix for UI display
  */
-export function createPermissionMatrix(): Record<UserRole, Record<string, Permission[]>> {
-  const matrix: Record<UserRole, Record<string, Permission[]>> = {
-    [UserRole.ADMIN]: {},
-    [UserRole.EDITOR]: {},
-    [UserRole.USER]: {},
-  };
+export function createPermissionMatrix(): Record<string, Record<string, Permission[]>> {
+  const matrix: Record<string, Record<string, Permission[]>> = {};
 
   const categories = ["user", "content", "system", "dashboard", "realtime", "api"];
 
-  for (const role of Object.values(UserRole)) {
-    const rolePermissions = DEFAULT_ROLE_PERMISSIONS[role];
+  for (const { role, permissions } of listRoleDefinitions()) {
+    matrix[role] = {};
 
     for (const category of categories) {
-      matrix[role][category] = filterPermissionsByCategory(rolePermissions, category);
+      matrix[role][category] = filterPermissionsByCategory(permissions, category);
     }
   }
 
@@ -221,8 +304,8 @@ export function createPermissionMatrix(): Record<UserRole, Record<string, Permis
  * Validate permission assignment
  */
 export function validatePermissionAssignment(
-  assignerRole: UserRole,
-  targetRole: UserRole,
+  assignerRole: RoleName,
+  targetRole: RoleName,
   permissions: Permission[]
 ): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -233,7 +316,7 @@ export function validatePermissionAssignment(
   }
 
   // Check if assigner has all permissions they're trying to assign
-  const assignerPermissions = DEFAULT_ROLE_PERMISSIONS[assignerRole];
+  const assignerPermissions = getRoleDefinitionPermissions(assignerRole);
   const invalidPermissions = permissions.filter(p => !assignerPermissions.includes(p));
 
   if (invalidPermissions.length > 0) {
@@ -290,12 +373,6 @@ export function getPermissionDescription(permission: Permission): string {
 /**
  * Get role description for UI
  */
-export function getRoleDescription(role: UserRole): string {
-  const descriptions: Record<UserRole, string> = {
-    [UserRole.ADMIN]: "Full system access with all administrative privileges",
-    [UserRole.EDITOR]: "Content management and limited user administration",
-    [UserRole.USER]: "Basic access with read permissions and content interaction",
-  };
-
-  return descriptions[role] || "Unknown role";
+export function getRoleDescription(role: RoleName): string {
+  return getRoleDefinition(role)?.description ?? "Unknown role";
 }
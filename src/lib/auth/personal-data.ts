@@ -0,0 +1,85 @@
+import { getAuditLogs } from "@/lib/audit/audit-service";
+import { sanitizeUser } from "@/lib/auth/user-service";
+import { getAvatarConversations, type AvatarConversationExport } from "@/lib/avatar/dify";
+import { getUserChatMessages, getUserNotifications } from "@/lib/realtime/server";
+import { createZipArchive } from "@/lib/storage/zip";
+import type { AuditLogEntry } from "@/types/audit";
+import type { PublicUser, User } from "@/types/auth";
+import type { ChatMessage, RealtimeNotification } from "@/types/realtime";
+
+/**
+ * Everything held about a user, as returned by "Download my data"
+ */
+export interface PersonalDataExport {
+  exportedAt: string;
+  user: PublicUser;
+  auditLog: AuditLogEntry[]; // Entries where the user acted or was acted on
+  chatMessages: ChatMessage[];
+  notifications: RealtimeNotification[];
+  // Null with avatarConversationsError set when Dify could not be reached
+  avatarConversations: AvatarConversationExport[] | null;
+  avatarConversationsError?: string;
+}
+
+/**
+ * Collect the user's personal data
+ */
+export async function buildPersonalDataExport(user: User): Promise<PersonalDataExport> {
+  const [acted, actedOn] = await Promise.all([
+    getAuditLogs({ userId: user.id }),
+    getAuditLogs({ targetUserId: user.id }),
+  ]);
+  const auditLog = Array.from(new Map([...acted, ...actedOn].map(e => [e.id, e])).values()).sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+
+  let avatarConversations: AvatarConversationExport[] | null = null;
+  let avatarConversationsError: string | undefined;
+  try {
+    avatarConversations = await getAvatarConversations(user.id);
+  } catch (error) {
+    console.error("Error exporting avatar conversations:", error);
+    avatarConversationsError =
+      "Avatar conversations could not be retrieved. Please try again later.";
+  }
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: sanitizeUser(user),
+    auditLog,
+    chatMessages: getUserChatMessages(user.id),
+    notifications: getUserNotifications(user.id),
+    avatarConversations,
+    ...(avatarConversationsError && { avatarConversationsError }),
+  };
+}
+
+/**
+ * Package an export as a ZIP archive with one JSON file per kind of data
+ */
+export function toPersonalDataZip(data: PersonalDataExport): Buffer {
+  const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+  return createZipArchive([
+    {
+      name: "README.txt",
+      content: [
+        `Personal data export for ${data.user.email}, created ${data.exportedAt}.`,
+        "",
+        "user.json                  Your account record",
+        "audit-log.json             Security events you performed or that affected you",
+        "chat-messages.json         Chat messages you wrote",
+        "notifications.json         Notifications sent to you",
+        "avatar-conversations.json  Your conversations with the avatar assistant",
+      ].join("\n"),
+    },
+    { name: "user.json", content: json(data.user) },
+    { name: "audit-log.json", content: json(data.auditLog) },
+    { name: "chat-messages.json", content: json(data.chatMessages) },
+    { name: "notifications.json", content: json(data.notifications) },
+    {
+      name: "avatar-conversations.json",
+      content: json(data.avatarConversations ?? { error: data.avatarConversationsError }),
+    },
+  ]);
+}
@@ -0,0 +1,129 @@
+import {
+  Permission,
+  UserRole,
+  type PermissionContext,
+  type PolicyContext,
+  type PolicyRule,
+} from "@/types/auth";
+
+/**
+ * Built-in resource policies
+ */
+export const DEFAULT_POLICIES: PolicyRule[] = [
+  {
+    name: "content.author",
+    resourceType: "content",
+    actions: [Permission.UPDATE_CONTENT, Permission.DELETE_CONTENT],
+    effect: "allow",
+    description: "Authors can update and delete their own content",
+    condition: ({ user, metadata }) => !!metadata?.authorId && metadata.authorId === user.id,
+  },
+  {
+    name: "user.same-team",
+    resourceType: "user",
+    actions: [Permission.UPDATE_USER, Permission.DELETE_USER, Permission.MANAGE_USER_ROLES],
+    effect: "require",
+    description: "Editors can only manage users in their own team",
+    condition: ({ user, metadata }) => {
+      const teamId = user.metadata?.teamId;
+      // Editors without a team are not restricted; the workspace role decides who is an editor
+      const role = user.workspaceRole ?? user.role;
+      return role !== UserRole.EDITOR || !teamId || teamId === metadata?.teamId;
+    },
+  },
+  {
+    name: "message.owner",
+    resourceType: "message",
+    actions: [Permission.MODERATE_REALTIME_CHANNELS],
+    effect: "allow",
+    description: "Owners can delete their own messages",
+    condition: ({ user, metadata }) => !!metadata?.authorId && metadata.authorId === user.id,
+  },
+];
+
+// Registered rules by resource type
+const policies = new Map<string, PolicyRule[]>();
+
+/**
+ * Register a policy rule. A rule with the same name for the same resource type is replaced.
+ */
+export function registerPolicy(rule: PolicyRule): void {
+  const rules = (policies.get(rule.resourceType) ?? []).filter(r => r.name !== rule.name);
+  policies.set(rule.resourceType, [...rules, rule]);
+}
+
+/**
+ * Remove a policy rule by name
+ */
+export function unregisterPolicy(resourceType: string, name: string): boolean {
+  const rules = policies.get(resourceType) ?? [];
+  const remaining = rules.filter(r => r.name !== name);
+  policies.set(resourceType, remaining);
+  return remaining.length !== rules.length;
+}
+
+/**
+ * Get the rules registered for a resource type, optionally limited to one action
+ */
+export function getPolicies(resourceType: string, action?: Permission): PolicyRule[] {
+  const rules = policies.get(resourceType) ?? [];
+  return action ? rules.filter(rule => rule.actions.includes(action)) : rules;
+}
+
+/**
+ * Reset the registry to the built-in policies plus the given rules
+ */
+export function resetPolicies(rules: PolicyRule[] = []): void {
+  policies.clear();
+  [...DEFAULT_POLICIES, ...rules].forEach(registerPolicy);
+}
+
+resetPolicies();
+
+/**
+ * Split a "<type>:<id>" resource string
+ */
+export function parseResource(resource: string): { resourceType: string; resourceId?: string } {
+  const separator = resource.indexOf(":");
+  if (separator === -1) {
+    return { resourceType: resource };
+  }
+
+  return {
+    resourceType: resource.slice(0, separator),
+    resourceId: resource.slice(separator + 1) || undefined,
+  };
+}
+
+/**
+ * Evaluate the policies for a resource.
+ * With the base permission, every "require" rule must pass; without it, any
+ * matching "allow" rule grants access. Returns null when no policy applies.
+ */
+export async function evaluatePolicies(
+  context: PermissionContext,
+  hasBasePermission: boolean
+): Promise<{ granted: boolean; rule: PolicyRule } | null> {
+  if (!context.resource) {
+    return null;
+  }
+
+  const policyContext: PolicyContext = { ...context, ...parseResource(context.resource) };
+  const rules = getPolicies(policyContext.resourceType, context.action);
+
+  if (hasBasePermission) {
+    for (const rule of rules.filter(r => r.effect === "require")) {
+      if (!(await rule.condition(policyContext))) {
+        return { granted: false, rule };
+      }
+    }
+    return null;
+  }
+
+  for (const rule of rules.filter(r => r.effect === "allow")) {
+    if (await rule.condition(policyContext)) {
+      return { granted: true, rule };
+    }
+  }
+  return null;
+}
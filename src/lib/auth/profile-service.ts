@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+import { logEmailVerificationEvent } from "@/lib/audit/audit-service";
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { sendEmailVerification } from "@/lib/auth/email-verification";
+import { getUserByEmail, getUserById, normalizeEmail, updateUser } from "@/lib/auth/user-service";
+import type { User } from "@/types/auth";
+
+export const profileUpdateSchema = z.object({
+  name: z.string().min(1).max(100),
+  username: z
+    .string()
+    .regex(/^[a-zA-Z0-9_]*$/)
+    .max(50)
+    .nullable()
+    .optional(),
+  image: z.string().url().nullable().optional(),
+  email: z.string().email().optional(), // A new address must be verified again
+});
+
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
+
+/**
+ * The profile fields returned to the user after an update
+ */
+export interface UpdatedProfile {
+  id: string;
+  name?: string | null;
+  username?: string | null;
+  email: string;
+  emailVerified?: boolean;
+  image?: string | null;
+  role: User["role"];
+  updatedAt: string;
+}
+
+/**
+ * Update a user's own profile. A changed email is marked unverified and a
+ * verification link is sent to it. Throws "User not found", or
+ * AUTH_ERRORS.EMAIL_IN_USE when another account has the new email.
+ */
+export async function updateUserProfile(
+  userId: string,
+  update: ProfileUpdate,
+  context: { ipAddress?: string; userAgent?: string }
+): Promise<UpdatedProfile> {
+  const { name, username, image, email } = update;
+
+  // Check the new email is not taken
+  const currentUser = await getUserById(userId);
+
+  if (!currentUser) {
+    throw new Error("User not found");
+  }
+
+  const newEmail = email ? normalizeEmail(email) : undefined;
+  const emailChanged = newEmail !== undefined && newEmail !== currentUser.email;
+
+  if (emailChanged) {
+    const owner = await getUserByEmail(newEmail);
+    if (owner && owner.id !== currentUser.id) {
+      throw new Error(AUTH_ERRORS.EMAIL_IN_USE);
+    }
+  }
+
+  const updateData: {
+    name: string;
+    username?: string | null;
+    image?: string | null;
+    email?: string;
+    emailVerified?: boolean;
+    updatedAt: Date;
+  } = {
+    name,
+    updatedAt: new Date(),
+  };
+
+  if (username !== undefined) {
+    updateData.username = username ?? null;
+  }
+
+  if (image !== undefined) {
+    updateData.image = image ?? null;
+  }
+
+  if (emailChanged) {
+    updateData.email = newEmail;
+    updateData.emailVerified = false;
+  }
+
+  const updatedUser = await updateUser(userId, updateData);
+
+  if (!updatedUser) {
+    throw new Error("User not found");
+  }
+
+  // Send a link to the new address
+  if (emailChanged) {
+    await logEmailVerificationEvent({
+      userId: updatedUser.id,
+      event: "changed",
+      email: updatedUser.email,
+      previousEmail: currentUser.email,
+      ...context,
+    });
+
+    if (await sendEmailVerification(updatedUser)) {
+      await logEmailVerificationEvent({
+        userId: updatedUser.id,
+        event: "sent",
+        email: updatedUser.email,
+        ...context,
+      });
+    }
+  }
+
+  return {
+    id: updatedUser.id,
+    name: updatedUser.name,
+    username: updatedUser.username,
+    email: updatedUser.email,
+    emailVerified: updatedUser.emailVerified,
+    image: updatedUser.image,
+    role: updatedUser.role,
+    updatedAt: updatedUser.updatedAt.toISOString(),
+  };
+}
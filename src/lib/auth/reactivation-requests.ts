@@ -0,0 +1,129 @@
+import { randomBytes } from "crypto";
+
+import { AUTH_CONFIG } from "@/lib/auth/constants";
+import { toggleUserStatus } from "@/lib/auth/user-service";
+import { buildAppUrl } from "@/lib/mail/app-url";
+import { sendMail } from "@/lib/mail/mailer";
+import { reactivationDecisionEmail } from "@/lib/mail/templates";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { ReactivationRequest, ReactivationRequestStatus, User } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["createdAt", "decidedAt"]);
+
+// Requests keyed by id. Decided requests are kept so users can see the outcome.
+const requestStore = createJsonCollection<ReactivationRequest>({
+  file: { name: "reactivation-requests.json", pathEnv: "REACTIVATION_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.id,
+});
+
+function newestFirst(a: ReactivationRequest, b: ReactivationRequest): number {
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+/**
+ * The user's most recent request, or null when they have never asked
+ */
+export async function getLatestReactivationRequest(
+  userId: string
+): Promise<ReactivationRequest | null> {
+  return findLatest(await requestStore.read(), userId);
+}
+
+function findLatest(
+  requests: Map<string, ReactivationRequest>,
+  userId: string
+): ReactivationRequest | null {
+  const [latest] = Array.from(requests.values())
+    .filter(record => record.userId === userId)
+    .sort(newestFirst);
+  return latest ? { ...latest } : null;
+}
+
+/**
+ * Queue a request from a deactivated user. Throws when the user is active or
+ * already has a pending request.
+ */
+export async function createReactivationRequest(
+  user: Pick<User, "id" | "email" | "isActive">,
+  reason: string
+): Promise<ReactivationRequest> {
+  if (user.isActive) {
+    throw new Error("This account is already active");
+  }
+  const record: ReactivationRequest = {
+    id: randomBytes(12).toString("base64url"),
+    userId: user.id,
+    email: user.email,
+    reason: reason.trim(),
+    status: "pending",
+    createdAt: new Date(),
+  };
+
+  await requestStore.change(requests => {
+    if (findLatest(requests, user.id)?.status === "pending") {
+      throw new Error("You already have a pending request");
+    }
+    requests.set(record.id, record);
+  });
+  return { ...record };
+}
+
+/**
+ * List requests, newest first, optionally only those with one status
+ */
+export async function listReactivationRequests(
+  status?: ReactivationRequestStatus
+): Promise<ReactivationRequest[]> {
+  return Array.from((await requestStore.read()).values())
+    .filter(record => !status || record.status === status)
+    .sort(newestFirst)
+    .map(record => ({ ...record }));
+}
+
+/**
+ * Approve or deny a pending request. Approving activates the user. Returns
+ * null when the request is unknown or already decided; throws when the user
+ * cannot be activated.
+ */
+export async function decideReactivationRequest(params: {
+  id: string;
+  approve: boolean;
+  decidedBy: string;
+  note?: string | null;
+}): Promise<ReactivationRequest | null> {
+  return requestStore.change(
+    async requests => {
+      const record = requests.get(params.id);
+      if (record?.status !== "pending") {
+        return null;
+      }
+
+      if (params.approve && !(await toggleUserStatus(record.userId, true))) {
+        throw new Error("Failed to update user status");
+      }
+
+      record.status = params.approve ? "approved" : "denied";
+      record.decidedAt = new Date();
+      record.decidedBy = params.decidedBy;
+      record.decisionNote = params.note?.trim() || null;
+      return { ...record };
+    },
+    decided => decided !== null
+  );
+}
+
+/**
+ * Tell the requester what was decided. Returns whether the mail transport
+ * accepted the message.
+ */
+export function sendReactivationDecisionEmail(record: ReactivationRequest): Promise<boolean> {
+  return sendMail(
+    reactivationDecisionEmail({
+      to: record.email,
+      approved: record.status === "approved",
+      note: record.decisionNote ?? null,
+      loginUrl: buildAppUrl(AUTH_CONFIG.PAGES.SIGN_IN),
+    })
+  );
+}
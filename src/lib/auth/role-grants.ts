@@ -0,0 +1,319 @@
+import { randomBytes } from "crypto";
+
+import { logRoleGrantEvent } from "@/lib/audit/audit-service";
+import { ROLE_GRANTS } from "@/lib/auth/constants";
+import { isKnownRole } from "@/lib/auth/role-registry";
+import { refreshUserSessionClaims } from "@/lib/auth/session-store";
+import { getUserById, updateUserRole } from "@/lib/auth/user-service";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { RoleGrant, RoleGrantStatus, RoleName, User } from "@/types/auth";
+
+const DATE_FIELDS = new Set(["requestedAt", "decidedAt", "expiresAt", "endedAt"]);
+
+// Grants keyed by id. Ended grants are kept as the record of who held which role when.
+const grantStore = createJsonCollection<RoleGrant>({
+  file: { name: "role-grants.json", pathEnv: "ROLE_GRANT_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.id,
+});
+
+function newestFirst(a: RoleGrant, b: RoleGrant): number {
+  return b.requestedAt.getTime() - a.requestedAt.getTime();
+}
+
+function findOpenGrant(grants: Map<string, RoleGrant>, userId: string): RoleGrant | undefined {
+  return Array.from(grants.values()).find(
+    record =>
+      record.userId === userId && (record.status === "pending" || record.status === "active")
+  );
+}
+
+// Give the user the granted role and start the clock
+async function activateGrant(record: RoleGrant): Promise<void> {
+  const user = await getUserById(record.userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+  if (!(await updateUserRole(user.id, record.role))) {
+    throw new Error("Failed to update user role");
+  }
+
+  const now = new Date();
+  record.status = "active";
+  record.previousRole = user.role;
+  record.expiresAt = new Date(now.getTime() + record.duration * 1000);
+}
+
+// Put the previous role back, unless the role was changed some other way since
+async function endGrant(record: RoleGrant, status: "expired" | "revoked"): Promise<void> {
+  record.status = status;
+  record.endedAt = new Date();
+
+  const user = await getUserById(record.userId);
+  if (user?.role === record.role && record.previousRole) {
+    await updateUserRole(user.id, record.previousRole);
+  }
+
+  // Sessions only reload claims at roleGrantExpiresAt otherwise, so an early
+  // revocation would leave the role usable until then
+  await refreshUserSessionClaims(record.userId);
+}
+
+/**
+ * Validate a request or direct grant. Load the roles first so custom roles
+ * are known.
+ */
+export function validateRoleGrantInput(input: {
+  role?: unknown;
+  duration?: unknown;
+  justification?: unknown;
+}): string[] {
+  const errors: string[] = [];
+
+  if (!isKnownRole(input.role)) {
+    errors.push("Invalid role");
+  }
+
+  if (
+    typeof input.duration !== "number" ||
+    !Number.isInteger(input.duration) ||
+    input.duration < 60 ||
+    input.duration > ROLE_GRANTS.MAX_DURATION
+  ) {
+    errors.push(
+      `Duration must be between 1 minute and ${ROLE_GRANTS.MAX_DURATION / 3600} hours, in seconds`
+    );
+  }
+
+  const justification = typeof input.justification === "string" ? input.justification.trim() : "";
+  if (
+    justification.length < ROLE_GRANTS.JUSTIFICATION_MIN_LENGTH ||
+    justification.length > ROLE_GRANTS.JUSTIFICATION_MAX_LENGTH
+  ) {
+    errors.push(
+      `Justification must be ${ROLE_GRANTS.JUSTIFICATION_MIN_LENGTH} to ${ROLE_GRANTS.JUSTIFICATION_MAX_LENGTH} characters`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Why a role cannot be assigned outside the grant flow
+ */
+export interface RoleAssignmentError {
+  message: string;
+  status: 400 | 409;
+}
+
+/**
+ * Why `role` cannot be given as a standing role, account-wide or in a
+ * workspace, or null when it can. Every path that sets roles outside the grant
+ * flow checks this: temporary-only roles come from grants alone. Pass the user
+ * when changing an existing user's account role - while they hold an active
+ * grant, its end would put the previous role back over the change.
+ */
+export async function getRoleAssignmentError(
+  role: RoleName,
+  userId?: string
+): Promise<RoleAssignmentError | null> {
+  if (ROLE_GRANTS.TEMPORARY_ONLY_ROLES.includes(role)) {
+    return { message: `${role} role can only be granted temporarily`, status: 400 };
+  }
+  if (userId && (await getActiveRoleGrant(userId))) {
+    return { message: "User holds a temporary role; revoke it first", status: 409 };
+  }
+  return null;
+}
+
+/**
+ * Get a grant by id
+ */
+export async function getRoleGrant(id: string): Promise<RoleGrant | null> {
+  const record = (await grantStore.read()).get(id);
+  return record ? { ...record } : null;
+}
+
+/**
+ * The user's active grant, or null when they hold no temporary role
+ */
+export async function getActiveRoleGrant(userId: string): Promise<RoleGrant | null> {
+  const record = Array.from((await grantStore.read()).values()).find(
+    grant => grant.userId === userId && grant.status === "active"
+  );
+  return record ? { ...record } : null;
+}
+
+/**
+ * List grants, newest first, optionally only one user's or those with one status
+ */
+export async function listRoleGrants(
+  filter: { userId?: string; status?: RoleGrantStatus } = {}
+): Promise<RoleGrant[]> {
+  return Array.from((await grantStore.read()).values())
+    .filter(record => !filter.userId || record.userId === filter.userId)
+    .filter(record => !filter.status || record.status === filter.status)
+    .sort(newestFirst)
+    .map(record => ({ ...record }));
+}
+
+/**
+ * Queue a user's request for a temporary role. Throws when they already have
+ * a pending request or an active grant.
+ */
+export async function requestRoleGrant(params: {
+  user: Pick<User, "id" | "email">;
+  role: RoleName;
+  duration: number;
+  justification: string;
+}): Promise<RoleGrant> {
+  const record: RoleGrant = {
+    id: randomBytes(12).toString("base64url"),
+    userId: params.user.id,
+    email: params.user.email,
+    role: params.role,
+    duration: params.duration,
+    justification: params.justification.trim(),
+    status: "pending",
+    requestedBy: params.user.id,
+    requestedAt: new Date(),
+  };
+
+  await grantStore.change(grants => {
+    const open = findOpenGrant(grants, params.user.id);
+    if (open) {
+      throw new Error(
+        open.status === "active"
+          ? "You already hold a temporary role"
+          : "You already have a pending request"
+      );
+    }
+    grants.set(record.id, record);
+  });
+  return { ...record };
+}
+
+/**
+ * Give a user a temporary role right away, without a request. Throws when they
+ * already have a pending request or an active grant.
+ */
+export async function grantTemporaryRole(params: {
+  user: Pick<User, "id" | "email">;
+  role: RoleName;
+  duration: number;
+  justification: string;
+  grantedBy: string;
+}): Promise<RoleGrant> {
+  const now = new Date();
+  const record: RoleGrant = {
+    id: randomBytes(12).toString("base64url"),
+    userId: params.user.id,
+    email: params.user.email,
+    role: params.role,
+    duration: params.duration,
+    justification: params.justification.trim(),
+    status: "pending",
+    requestedBy: params.grantedBy,
+    requestedAt: now,
+    decidedBy: params.grantedBy,
+    decidedAt: now,
+  };
+
+  await grantStore.change(async grants => {
+    if (findOpenGrant(grants, params.user.id)) {
+      throw new Error("The user already has a pending or active temporary role");
+    }
+
+    await activateGrant(record);
+    grants.set(record.id, record);
+  });
+  return { ...record };
+}
+
+/**
+ * Approve or deny a pending request. Approving gives the user the role for the
+ * requested duration. Returns null when the request is unknown or already
+ * decided; throws when the approver is the requester.
+ */
+export async function decideRoleGrant(params: {
+  id: string;
+  approve: boolean;
+  decidedBy: string;
+  note?: string | null;
+}): Promise<RoleGrant | null> {
+  return grantStore.change(
+    async grants => {
+      const record = grants.get(params.id);
+      if (record?.status !== "pending") {
+        return null;
+      }
+      if (record.userId === params.decidedBy) {
+        throw new Error("You cannot decide your own request");
+      }
+
+      if (params.approve) {
+        await activateGrant(record);
+      } else {
+        record.status = "denied";
+      }
+      record.decidedAt = new Date();
+      record.decidedBy = params.decidedBy;
+      record.decisionNote = params.note?.trim() || null;
+      return { ...record };
+    },
+    decided => decided !== null
+  );
+}
+
+/**
+ * End an active grant early and revert the user's role. Returns null when the
+ * grant is unknown or not active.
+ */
+export async function revokeRoleGrant(id: string, revokedBy: string): Promise<RoleGrant | null> {
+  return grantStore.change(
+    async grants => {
+      const record = grants.get(id);
+      if (record?.status !== "active") {
+        return null;
+      }
+
+      await endGrant(record, "revoked");
+      record.endedBy = revokedBy;
+      return { ...record };
+    },
+    revoked => revoked !== null
+  );
+}
+
+/**
+ * End every active grant whose time is up, revert the roles and log the
+ * expiry. Runs at sign-in and session refresh, so an expired role is never
+ * loaded into claims. Returns the expired grants.
+ */
+export async function expireRoleGrants(): Promise<RoleGrant[]> {
+  const expired = await grantStore.change(
+    async grants => {
+      const now = new Date();
+      const due = Array.from(grants.values()).filter(
+        record => record.status === "active" && record.expiresAt && record.expiresAt <= now
+      );
+
+      await Promise.all(due.map(record => endGrant(record, "expired")));
+      return due.map(record => ({ ...record }));
+    },
+    ended => ended.length > 0
+  );
+
+  for (const record of expired) {
+    await logRoleGrantEvent({
+      userId: record.userId,
+      targetUserId: record.userId,
+      event: "expired",
+      grantId: record.id,
+      role: record.role,
+      previousRole: record.previousRole,
+    });
+  }
+
+  return expired;
+}
@@ -0,0 +1,114 @@
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  ROLE_HIERARCHY,
+  UserRole,
+  type Permission,
+  type RoleDefinition,
+  type RoleName,
+} from "@/types/auth";
+
+/**
+ * Built-in roles every registry starts with
+ */
+export const SYSTEM_ROLES: RoleDefinition[] = [
+  {
+    role: UserRole.ADMIN,
+    label: "Administrator",
+    permissions: DEFAULT_ROLE_PERMISSIONS[UserRole.ADMIN],
+    description: "Full system access with all administrative privileges",
+    level: ROLE_HIERARCHY[UserRole.ADMIN],
+    isSystem: true,
+  },
+  {
+    role: UserRole.EDITOR,
+    label: "Editor",
+    permissions: DEFAULT_ROLE_PERMISSIONS[UserRole.EDITOR],
+    description: "Content management and limited user administration",
+    level: ROLE_HIERARCHY[UserRole.EDITOR],
+    isSystem: true,
+  },
+  {
+    role: UserRole.USER,
+    label: "User",
+    permissions: DEFAULT_ROLE_PERMISSIONS[UserRole.USER],
+    description: "Basic access with read permissions and content interaction",
+    level: ROLE_HIERARCHY[UserRole.USER],
+    isDefault: true,
+    isSystem: true,
+  },
+];
+
+// In-memory role registry shared by permission checks (synchronous reads).
+// Custom roles are loaded into it by role-service on the server.
+const roles = new Map<RoleName, RoleDefinition>(SYSTEM_ROLES.map(def => [def.role, def]));
+
+/**
+ * Get a role definition by name
+ */
+export function getRoleDefinition(role: RoleName): RoleDefinition | null {
+  return roles.get(role) ?? null;
+}
+
+/**
+ * List all roles, highest level first
+ */
+export function listRoleDefinitions(): RoleDefinition[] {
+  return Array.from(roles.values()).sort(
+    (a, b) => b.level - a.level || a.role.localeCompare(b.role)
+  );
+}
+
+/**
+ * Check whether a role exists in the registry
+ */
+export function isKnownRole(role: unknown): role is RoleName {
+  return typeof role === "string" && roles.has(role);
+}
+
+/**
+ * Get the hierarchy level for a role (0 for unknown roles)
+ */
+export function getRoleLevel(role: RoleName): number {
+  return roles.get(role)?.level ?? 0;
+}
+
+/**
+ * Whether password sign-ins for a role must pass a two-factor challenge
+ */
+export function roleRequiresTwoFactor(role: RoleName): boolean {
+  return roles.get(role)?.requireTwoFactor ?? false;
+}
+
+/**
+ * Get the permissions granted by a role (empty for unknown roles)
+ */
+export function getRoleDefinitionPermissions(role: RoleName): Permission[] {
+  return roles.get(role)?.permissions ?? [];
+}
+
+/**
+ * Add or replace a role definition
+ */
+export function registerRoleDefinition(definition: RoleDefinition): void {
+  roles.set(definition.role, definition);
+}
+
+/**
+ * Remove a custom role. System roles cannot be removed.
+ */
+export function unregisterRoleDefinition(role: RoleName): boolean {
+  if (roles.get(role)?.isSystem) {
+    return false;
+  }
+  return roles.delete(role);
+}
+
+/**
+ * Reset the registry to the built-in roles plus the given custom roles
+ */
+export function resetRoleDefinitions(customRoles: RoleDefinition[] = []): void {
+  roles.clear();
+  for (const definition of [...SYSTEM_ROLES, ...customRoles]) {
+    roles.set(definition.role, definition);
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  SYSTEM_ROLES,
+  getRoleDefinition,
+  listRoleDefinitions,
+  registerRoleDefinition,
+  resetRoleDefinitions,
+  unregisterRoleDefinition,
+} from "@/lib/auth/role-registry";
+import { getUsers } from "@/lib/auth/user-service";
+import { JsonStore } from "@/lib/storage/json-file";
+import { Permission, UserRole, type RoleDefinition, type RoleName } from "@/types/auth";
+
+/**
+ * Role fields an admin can set
+ */
+export interface RoleInput {
+  role: string;
+  label: string;
+  description: string;
+  level: number;
+  permissions: Permission[];
+  requireTwoFactor?: boolean;
+}
+
+const ROLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]{1,31}$/;
+const DATE_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+// The registry holds the roles; the store keeps it in step with the file
+const roleStore = new JsonStore<void, RoleDefinition[]>({
+  file: { name: "roles.json", pathEnv: "ROLE_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  parse: stored => {
+    if (!stored) {
+      return;
+    }
+
+    // Built-in roles keep their identity and level even if the file was edited by hand
+    resetRoleDefinitions(
+      stored.map(definition => {
+        const system = SYSTEM_ROLES.find(r => r.role === definition.role);
+        return system ? { ...definition, isSystem: true, level: system.level } : definition;
+      })
+    );
+  },
+  serialize: () => listRoleDefinitions(),
+});
+
+/**
+ * Load persisted roles into the registry, again whenever another process has
+ * changed them
+ */
+export function ensureRolesLoaded(): Promise<void> {
+  return roleStore.read();
+}
+
+/**
+ * Validate role input
+ */
+export function validateRoleInput(input: Partial<RoleInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.role) {
+    errors.push("Role name is required");
+  } else if (!ROLE_NAME_PATTERN.test(input.role)) {
+    errors.push("Role name must be 2-32 uppercase letters, digits or underscores");
+  }
+
+  if (!input.label?.trim()) {
+    errors.push("Label is required");
+  }
+
+  if (input.level === undefined || !Number.isInteger(input.level) || input.level < 1) {
+    errors.push("Level must be a positive integer");
+  }
+
+  if (!Array.isArray(input.permissions)) {
+    errors.push("Permissions must be a list");
+  } else {
+    const unknown = input.permissions.filter(p => !Object.values(Permission).includes(p));
+    if (unknown.length > 0) {
+      errors.push(`Unknown permissions: ${unknown.join(", ")}`);
+    }
+  }
+
+  if (input.requireTwoFactor !== undefined && typeof input.requireTwoFactor !== "boolean") {
+    errors.push("requireTwoFactor must be a boolean");
+  }
+
+  return errors;
+}
+
+/**
+ * List all roles, highest level first
+ */
+export async function getRoles(): Promise<RoleDefinition[]> {
+  await ensureRolesLoaded();
+  return listRoleDefinitions();
+}
+
+/**
+ * Get a single role
+ */
+export async function getRole(role: RoleName): Promise<RoleDefinition | null> {
+  await ensureRolesLoaded();
+  return getRoleDefinition(role);
+}
+
+/**
+ * Role given to users who are not assigned one (the default role, USER
+ * otherwise)
+ */
+export async function getDefaultRole(): Promise<RoleName> {
+  return (await getRoles()).find(definition => definition.isDefault)?.role ?? UserRole.USER;
+}
+
+/**
+ * Create a custom role
+ */
+export async function createRole(input: RoleInput): Promise<RoleDefinition> {
+  const now = new Date();
+  const definition: RoleDefinition = {
+    role: input.role,
+    label: input.label.trim(),
+    description: input.description.trim(),
+    level: input.level,
+    permissions: Array.from(new Set(input.permissions)),
+    ...(input.requireTwoFactor && { requireTwoFactor: true }),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await roleStore.change(() => {
+    if (getRoleDefinition(input.role)) {
+      throw new Error(`Role ${input.role} already exists`);
+    }
+    registerRoleDefinition(definition);
+  });
+  return definition;
+}
+
+/**
+ * Update a role's label, description, level, permissions or 2FA requirement.
+ * Built-in roles keep their level.
+ */
+export async function updateRole(
+  role: RoleName,
+  changes: Partial<Omit<RoleInput, "role">>
+): Promise<RoleDefinition | null> {
+  return roleStore.change(
+    () => {
+      const existing = getRoleDefinition(role);
+      if (!existing) {
+        return null;
+      }
+
+      if (existing.isSystem && changes.level !== undefined && changes.level !== existing.level) {
+        throw new Error("Cannot change the level of a built-in role");
+      }
+
+      const updated: RoleDefinition = {
+        ...existing,
+        ...(changes.label !== undefined && { label: changes.label.trim() }),
+        ...(changes.description !== undefined && { description: changes.description.trim() }),
+        ...(changes.level !== undefined && { level: changes.level }),
+        ...(changes.permissions !== undefined && {
+          permissions: Array.from(new Set(changes.permissions)),
+        }),
+        ...(changes.requireTwoFactor !== undefined && {
+          requireTwoFactor: changes.requireTwoFactor,
+        }),
+        updatedAt: new Date(),
+      };
+
+      registerRoleDefinition(updated);
+      return updated;
+    },
+    updated => updated !== null
+  );
+}
+
+/**
+ * Delete a custom role. Built-in roles and roles still assigned to users cannot be deleted.
+ */
+export async function deleteRole(role: RoleName): Promise<boolean> {
+  return roleStore.change(
+    async () => {
+      const existing = getRoleDefinition(role);
+      if (!existing) {
+        return false;
+      }
+
+      if (existing.isSystem) {
+        throw new Error("Built-in roles cannot be deleted");
+      }
+
+      const { total } = await getUsers({ role, limit: 1 });
+      if (total > 0) {
+        throw new Error(`Role ${role} is still assigned to ${total} user(s)`);
+      }
+
+      unregisterRoleDefinition(role);
+      return true;
+    },
+    deleted => deleted
+  );
+}
@@ -0,0 +1,210 @@
+import { randomBytes } from "crypto";
+
+import { AUTH_CONFIG } from "@/lib/auth/constants";
+import { createJsonCollection } from "@/lib/storage/json-file";
+import type { ImpersonationState, SessionRecord } from "@/types/auth";
+
+const DATE_FIELDS = new Set([
+  "createdAt",
+  "lastSeenAt",
+  "expiresAt",
+  "revokedAt",
+  "startedAt",
+  "claimsStaleAt",
+]);
+
+// Session registry keyed by session id, so sessions survive restarts and a
+// revocation in one process reaches the others
+const sessionStore = createJsonCollection<SessionRecord>({
+  file: { name: "sessions.json", pathEnv: "SESSION_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  key: record => record.id,
+  // Expired sessions can never be used again
+  expired: (record, now) => record.expiresAt <= now,
+});
+
+/**
+ * Whether a session can still be used
+ */
+export function isSessionActive(record: SessionRecord): boolean {
+  return !record.revokedAt && record.expiresAt > new Date();
+}
+
+/**
+ * Register a new session at sign-in
+ */
+export async function createSession(data: {
+  userId: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}): Promise<SessionRecord> {
+  const now = new Date();
+  const record: SessionRecord = {
+    id: randomBytes(18).toString("base64url"),
+    userId: data.userId,
+    userAgent: data.userAgent ?? null,
+    ipAddress: data.ipAddress ?? null,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: new Date(now.getTime() + AUTH_CONFIG.SESSION.MAX_AGE * 1000),
+  };
+
+  await sessionStore.change(sessions => sessions.set(record.id, record));
+  return { ...record };
+}
+
+/**
+ * Get a session by id
+ */
+export async function getSession(id: string): Promise<SessionRecord | null> {
+  const record = (await sessionStore.read()).get(id);
+  return record ? { ...record } : null;
+}
+
+/**
+ * Record activity on a session
+ */
+export async function touchSession(id: string): Promise<void> {
+  await sessionStore.change(
+    sessions => {
+      const record = sessions.get(id);
+      if (!record || !isSessionActive(record)) {
+        return false;
+      }
+
+      record.lastSeenAt = new Date();
+      return true;
+    },
+    touched => touched
+  );
+}
+
+/**
+ * Start or end impersonation on a session. Returns the updated session, or null
+ * when the session is unknown or no longer active.
+ */
+export async function setSessionImpersonation(
+  id: string,
+  impersonation: ImpersonationState | null
+): Promise<SessionRecord | null> {
+  return sessionStore.change(
+    sessions => {
+      const record = sessions.get(id);
+      if (!record || !isSessionActive(record)) {
+        return null;
+      }
+
+      if (impersonation) {
+        record.impersonation = { ...impersonation };
+      } else {
+        delete record.impersonation;
+      }
+      return { ...record };
+    },
+    updated => updated !== null
+  );
+}
+
+/**
+ * Remember the workspace chosen in the workspace switcher. Returns the updated
+ * session, or null when the session is unknown or no longer active.
+ */
+export async function setSessionWorkspace(
+  id: string,
+  workspaceId: string
+): Promise<SessionRecord | null> {
+  return sessionStore.change(
+    sessions => {
+      const record = sessions.get(id);
+      if (!record || !isSessionActive(record)) {
+        return null;
+      }
+
+      record.activeWorkspaceId = workspaceId;
+      return { ...record };
+    },
+    updated => updated !== null
+  );
+}
+
+/**
+ * List a user's active sessions, most recently used first
+ */
+export async function listUserSessions(userId: string): Promise<SessionRecord[]> {
+  const sessions = await sessionStore.read();
+
+  return Array.from(sessions.values())
+    .filter(record => record.userId === userId && isSessionActive(record))
+    .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+    .map(record => ({ ...record }));
+}
+
+/**
+ * Make every active session of a user reload its role and permissions on its
+ * next request, rather than at the next updateAge. Returns the number of
+ * sessions marked.
+ */
+export async function refreshUserSessionClaims(userId: string): Promise<number> {
+  return sessionStore.change(
+    sessions => {
+      const now = new Date();
+      let marked = 0;
+
+      for (const record of sessions.values()) {
+        if (record.userId === userId && isSessionActive(record)) {
+          record.claimsStaleAt = now;
+          marked++;
+        }
+      }
+      return marked;
+    },
+    marked => marked > 0
+  );
+}
+
+/**
+ * Revoke a single session. Returns false when it is unknown or already revoked.
+ */
+export async function revokeSession(id: string): Promise<boolean> {
+  return sessionStore.change(
+    sessions => {
+      const record = sessions.get(id);
+      if (!record || !isSessionActive(record)) {
+        return false;
+      }
+
+      record.revokedAt = new Date();
+      return true;
+    },
+    revoked => revoked
+  );
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one.
+ * Returns the number of sessions revoked.
+ */
+export async function revokeUserSessions(
+  userId: string,
+  options: { exceptSessionId?: string } = {}
+): Promise<number> {
+  return sessionStore.change(
+    sessions => {
+      const now = new Date();
+      let revoked = 0;
+
+      for (const record of sessions.values()) {
+        if (
+          record.userId === userId &&
+          record.id !== options.exceptSessionId &&
+          isSessionActive(record)
+        ) {
+          record.revokedAt = now;
+          revoked++;
+        }
+      }
+      return revoked;
+    },
+    revoked => revoked > 0
+  );
+}
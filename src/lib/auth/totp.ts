@@ -0,0 +1,124 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+import { TWO_FACTOR } from "@/lib/auth/constants";
+
+// RFC 4648 base32 alphabet, as used by authenticator apps
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Encode bytes as unpadded base32
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32 (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TWO_FACTOR.SECRET_BYTES));
+}
+
+/**
+ * Time step for a timestamp (RFC 6238)
+ */
+export function getTotpStep(time = Date.now()): number {
+  return Math.floor(time / 1000 / TWO_FACTOR.PERIOD);
+}
+
+/**
+ * Generate the TOTP code for a time step (HMAC-SHA1, RFC 4226 truncation)
+ */
+export function generateTotp(secret: string, step = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TWO_FACTOR.DIGITS).toString().padStart(TWO_FACTOR.DIGITS, "0");
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift of TWO_FACTOR.WINDOW steps.
+ * Returns the matched time step (to reject replays), or null.
+ */
+export function verifyTotp(secret: string, code: string, time = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TWO_FACTOR.DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = getTotpStep(time);
+
+  for (let drift = -TWO_FACTOR.WINDOW; drift <= TWO_FACTOR.WINDOW; drift++) {
+    const expected = Buffer.from(generateTotp(secret, current + drift));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return current + drift;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI encoded in the enrollment QR code
+ */
+export function buildOtpAuthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TWO_FACTOR.ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR.ISSUER,
+    algorithm: "SHA1",
+    digits: String(TWO_FACTOR.DIGITS),
+    period: String(TWO_FACTOR.PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
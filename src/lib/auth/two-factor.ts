@@ -0,0 +1,145 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+import { TWO_FACTOR } from "@/lib/auth/constants";
+import { roleRequiresTwoFactor } from "@/lib/auth/role-registry";
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from "@/lib/auth/totp";
+import { recordUserActivity, updateUser } from "@/lib/auth/user-service";
+import type { User } from "@/types/auth";
+
+/**
+ * How a two-factor challenge was passed
+ */
+export type TwoFactorMethod = "totp" | "recovery_code";
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TWO_FACTOR.RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/**
+ * Whether the user has a confirmed authenticator
+ */
+export function isTwoFactorEnabled(user: User): boolean {
+  return !!user.twoFactor?.enabled && !!user.twoFactor.secret;
+}
+
+/**
+ * Whether the user's role requires 2FA but they have not enrolled yet.
+ * Only users who can sign in with a password are affected.
+ */
+export function needsTwoFactorSetup(user: User): boolean {
+  return !!user.passwordHash && roleRequiresTwoFactor(user.role) && !isTwoFactorEnabled(user);
+}
+
+/**
+ * Start enrollment: store a pending secret and return what the authenticator app needs
+ */
+export async function startTwoFactorEnrollment(
+  user: User
+): Promise<{ secret: string; otpauthUri: string }> {
+  if (isTwoFactorEnabled(user)) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+
+  await updateUser(user.id, {
+    twoFactor: {
+      enabled: false,
+      secret: null,
+      pendingSecret: secret,
+      recoveryCodeHashes: [],
+    },
+    updatedAt: new Date(),
+  });
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, user.email) };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app.
+ * Returns the plaintext recovery codes (shown once), or null if the code is wrong.
+ */
+export async function confirmTwoFactorEnrollment(
+  user: User,
+  code: string
+): Promise<string[] | null> {
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await updateUser(user.id, {
+    twoFactor: {
+      enabled: true,
+      secret: pendingSecret,
+      pendingSecret: null,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+      enabledAt: new Date(),
+    },
+    updatedAt: new Date(),
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Verify a sign-in challenge with a TOTP code or a single-use recovery code
+ */
+export async function verifyTwoFactorChallenge(
+  user: User,
+  code: string
+): Promise<TwoFactorMethod | null> {
+  const settings = user.twoFactor;
+  if (!settings?.enabled || !settings.secret) {
+    return null;
+  }
+
+  const step = verifyTotp(settings.secret, code);
+  if (step !== null) {
+    // A code can only be used once
+    if (settings.lastUsedStep !== undefined && step <= settings.lastUsedStep) {
+      return null;
+    }
+
+    await recordUserActivity(user.id, { twoFactor: { ...settings, lastUsedStep: step } });
+    return "totp";
+  }
+
+  const codeHash = Buffer.from(hashRecoveryCode(code));
+  const index = settings.recoveryCodeHashes.findIndex(hash =>
+    timingSafeEqual(Buffer.from(hash), codeHash)
+  );
+  if (index === -1) {
+    return null;
+  }
+
+  await recordUserActivity(user.id, {
+    twoFactor: {
+      ...settings,
+      recoveryCodeHashes: settings.recoveryCodeHashes.filter((_, i) => i !== index),
+    },
+  });
+  return "recovery_code";
+}
+
+/**
+ * Turn 2FA off and discard the secret and recovery codes
+ */
+export async function disableTwoFactor(userId: string): Promise<User | null> {
+  return updateUser(userId, { twoFactor: null, updatedAt: new Date() });
+}
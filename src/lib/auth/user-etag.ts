@@ -0,0 +1,29 @@
+import type { User } from "@/types/auth";
+
+type VersionedUser = Pick<User, "updatedAt">;
+
+/**
+ * Entity tag for a user, the same from every route that reads or changes one.
+ * Every change sets updatedAt, including workspace role changes, which are
+ * stored on the membership; sign-in bookkeeping (recordUserActivity) does not.
+ * Safe to call in the browser, where updatedAt arrives as an ISO string.
+ */
+export function getUserETag(user: VersionedUser): string {
+  return `"${new Date(user.updatedAt).getTime().toString(36)}"`;
+}
+
+/**
+ * Whether an If-Match header allows changing the user: absent, `*`, or listing
+ * the user's current tag. Weak tags compare by value.
+ */
+export function matchesIfMatch(ifMatch: string | null, user: VersionedUser): boolean {
+  if (ifMatch === null) {
+    return true;
+  }
+
+  const current = getUserETag(user);
+  return ifMatch
+    .split(",")
+    .map(tag => tag.trim().replace(/^W\//, ""))
+    .some(tag => tag === "*" || tag === current);
+}
@@ -0,0 +1,370 @@
+import { logUserImport } from "@/lib/audit/audit-service";
+import { USER_IMPORT } from "@/lib/auth/constants";
+import { canManageRole } from "@/lib/auth/permissions";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import {
+  createImportedUser,
+  getUserByEmail,
+  getUserByUsername,
+  normalizeEmail,
+  updateUser,
+  validateUserData,
+} from "@/lib/auth/user-service";
+import { parseCsv, toCsv } from "@/lib/storage/csv";
+import type {
+  User,
+  UserImportRowResult,
+  UserImportSummary,
+  UserTransferFormat,
+  UserTransferRecord,
+} from "@/types/auth";
+
+/**
+ * Columns of import and export files, in export order
+ */
+export const USER_TRANSFER_FIELDS = ["email", "name", "username", "role", "isActive"] as const;
+
+type TransferField = (typeof USER_TRANSFER_FIELDS)[number];
+type ChangeableField = Exclude<TransferField, "email">;
+
+/**
+ * One row of an import file. Fields that are missing (or empty CSV cells) keep
+ * the existing user's value.
+ */
+export interface UserImportRow {
+  row: number;
+  email: string;
+  fields: Partial<Omit<UserTransferRecord, "email">>;
+  errors: string[];
+}
+
+interface PlannedRow {
+  result: UserImportRowResult;
+  record: UserTransferRecord;
+  existing: User | null;
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  "1": true,
+  active: true,
+  false: false,
+  no: false,
+  "0": false,
+  inactive: false,
+};
+
+function parseField(
+  field: TransferField,
+  value: unknown,
+  errors: string[]
+): string | boolean | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (field === "isActive") {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    const parsed = typeof value === "string" ? BOOLEAN_VALUES[value.trim().toLowerCase()] : null;
+    if (parsed === undefined || parsed === null) {
+      errors.push("isActive must be true or false");
+      return undefined;
+    }
+    return parsed;
+  }
+
+  if (value === null && (field === "name" || field === "username")) {
+    return null;
+  }
+
+  if (typeof value !== "string") {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+
+  return value.trim();
+}
+
+function toImportRow(row: number, values: Record<string, unknown>): UserImportRow {
+  const errors: string[] = [];
+  const fields: UserImportRow["fields"] = {};
+  let email = "";
+
+  for (const field of USER_TRANSFER_FIELDS) {
+    const value = parseField(field, values[field], errors);
+    if (value === undefined) {
+      continue;
+    }
+
+    if (field === "email") {
+      email = typeof value === "string" ? normalizeEmail(value) : "";
+    } else {
+      Object.assign(fields, { [field]: value });
+    }
+  }
+
+  return { row, email, fields, errors };
+}
+
+/**
+ * Parse an import file into rows. Throws when the file itself is unusable
+ * (malformed, unknown columns, too many rows); problems with single rows are
+ * reported on the row instead.
+ */
+export function parseUserImport(content: string, format: UserTransferFormat): UserImportRow[] {
+  let records: unknown[];
+
+  if (format === "json") {
+    try {
+      records = JSON.parse(content);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    if (!Array.isArray(records)) {
+      throw new Error("The JSON file must contain an array of users");
+    }
+  } else {
+    const [header = [], ...lines] = parseCsv(content);
+    const columns = header.map(column => column.trim());
+
+    if (!columns.includes("email")) {
+      throw new Error('The CSV file needs an "email" column');
+    }
+    const unknown = columns.filter(
+      column => !(USER_TRANSFER_FIELDS as readonly string[]).includes(column)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown columns: ${unknown.join(", ")}`);
+    }
+
+    // Empty cells are left out, so they keep the current value
+    records = lines.map(cells =>
+      Object.fromEntries(
+        columns.flatMap((column, index) => (cells[index] ? [[column, cells[index]]] : []))
+      )
+    );
+  }
+
+  if (records.length > USER_IMPORT.MAX_ROWS) {
+    throw new Error(`Imports are limited to ${USER_IMPORT.MAX_ROWS} rows`);
+  }
+
+  return records.map((record, index) =>
+    record !== null && typeof record === "object" && !Array.isArray(record)
+      ? toImportRow(index + 1, record as Record<string, unknown>)
+      : { row: index + 1, email: "", fields: {}, errors: ["Row must be an object"] }
+  );
+}
+
+async function planRows(
+  rows: UserImportRow[],
+  actor: Pick<User, "id" | "role">
+): Promise<PlannedRow[]> {
+  await ensureRolesLoaded();
+
+  const emailRows = new Map<string, number>();
+  const usernameRows = new Map<string, number>();
+  const planned: PlannedRow[] = [];
+
+  for (const row of rows) {
+    const errors = [...row.errors];
+    const existing = row.email ? await getUserByEmail(row.email) : null;
+
+    const record: UserTransferRecord = {
+      email: row.email,
+      name: row.fields.name !== undefined ? row.fields.name : (existing?.name ?? null),
+      username:
+        row.fields.username !== undefined ? row.fields.username : (existing?.username ?? null),
+      role: row.fields.role ?? existing?.role ?? "",
+      isActive: row.fields.isActive ?? existing?.isActive ?? true,
+    };
+
+    errors.push(...validateUserData(record));
+
+    const duplicateRow = emailRows.get(record.email);
+    if (record.email && duplicateRow) {
+      errors.push(`Email also appears in row ${duplicateRow}`);
+    } else if (record.email) {
+      emailRows.set(record.email, row.row);
+    }
+
+    if (record.username && record.username !== existing?.username) {
+      const owner = await getUserByUsername(record.username);
+      if ((owner && owner.id !== existing?.id) || usernameRows.has(record.username)) {
+        errors.push("Username is already taken");
+      }
+    }
+    if (record.username) {
+      usernameRows.set(record.username, row.row);
+    }
+
+    const changes: UserImportRowResult["changes"] = {};
+    if (existing) {
+      for (const field of ["name", "username", "role", "isActive"] as ChangeableField[]) {
+        if (record[field] !== existing[field]) {
+          Object.assign(changes, { [field]: { from: existing[field], to: record[field] } });
+        }
+      }
+    }
+    const hasChanges = Object.keys(changes).length > 0;
+
+    // Same rules as the single-user role and status routes
+    if (errors.length === 0) {
+      if ((!existing || changes.role) && !canManageRole(actor.role, record.role)) {
+        errors.push(`${actor.role} role cannot assign ${record.role} role`);
+      }
+      if (!existing || changes.role) {
+        const assignmentError = await getRoleAssignmentError(record.role, existing?.id);
+        if (assignmentError) {
+          errors.push(assignmentError.message);
+        }
+      }
+      if (existing && hasChanges && !canManageRole(actor.role, existing.role)) {
+        errors.push(`${actor.role} role cannot manage ${existing.role} users`);
+      }
+      if (existing?.id === actor.id && changes.role) {
+        errors.push("Cannot change your own role");
+      }
+      if (existing?.id === actor.id && changes.isActive?.to === false) {
+        errors.push("Cannot deactivate your own account");
+      }
+    }
+
+    let action: UserImportRowResult["action"] = "create";
+    if (errors.length > 0) {
+      action = "error";
+    } else if (existing) {
+      action = hasChanges ? "update" : "unchanged";
+    }
+
+    planned.push({
+      result: {
+        row: row.row,
+        email: record.email,
+        action,
+        errors,
+        ...(hasChanges && { changes }),
+        ...(existing && { userId: existing.id }),
+      },
+      record,
+      existing,
+    });
+  }
+
+  return planned;
+}
+
+/**
+ * Count rows by action
+ */
+export function summarizeUserImport(results: UserImportRowResult[]): UserImportSummary {
+  const summary: UserImportSummary = { create: 0, update: 0, unchanged: 0, error: 0 };
+  results.forEach(result => summary[result.action]++);
+  return summary;
+}
+
+/**
+ * Dry run: report what importing the rows would do, without changing anything
+ */
+export async function planUserImport(
+  rows: UserImportRow[],
+  actor: Pick<User, "id" | "role">
+): Promise<UserImportRowResult[]> {
+  return (await planRows(rows, actor)).map(planned => planned.result);
+}
+
+/**
+ * Import the rows. Rows with errors are skipped; every created or updated user
+ * gets its own audit entry.
+ */
+export async function applyUserImport(
+  rows: UserImportRow[],
+  actor: Pick<User, "id" | "role">,
+  context: { ipAddress?: string; userAgent?: string } = {}
+): Promise<UserImportRowResult[]> {
+  const results: UserImportRowResult[] = [];
+
+  for (const { result, record, existing } of await planRows(rows, actor)) {
+    if (result.action === "error" || result.action === "unchanged") {
+      results.push(result);
+      continue;
+    }
+
+    try {
+      const user = existing
+        ? await updateUser(existing.id, {
+            name: record.name,
+            username: record.username,
+            role: record.role,
+            isActive: record.isActive,
+            updatedAt: new Date(),
+          })
+        : await createImportedUser(record);
+
+      if (!user) {
+        throw new Error("Failed to update user");
+      }
+
+      await logUserImport({
+        userId: actor.id,
+        targetUserId: user.id,
+        event: existing ? "updated" : "created",
+        email: record.email,
+        row: result.row,
+        changes: existing
+          ? (result.changes ?? {})
+          : Object.fromEntries(
+              (["name", "username", "role", "isActive"] as ChangeableField[]).map(field => [
+                field,
+                { from: null, to: record[field] },
+              ])
+            ),
+        ...context,
+      });
+
+      results.push({ ...result, userId: user.id });
+    } catch (error) {
+      results.push({
+        ...result,
+        action: "error",
+        errors: [error instanceof Error ? error.message : "Import failed"],
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fields written to export files
+ */
+export function toUserTransferRecord(user: User): UserTransferRecord {
+  return {
+    email: user.email,
+    name: user.name,
+    username: user.username,
+    role: user.role,
+    isActive: user.isActive,
+  };
+}
+
+/**
+ * Serialize users in the import file format, so an export can be edited and
+ * imported again
+ */
+export function exportUsers(users: User[], format: UserTransferFormat): string {
+  const records = users.map(toUserTransferRecord);
+
+  if (format === "json") {
+    return JSON.stringify(records, null, 2);
+  }
+
+  return toCsv([
+    [...USER_TRANSFER_FIELDS],
+    ...records.map(record => USER_TRANSFER_FIELDS.map(field => record[field])),
+  ]);
+}
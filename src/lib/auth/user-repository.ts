@@ -0,0 +1,305 @@
+import { AUTH_ERRORS } from "@/lib/auth/constants";
+import { JsonStore, getDataFilePath, getStoreDriver } from "@/lib/storage/json-file";
+import type { User } from "@/types/auth";
+import { UserRole } from "@/types/auth";
+
+/**
+ * Storage backend for user accounts.
+ * user-service goes through this interface so the backing store can be swapped
+ * without touching callers.
+ */
+export interface UserRepository {
+  findById(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  findByProviderAccount(provider: string, providerAccountId: string): Promise<User | null>;
+  findAll(): Promise<User[]>;
+  /**
+   * Add a user. Throws AUTH_ERRORS.EMAIL_IN_USE when another user has the
+   * email, checked in the same write so two sign-ups cannot both get it.
+   */
+  create(user: User): Promise<User>;
+  /**
+   * Apply `data` to the user. With a precondition, the change is only made
+   * when it holds for the stored user at the moment of writing (compare and
+   * set); otherwise this throws AUTH_ERRORS.USER_CHANGED. A new email taken
+   * by another user throws AUTH_ERRORS.EMAIL_IN_USE.
+   */
+  update(
+    id: string,
+    data: Partial<User>,
+    precondition?: (current: User) => boolean
+  ): Promise<User | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Demo accounts for tests and local development. Their passwords are published
+ * in docs/TEST_CREDENTIALS_GUIDE.md, so only the in-memory store starts with
+ * them unless SEED_DEMO_USERS allows it (see shouldSeedDemoUsers).
+ */
+export const DEFAULT_USERS: User[] = [
+  {
+    id: "1",
+    email: "admin@example.com",
+    name: "System Administrator",
+    image: null,
+    username: "admin",
+    role: UserRole.ADMIN,
+    provider: "credentials",
+    providerId: "1",
+    isActive: true,
+    emailVerified: true,
+    passwordHash:
+      "scrypt$16384$8$1$NrBZSYgkuMWiY2S61J16kg==$zQ/6FDuw8jxOvkLnICTiUkS0xtrOYvGQfs7Ip1jYEr99M5ppZQyXJAFtTmqLwSjIENJe+23oq2i+XoH4SmHs0A==",
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+    metadata: {},
+  },
+  {
+    id: "2",
+    email: "editor@example.com",
+    name: "Content Editor",
+    image: null,
+    username: "editor",
+    role: UserRole.EDITOR,
+    provider: "credentials",
+    providerId: "2",
+    isActive: true,
+    emailVerified: true,
+    passwordHash:
+      "scrypt$16384$8$1$6KtjqI2duQyY1qj1UZup7Q==$SvMmT+8QeCIuNHjtXyBogG/HxKJcJuA6vT+FwfHbHnjAMv+inWEW9NbfUnVMHv3B7+mfbNrpYLTwOspxTvgOFA==",
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+    metadata: {},
+  },
+  {
+    id: "3",
+    email: "test@example.com",
+    name: "Test User",
+    image: null,
+    username: "test",
+    role: UserRole.USER,
+    provider: "credentials",
+    providerId: "3",
+    isActive: true,
+    emailVerified: true,
+    passwordHash:
+      "scrypt$16384$8$1$RhcM9I0/GEtdQ8ABd63tLg==$QdzpG6lMHi6aXTpGAFE2p26CYXYCCqHbQwKNVQcDDq5qCiPs7gbn5iEazb+VeNgAfx6ZMRjwAQOWDDibfGE8ZA==",
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+    metadata: {},
+  },
+];
+
+// User fields stored as ISO strings on disk that must be revived as Date objects
+const DATE_FIELDS = new Set(["createdAt", "updatedAt", "lastLoginAt", "linkedAt", "enabledAt"]);
+
+function cloneUser(user: User): User {
+  return structuredClone(user);
+}
+
+/**
+ * Whether a provider identity signs in to this user. Users stored before
+ * account linking have no accounts list and match on provider/providerId.
+ */
+function hasProviderAccount(user: User, provider: string, providerAccountId: string): boolean {
+  if (!user.accounts) {
+    return user.provider === provider && user.providerId === providerAccountId;
+  }
+
+  return user.accounts.some(
+    account => account.provider === provider && account.providerAccountId === providerAccountId
+  );
+}
+
+/**
+ * In-memory repository - state is lost on restart, intended for tests and local demos
+ */
+export class InMemoryUserRepository implements UserRepository {
+  private users: User[];
+
+  constructor(seed: User[] = DEFAULT_USERS) {
+    this.users = seed.map(cloneUser);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const user = this.users.find(u => u.id === id);
+    return user ? cloneUser(user) : null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const user = this.users.find(u => u.email === email);
+    return user ? cloneUser(user) : null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    const user = this.users.find(u => u.username === username);
+    return user ? cloneUser(user) : null;
+  }
+
+  async findByProviderAccount(provider: string, providerAccountId: string): Promise<User | null> {
+    const user = this.users.find(u => hasProviderAccount(u, provider, providerAccountId));
+    return user ? cloneUser(user) : null;
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.users.map(cloneUser);
+  }
+
+  async create(user: User): Promise<User> {
+    if (this.users.some(u => u.id === user.id)) {
+      throw new Error(`User with id ${user.id} already exists`);
+    }
+    if (this.users.some(u => u.email === user.email)) {
+      throw new Error(AUTH_ERRORS.EMAIL_IN_USE);
+    }
+
+    this.users.push(cloneUser(user));
+    return cloneUser(user);
+  }
+
+  async update(
+    id: string,
+    data: Partial<User>,
+    precondition?: (current: User) => boolean
+  ): Promise<User | null> {
+    const index = this.users.findIndex(u => u.id === id);
+    const existing = this.users[index];
+    if (index === -1 || !existing) {
+      return null;
+    }
+    if (precondition && !precondition(cloneUser(existing))) {
+      throw new Error(AUTH_ERRORS.USER_CHANGED);
+    }
+    if (data.email !== undefined && this.users.some(u => u.id !== id && u.email === data.email)) {
+      throw new Error(AUTH_ERRORS.EMAIL_IN_USE);
+    }
+
+    const updated: User = { ...existing, ...data, id: existing.id };
+    this.users[index] = cloneUser(updated);
+    return cloneUser(updated);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const index = this.users.findIndex(u => u.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this.users.splice(index, 1);
+    return true;
+  }
+}
+
+/**
+ * Whether a new file store starts with the demo accounts: only when
+ * SEED_DEMO_USERS=true, and never in production. Otherwise it starts empty and
+ * the first administrator is invited through INITIAL_ADMIN_EMAIL.
+ */
+export function shouldSeedDemoUsers(): boolean {
+  return process.env.SEED_DEMO_USERS === "true" && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * JSON file repository - survives restarts and deploys as long as the file
+ * lives on a persistent volume. Writes are serialized through a queue, and the
+ * file is re-read whenever another process has replaced it since the last read.
+ */
+export class FileUserRepository implements UserRepository {
+  private readonly store: JsonStore<InMemoryUserRepository, User[]>;
+
+  constructor(filePath: string, seed: User[] = []) {
+    this.store = new JsonStore({
+      file: filePath,
+      dateFields: DATE_FIELDS,
+      // First run - seed the store and write it out
+      parse: users => new InMemoryUserRepository(users ?? seed),
+      serialize: store => store.findAll(),
+      createFile: true,
+    });
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return (await this.store.read()).findById(id);
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return (await this.store.read()).findByEmail(email);
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    return (await this.store.read()).findByUsername(username);
+  }
+
+  async findByProviderAccount(provider: string, providerAccountId: string): Promise<User | null> {
+    return (await this.store.read()).findByProviderAccount(provider, providerAccountId);
+  }
+
+  async findAll(): Promise<User[]> {
+    return (await this.store.read()).findAll();
+  }
+
+  async create(user: User): Promise<User> {
+    return this.store.change(store => store.create(user));
+  }
+
+  async update(
+    id: string,
+    data: Partial<User>,
+    precondition?: (current: User) => boolean
+  ): Promise<User | null> {
+    return this.store.change(
+      store => store.update(id, data, precondition),
+      updated => updated !== null
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.store.change(
+      store => store.delete(id),
+      deleted => deleted
+    );
+  }
+}
+
+/**
+ * Build the repository selected by USER_STORE ("file" or "memory").
+ * Defaults to the file store outside of tests, at USER_STORE_PATH or .data/users.json.
+ *
+ * Processes sharing the file see each other's changes, but the file is not
+ * locked: changes made by two processes at the same moment can still overwrite
+ * each other. Run a single server process per file, or implement UserRepository
+ * over a database for deployments with several instances.
+ */
+export function createUserRepository(): UserRepository {
+  const driver = getStoreDriver();
+
+  if (driver === "memory") {
+    return new InMemoryUserRepository();
+  }
+
+  if (driver === "file") {
+    const filePath = process.env.USER_STORE_PATH ?? getDataFilePath("users.json");
+    return new FileUserRepository(filePath, shouldSeedDemoUsers() ? DEFAULT_USERS : []);
+  }
+
+  throw new Error(`Unknown USER_STORE driver: ${driver}`);
+}
+
+let repository: UserRepository | null = null;
+
+/**
+ * Get the active user repository (created on first use)
+ */
+export function getUserRepository(): UserRepository {
+  repository ??= createUserRepository();
+  return repository;
+}
+
+/**
+ * Replace the active user repository (e.g. with an InMemoryUserRepository in tests)
+ */
+export function setUserRepository(nextRepository: UserRepository | null): void {
+  repository = nextRepository;
+}
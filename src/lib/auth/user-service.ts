@@ -1,105 +1,62 @@
-import type { User, CreateUserData, UpdateUserData } from "@/types/auth";
+import { AUTH_ERRORS, USER_QUERY } from "@/lib/auth/constants";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { isKnownRole } from "@/lib/auth/role-registry";
+import { matchesIfMatch } from "@/lib/auth/user-etag";
+import { getUserRepository } from "@/lib/auth/user-repository";
+import { filterWorkspaceMembers } from "@/lib/auth/workspaces";
+import type {
+  User,
+  CreateUserData,
+  UpdateUserData,
+  PublicUser,
+  PermissionOverrides,
+  RoleName,
+  LinkedAccount,
+  UserTransferRecord,
+  UserQuery,
+  UserQueryPage,
+  UserSortField,
+} from "@/types/auth";
 import { UserRole } from "@/types/auth";
 
-// Mock database - replace with actual database implementation
-const users: User[] = [
-  {
-    id: "1",
-    email: "admin@example.com",
-    name: "System Administrator",
-    image: null,
-    username: "admin",
-    role: UserRole.ADMIN,
-    provider: "credentials",
-    providerId: "1",
-    isActive: true,
-    emailVerified: true,
-    createdAt: new Date("2024-01-01"),
-    updatedAt: new Date("2024-01-01"),
-    metadata: {},
-  },
-  {
-    id: "2",
-    email: "editor@example.com",
-    name: "Content Editor",
-    image: null,
-    username: "editor",
-    role: UserRole.EDITOR,
-    provider: "credentials",
-    providerId: "2",
-    isActive: true,
-    emailVerified: true,
-    createdAt: new Date("2024-01-01"),
-    updatedAt: new Date("2024-01-01"),
-    metadata: {},
-  },
-  {
-    id: "3",
-    email: "test@example.com",
-    name: "Test User",
-    image: null,
-    username: "test",
-    role: UserRole.USER,
-    provider: "credentials",
-    providerId: "3",
-    isActive: true,
-    emailVerified: true,
-    createdAt: new Date("2024-01-01"),
-    updatedAt: new Date("2024-01-01"),
-    metadata: {},
-  },
-];
-
 /**
- * Get user by ID
+ * Get user by ID. Null means there is no such user; a store that cannot be
+ * read throws, so callers never mistake an outage for a deleted account.
  */
 export async function getUserById(id: string): Promise<User | null> {
-  try {
-    const user = users.find(u => u.id === id);
-    return user || null;
-  } catch (error) {
-    console.error("Error getting user by ID:", error);
-    return null;
-  }
+  return getUserRepository().findById(id);
 }
 
 /**
  * Get user by email
  */
 export async function getUserByEmail(email: string): Promise<User | null> {
-  try {
-    const user = users.find(u => u.email === email);
-    return user || null;
-  } catch (error) {
-    console.error("Error getting user by email:", error);
-    return null;
-  }
+  return getUserRepository().findByEmail(email);
 }
 
 /**
  * Get user by username
  */
 export async function getUserByUsername(username: string): Promise<User | null> {
-  try {
-    const user = users.find(u => u.username === username);
-    return user || null;
-  } catch (error) {
-    console.error("Error getting user by username:", error);
-    return null;
-  }
+  return getUserRepository().findByUsername(username);
+}
+
+/**
+ * Get the user a provider identity signs in to
+ */
+export async function getUserByProviderAccount(
+  provider: string,
+  providerAccountId: string
+): Promise<User | null> {
+  return getUserRepository().findByProviderAccount(provider, providerAccountId);
 }
 
 /**
- * Create new user
+ * Create new user. Throws AUTH_ERRORS.EMAIL_IN_USE when another user has the
+ * email, checked by the repository as part of the write.
  */
 export async function createUser(userData: CreateUserData): Promise<User> {
   try {
-    // Check if user already exists
-    const existingUser = await getUserByEmail(userData.email);
-    if (existingUser) {
-      throw new Error("User with this email already exists");
-    }
-
     const newUser: User = {
       ...userData,
       id: userData.id || generateUserId(),
@@ -107,38 +64,63 @@ export async function createUser(userData: CreateUserData): Promise<User> {
       updatedAt: new Date(),
     };
 
-    users.push(newUser);
-    return newUser;
+    return await getUserRepository().create(newUser);
   } catch (error) {
     console.error("Error creating user:", error);
     throw error;
   }
 }
 
+/**
+ * Conditions for an update. With `ifMatch` (an If-Match header), the update is
+ * only made while the stored user still has one of those ETags, and throws
+ * AUTH_ERRORS.USER_CHANGED otherwise.
+ */
+export interface UpdateUserOptions {
+  ifMatch?: string | null;
+}
+
 /**
  * Update existing user
  */
-export async function updateUser(id: string, updateData: UpdateUserData): Promise<User | null> {
-  try {
-    const userIndex = users.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      return null;
-    }
+export async function updateUser(
+  id: string,
+  updateData: UpdateUserData,
+  options: UpdateUserOptions = {}
+): Promise<User | null> {
+  const { ifMatch } = options;
 
-    const existingUser = users[userIndex];
-    if (!existingUser) {
-      return null;
+  try {
+    return await getUserRepository().update(
+      id,
+      { ...updateData, updatedAt: new Date() },
+      ifMatch ? current => matchesIfMatch(ifMatch, current) : undefined
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error.message === AUTH_ERRORS.USER_CHANGED || error.message === AUTH_ERRORS.EMAIL_IN_USE)
+    ) {
+      throw error;
     }
+    console.error("Error updating user:", error);
+    return null;
+  }
+}
 
-    users[userIndex] = {
-      ...existingUser,
-      ...updateData,
-      updatedAt: new Date(),
-    };
-
-    return users[userIndex];
+/**
+ * Store sign-in bookkeeping (last sign-in, the last TOTP step used). Unlike
+ * updateUser this keeps updatedAt, and so the user's ETag: signing in is not
+ * an edit, and must not make an admin's change in progress fail with 412.
+ */
+export async function recordUserActivity(
+  id: string,
+  activity: Pick<UpdateUserData, "lastLoginAt" | "twoFactor">
+): Promise<User | null> {
+  try {
+    return await getUserRepository().update(id, activity);
   } catch (error) {
-    console.error("Error updating user:", error);
+    console.error("Error recording user activity:", error);
     return null;
   }
 }
@@ -148,13 +130,7 @@ export async function updateUser(id: string, updateData: UpdateUserData): Promis
  */
 export async function deleteUser(id: string): Promise<boolean> {
   try {
-    const userIndex = users.findIndex(u => u.id === id);
-    if (userIndex === -1) {
-      return false;
-    }
-
-    users.splice(userIndex, 1);
-    return true;
+    return await getUserRepository().delete(id);
   } catch (error) {
     console.error("Error deleting user:", error);
     return false;
@@ -162,23 +138,29 @@ export async function deleteUser(id: string): Promise<boolean> {
 }
 
 /**
- * Get all users (with pagination)
+ * Get all users (with pagination). With a workspaceId, only that workspace's
+ * members are returned, with workspaceRole set, and role filters on it.
  */
 export async function getUsers(
   options: {
     page?: number;
     limit?: number;
-    role?: UserRole;
+    role?: RoleName;
     isActive?: boolean;
+    workspaceId?: string;
   } = {}
 ): Promise<{ users: User[]; total: number; page: number; limit: number }> {
   try {
-    const { page = 1, limit = 10, role, isActive } = options;
-    let filteredUsers = users;
+    const { page = 1, limit = 10, role, isActive, workspaceId } = options;
+    let filteredUsers: User[] = await getUserRepository().findAll();
+
+    if (workspaceId !== undefined) {
+      filteredUsers = await filterWorkspaceMembers(filteredUsers, workspaceId);
+    }
 
     // Apply filters
     if (role !== undefined) {
-      filteredUsers = filteredUsers.filter(u => u.role === role);
+      filteredUsers = filteredUsers.filter(u => (u.workspaceRole ?? u.role) === role);
     }
     if (isActive !== undefined) {
       filteredUsers = filteredUsers.filter(u => u.isActive === isActive);
@@ -203,22 +185,135 @@ export async function getUsers(
 /**
  * Update user role
  */
-export async function updateUserRole(id: string, role: UserRole): Promise<User | null> {
+export async function updateUserRole(
+  id: string,
+  role: RoleName,
+  options: UpdateUserOptions = {}
+): Promise<User | null> {
   try {
-    return await updateUser(id, { role, updatedAt: new Date() });
+    return await updateUser(id, { role, updatedAt: new Date() }, options);
   } catch (error) {
+    if (error instanceof Error && error.message === AUTH_ERRORS.USER_CHANGED) {
+      throw error;
+    }
     console.error("Error updating user role:", error);
     return null;
   }
 }
 
+/**
+ * Replace a user's per-user permission grants and revocations
+ */
+export async function updateUserPermissionOverrides(
+  id: string,
+  permissionOverrides: PermissionOverrides
+): Promise<User | null> {
+  try {
+    return await updateUser(id, { permissionOverrides, updatedAt: new Date() });
+  } catch (error) {
+    console.error("Error updating user permission overrides:", error);
+    return null;
+  }
+}
+
+/**
+ * List the OAuth identities that can sign in to a user. Users stored before
+ * account linking fall back to the provider they were created with.
+ */
+export function getLinkedAccounts(user: User): LinkedAccount[] {
+  if (user.accounts) {
+    return user.accounts;
+  }
+
+  if (!user.provider || user.provider === "credentials") {
+    return [];
+  }
+
+  return [
+    {
+      provider: user.provider,
+      providerAccountId: user.providerId,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      linkedAt: user.createdAt,
+    },
+  ];
+}
+
+/**
+ * Link an OAuth identity to a user. Throws if the identity already belongs to another user.
+ */
+export async function linkProviderAccount(
+  userId: string,
+  account: Omit<LinkedAccount, "linkedAt">
+): Promise<User | null> {
+  const owner = await getUserByProviderAccount(account.provider, account.providerAccountId);
+  if (owner && owner.id !== userId) {
+    throw new Error("Provider account is already linked to another user");
+  }
+
+  const user = await getUserById(userId);
+  if (!user) {
+    return null;
+  }
+
+  if (owner) {
+    return user;
+  }
+
+  return updateUser(userId, {
+    accounts: [
+      // One identity per provider
+      ...getLinkedAccounts(user).filter(a => a.provider !== account.provider),
+      { ...account, linkedAt: new Date() },
+    ],
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Unlink a provider from a user. Refuses to remove the last way to sign in.
+ */
+export async function unlinkProviderAccount(
+  userId: string,
+  provider: string
+): Promise<User | null> {
+  const user = await getUserById(userId);
+  if (!user) {
+    return null;
+  }
+
+  const accounts = getLinkedAccounts(user);
+  const remaining = accounts.filter(a => a.provider !== provider);
+
+  if (remaining.length === accounts.length) {
+    return user;
+  }
+
+  if (remaining.length === 0 && !user.passwordHash) {
+    throw new Error("Cannot unlink the only sign-in method");
+  }
+
+  return updateUser(userId, {
+    accounts: remaining,
+    updatedAt: new Date(),
+  });
+}
+
 /**
  * Activate/deactivate user
  */
-export async function toggleUserStatus(id: string, isActive: boolean): Promise<User | null> {
+export async function toggleUserStatus(
+  id: string,
+  isActive: boolean,
+  options: UpdateUserOptions = {}
+): Promise<User | null> {
   try {
-    return await updateUser(id, { isActive, updatedAt: new Date() });
+    return await updateUser(id, { isActive, updatedAt: new Date() }, options);
   } catch (error) {
+    if (error instanceof Error && error.message === AUTH_ERRORS.USER_CHANGED) {
+      throw error;
+    }
     console.error("Error toggling user status:", error);
     return null;
   }
@@ -227,8 +322,9 @@ export async function toggleUserStatus(id: string, isActive: boolean): Promise<U
 /**
  * Get users by role
  */
-export async function getUsersByRole(role: UserRole): Promise<User[]> {
+export async function getUsersByRole(role: RoleName): Promise<User[]> {
   try {
+    const users = await getUserRepository().findAll();
     return users.filter(u => u.role === role && u.isActive);
   } catch (error) {
     console.error("Error getting users by role:", error);
@@ -237,23 +333,284 @@ export async function getUsersByRole(role: UserRole): Promise<User[]> {
 }
 
 /**
- * Search users
+ * Search users, optionally only the members of a workspace
  */
-export async function searchUsers(query: string): Promise<User[]> {
+export async function searchUsers(query: string, workspaceId?: string): Promise<User[]> {
   try {
     const lowercaseQuery = query.toLowerCase();
-    return users.filter(
-      u =>
-        u.name?.toLowerCase().includes(lowercaseQuery) ||
-        u.email.toLowerCase().includes(lowercaseQuery) ||
-        u.username?.toLowerCase().includes(lowercaseQuery)
-    );
+    const allUsers = await getUserRepository().findAll();
+    const users = workspaceId ? await filterWorkspaceMembers(allUsers, workspaceId) : allUsers;
+    return users.filter(u => matchesSearch(u, lowercaseQuery));
   } catch (error) {
     console.error("Error searching users:", error);
     return [];
   }
 }
 
+function matchesSearch(user: User, lowercaseQuery: string): boolean {
+  return (
+    !!user.name?.toLowerCase().includes(lowercaseQuery) ||
+    user.email.toLowerCase().includes(lowercaseQuery) ||
+    !!user.username?.toLowerCase().includes(lowercaseQuery)
+  );
+}
+
+// The provider the account was created with, or any identity linked to it since
+function signsInWith(user: User, provider: string): boolean {
+  return (
+    user.provider === provider ||
+    getLinkedAccounts(user).some(account => account.provider === provider)
+  );
+}
+
+type SortKey = string | number | null;
+
+function getSortKey(user: User, sortBy: UserSortField): SortKey {
+  switch (sortBy) {
+    case "name":
+      return user.name?.toLowerCase() ?? null;
+    case "email":
+      return user.email.toLowerCase();
+    case "createdAt":
+      return new Date(user.createdAt).getTime();
+    case "lastLoginAt":
+      return user.lastLoginAt ? new Date(user.lastLoginAt).getTime() : null;
+  }
+}
+
+/**
+ * Order two users by sort key, missing keys last, then by id so that every
+ * user has one fixed position for cursors to point at
+ */
+function compareSortKeys(
+  a: [SortKey, string],
+  b: [SortKey, string],
+  sortOrder: "asc" | "desc"
+): number {
+  const [aKey, aId] = a;
+  const [bKey, bId] = b;
+
+  if (aKey !== bKey) {
+    if (aKey === null) {
+      return 1;
+    }
+    if (bKey === null) {
+      return -1;
+    }
+    const order = aKey < bKey ? -1 : 1;
+    return sortOrder === "asc" ? order : -order;
+  }
+
+  if (aId === bId) {
+    return 0;
+  }
+  return aId < bId ? -1 : 1;
+}
+
+function encodeCursor(position: [SortKey, string]): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [SortKey, string] {
+  try {
+    const position: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Array.isArray(position) && position.length === 2) {
+      const [key, id] = position;
+      const isSortKey = key === null || typeof key === "string" || typeof key === "number";
+      if (isSortKey && typeof id === "string") {
+        return [key, id];
+      }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor");
+}
+
+/**
+ * List users matching a search and filters, one page at a time. The cursor
+ * records the last user's sort key and id, so pages stay stable while users
+ * are added or removed. Throws "Invalid cursor" for a cursor it did not issue.
+ */
+export async function queryUsers(query: UserQuery = {}): Promise<UserQueryPage> {
+  const {
+    search,
+    role,
+    provider,
+    emailVerified,
+    isActive,
+    sortBy = "createdAt",
+    sortOrder = "desc",
+    limit = USER_QUERY.DEFAULT_LIMIT,
+    cursor,
+    workspaceId,
+  } = query;
+  const after = cursor ? decodeCursor(cursor) : null;
+
+  let users: User[] = await getUserRepository().findAll();
+  if (workspaceId !== undefined) {
+    users = await filterWorkspaceMembers(users, workspaceId);
+  }
+
+  const lowercaseSearch = search?.trim().toLowerCase();
+  users = users.filter(
+    u =>
+      (!lowercaseSearch || matchesSearch(u, lowercaseSearch)) &&
+      (role === undefined || (u.workspaceRole ?? u.role) === role) &&
+      (provider === undefined || signsInWith(u, provider)) &&
+      (emailVerified === undefined || u.emailVerified === emailVerified) &&
+      (isActive === undefined || u.isActive === isActive)
+  );
+
+  const positioned = users
+    .map(user => ({ user, position: [getSortKey(user, sortBy), user.id] as [SortKey, string] }))
+    .sort((a, b) => compareSortKeys(a.position, b.position, sortOrder));
+  const remaining = after
+    ? positioned.filter(({ position }) => compareSortKeys(position, after, sortOrder) > 0)
+    : positioned;
+  const page = remaining.slice(0, limit);
+  const last = page.at(-1);
+
+  return {
+    users: page.map(({ user }) => user),
+    total: users.length,
+    nextCursor: last && remaining.length > limit ? encodeCursor(last.position) : null,
+  };
+}
+
+/**
+ * Strip credential secrets before returning a user from an API route
+ */
+export function sanitizeUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, twoFactor, ...publicUser } = user;
+  return { ...publicUser, twoFactorEnabled: !!twoFactor?.enabled };
+}
+
+/**
+ * Normalize an email for storage and lookup
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Register a new credentials account with a hashed password
+ */
+export async function registerCredentialsUser(data: {
+  email: string;
+  password: string;
+  name: string;
+}): Promise<User> {
+  const id = generateUserId();
+  const now = new Date();
+
+  return createUser({
+    id,
+    email: normalizeEmail(data.email),
+    name: data.name,
+    image: null,
+    username: null,
+    role: UserRole.USER,
+    provider: "credentials",
+    providerId: id,
+    isActive: true,
+    emailVerified: false,
+    passwordHash: await hashPassword(data.password),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Create a user from a bulk import row. The importing admin vouches for the
+ * email, so it counts as verified: the user signs in with a provider that has
+ * verified the same address, and that identity is linked automatically.
+ */
+export async function createImportedUser(record: UserTransferRecord): Promise<User> {
+  const id = generateUserId();
+  const now = new Date();
+
+  return createUser({
+    id,
+    email: normalizeEmail(record.email),
+    name: record.name,
+    image: null,
+    username: record.username,
+    role: record.role,
+    provider: null,
+    providerId: id,
+    isActive: record.isActive,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Create a user provisioned by the identity provider over SCIM. Like imported
+ * users, the email counts as verified and the user signs in through a provider
+ * that has verified the same address.
+ */
+export async function createProvisionedUser(data: {
+  email: string;
+  name: string | null;
+  externalId: string | null;
+  role: RoleName;
+  isActive: boolean;
+}): Promise<User> {
+  const id = generateUserId();
+  const now = new Date();
+
+  return createUser({
+    id,
+    email: normalizeEmail(data.email),
+    name: data.name,
+    image: null,
+    username: null,
+    role: data.role,
+    provider: null,
+    providerId: id,
+    externalId: data.externalId,
+    isActive: data.isActive,
+    emailVerified: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Verify email/password credentials. Returns the user on success, null otherwise.
+ */
+export async function verifyUserCredentials(email: string, password: string): Promise<User | null> {
+  try {
+    const user = await getUserByEmail(normalizeEmail(email));
+
+    if (!user?.passwordHash) {
+      return null;
+    }
+
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  } catch (error) {
+    console.error("Error verifying user credentials:", error);
+    return null;
+  }
+}
+
+/**
+ * Set a new password for a user
+ */
+export async function setUserPassword(id: string, password: string): Promise<User | null> {
+  try {
+    return await updateUser(id, {
+      passwordHash: await hashPassword(password),
+      updatedAt: new Date(),
+    });
+  } catch (error) {
+    console.error("Error setting user password:", error);
+    return null;
+  }
+}
+
 /**
  * Generate unique user ID
  */
@@ -275,7 +632,7 @@ export function validateUserData(userData: Partial<CreateUserData>): string[] {
 
   if (!userData.role) {
     errors.push("Role is required");
-  } else if (!Object.values(UserRole).includes(userData.role)) {
+  } else if (!isKnownRole(userData.role)) {
     errors.push("Invalid role");
   }
 
@@ -0,0 +1,331 @@
+import { WORKSPACES } from "@/lib/auth/constants";
+import { isKnownRole } from "@/lib/auth/role-registry";
+import { JsonStore } from "@/lib/storage/json-file";
+import {
+  UserRole,
+  type RoleName,
+  type User,
+  type Workspace,
+  type WorkspaceMembership,
+} from "@/types/auth";
+
+const DATE_FIELDS = new Set(["createdAt", "joinedAt"]);
+
+// Users only need what decides their default membership
+type MemberUser = Pick<User, "id" | "role" | "createdAt">;
+
+interface WorkspaceFile {
+  workspaces: Workspace[];
+  memberships: WorkspaceMembership[];
+}
+
+// Workspaces keyed by id and explicit memberships keyed by "<workspaceId>:<userId>"
+interface WorkspaceState {
+  workspaces: Map<string, Workspace>;
+  memberships: Map<string, WorkspaceMembership>;
+}
+
+const workspaceStore = new JsonStore<WorkspaceState, WorkspaceFile>({
+  file: { name: "workspaces.json", pathEnv: "WORKSPACE_STORE_PATH" },
+  dateFields: DATE_FIELDS,
+  parse: stored => {
+    const workspaces = new Map(stored?.workspaces.map(workspace => [workspace.id, workspace]));
+    const memberships = new Map(
+      stored?.memberships.map(membership => [
+        membershipKey(membership.workspaceId, membership.userId),
+        membership,
+      ])
+    );
+
+    if (!workspaces.has(WORKSPACES.DEFAULT_ID)) {
+      workspaces.set(WORKSPACES.DEFAULT_ID, {
+        id: WORKSPACES.DEFAULT_ID,
+        name: WORKSPACES.DEFAULT_NAME,
+        slug: WORKSPACES.DEFAULT_ID,
+        createdAt: new Date(),
+        createdBy: null,
+      });
+    }
+    return { workspaces, memberships };
+  },
+  serialize: state => ({
+    workspaces: Array.from(state.workspaces.values()),
+    memberships: Array.from(state.memberships.values()),
+  }),
+});
+
+function membershipKey(workspaceId: string, userId: string): string {
+  return `${workspaceId}:${userId}`;
+}
+
+function explicitMemberships(state: WorkspaceState, userId: string): WorkspaceMembership[] {
+  return Array.from(state.memberships.values()).filter(membership => membership.userId === userId);
+}
+
+/**
+ * Turn a workspace name into its URL-safe slug
+ */
+export function slugifyWorkspaceName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * List all workspaces, the default workspace first
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const { workspaces } = await workspaceStore.read();
+
+  const isDefault = (workspace: Workspace) => (workspace.id === WORKSPACES.DEFAULT_ID ? 0 : 1);
+  return Array.from(workspaces.values())
+    .sort((a, b) => isDefault(a) - isDefault(b) || a.name.localeCompare(b.name))
+    .map(workspace => ({ ...workspace }));
+}
+
+/**
+ * Get a workspace by id
+ */
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  const workspace = (await workspaceStore.read()).workspaces.get(id);
+  return workspace ? { ...workspace } : null;
+}
+
+/**
+ * Create a workspace. Throws when the name is empty or another workspace
+ * already has the same slug.
+ */
+export async function createWorkspace(data: {
+  name: string;
+  createdBy: string;
+}): Promise<Workspace> {
+  const name = data.name.trim();
+  const slug = slugifyWorkspaceName(name);
+  if (!slug) {
+    throw new Error("Workspace name must contain letters or digits");
+  }
+
+  const workspace: Workspace = {
+    id: `ws_${slug}`,
+    name,
+    slug,
+    createdAt: new Date(),
+    createdBy: data.createdBy,
+  };
+
+  await workspaceStore.change(({ workspaces }) => {
+    if (Array.from(workspaces.values()).some(existing => existing.slug === slug)) {
+      throw new Error("A workspace with this name already exists");
+    }
+    workspaces.set(workspace.id, workspace);
+  });
+  return { ...workspace };
+}
+
+/**
+ * Explicit members of a workspace. Users who belong to no workspace are
+ * implicit members of the default workspace and are not listed here.
+ */
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMembership[]> {
+  const { memberships } = await workspaceStore.read();
+
+  return Array.from(memberships.values())
+    .filter(membership => membership.workspaceId === workspaceId)
+    .map(membership => ({ ...membership }));
+}
+
+/**
+ * A user's workspace memberships. Users without any belong to the default
+ * workspace with their account role, so deployments that predate workspaces
+ * keep working unchanged.
+ */
+export async function listUserMemberships(user: MemberUser): Promise<WorkspaceMembership[]> {
+  const explicit = explicitMemberships(await workspaceStore.read(), user.id);
+  if (explicit.length > 0) {
+    return explicit.map(membership => ({ ...membership }));
+  }
+
+  return [
+    {
+      workspaceId: WORKSPACES.DEFAULT_ID,
+      userId: user.id,
+      role: user.role,
+      joinedAt: user.createdAt,
+    },
+  ];
+}
+
+/**
+ * The user's membership of a workspace, or null when they are not a member
+ */
+export async function getWorkspaceMembership(
+  user: MemberUser,
+  workspaceId: string
+): Promise<WorkspaceMembership | null> {
+  const userMemberships = await listUserMemberships(user);
+  return userMemberships.find(membership => membership.workspaceId === workspaceId) ?? null;
+}
+
+/**
+ * Keep the users who are members of a workspace, with their role there
+ */
+export async function filterWorkspaceMembers<T extends MemberUser>(
+  users: T[],
+  workspaceId: string
+): Promise<Array<T & { workspaceRole: RoleName }>> {
+  const members: Array<T & { workspaceRole: RoleName }> = [];
+
+  for (const user of users) {
+    const membership = await getWorkspaceMembership(user, workspaceId);
+    if (membership) {
+      members.push({ ...user, workspaceRole: membership.role });
+    }
+  }
+
+  return members;
+}
+
+/**
+ * The role a user has in a workspace, or null when they may not use it.
+ * Account admins administer the whole deployment, so they are admins of every
+ * workspace.
+ */
+export async function getWorkspaceRole(
+  user: MemberUser,
+  workspaceId: string
+): Promise<RoleName | null> {
+  if (!(await getWorkspace(workspaceId))) {
+    return null;
+  }
+  if (user.role === UserRole.ADMIN) {
+    return UserRole.ADMIN;
+  }
+
+  return (await getWorkspaceMembership(user, workspaceId))?.role ?? null;
+}
+
+/**
+ * Workspaces a user can switch to, with their role in each
+ */
+export async function listUserWorkspaces(
+  user: MemberUser
+): Promise<Array<{ workspace: Workspace; role: RoleName }>> {
+  const all = await listWorkspaces();
+  const result: Array<{ workspace: Workspace; role: RoleName }> = [];
+
+  for (const workspace of all) {
+    const role = await getWorkspaceRole(user, workspace.id);
+    if (role) {
+      result.push({ workspace, role });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pick the workspace a user acts in: the requested one when they may use it,
+ * otherwise their first workspace. Returns null when they belong to none.
+ */
+export async function resolveWorkspaceContext(
+  user: MemberUser,
+  requestedId?: string | null
+): Promise<{ workspaceId: string; workspaceRole: RoleName } | null> {
+  const requestedRole = requestedId ? await getWorkspaceRole(user, requestedId) : null;
+  if (requestedId && requestedRole) {
+    return { workspaceId: requestedId, workspaceRole: requestedRole };
+  }
+
+  const [first] = await listUserWorkspaces(user);
+  return first ? { workspaceId: first.workspace.id, workspaceRole: first.role } : null;
+}
+
+/**
+ * Set the active workspace on a request user (see resolveWorkspaceContext).
+ * Permissions resolved from the result use the workspace role.
+ */
+export async function applyWorkspaceContext<T extends MemberUser>(
+  user: T,
+  requestedId?: string | null
+): Promise<T & { workspaceId?: string; workspaceRole?: RoleName }> {
+  const context = await resolveWorkspaceContext(user, requestedId);
+  return context ? { ...user, ...context } : user;
+}
+
+/**
+ * Add a user to a workspace, or change their role there. Adding a user who
+ * had no memberships takes them out of the default workspace unless it is the
+ * one they are added to. Throws for unknown workspaces and roles.
+ */
+export async function setWorkspaceMember(
+  workspaceId: string,
+  userId: string,
+  role: RoleName
+): Promise<WorkspaceMembership> {
+  if (!isKnownRole(role)) {
+    throw new Error("Invalid role");
+  }
+
+  return workspaceStore.change(({ workspaces, memberships }) => {
+    if (!workspaces.has(workspaceId)) {
+      throw new Error("Workspace not found");
+    }
+
+    const key = membershipKey(workspaceId, userId);
+    const membership: WorkspaceMembership = {
+      workspaceId,
+      userId,
+      role,
+      joinedAt: memberships.get(key)?.joinedAt ?? new Date(),
+    };
+
+    memberships.set(key, membership);
+    return { ...membership };
+  });
+}
+
+/**
+ * Remove a user from a workspace. Returns false when they were not an explicit
+ * member. Throws when it is their last workspace, since a user without
+ * memberships would fall back into the default workspace.
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  return workspaceStore.change(
+    state => {
+      const key = membershipKey(workspaceId, userId);
+      if (!state.memberships.has(key)) {
+        return false;
+      }
+      if (
+        workspaceId !== WORKSPACES.DEFAULT_ID &&
+        explicitMemberships(state, userId).length === 1
+      ) {
+        throw new Error(
+          "Add the user to another workspace before removing them from their last one"
+        );
+      }
+
+      state.memberships.delete(key);
+      return true;
+    },
+    removed => removed
+  );
+}
+
+/**
+ * Forget every membership of a deleted user
+ */
+export async function removeUserMemberships(userId: string): Promise<void> {
+  await workspaceStore.change(
+    state => {
+      const owned = explicitMemberships(state, userId);
+      owned.forEach(membership =>
+        state.memberships.delete(membershipKey(membership.workspaceId, userId))
+      );
+      return owned.length;
+    },
+    removed => removed > 0
+  );
+}
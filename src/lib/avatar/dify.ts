@@ -0,0 +1,140 @@
+/**
+ * Dify API access for avatar conversations. Dify stores the conversations;
+ * each one belongs to the `user` string sent with the chat request.
+ */
+
+export const DIFY_API_URL = process.env.DIFY_API_URL || "http://dify.toho.vn/v1";
+export const DIFY_API_KEY = process.env.DIFY_API_KEY || "app-FXjGpAPSg6UmeXwc9kGOjJKZ";
+
+// Dify user for signed-out callers, whose conversations belong to no account
+export const ANONYMOUS_AVATAR_USER = "default-user";
+
+const PAGE_SIZE = 100;
+
+/**
+ * One avatar conversation with its messages, as included in data exports
+ */
+export interface AvatarConversationExport {
+  id: string;
+  name: string | null;
+  createdAt: string;
+  messages: Array<{ id: string; query: string; answer: string; createdAt: string }>;
+}
+
+interface DifyPage<T> {
+  data: T[];
+  has_more: boolean;
+}
+
+interface DifyConversation {
+  id: string;
+  name?: string;
+  created_at: number;
+}
+
+interface DifyMessage {
+  id: string;
+  query: string;
+  answer: string;
+  created_at: number;
+}
+
+async function difyRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${DIFY_API_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${DIFY_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Dify API error: ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+function toIsoString(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+async function listConversations(userId: string): Promise<DifyConversation[]> {
+  const conversations: DifyConversation[] = [];
+  let lastId: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ user: userId, limit: String(PAGE_SIZE) });
+    if (lastId) {
+      params.set("last_id", lastId);
+    }
+
+    const page = await difyRequest<DifyPage<DifyConversation>>(`/conversations?${params}`);
+    conversations.push(...page.data);
+    lastId = page.has_more ? page.data.at(-1)?.id : undefined;
+  } while (lastId);
+
+  return conversations;
+}
+
+async function listMessages(userId: string, conversationId: string): Promise<DifyMessage[]> {
+  const messages: DifyMessage[] = [];
+  let firstId: string | undefined;
+
+  // Messages are paged backwards from the newest
+  do {
+    const params = new URLSearchParams({
+      user: userId,
+      conversation_id: conversationId,
+      limit: String(PAGE_SIZE),
+    });
+    if (firstId) {
+      params.set("first_id", firstId);
+    }
+
+    const page = await difyRequest<DifyPage<DifyMessage>>(`/messages?${params}`);
+    messages.unshift(...page.data);
+    firstId = page.has_more ? page.data[0]?.id : undefined;
+  } while (firstId);
+
+  return messages;
+}
+
+/**
+ * All avatar conversations of a user with their messages. Throws when Dify
+ * cannot be reached.
+ */
+export async function getAvatarConversations(userId: string): Promise<AvatarConversationExport[]> {
+  const conversations = await listConversations(userId);
+
+  return Promise.all(
+    conversations.map(async conversation => ({
+      id: conversation.id,
+      name: conversation.name ?? null,
+      createdAt: toIsoString(conversation.created_at),
+      messages: (await listMessages(userId, conversation.id)).map(message => ({
+        id: message.id,
+        query: message.query,
+        answer: message.answer,
+        createdAt: toIsoString(message.created_at),
+      })),
+    }))
+  );
+}
+
+/**
+ * Delete every avatar conversation of a user. Returns how many were deleted;
+ * throws when Dify cannot be reached.
+ */
+export async function deleteAvatarConversations(userId: string): Promise<number> {
+  const conversations = await listConversations(userId);
+
+  for (const conversation of conversations) {
+    await difyRequest(`/conversations/${conversation.id}`, {
+      method: "DELETE",
+      body: JSON.stringify({ user: userId }),
+    });
+  }
+
+  return conversations.length;
+}
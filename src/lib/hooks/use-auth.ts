@@ -4,8 +4,13 @@ import { useCallback, useMemo } from "react";
 
 import { useSession } from "next-auth/react";
 
-import { hasPermission, hasAnyPermission, hasAllPermissions } from "@/lib/auth/permissions";
-import type { User, Permission } from "@/types/auth";
+import {
+  hasPermission,
+  hasAnyPermission,
+  hasAllPermissions,
+  hasHigherOrEqualRole,
+} from "@/lib/auth/permissions";
+import type { User, Permission, RoleName } from "@/types/auth";
 import { UserRole } from "@/types/auth";
 
 /**
@@ -58,18 +63,12 @@ export function useAuth() {
 
   // Role hierarchy checks
   const hasRoleOrHigher = useCallback(
-    (role: UserRole): boolean => {
+    (role: RoleName): boolean => {
       if (!user) {
         return false;
       }
 
-      const roleHierarchy = {
-        [UserRole.USER]: 1,
-        [UserRole.EDITOR]: 2,
-        [UserRole.ADMIN]: 3,
-      };
-
-      return roleHierarchy[user.role] >= roleHierarchy[role];
+      return hasHigherOrEqualRole(user.role, role);
     },
     [user]
   );
@@ -131,7 +130,7 @@ export function usePermissions(requiredPermissions: Permission[], requireAll = t
 /**
  * Hook for role-based component rendering
  */
-export function useRole(allowedRoles: UserRole[]) {
+export function useRole(allowedRoles: RoleName[]) {
   const { user, role, isLoading } = useAuth();
 
   const hasRole = useMemo(() => {
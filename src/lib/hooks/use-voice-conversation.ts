@@ -20,7 +20,6 @@ const isWebSpeechSupported =
   ("webkitSpeechRecognition" in window || "SpeechRecognition" in window);
 
 export interface UseVoiceConversationOptions {
-  userId?: string;
   voiceSettings?: VoiceSettings;
   onMessage?: (message: Message) => void;
   onError?: (error: Error) => void;
@@ -35,7 +34,6 @@ export function useVoiceConversation(
   options: UseVoiceConversationOptions = {}
 ): VoiceConversationState & VoiceConversationActions {
   const {
-    userId = "default-user",
     voiceSettings: initialVoiceSettings,
     onMessage,
     onError,
@@ -314,7 +312,6 @@ export function useVoiceConversation(
           body: JSON.stringify({
             message: text,
             conversationId,
-            userId,
           }),
         });
 
@@ -389,7 +386,7 @@ export function useVoiceConversation(
         throw err;
       }
     },
-    [conversationId, userId, onMessage]
+    [conversationId, onMessage]
   );
 
   /**
@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+import { createFileTransport, sendMail, setMailTransport } from "../mailer";
+
+describe("Mailer", () => {
+  afterEach(() => {
+    setMailTransport(null);
+    vi.restoreAllMocks();
+  });
+
+  it("should write messages as .eml files with the file transport", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "mail-"));
+    setMailTransport(createFileTransport(directory));
+
+    try {
+      expect(await sendMail({ to: "a@example.com", subject: "Hello", text: "Body" })).toBe(true);
+
+      const [fileName] = await fs.readdir(directory);
+      const eml = await fs.readFile(path.join(directory, fileName!), "utf8");
+      expect(eml).toContain("To: a@example.com");
+      expect(eml).toContain("Subject: Hello");
+      expect(eml.endsWith("\r\n\r\nBody")).toBe(true);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should report failed deliveries instead of throwing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setMailTransport({
+      name: "broken",
+      send: async () => {
+        throw new Error("SMTP down");
+      },
+    });
+
+    expect(await sendMail({ to: "a@example.com", subject: "Hello", text: "Body" })).toBe(false);
+  });
+});
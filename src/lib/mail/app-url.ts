@@ -0,0 +1,24 @@
+/**
+ * Base URL of the app for links sent by email, from AUTH_URL or NEXTAUTH_URL.
+ * Never taken from the request: clients choose the Host and Origin headers, so
+ * a link built from them could send a reset token to another site. Throws when
+ * neither is set rather than guessing.
+ */
+export function getAppBaseUrl(): string {
+  const baseUrl = process.env.AUTH_URL || process.env.NEXTAUTH_URL;
+  if (!baseUrl) {
+    throw new Error("Set AUTH_URL or NEXTAUTH_URL to send links by email");
+  }
+  return baseUrl;
+}
+
+/**
+ * Absolute link to a page of the app, for emails
+ */
+export function buildAppUrl(pathname: string, params: Record<string, string> = {}): string {
+  const url = new URL(pathname, getAppBaseUrl());
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+  return url.toString();
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { getDataFilePath } from "@/lib/storage/json-file";
+
+/**
+ * Outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers email. Add an SMTP or provider API transport by implementing send().
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints messages to the server log (local development)
+ */
+export const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message) {
+    // eslint-disable-next-line no-console
+    console.log(
+      `[MAIL] To: ${message.to}\nFrom: ${message.from}\nSubject: ${message.subject}\n\n${message.text}`
+    );
+  },
+};
+
+/**
+ * Writes each message as an .eml file, so mail can be inspected offline
+ */
+export function createFileTransport(directory = getDataFilePath("mail")): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      const sentAt = new Date();
+      const fileName = `${sentAt.toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, "_")}.eml`;
+      const eml = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${sentAt.toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        message.text,
+      ].join("\r\n");
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, fileName), eml, "utf8");
+    },
+  };
+}
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT ("console" or "file")
+ */
+export function createMailTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return createFileTransport(process.env.MAIL_FILE_DIR || undefined);
+    case "console":
+    case undefined:
+      return consoleTransport;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${process.env.MAIL_TRANSPORT}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the active mail transport (created on first use)
+ */
+export function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
+
+/**
+ * Replace the active mail transport (e.g. with a capturing transport in tests)
+ */
+export function setMailTransport(nextTransport: MailTransport | null): void {
+  transport = nextTransport;
+}
+
+/**
+ * Send an email. Returns false when delivery fails.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await getMailTransport().send({
+      ...message,
+      from: process.env.MAIL_FROM ?? "FE-Engine Prime <no-reply@localhost>",
+    });
+    return true;
+  } catch (error) {
+    console.error("Error sending mail:", error);
+    return false;
+  }
+}
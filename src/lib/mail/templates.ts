@@ -0,0 +1,84 @@
+import { EMAIL_VERIFICATION, PASSWORD_RESET } from "@/lib/auth/constants";
+import type { MailMessage } from "@/lib/mail/mailer";
+
+/**
+ * Password reset link
+ */
+export function passwordResetEmail(params: { to: string; resetUrl: string }): MailMessage {
+  return {
+    to: params.to,
+    subject: "Reset your FE-Engine Prime password",
+    text: [
+      "Someone asked to reset the password for your FE-Engine Prime account.",
+      "",
+      `Choose a new password: ${params.resetUrl}`,
+      "",
+      `The link works once and expires in ${PASSWORD_RESET.TOKEN_TTL / 60} minutes.`,
+      "If you did not ask for this, you can ignore this email.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Invitation to join with a preassigned role
+ */
+export function invitationEmail(params: {
+  to: string;
+  inviteUrl: string;
+  role: string;
+  invitedBy: string | null;
+  expiresAt: Date;
+}): MailMessage {
+  return {
+    to: params.to,
+    subject: "You have been invited to FE-Engine Prime",
+    text: [
+      `${params.invitedBy ?? "An administrator"} invited you to FE-Engine Prime as ${params.role}.`,
+      "",
+      `Accept the invitation: ${params.inviteUrl}`,
+      "",
+      `The link works once and expires on ${params.expiresAt.toUTCString()}.`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Link that confirms the user owns their email address
+ */
+export function emailVerificationEmail(params: { to: string; verifyUrl: string }): MailMessage {
+  return {
+    to: params.to,
+    subject: "Verify your FE-Engine Prime email address",
+    text: [
+      "Confirm that this is your email address to finish setting up your FE-Engine Prime account.",
+      "",
+      `Verify your email: ${params.verifyUrl}`,
+      "",
+      `The link works once and expires in ${EMAIL_VERIFICATION.TOKEN_TTL / 60 / 60} hours.`,
+      "If you did not create an account, you can ignore this email.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Outcome of a deactivated user's reactivation request
+ */
+export function reactivationDecisionEmail(params: {
+  to: string;
+  approved: boolean;
+  note: string | null;
+  loginUrl: string;
+}): MailMessage {
+  return {
+    to: params.to,
+    subject: params.approved
+      ? "Your FE-Engine Prime account has been reactivated"
+      : "Your FE-Engine Prime reactivation request was declined",
+    text: [
+      params.approved
+        ? `An administrator approved your request. You can sign in again: ${params.loginUrl}`
+        : "An administrator reviewed your request and your account will stay deactivated.",
+      ...(params.note ? ["", `Note from the administrator: ${params.note}`] : []),
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "../auth";
+import { Permission, UserRole, type User } from "@/types/auth";
+import { createUserWithPermissions } from "@/test/utils/user-fixtures";
+
+// Mock the auth function; permission checks and policies run for real
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+import { auth } from "@/lib/auth";
+
+describe("withAuth policy option", () => {
+  const handler = withAuth(async () => NextResponse.json({ success: true }), {
+    requiredPermissions: [Permission.UPDATE_CONTENT],
+    policy: {
+      action: Permission.UPDATE_CONTENT,
+      resource: request => ({
+        resource: "content:1",
+        metadata: { authorId: request.nextUrl.searchParams.get("author") },
+      }),
+    },
+  });
+
+  function signInAs(permissions: Permission[]) {
+    vi.mocked(auth).mockResolvedValue({ user: createUserWithPermissions(permissions) } as any);
+  }
+
+  it("should allow the author through the policy without the base permission", async () => {
+    signInAs([Permission.READ_CONTENT]);
+
+    const response = await handler(new NextRequest("http://localhost/api/content/1?author=1"));
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should reject other users with 403", async () => {
+    signInAs([Permission.READ_CONTENT]);
+
+    const response = await handler(new NextRequest("http://localhost/api/content/1?author=2"));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe("Insufficient permissions");
+  });
+
+  it("should return the failing rule when a require rule denies access", async () => {
+    const teamHandler = withAuth(async () => NextResponse.json({ success: true }), {
+      requiredPermissions: [Permission.UPDATE_USER],
+      policy: {
+        action: Permission.UPDATE_USER,
+        resource: () => ({ resource: "user:7", metadata: { teamId: "blue" } }),
+      },
+    });
+    vi.mocked(auth).mockResolvedValue({
+      user: createUserWithPermissions([Permission.UPDATE_USER], {
+        role: UserRole.EDITOR,
+        metadata: { teamId: "red" },
+      }),
+    } as any);
+
+    const response = await teamHandler(new NextRequest("http://localhost/api/users/7"));
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.rule).toBe("user.same-team");
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+
+import { getClientIp } from "../client-ip";
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("takes the hop added by the trusted proxy, not the ones the client sent", () => {
+    const headers = new Headers({ "x-forwarded-for": "10.9.9.9, 198.51.100.1, 203.0.113.7" });
+
+    expect(getClientIp(headers)).toBe("203.0.113.7");
+
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    expect(getClientIp(headers)).toBe("198.51.100.1");
+    expect(getClientIp(new Headers({ "x-forwarded-for": "203.0.113.7" }))).toBe("203.0.113.7");
+  });
+
+  it("falls back to X-Real-IP, and trusts neither header without a proxy", () => {
+    const headers = new Headers({ "x-real-ip": "203.0.113.7" });
+
+    expect(getClientIp(headers)).toBe("203.0.113.7");
+    expect(getClientIp(new Headers())).toBeUndefined();
+
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "0");
+    expect(getClientIp(headers)).toBeUndefined();
+  });
+});
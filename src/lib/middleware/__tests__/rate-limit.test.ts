@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+
+import { withAuth } from "../auth";
+import {
+  consumeRateLimit,
+  enforceRateLimitPolicies,
+  getRateLimitIdentity,
+  InMemoryRateLimitStore,
+  setRateLimitStore,
+  type RateLimitStore,
+} from "../rate-limit";
+
+import { createMockSession } from "@/test/utils/test-utils";
+
+vi.mock("@/lib/auth", () => ({
+  auth: vi.fn(),
+}));
+
+function request(path: string, init: { method?: string; headers?: Record<string, string> } = {}) {
+  return new NextRequest(`http://localhost${path}`, init);
+}
+
+function sessionFor(id: string) {
+  const session = createMockSession();
+  return { ...session, user: { ...session.user, id } };
+}
+
+async function consume(times: number, rule: Parameters<typeof consumeRateLimit>[1]) {
+  const results = [];
+  for (let i = 0; i < times; i++) {
+    results.push(await consumeRateLimit("test", rule));
+  }
+  return results;
+}
+
+describe("rate limiting", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-01T10:00:00Z"));
+    setRateLimitStore(new InMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setRateLimitStore(null);
+  });
+
+  describe("token bucket", () => {
+    const rule = { limit: 3, window: 60, algorithm: "token-bucket" as const };
+
+    it("allows a burst of `limit`, then refills evenly", async () => {
+      const results = await consume(4, rule);
+
+      expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+      expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+      expect(results[3]?.retryAfter).toBe(20);
+
+      vi.advanceTimersByTime(20_000);
+      expect((await consumeRateLimit("test", rule)).allowed).toBe(true);
+      expect((await consumeRateLimit("test", rule)).allowed).toBe(false);
+    });
+  });
+
+  describe("sliding window", () => {
+    const rule = { limit: 4, window: 60 };
+
+    it("allows `limit` requests per window", async () => {
+      const results = await consume(5, rule);
+
+      expect(results.map(result => result.allowed)).toEqual([true, true, true, true, false]);
+      expect(results[4]?.retryAfter).toBe(60 + 15);
+    });
+
+    it("counts the overlapping part of the previous window", async () => {
+      await consume(4, rule);
+
+      // Halfway into the next window, half of the previous requests still count
+      vi.advanceTimersByTime(90_000);
+      const results = await consume(3, rule);
+
+      expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+      expect(results[2]?.retryAfter).toBe(15);
+
+      vi.advanceTimersByTime(15_000);
+      expect((await consumeRateLimit("test", rule)).allowed).toBe(true);
+    });
+  });
+
+  it("keeps counters in the configured store", async () => {
+    const inner = new InMemoryRateLimitStore();
+    const store: RateLimitStore = { update: vi.fn((...args) => inner.update(...args)) };
+    setRateLimitStore(store);
+
+    await consumeRateLimit("shared:key", { limit: 1, window: 30 });
+
+    expect(store.update).toHaveBeenCalledWith("shared:key", 60, expect.any(Function));
+  });
+
+  it("identifies callers by API token, then user, then client address", () => {
+    const withToken = request("/api/users", {
+      headers: { authorization: "Bearer fep_secret", "x-forwarded-for": "203.0.113.7" },
+    });
+    const withAddress = request("/api/users", {
+      headers: { "x-forwarded-for": "198.51.100.9, 203.0.113.7" },
+    });
+
+    expect(getRateLimitIdentity(withToken, { id: "1" })).toMatch(/^token:[0-9a-f]{32}$/);
+    expect(getRateLimitIdentity(withToken, { id: "1" })).not.toContain("fep_secret");
+    // A bearer token nobody has verified does not pick the counter
+    expect(getRateLimitIdentity(withToken)).toBe("ip:203.0.113.7");
+    expect(getRateLimitIdentity(withAddress, { id: "1" })).toBe("user:1");
+    expect(getRateLimitIdentity(withAddress)).toBe("ip:203.0.113.7");
+  });
+
+  describe("route policies", () => {
+    it("answers 429 with Retry-After once a matching route's limit is used up", async () => {
+      const signIn = () =>
+        request("/api/auth/callback/credentials", {
+          method: "POST",
+          headers: { "x-forwarded-for": "203.0.113.7" },
+        });
+
+      for (let i = 0; i < 10; i++) {
+        expect(await enforceRateLimitPolicies(signIn())).toBeNull();
+      }
+      const response = await enforceRateLimitPolicies(signIn());
+
+      expect(response?.status).toBe(429);
+      expect(response?.headers.get("Retry-After")).toBe("66");
+      expect(response?.headers.get("X-RateLimit-Remaining")).toBe("0");
+      expect(await response?.json()).toEqual({ error: "Too many requests", retryAfter: 66 });
+
+      // Other addresses and methods are counted separately or not at all
+      const otherAddress = request("/api/auth/callback/credentials", {
+        method: "POST",
+        headers: { "x-forwarded-for": "198.51.100.1" },
+      });
+      expect(await enforceRateLimitPolicies(otherAddress)).toBeNull();
+      expect(await enforceRateLimitPolicies(request("/api/auth/callback/credentials"))).toBeNull();
+    });
+
+    it("counts by client address whatever bearer token or forwarded hops are sent", async () => {
+      const chat = (i: number) =>
+        request("/api/avatar/chat", {
+          method: "POST",
+          headers: {
+            authorization: `Bearer random-${i}`,
+            "x-forwarded-for": `192.0.2.${i}, 203.0.113.7`,
+          },
+        });
+
+      const statuses = [];
+      for (let i = 0; i < 21; i++) {
+        statuses.push((await enforceRateLimitPolicies(chat(i)))?.status ?? 200);
+      }
+
+      expect(statuses.slice(0, 20).every(status => status === 200)).toBe(true);
+      expect(statuses[20]).toBe(429);
+    });
+
+    it("gives callers without a client address one shared, higher limit", async () => {
+      const signIn = (headers: Record<string, string> = {}) =>
+        request("/api/auth/callback/credentials", { method: "POST", headers });
+
+      for (let i = 0; i < 100; i++) {
+        expect(await enforceRateLimitPolicies(signIn())).toBeNull();
+      }
+      const response = await enforceRateLimitPolicies(signIn());
+
+      expect(response?.status).toBe(429);
+      expect(response?.headers.get("X-RateLimit-Limit")).toBe("100");
+      expect(
+        await enforceRateLimitPolicies(signIn({ "x-forwarded-for": "203.0.113.7" }))
+      ).toBeNull();
+    });
+
+    it("lets requests through when the store fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      setRateLimitStore({ update: vi.fn().mockRejectedValue(new Error("connection refused")) });
+
+      expect(
+        await enforceRateLimitPolicies(request("/api/avatar/chat", { method: "POST" }))
+      ).toBeNull();
+    });
+  });
+
+  describe("withAuth", () => {
+    it("limits each signed-in user separately", async () => {
+      const { auth } = await import("@/lib/auth");
+      const handler = withAuth(async () => NextResponse.json({ ok: true }), {
+        rateLimit: { name: "test-route", limit: 2, window: 60 },
+      });
+
+      vi.mocked(auth).mockResolvedValue(sessionFor("1") as any);
+      const statuses = [];
+      for (let i = 0; i < 3; i++) {
+        statuses.push((await handler(request("/api/test"))).status);
+      }
+
+      vi.mocked(auth).mockResolvedValue(sessionFor("2") as any);
+      statuses.push((await handler(request("/api/test"))).status);
+
+      expect(statuses).toEqual([200, 200, 429, 200]);
+    });
+  });
+});
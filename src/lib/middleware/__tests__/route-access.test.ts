@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { evaluateRouteAccess, loadRouteAccessSubject } from "../route-access";
+import { InMemoryUserRepository, setUserRepository } from "@/lib/auth/user-repository";
+import { createUser } from "@/lib/auth/user-service";
+import { createWorkspace, setWorkspaceMember } from "@/lib/auth/workspaces";
+import { Permission, UserRole, type User } from "@/types/auth";
+
+const member: User = {
+  id: "member-1",
+  email: "member@example.com",
+  role: UserRole.USER,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("evaluateRouteAccess", () => {
+  it("runs no checks on public routes", async () => {
+    const decision = await evaluateRouteAccess("/api/auth/session", null);
+
+    expect(decision).toMatchObject({ matchedPattern: "/api/auth/.*", allowed: true, checks: [] });
+  });
+
+  it("sends signed-out page requests to the login page", async () => {
+    const decision = await evaluateRouteAccess("/dashboard", null);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.denial).toEqual({
+      check: "authentication",
+      status: 401,
+      error: "Authentication required",
+      redirectTo: "/login",
+    });
+  });
+
+  it("explains a role failure on the admin console", async () => {
+    const editor: User = { ...member, role: UserRole.EDITOR };
+    const decision = await evaluateRouteAccess("/admin", editor);
+
+    expect(decision.checks.map(check => [check.name, check.passed])).toEqual([
+      ["authentication", true],
+      ["active", true],
+      ["emailVerification", true],
+      ["twoFactorSetup", true],
+      ["role", false],
+    ]);
+    expect(decision.checks.at(-1)?.detail).toBe("Admin route; account role is EDITOR");
+    expect(decision.denial).toMatchObject({ status: 403, error: "Admin access required" });
+  });
+
+  it("lists the permissions the user is missing", async () => {
+    const restricted: User = {
+      ...member,
+      permissionOverrides: { granted: [], revoked: [Permission.ACCESS_API] },
+    };
+    const decision = await evaluateRouteAccess("/api/widgets", restricted);
+
+    expect(decision.requiredPermissions).toEqual([Permission.ACCESS_API]);
+    expect(decision.missingPermissions).toEqual([Permission.ACCESS_API]);
+    expect(decision.userPermissions).not.toContain(Permission.ACCESS_API);
+    expect(decision.denial).toMatchObject({ check: "permissions", redirectTo: "/dashboard" });
+  });
+
+  it("lets routes open during a gate through it", async () => {
+    const gates = { twoFactorSetupRequired: true };
+
+    expect((await evaluateRouteAccess("/profile", member, gates)).allowed).toBe(true);
+    expect((await evaluateRouteAccess("/dashboard", member, gates)).denial).toMatchObject({
+      check: "twoFactorSetup",
+      redirectTo: "/profile?twoFactorSetup=required",
+    });
+  });
+});
+
+describe("loadRouteAccessSubject", () => {
+  beforeEach(() => {
+    setUserRepository(new InMemoryUserRepository());
+  });
+
+  it("loads the user with their workspace role and sign-in gates", async () => {
+    const now = new Date();
+    const user = await createUser({
+      id: "access_subject",
+      email: "access_subject@example.com",
+      name: "Subject",
+      image: null,
+      username: null,
+      role: UserRole.USER,
+      provider: "credentials",
+      providerId: "access_subject",
+      isActive: true,
+      emailVerified: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const workspace = await createWorkspace({ name: "Access Explain", createdBy: "1" });
+    await setWorkspaceMember(workspace.id, user.id, UserRole.EDITOR);
+
+    const subject = await loadRouteAccessSubject(user.id, workspace.id);
+
+    expect(subject?.user).toMatchObject({ workspaceId: workspace.id, workspaceRole: "EDITOR" });
+    expect(subject?.user.permissions).toContain(Permission.PUBLISH_CONTENT);
+    expect(subject?.gates).toEqual({
+      emailVerificationRequired: true,
+      twoFactorSetupRequired: false,
+    });
+    expect(await loadRouteAccessSubject("missing")).toBeNull();
+  });
+});
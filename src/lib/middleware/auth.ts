@@ -2,9 +2,21 @@ import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
 
 import { auth } from "@/lib/auth";
-import { hasPermission, checkPermission } from "@/lib/auth/permissions";
-import type { User, PermissionContext } from "@/types/auth";
-import { Permission } from "@/types/auth";
+import { authenticateApiToken, getBearerToken } from "@/lib/auth/api-tokens";
+import { WORKSPACES } from "@/lib/auth/constants";
+import { checkPermission, hasPermission } from "@/lib/auth/permissions";
+import { limitRequest, type NamedRateLimitRule } from "@/lib/middleware/rate-limit";
+import { matchesPattern, resolveRoute, routeManifest } from "@/lib/navigation/route-manifest";
+import type { User, PermissionContext, Permission } from "@/types/auth";
+import type { RouteDefinition } from "@/types/navigation";
+
+/**
+ * Resource a request acts on, as passed to checkPermission
+ */
+export interface PolicyResource {
+  resource: string; // "<type>:<id>", e.g. "user:42"
+  metadata?: Record<string, any>;
+}
 
 /**
  * Authentication middleware options
@@ -14,6 +26,37 @@ interface AuthMiddlewareOptions {
   requireAll?: boolean; // If true, user must have ALL permissions; if false, ANY permission
   redirectTo?: string;
   allowUnauthenticated?: boolean;
+  // Resource-level check for one action, evaluated through checkPermission and its
+  // policy rules. The action is then not checked again via requiredPermissions.
+  // Returning null from resource() skips the check (e.g. to let the handler 404).
+  policy?: {
+    action: Permission;
+    resource: (
+      request: NextRequest,
+      user: User
+    ) => PolicyResource | null | Promise<PolicyResource | null>;
+  };
+  // Requests allowed per caller (API token, else user, else IP address), checked
+  // after authentication. Answers 429 with Retry-After once exceeded.
+  rateLimit?: NamedRateLimitRule;
+}
+
+/**
+ * Resolve the caller of a request. A personal access token in the
+ * Authorization header takes precedence over the session cookie; an invalid
+ * token does not fall back to the cookie. Either way the user carries the
+ * active workspace and permissions from their role there: token callers pick
+ * the workspace with the x-workspace-id header, sessions with the switcher.
+ */
+export async function getRequestUser(request: NextRequest): Promise<User | undefined> {
+  const bearerToken = getBearerToken(request.headers);
+  if (bearerToken) {
+    const workspaceId = request.headers.get(WORKSPACES.HEADER);
+    return (await authenticateApiToken(bearerToken, workspaceId)) ?? undefined;
+  }
+
+  const session = await auth();
+  return session?.user as User | undefined;
 }
 
 /**
@@ -22,8 +65,7 @@ interface AuthMiddlewareOptions {
 export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
   return async function authMiddleware(request: NextRequest) {
     try {
-      const session = await auth();
-      const user = session?.user as User | undefined;
+      const user = await getRequestUser(request);
 
       // Check if authentication is required
       if (!options.allowUnauthenticated && !user) {
@@ -35,6 +77,14 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
         return NextResponse.json({ error: "Account is inactive" }, { status: 403 });
       }
 
+      // Check the caller's rate limit
+      if (options.rateLimit) {
+        const limited = await limitRequest(request, options.rateLimit, user);
+        if (limited) {
+          return limited;
+        }
+      }
+
       // Check permissions if required
       if (options.requiredPermissions && options.requiredPermissions.length > 0 && user) {
         const permissionResults = await Promise.all(
@@ -63,6 +113,9 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
         response.headers.set("x-user-id", user.id);
         response.headers.set("x-user-role", user.role);
         response.headers.set("x-user-permissions", JSON.stringify(user.permissions || []));
+        if (user.workspaceId) {
+          response.headers.set(WORKSPACES.HEADER, user.workspaceId);
+        }
       }
 
       return response;
@@ -95,8 +148,7 @@ export function withAuth<T = any>(
 ) {
   return async function wrappedHandler(request: NextRequest): Promise<NextResponse<T>> {
     try {
-      const session = await auth();
-      const user = session?.user as User | undefined;
+      const user = await getRequestUser(request);
 
       // Check authentication
       if (!user) {
@@ -114,10 +166,45 @@ export function withAuth<T = any>(
         ) as NextResponse<T>;
       }
 
+      // Check the caller's rate limit
+      if (options.rateLimit) {
+        const limited = await limitRequest(request, options.rateLimit, user);
+        if (limited) {
+          return limited as NextResponse<T>;
+        }
+      }
+
+      // Check resource policy
+      const { policy } = options;
+      const policyResource = policy ? await policy.resource(request, user) : null;
+
+      if (policy && policyResource) {
+        const result = await checkPermission({
+          user,
+          action: policy.action,
+          resource: policyResource.resource,
+          metadata: policyResource.metadata,
+        });
+
+        if (!result.granted) {
+          return NextResponse.json(
+            {
+              error: result.reason ?? "Insufficient permissions",
+              ...(result.rule && { rule: result.rule }),
+            },
+            { status: 403 }
+          ) as NextResponse<T>;
+        }
+      }
+
       // Check permissions
-      if (options.requiredPermissions && options.requiredPermissions.length > 0) {
+      const requiredPermissions = policyResource
+        ? options.requiredPermissions?.filter(permission => permission !== policy?.action)
+        : options.requiredPermissions;
+
+      if (requiredPermissions && requiredPermissions.length > 0) {
         const permissionResults = await Promise.all(
-          options.requiredPermissions.map(permission => hasPermission(user, permission))
+          requiredPermissions.map(permission => hasPermission(user, permission))
         );
 
         const hasRequiredPermissions = options.requireAll
@@ -147,49 +234,6 @@ export function withAuth<T = any>(
   };
 }
 
-/**
- * Role-based access control decorator
- */
-export function requireRole(role: string) {
-  return function (target: any, propertyName: string, descriptor: PropertyDescriptor) {
-    const method = descriptor.value;
-    descriptor.value = async function (...args: any[]) {
-      const session = await auth();
-      const user = session?.user as User | undefined;
-
-      if (!user || user.role !== role) {
-        throw new Error(`Access denied. Required role: ${role}`);
-      }
-
-      return method.apply(this, args);
-    };
-  };
-}
-
-/**
- * Permission-based access control decorator
- */
-export function requirePermission(permission: Permission) {
-  return function (target: any, propertyName: string, descriptor: PropertyDescriptor) {
-    const method = descriptor.value;
-    descriptor.value = async function (...args: any[]) {
-      const session = await auth();
-      const user = session?.user as User | undefined;
-
-      if (!user) {
-        throw new Error("Authentication required");
-      }
-
-      const hasRequiredPermission = await hasPermission(user, permission);
-      if (!hasRequiredPermission) {
-        throw new Error(`Access denied. Required permission: ${permission}`);
-      }
-
-      return method.apply(this, args);
-    };
-  };
-}
-
 /**
  * Get user from request headers (set by middleware)
  */
@@ -197,6 +241,7 @@ export function getUserFromHeaders(request: NextRequest): Partial<User> | null {
   const userId = request.headers.get("x-user-id");
   const userRole = request.headers.get("x-user-role");
   const userPermissions = request.headers.get("x-user-permissions");
+  const workspaceId = request.headers.get(WORKSPACES.HEADER);
 
   if (!userId || !userRole) {
     return null;
@@ -206,21 +251,22 @@ export function getUserFromHeaders(request: NextRequest): Partial<User> | null {
     id: userId,
     role: userRole as any,
     permissions: userPermissions ? JSON.parse(userPermissions) : [],
+    ...(workspaceId && { workspaceId }),
   };
 }
 
 /**
- * Check permission for a specific context
+ * Check permission for a specific context.
+ * Pass the resource as "<type>:<id>" and its attributes as metadata so policy rules apply.
  */
 export async function checkContextPermission(
   request: NextRequest,
   action: Permission,
-  resourceId?: string,
+  resource?: string,
   metadata?: Record<string, any>
-): Promise<{ allowed: boolean; reason?: string }> {
+): Promise<{ allowed: boolean; reason?: string; rule?: string }> {
   try {
-    const session = await auth();
-    const user = session?.user as User | undefined;
+    const user = await getRequestUser(request);
 
     if (!user) {
       return { allowed: false, reason: "Authentication required" };
@@ -229,7 +275,7 @@ export async function checkContextPermission(
     const context: PermissionContext = {
       user,
       action,
-      resource: resourceId,
+      resource,
       metadata,
     };
 
@@ -237,6 +283,7 @@ export async function checkContextPermission(
     return {
       allowed: result.granted,
       reason: result.reason,
+      rule: result.rule,
     };
   } catch (error) {
     console.error("Error checking context permission:", error);
@@ -244,72 +291,36 @@ export async function checkContextPermission(
   }
 }
 
+function patternsWhere(predicate: (route: RouteDefinition) => boolean): string[] {
+  return routeManifest.filter(predicate).map(route => route.pattern);
+}
+
 /**
- * Middleware configuration for common routes
+ * Route patterns by access level, derived from the route manifest. The first
+ * matching manifest entry decides a path's access, so use resolveRoute when
+ * lists overlap.
  */
 export const authRoutes = {
-  // Public routes (no authentication required)
-  // Note: "/" removed - now handled in middleware with auth check (FE-229)
-  public: [
-    "/login",
-    "/auth/signin",
-    "/auth/signup",
-    "/auth/error",
-    "/api/health",
-    "/api/auth/.*",
-    "/avatar-demo",
-    "/api/avatar/.*",
-    "/demo/.*",
-  ],
-
-  // Protected routes (authentication required)
-  protected: ["/dashboard", "/profile", "/settings"],
-
-  // Admin routes (admin role required)
-  admin: ["/admin", "/dashboard/users", "/dashboard/settings", "/api/admin/.*"],
-
-  // Editor routes (editor role or higher required)
-  editor: ["/editor", "/dashboard/content", "/api/content/.*"],
+  public: patternsWhere(route => route.access === "public"),
+  protected: patternsWhere(route => route.access === "protected"),
+  admin: patternsWhere(route => route.access === "admin"),
+  editor: patternsWhere(route => route.access === "editor"),
+  twoFactorSetup: patternsWhere(route => route.allowDuring?.includes("twoFactorSetup") ?? false),
+  emailVerification: patternsWhere(
+    route => route.allowDuring?.includes("emailVerification") ?? false
+  ),
 };
 
 /**
  * Check if a path matches any of the given patterns
  */
 export function matchesPath(path: string, patterns: string[]): boolean {
-  return patterns.some(pattern => {
-    const regex = new RegExp(`^${pattern.replace(/\*/g, ".*")}$`);
-    return regex.test(path);
-  });
+  return patterns.some(pattern => matchesPattern(path, pattern));
 }
 
 /**
  * Get required permissions for a specific route
  */
 export function getRoutePermissions(path: string): Permission[] {
-  // Admin routes
-  if (matchesPath(path, ["/admin", "/dashboard/users", "/api/admin/.*"])) {
-    return [Permission.MANAGE_SYSTEM_SETTINGS, Permission.MANAGE_USER_ROLES];
-  }
-
-  // User management routes
-  if (matchesPath(path, ["/dashboard/users", "/api/users/.*"])) {
-    return [Permission.READ_USER, Permission.UPDATE_USER];
-  }
-
-  // Content management routes
-  if (matchesPath(path, ["/dashboard/content", "/api/content/.*"])) {
-    return [Permission.READ_CONTENT, Permission.UPDATE_CONTENT];
-  }
-
-  // Dashboard routes
-  if (matchesPath(path, ["/dashboard"])) {
-    return [Permission.VIEW_DASHBOARD];
-  }
-
-  // API routes
-  if (matchesPath(path, ["/api/.*"])) {
-    return [Permission.ACCESS_API];
-  }
-
-  return [];
+  return resolveRoute(path).permissions ?? [];
 }
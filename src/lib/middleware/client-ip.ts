@@ -0,0 +1,34 @@
+/**
+ * Number of reverse proxies in front of the app that append to X-Forwarded-For,
+ * from TRUSTED_PROXY_COUNT. Defaults to 1 (Vercel, or a single nginx).
+ */
+function getTrustedProxyCount(): number {
+  const count = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? "", 10);
+  return Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+/**
+ * Address of the client that sent a request, for rate limits, lockouts and the
+ * audit log. Clients can put any addresses at the start of X-Forwarded-For;
+ * each proxy appends the address it received the request from, so only the
+ * hop added by the outermost trusted proxy identifies the client. Undefined
+ * when no trusted proxy reported one.
+ */
+export function getClientIp(headers: Headers): string | undefined {
+  const trustedProxies = getTrustedProxyCount();
+  if (trustedProxies === 0) {
+    return undefined;
+  }
+
+  const hops = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) {
+    // Fewer hops than proxies: the request skipped the outer ones, and the
+    // first hop was added by a trusted proxy
+    return hops[Math.max(0, hops.length - trustedProxies)];
+  }
+
+  return headers.get("x-real-ip")?.trim() || undefined;
+}
@@ -0,0 +1,368 @@
+import { createHash } from "crypto";
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import { getBearerToken } from "@/lib/auth/api-tokens";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { matchesPattern } from "@/lib/navigation/route-manifest";
+import type { User } from "@/types/auth";
+
+/**
+ * A token bucket holds `limit` tokens and refills evenly over `window`, so it
+ * allows a burst of `limit` requests and then a steady rate. A sliding window
+ * allows `limit` requests in any `window`, estimated from the counts of the
+ * current and previous fixed windows.
+ */
+export type RateLimitAlgorithm = "token-bucket" | "sliding-window";
+
+export interface RateLimitRule {
+  limit: number;
+  window: number; // seconds
+  algorithm?: RateLimitAlgorithm; // sliding-window by default
+  // Shared by every caller without a client address; 10 times `limit` by default
+  unknownClientLimit?: number;
+}
+
+export interface NamedRateLimitRule extends RateLimitRule {
+  name: string; // Counter namespace; rules with the same name share counters
+}
+
+/**
+ * A rate limit applied by the middleware to requests matching a path pattern
+ */
+export interface RateLimitPolicy extends NamedRateLimitRule {
+  pattern: string; // As in the route manifest
+  methods?: string[]; // Every method when omitted
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // Seconds until a request is allowed again (0 when allowed)
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+interface SlidingWindowState {
+  windowStart: number; // ms
+  count: number;
+  previousCount: number;
+}
+
+export type RateLimitState = TokenBucketState | SlidingWindowState;
+
+/**
+ * Counter storage. A store shared between server instances (e.g. Redis) must
+ * run update() atomically per key, for example as an optimistic transaction
+ * that retries `apply` when the key changed underneath it.
+ */
+export interface RateLimitStore {
+  update(
+    key: string,
+    ttl: number, // seconds the state is kept after this update
+    apply: (current: RateLimitState | null) => RateLimitState
+  ): Promise<RateLimitState>;
+}
+
+/**
+ * In-memory store - counters are per server instance and lost on restart
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  async update(
+    key: string,
+    ttl: number,
+    apply: (current: RateLimitState | null) => RateLimitState
+  ): Promise<RateLimitState> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const state = apply(entry && entry.expiresAt > now ? entry.state : null);
+
+    // Re-inserting keeps the map ordered from least to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, { state, expiresAt: now + ttl * 1000 });
+    if (this.entries.size > this.maxEntries) {
+      this.prune(now);
+    }
+
+    return state;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the active rate limit store (in-memory unless replaced)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= new InMemoryRateLimitStore();
+  return store;
+}
+
+/**
+ * Replace the active rate limit store, e.g. with a shared one in multi-instance
+ * deployments. Passing null goes back to a fresh in-memory store.
+ */
+export function setRateLimitStore(nextStore: RateLimitStore | null): void {
+  store = nextStore;
+}
+
+/**
+ * Limits applied by middleware.ts, before the caller is known. The first entry
+ * matching a request applies; counters are kept per client address.
+ */
+export const rateLimitPolicies: RateLimitPolicy[] = [
+  // Credential sign-in, on top of the per-account lockouts in login-throttle
+  {
+    name: "sign-in",
+    pattern: "/api/auth/callback/credentials",
+    methods: ["POST"],
+    limit: 10,
+    window: 60,
+  },
+  // Endpoints that send email
+  {
+    name: "auth-email",
+    pattern: "/api/auth/(signup|forgot-password|reset-password|reactivation|verify-email/resend)",
+    methods: ["POST"],
+    limit: 5,
+    window: 15 * 60,
+  },
+  // Public proxies to paid providers
+  {
+    name: "avatar-chat",
+    pattern: "/api/avatar/chat",
+    methods: ["POST"],
+    limit: 20,
+    window: 60,
+    algorithm: "token-bucket",
+  },
+  {
+    name: "avatar-tts",
+    pattern: "/api/avatar/tts(-hf)?",
+    methods: ["POST"],
+    limit: 30,
+    window: 60,
+    algorithm: "token-bucket",
+  },
+];
+
+function consumeToken(
+  current: TokenBucketState | null,
+  rule: RateLimitRule,
+  now: number
+): { state: TokenBucketState; result: RateLimitResult } {
+  const refillPerMs = rule.limit / (rule.window * 1000);
+  const tokens = current
+    ? Math.min(rule.limit, current.tokens + (now - current.updatedAt) * refillPerMs)
+    : rule.limit;
+
+  if (tokens >= 1) {
+    return {
+      state: { tokens: tokens - 1, updatedAt: now },
+      result: {
+        allowed: true,
+        limit: rule.limit,
+        remaining: Math.floor(tokens - 1),
+        retryAfter: 0,
+      },
+    };
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      limit: rule.limit,
+      remaining: 0,
+      retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000),
+    },
+  };
+}
+
+function countInWindow(
+  current: SlidingWindowState | null,
+  rule: RateLimitRule,
+  now: number
+): { state: SlidingWindowState; result: RateLimitResult } {
+  const windowMs = rule.window * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previousCount = 0;
+  if (current?.windowStart === windowStart) {
+    ({ count, previousCount } = current);
+  } else if (current?.windowStart === windowStart - windowMs) {
+    previousCount = current.count;
+  }
+
+  // The previous window counts for the part of it still inside the sliding window
+  const elapsed = now - windowStart;
+  const estimate = previousCount * (1 - elapsed / windowMs) + count;
+
+  if (estimate + 1 <= rule.limit) {
+    return {
+      state: { windowStart, count: count + 1, previousCount },
+      result: {
+        allowed: true,
+        limit: rule.limit,
+        remaining: Math.floor(rule.limit - estimate - 1),
+        retryAfter: 0,
+      },
+    };
+  }
+
+  // When the previous window's share has dropped enough, or else once this
+  // window's requests have slid far enough into the past
+  let waitMs: number;
+  if (count + 1 <= rule.limit) {
+    waitMs = windowMs * (1 - (rule.limit - count - 1) / previousCount) - elapsed;
+  } else {
+    waitMs = windowMs - elapsed + windowMs * (1 - (rule.limit - 1) / count);
+  }
+
+  return {
+    state: { windowStart, count, previousCount },
+    result: {
+      allowed: false,
+      limit: rule.limit,
+      remaining: 0,
+      retryAfter: Math.max(1, Math.ceil(waitMs / 1000)),
+    },
+  };
+}
+
+/**
+ * Count a request against `rule` under `key`
+ */
+export async function consumeRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  let result: RateLimitResult | undefined;
+
+  await getRateLimitStore().update(key, rule.window * 2, current => {
+    const now = Date.now();
+    const applied =
+      rule.algorithm === "token-bucket"
+        ? consumeToken(current as TokenBucketState | null, rule, now)
+        : countInWindow(current as SlidingWindowState | null, rule, now);
+    result = applied.result;
+    return applied.state;
+  });
+
+  if (!result) {
+    throw new Error("Rate limit store did not apply the update");
+  }
+  return result;
+}
+
+// Callers getClientIp cannot place, e.g. behind a proxy that sends no X-Forwarded-For
+const UNKNOWN_CLIENT = "ip:unknown";
+const UNKNOWN_CLIENT_LIMIT_FACTOR = 10;
+
+/**
+ * Who a request is counted against. For an authenticated caller, the API token
+ * they signed in with, else their user id; tokens are hashed so they are never
+ * stored. Everyone else is counted by client address, so a made-up bearer
+ * token cannot open a fresh counter.
+ */
+export function getRateLimitIdentity(request: NextRequest, user?: Pick<User, "id"> | null): string {
+  if (user) {
+    const token = getBearerToken(request.headers);
+    return token
+      ? `token:${createHash("sha256").update(token).digest("hex").slice(0, 32)}`
+      : `user:${user.id}`;
+  }
+  const ipAddress = getClientIp(request.headers);
+  return ipAddress ? `ip:${ipAddress}` : UNKNOWN_CLIENT;
+}
+
+/**
+ * Headers describing a rate limit result
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+/**
+ * Count a request against a named rule for its caller. Pass the user only once
+ * their session or API token has been verified. Callers without a client
+ * address share one counter, with the rule's higher unknownClientLimit so they
+ * do not lock each other out. Returns the 429 response when the limit is
+ * exceeded, or null to continue. Store failures let the request through rather
+ * than taking the route down.
+ */
+export async function limitRequest(
+  request: NextRequest,
+  rule: NamedRateLimitRule,
+  user?: Pick<User, "id"> | null
+): Promise<NextResponse | null> {
+  try {
+    const identity = getRateLimitIdentity(request, user);
+    const result = await consumeRateLimit(
+      `${rule.name}:${identity}`,
+      identity === UNKNOWN_CLIENT
+        ? { ...rule, limit: rule.unknownClientLimit ?? rule.limit * UNKNOWN_CLIENT_LIMIT_FACTOR }
+        : rule
+    );
+    if (result.allowed) {
+      return null;
+    }
+
+    return NextResponse.json(
+      { error: "Too many requests", retryAfter: result.retryAfter },
+      { status: 429, headers: getRateLimitHeaders(result) }
+    );
+  } catch (error) {
+    console.error("Rate limit store error:", error);
+    return null;
+  }
+}
+
+/**
+ * Apply the first policy matching the request, for middleware.ts. Policies run
+ * before authentication, so they always count by client address.
+ */
+export function enforceRateLimitPolicies(
+  request: NextRequest,
+  policies: RateLimitPolicy[] = rateLimitPolicies
+): Promise<NextResponse | null> {
+  const { pathname } = request.nextUrl;
+  const policy = policies.find(
+    candidate =>
+      matchesPattern(pathname, candidate.pattern) &&
+      (!candidate.methods || candidate.methods.includes(request.method))
+  );
+
+  return policy ? limitRequest(request, policy) : Promise.resolve(null);
+}
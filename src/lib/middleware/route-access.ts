@@ -0,0 +1,178 @@
+import { getEffectiveRole, hasPermission, resolveUserPermissions } from "@/lib/auth/permissions";
+import { ensureRolesLoaded } from "@/lib/auth/role-service";
+import { needsTwoFactorSetup } from "@/lib/auth/two-factor";
+import { getUserById } from "@/lib/auth/user-service";
+import { applyWorkspaceContext } from "@/lib/auth/workspaces";
+import {
+  hasRouteAccess,
+  isAllowedDuring,
+  resolveRoute,
+  routeManifest,
+} from "@/lib/navigation/route-manifest";
+import type { User } from "@/types/auth";
+import type { RouteAccess, RouteAccessDecision, RouteCheck, RouteDenial } from "@/types/navigation";
+
+/**
+ * Gates the session holds a signed-in user at until they act
+ */
+export interface RouteGates {
+  emailVerificationRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+}
+
+const ROLE_DENIALS: Partial<Record<RouteAccess, string>> = {
+  admin: "Admin access required",
+  editor: "Editor access required",
+};
+
+/**
+ * Decide whether a user may open a path, recording every check on the way.
+ * The middleware enforces this decision, so it is also what explains one.
+ * Public routes and the root redirect are handled before any check runs.
+ */
+export async function evaluateRouteAccess(
+  path: string,
+  user: User | null,
+  gates: RouteGates = {}
+): Promise<RouteAccessDecision> {
+  const route = resolveRoute(path);
+  const requiredPermissions = route.permissions ?? [];
+  const decision: RouteAccessDecision = {
+    path,
+    matchedPattern: routeManifest.includes(route) ? route.pattern : null,
+    access: route.access,
+    requiredPermissions,
+    accountRole: user?.role ?? null,
+    effectiveRole: user ? getEffectiveRole(user) : null,
+    userPermissions: user ? (user.permissions ?? resolveUserPermissions(user)) : [],
+    missingPermissions: [],
+    checks: [],
+    allowed: true,
+  };
+
+  const pass = (name: RouteCheck["name"], detail: string) => {
+    decision.checks.push({ name, passed: true, detail });
+  };
+  const deny = (detail: string, denial: RouteDenial) => {
+    decision.checks.push({ name: denial.check, passed: false, detail });
+    decision.allowed = false;
+    decision.denial = denial;
+    return decision;
+  };
+
+  if (route.access === "public") {
+    return decision;
+  }
+
+  if (!user) {
+    return deny("No session or API token", {
+      check: "authentication",
+      status: 401,
+      error: "Authentication required",
+      redirectTo: "/login",
+    });
+  }
+  pass("authentication", `Signed in as ${user.email}`);
+
+  if (!user.isActive) {
+    return deny("The account is deactivated", {
+      check: "active",
+      status: 403,
+      error: "Account is inactive",
+      redirectTo: "/auth/inactive",
+    });
+  }
+  pass("active", "The account is active");
+
+  if (gates.emailVerificationRequired && !isAllowedDuring(path, "emailVerification")) {
+    return deny("The email address is not verified", {
+      check: "emailVerification",
+      status: 403,
+      error: "Email verification required",
+      redirectTo: "/auth/verify-email",
+    });
+  }
+  pass(
+    "emailVerification",
+    gates.emailVerificationRequired
+      ? "The email address is not verified, but this route is open before verification"
+      : "The email address is verified"
+  );
+
+  if (gates.twoFactorSetupRequired && !isAllowedDuring(path, "twoFactorSetup")) {
+    return deny("The role requires two-factor authentication, which is not set up", {
+      check: "twoFactorSetup",
+      status: 403,
+      error: "Two-factor authentication setup required",
+      redirectTo: "/profile?twoFactorSetup=required",
+    });
+  }
+  pass(
+    "twoFactorSetup",
+    gates.twoFactorSetupRequired
+      ? "Two-factor setup is pending, but this route is open during setup"
+      : "No two-factor setup pending"
+  );
+
+  const roleDetail =
+    route.access === "admin"
+      ? `Admin route; account role is ${user.role}`
+      : `${route.access === "editor" ? "Editor" : "Signed-in"} route; role in the active workspace is ${decision.effectiveRole}`;
+  if (!hasRouteAccess(user, route.access)) {
+    return deny(roleDetail, {
+      check: "role",
+      status: 403,
+      error: ROLE_DENIALS[route.access] ?? "Insufficient permissions",
+      redirectTo: "/dashboard",
+    });
+  }
+  pass("role", roleDetail);
+
+  for (const permission of requiredPermissions) {
+    if (!(await hasPermission(user, permission))) {
+      decision.missingPermissions.push(permission);
+    }
+  }
+  if (decision.missingPermissions.length > 0) {
+    return deny(`Missing ${decision.missingPermissions.join(", ")}`, {
+      check: "permissions",
+      status: 403,
+      error: "Insufficient permissions",
+      redirectTo: "/dashboard",
+    });
+  }
+  pass(
+    "permissions",
+    requiredPermissions.length > 0
+      ? `Has ${requiredPermissions.join(", ")}`
+      : "The route requires no permissions"
+  );
+
+  return decision;
+}
+
+/**
+ * Load a user the way their session sees them: scoped to a workspace, with
+ * resolved permissions and the gates sign-in would set. Returns null when the
+ * user does not exist.
+ */
+export async function loadRouteAccessSubject(
+  userId: string,
+  workspaceId?: string | null
+): Promise<{ user: User; gates: RouteGates } | null> {
+  const user = await getUserById(userId);
+  if (!user) {
+    return null;
+  }
+
+  await ensureRolesLoaded();
+  const scopedUser = await applyWorkspaceContext(user, workspaceId);
+
+  return {
+    user: { ...scopedUser, permissions: resolveUserPermissions(scopedUser) },
+    gates: {
+      emailVerificationRequired: !user.emailVerified,
+      twoFactorSetupRequired: needsTwoFactorSetup(user),
+    },
+  };
+}
@@ -34,7 +34,10 @@ describe("generateBreadcrumbs", () => {
     expect(breadcrumbs).toBeDefined();
     expect(breadcrumbs?.[0].label).toBe("Home");
     expect(breadcrumbs?.[1].label).toBe("Administration");
-    expect(breadcrumbs?.[1].requiredPermission).toBe(Permission.MANAGE_USER_ROLES);
+    expect(breadcrumbs?.[1].requiredPermissions).toEqual([
+      Permission.MANAGE_SYSTEM_SETTINGS,
+      Permission.MANAGE_USER_ROLES,
+    ]);
   });
 
   it("should generate breadcrumbs for nested admin route", () => {
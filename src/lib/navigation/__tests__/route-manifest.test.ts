@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+
+import { breadcrumbConfig, generateBreadcrumbs } from "../breadcrumb-config";
+import { filterNavigationItems } from "../filter-navigation";
+import { navigationConfig } from "../navigation-config";
+import { resolveRoute, validateRouteManifest } from "../route-manifest";
+import { Permission, UserRole, type User } from "@/types/auth";
+import type { NavigationItem, RouteDefinition } from "@/types/navigation";
+
+const baseUser: User = {
+  id: "user-1",
+  email: "user@example.com",
+  username: "testuser",
+  role: UserRole.USER,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function flatten(items: NavigationItem[]): NavigationItem[] {
+  return items.flatMap(item => [item, ...flatten(item.children ?? [])]);
+}
+
+// What the middleware enforces for a path, in the shape nav and breadcrumb items carry
+function enforcedFor(path: string) {
+  const route = resolveRoute(path);
+  return {
+    access: route.access === "public" ? undefined : route.access,
+    requiredPermissions: route.permissions,
+  };
+}
+
+describe("Route manifest", () => {
+  it("has no duplicate, shadowed or inconsistent entries", () => {
+    expect(validateRouteManifest()).toEqual([]);
+  });
+
+  it("gives navigation items the rules the middleware enforces for their links", () => {
+    const items = flatten([...navigationConfig.main, ...(navigationConfig.footer ?? [])]);
+    expect(items.length).toBeGreaterThan(0);
+
+    for (const item of items) {
+      expect({ access: item.access, requiredPermissions: item.requiredPermissions }).toEqual(
+        enforcedFor(item.href)
+      );
+    }
+  });
+
+  it("gives breadcrumbs the rules the middleware enforces for their pages", () => {
+    for (const [path, trail] of Object.entries(breadcrumbConfig)) {
+      const current = trail[trail.length - 1];
+      expect(current?.isCurrentPage).toBe(true);
+      expect({
+        access: current?.access,
+        requiredPermissions: current?.requiredPermissions,
+      }).toEqual(enforcedFor(path));
+
+      for (const item of trail.slice(1, -1)) {
+        expect({ access: item.access, requiredPermissions: item.requiredPermissions }).toEqual(
+          enforcedFor(item.href ?? "")
+        );
+      }
+    }
+  });
+
+  it("uses the first matching entry and requires sign-in for unknown paths", () => {
+    expect(resolveRoute("/api/admin/users").access).toBe("admin");
+    expect(resolveRoute("/api/user/sessions").allowDuring).toContain("twoFactorSetup");
+    expect(resolveRoute("/api/widgets").permissions).toEqual([Permission.ACCESS_API]);
+    expect(resolveRoute("/somewhere-new")).toEqual({
+      pattern: "/somewhere-new",
+      access: "protected",
+    });
+    expect(resolveRoute("/")).toMatchObject({ access: "protected" });
+  });
+
+  it("hides the admin console from users who only hold its permissions", async () => {
+    const delegate: User = { ...baseUser, permissions: [Permission.MANAGE_USER_ROLES] };
+    const admin: User = { ...baseUser, role: UserRole.ADMIN };
+
+    const delegateIds = flatten(await filterNavigationItems(navigationConfig.main, delegate)).map(
+      item => item.id
+    );
+    const adminIds = flatten(await filterNavigationItems(navigationConfig.main, admin)).map(
+      item => item.id
+    );
+
+    expect(delegateIds).not.toContain("admin");
+    expect(adminIds).toEqual(
+      expect.arrayContaining(["dashboard", "admin", "admin-users", "admin-settings"])
+    );
+    expect(generateBreadcrumbs("/admin/settings")?.map(item => item.label)).toEqual([
+      "Home",
+      "Administration",
+      "Settings",
+    ]);
+  });
+
+  it("reports entries that drift apart", () => {
+    const manifest: RouteDefinition[] = [
+      { pattern: "/api/.*", access: "protected" },
+      { pattern: "/api/reports", access: "admin" },
+      {
+        pattern: "/reports",
+        access: "editor",
+        permissions: [Permission.VIEW_ANALYTICS],
+        nav: { id: "reports", label: "Reports", section: "main", group: "insights" },
+        breadcrumb: "Reports",
+      },
+      {
+        pattern: "/reports/daily",
+        access: "protected",
+        nav: { id: "reports", label: "Daily", section: "main", group: "insights" },
+        breadcrumb: "Daily",
+      },
+      { pattern: "/files/.*", access: "protected", breadcrumb: "Files" },
+    ];
+
+    expect(validateRouteManifest(manifest, [{ id: "insights", label: "Insights" }])).toEqual([
+      "/api/reports is shadowed by /api/.*",
+      "Navigation id reports is used twice",
+      "/reports/daily is less restricted than its navigation group insights",
+      "/reports/daily is less restricted than its breadcrumb parent /reports",
+      "/files/.* is a wildcard and cannot have navigation or a breadcrumb",
+    ]);
+  });
+});
@@ -1,29 +1,35 @@
-import { Permission } from "@/types/auth";
-import type { BreadcrumbConfig } from "@/types/breadcrumb";
+import type { BreadcrumbConfig, BreadcrumbItem } from "@/types/breadcrumb";
+import type { RouteDefinition } from "@/types/navigation";
 
-export const breadcrumbConfig: BreadcrumbConfig = {
-  "/dashboard": [
-    { label: "Home", href: "/" },
-    { label: "Dashboard", isCurrentPage: true },
-  ],
-  "/content": [
-    { label: "Home", href: "/" },
-    { label: "Content", isCurrentPage: true, requiredPermission: Permission.READ_CONTENT },
-  ],
-  "/admin": [
-    { label: "Home", href: "/" },
-    {
-      label: "Administration",
-      isCurrentPage: true,
-      requiredPermission: Permission.MANAGE_USER_ROLES,
-    },
-  ],
-  "/admin/settings": [
-    { label: "Home", href: "/" },
-    { label: "Administration", href: "/admin", requiredPermission: Permission.MANAGE_USER_ROLES },
-    { label: "Settings", isCurrentPage: true, requiredPermission: Permission.MANAGE_USER_ROLES },
-  ],
-};
+import { routeManifest } from "./route-manifest";
+
+// Home, then every route with a breadcrumb at one of the path's prefixes
+function buildTrail(route: RouteDefinition): BreadcrumbItem[] {
+  const trail: BreadcrumbItem[] = [{ label: "Home", href: "/" }];
+  const segments = route.pattern.split("/").filter(Boolean);
+
+  segments.forEach((_, index) => {
+    const path = `/${segments.slice(0, index + 1).join("/")}`;
+    const entry = routeManifest.find(other => other.pattern === path && other.breadcrumb);
+    if (!entry?.breadcrumb) {
+      return;
+    }
+
+    const isCurrentPage = index === segments.length - 1;
+    trail.push({
+      label: entry.breadcrumb,
+      ...(isCurrentPage ? { isCurrentPage } : { href: path }),
+      ...(entry.access !== "public" && { access: entry.access }),
+      ...(entry.permissions && { requiredPermissions: entry.permissions }),
+    });
+  });
+
+  return trail;
+}
+
+export const breadcrumbConfig: BreadcrumbConfig = Object.fromEntries(
+  routeManifest.filter(route => route.breadcrumb).map(route => [route.pattern, buildTrail(route)])
+);
 
 /**
  * Generate breadcrumbs for a given path
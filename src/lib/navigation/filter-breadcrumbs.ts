@@ -1,9 +1,10 @@
-import { hasPermission } from "@/lib/auth/permissions";
 import type { User } from "@/types/auth";
 import type { BreadcrumbItem } from "@/types/breadcrumb";
 
+import { meetsRouteRequirements } from "./route-manifest";
+
 /**
- * Filter breadcrumb items based on user permissions
+ * Filter breadcrumb items based on the user's role and permissions
  */
 export async function filterBreadcrumbs(
   items: BreadcrumbItem[],
@@ -12,17 +13,8 @@ export async function filterBreadcrumbs(
   const filtered: BreadcrumbItem[] = [];
 
   for (const item of items) {
-    // Check if user has required permission
-    if (item.requiredPermission) {
-      if (!user) {
-        // Skip items requiring permission if no user
-        continue;
-      }
-
-      const allowed = await hasPermission(user, item.requiredPermission);
-      if (!allowed) {
-        continue; // Skip this item
-      }
+    if (!(await meetsRouteRequirements(user, item))) {
+      continue; // Skip this item
     }
 
     filtered.push(item);
@@ -39,15 +31,8 @@ export async function isBreadcrumbTrailValid(
   user: User | null
 ): Promise<boolean> {
   for (const item of items) {
-    if (item.requiredPermission) {
-      if (!user) {
-        return false;
-      }
-
-      const allowed = await hasPermission(user, item.requiredPermission);
-      if (!allowed) {
-        return false;
-      }
+    if (!(await meetsRouteRequirements(user, item))) {
+      return false;
     }
   }
 
@@ -1,35 +1,31 @@
-import { hasPermission } from "@/lib/auth/permissions";
 import type { User } from "@/types/auth";
 import type { NavigationItem } from "@/types/navigation";
 
+import { meetsRouteRequirements } from "./route-manifest";
+
+function hasRequirements(item: NavigationItem): boolean {
+  return Boolean(item.access || item.requiredPermission || item.requiredPermissions?.length);
+}
+
 /**
- * Filter navigation items based on user permissions
+ * Filter navigation items based on the user's role and permissions
  */
 export async function filterNavigationItems(
   items: NavigationItem[],
   user: User | null
 ): Promise<NavigationItem[]> {
-  if (!user) {
-    // Only show items without permission requirements
-    return items.filter(item => !item.requiredPermission);
-  }
-
   const filteredItems: NavigationItem[] = [];
 
   for (const item of items) {
-    // Check if user has required permission
-    if (item.requiredPermission) {
-      const allowed = await hasPermission(user, item.requiredPermission);
-      if (!allowed) {
-        continue; // Skip this item
-      }
+    if (!(await isNavigationItemAccessible(item, user))) {
+      continue; // Skip this item
     }
 
     // Filter children recursively
     const filteredItem = { ...item };
     if (item.children && item.children.length > 0) {
       const filteredChildren = await filterNavigationItems(item.children, user);
-      if (filteredChildren.length === 0 && item.requiredPermission) {
+      if (filteredChildren.length === 0 && hasRequirements(item)) {
         // Skip parent if no children are accessible
         continue;
       }
@@ -49,13 +45,5 @@ export async function isNavigationItemAccessible(
   item: NavigationItem,
   user: User | null
 ): Promise<boolean> {
-  if (!item.requiredPermission) {
-    return true; // Public item
-  }
-
-  if (!user) {
-    return false; // Requires permission but no user
-  }
-
-  return hasPermission(user, item.requiredPermission);
+  return meetsRouteRequirements(user, item);
 }
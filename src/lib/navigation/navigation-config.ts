@@ -1,57 +1,67 @@
 import { Home, Users, Settings, FileText, Shield } from "lucide-react";
 
-import { Permission } from "@/types/auth";
-import type { NavigationConfig } from "@/types/navigation";
+import type {
+  NavigationConfig,
+  NavigationItem,
+  NavigationSection,
+  RouteDefinition,
+} from "@/types/navigation";
+
+import { navigationGroups, routeManifest } from "./route-manifest";
+
+const icons: Record<string, NavigationItem["icon"]> = {
+  dashboard: Home,
+  content: FileText,
+  admin: Shield,
+  "admin-users": Users,
+  "admin-settings": Settings,
+};
+
+function toNavigationItem(route: RouteDefinition, id: string, label: string): NavigationItem {
+  return {
+    id,
+    label,
+    href: route.pattern,
+    icon: icons[id],
+    ...(route.access !== "public" && { access: route.access }),
+    ...(route.permissions && { requiredPermissions: route.permissions }),
+  };
+}
+
+/**
+ * Build one navigation section from the route manifest, in manifest order.
+ * Grouped routes are listed under their group, which links to the first one.
+ */
+export function buildNavigationSection(section: NavigationSection): NavigationItem[] {
+  const items: NavigationItem[] = [];
+  const groups = new Map<string, NavigationItem>();
+
+  for (const route of routeManifest) {
+    if (route.nav?.section !== section) {
+      continue;
+    }
+
+    const item = toNavigationItem(route, route.nav.id, route.nav.label);
+    const groupId = route.nav.group;
+    if (!groupId) {
+      items.push(item);
+      continue;
+    }
+
+    let group = groups.get(groupId);
+    if (!group) {
+      const label = navigationGroups.find(entry => entry.id === groupId)?.label ?? groupId;
+      group = { ...toNavigationItem(route, groupId, label), children: [] };
+      groups.set(groupId, group);
+      items.push(group);
+    }
+    group.children?.push(item);
+  }
+
+  return items;
+}
 
 export const navigationConfig: NavigationConfig = {
-  main: [
-    {
-      id: "dashboard",
-      label: "Dashboard",
-      href: "/dashboard",
-      icon: Home,
-    },
-    {
-      id: "content",
-      label: "Content",
-      href: "/content",
-      icon: FileText,
-      requiredPermission: Permission.READ_CONTENT,
-    },
-    {
-      id: "admin",
-      label: "Administration",
-      href: "/admin",
-      icon: Shield,
-      requiredPermission: Permission.MANAGE_USER_ROLES,
-      children: [
-        {
-          id: "admin-users",
-          label: "User Management",
-          href: "/admin",
-          icon: Users,
-          requiredPermission: Permission.MANAGE_USER_ROLES,
-        },
-        {
-          id: "admin-settings",
-          label: "Settings",
-          href: "/admin/settings",
-          icon: Settings,
-          requiredPermission: Permission.MANAGE_USER_ROLES,
-        },
-      ],
-    },
-  ],
-  footer: [
-    {
-      id: "help",
-      label: "Help",
-      href: "/help",
-    },
-    {
-      id: "privacy",
-      label: "Privacy",
-      href: "/privacy",
-    },
-  ],
+  main: buildNavigationSection("main"),
+  footer: buildNavigationSection("footer"),
 };
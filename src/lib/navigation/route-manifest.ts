@@ -0,0 +1,289 @@
+import { getEffectiveRole, hasAllPermissions } from "@/lib/auth/permissions";
+import { Permission, UserRole, type User } from "@/types/auth";
+import type { NavigationGroup, RouteAccess, RouteDefinition, RouteGate } from "@/types/navigation";
+
+/**
+ * Every route's access rules, navigation placement and breadcrumb label. The
+ * middleware, the navigation and the breadcrumbs are all built from this list.
+ *
+ * The first entry whose pattern matches a path applies, so specific routes go
+ * before the catch-alls. Paths matching nothing need a signed-in user.
+ */
+export const routeManifest: RouteDefinition[] = [
+  // Public. "/" is not listed: the middleware redirects it by auth status (FE-229)
+  { pattern: "/login", access: "public" },
+  { pattern: "/auth/signin", access: "public" },
+  { pattern: "/auth/signup", access: "public" },
+  { pattern: "/auth/forgot-password", access: "public" },
+  { pattern: "/auth/reset-password", access: "public" },
+  { pattern: "/auth/invite", access: "public" },
+  { pattern: "/auth/verify-email", access: "public" },
+  { pattern: "/auth/error", access: "public" },
+  { pattern: "/auth/inactive", access: "public" }, // Deactivated users are sent here
+  { pattern: "/api/health", access: "public" },
+  { pattern: "/api/openapi.json", access: "public" },
+  { pattern: "/api/auth/.*", access: "public" },
+  { pattern: "/api/scim/.*", access: "public" }, // SCIM provisioning uses its own bearer token
+  { pattern: "/api/cron/.*", access: "public" }, // Scheduled jobs check CRON_SECRET
+  { pattern: "/avatar-demo", access: "public" },
+  { pattern: "/api/avatar/.*", access: "public" },
+  { pattern: "/demo/.*", access: "public" },
+  { pattern: "/help", access: "public", nav: { id: "help", label: "Help", section: "footer" } },
+  {
+    pattern: "/privacy",
+    access: "public",
+    nav: { id: "privacy", label: "Privacy", section: "footer" },
+  },
+  {
+    pattern: "/api-docs",
+    access: "public",
+    nav: { id: "api-docs", label: "API", section: "footer" },
+  },
+
+  // Signed in
+  { pattern: "/auth/signout", access: "protected", allowDuring: ["emailVerification"] },
+  {
+    pattern: "/dashboard",
+    access: "protected",
+    permissions: [Permission.VIEW_DASHBOARD],
+    nav: { id: "dashboard", label: "Dashboard", section: "main" },
+    breadcrumb: "Dashboard",
+  },
+  {
+    pattern: "/content",
+    access: "protected",
+    permissions: [Permission.READ_CONTENT],
+    nav: { id: "content", label: "Content", section: "main" },
+    breadcrumb: "Content",
+  },
+  { pattern: "/profile", access: "protected", allowDuring: ["twoFactorSetup"] },
+  { pattern: "/settings", access: "protected" },
+
+  // Editors and admins
+  { pattern: "/editor", access: "editor" },
+  {
+    pattern: "/dashboard/content",
+    access: "editor",
+    permissions: [Permission.READ_CONTENT, Permission.UPDATE_CONTENT],
+  },
+  {
+    pattern: "/api/content/.*",
+    access: "editor",
+    permissions: [Permission.READ_CONTENT, Permission.UPDATE_CONTENT],
+  },
+
+  // Admins. The admin console spans every workspace, so it checks the account role.
+  {
+    pattern: "/admin",
+    access: "admin",
+    permissions: [Permission.MANAGE_SYSTEM_SETTINGS, Permission.MANAGE_USER_ROLES],
+    nav: { id: "admin-users", label: "User Management", section: "main", group: "admin" },
+    breadcrumb: "Administration",
+  },
+  {
+    pattern: "/admin/settings",
+    access: "admin",
+    permissions: [Permission.MANAGE_USER_ROLES, Permission.MANAGE_SYSTEM_SETTINGS],
+    nav: { id: "admin-settings", label: "Settings", section: "main", group: "admin" },
+    breadcrumb: "Settings",
+  },
+  {
+    pattern: "/dashboard/users",
+    access: "admin",
+    permissions: [Permission.MANAGE_SYSTEM_SETTINGS, Permission.MANAGE_USER_ROLES],
+  },
+  {
+    pattern: "/dashboard/settings",
+    access: "admin",
+    permissions: [Permission.MANAGE_USER_ROLES, Permission.MANAGE_SYSTEM_SETTINGS],
+  },
+  {
+    pattern: "/api/admin/.*",
+    access: "admin",
+    permissions: [Permission.MANAGE_SYSTEM_SETTINGS, Permission.MANAGE_USER_ROLES],
+  },
+
+  // API
+  {
+    pattern: "/api/users/.*",
+    access: "protected",
+    permissions: [Permission.READ_USER, Permission.UPDATE_USER],
+  },
+  {
+    pattern: "/api/user/.*",
+    access: "protected",
+    permissions: [Permission.ACCESS_API],
+    allowDuring: ["twoFactorSetup"],
+  },
+  { pattern: "/api/.*", access: "protected", permissions: [Permission.ACCESS_API] },
+];
+
+/**
+ * Collapsible navigation groups. A group links to its first item and is
+ * shown when that item is.
+ */
+export const navigationGroups: NavigationGroup[] = [{ id: "admin", label: "Administration" }];
+
+const ACCESS_LEVELS: Record<RouteAccess, number> = {
+  public: 0,
+  protected: 1,
+  editor: 2,
+  admin: 3,
+};
+
+/**
+ * Check if a path matches a manifest pattern
+ */
+export function matchesPattern(path: string, pattern: string): boolean {
+  return new RegExp(`^${pattern.replace(/\*/g, ".*")}$`).test(path);
+}
+
+/**
+ * The manifest entry that applies to a path, or a signed-in-only default when
+ * none matches
+ */
+export function resolveRoute(
+  path: string,
+  manifest: RouteDefinition[] = routeManifest
+): RouteDefinition {
+  return (
+    manifest.find(route => matchesPattern(path, route.pattern)) ?? {
+      pattern: path,
+      access: "protected",
+    }
+  );
+}
+
+/**
+ * Check if a route stays reachable while the user is held at a gate
+ */
+export function isAllowedDuring(path: string, gate: RouteGate): boolean {
+  return resolveRoute(path).allowDuring?.includes(gate) ?? false;
+}
+
+/**
+ * Check the role part of a route's access level. Admin routes need the account
+ * role; editor routes accept the active workspace's role.
+ */
+export function hasRouteAccess(user: User | null, access: RouteAccess): boolean {
+  switch (access) {
+    case "public":
+      return true;
+    case "protected":
+      return Boolean(user);
+    case "editor": {
+      const role = user ? getEffectiveRole(user) : null;
+      return role === UserRole.ADMIN || role === UserRole.EDITOR;
+    }
+    case "admin":
+      return user?.role === UserRole.ADMIN;
+  }
+}
+
+/**
+ * Check a navigation or breadcrumb item's requirements: its route's access
+ * level and permissions, plus the single permission ad-hoc items may set
+ */
+export async function meetsRouteRequirements(
+  user: User | null,
+  requirements: {
+    access?: RouteAccess;
+    requiredPermission?: Permission;
+    requiredPermissions?: Permission[];
+  }
+): Promise<boolean> {
+  const permissions = [
+    ...(requirements.requiredPermissions ?? []),
+    ...(requirements.requiredPermission ? [requirements.requiredPermission] : []),
+  ];
+  if (!requirements.access && permissions.length === 0) {
+    return true;
+  }
+
+  if (!user?.isActive || !hasRouteAccess(user, requirements.access ?? "protected")) {
+    return false;
+  }
+
+  return hasAllPermissions(user, permissions);
+}
+
+// Whether every user who can open `route` can also open `parent`
+function isCoveredBy(route: RouteDefinition, parent: RouteDefinition): boolean {
+  return (
+    ACCESS_LEVELS[route.access] >= ACCESS_LEVELS[parent.access] &&
+    (parent.permissions ?? []).every(permission => route.permissions?.includes(permission))
+  );
+}
+
+function isLiteral(pattern: string): boolean {
+  return !/[.*?+()[\]{}|^$\\]/.test(pattern);
+}
+
+/**
+ * Find mistakes in a manifest: duplicate or unreachable patterns, navigation
+ * and breadcrumbs on wildcard patterns, unknown groups, and pages that stay
+ * visible while the breadcrumb or group above them is hidden. Returns one
+ * message per problem.
+ */
+export function validateRouteManifest(
+  manifest: RouteDefinition[] = routeManifest,
+  groups: NavigationGroup[] = navigationGroups
+): string[] {
+  const errors: string[] = [];
+  const navIds = new Set<string>();
+  const groupIds = new Set(groups.map(group => group.id));
+  const groupOwners = new Map<string, RouteDefinition>();
+
+  manifest.forEach((route, index) => {
+    const { pattern } = route;
+
+    if (manifest.findIndex(other => other.pattern === pattern) !== index) {
+      errors.push(`${pattern} is listed twice`);
+      return;
+    }
+
+    // An earlier entry that matches this one's own path would always win
+    const samplePath = pattern.replace(/\.\*/g, "x");
+    const owner = resolveRoute(samplePath, manifest);
+    if (owner !== route) {
+      errors.push(`${pattern} is shadowed by ${owner.pattern}`);
+    }
+
+    if ((route.nav || route.breadcrumb) && !isLiteral(pattern)) {
+      errors.push(`${pattern} is a wildcard and cannot have navigation or a breadcrumb`);
+    }
+
+    if (route.nav) {
+      if (navIds.has(route.nav.id)) {
+        errors.push(`Navigation id ${route.nav.id} is used twice`);
+      }
+      navIds.add(route.nav.id);
+
+      const { group } = route.nav;
+      if (group && !groupIds.has(group)) {
+        errors.push(`${pattern} is in unknown navigation group ${group}`);
+      } else if (group) {
+        const first = groupOwners.get(group);
+        if (!first) {
+          groupOwners.set(group, route);
+        } else if (!isCoveredBy(route, first)) {
+          errors.push(`${pattern} is less restricted than its navigation group ${group}`);
+        }
+      }
+    }
+
+    if (route.breadcrumb) {
+      const segments = pattern.split("/").filter(Boolean);
+      for (let i = segments.length - 1; i > 0; i--) {
+        const parent = manifest.find(
+          other => other.pattern === `/${segments.slice(0, i).join("/")}` && other.breadcrumb
+        );
+        if (parent && !isCoveredBy(route, parent)) {
+          errors.push(`${pattern} is less restricted than its breadcrumb parent ${parent.pattern}`);
+        }
+      }
+    }
+  });
+
+  return errors;
+}
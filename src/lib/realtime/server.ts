@@ -3,6 +3,7 @@ import { Server as SocketIOServer } from "socket.io";
 
 import { hasPermission } from "@/lib/auth/permissions";
 import { getUserById } from "@/lib/auth/user-service";
+import { getWorkspaceRole, resolveWorkspaceContext } from "@/lib/auth/workspaces";
 import type { Permission } from "@/types/auth";
 import type {
   ServerToClientEvents,
@@ -28,11 +29,27 @@ let io: SocketIOServer<
 > | null = null;
 
 // In-memory stores (replace with database in production)
-const onlineUsers = new Map<string, OnlineUser>();
-const userSockets = new Map<string, string[]>(); // userId -> socketIds
-const chatMessages = new Map<string, ChatMessage[]>(); // channelId -> messages
+const onlineUsers = new Map<string, Map<string, OnlineUser>>(); // workspaceId -> userId -> presence
+const userSockets = new Map<string, string[]>(); // "<workspaceId>:<userId>" -> socketIds
+const chatMessages = new Map<string, ChatMessage[]>(); // "<workspaceId>:<channelId>" -> messages
 const userNotifications = new Map<string, RealtimeNotification[]>(); // userId -> notifications
 
+/**
+ * Socket.io room of a workspace, or of a channel, data type or widget inside it.
+ * Sockets only join rooms of their own workspace, so nothing crosses workspaces.
+ */
+const workspaceRoom = (workspaceId: string, room?: string): string =>
+  room ? `workspace:${workspaceId}:${room}` : `workspace:${workspaceId}`;
+
+const getWorkspacePresence = (workspaceId: string): Map<string, OnlineUser> => {
+  let presence = onlineUsers.get(workspaceId);
+  if (!presence) {
+    presence = new Map();
+    onlineUsers.set(workspaceId, presence);
+  }
+  return presence;
+};
+
 /**
  * Initialize Socket.io server
  */
@@ -91,14 +108,24 @@ export const initializeSocketServer = (server: HTTPServer): SocketIOServer => {
         return next(new Error("Insufficient permissions for real-time features"));
       }
 
+      // The workspace active in the session, if the user may still use it
+      const workspace = await resolveWorkspaceContext(
+        user,
+        decoded.workspaceId as string | undefined
+      );
+      if (!workspace) {
+        return next(new Error("User has no workspace"));
+      }
+
       // Attach user data to socket
       socket.data.userId = user.id;
+      socket.data.workspaceId = workspace.workspaceId;
       socket.data.user = {
         id: user.id,
         name: user.name,
         image: user.image,
         email: user.email,
-        role: user.role,
+        role: workspace.workspaceRole,
         permissions: [], // Will be populated based on role
         username: user.username || undefined,
       };
@@ -136,7 +163,7 @@ export const initializeSocketServer = (server: HTTPServer): SocketIOServer => {
     });
 
     socket.on("presence:status", (status: PresenceStatus) => {
-      updateUserStatus(socket.data.userId, status);
+      updateUserStatus(socket.data.workspaceId, socket.data.userId, status);
     });
 
     // Handle chat messages
@@ -184,17 +211,19 @@ export const initializeSocketServer = (server: HTTPServer): SocketIOServer => {
         lastActivity: socket.data.lastActivity,
       };
 
-      socket.to(`channel:${channelId}`).emit("user:typing", {
-        userId: socket.data.userId,
-        user: onlineUser,
-        isTyping,
-      });
+      socket
+        .to(workspaceRoom(socket.data.workspaceId, `channel:${channelId}`))
+        .emit("user:typing", {
+          userId: socket.data.userId,
+          user: onlineUser,
+          isTyping,
+        });
     });
 
     // Handle room management
     socket.on("room:join", (roomId: string, callback) => {
       try {
-        socket.join(`channel:${roomId}`);
+        socket.join(workspaceRoom(socket.data.workspaceId, `channel:${roomId}`));
         if (!socket.data.rooms.includes(roomId)) {
           socket.data.rooms.push(roomId);
         }
@@ -207,7 +236,7 @@ export const initializeSocketServer = (server: HTTPServer): SocketIOServer => {
 
     socket.on("room:leave", (roomId: string, callback) => {
       try {
-        socket.leave(`channel:${roomId}`);
+        socket.leave(workspaceRoom(socket.data.workspaceId, `channel:${roomId}`));
         socket.data.rooms = socket.data.rooms.filter(r => r !== roomId);
         callback(true);
       } catch (error) {
@@ -222,22 +251,22 @@ export const initializeSocketServer = (server: HTTPServer): SocketIOServer => {
       if (!socket.data.subscriptions.includes(subscription)) {
         socket.data.subscriptions.push(subscription);
       }
-      socket.join(`data:${dataType}`);
+      socket.join(workspaceRoom(socket.data.workspaceId, `data:${dataType}`));
     });
 
     socket.on("data:unsubscribe", (dataType: string) => {
       socket.data.subscriptions = socket.data.subscriptions.filter(
         sub => !sub.startsWith(`${dataType}:`)
       );
-      socket.leave(`data:${dataType}`);
+      socket.leave(workspaceRoom(socket.data.workspaceId, `data:${dataType}`));
     });
 
     socket.on("widget:subscribe", (widgetId: string) => {
-      socket.join(`widget:${widgetId}`);
+      socket.join(workspaceRoom(socket.data.workspaceId, `widget:${widgetId}`));
     });
 
     socket.on("widget:unsubscribe", (widgetId: string) => {
-      socket.leave(`widget:${widgetId}`);
+      socket.leave(workspaceRoom(socket.data.workspaceId, `widget:${widgetId}`));
     });
 
     // Handle notifications
@@ -264,6 +293,10 @@ export const initializeSocketServer = (server: HTTPServer): SocketIOServer => {
       next();
     });
 
+    // Workspace-wide events, and notifications for the user in any workspace
+    socket.join(workspaceRoom(socket.data.workspaceId));
+    socket.join(`user:${socket.data.userId}`);
+
     // Auto-join user to presence system
     handleUserOnline(socket);
   });
@@ -288,7 +321,9 @@ export const getSocketServer = (): SocketIOServer | null => {
  * Handle user coming online
  */
 const handleUserOnline = (socket: Socket) => {
-  const user = socket.data.user;
+  const { user, workspaceId } = socket.data;
+  const presence = getWorkspacePresence(workspaceId);
+  const socketsKey = `${workspaceId}:${user.id}`;
   const onlineUser: OnlineUser = {
     id: user.id,
     name: user.name,
@@ -298,16 +333,16 @@ const handleUserOnline = (socket: Socket) => {
     lastActivity: new Date(),
   };
 
-  onlineUsers.set(user.id, onlineUser);
+  presence.set(user.id, onlineUser);
 
   // Track socket for this user
-  if (!userSockets.has(user.id)) {
-    userSockets.set(user.id, []);
+  if (!userSockets.has(socketsKey)) {
+    userSockets.set(socketsKey, []);
   }
-  userSockets.get(user.id)!.push(socket.id);
+  userSockets.get(socketsKey)!.push(socket.id);
 
-  // Notify all clients
-  socket.broadcast.emit("user:online", {
+  // Notify the workspace's clients
+  socket.to(workspaceRoom(workspaceId)).emit("user:online", {
     id: user.id,
     name: user.name,
     image: user.image,
@@ -315,31 +350,33 @@ const handleUserOnline = (socket: Socket) => {
   });
 
   // Send current online users to the new user
-  socket.emit("presence:update", Array.from(onlineUsers.values()));
+  socket.emit("presence:update", Array.from(presence.values()));
 };
 
 /**
  * Handle user going offline
  */
 const handleUserOffline = (socket: Socket) => {
-  const userId = socket.data.userId;
+  const { userId, workspaceId } = socket.data;
+  const socketsKey = `${workspaceId}:${userId}`;
 
   // Remove this socket from user's socket list
-  const userSocketList = userSockets.get(userId);
+  const userSocketList = userSockets.get(socketsKey);
   if (userSocketList) {
     const index = userSocketList.indexOf(socket.id);
     if (index > -1) {
       userSocketList.splice(index, 1);
     }
 
-    // If no more sockets for this user, mark as offline
+    // If no more sockets for this user in the workspace, mark as offline there
     if (userSocketList.length === 0) {
-      onlineUsers.delete(userId);
-      userSockets.delete(userId);
+      const presence = getWorkspacePresence(workspaceId);
+      presence.delete(userId);
+      userSockets.delete(socketsKey);
 
-      // Notify all clients
-      socket.broadcast.emit("user:offline", userId);
-      socket.broadcast.emit("presence:update", Array.from(onlineUsers.values()));
+      // Notify the workspace's clients
+      socket.to(workspaceRoom(workspaceId)).emit("user:offline", userId);
+      socket.to(workspaceRoom(workspaceId)).emit("presence:update", Array.from(presence.values()));
     }
   }
 };
@@ -347,15 +384,15 @@ const handleUserOffline = (socket: Socket) => {
 /**
  * Update user presence status
  */
-const updateUserStatus = (userId: string, status: PresenceStatus) => {
-  const user = onlineUsers.get(userId);
+const updateUserStatus = (workspaceId: string, userId: string, status: PresenceStatus) => {
+  const presence = getWorkspacePresence(workspaceId);
+  const user = presence.get(userId);
   if (user) {
     user.status = status;
     user.lastActivity = new Date();
-    onlineUsers.set(userId, user);
 
-    // Notify all clients
-    io?.emit("presence:update", Array.from(onlineUsers.values()));
+    // Notify the workspace's clients
+    io?.to(workspaceRoom(workspaceId)).emit("presence:update", Array.from(presence.values()));
   }
 };
 
@@ -384,6 +421,7 @@ const handleNewMessage = async (
         role: socket.data.user.role,
       },
       channelId: message.channelId,
+      workspaceId: socket.data.workspaceId,
       replyToId: message.replyToId,
       attachments: message.attachments,
       mentions: message.mentions,
@@ -394,10 +432,11 @@ const handleNewMessage = async (
     };
 
     // Store message (in production, save to database)
-    if (!chatMessages.has(message.channelId)) {
-      chatMessages.set(message.channelId, []);
+    const channelKey = `${socket.data.workspaceId}:${message.channelId}`;
+    if (!chatMessages.has(channelKey)) {
+      chatMessages.set(channelKey, []);
     }
-    const channelMessages = chatMessages.get(message.channelId)!;
+    const channelMessages = chatMessages.get(channelKey)!;
     channelMessages.push(newMessage);
 
     // Keep only last 1000 messages per channel
@@ -406,21 +445,30 @@ const handleNewMessage = async (
     }
 
     // Emit to all users in the channel
-    io?.to(`channel:${message.channelId}`).emit("message:new", newMessage);
-
-    // Create notifications for mentions
-    if (message.mentions && message.mentions.length > 0) {
-      message.mentions.forEach(mentionedUserId => {
-        if (mentionedUserId !== socket.data.userId) {
-          createNotification(mentionedUserId, {
-            type: "mention",
-            title: `${socket.data.user.name} mentioned you`,
-            message: message.content.substring(0, 100),
-            data: { messageId: newMessage.id, channelId: message.channelId },
-            priority: "normal",
-          });
-        }
-      });
+    io
+      ?.to(workspaceRoom(socket.data.workspaceId, `channel:${message.channelId}`))
+      .emit("message:new", newMessage);
+
+    // Create notifications for mentions of the workspace's members
+    for (const mentionedUserId of message.mentions ?? []) {
+      if (mentionedUserId === socket.data.userId) {
+        continue;
+      }
+
+      const mentionedUser = await getUserById(mentionedUserId);
+      if (mentionedUser && (await getWorkspaceRole(mentionedUser, socket.data.workspaceId))) {
+        createNotification(mentionedUserId, {
+          type: "mention",
+          title: `${socket.data.user.name} mentioned you`,
+          message: message.content.substring(0, 100),
+          data: {
+            messageId: newMessage.id,
+            channelId: message.channelId,
+            workspaceId: socket.data.workspaceId,
+          },
+          priority: "normal",
+        });
+      }
     }
 
     return newMessage;
@@ -440,7 +488,12 @@ const handleEditMessage = async (
 ): Promise<boolean> => {
   try {
     // Find the message
-    for (const [channelId, messages] of chatMessages.entries()) {
+    for (const [channelKey, messages] of chatMessages.entries()) {
+      if (!channelKey.startsWith(`${socket.data.workspaceId}:`)) {
+        continue;
+      }
+
+      const channelId = channelKey.slice(socket.data.workspaceId.length + 1);
       const messageIndex = messages.findIndex(m => m.id === messageId);
       if (messageIndex > -1) {
         const message = messages[messageIndex];
@@ -463,13 +516,15 @@ const handleEditMessage = async (
         message.updatedAt = new Date();
 
         // Emit update
-        io?.to(`channel:${channelId}`).emit("message:edit", {
-          id: messageId,
-          content,
-          isEdited: true,
-          editedAt: message.editedAt,
-          updatedAt: message.updatedAt,
-        });
+        io
+          ?.to(workspaceRoom(socket.data.workspaceId, `channel:${channelId}`))
+          .emit("message:edit", {
+            id: messageId,
+            content,
+            isEdited: true,
+            editedAt: message.editedAt,
+            updatedAt: message.updatedAt,
+          });
 
         return true;
       }
@@ -488,7 +543,12 @@ const handleEditMessage = async (
 const handleDeleteMessage = async (socket: Socket, messageId: string): Promise<boolean> => {
   try {
     // Find and remove the message
-    for (const [channelId, messages] of chatMessages.entries()) {
+    for (const [channelKey, messages] of chatMessages.entries()) {
+      if (!channelKey.startsWith(`${socket.data.workspaceId}:`)) {
+        continue;
+      }
+
+      const channelId = channelKey.slice(socket.data.workspaceId.length + 1);
       const messageIndex = messages.findIndex(m => m.id === messageId);
       if (messageIndex > -1) {
         const message = messages[messageIndex];
@@ -508,7 +568,9 @@ const handleDeleteMessage = async (socket: Socket, messageId: string): Promise<b
         messages.splice(messageIndex, 1);
 
         // Emit deletion
-        io?.to(`channel:${channelId}`).emit("message:delete", messageId);
+        io
+          ?.to(workspaceRoom(socket.data.workspaceId, `channel:${channelId}`))
+          .emit("message:delete", messageId);
 
         return true;
       }
@@ -548,13 +610,8 @@ const createNotification = (
     userNotifs.splice(100);
   }
 
-  // Send to user if online
-  const userSocketList = userSockets.get(userId);
-  if (userSocketList && userSocketList.length > 0) {
-    userSocketList.forEach(socketId => {
-      io?.to(socketId).emit("notification:new", newNotification);
-    });
-  }
+  // Send to user if online, whichever workspace they have open
+  io?.to(`user:${userId}`).emit("notification:new", newNotification);
 };
 
 /**
@@ -587,24 +644,31 @@ const cleanupInactiveUsers = () => {
   const now = new Date();
   const inactiveThreshold = 5 * 60 * 1000; // 5 minutes
 
-  for (const [userId, user] of onlineUsers.entries()) {
-    if (now.getTime() - user.lastActivity.getTime() > inactiveThreshold) {
-      onlineUsers.delete(userId);
-      userSockets.delete(userId);
+  for (const [workspaceId, presence] of onlineUsers.entries()) {
+    for (const [userId, user] of presence.entries()) {
+      if (now.getTime() - user.lastActivity.getTime() > inactiveThreshold) {
+        presence.delete(userId);
+        userSockets.delete(`${workspaceId}:${userId}`);
 
-      // Notify all clients
-      io?.emit("user:offline", userId);
+        // Notify the workspace's clients
+        io?.to(workspaceRoom(workspaceId)).emit("user:offline", userId);
+      }
     }
-  }
 
-  // Update presence
-  io?.emit("presence:update", Array.from(onlineUsers.values()));
+    // Update presence
+    io?.to(workspaceRoom(workspaceId)).emit("presence:update", Array.from(presence.values()));
+  }
 };
 
 /**
- * Broadcast data synchronization
+ * Broadcast data synchronization to a workspace's subscribers
  */
-export const broadcastDataSync = (dataType: string, data: any, userId?: string) => {
+export const broadcastDataSync = (
+  workspaceId: string,
+  dataType: string,
+  data: any,
+  userId?: string
+) => {
   if (!io) {
     return;
   }
@@ -617,18 +681,18 @@ export const broadcastDataSync = (dataType: string, data: any, userId?: string)
     userId,
   };
 
-  io.to(`data:${dataType}`).emit("data:sync", syncData);
+  io.to(workspaceRoom(workspaceId, `data:${dataType}`)).emit("data:sync", syncData);
 };
 
 /**
- * Update widget data
+ * Update widget data for a workspace's subscribers
  */
-export const updateWidget = (widgetId: string, data: any) => {
+export const updateWidget = (workspaceId: string, widgetId: string, data: any) => {
   if (!io) {
     return;
   }
 
-  io.to(`widget:${widgetId}`).emit("widget:update", widgetId, {
+  io.to(workspaceRoom(workspaceId, `widget:${widgetId}`)).emit("widget:update", widgetId, {
     data,
     lastUpdated: new Date(),
   });
@@ -662,15 +726,70 @@ export const sendSystemNotification = (
 };
 
 /**
- * Get online users count
+ * Get online users count, in one workspace or across all of them
+ */
+export const getOnlineUsersCount = (workspaceId?: string): number => {
+  return getOnlineUsers(workspaceId).length;
+};
+
+/**
+ * Get online users list, in one workspace or across all of them
+ */
+export const getOnlineUsers = (workspaceId?: string): OnlineUser[] => {
+  if (workspaceId) {
+    return Array.from(onlineUsers.get(workspaceId)?.values() ?? []);
+  }
+
+  const all = new Map<string, OnlineUser>();
+  onlineUsers.forEach(presence => presence.forEach((user, userId) => all.set(userId, user)));
+  return Array.from(all.values());
+};
+
+/**
+ * Chat messages written by a user, oldest first
+ */
+export const getUserChatMessages = (userId: string): ChatMessage[] => {
+  return Array.from(chatMessages.values())
+    .flat()
+    .filter(message => message.authorId === userId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+/**
+ * Notifications stored for a user, newest first
  */
-export const getOnlineUsersCount = (): number => {
-  return onlineUsers.size;
+export const getUserNotifications = (userId: string): RealtimeNotification[] => {
+  return [...(userNotifications.get(userId) ?? [])];
 };
 
 /**
- * Get online users list
+ * Detach a deleted user from the chat: their messages stay so conversations
+ * still read, but no longer name them, and their notifications are dropped.
+ * Returns the number of messages changed.
  */
-export const getOnlineUsers = (): OnlineUser[] => {
-  return Array.from(onlineUsers.values());
+export const anonymizeUserChatData = (userId: string, placeholderId: string): number => {
+  let anonymized = 0;
+
+  for (const messages of chatMessages.values()) {
+    for (const message of messages) {
+      if (message.authorId === userId) {
+        message.authorId = placeholderId;
+        message.author = {
+          ...message.author,
+          id: placeholderId,
+          name: "Deleted user",
+          image: null,
+        };
+        anonymized++;
+      }
+      message.mentions = message.mentions?.filter(id => id !== userId);
+      message.reactions = message.reactions?.map(reaction => {
+        const users = reaction.users.filter(id => id !== userId);
+        return { ...reaction, users, count: users.length };
+      });
+    }
+  }
+
+  userNotifications.delete(userId);
+  return anonymized;
 };
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+
+import { parseScimFilter } from "../protocol";
+import { applyScimUserPatch, parseScimUser, SCIM_USER_FILTER_ATTRIBUTES } from "../users";
+
+const current = {
+  email: "pat@example.com",
+  name: "Pat Lee",
+  externalId: "ext-1",
+  active: true,
+};
+
+describe("SCIM users", () => {
+  it("parses eq filters on supported attributes", () => {
+    expect(parseScimFilter('username eq "a\\"b@example.com"', SCIM_USER_FILTER_ATTRIBUTES)).toEqual(
+      { attribute: "userName", value: 'a"b@example.com' }
+    );
+    expect(parseScimFilter('title eq "x"', SCIM_USER_FILTER_ATTRIBUTES)).toBeNull();
+    expect(parseScimFilter('userName sw "x"', SCIM_USER_FILTER_ATTRIBUTES)).toBeNull();
+  });
+
+  it("reads users with userName as the email", () => {
+    expect(
+      parseScimUser({ userName: "Pat@Example.com", name: { formatted: "Pat Lee" }, active: "True" })
+    ).toEqual({
+      input: { email: "pat@example.com", name: "Pat Lee", externalId: null, active: true },
+      errors: [],
+    });
+    expect(parseScimUser({ userName: "pat" }).errors).toEqual([
+      "userName must be an email address",
+    ]);
+  });
+
+  it("applies patch operations with and without paths", () => {
+    expect(
+      applyScimUserPatch(current, [
+        { op: "replace", value: { displayName: "Pat Smith", active: false } },
+        { op: "Replace", path: 'emails[type eq "work"].value', value: "ignored@example.com" },
+        { op: "remove", path: "externalId" },
+      ])
+    ).toEqual({
+      input: { email: "pat@example.com", name: "Pat Smith", externalId: null, active: false },
+      errors: [],
+    });
+
+    expect(applyScimUserPatch(current, [{ op: "remove", path: "active" }]).errors).toEqual([
+      "active must be a boolean",
+    ]);
+    expect(
+      applyScimUserPatch(current, [{ op: "add", path: "nickName", value: "P" }]).errors
+    ).toEqual(["Unsupported attribute: nickName"]);
+  });
+});
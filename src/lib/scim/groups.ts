@@ -0,0 +1,270 @@
+import { logRoleChange } from "@/lib/audit/audit-service";
+import { SCIM } from "@/lib/auth/constants";
+import { getRoleAssignmentError } from "@/lib/auth/role-grants";
+import { getDefaultRole, getRoles } from "@/lib/auth/role-service";
+import { getUserById, getUsersByRole, updateUserRole } from "@/lib/auth/user-service";
+import { SCIM_SCHEMAS, type ScimFilter } from "@/lib/scim/protocol";
+import type { RoleDefinition, User } from "@/types/auth";
+import type { ScimErrorType, ScimGroup, ScimPatchOperation } from "@/types/scim";
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Membership changes for one group. Users added to a group take its role;
+ * users removed from it fall back to the default role.
+ */
+export interface ScimMemberChanges {
+  add: string[];
+  remove: string[];
+}
+
+/**
+ * Why membership changes were refused
+ */
+export interface ScimMemberUpdateError {
+  status: number;
+  detail: string;
+  scimType: ScimErrorType;
+}
+
+/**
+ * Attributes groups can be filtered on
+ */
+export const SCIM_GROUP_FILTER_ATTRIBUTES = ["id", "displayName"];
+
+function getMemberIds(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const ids = value.map(member =>
+    member !== null && typeof member === "object" && typeof member.value === "string"
+      ? member.value
+      : null
+  );
+  return ids.every(id => id !== null) ? (ids as string[]) : null;
+}
+
+function isGroupName(definition: RoleDefinition, value: unknown): boolean {
+  return (
+    typeof value === "string" &&
+    [definition.role, definition.label].some(name => name.toLowerCase() === value.toLowerCase())
+  );
+}
+
+/**
+ * Role as a SCIM Group resource. Pass null members to leave them out
+ * (excludedAttributes=members).
+ */
+export function toScimGroup(
+  definition: RoleDefinition,
+  members: User[] | null,
+  baseUrl: string
+): ScimGroup {
+  return {
+    schemas: [SCIM_SCHEMAS.GROUP],
+    id: definition.role,
+    displayName: definition.label,
+    ...(members && {
+      members: members.map(user => ({
+        value: user.id,
+        display: user.name ?? user.email,
+        $ref: `${baseUrl}/Users/${user.id}`,
+      })),
+    }),
+    meta: {
+      resourceType: "Group",
+      ...(definition.createdAt && { created: definition.createdAt.toISOString() }),
+      ...(definition.updatedAt && { lastModified: definition.updatedAt.toISOString() }),
+      location: `${baseUrl}/Groups/${definition.role}`,
+    },
+  };
+}
+
+/**
+ * Roles matching a filter, or all roles without one. displayName matches the
+ * role label or name.
+ */
+export async function listScimGroups(filter: ScimFilter | null): Promise<RoleDefinition[]> {
+  const roles = await getRoles();
+  if (!filter) {
+    return roles;
+  }
+
+  return roles.filter(definition =>
+    filter.attribute === "id"
+      ? definition.role === filter.value
+      : isGroupName(definition, filter.value)
+  );
+}
+
+/**
+ * Membership changes that make the members list of a PUT request the new
+ * members of the group
+ */
+export function getScimGroupReplacement(
+  definition: RoleDefinition,
+  body: Record<string, unknown>,
+  currentMemberIds: string[]
+): { changes: ScimMemberChanges; errors: string[] } {
+  const errors: string[] = [];
+  const members = body.members === undefined ? [] : getMemberIds(body.members);
+
+  if (body.displayName !== undefined && !isGroupName(definition, body.displayName)) {
+    errors.push("Group names are managed in the application");
+  }
+  if (!members) {
+    errors.push("members must be a list of { value } objects");
+  }
+
+  return {
+    changes: {
+      add: members ?? [],
+      remove: currentMemberIds.filter(id => !members?.includes(id)),
+    },
+    errors,
+  };
+}
+
+/**
+ * Membership changes described by PatchOp operations on a group
+ */
+export function getScimGroupPatch(
+  definition: RoleDefinition,
+  operations: ScimPatchOperation[],
+  currentMemberIds: string[]
+): { changes: ScimMemberChanges; errors: string[] } {
+  const changes: ScimMemberChanges = { add: [], remove: [] };
+  const errors: string[] = [];
+
+  const apply = (op: string, path: string, value: unknown) => {
+    // Removing one member: members[value eq "<id>"]
+    const memberId = path.match(/^members\[value eq "([^"]+)"\]$/i)?.[1];
+    if (memberId && op === "remove") {
+      changes.remove.push(memberId);
+      return;
+    }
+
+    if (path.toLowerCase() === "displayname") {
+      if (op === "remove" || !isGroupName(definition, value)) {
+        errors.push("Group names are managed in the application");
+      }
+      return;
+    }
+
+    if (path.toLowerCase() !== "members") {
+      errors.push(`Unsupported attribute: ${path}`);
+      return;
+    }
+
+    // Removing without a value empties the group
+    const ids = op === "remove" && value === undefined ? currentMemberIds : getMemberIds(value);
+    if (!ids) {
+      errors.push("members must be a list of { value } objects");
+    } else if (op === "remove") {
+      changes.remove.push(...ids);
+    } else {
+      changes.add.push(...ids);
+      if (op === "replace") {
+        changes.remove.push(...currentMemberIds.filter(id => !ids.includes(id)));
+      }
+    }
+  };
+
+  for (const operation of operations) {
+    const op = operation.op.toLowerCase();
+
+    if (operation.path) {
+      apply(op, operation.path, operation.value);
+    } else if (
+      op !== "remove" &&
+      operation.value !== null &&
+      typeof operation.value === "object" &&
+      !Array.isArray(operation.value)
+    ) {
+      Object.entries(operation.value).forEach(([path, value]) => apply(op, path, value));
+    } else {
+      errors.push(`${operation.op} needs a path`);
+    }
+  }
+
+  return { changes, errors };
+}
+
+/**
+ * Apply membership changes by changing roles, audited like the admin role
+ * route. Refuses without changing anything when a member id does not belong to
+ * a user or a role change is not allowed outside the grant flow.
+ */
+export async function updateScimGroupMembers(
+  definition: RoleDefinition,
+  changes: ScimMemberChanges,
+  context: RequestContext = {}
+): Promise<ScimMemberUpdateError | null> {
+  const ids = Array.from(new Set([...changes.add, ...changes.remove]));
+  const users = new Map<string, User>();
+
+  for (const id of ids) {
+    const user = await getUserById(id);
+    if (user) {
+      users.set(id, user);
+    }
+  }
+
+  const unknown = ids.filter(id => !users.has(id));
+  if (unknown.length > 0) {
+    return { status: 400, detail: `Unknown members: ${unknown.join(", ")}`, scimType: "noTarget" };
+  }
+
+  const defaultRole = await getDefaultRole();
+  const planned = new Map<string, string>();
+
+  for (const id of new Set(changes.remove)) {
+    if (users.get(id)!.role === definition.role && !changes.add.includes(id)) {
+      planned.set(id, defaultRole);
+    }
+  }
+  for (const id of new Set(changes.add)) {
+    planned.set(id, definition.role);
+  }
+
+  for (const [id, role] of planned) {
+    if (users.get(id)!.role === role) {
+      planned.delete(id);
+      continue;
+    }
+
+    const assignmentError = await getRoleAssignmentError(role, id);
+    if (assignmentError) {
+      return {
+        status: assignmentError.status,
+        detail: `${id}: ${assignmentError.message}`,
+        scimType: "mutability",
+      };
+    }
+  }
+
+  for (const [id, role] of planned) {
+    const user = users.get(id)!;
+    await updateUserRole(id, role);
+    await logRoleChange({
+      userId: SCIM.ACTOR_ID,
+      targetUserId: id,
+      oldRole: user.role,
+      newRole: role,
+      ...context,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Current members of a group
+ */
+export function getScimGroupMembers(definition: RoleDefinition): Promise<User[]> {
+  return getUsersByRole(definition.role);
+}
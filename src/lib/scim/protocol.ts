@@ -0,0 +1,174 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+import { NextResponse } from "next/server";
+
+import { getBearerToken } from "@/lib/auth/api-tokens";
+import { SCIM } from "@/lib/auth/constants";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import type {
+  ScimErrorBody,
+  ScimErrorType,
+  ScimListResponse,
+  ScimPatchOperation,
+} from "@/types/scim";
+
+export const SCIM_SCHEMAS = {
+  USER: "urn:ietf:params:scim:schemas:core:2.0:User",
+  GROUP: "urn:ietf:params:scim:schemas:core:2.0:Group",
+  LIST_RESPONSE: "urn:ietf:params:scim:api:messages:2.0:ListResponse",
+  PATCH_OP: "urn:ietf:params:scim:api:messages:2.0:PatchOp",
+  ERROR: "urn:ietf:params:scim:api:messages:2.0:Error",
+} as const;
+
+const PATCH_OPS = ["add", "replace", "remove"];
+
+/**
+ * A filter of the form `attribute eq "value"`, the only form identity
+ * providers send when looking up users and groups before provisioning them
+ */
+export interface ScimFilter {
+  attribute: string;
+  value: string;
+}
+
+/**
+ * Whether the request carries the SCIM bearer token. SCIM is disabled while
+ * SCIM_BEARER_TOKEN is not set.
+ */
+export function isScimRequestAuthorized(headers: Headers): boolean {
+  const expected = process.env.SCIM_BEARER_TOKEN;
+  const token = getBearerToken(headers);
+  if (!expected || !token) {
+    return false;
+  }
+
+  // Compare digests so the comparison does not leak the token length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+/**
+ * JSON response with the SCIM media type
+ */
+export function scimResponse(body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: { "Content-Type": "application/scim+json" },
+  });
+}
+
+/**
+ * SCIM error response (RFC 7644 section 3.12)
+ */
+export function scimError(status: number, detail: string, scimType?: ScimErrorType): NextResponse {
+  const body: ScimErrorBody = {
+    schemas: [SCIM_SCHEMAS.ERROR],
+    status: String(status),
+    ...(scimType && { scimType }),
+    detail,
+  };
+  return scimResponse(body, status);
+}
+
+/**
+ * Base URL of the SCIM endpoints, for resource locations
+ */
+export function getScimBaseUrl(request: Request): string {
+  return new URL("/api/scim/v2", request.url).toString();
+}
+
+/**
+ * Client details recorded on audit entries
+ */
+export function getScimRequestContext(request: Request): {
+  ipAddress?: string;
+  userAgent?: string;
+} {
+  return {
+    ipAddress: getClientIp(request.headers),
+    userAgent: request.headers.get("user-agent") ?? undefined,
+  };
+}
+
+/**
+ * Read a JSON object request body. Returns null when the body is not a JSON
+ * object.
+ */
+export async function readScimBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body !== null && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a filter query parameter. Returns null when the filter is not an `eq`
+ * comparison on one of the given attributes (compared case-insensitively, as
+ * SCIM attribute names are).
+ */
+export function parseScimFilter(filter: string, attributes: string[]): ScimFilter | null {
+  const [, name = "", value = ""] =
+    filter.trim().match(/^([\w.$:]+)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i) ?? [];
+
+  const attribute = attributes.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return attribute ? { attribute, value: value.replace(/\\(.)/g, "$1") } : null;
+}
+
+/**
+ * Read startIndex (1-based) and count from the query string
+ */
+export function getScimPage(searchParams: URLSearchParams): { startIndex: number; count: number } {
+  const startIndex = Number.parseInt(searchParams.get("startIndex") ?? "", 10);
+  const count = Number.parseInt(searchParams.get("count") ?? "", 10);
+
+  return {
+    startIndex: Number.isNaN(startIndex) ? 1 : Math.max(startIndex, 1),
+    count: Number.isNaN(count) ? SCIM.DEFAULT_COUNT : Math.min(Math.max(count, 0), SCIM.MAX_COUNT),
+  };
+}
+
+/**
+ * One page of resources as a SCIM list response
+ */
+export function toScimListResponse<T>(
+  resources: T[],
+  page: { startIndex: number; count: number }
+): ScimListResponse<T> {
+  const pageResources = resources.slice(page.startIndex - 1, page.startIndex - 1 + page.count);
+
+  return {
+    schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+    totalResults: resources.length,
+    startIndex: page.startIndex,
+    itemsPerPage: pageResources.length,
+    Resources: pageResources,
+  };
+}
+
+/**
+ * Read the operations of a PatchOp request body. Returns null when the body is
+ * not a PatchOp message or an operation is not add, replace or remove.
+ */
+export function getPatchOperations(body: Record<string, unknown>): ScimPatchOperation[] | null {
+  const { schemas, Operations: operations } = body;
+
+  if (!Array.isArray(schemas) || !schemas.includes(SCIM_SCHEMAS.PATCH_OP)) {
+    return null;
+  }
+  if (!Array.isArray(operations)) {
+    return null;
+  }
+
+  const valid = operations.every(
+    operation =>
+      operation !== null &&
+      typeof operation === "object" &&
+      typeof operation.op === "string" &&
+      PATCH_OPS.includes(operation.op.toLowerCase()) &&
+      (operation.path === undefined || typeof operation.path === "string")
+  );
+
+  return valid ? operations : null;
+}
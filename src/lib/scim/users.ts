@@ -0,0 +1,359 @@
+import { logProvisioningEvent, logUserStatusChange } from "@/lib/audit/audit-service";
+import { SCIM } from "@/lib/auth/constants";
+import { getRoleDefinition } from "@/lib/auth/role-registry";
+import { getDefaultRole } from "@/lib/auth/role-service";
+import {
+  createProvisionedUser,
+  getUserByEmail,
+  getUsers,
+  normalizeEmail,
+  toggleUserStatus,
+  updateUser,
+} from "@/lib/auth/user-service";
+import { SCIM_SCHEMAS, type ScimFilter } from "@/lib/scim/protocol";
+import type { User } from "@/types/auth";
+import type { ScimPatchOperation, ScimUser, ScimUserInput } from "@/types/scim";
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Attributes users can be filtered on
+ */
+export const SCIM_USER_FILTER_ATTRIBUTES = ["id", "userName", "externalId", "emails.value"];
+
+const CORE_SCHEMA_PREFIX = `${SCIM_SCHEMAS.USER}:`;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Some identity providers send booleans as "True"/"False"
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "string" && ["true", "false"].includes(value.toLowerCase())) {
+    return value.toLowerCase() === "true";
+  }
+  return null;
+}
+
+function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function getFullName(name: unknown): string | null {
+  if (!isRecord(name)) {
+    return null;
+  }
+
+  return (
+    toOptionalString(name.formatted) ??
+    toOptionalString(
+      [name.givenName, name.familyName].filter(part => typeof part === "string").join(" ")
+    )
+  );
+}
+
+/**
+ * Validate user fields from a SCIM request
+ */
+export function validateScimUserInput(input: Partial<ScimUserInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.email) {
+    errors.push("userName is required");
+  } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email)) {
+    errors.push("userName must be an email address");
+  }
+
+  return errors;
+}
+
+/**
+ * Read the fields this app stores from a User resource. userName is the user's
+ * email address; displayName (or name) is their name.
+ */
+export function parseScimUser(resource: Record<string, unknown>): {
+  input: ScimUserInput;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const active = resource.active === undefined ? undefined : toBoolean(resource.active);
+
+  if (active === null) {
+    errors.push("active must be a boolean");
+  }
+
+  const input: ScimUserInput = {
+    email: typeof resource.userName === "string" ? normalizeEmail(resource.userName) : "",
+    name: toOptionalString(resource.displayName) ?? getFullName(resource.name),
+    externalId: toOptionalString(resource.externalId),
+    ...(typeof active === "boolean" && { active }),
+  };
+
+  return { input, errors: [...validateScimUserInput(input), ...errors] };
+}
+
+/**
+ * Apply PatchOp operations to a user's current fields. The name is stored as
+ * one field, so only displayName, name.formatted and name can change it;
+ * emails and extension attributes are accepted and ignored.
+ */
+export function applyScimUserPatch(
+  current: ScimUserInput,
+  operations: ScimPatchOperation[]
+): { input: ScimUserInput; errors: string[] } {
+  const input = { ...current };
+  const errors: string[] = [];
+
+  const apply = (op: string, path: string, value: unknown) => {
+    const attribute = path.startsWith(CORE_SCHEMA_PREFIX)
+      ? path.slice(CORE_SCHEMA_PREFIX.length)
+      : path;
+    const remove = op === "remove";
+
+    switch (attribute.toLowerCase()) {
+      case "username":
+        if (remove || typeof value !== "string") {
+          errors.push("userName must be a string");
+        } else {
+          input.email = normalizeEmail(value);
+        }
+        return;
+      case "displayname":
+      case "name.formatted":
+        input.name = remove ? null : toOptionalString(value);
+        return;
+      case "name":
+        input.name = remove ? null : getFullName(value);
+        return;
+      case "externalid":
+        input.externalId = remove ? null : toOptionalString(value);
+        return;
+      case "active": {
+        const active = remove ? null : toBoolean(value);
+        if (active === null) {
+          errors.push("active must be a boolean");
+        } else {
+          input.active = active;
+        }
+        return;
+      }
+      case "groups":
+        errors.push("Roles are changed through the Groups endpoint");
+        return;
+    }
+
+    if (
+      !attribute.toLowerCase().startsWith("emails") &&
+      !attribute.toLowerCase().startsWith("name.") &&
+      !attribute.startsWith("urn:")
+    ) {
+      errors.push(`Unsupported attribute: ${path}`);
+    }
+  };
+
+  for (const operation of operations) {
+    const op = operation.op.toLowerCase();
+
+    if (operation.path) {
+      apply(op, operation.path, operation.value);
+    } else if (op !== "remove" && isRecord(operation.value)) {
+      Object.entries(operation.value).forEach(([path, value]) => apply(op, path, value));
+    } else {
+      errors.push(`${operation.op} needs a path`);
+    }
+  }
+
+  return { input, errors: [...validateScimUserInput(input), ...errors] };
+}
+
+/**
+ * The user's current fields, as a starting point for a patch
+ */
+export function toScimUserInput(user: User): ScimUserInput {
+  return {
+    email: user.email,
+    name: user.name,
+    externalId: user.externalId ?? null,
+    active: user.isActive,
+  };
+}
+
+/**
+ * User as a SCIM User resource
+ */
+export function toScimUser(user: User, baseUrl: string): ScimUser {
+  return {
+    schemas: [SCIM_SCHEMAS.USER],
+    id: user.id,
+    ...(user.externalId && { externalId: user.externalId }),
+    userName: user.email,
+    ...(user.name && { name: { formatted: user.name }, displayName: user.name }),
+    emails: [{ value: user.email, type: "work", primary: true }],
+    active: user.isActive,
+    groups: [
+      {
+        value: user.role,
+        display: getRoleDefinition(user.role)?.label ?? user.role,
+        $ref: `${baseUrl}/Groups/${user.role}`,
+      },
+    ],
+    meta: {
+      resourceType: "User",
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+      location: `${baseUrl}/Users/${user.id}`,
+    },
+  };
+}
+
+/**
+ * Users matching a filter, or all users without one
+ */
+export async function listScimUsers(filter: ScimFilter | null): Promise<User[]> {
+  const { users } = await getUsers({ limit: Number.MAX_SAFE_INTEGER });
+  if (!filter) {
+    return users;
+  }
+
+  switch (filter.attribute) {
+    case "id":
+      return users.filter(user => user.id === filter.value);
+    case "externalId":
+      return users.filter(user => user.externalId === filter.value);
+    default:
+      return users.filter(user => user.email === normalizeEmail(filter.value));
+  }
+}
+
+/**
+ * Why the fields clash with another user, or null when they do not. Pass the
+ * user being updated so it does not clash with itself.
+ */
+export async function getScimUserConflict(
+  input: ScimUserInput,
+  userId?: string
+): Promise<string | null> {
+  const owner = await getUserByEmail(input.email);
+  if (owner && owner.id !== userId) {
+    return "A user with this userName already exists";
+  }
+
+  if (input.externalId) {
+    const [linked] = await listScimUsers({ attribute: "externalId", value: input.externalId });
+    if (linked && linked.id !== userId) {
+      return "A user with this externalId already exists";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Activate or deactivate a user, audited like the admin status route
+ */
+export async function setScimUserStatus(
+  user: User,
+  isActive: boolean,
+  context: RequestContext = {}
+): Promise<User> {
+  const updated = await toggleUserStatus(user.id, isActive);
+  if (!updated) {
+    throw new Error("Failed to update user status");
+  }
+
+  await logUserStatusChange({
+    userId: SCIM.ACTOR_ID,
+    targetUserId: user.id,
+    action: isActive ? "activate" : "deactivate",
+    ...context,
+  });
+
+  return updated;
+}
+
+/**
+ * Create a user with the default role. Callers check getScimUserConflict first.
+ */
+export async function createScimUser(
+  input: ScimUserInput,
+  context: RequestContext = {}
+): Promise<User> {
+  const user = await createProvisionedUser({
+    email: input.email,
+    name: input.name,
+    externalId: input.externalId,
+    role: await getDefaultRole(),
+    isActive: input.active ?? true,
+  });
+
+  await logProvisioningEvent({
+    userId: SCIM.ACTOR_ID,
+    targetUserId: user.id,
+    event: "created",
+    email: user.email,
+    changes: {
+      email: { from: null, to: user.email },
+      name: { from: null, to: user.name },
+      externalId: { from: null, to: user.externalId },
+      isActive: { from: null, to: user.isActive },
+    },
+    ...context,
+  });
+
+  return user;
+}
+
+/**
+ * Update a user to match the given fields. A missing active flag leaves the
+ * status as it is. Callers check getScimUserConflict first.
+ */
+export async function updateScimUser(
+  user: User,
+  input: ScimUserInput,
+  context: RequestContext = {}
+): Promise<User> {
+  const current = toScimUserInput(user);
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of ["email", "name", "externalId"] as const) {
+    if (input[field] !== current[field]) {
+      changes[field] = { from: current[field], to: input[field] };
+    }
+  }
+
+  let updated = user;
+
+  if (Object.keys(changes).length > 0) {
+    const result = await updateUser(user.id, {
+      email: input.email,
+      name: input.name,
+      externalId: input.externalId,
+      updatedAt: new Date(),
+    });
+    if (!result) {
+      throw new Error("Failed to update user");
+    }
+    updated = result;
+
+    await logProvisioningEvent({
+      userId: SCIM.ACTOR_ID,
+      targetUserId: user.id,
+      event: "updated",
+      email: updated.email,
+      changes,
+      ...context,
+    });
+  }
+
+  if (input.active !== undefined && input.active !== user.isActive) {
+    updated = await setScimUserStatus(updated, input.active, context);
+  }
+
+  return updated;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+
+import { parseCsv, toCsv } from "../csv";
+
+describe("CSV", () => {
+  it("should parse quoted fields, escaped quotes and CRLF line endings", () => {
+    const text =
+      '﻿email,name\r\na@example.com,"Doe, Jane"\r\n\r\nb@example.com,"Say ""hi""\nthere"\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["email", "name"],
+      ["a@example.com", "Doe, Jane"],
+      ["b@example.com", 'Say "hi"\nthere'],
+    ]);
+  });
+
+  it("should reject an unterminated quoted field", () => {
+    expect(() => parseCsv('email\n"a@example.com')).toThrow("Unterminated");
+  });
+
+  it("should round-trip values and neutralize spreadsheet formulas", () => {
+    const csv = toCsv([
+      ["name", "active"],
+      ['Doe, "JD"', true],
+      ["=HYPERLINK()", null],
+    ]);
+
+    expect(csv).toBe('name,active\r\n"Doe, ""JD""",true\r\n\'=HYPERLINK(),');
+    expect(parseCsv(csv)[1]).toEqual(['Doe, "JD"', "true"]);
+  });
+});
@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { createJsonCollection } from "../json-file";
+
+interface Note {
+  id: string;
+  text: string;
+  expiresAt: Date;
+}
+
+const later = () => new Date(Date.now() + 60_000);
+
+describe("JSON collection store", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "json-store-"));
+    vi.stubEnv("USER_STORE", "file");
+    vi.stubEnv("NOTE_STORE_PATH", path.join(dir, "notes.json"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // Each call stands in for another process sharing the file
+  const openNotes = () =>
+    createJsonCollection<Note>({
+      file: { name: "notes.json", pathEnv: "NOTE_STORE_PATH" },
+      dateFields: new Set(["expiresAt"]),
+      key: note => note.id,
+      expired: (note, now) => note.expiresAt <= now,
+    });
+
+  it("should see changes written by another instance", async () => {
+    const first = openNotes();
+    const second = openNotes();
+    expect((await second.read()).size).toBe(0);
+
+    await first.change(notes => notes.set("a", { id: "a", text: "hello", expiresAt: later() }));
+
+    const note = (await second.read()).get("a");
+    expect(note).toMatchObject({ text: "hello" });
+    expect(note?.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it("should apply each change to the latest file contents", async () => {
+    const first = openNotes();
+    const second = openNotes();
+    await first.read();
+    await second.read();
+
+    await first.change(notes => notes.set("a", { id: "a", text: "a", expiresAt: later() }));
+    await second.change(notes => notes.set("b", { id: "b", text: "b", expiresAt: later() }));
+    await Promise.all(
+      ["c", "d", "e"].map(id =>
+        first.change(notes => notes.set(id, { id, text: id, expiresAt: later() }))
+      )
+    );
+
+    expect(Array.from((await openNotes().read()).keys()).sort()).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("should drop expired records and skip the write when nothing changed", async () => {
+    const store = openNotes();
+    await store.change(notes => {
+      notes.set("old", { id: "old", text: "old", expiresAt: new Date(Date.now() - 1) });
+      notes.set("new", { id: "new", text: "new", expiresAt: later() });
+    });
+    expect(Array.from((await store.read()).keys())).toEqual(["new"]);
+
+    const result = await store.change(
+      notes => notes.delete("missing"),
+      deleted => deleted
+    );
+    expect(result).toBe(false);
+  });
+
+  it("should discard a failed change", async () => {
+    const store = openNotes();
+    await store.change(notes => notes.set("a", { id: "a", text: "a", expiresAt: later() }));
+
+    await expect(
+      store.change(notes => {
+        notes.delete("a");
+        throw new Error("Refused");
+      })
+    ).rejects.toThrow("Refused");
+
+    expect((await store.read()).has("a")).toBe(true);
+  });
+
+  it("should keep records in memory only under another driver", async () => {
+    vi.stubEnv("USER_STORE", "memory");
+    const store = openNotes();
+
+    await store.change(notes => notes.set("a", { id: "a", text: "a", expiresAt: later() }));
+
+    expect((await store.read()).has("a")).toBe(true);
+    await expect(fs.access(path.join(dir, "notes.json"))).rejects.toThrow();
+  });
+});
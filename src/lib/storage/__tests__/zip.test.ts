@@ -0,0 +1,29 @@
+import { inflateRawSync } from "zlib";
+
+import { describe, it, expect } from "vitest";
+
+import { createZipArchive } from "../zip";
+
+describe("ZIP", () => {
+  it("should write entries that inflate back to their content", () => {
+    const archive = createZipArchive([
+      { name: "README.txt", content: "hello" },
+      { name: "data/user.json", content: Buffer.from('{"id":"1"}') },
+    ]);
+
+    // Local header of the first entry
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    const nameLength = archive.readUInt16LE(26);
+    const compressedSize = archive.readUInt32LE(18);
+    expect(archive.subarray(30, 30 + nameLength).toString()).toBe("README.txt");
+    const data = archive.subarray(30 + nameLength, 30 + nameLength + compressedSize);
+    expect(inflateRawSync(data).toString()).toBe("hello");
+    expect(archive.readUInt32LE(14)).toBe(0x3610a686); // CRC-32 of "hello"
+
+    // End of central directory lists both entries
+    const end = archive.subarray(archive.length - 22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+    expect(archive.readUInt32LE(end.readUInt32LE(16))).toBe(0x02014b50);
+  });
+});
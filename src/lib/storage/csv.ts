@@ -0,0 +1,74 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, CRLF or LF line
+ * endings) into rows of cells. Blank lines are skipped. Throws on an
+ * unterminated quoted field.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Serialize rows of cells as CSV. Cells that a spreadsheet would evaluate as a
+ * formula are prefixed with a quote so exports are safe to open.
+ */
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          let cell = value === null || value === undefined ? "" : String(value);
+          if (/^[=+\-@\t\r]/.test(cell)) {
+            cell = `'${cell}`;
+          }
+          return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
@@ -0,0 +1,212 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Read and parse a JSON file. Returns null when the file does not exist yet.
+ * Keys listed in dateFields are revived from ISO strings into Date objects.
+ */
+export async function readJsonFile<T>(
+  filePath: string,
+  dateFields: ReadonlySet<string> = new Set()
+): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw, (key, value) =>
+      dateFields.has(key) && typeof value === "string" ? new Date(value) : value
+    ) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write data as JSON, replacing the file atomically so a crash mid-write never
+ * leaves a truncated file behind. Callers must serialize concurrent writes.
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf8");
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * A value that changes whenever the file is rewritten, or null when it does not
+ * exist. writeJsonFile replaces the file, so its inode changes on every write.
+ */
+export async function getFileVersion(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.stat(filePath);
+    return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a path inside the local data directory used by the file stores
+ */
+export function getDataFilePath(fileName: string): string {
+  return path.join(process.cwd(), ".data", fileName);
+}
+
+/**
+ * Storage driver selected by USER_STORE ("file" or "memory").
+ * Defaults to "file" outside of tests.
+ */
+export function getStoreDriver(): string {
+  return process.env.USER_STORE ?? (process.env.NODE_ENV === "test" ? "memory" : "file");
+}
+
+export interface JsonStoreOptions<S, F> {
+  /**
+   * A fixed path, or a file in the data directory (its path overridable with an
+   * environment variable) that is only used under the file driver
+   */
+  file: string | { name: string; pathEnv: string };
+  /** Keys revived from ISO strings into Date objects */
+  dateFields?: ReadonlySet<string>;
+  /** Build the state from the file contents, or from null when there is no file */
+  parse: (stored: F | null) => S;
+  /** What to write to the file for a state */
+  serialize: (state: S) => F | Promise<F>;
+  /** Write the initial state when there is no file yet */
+  createFile?: boolean;
+  /** Drop what can never be needed again, before each write */
+  compact?: (state: S) => void;
+}
+
+/**
+ * State kept in a JSON file, or only in memory when a data directory file is
+ * used and the driver is not "file". Reads pick up changes other processes
+ * wrote to the file. Changes run one at a time, each applied to the latest file
+ * contents, so changes made elsewhere in between are kept rather than
+ * overwritten.
+ *
+ * The file is not locked: two processes changing it at the same moment can
+ * still overwrite each other.
+ */
+export class JsonStore<S, F = unknown> {
+  private cache: { state: S; version: string | null } | null = null;
+  private loading: Promise<S> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: JsonStoreOptions<S, F>) {}
+
+  /**
+   * The current state. Only modify it inside change().
+   */
+  async read(): Promise<S> {
+    const filePath = this.getFilePath();
+    if (this.cache && (!filePath || this.cache.version === (await getFileVersion(filePath)))) {
+      return this.cache.state;
+    }
+
+    // A failed read is retried by the next caller rather than cached
+    this.loading ??= this.readFile(filePath).finally(() => {
+      this.loading = null;
+    });
+
+    return this.loading;
+  }
+
+  /**
+   * Apply a change to the latest state and write the result back when changed
+   * says it changed anything (by default, always)
+   */
+  change<T>(
+    apply: (state: S) => T | Promise<T>,
+    changed: (result: T) => boolean = () => true
+  ): Promise<T> {
+    const run = async () => {
+      const state = await this.read();
+      try {
+        const result = await apply(state);
+        if (changed(result)) {
+          this.options.compact?.(state);
+          await this.write(state);
+        }
+        return result;
+      } catch (error) {
+        // The cached copy may hold a change that never reached the file
+        if (this.getFilePath()) {
+          this.cache = null;
+        }
+        throw error;
+      }
+    };
+
+    const result = this.writeQueue.then(run, run);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private getFilePath(): string | null {
+    const { file } = this.options;
+    if (typeof file === "string") {
+      return file;
+    }
+    if (getStoreDriver() !== "file") {
+      return null;
+    }
+    return process.env[file.pathEnv] ?? getDataFilePath(file.name);
+  }
+
+  private async readFile(filePath: string | null): Promise<S> {
+    const version = filePath ? await getFileVersion(filePath) : null;
+    const stored = filePath ? await readJsonFile<F>(filePath, this.options.dateFields) : null;
+    const state = this.options.parse(stored);
+    this.cache = { state, version };
+
+    if (stored === null && this.options.createFile) {
+      await this.write(state);
+    }
+    return state;
+  }
+
+  private async write(state: S): Promise<void> {
+    const filePath = this.getFilePath();
+    if (!filePath) {
+      return;
+    }
+
+    await writeJsonFile(filePath, await this.options.serialize(state));
+    this.cache = { state, version: await getFileVersion(filePath) };
+  }
+}
+
+/**
+ * A JsonStore of records keyed by id, kept in the file as an array. Records
+ * matching expired (tokens past their expiry, say) are dropped on each change.
+ */
+export function createJsonCollection<T>(
+  options: Pick<JsonStoreOptions<Map<string, T>, T[]>, "file" | "dateFields"> & {
+    key: (record: T) => string;
+    expired?: (record: T, now: Date) => boolean;
+  }
+): JsonStore<Map<string, T>, T[]> {
+  const { key, expired, ...storeOptions } = options;
+
+  return new JsonStore<Map<string, T>, T[]>({
+    ...storeOptions,
+    parse: stored => new Map((stored ?? []).map(record => [key(record), record])),
+    serialize: records => Array.from(records.values()),
+    compact: expired
+      ? records => {
+          const now = new Date();
+          for (const [id, record] of records) {
+            if (expired(record, now)) {
+              records.delete(id);
+            }
+          }
+        }
+      : undefined,
+  });
+}
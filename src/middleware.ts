@@ -1,8 +1,13 @@
 import { NextResponse, type NextRequest } from "next/server";
 
+import { logImpersonationEvent } from "@/lib/audit/audit-service";
 import { auth } from "@/lib/auth";
-import { hasAllPermissions } from "@/lib/auth/permissions";
-import { authRoutes, matchesPath, getRoutePermissions } from "@/lib/middleware/auth";
+import { authenticateApiToken, getBearerToken } from "@/lib/auth/api-tokens";
+import { WORKSPACES } from "@/lib/auth/constants";
+import { isImpersonationBlocked } from "@/lib/auth/impersonation";
+import { getClientIp } from "@/lib/middleware/client-ip";
+import { enforceRateLimitPolicies } from "@/lib/middleware/rate-limit";
+import { evaluateRouteAccess } from "@/lib/middleware/route-access";
 import type { User } from "@/types/auth";
 
 export async function middleware(request: NextRequest) {
@@ -10,26 +15,64 @@ export async function middleware(request: NextRequest) {
   // TODO: Replace with structured logging (FE-159)
   console.log(`[MIDDLEWARE START] Request to: ${pathname}`);
 
+  // Rate limits cover the public routes skipped below too (sign-in, avatar proxies)
+  const rateLimited = await enforceRateLimitPolicies(request);
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   // Skip middleware for static files, API auth routes, and health checks
   if (
     pathname.startsWith("/_next") ||
     pathname.startsWith("/favicon.ico") ||
     pathname.startsWith("/api/auth") ||
     pathname.startsWith("/api/avatar") || // Avatar API routes are public
+    pathname.startsWith("/api/scim") || // SCIM routes check their own bearer token
+    pathname.startsWith("/api/cron") || // Scheduled jobs check CRON_SECRET
     pathname === "/api/health"
   ) {
     return NextResponse.next();
   }
 
   try {
-    const session = await auth();
-    const user = session?.user as User | undefined;
+    // Scripts and services send a personal access token instead of the session cookie,
+    // and pick a workspace with the x-workspace-id header
+    const bearerToken = getBearerToken(request.headers);
+    const session = bearerToken ? null : await auth();
+    const user = bearerToken
+      ? ((await authenticateApiToken(bearerToken, request.headers.get(WORKSPACES.HEADER))) ??
+        undefined)
+      : (session?.user as User | undefined);
 
     // TODO: Replace with structured logging (FE-159)
     // console.log(
     //   `[MIDDLEWARE] Path: ${pathname}, User: ${user ? `${user.email} (${user.role})` : "none"}, Session: ${!!session}`
     // );
 
+    // Admin viewing as another user: audit every request and refuse changes
+    // unless the admin allowed them when starting
+    const impersonator = session?.impersonator;
+    if (impersonator && user) {
+      const blocked = isImpersonationBlocked(impersonator, request.method, pathname);
+      await logImpersonationEvent({
+        adminId: impersonator.id,
+        targetUserId: user.id,
+        event: blocked ? "blocked" : "request",
+        method: request.method,
+        path: pathname,
+        workspaceId: user.workspaceId,
+        ipAddress: getClientIp(request.headers),
+        userAgent: request.headers.get("user-agent") ?? undefined,
+      });
+
+      if (blocked) {
+        return NextResponse.json(
+          { error: "This action is not allowed while impersonating" },
+          { status: 403 }
+        );
+      }
+    }
+
     // SPECIAL CASE: Root route - redirect based on auth status
     // This prevents authentication bypass via root route (FE-229)
     if (pathname === "/") {
@@ -42,78 +85,56 @@ export async function middleware(request: NextRequest) {
       }
     }
 
+    // Access rules come from the route manifest; the same decision backs the
+    // admin access explainer
+    const decision = await evaluateRouteAccess(pathname, user ?? null, {
+      emailVerificationRequired: session
+        ? session.user?.emailVerificationRequired
+        : !user?.emailVerified,
+      twoFactorSetupRequired: session?.user?.twoFactorSetupRequired,
+    });
+
     // Handle public routes
-    if (matchesPath(pathname, authRoutes.public)) {
+    if (decision.access === "public") {
       // TODO: Replace with structured logging (FE-159)
       // console.log(`[MIDDLEWARE] ${pathname} is PUBLIC route`);
-      // If user is authenticated and trying to access login, redirect to dashboard
-      if (user && (pathname === "/login" || pathname === "/auth/signin")) {
+      // If user is authenticated and trying to access login or signup, redirect to dashboard
+      if (
+        user &&
+        (pathname === "/login" || pathname === "/auth/signin" || pathname === "/auth/signup")
+      ) {
         return NextResponse.redirect(new URL("/dashboard", request.url));
       }
       return NextResponse.next();
     }
 
-    // Authentication required for protected routes
-    // TODO: Replace with structured logging (FE-159)
-    // console.log(`[MIDDLEWARE] ${pathname} is NOT public, checking auth...`);
-    if (!user) {
+    // Signed out, deactivated, unverified email, pending 2FA enrollment, wrong
+    // role or missing permissions: API routes get the error, pages a redirect
+    const { denial } = decision;
+    if (denial) {
       // TODO: Replace with structured logging (FE-159)
-      // console.log(`[MIDDLEWARE] NO USER found, redirecting to login`);
-      // For API routes, return 401
-      if (pathname.startsWith("/api")) {
-        return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-      }
-      // For pages, redirect to login
-      const loginUrl = new URL("/login", request.url);
-      loginUrl.searchParams.set("callbackUrl", pathname + request.nextUrl.search);
-      return NextResponse.redirect(loginUrl);
-    }
-
-    // Check if user account is active
-    if (!user.isActive) {
+      // console.log(`[MIDDLEWARE] ${pathname} denied by ${denial.check} check`);
       if (pathname.startsWith("/api")) {
-        return NextResponse.json({ error: "Account is inactive" }, { status: 403 });
+        return NextResponse.json(
+          {
+            error: denial.error,
+            ...(denial.check === "permissions" && {
+              requiredPermissions: decision.requiredPermissions,
+              userPermissions: decision.userPermissions,
+            }),
+          },
+          { status: denial.status }
+        );
       }
-      return NextResponse.redirect(new URL("/auth/inactive", request.url));
-    }
-
-    // Check admin routes
-    if (matchesPath(pathname, authRoutes.admin)) {
-      if (user.role !== "ADMIN") {
-        if (pathname.startsWith("/api")) {
-          return NextResponse.json({ error: "Admin access required" }, { status: 403 });
-        }
-        return NextResponse.redirect(new URL("/dashboard", request.url));
-      }
-    }
-
-    // Check editor routes
-    if (matchesPath(pathname, authRoutes.editor)) {
-      if (user.role !== "ADMIN" && user.role !== "EDITOR") {
-        if (pathname.startsWith("/api")) {
-          return NextResponse.json({ error: "Editor access required" }, { status: 403 });
-        }
-        return NextResponse.redirect(new URL("/dashboard", request.url));
+      const redirectUrl = new URL(denial.redirectTo, request.url);
+      if (denial.check === "authentication") {
+        redirectUrl.searchParams.set("callbackUrl", pathname + request.nextUrl.search);
       }
+      return NextResponse.redirect(redirectUrl);
     }
-
-    // Check specific route permissions
-    const requiredPermissions = getRoutePermissions(pathname);
-    if (requiredPermissions.length > 0) {
-      const hasPermissions = await hasAllPermissions(user, requiredPermissions);
-      if (!hasPermissions) {
-        if (pathname.startsWith("/api")) {
-          return NextResponse.json(
-            {
-              error: "Insufficient permissions",
-              requiredPermissions,
-              userPermissions: user.permissions ?? [],
-            },
-            { status: 403 }
-          );
-        }
-        return NextResponse.redirect(new URL("/dashboard", request.url));
-      }
+    // Never reached: the decision denies signed-out users on non-public routes
+    if (!user) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
     }
 
     // Add user info to headers for API routes
@@ -122,6 +143,9 @@ export async function middleware(request: NextRequest) {
     response.headers.set("x-user-role", user.role);
     response.headers.set("x-user-permissions", JSON.stringify(user.permissions ?? []));
     response.headers.set("x-user-active", user.isActive.toString());
+    if (user.workspaceId) {
+      response.headers.set(WORKSPACES.HEADER, user.workspaceId);
+    }
 
     return response;
   } catch (error) {
@@ -138,6 +162,8 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
+  // The user store reads from disk, which the Edge runtime cannot do
+  runtime: "nodejs",
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
@@ -1,8 +1,10 @@
 import { vi } from "vitest";
 import { Session } from "next-auth";
-import { UserRole, User, Permission } from "@/types/auth";
 import { createMockSession, createMockAdminSession, createMockEditorSession } from "./test-utils";
 
+// Kept here for existing imports
+export { createUserWithPermissions } from "./user-fixtures";
+
 // Mock Auth.js session hook
 export const mockUseSession = (session: Session | null = null) => {
   vi.mock("next-auth/react", () => ({
@@ -49,25 +51,6 @@ export const authTestScenarios = {
   admin: () => mockUseSession(createMockAdminSession()),
 };
 
-// Helper to create user with specific permissions
-export const createUserWithPermissions = (permissions: Permission[]): User => ({
-  id: "1",
-  email: "test@example.com",
-  name: "Test User",
-  image: "https://example.com/avatar.jpg",
-  username: "testuser",
-  role: UserRole.USER,
-  provider: "github",
-  providerId: "github-123",
-  isActive: true,
-  emailVerified: true,
-  lastLoginAt: new Date(),
-  createdAt: new Date(),
-  updatedAt: new Date(),
-  permissions,
-  metadata: {},
-});
-
 // Mock API responses
 export const mockApiResponse = (data: any, status = 200) => {
   global.fetch = vi.fn(() =>
@@ -0,0 +1,14 @@
+import { vi } from "vitest";
+
+import { auth } from "@/lib/auth";
+import type { UserRole } from "@/types/auth";
+
+/**
+ * Sign in as an active user with `role` for route handler tests. The test file
+ * must mock auth: vi.mock("@/lib/auth", () => ({ auth: vi.fn() })).
+ */
+export function signInAs(role: UserRole | string, user: Record<string, unknown> = {}) {
+  vi.mocked(auth).mockResolvedValue({
+    user: { id: "actor", email: "actor@example.com", role, isActive: true, ...user },
+  } as any);
+}
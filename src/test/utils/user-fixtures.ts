@@ -0,0 +1,41 @@
+import { UserRole, type Permission, type User } from "@/types/auth";
+
+// Helper to create user with specific permissions
+export const createUserWithPermissions = (
+  permissions: Permission[],
+  overrides: Partial<User> = {}
+): User => ({
+  id: "1",
+  email: "test@example.com",
+  name: "Test User",
+  image: "https://example.com/avatar.jpg",
+  username: "testuser",
+  role: UserRole.USER,
+  provider: "github",
+  providerId: "github-123",
+  isActive: true,
+  emailVerified: true,
+  lastLoginAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  permissions,
+  metadata: {},
+  ...overrides,
+});
+
+// Helper to create a stored user whose fields derive from its id
+export const createTestUser = (id: string, overrides: Partial<User> = {}): User => ({
+  id,
+  email: `${id}@example.com`,
+  name: `User ${id}`,
+  image: null,
+  username: id,
+  role: UserRole.USER,
+  provider: "credentials",
+  providerId: id,
+  isActive: true,
+  emailVerified: true,
+  createdAt: new Date("2024-01-01"),
+  updatedAt: new Date("2024-01-01"),
+  ...overrides,
+});
@@ -3,11 +3,71 @@ export enum AuditAction {
   LOGIN_SUCCESS = "LOGIN_SUCCESS",
   LOGIN_FAILED = "LOGIN_FAILED",
   LOGOUT = "LOGOUT",
+  ACCOUNT_LOCKED = "ACCOUNT_LOCKED",
+  ACCOUNT_UNLOCKED = "ACCOUNT_UNLOCKED",
+
+  // Account lifecycle actions
+  USER_REGISTERED = "USER_REGISTERED",
+  PASSWORD_RESET_REQUESTED = "PASSWORD_RESET_REQUESTED",
+  PASSWORD_RESET_COMPLETED = "PASSWORD_RESET_COMPLETED",
+  EMAIL_VERIFICATION_SENT = "EMAIL_VERIFICATION_SENT",
+  EMAIL_VERIFIED = "EMAIL_VERIFIED",
+  EMAIL_CHANGED = "EMAIL_CHANGED",
+  ACCOUNT_LINKED = "ACCOUNT_LINKED",
+  ACCOUNT_UNLINKED = "ACCOUNT_UNLINKED",
+  SESSION_REVOKED = "SESSION_REVOKED",
+  ALL_SESSIONS_REVOKED = "ALL_SESSIONS_REVOKED",
+  API_TOKEN_CREATED = "API_TOKEN_CREATED",
+  API_TOKEN_REVOKED = "API_TOKEN_REVOKED",
+  INVITATION_CREATED = "INVITATION_CREATED",
+  INVITATION_RESENT = "INVITATION_RESENT",
+  INVITATION_REVOKED = "INVITATION_REVOKED",
+  INVITATION_ACCEPTED = "INVITATION_ACCEPTED",
+  USER_IMPORTED = "USER_IMPORTED",
+  USER_IMPORT_UPDATED = "USER_IMPORT_UPDATED",
+  USER_PROVISIONED = "USER_PROVISIONED",
+  USER_PROVISIONING_UPDATED = "USER_PROVISIONING_UPDATED",
+  DATA_EXPORTED = "DATA_EXPORTED",
+  ACCOUNT_DELETION_REQUESTED = "ACCOUNT_DELETION_REQUESTED",
+  ACCOUNT_DELETION_CANCELLED = "ACCOUNT_DELETION_CANCELLED",
+  ACCOUNT_DELETED = "ACCOUNT_DELETED",
+
+  // Two-factor authentication actions
+  TWO_FACTOR_ENABLED = "TWO_FACTOR_ENABLED",
+  TWO_FACTOR_DISABLED = "TWO_FACTOR_DISABLED",
+  TWO_FACTOR_CHALLENGE_SUCCEEDED = "TWO_FACTOR_CHALLENGE_SUCCEEDED",
+  TWO_FACTOR_CHALLENGE_FAILED = "TWO_FACTOR_CHALLENGE_FAILED",
+  TWO_FACTOR_RECOVERY_CODE_USED = "TWO_FACTOR_RECOVERY_CODE_USED",
 
   // Role management actions
   ROLE_CHANGED = "ROLE_CHANGED",
   USER_ACTIVATED = "USER_ACTIVATED",
   USER_DEACTIVATED = "USER_DEACTIVATED",
+  REACTIVATION_REQUESTED = "REACTIVATION_REQUESTED",
+  REACTIVATION_DENIED = "REACTIVATION_DENIED",
+  ROLE_CREATED = "ROLE_CREATED",
+  ROLE_UPDATED = "ROLE_UPDATED",
+  ROLE_DELETED = "ROLE_DELETED",
+  USER_PERMISSIONS_CHANGED = "USER_PERMISSIONS_CHANGED",
+  ROLE_GRANT_REQUESTED = "ROLE_GRANT_REQUESTED",
+  ROLE_GRANT_APPROVED = "ROLE_GRANT_APPROVED",
+  ROLE_GRANT_DENIED = "ROLE_GRANT_DENIED",
+  ROLE_GRANTED = "ROLE_GRANTED", // Temporary role given directly by an admin
+  ROLE_GRANT_REVOKED = "ROLE_GRANT_REVOKED",
+  ROLE_GRANT_EXPIRED = "ROLE_GRANT_EXPIRED",
+
+  // Workspace actions
+  WORKSPACE_CREATED = "WORKSPACE_CREATED",
+  WORKSPACE_MEMBER_ADDED = "WORKSPACE_MEMBER_ADDED",
+  WORKSPACE_MEMBER_ROLE_CHANGED = "WORKSPACE_MEMBER_ROLE_CHANGED",
+  WORKSPACE_MEMBER_REMOVED = "WORKSPACE_MEMBER_REMOVED",
+  WORKSPACE_SWITCHED = "WORKSPACE_SWITCHED",
+
+  // Impersonation actions
+  IMPERSONATION_STARTED = "IMPERSONATION_STARTED",
+  IMPERSONATION_STOPPED = "IMPERSONATION_STOPPED",
+  IMPERSONATED_REQUEST = "IMPERSONATED_REQUEST",
+  IMPERSONATED_REQUEST_BLOCKED = "IMPERSONATED_REQUEST_BLOCKED",
 
   // Permission actions
   PERMISSION_GRANTED = "PERMISSION_GRANTED",
@@ -31,6 +91,7 @@ export interface AuditLogEntry {
   severity: AuditSeverity;
   userId?: string;
   targetUserId?: string;
+  workspaceId?: string; // Workspace the action happened in; unset for account-level events
   metadata?: Record<string, any>;
   ipAddress?: string;
   userAgent?: string;
@@ -42,6 +103,7 @@ export interface CreateAuditLogParams {
   severity?: AuditSeverity;
   userId?: string;
   targetUserId?: string;
+  workspaceId?: string; // Workspace the action happened in; unset for account-level events
   metadata?: Record<string, any>;
   ipAddress?: string;
   userAgent?: string;
@@ -12,6 +12,11 @@ export enum UserRole {
   USER = "USER",
 }
 
+/**
+ * Role identifier - a built-in UserRole or a custom role created at runtime
+ */
+export type RoleName = UserRole | (string & {});
+
 /**
  * Granular Permission System
  * Each permission represents a specific action that can be performed
@@ -59,30 +64,85 @@ export interface User {
   name: string | null;
   image: string | null;
   username: string | null;
-  role: UserRole;
+  role: RoleName;
   permissions?: Permission[];
-  provider: string | null;
+  permissionOverrides?: PermissionOverrides;
+  provider: string | null; // Provider the account was created with
   providerId: string;
+  accounts?: LinkedAccount[]; // OAuth identities that can sign in to this user
+  externalId?: string | null; // Identity provider's id for users provisioned over SCIM
   isActive: boolean;
   emailVerified: boolean;
+  passwordHash?: string | null;
+  twoFactor?: TwoFactorSettings | null;
   lastLoginAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   metadata?: Record<string, any>;
+  // Set on request users (sessions and API tokens): the active workspace and the
+  // user's role in it, which permissions are resolved from
+  workspaceId?: string;
+  workspaceRole?: RoleName;
+}
+
+/**
+ * TOTP two-factor state (recovery codes are stored hashed)
+ */
+export interface TwoFactorSettings {
+  enabled: boolean;
+  secret: string | null; // Base32 secret, set once enrollment is confirmed
+  pendingSecret?: string | null; // Secret shown during enrollment, not yet verified
+  recoveryCodeHashes: string[];
+  lastUsedStep?: number; // Last accepted TOTP time step, to reject replays
+  enabledAt?: Date;
+}
+
+/**
+ * OAuth provider identity linked to a user
+ */
+export interface LinkedAccount {
+  provider: string;
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean; // As reported by the provider
+  linkedAt: Date;
+}
+
+/**
+ * User shape safe to return from API routes (credential secrets stripped)
+ */
+export type PublicUser = Omit<User, "passwordHash" | "twoFactor"> & {
+  twoFactorEnabled: boolean;
+};
+
+/**
+ * Per-user permission adjustments applied on top of the role's permissions
+ */
+export interface PermissionOverrides {
+  granted: Permission[];
+  revoked: Permission[];
 }
 
 /**
  * Role definition with associated permissions
  */
 export interface RoleDefinition {
-  role: UserRole;
+  role: RoleName;
+  label: string;
   permissions: Permission[];
   description: string;
+  level: number; // Position in the hierarchy - higher levels outrank lower ones
   isDefault?: boolean;
+  isSystem?: boolean; // Built-in roles cannot be deleted or renamed
+  requireTwoFactor?: boolean; // Password sign-ins must pass a TOTP challenge
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 /**
- * Permission check context for middleware
+ * Permission check context for middleware.
+ * `resource` is "<type>" or "<type>:<id>" (e.g. "content:42"); `metadata` holds
+ * resource attributes that policy rules inspect (e.g. authorId, teamId).
  */
 export interface PermissionContext {
   user: User;
@@ -91,16 +151,49 @@ export interface PermissionContext {
   metadata?: Record<string, any>;
 }
 
+/**
+ * How a policy rule combines with role permissions:
+ * - "allow": grants the action without the permission when the condition holds
+ * - "require": must hold in addition to the permission
+ */
+export type PolicyEffect = "allow" | "require";
+
+/**
+ * Resource-level authorization rule evaluated by checkPermission
+ */
+export interface PolicyRule {
+  name: string;
+  resourceType: string;
+  actions: Permission[];
+  effect: PolicyEffect;
+  description: string; // Returned as the reason when the rule denies access
+  condition: (context: PolicyContext) => boolean | Promise<boolean>;
+}
+
+/**
+ * Context passed to policy rule conditions
+ */
+export interface PolicyContext extends PermissionContext {
+  resourceType: string;
+  resourceId?: string;
+}
+
 /**
  * Authentication session with extended user information
  */
 export interface AuthSession extends DefaultSession {
+  sessionId?: string; // Server-side session registry id
+  impersonator?: Impersonator; // Set while an admin is viewing as session.user
   user: {
     id: string;
-    role: UserRole;
+    role: RoleName;
     permissions: Permission[];
     username: string | null;
     isActive: boolean;
+    twoFactorSetupRequired?: boolean;
+    emailVerificationRequired?: boolean;
+    workspaceId?: string; // Active workspace
+    workspaceRole?: RoleName; // Role in the active workspace; permissions come from it
   } & DefaultSession["user"];
 }
 
@@ -109,12 +202,124 @@ export interface AuthSession extends DefaultSession {
  */
 export interface ExtendedJWT {
   userId: string;
-  role: UserRole;
+  role: RoleName;
   permissions: Permission[];
   username: string | null;
   isActive: boolean;
+  sessionId?: string;
+  claimsRefreshedAt?: number; // Epoch ms when role/permissions were last loaded
+  roleGrantExpiresAt?: number; // Epoch ms when the active temporary role ends; claims reload then
+  twoFactorSetupRequired?: boolean; // Role requires 2FA but the user has not enrolled
+  emailVerificationRequired?: boolean; // The user's email is not verified yet
+  workspaceId?: string;
+  workspaceRole?: RoleName;
+  // While impersonating, role/permissions/username/isActive above are the target's
+  // and userId stays the admin's
+  impersonation?: {
+    targetUserId: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+    startedAt: number; // Epoch ms
+    expiresAt: number; // Epoch ms
+    allowDestructive: boolean;
+  };
+}
+
+/**
+ * Admin "view as user" state, stored on the admin's session record
+ */
+export interface ImpersonationState {
+  targetUserId: string;
+  startedAt: Date;
+  expiresAt: Date;
+  allowDestructive: boolean; // Let state-changing requests through
+  reason?: string;
 }
 
+/**
+ * The admin behind an impersonated session, as exposed on the session
+ */
+export interface Impersonator {
+  id: string;
+  name: string | null;
+  email: string | null;
+  allowDestructive: boolean;
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * Server-side record of a signed-in session (the JWT carries its id)
+ */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  impersonation?: ImpersonationState;
+  activeWorkspaceId?: string; // Chosen in the workspace switcher
+  claimsStaleAt?: Date; // Claims loaded before this are reloaded on the next request
+}
+
+/**
+ * Failed sign-ins counted for one email or IP address
+ */
+export interface LoginFailureCount {
+  key: string; // "account:<normalized email>" or "ip:<address>"
+  count: number;
+  windowStart: Date; // The count starts over once its window has passed
+  lockedUntil?: Date;
+  expiresAt: Date; // The end of the window or the lockout, whichever is later
+}
+
+/**
+ * Workspace (organization) that scopes users, chat and the audit log. Members of
+ * one workspace do not see another's data.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  slug: string;
+  createdAt: Date;
+  createdBy: string | null; // Admin user id, null for the built-in default workspace
+}
+
+/**
+ * A user's membership of a workspace, with the role they have there
+ */
+export interface WorkspaceMembership {
+  workspaceId: string;
+  userId: string;
+  role: RoleName;
+  joinedAt: Date;
+}
+
+/**
+ * Personal access token for calling the API without a browser session.
+ * Only the hash of the token is stored; the raw value is shown once.
+ */
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  prefix: string; // First characters of the token, to tell tokens apart in the UI
+  scopes: Permission[]; // Intersected with the user's permissions on every request
+  createdAt: Date;
+  expiresAt: Date | null; // null = never expires
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * API token shape safe to return from API routes
+ */
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
 /**
  * Authentication provider configuration
  */
@@ -132,8 +337,20 @@ export interface AuthProvider {
 export interface PermissionResult {
   granted: boolean;
   reason?: string;
-  requiredRole?: UserRole;
+  requiredRole?: RoleName;
   missingPermissions?: Permission[];
+  rule?: string; // Policy rule that granted or denied access
+}
+
+/**
+ * Where a user's permission comes from
+ */
+export interface PermissionExplanation {
+  permission: Permission;
+  granted: boolean;
+  effectiveRole: RoleName;
+  fromRole: boolean; // The effective role grants it
+  override: "granted" | "revoked" | null; // Per-user override, revocations win
 }
 
 /**
@@ -145,11 +362,16 @@ export interface CreateUserData {
   name: string | null;
   image: string | null;
   username: string | null;
-  role: UserRole;
+  role: RoleName;
+  permissionOverrides?: PermissionOverrides;
   provider: string | null;
   providerId: string;
+  accounts?: LinkedAccount[];
+  externalId?: string | null;
   isActive: boolean;
   emailVerified: boolean;
+  passwordHash?: string | null;
+  twoFactor?: TwoFactorSettings | null;
   createdAt: Date;
   updatedAt: Date;
   metadata?: Record<string, any>;
@@ -159,17 +381,198 @@ export interface CreateUserData {
  * User update data
  */
 export interface UpdateUserData {
+  email?: string;
   name?: string | null;
   image?: string | null;
   username?: string | null;
-  role?: UserRole;
+  role?: RoleName;
+  permissionOverrides?: PermissionOverrides;
+  accounts?: LinkedAccount[];
+  externalId?: string | null;
   isActive?: boolean;
   emailVerified?: boolean;
+  passwordHash?: string | null;
+  twoFactor?: TwoFactorSettings | null;
   lastLoginAt?: Date;
   updatedAt: Date;
   metadata?: Record<string, any>;
 }
 
+export type UserSortField = "name" | "email" | "createdAt" | "lastLoginAt";
+
+/**
+ * Search, filters, sort and cursor for listing users. Users missing the sort
+ * field (no name, never signed in) come last in either direction.
+ */
+export interface UserQuery {
+  search?: string; // Matches name, email and username
+  role?: RoleName;
+  provider?: string;
+  emailVerified?: boolean;
+  isActive?: boolean;
+  sortBy?: UserSortField;
+  sortOrder?: "asc" | "desc";
+  limit?: number;
+  cursor?: string; // nextCursor of the previous page
+  workspaceId?: string;
+}
+
+/**
+ * One page of a user query. nextCursor is null on the last page.
+ */
+export interface UserQueryPage<T = User> {
+  users: T[];
+  total: number; // Users matching the search and filters, across all pages
+  nextCursor: string | null;
+}
+
+/**
+ * Single-use email verification token (only the token hash is stored). It is
+ * only valid while the user still has the email it was sent to.
+ */
+export interface EmailVerificationToken {
+  tokenHash: string;
+  userId: string;
+  email: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+}
+
+/**
+ * Single-use password reset token (only the token hash is stored)
+ */
+export interface PasswordResetToken {
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Invitation for someone who has not signed in yet to join with a preassigned
+ * role (only the accept token hash is stored)
+ */
+export interface Invitation {
+  id: string;
+  email: string;
+  role: RoleName;
+  tokenHash: string;
+  invitedBy: string; // Admin user id
+  createdAt: Date;
+  expiresAt: Date;
+  lastSentAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string; // User id that redeemed the invitation
+  revokedAt?: Date;
+}
+
+export type InvitationStatus = "pending" | "accepted" | "expired" | "revoked";
+
+/**
+ * Invitation shape safe to return from API routes
+ */
+export type PublicInvitation = Omit<Invitation, "tokenHash"> & { status: InvitationStatus };
+
+/**
+ * A deactivated user's request to have their account turned back on
+ */
+export interface ReactivationRequest {
+  id: string;
+  userId: string;
+  email: string; // At the time of the request
+  reason: string;
+  status: ReactivationRequestStatus;
+  createdAt: Date;
+  decidedAt?: Date;
+  decidedBy?: string; // Admin user id
+  decisionNote?: string | null; // Shown to the user
+}
+
+export type ReactivationRequestStatus = "pending" | "approved" | "denied";
+
+/**
+ * A temporary role, requested by the user and approved by an admin or granted
+ * directly by one. While active the user has `role`; once it expires or is
+ * revoked they revert to `previousRole`.
+ */
+export interface RoleGrant {
+  id: string;
+  userId: string;
+  email: string; // At the time of the request
+  role: RoleName;
+  duration: number; // Seconds, counted from activation
+  justification: string;
+  status: RoleGrantStatus;
+  requestedBy: string; // The user for requests, the admin for direct grants
+  requestedAt: Date;
+  decidedBy?: string; // Admin user id
+  decidedAt?: Date;
+  decisionNote?: string | null; // Shown to the requester
+  previousRole?: RoleName; // Set on activation
+  expiresAt?: Date; // Set on activation
+  endedAt?: Date;
+  endedBy?: string; // Admin who revoked it; unset when it expired
+}
+
+export type RoleGrantStatus = "pending" | "active" | "denied" | "expired" | "revoked";
+
+/**
+ * A user's request to have their account deleted. The account is kept until
+ * scheduledFor so the user can change their mind.
+ */
+export interface AccountDeletionRequest {
+  id: string;
+  userId: string;
+  requestedAt: Date;
+  scheduledFor: Date;
+  cancelledAt?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * File format for bulk user import and export
+ */
+export type UserTransferFormat = "csv" | "json";
+
+/**
+ * User fields carried by import and export files. Users are matched by email.
+ */
+export interface UserTransferRecord {
+  email: string;
+  name: string | null;
+  username: string | null;
+  role: RoleName;
+  isActive: boolean;
+}
+
+export type UserImportAction = "create" | "update" | "unchanged" | "error";
+
+/**
+ * Outcome of one import row (planned in a dry run, or applied)
+ */
+export interface UserImportRowResult {
+  row: number; // 1-based, not counting the CSV header
+  email: string;
+  action: UserImportAction;
+  errors: string[];
+  changes?: Partial<{
+    [K in Exclude<keyof UserTransferRecord, "email">]: {
+      from: UserTransferRecord[K] | null;
+      to: UserTransferRecord[K];
+    };
+  }>;
+  userId?: string;
+}
+
+export interface UserImportSummary {
+  create: number;
+  update: number;
+  unchanged: number;
+  error: number;
+}
+
 /**
  * Authentication error types
  */
@@ -248,10 +651,14 @@ export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
 declare module "next-auth" {
   interface Session extends AuthSession {}
   interface User {
-    role?: UserRole;
+    role?: RoleName;
     permissions?: Permission[];
     username?: string | null;
     isActive?: boolean;
+    twoFactorSetupRequired?: boolean;
+    emailVerificationRequired?: boolean;
+    workspaceId?: string;
+    workspaceRole?: RoleName;
   }
 }
 
@@ -282,9 +282,6 @@ export interface ConversationalAvatarProps {
   /** Custom class name */
   className?: string;
 
-  /** User identifier for Dify */
-  userId?: string;
-
   /** TTS provider selection */
   ttsProvider?: "server" | "browser";
 
@@ -1,9 +1,13 @@
 import type { Permission } from "./auth";
+import type { RouteAccess } from "./navigation";
 
 export interface BreadcrumbItem {
   label: string;
   href?: string;
   requiredPermission?: Permission;
+  // Set on items built from the route manifest
+  access?: RouteAccess;
+  requiredPermissions?: Permission[];
   isCurrentPage?: boolean;
 }
 
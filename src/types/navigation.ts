@@ -1,4 +1,78 @@
-import type { Permission } from "./auth";
+import type { Permission, RoleName } from "./auth";
+
+/**
+ * Who may open a route: anyone, any signed-in user, editors and admins, or
+ * admins only (by account role)
+ */
+export type RouteAccess = "public" | "protected" | "editor" | "admin";
+
+/**
+ * Gates a signed-in user can be held at; routes listing one stay reachable
+ * while the user is held there
+ */
+export type RouteGate = "emailVerification" | "twoFactorSetup";
+
+export type NavigationSection = "main" | "footer";
+
+export interface NavigationPlacement {
+  id: string;
+  label: string;
+  section: NavigationSection;
+  // Id of the collapsible group the item is listed under
+  group?: string;
+}
+
+export interface NavigationGroup {
+  id: string;
+  label: string;
+}
+
+export interface RouteDefinition {
+  // Literal path, or a pattern for matchesPath ("/api/admin/.*")
+  pattern: string;
+  access: RouteAccess;
+  permissions?: Permission[];
+  allowDuring?: RouteGate[];
+  nav?: NavigationPlacement;
+  // Label in the trail; parents are the routes at the path's prefixes
+  breadcrumb?: string;
+}
+
+/**
+ * One step of the middleware's access decision, in the order it runs
+ */
+export interface RouteCheck {
+  name: "authentication" | "active" | RouteGate | "role" | "permissions";
+  passed: boolean;
+  detail: string;
+}
+
+/**
+ * How the middleware answers a refused request
+ */
+export interface RouteDenial {
+  check: RouteCheck["name"];
+  status: 401 | 403;
+  error: string; // API response
+  redirectTo: string; // Page requests
+}
+
+/**
+ * The middleware's decision for one path and user, with the trace behind it
+ */
+export interface RouteAccessDecision {
+  path: string;
+  matchedPattern: string | null; // null when no manifest entry matched
+  access: RouteAccess;
+  requiredPermissions: Permission[];
+  accountRole: RoleName | null;
+  effectiveRole: RoleName | null;
+  userPermissions: Permission[];
+  missingPermissions: Permission[];
+  checks: RouteCheck[];
+  allowed: boolean;
+  denial?: RouteDenial;
+}
 
 export interface NavigationItem {
   id: string;
@@ -6,6 +80,9 @@ export interface NavigationItem {
   href: string;
   icon?: React.ComponentType<{ className?: string }>;
   requiredPermission?: Permission;
+  // Set on items built from the route manifest
+  access?: RouteAccess;
+  requiredPermissions?: Permission[];
   children?: NavigationItem[];
   badge?: string | number;
   external?: boolean;
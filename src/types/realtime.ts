@@ -1,4 +1,4 @@
-import type { User, UserRole, Permission } from "./auth";
+import type { User, RoleName, Permission } from "./auth";
 
 // Socket.io event types
 export interface ServerToClientEvents {
@@ -127,6 +127,7 @@ export interface InterServerEvents {
 export interface SocketData {
   userId: string;
   user: AuthenticatedUser;
+  workspaceId: string; // Rooms, presence and messages are scoped to the socket's workspace
   rooms: string[];
   lastActivity: Date;
   subscriptions: string[];
@@ -137,7 +138,7 @@ export interface OnlineUser {
   id: string;
   name: string | null;
   image: string | null;
-  role: UserRole;
+  role: RoleName;
   status: PresenceStatus;
   lastActivity: Date;
   room?: string;
@@ -158,6 +159,7 @@ export interface ChatMessage {
   authorId: string;
   author: Pick<User, "id" | "name" | "image" | "role">;
   channelId: string;
+  workspaceId?: string;
   replyToId?: string;
   attachments?: MessageAttachment[];
   mentions?: string[];
@@ -245,7 +247,7 @@ export interface Announcement {
   priority: "low" | "normal" | "high";
   startDate: Date;
   endDate?: Date;
-  targetRoles?: UserRole[];
+  targetRoles?: RoleName[];
   isActive: boolean;
 }
 
@@ -256,7 +258,7 @@ export interface Room {
   type: RoomType;
   description?: string;
   isPrivate: boolean;
-  allowedRoles: UserRole[];
+  allowedRoles: RoleName[];
   maxUsers?: number;
   currentUsers: OnlineUser[];
   createdAt: Date;
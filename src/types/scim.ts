@@ -0,0 +1,98 @@
+/**
+ * SCIM 2.0 (RFC 7643/7644) resources served under /api/scim/v2
+ */
+
+export interface ScimMeta {
+  resourceType: "User" | "Group";
+  created?: string;
+  lastModified?: string;
+  location: string;
+}
+
+export interface ScimName {
+  formatted?: string;
+  givenName?: string;
+  familyName?: string;
+}
+
+export interface ScimEmail {
+  value: string;
+  type?: string;
+  primary?: boolean;
+}
+
+export interface ScimGroupRef {
+  value: string;
+  display?: string;
+  $ref?: string;
+}
+
+export interface ScimMember {
+  value: string;
+  display?: string;
+  $ref?: string;
+}
+
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name?: ScimName;
+  displayName?: string;
+  emails: ScimEmail[];
+  active: boolean;
+  groups: ScimGroupRef[];
+  meta: ScimMeta;
+}
+
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members?: ScimMember[];
+  meta: ScimMeta;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export interface ScimPatchOperation {
+  op: string; // "add" | "replace" | "remove", case-insensitive
+  path?: string;
+  value?: unknown;
+}
+
+/**
+ * Error detail types from RFC 7644 section 3.12
+ */
+export type ScimErrorType =
+  | "invalidFilter"
+  | "invalidSyntax"
+  | "invalidPath"
+  | "invalidValue"
+  | "mutability"
+  | "noTarget"
+  | "uniqueness";
+
+export interface ScimErrorBody {
+  schemas: string[];
+  status: string;
+  scimType?: ScimErrorType;
+  detail: string;
+}
+
+/**
+ * User fields SCIM can set, parsed from a User resource
+ */
+export interface ScimUserInput {
+  email: string;
+  name: string | null;
+  externalId: string | null;
+  active?: boolean;
+}